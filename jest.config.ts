@@ -52,6 +52,8 @@ export default {
   moduleNameMapper: {
     '^~/(.*)$': '<rootDir>/src/$1',
     'ace-builds': '<rootDir>/node_modules/ace-builds',
+    // The browser build of yaml is only shipped as ESM
+    '^yaml$': '<rootDir>/node_modules/yaml/dist/index.js',
     '\\.(css|less|sass|scss)$': '<rootDir>/__mocks__/styleMock.cjs',
   },
 
@@ -0,0 +1,134 @@
+import { gql } from '@apollo/client'
+
+import { InfiniteScroll, Table, Typography } from '~/components/designSystem'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import { CurrencyEnum, useGetAddOnAmountChangesQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+import { DetailsSectionTitle } from '~/styles/detailsPage'
+
+gql`
+  query getAddOnAmountChanges($addOnId: ID!, $page: Int, $limit: Int) {
+    addOnAmountChanges(addOnId: $addOnId, page: $page, limit: $limit) {
+      collection {
+        id
+        amountCents
+        amountCurrency
+        previousAmountCents
+        previousAmountCurrency
+        createdAt
+        user {
+          id
+          email
+        }
+      }
+      metadata {
+        currentPage
+        totalPages
+      }
+    }
+  }
+`
+
+const formatAmount = (amountCents: string | number, currency: CurrencyEnum) =>
+  intlFormatNumber(deserializeAmount(amountCents, currency), {
+    currencyDisplay: 'symbol',
+    currency,
+  })
+
+export const AddOnAmountHistory = ({ addOnId }: { addOnId: string }) => {
+  const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const { data, loading, error, fetchMore } = useGetAddOnAmountChangesQuery({
+    variables: { addOnId, limit: 20 },
+    notifyOnNetworkStatusChange: true,
+  })
+
+  return (
+    <section className="flex flex-col gap-4">
+      <div className="flex flex-col">
+        <DetailsSectionTitle variant="subhead" noWrap>
+          {translate('text_17924264368416tpout1wxhi')}
+        </DetailsSectionTitle>
+        <Typography variant="caption" color="grey600">
+          {translate('text_1792426436843qyzb6f5175g')}
+        </Typography>
+      </div>
+
+      <InfiniteScroll
+        onBottom={() => {
+          const { currentPage = 0, totalPages = 0 } = data?.addOnAmountChanges.metadata || {}
+
+          currentPage < totalPages &&
+            !loading &&
+            fetchMore({
+              variables: { page: currentPage + 1 },
+            })
+        }}
+      >
+        <Table
+          name="add-on-amount-changes"
+          containerSize={{ default: 0 }}
+          data={data?.addOnAmountChanges.collection || []}
+          isLoading={loading}
+          hasError={!!error}
+          placeholder={{
+            emptyState: {
+              title: translate('text_1792426436856owe6tq7wfg0'),
+              subtitle: translate('text_1792426436858kavlrk40ciy'),
+            },
+          }}
+          columns={[
+            {
+              key: 'createdAt',
+              title: translate('text_1792426436845l14qro4hzfx'),
+              minWidth: 140,
+              content: ({ createdAt }) => (
+                <Typography variant="body" color="grey600" noWrap>
+                  {formatTimeOrgaTZ(createdAt)}
+                </Typography>
+              ),
+            },
+            {
+              key: 'previousAmountCents',
+              title: translate('text_1792426436847dja41x4xxwc'),
+              textAlign: 'right',
+              minWidth: 120,
+              content: ({ previousAmountCents, previousAmountCurrency }) => (
+                <Typography variant="body" color="grey600" noWrap>
+                  {previousAmountCents !== null &&
+                  previousAmountCents !== undefined &&
+                  !!previousAmountCurrency
+                    ? formatAmount(previousAmountCents, previousAmountCurrency)
+                    : '-'}
+                </Typography>
+              ),
+            },
+            {
+              key: 'amountCents',
+              title: translate('text_1792426436849jvrfmvwpsu2'),
+              textAlign: 'right',
+              minWidth: 120,
+              content: ({ amountCents, amountCurrency }) => (
+                <Typography variant="body" color="grey700" noWrap>
+                  {formatAmount(amountCents, amountCurrency)}
+                </Typography>
+              ),
+            },
+            {
+              key: 'user.email',
+              title: translate('text_1792426436852q969ff90sjm'),
+              maxSpace: true,
+              content: ({ user }) => (
+                <Typography variant="body" color="grey700" noWrap>
+                  {user?.email || translate('text_1792426436854nievuj7mk5m')}
+                </Typography>
+              ),
+            },
+          ]}
+        />
+      </InfiniteScroll>
+    </section>
+  )
+}
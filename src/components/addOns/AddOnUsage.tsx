@@ -0,0 +1,117 @@
+import { gql } from '@apollo/client'
+import { useMemo } from 'react'
+
+import { Card, Typography } from '~/components/designSystem'
+import AreaChart from '~/components/designSystem/graphs/AreaChart'
+import ChartHeader from '~/components/designSystem/graphs/ChartHeader'
+import { GenericPlaceholder } from '~/components/GenericPlaceholder'
+import {
+  formatDataForAreaChart,
+  getLastTwelveMonthsNumbersUntilNow,
+  groupAreaChartDataByCurrency,
+} from '~/components/graphs/utils'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import { CurrencyEnum, useGetAddOnRevenuesQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import ErrorImage from '~/public/images/maneki/error.svg'
+import { DetailsSectionTitle } from '~/styles/detailsPage'
+
+gql`
+  query getAddOnRevenues($addOnId: ID!, $months: Int) {
+    addOnRevenues(addOnId: $addOnId, months: $months) {
+      collection {
+        amountCents
+        currency
+        month
+      }
+    }
+  }
+`
+
+interface AddOnUsageProps {
+  addOnId: string
+  amountCurrency: CurrencyEnum
+  customersCount: number
+  invoicesCount: number
+}
+
+export const AddOnUsage = ({
+  addOnId,
+  amountCurrency,
+  customersCount,
+  invoicesCount,
+}: AddOnUsageProps) => {
+  const { translate } = useInternationalization()
+  const { data, loading, error } = useGetAddOnRevenuesQuery({
+    variables: { addOnId, months: 12 },
+  })
+
+  const revenuesByCurrency = useMemo(() => {
+    const revenues = groupAreaChartDataByCurrency(data?.addOnRevenues.collection || [])
+
+    // Display an empty chart in the add-on currency when it has not been invoiced yet
+    return revenues.length
+      ? revenues
+      : [{ currency: amountCurrency, amountCentsSum: 0, months: [] }]
+  }, [data, amountCurrency])
+
+  const months = getLastTwelveMonthsNumbersUntilNow()
+
+  return (
+    <section className="flex flex-col gap-4">
+      <DetailsSectionTitle variant="subhead" noWrap>
+        {translate('text_1792426436828frmo4jkljvv')}
+      </DetailsSectionTitle>
+
+      <Card className="flex-row gap-0 p-0">
+        {[
+          { label: translate('text_1792426436830yz1qdbwgrqh'), value: invoicesCount },
+          { label: translate('text_1792426436832xb7o9wg29zn'), value: customersCount },
+        ].map(({ label, value }) => (
+          <div key={label} className="flex flex-1 flex-col gap-1 px-6 py-4 not-last:shadow-r">
+            <Typography variant="captionHl" color="grey600">
+              {label}
+            </Typography>
+            <Typography variant="subhead" color="grey700">
+              {value}
+            </Typography>
+          </div>
+        ))}
+      </Card>
+
+      {!!error ? (
+        <GenericPlaceholder
+          className="m-0 p-0"
+          title={translate('text_636d023ce11a9d038819b579')}
+          subtitle={translate('text_636d023ce11a9d038819b57b')}
+          image={<ErrorImage width="136" height="104" />}
+        />
+      ) : (
+        revenuesByCurrency.map(({ currency, amountCentsSum, months: revenues }) => (
+          <Card key={`add-on-revenue-${currency}`} className="p-6">
+            <ChartHeader
+              name={translate('text_17924264368376pab0sr4adm', { currency })}
+              tooltipText={translate('text_1792426436839l9bojucrty1')}
+              amount={intlFormatNumber(deserializeAmount(amountCentsSum, currency), {
+                currency,
+              })}
+              period={translate('text_633dae57ca9a923dd53c2097', {
+                fromDate: months[0],
+                toDate: months[months.length - 1],
+              })}
+              loading={loading}
+            />
+            <AreaChart
+              blur={false}
+              loading={loading}
+              data={formatDataForAreaChart(revenues, currency)}
+              hasOnlyZeroValues={amountCentsSum === 0}
+              currency={currency}
+            />
+          </Card>
+        ))
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,289 @@
+import { DateTime } from 'luxon'
+import { ChangeEvent, forwardRef, useImperativeHandle, useRef, useState } from 'react'
+
+import {
+  aggregateSampleEvents,
+  ParsedSampleEvents,
+  parseSampleEvents,
+  SampleEventsAggregation,
+  SampleEventsMetric,
+} from '~/components/billableMetrics/utils'
+import {
+  Alert,
+  Button,
+  Card,
+  Chip,
+  Drawer,
+  DrawerRef,
+  Icon,
+  Typography,
+} from '~/components/designSystem'
+import { TextInput } from '~/components/form'
+import { AggregationTypeEnum } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+export interface AggregationPlaygroundDrawerRef extends DrawerRef {
+  openDrawer: (metric?: SampleEventsMetric) => unknown
+  closeDrawer: () => unknown
+}
+
+const SAMPLE_EVENTS_PLACEHOLDER = [
+  '{"code": "__BILLABLE_METRIC_CODE__", "timestamp": 1728000000, "properties": {"value": "12"}}',
+  '{"code": "__BILLABLE_METRIC_CODE__", "timestamp": 1728003600, "properties": {"value": "8"}}',
+].join('\n')
+
+export const AggregationPlaygroundDrawer = forwardRef<AggregationPlaygroundDrawerRef>((_, ref) => {
+  const { translate } = useInternationalization()
+
+  const drawerRef = useRef<DrawerRef>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [metric, setMetric] = useState<SampleEventsMetric>()
+  const [content, setContent] = useState<string>('')
+  const [fileName, setFileName] = useState<string>()
+  const [parsedEvents, setParsedEvents] = useState<ParsedSampleEvents>()
+  const [aggregation, setAggregation] = useState<SampleEventsAggregation>()
+
+  const resetResults = () => {
+    setParsedEvents(undefined)
+    setAggregation(undefined)
+  }
+
+  useImperativeHandle(ref, () => ({
+    openDrawer: (data) => {
+      setMetric(data)
+      resetResults()
+      drawerRef.current?.openDrawer()
+    },
+    closeDrawer: () => drawerRef.current?.closeDrawer(),
+  }))
+
+  const onRun = () => {
+    if (!metric) return
+
+    const parsed = parseSampleEvents(content)
+
+    setParsedEvents(parsed)
+    setAggregation(aggregateSampleEvents(parsed.events, metric, translate))
+  }
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+
+    // Allow selecting the same file again after editing it
+    event.target.value = ''
+
+    if (!file) return
+
+    setFileName(file.name)
+    setContent(await file.text())
+    resetResults()
+  }
+
+  return (
+    <Drawer
+      className="px-12 pt-12"
+      ref={drawerRef}
+      title={translate('text_1792424180771rnj720cqdjs')}
+      stickyBottomBarClassName="z-10"
+      stickyBottomBar={({ closeDrawer }) => (
+        <div className="flex justify-end gap-3">
+          <Button size="large" variant="quaternary" onClick={closeDrawer}>
+            {translate('text_62f50d26c989ab03196884ae')}
+          </Button>
+          <Button
+            size="large"
+            disabled={!content.trim()}
+            onClick={onRun}
+            data-test="run-aggregation-playground"
+          >
+            {translate('text_1792424180784awxv6e1yn2v')}
+          </Button>
+        </div>
+      )}
+    >
+      <div className="flex flex-col gap-12">
+        <div>
+          <Typography className="mb-1 text-2xl font-semibold text-grey-700">
+            {translate('text_1792424180771rnj720cqdjs')}
+          </Typography>
+          <Typography className="text-base font-normal text-grey-600">
+            {translate('text_17924241807733ec6qrtote2')}
+          </Typography>
+        </div>
+
+        <div className="flex flex-col gap-4 pb-12 shadow-b">
+          <div className="flex items-center justify-between gap-3">
+            <Typography className="text-lg font-semibold text-grey-700">
+              {translate('text_1792424180776cjd2yq1v8yu')}
+            </Typography>
+            <div className="flex items-center gap-3">
+              {!!fileName && (
+                <Typography variant="caption" color="grey600" noWrap>
+                  {fileName}
+                </Typography>
+              )}
+              <input
+                ref={fileInputRef}
+                hidden
+                type="file"
+                accept=".json,.jsonl,.ndjson,.csv,.txt,application/json,text/csv"
+                onChange={onFileChange}
+              />
+              <Button
+                variant="quaternary"
+                size="small"
+                startIcon="paperclip"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {translate('text_1792424180778obr6n59baf9')}
+              </Button>
+            </div>
+          </div>
+
+          <TextInput
+            name="sampleEvents"
+            multiline
+            rows="10"
+            value={content}
+            placeholder={SAMPLE_EVENTS_PLACEHOLDER.replaceAll(
+              '__BILLABLE_METRIC_CODE__',
+              metric?.code || '__BILLABLE_METRIC_CODE__',
+            )}
+            helperText={translate('text_1792424180780yw2xnv7v4w4')}
+            onChange={(value) => {
+              setContent(value)
+              setFileName(undefined)
+              resetResults()
+            }}
+          />
+
+          {!!parsedEvents?.invalidLines.length && (
+            <Alert type="warning">
+              {translate(
+                'text_17924241807829gx4rnugp4k',
+                {
+                  count: parsedEvents.invalidLines.length,
+                  lines: parsedEvents.invalidLines.join(', '),
+                },
+                parsedEvents.invalidLines.length,
+              )}
+            </Alert>
+          )}
+        </div>
+
+        {!!aggregation && !!metric && (
+          <div className="flex flex-col gap-6">
+            <Typography className="text-lg font-semibold text-grey-700">
+              {translate('text_1792424180787n954y7h21ry')}
+            </Typography>
+
+            {metric.aggregationType === AggregationTypeEnum.CustomAgg ? (
+              <Alert type="info">{translate('text_1792424180789leo217dmhem')}</Alert>
+            ) : (
+              <div className="flex flex-col gap-1" data-test="aggregation-playground-result">
+                <Typography variant="captionHl" color="grey600">
+                  {translate('text_17924241807917mku2cvpr4e')}
+                </Typography>
+                <Typography variant="headline" color="grey700">
+                  {aggregation.result}
+                </Typography>
+                {!!metric.roundingFunction && (
+                  <Typography variant="caption" color="grey600">
+                    {translate('text_1792424180793fmsggv05cyc', {
+                      precision: metric.roundingPrecision || 0,
+                    })}
+                  </Typography>
+                )}
+              </div>
+            )}
+
+            {!!aggregation.filters.length && (
+              <div className="flex flex-col gap-2">
+                <Typography variant="bodyHl" color="grey700">
+                  {translate('text_1792424180795k5037on209l')}
+                </Typography>
+                <Card className="gap-0 p-0">
+                  {aggregation.filters.map(({ key, value, eventsCount, result }) => (
+                    <div
+                      key={`playground-filter-${key}-${value}`}
+                      className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+                    >
+                      <Typography className="flex-1" variant="body" color="grey700" noWrap>
+                        {`${key}: ${value}`}
+                      </Typography>
+                      <Typography variant="caption" color="grey600">
+                        {translate(
+                          'text_1792424180798xe6vd3z9px4',
+                          { count: eventsCount },
+                          eventsCount,
+                        )}
+                      </Typography>
+                      <Typography className="w-32 text-right" variant="bodyHl" color="grey700">
+                        {result ?? '-'}
+                      </Typography>
+                    </div>
+                  ))}
+                </Card>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-2">
+              <Typography variant="bodyHl" color="grey700">
+                {translate('text_1792424180800c0j7cbo9bd8')}
+              </Typography>
+              {!aggregation.eventResults.length ? (
+                <Typography variant="caption" color="grey600">
+                  {translate('text_17924241808020gjrruk78oe')}
+                </Typography>
+              ) : (
+                <Card className="gap-0 p-0">
+                  {aggregation.eventResults.map(({ event, value, error, isIgnored }, i) => (
+                    <div
+                      key={`playground-event-${i}`}
+                      className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+                      data-test={`aggregation-playground-event-${i}`}
+                    >
+                      <div className="flex flex-1 flex-col overflow-hidden">
+                        <Typography variant="body" color="grey700" noWrap>
+                          {event.transaction_id || event.code}
+                        </Typography>
+                        <Typography variant="caption" color="grey600">
+                          {DateTime.fromSeconds(event.timestamp, { zone: 'utc' }).toFormat(
+                            'LLL. dd, yyyy HH:mm:ss ZZZZ',
+                          )}
+                        </Typography>
+                      </div>
+                      {isIgnored && (
+                        <Chip size="small" label={translate('text_179242418080508ooygoi3wf')} />
+                      )}
+                      {!!error && (
+                        <div className="flex items-center gap-2 overflow-hidden">
+                          <Icon name="warning-filled" color="warning" />
+                          <Typography variant="caption" color="grey600" noWrap>
+                            {error}
+                          </Typography>
+                        </div>
+                      )}
+                      {value !== undefined && (
+                        <Typography
+                          className="w-32 text-right"
+                          variant="bodyHl"
+                          color="grey700"
+                          noWrap
+                        >
+                          {value}
+                        </Typography>
+                      )}
+                    </div>
+                  ))}
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Drawer>
+  )
+})
+
+AggregationPlaygroundDrawer.displayName = 'AggregationPlaygroundDrawer'
@@ -0,0 +1,285 @@
+import { gql } from '@apollo/client'
+import { ReactNode, useMemo } from 'react'
+
+import {
+  countOrphanedChargeFilters,
+  getRemovedFilterValues,
+} from '~/components/billableMetrics/utils'
+import { Alert, Card, Chip, Skeleton, Typography } from '~/components/designSystem'
+import { useGetBillableMetricImpactQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment ChargesForBillableMetricImpact on Plan {
+    id
+    charges {
+      id
+      billableMetric {
+        id
+      }
+      filters {
+        values
+      }
+    }
+  }
+
+  query getBillableMetricImpact($id: ID!, $integrationsLimit: Int) {
+    billableMetric(id: $id) {
+      id
+      filters {
+        key
+        values
+      }
+      plans {
+        id
+        name
+        code
+        ...ChargesForBillableMetricImpact
+      }
+      overriddenSubscriptions {
+        id
+        name
+        externalId
+        customer {
+          id
+          displayName
+        }
+        plan {
+          id
+          ...ChargesForBillableMetricImpact
+        }
+      }
+      coupons {
+        id
+        name
+        code
+      }
+      integrationMappings {
+        id
+        integrationId
+        externalId
+        externalName
+      }
+    }
+
+    integrations(limit: $integrationsLimit) {
+      collection {
+        ... on NetsuiteIntegration {
+          __typename
+          id
+          name
+        }
+        ... on XeroIntegration {
+          __typename
+          id
+          name
+        }
+        ... on AnrokIntegration {
+          __typename
+          id
+          name
+        }
+      }
+    }
+  }
+`
+
+const INTEGRATIONS_LIMIT = 1000
+
+const ImpactSection = ({
+  title,
+  items,
+}: {
+  title: string
+  items: Array<{ id: string; label: string; caption?: string | null; warning?: string }>
+}) => {
+  if (!items.length) return null
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Typography variant="captionHl" color="grey700">
+        {title}
+      </Typography>
+      <Card className="max-h-48 gap-0 overflow-auto p-0">
+        {items.map(({ id, label, caption, warning }) => (
+          <div key={id} className="flex items-center gap-3 px-4 py-2 not-last:shadow-b">
+            <div className="flex flex-1 flex-col overflow-hidden">
+              <Typography variant="body" color="grey700" noWrap>
+                {label}
+              </Typography>
+              {!!caption && (
+                <Typography variant="caption" color="grey600" noWrap>
+                  {caption}
+                </Typography>
+              )}
+            </div>
+            {!!warning && <Chip size="small" error label={warning} />}
+          </div>
+        ))}
+      </Card>
+    </div>
+  )
+}
+
+interface BillableMetricImpactReportProps {
+  billableMetricId: string
+  // Filters saved by an edition, orphaned charge filters are only reported when set
+  filters?: Array<{ key: string; values: string[] }> | null
+  // Displayed when the billable metric is not used anywhere
+  emptyState?: ReactNode
+}
+
+/**
+ * Lists the plans, overridden subscriptions, coupons and integration mappings using a billable
+ * metric, to be reviewed before deleting or editing it.
+ */
+export const BillableMetricImpactReport = ({
+  billableMetricId,
+  filters,
+  emptyState,
+}: BillableMetricImpactReportProps) => {
+  const { translate } = useInternationalization()
+  const { data, loading } = useGetBillableMetricImpactQuery({
+    variables: { id: billableMetricId, integrationsLimit: INTEGRATIONS_LIMIT },
+    fetchPolicy: 'network-only',
+  })
+  const billableMetric = data?.billableMetric
+
+  const impact = useMemo(() => {
+    if (!billableMetric) return undefined
+
+    const removedFilterValues = filters
+      ? getRemovedFilterValues(billableMetric.filters || [], filters)
+      : {}
+    const remainingFilterKeys = (filters || billableMetric.filters || []).map(({ key }) => key)
+    const countOrphans = (charges?: Parameters<typeof countOrphanedChargeFilters>[1] | null) =>
+      countOrphanedChargeFilters(
+        billableMetricId,
+        charges || [],
+        removedFilterValues,
+        remainingFilterKeys,
+      )
+
+    const plans = billableMetric.plans.map((plan) => ({
+      ...plan,
+      orphanedFiltersCount: countOrphans(plan.charges),
+    }))
+    const subscriptions = billableMetric.overriddenSubscriptions.map((subscription) => ({
+      ...subscription,
+      orphanedFiltersCount: countOrphans(subscription.plan.charges),
+    }))
+
+    return {
+      removedFilterValues,
+      plans,
+      subscriptions,
+      orphanedFiltersCount: [...plans, ...subscriptions].reduce(
+        (acc, { orphanedFiltersCount }) => acc + orphanedFiltersCount,
+        0,
+      ),
+    }
+  }, [billableMetric, billableMetricId, filters])
+
+  if (loading) {
+    return (
+      <div className="mb-8 flex flex-col gap-3">
+        {[0, 1, 2].map((i) => (
+          <Skeleton key={`impact-report-skeleton-${i}`} variant="text" className="w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (!billableMetric || !impact) return null
+
+  const integrationsById = (data?.integrations?.collection || []).reduce<
+    Record<string, { name: string; __typename?: string }>
+  >((acc, integration) => {
+    if ('id' in integration) acc[integration.id] = integration
+
+    return acc
+  }, {})
+  const integrationMappings = billableMetric.integrationMappings || []
+  const hasImpact =
+    !!impact.plans.length ||
+    !!impact.subscriptions.length ||
+    !!billableMetric.coupons.length ||
+    !!integrationMappings.length
+
+  const getOrphanedFiltersWarning = (count: number) =>
+    count ? translate('text_1792425159136m0ncdnph6ay', { count }, count) : undefined
+
+  return (
+    <div className="mb-8 flex flex-col gap-6" data-test="billable-metric-impact-report">
+      {!!impact.orphanedFiltersCount && (
+        <Alert type="danger">
+          {translate(
+            'text_1792425159138ab1h48abglb',
+            {
+              count: impact.orphanedFiltersCount,
+              values: Object.entries(impact.removedFilterValues)
+                .map(([key, values]) => `${key}: ${values.join(', ')}`)
+                .join(' • '),
+            },
+            impact.orphanedFiltersCount,
+          )}
+        </Alert>
+      )}
+
+      {!hasImpact && emptyState}
+
+      <ImpactSection
+        title={translate(
+          'text_1792425159141oo31l0m2ddu',
+          { count: impact.plans.length },
+          impact.plans.length,
+        )}
+        items={impact.plans.map(({ id, name, code, orphanedFiltersCount }) => ({
+          id,
+          label: name,
+          caption: code,
+          warning: getOrphanedFiltersWarning(orphanedFiltersCount),
+        }))}
+      />
+      <ImpactSection
+        title={translate(
+          'text_1792425159143ellh7pjfoy1',
+          { count: impact.subscriptions.length },
+          impact.subscriptions.length,
+        )}
+        items={impact.subscriptions.map(
+          ({ id, name, externalId, customer, orphanedFiltersCount }) => ({
+            id,
+            label: name || externalId,
+            caption: customer.displayName,
+            warning: getOrphanedFiltersWarning(orphanedFiltersCount),
+          }),
+        )}
+      />
+      <ImpactSection
+        title={translate(
+          'text_1792425159145ta3z54jk62m',
+          { count: billableMetric.coupons.length },
+          billableMetric.coupons.length,
+        )}
+        items={billableMetric.coupons.map(({ id, name, code }) => ({
+          id,
+          label: name,
+          caption: code,
+        }))}
+      />
+      <ImpactSection
+        title={translate(
+          'text_17924251591483w8yf3lari9',
+          { count: integrationMappings.length },
+          integrationMappings.length,
+        )}
+        items={integrationMappings.map(({ id, integrationId, externalId, externalName }) => ({
+          id,
+          label: integrationsById[integrationId]?.name || integrationId,
+          caption: externalName ? `${externalName} (${externalId})` : externalId,
+        }))}
+      />
+    </div>
+  )
+}
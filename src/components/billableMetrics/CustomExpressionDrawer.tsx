@@ -1,10 +1,12 @@
 import { Typography } from '@mui/material'
 import { useFormik } from 'formik'
 import { DateTime } from 'luxon'
-import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react'
 import { mixed, object, string } from 'yup'
 
+import { CustomExpressionEditor } from '~/components/billableMetrics/CustomExpressionEditor'
 import {
+  getExpressionPropertyKeys,
   isValidJSON,
   wrappedEvaluateExpression,
   wrappedParseExpression,
@@ -123,6 +125,10 @@ export const CustomExpressionDrawer = forwardRef<
   }))
 
   const hasErrors = !!(formikProps.errors.expression || formikProps.errors.eventPayload)
+  const propertyKeys = useMemo(
+    () => getExpressionPropertyKeys(formikProps.values.eventPayload),
+    [formikProps.values.eventPayload],
+  )
 
   return (
     <Drawer
@@ -176,15 +182,14 @@ export const CustomExpressionDrawer = forwardRef<
         </Typography>
 
         <div className="mb-12 pb-12 shadow-b">
-          <JsonEditorField
+          <CustomExpressionEditor
             name="expression"
             disabled={!localData?.isEditable}
             label={translate('text_17297736554164pkbpqi0ke8')}
-            editorMode="text"
-            customInvalidError={translate('text_1729864793151rrlucly2t6d')}
-            showHelperOnError={true}
-            formikProps={formikProps}
+            value={formikProps.values.expression}
             placeholder={translate('text_1729771640162kaf49b93e20') + '\n'}
+            propertyKeys={propertyKeys}
+            onChange={(value) => formikProps.setFieldValue('expression', value)}
             helperText={
               <div className="mt-1">
                 <Typography className="text-sm font-normal text-grey-600">
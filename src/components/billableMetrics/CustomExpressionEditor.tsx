@@ -0,0 +1,213 @@
+import { Ace } from 'ace-builds'
+import ace from 'ace-builds/src-noconflict/ace'
+import 'ace-builds/src-noconflict/ext-language_tools'
+import { ReactNode, useEffect, useMemo, useRef } from 'react'
+import AceEditor from 'react-ace'
+import { IAnnotation, IMarker } from 'react-ace/lib/types'
+
+import {
+  CUSTOM_EXPRESSION_EVENT_ATTRIBUTES,
+  CUSTOM_EXPRESSION_FUNCTIONS,
+  getExpressionParseError,
+} from '~/components/billableMetrics/utils'
+import { Typography } from '~/components/designSystem'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { tw } from '~/styles/utils'
+
+import './customExpressionEditor.css'
+
+const { Mode: TextMode } = ace.require('ace/mode/text')
+const { TextHighlightRules } = ace.require('ace/mode/text_highlight_rules')
+
+class LagoExpressionHighlightRules extends TextHighlightRules {
+  constructor() {
+    super()
+
+    this.$rules = {
+      start: [
+        { token: 'string', regex: "'(?:[^'\\\\]|\\\\.)*'?" },
+        { token: 'string', regex: '"(?:[^"\\\\]|\\\\.)*"?' },
+        { token: 'constant.numeric', regex: '\\d+(?:\\.\\d+)?' },
+        {
+          token: 'support.function',
+          regex: `\\b(?:${CUSTOM_EXPRESSION_FUNCTIONS.map(({ name }) => name).join('|')})(?=\\s*\\()`,
+        },
+        {
+          token: ['variable.language', 'text', 'keyword', 'text', 'variable.parameter'],
+          regex: '(event)(\\.)(properties)(\\.)([\\w-]+)',
+        },
+        {
+          token: ['variable.language', 'text', 'keyword'],
+          regex: '(event)(\\.)(code|timestamp|properties)\\b',
+        },
+        { token: 'variable.language', regex: '\\bevent\\b' },
+        { token: 'keyword.operator', regex: '[+\\-*/]' },
+        { token: 'paren.lparen', regex: '\\(' },
+        { token: 'paren.rparen', regex: '\\)' },
+        { token: 'text', regex: '\\s+' },
+      ],
+    }
+  }
+}
+
+class LagoExpressionMode extends TextMode {
+  constructor() {
+    super()
+
+    this.HighlightRules = LagoExpressionHighlightRules
+  }
+}
+
+interface CustomExpressionEditorProps {
+  name: string
+  label: string
+  value?: string
+  placeholder?: string
+  disabled?: boolean
+  // Keys of the sample event properties, offered after "event.properties."
+  propertyKeys?: string[]
+  helperText?: ReactNode
+  onChange: (value: string) => void
+  onBlur?: () => void
+}
+
+export const CustomExpressionEditor = ({
+  name,
+  label,
+  value,
+  placeholder,
+  disabled,
+  propertyKeys = [],
+  helperText,
+  onChange,
+  onBlur,
+}: CustomExpressionEditorProps) => {
+  const { translate } = useInternationalization()
+  const mode = useMemo(() => new LagoExpressionMode(), [])
+  const parseError = useMemo(() => getExpressionParseError(value), [value])
+
+  // The completer is registered once on load, it reads the latest completions from this ref
+  const completionsRef = useRef<Ace.Completion[]>([])
+
+  useEffect(() => {
+    completionsRef.current = [
+      ...CUSTOM_EXPRESSION_FUNCTIONS.map(({ name: functionName, args }) => ({
+        caption: `${functionName}(${args.join(', ')})`,
+        snippet: `${functionName}(${args.map((arg, i) => `\${${i + 1}:${arg}}`).join(', ')})`,
+        meta: translate('text_1792424514910tih9kvuzrmh'),
+        score: 100,
+      })),
+      ...CUSTOM_EXPRESSION_EVENT_ATTRIBUTES.map((attribute) => ({
+        caption: attribute,
+        value: attribute,
+        meta: translate('text_1792424514912n43dyb2xeh5'),
+        score: 200,
+      })),
+      ...propertyKeys.map((key) => ({
+        caption: `event.properties.${key}`,
+        value: `event.properties.${key}`,
+        meta: translate('text_17924245149156yo1suwiv2b'),
+        score: 300,
+      })),
+    ]
+  }, [propertyKeys, translate])
+
+  const lines = (value || '').split('\n')
+  const errorRow = parseError ? Math.min(parseError.line, lines.length) - 1 : 0
+  const errorLine = lines[errorRow] || ''
+  // Errors at the end of a line point after its last character, the last one is underlined instead
+  const errorStartColumn = parseError
+    ? Math.max(0, Math.min(parseError.column - 1, errorLine.length - 1))
+    : 0
+  const errorEndColumn =
+    errorStartColumn + Math.max(1, errorLine.slice(errorStartColumn).search(/\s|$/))
+
+  const annotations: IAnnotation[] = parseError
+    ? [
+        {
+          row: errorRow,
+          column: errorStartColumn,
+          text: parseError.message,
+          type: 'error',
+        },
+      ]
+    : []
+  const markers: IMarker[] = parseError
+    ? [
+        {
+          startRow: errorRow,
+          startCol: errorStartColumn,
+          endRow: errorRow,
+          endCol: errorEndColumn,
+          className: 'custom-expression-editor__error',
+          type: 'text',
+        },
+      ]
+    : []
+
+  return (
+    <div className="flex w-full flex-col gap-1">
+      <Typography variant="captionHl" color="textSecondary">
+        {label}
+      </Typography>
+
+      <div
+        className={tw(
+          'relative h-34 overflow-hidden rounded-xl border border-grey-500',
+          !!parseError && 'border-red-600',
+        )}
+        aria-label={name}
+      >
+        <div className="absolute left-0 top-0 h-full w-[42px] bg-grey-100" />
+        <AceEditor
+          className={tw('ace-editor custom-expression-editor', disabled && 'json-editor--disabled')}
+          name={name}
+          mode={mode}
+          value={value}
+          placeholder={placeholder}
+          annotations={annotations}
+          markers={markers}
+          onLoad={(editor) => {
+            editor.renderer.setPadding(4)
+            editor.renderer.setScrollMargin(10, 10, 0, 0)
+            editor.completers = [
+              {
+                // Dots are part of the completed word so "event.pro" suggests the properties
+                identifierRegexps: [/[\w.]/],
+                getCompletions: (_editor, _session, _position, _prefix, callback) =>
+                  callback(null, completionsRef.current),
+              },
+            ]
+          }}
+          onChange={onChange}
+          onBlur={() => onBlur && onBlur()}
+          fontSize={14}
+          width="100%"
+          height="100%"
+          setOptions={{
+            useWorker: false,
+            enableBasicAutocompletion: true,
+            enableLiveAutocompletion: true,
+            enableSnippets: true,
+            showLineNumbers: true,
+            tabSize: 2,
+            showPrintMargin: false,
+            readOnly: disabled,
+          }}
+        />
+      </div>
+
+      {!!parseError && (
+        <Typography variant="caption" color="danger600" data-test="custom-expression-error">
+          {translate('text_1792424514917iltib9y4o9i', {
+            line: parseError.line,
+            column: parseError.column,
+            message: parseError.message,
+          })}
+        </Typography>
+      )}
+
+      {helperText}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { gql } from '@apollo/client'
 import { forwardRef, useImperativeHandle, useRef } from 'react'
 
+import { BillableMetricImpactReport } from '~/components/billableMetrics/BillableMetricImpactReport'
 import { DialogRef, Skeleton, Typography } from '~/components/designSystem'
 import { WarningDialog } from '~/components/WarningDialog'
 import { addToast } from '~/core/apolloClient'
@@ -134,7 +135,9 @@ export const DeleteBillableMetricDialog = forwardRef<DeleteBillableMetricDialogR
         })
       }
       continueText={translate('text_6256f824b6368e01153caa4d')}
-    />
+    >
+      {!loading && !!id && <BillableMetricImpactReport billableMetricId={id} />}
+    </WarningDialog>
   )
 })
 
@@ -0,0 +1,407 @@
+import {
+  aggregateSampleEvents,
+  countOrphanedChargeFilters,
+  getExpressionParseError,
+  getExpressionPropertyKeys,
+  getRemovedFilterValues,
+  inferBillableMetricFromEvents,
+  InferredPropertyKindEnum,
+  parseSampleEvents,
+  SampleEvent,
+  wrappedParseExpression,
+} from '~/components/billableMetrics/utils'
+import { AggregationTypeEnum, RoundingFunctionEnum } from '~/generated/graphql'
+
+// The expression engine is a WebAssembly module, the tests only need a predictable result
+jest.mock('lago-expression', () => ({
+  parseExpression: (expression: string) => {
+    if (expression.endsWith('.')) {
+      // Errors are thrown as strings by the WebAssembly module
+      throw ` --> 1:${expression.length + 1}\n  |\n1 | ${expression}\n  |  ^---\n  |\n  = expected property_name`
+    }
+
+    if (expression.includes('$')) throw 'unknown parsing error'
+
+    return expression
+  },
+  evaluateExpression: (
+    _expression: string,
+    _code: string,
+    _timestamp: bigint,
+    properties: Record<string, string>,
+  ) => {
+    if (!properties.tokens) throw new Error('Variable not found: tokens')
+
+    return Number(properties.tokens) * Number(properties.replicas)
+  },
+}))
+
+const translate = (key: string) => key
+
+const buildEvent = (
+  timestamp: number,
+  properties: Record<string, string>,
+  code = 'api_calls',
+): SampleEvent => ({ code, timestamp, properties })
+
+// 2024-10-01T00:00:00Z
+const OCTOBER_START = 1727740800
+const OCTOBER_SECONDS = 31 * 24 * 3600
+
+describe('billable metrics utils', () => {
+  describe('parseSampleEvents', () => {
+    it('reads JSON lines with or without the API wrapper', () => {
+      const { events, invalidLines } = parseSampleEvents(
+        [
+          '{"event": {"code": "api_calls", "timestamp": 1727740800, "properties": {"value": 12}}}',
+          '',
+          '{"code": "api_calls", "timestamp": "2024-10-01T01:00:00Z", "properties": {"value": "8"}}',
+          '{"code": "api_calls"}',
+          'not json',
+        ].join('\n'),
+      )
+
+      expect(events).toEqual([
+        expect.objectContaining({ timestamp: 1727740800, properties: { value: '12' } }),
+        expect.objectContaining({ timestamp: 1727744400, properties: { value: '8' } }),
+      ])
+      expect(invalidLines).toEqual([4, 5])
+    })
+
+    it('reads JSON arrays and batch payloads with timestamps in milliseconds', () => {
+      const content = '[{"code": "api_calls", "timestamp": 1727740800000, "properties": {}}]'
+
+      expect(parseSampleEvents(content).events).toEqual([
+        { code: 'api_calls', timestamp: 1727740800, properties: {} },
+      ])
+      expect(parseSampleEvents(`{"events": ${content}}`).events).toHaveLength(1)
+    })
+
+    it('reads CSV columns as event attributes or properties', () => {
+      const { events, invalidLines } = parseSampleEvents(
+        [
+          'transaction_id,code,timestamp,properties.region,value',
+          'trx_1,api_calls,1727740800,eu,"1,5"',
+          'trx_2,,1727740800,us,2',
+        ].join('\n'),
+      )
+
+      expect(events).toEqual([
+        {
+          transaction_id: 'trx_1',
+          external_subscription_id: undefined,
+          code: 'api_calls',
+          timestamp: 1727740800,
+          properties: { region: 'eu', value: '1,5' },
+        },
+      ])
+      expect(invalidLines).toEqual([3])
+    })
+
+    it('reads every CSV line with the delimiter of the first line', () => {
+      const { events, invalidLines } = parseSampleEvents(
+        [
+          'transaction_id;code;timestamp;value',
+          'trx_1;api_calls;1727740800;1,5',
+          'trx_2,api_calls,1727740800,2',
+        ].join('\n'),
+      )
+
+      expect(events).toEqual([
+        expect.objectContaining({ transaction_id: 'trx_1', properties: { value: '1,5' } }),
+      ])
+      expect(invalidLines).toEqual([3])
+    })
+  })
+
+  describe('aggregateSampleEvents', () => {
+    const events = [
+      buildEvent(OCTOBER_START + 3600, { value: '4', region: 'eu' }),
+      buildEvent(OCTOBER_START, { value: '10', region: 'us' }),
+      buildEvent(OCTOBER_START + 7200, { value: '4', region: 'eu' }),
+      buildEvent(OCTOBER_START + 7200, { value: '100' }, 'other_code'),
+    ]
+
+    it.each([
+      [AggregationTypeEnum.CountAgg, '3'],
+      [AggregationTypeEnum.SumAgg, '18'],
+      [AggregationTypeEnum.MaxAgg, '10'],
+      [AggregationTypeEnum.UniqueCountAgg, '2'],
+      [AggregationTypeEnum.LatestAgg, '4'],
+    ])('aggregates the matching events with %s', (aggregationType, result) => {
+      expect(
+        aggregateSampleEvents(
+          events,
+          { code: 'api_calls', aggregationType, fieldName: 'value' },
+          translate,
+        ).result,
+      ).toBe(result)
+    })
+
+    it('weights the running total over the month of the events', () => {
+      const { result } = aggregateSampleEvents(
+        [
+          buildEvent(OCTOBER_START, { value: '10' }),
+          buildEvent(OCTOBER_START + OCTOBER_SECONDS / 2, { value: '-10' }),
+        ],
+        {
+          code: 'api_calls',
+          aggregationType: AggregationTypeEnum.WeightedSumAgg,
+          fieldName: 'value',
+        },
+        translate,
+      )
+
+      expect(result).toBe('5')
+    })
+
+    it('flags ignored and invalid events and breaks the result down by filter', () => {
+      const { eventResults, filters } = aggregateSampleEvents(
+        [...events, buildEvent(OCTOBER_START, { value: 'abc' }), buildEvent(OCTOBER_START, {})],
+        {
+          code: 'api_calls',
+          aggregationType: AggregationTypeEnum.SumAgg,
+          fieldName: 'value',
+          filters: [{ key: 'region', values: ['eu', 'us', 'apac'] }],
+        },
+        translate,
+      )
+
+      expect(
+        eventResults.map(({ value, error, isIgnored }) => ({ value, error, isIgnored })),
+      ).toEqual([
+        { value: '10', error: undefined, isIgnored: undefined },
+        { value: undefined, error: 'text_17924241807693iko06gl9rj', isIgnored: undefined },
+        { value: undefined, error: 'text_17924241807671nzd27q5yie', isIgnored: undefined },
+        { value: '4', error: undefined, isIgnored: undefined },
+        { value: '4', error: undefined, isIgnored: undefined },
+        { value: undefined, error: undefined, isIgnored: true },
+      ])
+      expect(filters).toEqual([
+        { key: 'region', value: 'eu', eventsCount: 2, result: '8' },
+        { key: 'region', value: 'us', eventsCount: 1, result: '10' },
+        { key: 'region', value: 'apac', eventsCount: 0, result: '0' },
+      ])
+    })
+
+    it('evaluates the custom expression of each event', () => {
+      const { eventResults, result } = aggregateSampleEvents(
+        [
+          buildEvent(OCTOBER_START, { tokens: '3', replicas: '2' }),
+          buildEvent(OCTOBER_START, { replicas: '2' }),
+        ],
+        {
+          code: 'api_calls',
+          aggregationType: AggregationTypeEnum.SumAgg,
+          fieldName: 'total',
+          expression: 'event.properties.tokens * event.properties.replicas',
+        },
+        translate,
+      )
+
+      expect(eventResults[0].value).toBe('6')
+      expect(eventResults[1].error).toBe('Error: Variable not found: tokens')
+      expect(result).toBe('6')
+    })
+
+    it.each([
+      [RoundingFunctionEnum.Round, 2, '3.46'],
+      [RoundingFunctionEnum.Ceil, 0, '4'],
+      [RoundingFunctionEnum.Floor, 1, '3.4'],
+      [RoundingFunctionEnum.Round, -1, '0'],
+    ])(
+      'applies the %s rounding with a precision of %s',
+      (roundingFunction, roundingPrecision, result) => {
+        expect(
+          aggregateSampleEvents(
+            [buildEvent(OCTOBER_START, { value: '3.456' })],
+            {
+              code: 'api_calls',
+              aggregationType: AggregationTypeEnum.SumAgg,
+              fieldName: 'value',
+              roundingFunction,
+              roundingPrecision,
+            },
+            translate,
+          ).result,
+        ).toBe(result)
+      },
+    )
+  })
+
+  describe('getExpressionParseError', () => {
+    it('returns nothing for empty or valid expressions', () => {
+      expect(getExpressionParseError('')).toBeUndefined()
+      expect(getExpressionParseError('event.properties.tokens * 2')).toBeUndefined()
+      expect(wrappedParseExpression('event.properties.tokens * 2')).toBe(true)
+    })
+
+    it('reads the position and message of the parser error', () => {
+      expect(getExpressionParseError('event.properties.')).toEqual({
+        line: 1,
+        column: 18,
+        message: 'expected property_name',
+      })
+      expect(wrappedParseExpression('event.properties.')).toBe(false)
+    })
+
+    it('falls back to the start of the expression for unknown errors', () => {
+      expect(getExpressionParseError('$')).toEqual({
+        line: 1,
+        column: 1,
+        message: 'unknown parsing error',
+      })
+    })
+  })
+
+  describe('getExpressionPropertyKeys', () => {
+    it('returns the property keys of the sample payload', () => {
+      const payload = {
+        event: {
+          transaction_id: 'trx_1',
+          external_subscription_id: 'sub_1',
+          code: 'api_calls',
+          timestamp: 1727740800,
+          properties: { tokens: '3', replicas: '2' },
+        },
+      }
+
+      expect(getExpressionPropertyKeys(payload)).toEqual(['tokens', 'replicas'])
+      expect(getExpressionPropertyKeys(JSON.stringify(payload))).toEqual(['tokens', 'replicas'])
+      expect(getExpressionPropertyKeys('{ invalid')).toEqual([])
+    })
+  })
+
+  describe('inferBillableMetricFromEvents', () => {
+    const buildPayload = (properties: Record<string, unknown>) => ({
+      event: { code: 'storage_used', transaction_id: 'trx', properties },
+    })
+
+    it('sums the numeric property sent by most events and suggests categorical filters', () => {
+      const { properties, values } = inferBillableMetricFromEvents('storage_used', [
+        buildPayload({ gb: 12, region: 'eu', user_id: 'usr_1' }),
+        buildPayload({ gb: '3.5', region: 'us', user_id: 'usr_2' }),
+        buildPayload({ gb: 1, region: 'eu', user_id: 'usr_3', replicas: 2 }),
+        // Payloads sent without the "event" wrapper
+        { code: 'storage_used', properties: { gb: 4, region: 'eu', user_id: 'usr_4' } },
+      ])
+
+      expect(properties).toEqual([
+        {
+          key: 'gb',
+          kind: InferredPropertyKindEnum.numeric,
+          eventsCount: 4,
+          values: ['1', '12', '3.5', '4'],
+        },
+        {
+          key: 'region',
+          kind: InferredPropertyKindEnum.categorical,
+          eventsCount: 4,
+          values: ['eu', 'us'],
+        },
+        {
+          key: 'user_id',
+          kind: InferredPropertyKindEnum.identifier,
+          eventsCount: 4,
+          values: ['usr_1', 'usr_2', 'usr_3', 'usr_4'],
+        },
+        { key: 'replicas', kind: InferredPropertyKindEnum.numeric, eventsCount: 1, values: ['2'] },
+      ])
+      expect(values).toEqual({
+        name: 'Storage used',
+        code: 'storage_used',
+        aggregationType: AggregationTypeEnum.SumAgg,
+        fieldName: 'gb',
+        filters: [{ key: 'region', values: ['eu', 'us'] }],
+      })
+    })
+
+    it('counts unique identifiers when no property is numeric', () => {
+      const { values } = inferBillableMetricFromEvents('seats', [
+        buildPayload({ user_id: 'usr_1' }),
+        buildPayload({ user_id: 'usr_2' }),
+      ])
+
+      expect(values).toEqual(
+        expect.objectContaining({
+          aggregationType: AggregationTypeEnum.UniqueCountAgg,
+          fieldName: 'user_id',
+          filters: [],
+        }),
+      )
+    })
+
+    it('counts events without usable properties and skips filters with too many values', () => {
+      const { values } = inferBillableMetricFromEvents(
+        'page_views',
+        Array.from({ length: 30 }, (_, i) =>
+          buildPayload({ page: `page_${i % 25}`, metadata: { nested: true } }),
+        ),
+      )
+
+      expect(values).toEqual(
+        expect.objectContaining({
+          aggregationType: AggregationTypeEnum.CountAgg,
+          fieldName: undefined,
+          filters: [],
+        }),
+      )
+    })
+  })
+
+  describe('getRemovedFilterValues', () => {
+    it('returns the removed values by filter key', () => {
+      expect(
+        getRemovedFilterValues(
+          [
+            { key: 'region', values: ['eu', 'us', 'asia'] },
+            { key: 'cloud', values: ['aws', 'gcp'] },
+            { key: 'tier', values: ['free'] },
+          ],
+          [
+            { key: 'region', values: ['eu', 'africa'] },
+            { key: 'tier', values: ['free'] },
+          ],
+        ),
+      ).toEqual({ region: ['us', 'asia'], cloud: ['aws', 'gcp'] })
+    })
+
+    it('returns nothing when filters are only added', () => {
+      expect(getRemovedFilterValues([], [{ key: 'region', values: ['eu'] }])).toEqual({})
+    })
+  })
+
+  describe('countOrphanedChargeFilters', () => {
+    const charges: Parameters<typeof countOrphanedChargeFilters>[1] = [
+      {
+        billableMetric: { id: 'bm1' },
+        filters: [
+          { values: { region: ['eu'] } },
+          { values: { region: ['us'], tier: ['free'] } },
+          { values: { cloud: ['__ALL_FILTER_VALUES__'] } },
+        ],
+      },
+      {
+        billableMetric: { id: 'bm2' },
+        filters: [{ values: { region: ['us'] } }],
+      },
+      { billableMetric: { id: 'bm1' }, filters: null },
+    ]
+
+    it('counts the filters of the billable metric charges using a removed value', () => {
+      expect(
+        countOrphanedChargeFilters('bm1', charges, { region: ['us'] }, ['region', 'tier', 'cloud']),
+      ).toBe(1)
+    })
+
+    it('counts the filters on all the values of a removed key', () => {
+      expect(
+        countOrphanedChargeFilters('bm1', charges, { cloud: ['aws'] }, ['region', 'tier']),
+      ).toBe(1)
+    })
+
+    it('returns 0 when no value is removed', () => {
+      expect(countOrphanedChargeFilters('bm1', charges, {}, ['region', 'tier', 'cloud'])).toBe(0)
+    })
+  })
+})
@@ -1,6 +1,15 @@
+import Decimal from 'decimal.js'
 import { evaluateExpression, parseExpression } from 'lago-expression'
+import { DateTime } from 'luxon'
 
 import { EventPayload, ValidationResult } from '~/components/billableMetrics/CustomExpressionDrawer'
+import { parseCsvRows } from '~/core/utils/csv'
+import {
+  AggregationTypeEnum,
+  CreateBillableMetricInput,
+  RoundingFunctionEnum,
+  WeightedIntervalEnum,
+} from '~/generated/graphql'
 import { TranslateFunc } from '~/hooks/core/useInternationalization'
 
 const REQUIRED_EVENT_FIELDS: Array<keyof EventPayload['event']> = [
@@ -53,12 +62,60 @@ export const wrappedParseExpression = (expression?: string | null): boolean => {
     return false
   }
 
+  return !getExpressionParseError(expression)
+}
+
+export type ExpressionParseError = {
+  // 1-based position of the error, as reported by the parser
+  line: number
+  column: number
+  message: string
+}
+
+// Parser errors read like " --> 1:18\n  |\n1 | event.properties.\n  |   ^---\n  |\n  = expected property_name"
+const EXPRESSION_ERROR_POSITION_REGEX = /-->\s*(\d+):(\d+)/
+const EXPRESSION_ERROR_MESSAGE_REGEX = /=\s*(.+)$/m
+
+export const getExpressionParseError = (
+  expression?: string | null,
+): ExpressionParseError | undefined => {
+  if (!expression) return undefined
+
   try {
     parseExpression(expression)
 
-    return true
+    return undefined
+  } catch (e) {
+    const error = String(e)
+    const [, line = '1', column = '1'] = error.match(EXPRESSION_ERROR_POSITION_REGEX) || []
+    const [, message] = error.match(EXPRESSION_ERROR_MESSAGE_REGEX) || []
+
+    return {
+      line: Number(line),
+      column: Number(column),
+      message: (message || error).trim(),
+    }
+  }
+}
+
+export const CUSTOM_EXPRESSION_FUNCTIONS = [
+  { name: 'round', args: ['value', 'precision'] },
+  { name: 'ceil', args: ['value'] },
+  { name: 'floor', args: ['value'] },
+  { name: 'concat', args: ['value', 'value'] },
+]
+
+export const CUSTOM_EXPRESSION_EVENT_ATTRIBUTES = ['event.code', 'event.timestamp']
+
+// Property keys of the sample payload, offered as completions in the expression editor
+export const getExpressionPropertyKeys = (payload?: EventPayload | string | null): string[] => {
+  try {
+    const eventPayload: EventPayload | undefined =
+      typeof payload === 'string' ? JSON.parse(payload) : payload
+
+    return Object.keys(eventPayload?.event?.properties || {})
   } catch {
-    return false
+    return []
   }
 }
 
@@ -81,3 +138,520 @@ export const isValidJSON = (json?: unknown) => {
     return false
   }
 }
+
+export type SampleEvent = {
+  transaction_id?: string
+  external_subscription_id?: string
+  code: string
+  // Unix timestamp in seconds
+  timestamp: number
+  properties: Record<string, string>
+}
+
+export type ParsedSampleEvents = {
+  events: SampleEvent[]
+  // 1-based line numbers (or positions in a JSON array) of the events that could not be read
+  invalidLines: number[]
+}
+
+const SAMPLE_EVENT_CSV_ATTRIBUTES = [
+  'transaction_id',
+  'external_subscription_id',
+  'code',
+  'timestamp',
+]
+
+// Timestamps are sent in seconds, milliseconds are accepted as the custom expression drawer uses them
+const parseSampleEventTimestamp = (timestamp: unknown): number | undefined => {
+  if (timestamp === null || timestamp === undefined || timestamp === '') return undefined
+
+  if (!isNaN(Number(timestamp))) {
+    const value = Number(timestamp)
+
+    return value > 100_000_000_000 ? value / 1000 : value
+  }
+
+  const date = DateTime.fromISO(String(timestamp), { zone: 'utc' })
+
+  return date.isValid ? date.toSeconds() : undefined
+}
+
+const parseSampleEvent = (payload: unknown): SampleEvent | undefined => {
+  if (!payload || typeof payload !== 'object') return undefined
+
+  // Events can be pasted as sent to the API, wrapped in an "event" attribute
+  const event = ('event' in payload ? payload.event : payload) as Record<string, unknown>
+  const timestamp = parseSampleEventTimestamp(event?.timestamp)
+
+  if (!event?.code || timestamp === undefined) return undefined
+
+  return {
+    transaction_id: event.transaction_id ? String(event.transaction_id) : undefined,
+    external_subscription_id: event.external_subscription_id
+      ? String(event.external_subscription_id)
+      : undefined,
+    code: String(event.code),
+    timestamp,
+    properties: Object.entries((event.properties || {}) as Record<string, unknown>).reduce<
+      Record<string, string>
+    >((acc, [key, value]) => {
+      if (value !== null && value !== undefined) acc[key] = String(value)
+
+      return acc
+    }, {}),
+  }
+}
+
+/**
+ * Reads sample events pasted or uploaded in the aggregation playground. Supported formats are
+ * a JSON array or a batch payload, JSON lines and CSV with a header row, in which the columns
+ * other than the event attributes are the event properties.
+ */
+export const parseSampleEvents = (content: string): ParsedSampleEvents => {
+  const trimmedContent = content.trim()
+  const events: SampleEvent[] = []
+  const invalidLines: number[] = []
+
+  if (!trimmedContent) return { events, invalidLines }
+
+  if (trimmedContent.startsWith('[') || trimmedContent.startsWith('{"events"')) {
+    try {
+      const json = JSON.parse(trimmedContent)
+      const payloads: unknown[] = Array.isArray(json) ? json : json.events || []
+
+      payloads.forEach((payload, i) => {
+        const event = parseSampleEvent(payload)
+
+        event ? events.push(event) : invalidLines.push(i + 1)
+      })
+
+      return { events, invalidLines }
+    } catch {
+      // Not a single JSON document, read it line by line
+    }
+  }
+
+  if (trimmedContent.startsWith('{')) {
+    const lines = content
+      .split(/\r?\n/)
+      .map((line, i) => ({ lineNumber: i + 1, line: line.trim() }))
+      .filter(({ line }) => !!line)
+
+    lines.forEach(({ lineNumber, line }) => {
+      try {
+        const event = parseSampleEvent(JSON.parse(line))
+
+        event ? events.push(event) : invalidLines.push(lineNumber)
+      } catch {
+        invalidLines.push(lineNumber)
+      }
+    })
+
+    return { events, invalidLines }
+  }
+
+  const [header, ...rows] = parseCsvRows(content)
+  const columns = header.cells.map((column) => column.replace(/^properties\./, ''))
+
+  rows.forEach(({ lineNumber, cells }) => {
+    const event = parseSampleEvent(
+      columns.reduce<Record<string, unknown> & { properties: Record<string, string> }>(
+        (acc, column, i) => {
+          if (!cells[i]) return acc
+
+          if (SAMPLE_EVENT_CSV_ATTRIBUTES.includes(column)) {
+            acc[column] = cells[i]
+          } else {
+            acc.properties[column] = cells[i]
+          }
+
+          return acc
+        },
+        { properties: {} },
+      ),
+    )
+
+    event ? events.push(event) : invalidLines.push(lineNumber)
+  })
+
+  return { events, invalidLines }
+}
+
+export type SampleEventsMetric = {
+  code: string
+  aggregationType: AggregationTypeEnum
+  fieldName?: string | null
+  // Only set when the metric aggregates on a custom expression
+  expression?: string | null
+  roundingFunction?: RoundingFunctionEnum | null
+  roundingPrecision?: number | null
+  weightedInterval?: WeightedIntervalEnum | null
+  filters?: Array<{ key: string; values: string[] }> | null
+}
+
+export type SampleEventResult = {
+  event: SampleEvent
+  // Value of the event taken into account by the aggregation
+  value?: string
+  error?: string
+  // Events sent with another code are not aggregated by the metric
+  isIgnored?: boolean
+}
+
+export type SampleEventsFilterAggregation = {
+  key: string
+  value: string
+  eventsCount: number
+  result: string | null
+}
+
+export type SampleEventsAggregation = {
+  eventResults: SampleEventResult[]
+  // Null for custom aggregations, which can only be computed by the API
+  result: string | null
+  filters: SampleEventsFilterAggregation[]
+}
+
+const NUMERIC_AGGREGATION_TYPES = [
+  AggregationTypeEnum.SumAgg,
+  AggregationTypeEnum.MaxAgg,
+  AggregationTypeEnum.WeightedSumAgg,
+]
+
+const ROUNDING_FUNCTION_MODES: Record<RoundingFunctionEnum, Decimal.Rounding> = {
+  [RoundingFunctionEnum.Round]: Decimal.ROUND_HALF_UP,
+  [RoundingFunctionEnum.Ceil]: Decimal.ROUND_CEIL,
+  [RoundingFunctionEnum.Floor]: Decimal.ROUND_FLOOR,
+}
+
+const isNumericValue = (value?: string) =>
+  value !== undefined && value !== '' && !isNaN(Number(value))
+
+const WEIGHTED_INTERVAL_SECONDS: Record<WeightedIntervalEnum, number> = {
+  [WeightedIntervalEnum.Seconds]: 1,
+}
+
+// A negative precision rounds to tens, hundreds...
+const roundAggregatedValue = (
+  value: string,
+  roundingFunction?: RoundingFunctionEnum | null,
+  roundingPrecision?: number | null,
+) => {
+  if (!roundingFunction || !isNumericValue(value)) return value
+
+  const factor = new Decimal(10).pow(roundingPrecision || 0)
+
+  return new Decimal(value)
+    .mul(factor)
+    .toDecimalPlaces(0, ROUNDING_FUNCTION_MODES[roundingFunction])
+    .div(factor)
+    .toString()
+}
+
+/**
+ * Values are added to a running total, which is weighted by the time it stays unchanged over
+ * the calendar months of the events, as they would be over a monthly billing period.
+ */
+const getWeightedSum = (results: SampleEventResult[], weightedInterval: WeightedIntervalEnum) => {
+  const intervalSeconds = WEIGHTED_INTERVAL_SECONDS[weightedInterval]
+  const from = DateTime.fromSeconds(results[0].event.timestamp, { zone: 'utc' })
+    .startOf('month')
+    .toSeconds()
+  const to = DateTime.fromSeconds(results[results.length - 1].event.timestamp, { zone: 'utc' })
+    .endOf('month')
+    .plus({ milliseconds: 1 })
+    .toSeconds()
+  let total = new Decimal(0)
+  let weightedTotal = new Decimal(0)
+
+  results.forEach(({ event, value }, i) => {
+    const nextTimestamp = results[i + 1]?.event.timestamp ?? to
+
+    total = total.plus(value as string)
+    weightedTotal = weightedTotal.plus(
+      total.mul(new Decimal(nextTimestamp - event.timestamp).div(intervalSeconds)),
+    )
+  })
+
+  return weightedTotal.div(new Decimal(to - from).div(intervalSeconds)).toString()
+}
+
+const aggregateSampleEventResults = (
+  results: SampleEventResult[],
+  { aggregationType, weightedInterval }: SampleEventsMetric,
+): string | null => {
+  switch (aggregationType) {
+    case AggregationTypeEnum.CountAgg:
+      return String(results.length)
+    case AggregationTypeEnum.UniqueCountAgg:
+      return String(new Set(results.map(({ value }) => value)).size)
+    case AggregationTypeEnum.LatestAgg:
+      return results[results.length - 1]?.value ?? '0'
+    case AggregationTypeEnum.MaxAgg:
+      return results.length
+        ? Decimal.max(...results.map(({ value }) => value as string)).toString()
+        : '0'
+    case AggregationTypeEnum.SumAgg:
+      return results
+        .reduce((acc, { value }) => acc.plus(value as string), new Decimal(0))
+        .toString()
+    case AggregationTypeEnum.WeightedSumAgg:
+      return results.length
+        ? getWeightedSum(results, weightedInterval || WeightedIntervalEnum.Seconds)
+        : '0'
+    default:
+      return null
+  }
+}
+
+/**
+ * Computes what a billable metric would aggregate for a batch of sample events: the value of
+ * each event, the aggregated result and its breakdown for each value of the metric filters.
+ */
+export const aggregateSampleEvents = (
+  events: SampleEvent[],
+  metric: SampleEventsMetric,
+  translate: TranslateFunc,
+): SampleEventsAggregation => {
+  const eventResults = [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map<SampleEventResult>((event) => {
+      if (!!metric.code && event.code !== metric.code) return { event, isIgnored: true }
+
+      if (metric.aggregationType === AggregationTypeEnum.CountAgg) return { event, value: '1' }
+
+      let value: string | undefined
+
+      if (metric.expression) {
+        const { result, error } = wrappedEvaluateExpression(
+          metric.expression,
+          {
+            event: {
+              ...event,
+              // The expression engine only accepts whole seconds
+              timestamp: Math.floor(event.timestamp),
+            },
+          } as EventPayload,
+          translate,
+        )
+
+        if (error) return { event, error }
+
+        value = result === null || result === undefined ? undefined : String(result)
+      } else {
+        value = metric.fieldName ? event.properties[metric.fieldName] : undefined
+      }
+
+      if (value === undefined || value === '') {
+        return {
+          event,
+          error: translate('text_17924241807671nzd27q5yie', { field: metric.fieldName || '' }),
+        }
+      }
+
+      if (NUMERIC_AGGREGATION_TYPES.includes(metric.aggregationType) && !isNumericValue(value)) {
+        return { event, error: translate('text_17924241807693iko06gl9rj', { value }) }
+      }
+
+      return { event, value }
+    })
+
+  const aggregatedResults = eventResults.filter(({ value }) => value !== undefined)
+
+  const aggregate = (results: SampleEventResult[]) => {
+    const result = aggregateSampleEventResults(results, metric)
+
+    return result === null
+      ? null
+      : roundAggregatedValue(result, metric.roundingFunction, metric.roundingPrecision)
+  }
+
+  return {
+    eventResults,
+    result: aggregate(aggregatedResults),
+    filters: (metric.filters || []).flatMap(({ key, values }) =>
+      values.map((value) => {
+        const filterResults = aggregatedResults.filter(
+          ({ event }) => event.properties[key] === value,
+        )
+
+        return {
+          key,
+          value,
+          eventsCount: filterResults.length,
+          result: aggregate(filterResults),
+        }
+      }),
+    ),
+  }
+}
+
+export enum InferredPropertyKindEnum {
+  numeric = 'numeric',
+  categorical = 'categorical',
+  // Text with a different value on almost every event, ie: a user or a resource id
+  identifier = 'identifier',
+}
+
+export type InferredEventProperty = {
+  key: string
+  kind: InferredPropertyKindEnum
+  // Number of events sending the property
+  eventsCount: number
+  // Distinct values seen, sorted
+  values: string[]
+}
+
+export type InferredBillableMetric = {
+  eventsCount: number
+  properties: InferredEventProperty[]
+  values: Pick<CreateBillableMetricInput, 'name' | 'code' | 'aggregationType' | 'fieldName'> & {
+    filters: Array<{ key: string; values: string[] }>
+  }
+}
+
+// Above this number of distinct values, a text property is not suggested as a filter
+export const INFERRED_FILTER_MAX_VALUES = 20
+
+const getEventPayloadProperties = (payload: unknown): Record<string, unknown> => {
+  if (!payload || typeof payload !== 'object') return {}
+
+  // Payloads are stored as sent to the API, with or without the "event" wrapper
+  const event = ('event' in payload ? payload.event : payload) as { properties?: unknown }
+
+  return event?.properties && typeof event.properties === 'object'
+    ? (event.properties as Record<string, unknown>)
+    : {}
+}
+
+const isNumericPropertyValue = (value: unknown) =>
+  typeof value === 'number' || (typeof value === 'string' && isNumericValue(value.trim()))
+
+// Turns an event code into a metric name, ie: "api_calls" -> "Api calls"
+const getInferredMetricName = (code: string) => {
+  const name = code.replace(/[_-]+/g, ' ').trim()
+
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+/**
+ * Suggests a billable metric from the recent payloads of an event code. Properties only sending
+ * numbers are summed, otherwise ids are counted uniquely and events are counted as a last resort.
+ * Text properties with a few distinct values are suggested as filters.
+ */
+export const inferBillableMetricFromEvents = (
+  code: string,
+  payloads: unknown[],
+): InferredBillableMetric => {
+  const valuesByKey = payloads.reduce<Map<string, unknown[]>>((acc, payload) => {
+    Object.entries(getEventPayloadProperties(payload)).forEach(([key, value]) => {
+      if (value === null || value === undefined || value === '' || typeof value === 'object') {
+        return
+      }
+
+      acc.set(key, [...(acc.get(key) || []), value])
+    })
+
+    return acc
+  }, new Map())
+
+  const properties = Array.from(valuesByKey.entries()).map<InferredEventProperty>(
+    ([key, values]) => {
+      const distinctValues = Array.from(new Set(values.map(String))).sort()
+      let kind = InferredPropertyKindEnum.categorical
+
+      if (values.every(isNumericPropertyValue)) {
+        kind = InferredPropertyKindEnum.numeric
+      } else if (values.length > 1 && distinctValues.length === values.length) {
+        kind = InferredPropertyKindEnum.identifier
+      }
+
+      return { key, kind, eventsCount: values.length, values: distinctValues }
+    },
+  )
+
+  // The property sent by most events is the most likely to be billed on
+  const findMostSentProperty = (kind: InferredPropertyKindEnum) =>
+    properties
+      .filter((property) => property.kind === kind)
+      .reduce<
+        InferredEventProperty | undefined
+      >((acc, property) => (!acc || property.eventsCount > acc.eventsCount ? property : acc), undefined)
+
+  const numericProperty = findMostSentProperty(InferredPropertyKindEnum.numeric)
+  const identifierProperty = findMostSentProperty(InferredPropertyKindEnum.identifier)
+
+  let aggregationType = AggregationTypeEnum.CountAgg
+  let fieldName: string | undefined
+
+  if (numericProperty) {
+    aggregationType = AggregationTypeEnum.SumAgg
+    fieldName = numericProperty.key
+  } else if (identifierProperty) {
+    aggregationType = AggregationTypeEnum.UniqueCountAgg
+    fieldName = identifierProperty.key
+  }
+
+  return {
+    eventsCount: payloads.length,
+    properties,
+    values: {
+      name: getInferredMetricName(code),
+      code,
+      aggregationType,
+      fieldName,
+      filters: properties
+        .filter(
+          ({ kind, values }) =>
+            kind === InferredPropertyKindEnum.categorical &&
+            values.length <= INFERRED_FILTER_MAX_VALUES,
+        )
+        .map(({ key, values }) => ({ key, values })),
+    },
+  }
+}
+
+type ImpactFilter = { key: string; values: string[] }
+
+/**
+ * Returns the filter values removed by an edition of the billable metric, by filter key.
+ * Removing a key removes all its values.
+ */
+export const getRemovedFilterValues = (
+  initialFilters: ImpactFilter[] = [],
+  filters: ImpactFilter[] = [],
+): Record<string, string[]> =>
+  initialFilters.reduce<Record<string, string[]>>((acc, { key, values }) => {
+    const filter = filters.find((currentFilter) => currentFilter.key === key)
+    const removedValues = values.filter((value) => !filter?.values.includes(value))
+
+    if (removedValues.length) acc[key] = removedValues
+
+    return acc
+  }, {})
+
+type ImpactCharge = {
+  billableMetric: { id: string }
+  filters?: Array<{ values: Record<string, string[]> }> | null
+}
+
+/**
+ * Counts the charge filters on the billable metric that reference a removed filter value.
+ * Filters on all the values of a key only become orphaned when the key itself is removed.
+ */
+export const countOrphanedChargeFilters = (
+  billableMetricId: string,
+  charges: ImpactCharge[] = [],
+  removedFilterValues: Record<string, string[]>,
+  remainingFilterKeys: string[],
+) =>
+  charges
+    .filter(({ billableMetric }) => billableMetric.id === billableMetricId)
+    .flatMap(({ filters }) => filters || [])
+    .filter(({ values }) =>
+      Object.entries(values || {}).some(([key, filterValues]) => {
+        if (!remainingFilterKeys.includes(key)) return true
+
+        return filterValues.some((value) => removedFilterValues[key]?.includes(value))
+      }),
+    ).length
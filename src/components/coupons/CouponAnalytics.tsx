@@ -0,0 +1,319 @@
+import { gql } from '@apollo/client'
+import { useMemo } from 'react'
+
+import {
+  formatActiveAppliedCouponsForAreaChart,
+  getCouponDiscountsByCurrency,
+  getDaysBeforeCouponExpiration,
+} from '~/components/coupons/utils'
+import { Card, InfiniteScroll, Table, Typography } from '~/components/designSystem'
+import AreaChart from '~/components/designSystem/graphs/AreaChart'
+import ChartHeader from '~/components/designSystem/graphs/ChartHeader'
+import { GenericPlaceholder } from '~/components/GenericPlaceholder'
+import { formatDataForAreaChart } from '~/components/graphs/utils'
+import { getCouponFrequencyTranslationKey } from '~/core/constants/form'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import {
+  CouponExpiration,
+  CouponFrequency,
+  CouponTypeEnum,
+  CurrencyEnum,
+  useGetAppliedCouponsOfCouponQuery,
+  useGetCouponAnalyticsQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+import ErrorImage from '~/public/images/maneki/error.svg'
+import { DetailsSectionTitle } from '~/styles/detailsPage'
+
+gql`
+  query getCouponAnalytics($couponId: ID!, $months: Int) {
+    couponAnalytics(couponId: $couponId, months: $months) {
+      collection {
+        month
+        activeAppliedCouponsCount
+        discounts {
+          amountCents
+          currency
+        }
+      }
+    }
+  }
+
+  query getAppliedCouponsOfCoupon($couponId: ID!, $page: Int, $limit: Int) {
+    appliedCoupons(couponId: $couponId, page: $page, limit: $limit) {
+      collection {
+        id
+        amountCentsRemaining
+        amountCurrency
+        frequency
+        frequencyDurationRemaining
+        createdAt
+        customer {
+          id
+          displayName
+          externalId
+        }
+      }
+      metadata {
+        currentPage
+        totalPages
+      }
+    }
+  }
+`
+
+interface CouponAnalyticsProps {
+  couponId: string
+  couponType: CouponTypeEnum
+  frequency: CouponFrequency
+  expiration: CouponExpiration
+  expirationAt?: string | null
+}
+
+export const CouponAnalytics = ({
+  couponId,
+  couponType,
+  frequency,
+  expiration,
+  expirationAt,
+}: CouponAnalyticsProps) => {
+  const { translate } = useInternationalization()
+  const { organization, formatTimeOrgaTZ } = useOrganizationInfos()
+  const hasRemainingPerCustomer =
+    frequency === CouponFrequency.Recurring || couponType === CouponTypeEnum.FixedAmount
+
+  const {
+    data: analyticsData,
+    loading: analyticsLoading,
+    error: analyticsError,
+  } = useGetCouponAnalyticsQuery({
+    variables: { couponId, months: 12 },
+  })
+  const {
+    data: appliedCouponsData,
+    loading: appliedCouponsLoading,
+    error: appliedCouponsError,
+    fetchMore,
+  } = useGetAppliedCouponsOfCouponQuery({
+    variables: { couponId, limit: 20 },
+    skip: !hasRemainingPerCustomer,
+    notifyOnNetworkStatusChange: true,
+  })
+
+  const { activeAppliedCoupons, discountsByCurrency } = useMemo(() => {
+    const analytics = analyticsData?.couponAnalytics.collection || []
+    const discounts = getCouponDiscountsByCurrency(analytics)
+
+    return {
+      activeAppliedCoupons: formatActiveAppliedCouponsForAreaChart(analytics),
+      // Display an empty chart when no discount has been given yet
+      discountsByCurrency: discounts.length
+        ? discounts
+        : [
+            {
+              currency: organization?.defaultCurrency || CurrencyEnum.Usd,
+              amountCentsSum: 0,
+              months: [],
+            },
+          ],
+    }
+  }, [analyticsData, organization?.defaultCurrency])
+
+  const [dateFrom, dateTo] = [
+    activeAppliedCoupons[0].axisName,
+    activeAppliedCoupons[activeAppliedCoupons.length - 1].axisName,
+  ]
+
+  const getExpirationLabel = () => {
+    if (expiration !== CouponExpiration.TimeLimit || !expirationAt) {
+      return translate('text_1792426130216rsq4releox9')
+    }
+
+    const daysBeforeExpiration = getDaysBeforeCouponExpiration(expirationAt)
+
+    if (daysBeforeExpiration <= 0) {
+      return translate('text_1792426130221kx8u4uyo2bz', { date: formatTimeOrgaTZ(expirationAt) })
+    }
+
+    return translate(
+      'text_1792426130218ts6r6u05e3c',
+      { date: formatTimeOrgaTZ(expirationAt), count: daysBeforeExpiration },
+      daysBeforeExpiration,
+    )
+  }
+
+  return (
+    <section className="flex flex-col gap-4">
+      <div className="flex flex-col">
+        <DetailsSectionTitle variant="subhead" noWrap>
+          {translate('text_1792426130201ndfvkn32tcx')}
+        </DetailsSectionTitle>
+        <Typography variant="caption" color="grey600">
+          {translate('text_1792426130203nav1zl470f4')}
+        </Typography>
+      </div>
+
+      {!!analyticsError ? (
+        <GenericPlaceholder
+          className="m-0 p-0"
+          title={translate('text_636d023ce11a9d038819b579')}
+          subtitle={translate('text_636d023ce11a9d038819b57b')}
+          image={<ErrorImage width="136" height="104" />}
+        />
+      ) : (
+        <>
+          <Card className="p-6">
+            <ChartHeader
+              name={translate('text_17924261302053ebqqix1fb3')}
+              tooltipText={translate('text_1792426130207o5hb1p1uthy')}
+              amount={String(activeAppliedCoupons[activeAppliedCoupons.length - 1].value)}
+              period={translate('text_633dae57ca9a923dd53c2097', {
+                fromDate: dateFrom,
+                toDate: dateTo,
+              })}
+              loading={analyticsLoading}
+            />
+            <AreaChart
+              blur={false}
+              loading={analyticsLoading}
+              data={activeAppliedCoupons}
+              hasOnlyZeroValues={activeAppliedCoupons.every(({ value }) => value === 0)}
+            />
+          </Card>
+
+          {discountsByCurrency.map(({ currency, amountCentsSum, months }) => (
+            <Card key={`coupon-discount-${currency}`} className="p-6">
+              <ChartHeader
+                name={translate('text_1792426130210podszv7xvws', { currency })}
+                tooltipText={translate('text_1792426130212kvegpy0hjo2')}
+                amount={intlFormatNumber(deserializeAmount(amountCentsSum, currency), {
+                  currency,
+                })}
+                period={translate('text_633dae57ca9a923dd53c2097', {
+                  fromDate: dateFrom,
+                  toDate: dateTo,
+                })}
+                loading={analyticsLoading}
+              />
+              <AreaChart
+                blur={false}
+                loading={analyticsLoading}
+                data={formatDataForAreaChart(months, currency)}
+                hasOnlyZeroValues={amountCentsSum === 0}
+                currency={currency}
+              />
+            </Card>
+          ))}
+        </>
+      )}
+
+      <Card className="gap-1 p-6">
+        <Typography variant="captionHl" color="grey600">
+          {translate('text_17924261302143867d2wtgzx')}
+        </Typography>
+        <Typography variant="body" color="grey700">
+          {getExpirationLabel()}
+        </Typography>
+      </Card>
+
+      {hasRemainingPerCustomer && (
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col">
+            <Typography variant="bodyHl" color="grey700">
+              {translate('text_1792426130223egx00mvus7m')}
+            </Typography>
+            <Typography variant="caption" color="grey600">
+              {translate('text_1792426130225kh75bfnu48e')}
+            </Typography>
+          </div>
+          <InfiniteScroll
+            onBottom={() => {
+              const { currentPage = 0, totalPages = 0 } =
+                appliedCouponsData?.appliedCoupons.metadata || {}
+
+              currentPage < totalPages &&
+                !appliedCouponsLoading &&
+                fetchMore({
+                  variables: { page: currentPage + 1 },
+                })
+            }}
+          >
+            <Table
+              name="coupon-applied-coupons"
+              containerSize={{ default: 0 }}
+              data={appliedCouponsData?.appliedCoupons.collection || []}
+              isLoading={appliedCouponsLoading}
+              hasError={!!appliedCouponsError}
+              placeholder={{
+                emptyState: {
+                  title: translate('text_1792426130238lu6iuvpsn12'),
+                  subtitle: translate('text_1792426130240ur52a31azb4'),
+                },
+              }}
+              columns={[
+                {
+                  key: 'customer.displayName',
+                  title: translate('text_1792426130227777sinvr0xw'),
+                  maxSpace: true,
+                  content: ({ customer }) => (
+                    <Typography variant="body" color="grey700" noWrap>
+                      {customer.displayName || customer.externalId}
+                    </Typography>
+                  ),
+                },
+                {
+                  key: 'createdAt',
+                  title: translate('text_1792426130229onye3hn2v64'),
+                  minWidth: 120,
+                  content: ({ createdAt }) => (
+                    <Typography variant="body" color="grey600" noWrap>
+                      {formatTimeOrgaTZ(createdAt)}
+                    </Typography>
+                  ),
+                },
+                couponType === CouponTypeEnum.FixedAmount
+                  ? {
+                      key: 'amountCentsRemaining',
+                      title: translate('text_1792426130231429kvsiro88'),
+                      textAlign: 'right',
+                      minWidth: 120,
+                      content: ({ amountCentsRemaining, amountCurrency }) => (
+                        <Typography variant="body" color="grey700" noWrap>
+                          {intlFormatNumber(
+                            deserializeAmount(
+                              amountCentsRemaining || 0,
+                              amountCurrency || CurrencyEnum.Usd,
+                            ),
+                            { currency: amountCurrency || CurrencyEnum.Usd },
+                          )}
+                        </Typography>
+                      ),
+                    }
+                  : null,
+                {
+                  key: 'frequencyDurationRemaining',
+                  title: translate('text_17924261302332hp6fwyduuh'),
+                  textAlign: 'right',
+                  minWidth: 120,
+                  content: ({ frequency: appliedFrequency, frequencyDurationRemaining }) => (
+                    <Typography variant="body" color="grey700" noWrap>
+                      {appliedFrequency === CouponFrequency.Recurring
+                        ? translate(
+                            'text_1792426130236sslo4p05e5g',
+                            { count: frequencyDurationRemaining || 0 },
+                            frequencyDurationRemaining || 0,
+                          )
+                        : translate(getCouponFrequencyTranslationKey[appliedFrequency])}
+                    </Typography>
+                  ),
+                },
+              ]}
+            />
+          </InfiniteScroll>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,184 @@
+import { gql } from '@apollo/client'
+
+import { getCouponCodesCsv } from '~/components/coupons/utils'
+import {
+  Button,
+  InfiniteScroll,
+  Status,
+  StatusType,
+  Table,
+  Typography,
+} from '~/components/designSystem'
+import { handleDownloadTextFile } from '~/core/utils/downloadFiles'
+import {
+  CouponCodeItemFragmentDoc,
+  useGetCouponCodesForExportLazyQuery,
+  useGetCouponCodesQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+import { DetailsSectionTitle } from '~/styles/detailsPage'
+
+gql`
+  query getCouponCodes($couponId: ID!, $page: Int, $limit: Int) {
+    couponCodes(couponId: $couponId, page: $page, limit: $limit) {
+      collection {
+        id
+        ...CouponCodeItem
+      }
+      metadata {
+        currentPage
+        totalPages
+      }
+    }
+  }
+
+  query getCouponCodesForExport($couponId: ID!, $limit: Int) {
+    couponCodes(couponId: $couponId, limit: $limit) {
+      collection {
+        id
+        ...CouponCodeItem
+      }
+    }
+  }
+
+  ${CouponCodeItemFragmentDoc}
+`
+
+interface CouponCodesListProps {
+  couponId: string
+  couponCode?: string | null
+  codesCount: number
+  redeemedCodesCount: number
+}
+
+export const CouponCodesList = ({
+  couponId,
+  couponCode,
+  codesCount,
+  redeemedCodesCount,
+}: CouponCodesListProps) => {
+  const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const { data, loading, error, fetchMore } = useGetCouponCodesQuery({
+    variables: { couponId, limit: 20 },
+    notifyOnNetworkStatusChange: true,
+  })
+  const [getCouponCodesForExport, { loading: exportLoading }] = useGetCouponCodesForExportLazyQuery(
+    { fetchPolicy: 'no-cache' },
+  )
+  const couponCodes = data?.couponCodes.collection || []
+
+  const onDownload = async () => {
+    const { data: exportData } = await getCouponCodesForExport({
+      variables: { couponId, limit: codesCount },
+    })
+
+    if (!exportData?.couponCodes) return
+
+    handleDownloadTextFile({
+      content: getCouponCodesCsv(exportData.couponCodes.collection),
+      fileName: `${(couponCode || couponId).toLowerCase()}-codes.csv`,
+      mimeType: 'text/csv',
+    })
+  }
+
+  return (
+    <section className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4 shadow-b">
+        <div className="flex flex-col">
+          <DetailsSectionTitle variant="subhead" noWrap>
+            {translate('text_17924255173051uk954jtvn8')}
+          </DetailsSectionTitle>
+          <Typography className="mb-4" variant="caption" color="grey600">
+            {translate(
+              'text_1792425517307jbwc64nptg8',
+              { redeemedCount: redeemedCodesCount, count: codesCount },
+              codesCount,
+            )}
+          </Typography>
+        </div>
+        <Button
+          variant="quaternary"
+          size="small"
+          startIcon="download"
+          disabled={!codesCount || exportLoading}
+          onClick={onDownload}
+          data-test="download-coupon-codes"
+        >
+          {translate('text_17924255173093av7t6fhigo')}
+        </Button>
+      </div>
+
+      <InfiniteScroll
+        onBottom={() => {
+          const { currentPage = 0, totalPages = 0 } = data?.couponCodes.metadata || {}
+
+          currentPage < totalPages &&
+            !loading &&
+            fetchMore({
+              variables: { page: currentPage + 1 },
+            })
+        }}
+      >
+        <Table
+          name="coupon-codes"
+          containerSize={{ default: 0 }}
+          data={couponCodes}
+          isLoading={loading}
+          hasError={!!error}
+          placeholder={{
+            emptyState: {
+              title: translate('text_179242551731173iazkrkvn7'),
+              subtitle: translate('text_1792425517313c7ccq3gich2'),
+            },
+          }}
+          columns={[
+            {
+              key: 'code',
+              title: translate('text_1792425517316t4uwtbuiri6'),
+              maxSpace: true,
+              content: ({ code }) => (
+                <Typography variant="captionCode" color="grey700" noWrap>
+                  {code}
+                </Typography>
+              ),
+            },
+            {
+              key: 'redeemedAt',
+              title: translate('text_1792425517318kubdyry7qe7'),
+              minWidth: 120,
+              content: ({ redeemedAt }) => (
+                <Status
+                  {...(redeemedAt
+                    ? { type: StatusType.danger, label: 'consumed' }
+                    : { type: StatusType.success, label: 'available' })}
+                />
+              ),
+            },
+            {
+              key: 'customer.displayName',
+              title: translate('text_17924255173207mc3rrachha'),
+              minWidth: 160,
+              content: ({ customer }) => (
+                <Typography variant="body" color="grey700" noWrap>
+                  {customer?.displayName || '-'}
+                </Typography>
+              ),
+            },
+            {
+              key: 'redeemedAt',
+              title: translate('text_1792425517322pcp2pnt151k'),
+              minWidth: 140,
+              content: ({ redeemedAt }) => (
+                <Typography variant="body" color="grey600" noWrap>
+                  {redeemedAt ? formatTimeOrgaTZ(redeemedAt) : '-'}
+                </Typography>
+              ),
+            },
+          ]}
+        />
+      </InfiniteScroll>
+    </section>
+  )
+}
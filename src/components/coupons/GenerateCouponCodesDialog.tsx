@@ -0,0 +1,224 @@
+import { gql } from '@apollo/client'
+import { useFormik } from 'formik'
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react'
+import { number, object, string } from 'yup'
+
+import {
+  COUPON_CODE_SUFFIX_MAX_LENGTH,
+  COUPON_CODE_SUFFIX_MIN_LENGTH,
+  COUPON_CODES_MAX_COUNT,
+  formatCouponCode,
+  generateCouponCodes,
+  generateCouponCodeSuffix,
+  getCouponCodesCsv,
+} from '~/components/coupons/utils'
+import { Alert, Button, Dialog, DialogRef, Typography } from '~/components/designSystem'
+import { TextInputField } from '~/components/form'
+import { addToast, hasDefinedGQLError } from '~/core/apolloClient'
+import { handleDownloadTextFile } from '~/core/utils/downloadFiles'
+import {
+  LagoApiError,
+  useCreateCouponCodesMutation,
+  useGetCouponCodesForExportLazyQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment CouponCodeItem on CouponCode {
+    id
+    code
+    createdAt
+    redeemedAt
+    customer {
+      id
+      externalId
+      displayName
+    }
+  }
+
+  mutation createCouponCodes($input: CreateCouponCodesInput!) {
+    createCouponCodes(input: $input) {
+      collection {
+        id
+        ...CouponCodeItem
+      }
+    }
+  }
+`
+
+type GenerateCouponCodesCoupon = { id: string; code?: string | null; codesCount: number }
+
+type GenerateCouponCodesForm = {
+  prefix: string
+  count?: number
+  suffixLength?: number
+}
+
+export interface GenerateCouponCodesDialogRef {
+  openDialog: (coupon: GenerateCouponCodesCoupon) => unknown
+  closeDialog: () => unknown
+}
+
+export const GenerateCouponCodesDialog = forwardRef<GenerateCouponCodesDialogRef>((_, ref) => {
+  const { translate } = useInternationalization()
+  const dialogRef = useRef<DialogRef>(null)
+  const [coupon, setCoupon] = useState<GenerateCouponCodesCoupon>()
+
+  const [createCouponCodes, { error }] = useCreateCouponCodesMutation({
+    context: { silentErrorCodes: [LagoApiError.UnprocessableEntity] },
+    refetchQueries: ['getCouponForDetails', 'getCouponCodes'],
+  })
+  const [getExistingCouponCodes] = useGetCouponCodesForExportLazyQuery({ fetchPolicy: 'no-cache' })
+
+  const formikProps = useFormik<GenerateCouponCodesForm>({
+    initialValues: {
+      prefix: coupon?.code || '',
+      count: undefined,
+      suffixLength: 6,
+    },
+    validationSchema: object().shape({
+      prefix: string().matches(/^[\w-]*$/, 'text_1792425517273lxipcl7vsok'),
+      count: number().min(1).max(COUPON_CODES_MAX_COUNT).required(''),
+      suffixLength: number()
+        .min(COUPON_CODE_SUFFIX_MIN_LENGTH)
+        .max(COUPON_CODE_SUFFIX_MAX_LENGTH)
+        .required(''),
+    }),
+    validateOnMount: true,
+    enableReinitialize: true,
+    onSubmit: async ({ prefix, count, suffixLength }, formikBag) => {
+      if (!coupon) return
+
+      // Regenerated codes must not collide with the ones the coupon already has
+      const existingCodes = coupon.codesCount
+        ? (
+            await getExistingCouponCodes({
+              variables: { couponId: coupon.id, limit: coupon.codesCount },
+            })
+          ).data?.couponCodes.collection.map(({ code }) => code)
+        : []
+
+      const { data, errors } = await createCouponCodes({
+        variables: {
+          input: {
+            couponId: coupon.id,
+            codes: generateCouponCodes({
+              prefix,
+              count: Number(count),
+              suffixLength: Number(suffixLength),
+              excludedCodes: existingCodes,
+            }),
+          },
+        },
+      })
+
+      if (errors?.length || !data?.createCouponCodes) return
+
+      const { collection } = data.createCouponCodes
+
+      handleDownloadTextFile({
+        content: getCouponCodesCsv(collection),
+        fileName: `${formatCouponCode(prefix, 'codes').toLowerCase()}.csv`,
+        mimeType: 'text/csv',
+      })
+      addToast({
+        message: translate(
+          'text_1792425517275hgxohzedkdh',
+          { count: collection.length },
+          collection.length,
+        ),
+        severity: 'success',
+      })
+      dialogRef.current?.closeDialog()
+      formikBag.resetForm()
+    },
+  })
+
+  // The preview is only regenerated when the suffix length changes, not on every keystroke
+  const previewSuffix = useMemo(
+    () =>
+      generateCouponCodeSuffix(
+        Math.min(
+          Math.max(Number(formikProps.values.suffixLength) || 0, COUPON_CODE_SUFFIX_MIN_LENGTH),
+          COUPON_CODE_SUFFIX_MAX_LENGTH,
+        ),
+      ),
+    [formikProps.values.suffixLength],
+  )
+
+  useImperativeHandle(ref, () => ({
+    openDialog: (data) => {
+      setCoupon(data)
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_1792425517277k25saufsmm3')}
+      description={translate('text_1792425517281czb24i0nrqp', {
+        max: COUPON_CODES_MAX_COUNT,
+      })}
+      onClose={() => formikProps.resetForm()}
+      actions={({ closeDialog }) => (
+        <>
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_6271200984178801ba8bdf4a')}
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!formikProps.isValid || formikProps.isSubmitting}
+            onClick={formikProps.submitForm}
+            data-test="generate-coupon-codes"
+          >
+            {translate('text_17924255172830t4jbfamy2s')}
+          </Button>
+        </>
+      )}
+    >
+      <div className="mb-8 flex flex-col gap-6">
+        <TextInputField
+          // eslint-disable-next-line jsx-a11y/no-autofocus
+          autoFocus
+          name="prefix"
+          label={translate('text_1792425517286x9r9ofevxwj')}
+          placeholder={translate('text_1792425517288xdwcgox1o08')}
+          formikProps={formikProps}
+        />
+        <div className="flex gap-4">
+          <TextInputField
+            className="flex-1"
+            name="count"
+            beforeChangeFormatter={['positiveNumber', 'int']}
+            label={translate('text_1792425517290kf5igvyzq99')}
+            placeholder={translate('text_1792425517292x33mn6ivdy4')}
+            formikProps={formikProps}
+          />
+          <TextInputField
+            className="flex-1"
+            name="suffixLength"
+            beforeChangeFormatter={['positiveNumber', 'int']}
+            label={translate('text_179242551729433bw4f7ruuf')}
+            helperText={translate('text_1792425517296ofgj41qcrx7', {
+              min: COUPON_CODE_SUFFIX_MIN_LENGTH,
+              max: COUPON_CODE_SUFFIX_MAX_LENGTH,
+            })}
+            formikProps={formikProps}
+          />
+        </div>
+        <Typography variant="caption" color="grey600">
+          {translate('text_1792425517298br76vxgngo0', {
+            example: formatCouponCode(formikProps.values.prefix, previewSuffix),
+          })}
+        </Typography>
+        {hasDefinedGQLError('ValueAlreadyExist', error) && (
+          <Alert type="danger">{translate('text_1792425517301zl1hqgbs13y')}</Alert>
+        )}
+      </div>
+    </Dialog>
+  )
+})
+
+GenerateCouponCodesDialog.displayName = 'GenerateCouponCodesDialog'
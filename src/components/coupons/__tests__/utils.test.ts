@@ -0,0 +1,148 @@
+import { DateTime } from 'luxon'
+
+import {
+  formatActiveAppliedCouponsForAreaChart,
+  formatCouponCode,
+  generateCouponCodes,
+  generateCouponCodeSuffix,
+  getCouponCodesCsv,
+  getCouponDiscountsByCurrency,
+  getDaysBeforeCouponExpiration,
+} from '~/components/coupons/utils'
+import { GRAPH_YEAR_MONTH_DATE_FORMAT } from '~/components/graphs/utils'
+import { CurrencyEnum } from '~/generated/graphql'
+
+describe('coupons utils', () => {
+  describe('generateCouponCodeSuffix', () => {
+    it('returns a suffix without ambiguous characters', () => {
+      const suffix = generateCouponCodeSuffix(200)
+
+      expect(suffix).toHaveLength(200)
+      expect(suffix).toMatch(/^[A-Z2-9]+$/)
+      expect(suffix).not.toMatch(/[01ILO]/)
+    })
+  })
+
+  describe('formatCouponCode', () => {
+    it('joins the prefix and the suffix with a dash', () => {
+      expect(formatCouponCode(' spring ', 'X7KQ')).toBe('SPRING-X7KQ')
+    })
+
+    it('keeps the separator of the prefix', () => {
+      expect(formatCouponCode('SPRING_', 'X7KQ')).toBe('SPRING_X7KQ')
+      expect(formatCouponCode('SPRING-', 'X7KQ')).toBe('SPRING-X7KQ')
+    })
+
+    it('returns the suffix without prefix', () => {
+      expect(formatCouponCode('', 'X7KQ')).toBe('X7KQ')
+    })
+  })
+
+  describe('generateCouponCodes', () => {
+    it('generates unique codes with the prefix', () => {
+      const codes = generateCouponCodes({ prefix: 'SPRING', count: 500, suffixLength: 4 })
+
+      expect(codes).toHaveLength(500)
+      expect(new Set(codes).size).toBe(500)
+      codes.forEach((code) => expect(code).toMatch(/^SPRING-[A-Z2-9]{4}$/))
+    })
+
+    it('skips the excluded codes', () => {
+      const excludedCodes = generateCouponCodes({ prefix: '', count: 30, suffixLength: 1 })
+      const codes = generateCouponCodes({
+        prefix: '',
+        count: 1,
+        suffixLength: 1,
+        excludedCodes,
+      })
+
+      expect(codes).toHaveLength(1)
+      expect(excludedCodes).not.toContain(codes[0])
+    })
+
+    it('returns no code when the suffix is too short for the count', () => {
+      expect(generateCouponCodes({ prefix: 'SPRING', count: 40, suffixLength: 1 })).toEqual([])
+    })
+  })
+
+  describe('getCouponCodesCsv', () => {
+    it('returns a line per code with its redemption', () => {
+      expect(
+        getCouponCodesCsv([
+          { code: 'SPRING-X7KQ' },
+          {
+            code: 'SPRING-P2MZ',
+            redeemedAt: '2024-03-21T10:00:00Z',
+            customer: { externalId: 'acme, inc' },
+          },
+        ]),
+      ).toBe(
+        [
+          'code,redeemed,customer_external_id,redeemed_at',
+          'SPRING-X7KQ,false,,',
+          'SPRING-P2MZ,true,"acme, inc",2024-03-21T10:00:00Z',
+        ].join('\n'),
+      )
+    })
+  })
+
+  describe('coupon analytics', () => {
+    const currentMonth = DateTime.now().startOf('month')
+    const analytics = [
+      {
+        month: currentMonth.minus({ month: 1 }).toISO() as string,
+        activeAppliedCouponsCount: 3,
+        discounts: [{ amountCents: '1000', currency: CurrencyEnum.Eur }],
+      },
+      {
+        month: currentMonth.toISO() as string,
+        activeAppliedCouponsCount: 5,
+        discounts: [
+          { amountCents: '2500', currency: CurrencyEnum.Eur },
+          { amountCents: '700', currency: CurrencyEnum.Usd },
+        ],
+      },
+    ]
+
+    describe('formatActiveAppliedCouponsForAreaChart', () => {
+      it('pads the months without applied coupons', () => {
+        const data = formatActiveAppliedCouponsForAreaChart(analytics)
+
+        expect(data).toHaveLength(13)
+        expect(data[0].value).toBe(0)
+        expect(data.slice(-2).map(({ value }) => value)).toEqual([3, 5])
+        expect(data[12].tooltipLabel).toBe(
+          `${currentMonth.toFormat(GRAPH_YEAR_MONTH_DATE_FORMAT)}: 5`,
+        )
+      })
+    })
+
+    describe('getCouponDiscountsByCurrency', () => {
+      it('sums the discounts of each currency', () => {
+        expect(
+          getCouponDiscountsByCurrency(analytics).map(({ currency, amountCentsSum, months }) => ({
+            currency,
+            amountCentsSum,
+            monthsCount: months.length,
+          })),
+        ).toEqual([
+          { currency: CurrencyEnum.Eur, amountCentsSum: 3500, monthsCount: 2 },
+          { currency: CurrencyEnum.Usd, amountCentsSum: 700, monthsCount: 1 },
+        ])
+      })
+    })
+
+    describe('getDaysBeforeCouponExpiration', () => {
+      it('returns the number of days left', () => {
+        expect(
+          getDaysBeforeCouponExpiration(
+            DateTime.now().plus({ days: 3, hours: 1 }).toISO() as string,
+          ),
+        ).toBe(4)
+        expect(
+          getDaysBeforeCouponExpiration(DateTime.now().minus({ days: 2 }).toISO() as string),
+        ).toBeLessThanOrEqual(0)
+      })
+    })
+  })
+})
@@ -0,0 +1,115 @@
+import { DateTime } from 'luxon'
+
+import { AreaChartDataType } from '~/components/designSystem/graphs/types'
+import {
+  getLastTwelveMonthsNumbersUntilNow,
+  GRAPH_YEAR_MONTH_DATE_FORMAT,
+  groupAreaChartDataByCurrency,
+} from '~/components/graphs/utils'
+import { escapeCsvValue } from '~/core/utils/csv'
+import { CurrencyEnum } from '~/generated/graphql'
+
+export const COUPON_CODES_MAX_COUNT = 1000
+export const COUPON_CODE_SUFFIX_MIN_LENGTH = 4
+export const COUPON_CODE_SUFFIX_MAX_LENGTH = 12
+
+// Ambiguous characters (0/O, 1/I/L) are left out so codes can be read aloud or retyped
+const COUPON_CODE_SUFFIX_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789'
+
+export const generateCouponCodeSuffix = (length: number) => {
+  const randomValues = window.crypto.getRandomValues(new Uint32Array(length))
+
+  return Array.from(
+    randomValues,
+    (value) => COUPON_CODE_SUFFIX_ALPHABET[value % COUPON_CODE_SUFFIX_ALPHABET.length],
+  ).join('')
+}
+
+export const formatCouponCode = (prefix: string, suffix: string) => {
+  const trimmedPrefix = prefix.trim().toUpperCase()
+
+  if (!trimmedPrefix) return suffix
+
+  return /[-_]$/.test(trimmedPrefix) ? `${trimmedPrefix}${suffix}` : `${trimmedPrefix}-${suffix}`
+}
+
+/**
+ * Generates unique single-use codes sharing a prefix, for example SPRING-X7KQ.
+ * Codes already used by the coupon can be excluded, the backend still validates their uniqueness.
+ */
+export const generateCouponCodes = ({
+  prefix,
+  count,
+  suffixLength,
+  excludedCodes = [],
+}: {
+  prefix: string
+  count: number
+  suffixLength: number
+  excludedCodes?: string[]
+}): string[] => {
+  const excluded = new Set(excludedCodes)
+  const codes = new Set<string>()
+  const possibleCodesCount = Math.pow(COUPON_CODE_SUFFIX_ALPHABET.length, suffixLength)
+
+  // Prevents looping forever when the suffix is too short for the requested count
+  if (count + excluded.size > possibleCodesCount) return []
+
+  while (codes.size < count) {
+    const code = formatCouponCode(prefix, generateCouponCodeSuffix(suffixLength))
+
+    if (!excluded.has(code)) codes.add(code)
+  }
+
+  return Array.from(codes)
+}
+
+export const getCouponCodesCsv = (
+  couponCodes: Array<{
+    code: string
+    redeemedAt?: string | null
+    customer?: { externalId: string } | null
+  }>,
+) =>
+  [
+    'code,redeemed,customer_external_id,redeemed_at',
+    ...couponCodes.map(({ code, redeemedAt, customer }) =>
+      [code, String(!!redeemedAt), customer?.externalId || '', redeemedAt || '']
+        .map(escapeCsvValue)
+        .join(','),
+    ),
+  ].join('\n')
+
+type CouponAnalytics = Array<{
+  month: string
+  activeAppliedCouponsCount: number
+  discounts: Array<{ amountCents: string | number; currency: CurrencyEnum }>
+}>
+
+const findMonthAnalytic = (analytics: CouponAnalytics, month: string) =>
+  analytics.find(
+    (analytic) => DateTime.fromISO(analytic.month).toFormat(GRAPH_YEAR_MONTH_DATE_FORMAT) === month,
+  )
+
+export const formatActiveAppliedCouponsForAreaChart = (
+  analytics: CouponAnalytics,
+): AreaChartDataType[] =>
+  getLastTwelveMonthsNumbersUntilNow().map((month) => {
+    const value = findMonthAnalytic(analytics, month)?.activeAppliedCouponsCount || 0
+
+    return { axisName: month, value, tooltipLabel: `${month}: ${value}` }
+  })
+
+/**
+ * Splits the monthly discounts of a coupon by currency, as percentage coupons
+ * can be applied to customers billed in different currencies.
+ */
+export const getCouponDiscountsByCurrency = (analytics: CouponAnalytics) =>
+  groupAreaChartDataByCurrency(
+    analytics.flatMap(({ month, discounts }) =>
+      discounts.map((discount) => ({ ...discount, month })),
+    ),
+  )
+
+export const getDaysBeforeCouponExpiration = (expirationAt: string) =>
+  Math.ceil(DateTime.fromISO(expirationAt).diffNow('days').days)
@@ -0,0 +1,546 @@
+import { gql, useApolloClient } from '@apollo/client'
+import { ChangeEvent, forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react'
+
+import { CouponCaption } from '~/components/coupons/CouponCaption'
+import {
+  BulkCouponActionEnum,
+  BulkCouponResultStatusEnum,
+  getBulkCouponErrorTranslationKey,
+  parseCustomerExternalIds,
+} from '~/components/customers/utils'
+import {
+  Alert,
+  Button,
+  Card,
+  Chip,
+  Drawer,
+  DrawerRef,
+  Icon,
+  Typography,
+} from '~/components/designSystem'
+import { ComboBox } from '~/components/form'
+import { addToast } from '~/core/apolloClient'
+import {
+  CouponItemFragment,
+  CouponStatusEnum,
+  GetCustomersForBulkCouponsDocument,
+  GetCustomersForBulkCouponsQuery,
+  GetCustomersForBulkCouponsQueryVariables,
+  LagoApiError,
+  useAddCouponMutation,
+  useGetCouponForCustomerLazyQuery,
+  useGetCustomersForBulkCouponsQuery,
+  useRemoveCouponMutation,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  query getCustomersForBulkCoupons(
+    $page: Int
+    $limit: Int
+    $searchTerm: String
+    $accountType: [CustomerAccountTypeEnum!]
+    $country: CountryCode
+    $currency: CurrencyEnum
+    $planCode: String
+    $subscriptionStatus: [StatusTypeEnum!]
+    $paymentProvider: ProviderTypeEnum
+    $hasOverdueInvoices: Boolean
+    $walletBalanceBelow: Float
+    $hasTaxIdentificationNumber: Boolean
+    $createdAtFrom: ISO8601DateTime
+    $createdAtTo: ISO8601DateTime
+    $metadata: [CustomerMetadataFilterInput!]
+    $externalIds: [String!]
+  ) {
+    customers(
+      page: $page
+      limit: $limit
+      searchTerm: $searchTerm
+      accountType: $accountType
+      country: $country
+      currency: $currency
+      planCode: $planCode
+      subscriptionStatus: $subscriptionStatus
+      paymentProvider: $paymentProvider
+      hasOverdueInvoices: $hasOverdueInvoices
+      walletBalanceBelow: $walletBalanceBelow
+      hasTaxIdentificationNumber: $hasTaxIdentificationNumber
+      createdAtFrom: $createdAtFrom
+      createdAtTo: $createdAtTo
+      metadata: $metadata
+      externalIds: $externalIds
+    ) {
+      metadata {
+        currentPage
+        totalPages
+        totalCount
+      }
+      collection {
+        id
+        externalId
+        displayName
+        appliedCoupons {
+          id
+          coupon {
+            id
+          }
+        }
+      }
+    }
+  }
+`
+
+// Customers are loaded by pages while the coupons are applied one customer at a time
+const CUSTOMERS_PAGE_LIMIT = 100
+
+export type BulkCustomerCouponsSegment = Omit<
+  GetCustomersForBulkCouponsQueryVariables,
+  'page' | 'limit' | 'externalIds'
+>
+
+type BulkCouponResult = {
+  customer: { id: string; externalId: string; displayName: string }
+  status: BulkCouponResultStatusEnum
+  errorTranslationKey?: string
+}
+
+export interface BulkCustomerCouponsDrawerRef {
+  openDrawer: (data: {
+    action: BulkCouponActionEnum
+    segment: BulkCustomerCouponsSegment
+    // Labels of the filters defining the segment
+    segmentLabels: string[]
+  }) => unknown
+  closeDrawer: () => unknown
+}
+
+export const BulkCustomerCouponsDrawer = forwardRef<BulkCustomerCouponsDrawerRef>((_, ref) => {
+  const { translate } = useInternationalization()
+  const client = useApolloClient()
+  const drawerRef = useRef<DrawerRef>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const shouldStopRef = useRef(false)
+  const [action, setAction] = useState<BulkCouponActionEnum>(BulkCouponActionEnum.apply)
+  const [segment, setSegment] = useState<BulkCustomerCouponsSegment>()
+  const [segmentLabels, setSegmentLabels] = useState<string[]>([])
+  const [externalIds, setExternalIds] = useState<string[]>([])
+  const [fileName, setFileName] = useState<string>()
+  const [couponId, setCouponId] = useState<string>()
+  const [isRunning, setIsRunning] = useState(false)
+  const [totalCount, setTotalCount] = useState(0)
+  const [results, setResults] = useState<BulkCouponResult[]>()
+
+  const segmentVariables = useMemo(
+    () => ({ ...segment, externalIds: externalIds.length ? externalIds : undefined }),
+    [segment, externalIds],
+  )
+
+  const { data: previewData, loading: previewLoading } = useGetCustomersForBulkCouponsQuery({
+    variables: { ...segmentVariables, limit: 1 },
+    skip: !segment,
+    fetchPolicy: 'network-only',
+  })
+  const [getCoupons, { data: couponsData, loading: couponsLoading }] =
+    useGetCouponForCustomerLazyQuery()
+  const [addCoupon] = useAddCouponMutation({
+    context: {
+      silentErrorCodes: [
+        LagoApiError.CouponIsNotReusable,
+        LagoApiError.UnprocessableEntity,
+        LagoApiError.PlanOverlapping,
+      ],
+    },
+  })
+  const [removeCoupon] = useRemoveCouponMutation({
+    context: { silentErrorCodes: [LagoApiError.UnprocessableEntity] },
+  })
+
+  const previewCount = previewData?.customers.metadata.totalCount || 0
+  const coupon = couponsData?.coupons.collection.find(({ id }) => id === couponId)
+  const isApply = action === BulkCouponActionEnum.apply
+
+  const reset = () => {
+    setExternalIds([])
+    setFileName(undefined)
+    setCouponId(undefined)
+    setTotalCount(0)
+    setResults(undefined)
+  }
+
+  useImperativeHandle(ref, () => ({
+    openDrawer: (data) => {
+      reset()
+      setAction(data.action)
+      setSegment(data.segment)
+      setSegmentLabels(data.segmentLabels)
+      getCoupons({
+        variables: {
+          limit: 50,
+          status: data.action === BulkCouponActionEnum.apply ? CouponStatusEnum.Active : undefined,
+        },
+      })
+      drawerRef.current?.openDrawer()
+    },
+    closeDrawer: () => drawerRef.current?.closeDrawer(),
+  }))
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+
+    // Allow selecting the same file again after editing it
+    event.target.value = ''
+
+    if (!file) return
+
+    setFileName(file.name)
+    setExternalIds(parseCustomerExternalIds(await file.text()))
+    setResults(undefined)
+  }
+
+  const processCustomer = async (
+    customer: GetCustomersForBulkCouponsQuery['customers']['collection'][number],
+  ): Promise<BulkCouponResult> => {
+    const { appliedCoupons, ...customerInfos } = customer
+
+    if (!coupon) return { customer: customerInfos, status: BulkCouponResultStatusEnum.skipped }
+
+    if (isApply) {
+      const { errors } = await addCoupon({
+        variables: {
+          input: {
+            customerId: customer.id,
+            couponId: coupon.id,
+            amountCents: coupon.amountCents,
+            amountCurrency: coupon.amountCurrency,
+            percentageRate: coupon.percentageRate,
+            frequency: coupon.frequency,
+            frequencyDuration: coupon.frequencyDuration,
+          },
+        },
+      })
+
+      return errors?.length
+        ? {
+            customer: customerInfos,
+            status: BulkCouponResultStatusEnum.failed,
+            errorTranslationKey: getBulkCouponErrorTranslationKey(errors),
+          }
+        : { customer: customerInfos, status: BulkCouponResultStatusEnum.succeeded }
+    }
+
+    const appliedCouponIds = (appliedCoupons || [])
+      .filter((appliedCoupon) => appliedCoupon.coupon.id === coupon.id)
+      .map(({ id }) => id)
+
+    // Customers without the coupon are left untouched
+    if (!appliedCouponIds.length) {
+      return { customer: customerInfos, status: BulkCouponResultStatusEnum.skipped }
+    }
+
+    for (const appliedCouponId of appliedCouponIds) {
+      const { errors } = await removeCoupon({ variables: { input: { id: appliedCouponId } } })
+
+      if (errors?.length) {
+        return {
+          customer: customerInfos,
+          status: BulkCouponResultStatusEnum.failed,
+          errorTranslationKey: getBulkCouponErrorTranslationKey(errors),
+        }
+      }
+    }
+
+    return { customer: customerInfos, status: BulkCouponResultStatusEnum.succeeded }
+  }
+
+  const onRun = async () => {
+    shouldStopRef.current = false
+    setIsRunning(true)
+    setTotalCount(previewCount)
+    setResults([])
+
+    try {
+      let page = 1
+      let totalPages = 1
+
+      while (page <= totalPages && !shouldStopRef.current) {
+        const { data } = await client.query<
+          GetCustomersForBulkCouponsQuery,
+          GetCustomersForBulkCouponsQueryVariables
+        >({
+          query: GetCustomersForBulkCouponsDocument,
+          variables: { ...segmentVariables, page, limit: CUSTOMERS_PAGE_LIMIT },
+          fetchPolicy: 'no-cache',
+        })
+
+        if (!data?.customers) break
+
+        totalPages = data.customers.metadata.totalPages
+        setTotalCount(data.customers.metadata.totalCount)
+
+        for (const customer of data.customers.collection) {
+          if (shouldStopRef.current) break
+
+          const result = await processCustomer(customer)
+
+          setResults((previousResults) => [...(previousResults || []), result])
+        }
+
+        page += 1
+      }
+    } catch {
+      addToast({
+        severity: 'danger',
+        translateKey: 'text_1792430949860c4ydte8qi3h',
+      })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const couponsComboboxData = (couponsData?.coupons.collection || []).map((item) => ({
+    label: item.name,
+    labelNode: (
+      <div className="flex whitespace-pre">
+        {item.name} - <CouponCaption coupon={item as CouponItemFragment} variant="body" />
+      </div>
+    ),
+    value: item.id,
+  }))
+
+  const countByStatus = (status: BulkCouponResultStatusEnum) =>
+    (results || []).filter((result) => result.status === status).length
+  const processedCount = results?.length || 0
+  const progress = totalCount ? Math.round((processedCount / totalCount) * 100) : 0
+  const loggedResults = (results || []).filter(
+    ({ status }) => status !== BulkCouponResultStatusEnum.succeeded,
+  )
+
+  return (
+    <Drawer
+      className="px-12 pt-12"
+      ref={drawerRef}
+      title={translate(isApply ? 'text_17924257987635n2cevs2i1o' : 'text_1792425798765hbzqy2gbjc6')}
+      showCloseWarningDialog={isRunning}
+      onClose={() => {
+        shouldStopRef.current = true
+      }}
+      stickyBottomBarClassName="z-10"
+      stickyBottomBar={({ closeDrawer }) => (
+        <div className="flex justify-end gap-3">
+          {isRunning ? (
+            <Button
+              size="large"
+              variant="quaternary"
+              onClick={() => {
+                shouldStopRef.current = true
+              }}
+            >
+              {translate('text_1792425798772hjdxnz66z4r')}
+            </Button>
+          ) : (
+            <Button size="large" variant="quaternary" onClick={closeDrawer}>
+              {translate('text_62f50d26c989ab03196884ae')}
+            </Button>
+          )}
+          <Button
+            size="large"
+            danger={!isApply}
+            disabled={!coupon || !previewCount || isRunning || !!results}
+            loading={isRunning}
+            onClick={onRun}
+            data-test="run-bulk-coupons"
+          >
+            {translate(
+              isApply ? 'text_1792425798774es08phzqoy5' : 'text_1792425798776ykcpn80g9kg',
+              {
+                count: previewCount,
+              },
+            )}
+          </Button>
+        </div>
+      )}
+    >
+      <div className="flex flex-col gap-12">
+        <div>
+          <Typography className="mb-1 text-2xl font-semibold text-grey-700">
+            {translate(isApply ? 'text_17924257987635n2cevs2i1o' : 'text_1792425798765hbzqy2gbjc6')}
+          </Typography>
+          <Typography className="text-base font-normal text-grey-600">
+            {translate(isApply ? 'text_1792425798767n4tqffq5j68' : 'text_17924257987695reggka9fyg')}
+          </Typography>
+        </div>
+
+        <div className="flex flex-col gap-4 pb-12 shadow-b">
+          <Typography className="text-lg font-semibold text-grey-700">
+            {translate('text_1792425798778ebnimw43w1u')}
+          </Typography>
+
+          <div className="flex flex-wrap gap-2">
+            {segmentLabels.length ? (
+              segmentLabels.map((label) => (
+                <Chip key={`bulk-coupons-segment-${label}`} size="small" label={label} />
+              ))
+            ) : (
+              <Typography variant="caption" color="grey600">
+                {translate('text_17924257987801d8uk5ebgyd')}
+              </Typography>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <Typography variant="caption" color="grey600">
+              {externalIds.length
+                ? translate(
+                    'text_1792425798782ly1jjas8m02',
+                    { count: externalIds.length, fileName },
+                    externalIds.length,
+                  )
+                : translate('text_1792425798784qo52rl0htbv')}
+            </Typography>
+            <input
+              ref={fileInputRef}
+              hidden
+              type="file"
+              accept=".csv,.txt,text/csv"
+              onChange={onFileChange}
+            />
+            {externalIds.length ? (
+              <Button
+                variant="quaternary"
+                size="small"
+                startIcon="trash"
+                disabled={isRunning}
+                onClick={() => {
+                  setExternalIds([])
+                  setFileName(undefined)
+                  setResults(undefined)
+                }}
+              >
+                {translate('text_17924257987873zdoaqy2hqz')}
+              </Button>
+            ) : (
+              <Button
+                variant="quaternary"
+                size="small"
+                startIcon="paperclip"
+                disabled={isRunning}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {translate('text_1792425798789c1s47wnxjg3')}
+              </Button>
+            )}
+          </div>
+
+          <Alert type="info">
+            {previewLoading
+              ? translate('text_1792425798791jcl3mzfumsy')
+              : translate('text_1792425798793n8phd87e6eu', { count: previewCount }, previewCount)}
+          </Alert>
+        </div>
+
+        <div className="flex flex-col gap-4 pb-12 shadow-b">
+          <ComboBox
+            name="bulkCoupon"
+            label={translate('text_628b8c693e464200e00e4677')}
+            placeholder={translate('text_628b8c693e464200e00e4685')}
+            data={couponsComboboxData}
+            loading={couponsLoading}
+            disabled={isRunning}
+            value={couponId || ''}
+            searchQuery={getCoupons}
+            onChange={(value) => {
+              setCouponId(value || undefined)
+              setResults(undefined)
+            }}
+          />
+          {isApply && (
+            <Typography variant="caption" color="grey600">
+              {translate('text_1792425798795ambjhufwpvn')}
+            </Typography>
+          )}
+        </div>
+
+        {!!results && (
+          <div className="flex flex-col gap-4" data-test="bulk-coupons-results">
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <Typography className="text-lg font-semibold text-grey-700">
+                  {translate('text_1792425798797xvir2s0fskq')}
+                </Typography>
+                <Typography variant="caption" color="grey600">
+                  {translate('text_17924257987991ant96h4k1z', {
+                    processedCount,
+                    totalCount,
+                  })}
+                </Typography>
+              </div>
+              <div className="h-2 w-full overflow-hidden rounded-full bg-grey-200">
+                <div className="h-full bg-green-600" style={{ width: `${progress}%` }} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Chip
+                  size="small"
+                  label={translate('text_1792425798801b7ey0pcz9m9', {
+                    count: countByStatus(BulkCouponResultStatusEnum.succeeded),
+                  })}
+                />
+                <Chip
+                  size="small"
+                  label={translate('text_1792425798804roa1nh0i27y', {
+                    count: countByStatus(BulkCouponResultStatusEnum.skipped),
+                  })}
+                />
+                <Chip
+                  size="small"
+                  error={!!countByStatus(BulkCouponResultStatusEnum.failed)}
+                  label={translate('text_1792425798806agcm9jlof3o', {
+                    count: countByStatus(BulkCouponResultStatusEnum.failed),
+                  })}
+                />
+              </div>
+            </div>
+
+            {!isRunning && processedCount < totalCount && (
+              <Alert type="warning">{translate('text_1792425798808lfqpql30q2d')}</Alert>
+            )}
+
+            {!!loggedResults.length && (
+              <Card className="gap-0 p-0">
+                {loggedResults.map(({ customer, status, errorTranslationKey }) => (
+                  <div
+                    key={`bulk-coupons-result-${customer.id}`}
+                    className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+                  >
+                    <div className="flex flex-1 flex-col overflow-hidden">
+                      <Typography variant="body" color="grey700" noWrap>
+                        {customer.displayName || customer.externalId}
+                      </Typography>
+                      <Typography variant="caption" color="grey600" noWrap>
+                        {customer.externalId}
+                      </Typography>
+                    </div>
+                    {status === BulkCouponResultStatusEnum.failed ? (
+                      <div className="flex items-center gap-2 overflow-hidden">
+                        <Icon name="warning-filled" color="warning" />
+                        <Typography variant="caption" color="grey600" noWrap>
+                          {translate(errorTranslationKey || '')}
+                        </Typography>
+                      </div>
+                    ) : (
+                      <Typography variant="caption" color="grey600" noWrap>
+                        {translate('text_1792425798810caa1arslow7')}
+                      </Typography>
+                    )}
+                  </div>
+                ))}
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </Drawer>
+  )
+})
+
+BulkCustomerCouponsDrawer.displayName = 'BulkCustomerCouponsDrawer'
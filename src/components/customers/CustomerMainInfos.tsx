@@ -1,9 +1,13 @@
 import { gql } from '@apollo/client'
-import { FC, PropsWithChildren } from 'react'
-import { Link, LinkProps } from 'react-router-dom'
+import { FC, PropsWithChildren, useRef } from 'react'
+import { generatePath, Link, LinkProps } from 'react-router-dom'
 
+import {
+  EditCustomerParentDialog,
+  EditCustomerParentDialogRef,
+} from '~/components/customers/EditCustomerParentDialog'
 import { TRANSLATIONS_MAP_CUSTOMER_TYPE } from '~/components/customers/utils'
-import { Avatar, Icon, Skeleton, Typography } from '~/components/designSystem'
+import { Avatar, Button, Icon, Skeleton, Typography } from '~/components/designSystem'
 import { PageSectionTitle } from '~/components/layouts/Section'
 import { PaymentProviderChip } from '~/components/PaymentProviderChip'
 import { CountryCodes } from '~/core/constants/countryCodes'
@@ -16,10 +20,13 @@ import {
   buildXeroCustomerUrl,
 } from '~/core/constants/externalUrls'
 import { getTargetedObjectTranslationKey } from '~/core/constants/form'
+import { CustomerDetailsTabsOptions } from '~/core/constants/tabsOptions'
+import { CUSTOMER_DETAILS_ROUTE, CUSTOMER_DETAILS_TAB_ROUTE } from '~/core/router'
 import { getTimezoneConfig } from '~/core/timezone'
 import {
   AnrokIntegration,
   CustomerMainInfosFragment,
+  EditCustomerParentFragmentDoc,
   HubspotIntegration,
   NetsuiteIntegration,
   ProviderPaymentMethodsEnum,
@@ -31,6 +38,7 @@ import {
   XeroIntegration,
 } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePermissions } from '~/hooks/usePermissions'
 import Anrok from '~/public/images/anrok.svg'
 import Hubspot from '~/public/images/hubspot.svg'
 import Netsuite from '~/public/images/netsuite.svg'
@@ -117,6 +125,8 @@ gql`
       key
       value
     }
+    childCustomersCount
+    ...EditCustomerParent
   }
 
   query paymentProvidersListForCustomerMainInfos($limit: Int) {
@@ -191,6 +201,8 @@ gql`
       }
     }
   }
+
+  ${EditCustomerParentFragmentDoc}
 `
 
 interface CustomerMainInfosProps {
@@ -233,6 +245,8 @@ const IntegrationsLoadingSkeleton = () => {
 
 export const CustomerMainInfos = ({ loading, customer, onEdit }: CustomerMainInfosProps) => {
   const { translate } = useInternationalization()
+  const { hasPermissions } = usePermissions()
+  const editParentDialogRef = useRef<EditCustomerParentDialogRef>(null)
 
   const { data: paymentProvidersData } = usePaymentProvidersListForCustomerMainInfosQuery({
     variables: { limit: 1000 },
@@ -334,6 +348,8 @@ export const CustomerMainInfos = ({ loading, customer, onEdit }: CustomerMainInf
     providerCustomer,
     timezone,
     metadata,
+    parentCustomer,
+    childCustomersCount,
   } = customer
 
   const hasExternalIntegration =
@@ -542,6 +558,61 @@ export const CustomerMainInfos = ({ loading, customer, onEdit }: CustomerMainInf
           </InfoSection>
         )}
 
+        <InfoSection title={translate('text_17924292541981j0bw4pe46v')}>
+          <InfoBlock>
+            <Typography variant="caption">{translate('text_17924292541928ih2nhglu61')}</Typography>
+            <div className="flex flex-col items-start gap-1">
+              {parentCustomer ? (
+                <InlineLink
+                  to={generatePath(CUSTOMER_DETAILS_ROUTE, { customerId: parentCustomer.id })}
+                >
+                  <Typography color="info600">
+                    {parentCustomer.displayName || parentCustomer.externalId}
+                  </Typography>
+                </InlineLink>
+              ) : (
+                <Typography color="textSecondary">
+                  {translate('text_1792429254200i1bfhxvpg31')}
+                </Typography>
+              )}
+              {hasPermissions(['customersUpdate']) && (
+                <Button
+                  variant="quaternary"
+                  size="small"
+                  onClick={() => editParentDialogRef.current?.openDialog()}
+                >
+                  {translate(
+                    parentCustomer
+                      ? 'text_1792429254203ygx92bi2emb'
+                      : 'text_1792429254205jd9ncc0032k',
+                  )}
+                </Button>
+              )}
+            </div>
+          </InfoBlock>
+          {!!childCustomersCount && (
+            <InfoBlock>
+              <Typography variant="caption">
+                {translate('text_17924292542078r4rh5jrpqr')}
+              </Typography>
+              <InlineLink
+                to={generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+                  customerId: customer.id,
+                  tab: CustomerDetailsTabsOptions.group,
+                })}
+              >
+                <Typography color="info600">
+                  {translate(
+                    'text_1792429254209kaz8hjrx1zx',
+                    { count: childCustomersCount },
+                    childCustomersCount,
+                  )}
+                </Typography>
+              </InlineLink>
+            </InfoBlock>
+          )}
+        </InfoSection>
+
         {!!metadata?.length && (
           <InfoSection title={translate('text_1737892224510vc53d10q4h5')}>
             {metadata.map((meta) => (
@@ -812,6 +883,8 @@ export const CustomerMainInfos = ({ loading, customer, onEdit }: CustomerMainInf
           </InfoSection>
         )}
       </div>
+
+      <EditCustomerParentDialog ref={editParentDialogRef} customer={customer} />
     </div>
   )
 }
@@ -0,0 +1,178 @@
+import { gql } from '@apollo/client'
+import { useFormik } from 'formik'
+import { forwardRef, RefObject } from 'react'
+import { object, string } from 'yup'
+
+import { Alert, Button, Dialog, DialogRef } from '~/components/designSystem'
+import { ComboBoxField } from '~/components/form'
+import { addToast } from '~/core/apolloClient'
+import {
+  EditCustomerParentFragment,
+  useEditCustomerParentMutation,
+  useGetCustomersForParentLazyQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment EditCustomerParent on Customer {
+    id
+    externalId
+    childCustomersCount
+    parentCustomer {
+      id
+      displayName
+      externalId
+    }
+  }
+
+  query getCustomersForParent($page: Int, $limit: Int, $searchTerm: String) {
+    customers(page: $page, limit: $limit, searchTerm: $searchTerm) {
+      collection {
+        id
+        displayName
+        externalId
+        parentCustomer {
+          id
+        }
+      }
+    }
+  }
+
+  mutation editCustomerParent($input: UpdateCustomerInput!) {
+    updateCustomer(input: $input) {
+      id
+      parentCustomer {
+        id
+        displayName
+        externalId
+        childCustomersCount
+      }
+    }
+  }
+`
+
+export type EditCustomerParentDialogRef = DialogRef
+
+interface EditCustomerParentDialogProps {
+  customer: EditCustomerParentFragment
+}
+
+export const EditCustomerParentDialog = forwardRef<DialogRef, EditCustomerParentDialogProps>(
+  ({ customer }: EditCustomerParentDialogProps, ref) => {
+    const { translate } = useInternationalization()
+    const [getCustomers, { data, loading }] = useGetCustomersForParentLazyQuery({
+      variables: { limit: 20 },
+    })
+
+    // Customers are grouped on a single level: a subsidiary can't have subsidiaries
+    const hasChildCustomers = !!customer.childCustomersCount
+
+    const [editCustomerParent] = useEditCustomerParentMutation({
+      update(cache, { data: updateData }) {
+        const previousParentId = customer.parentCustomer?.id
+
+        if (!updateData?.updateCustomer || !previousParentId) return
+        if (updateData.updateCustomer.parentCustomer?.id === previousParentId) return
+
+        // The new parent count comes with the response, the previous one is updated here
+        cache.modify({
+          id: cache.identify({ __typename: 'Customer', id: previousParentId }),
+          fields: {
+            childCustomersCount: (count: number) => Math.max(count - 1, 0),
+          },
+        })
+      },
+      onCompleted: ({ updateCustomer }) => {
+        if (updateCustomer) {
+          addToast({
+            severity: 'success',
+            message: translate('text_179242925418314zrvfr31yp'),
+          })
+        }
+      },
+    })
+
+    const formikProps = useFormik<{ parentCustomerId: string }>({
+      initialValues: {
+        parentCustomerId: customer.parentCustomer?.id ?? '',
+      },
+      validationSchema: object().shape({
+        parentCustomerId: string(),
+      }),
+      onSubmit: async ({ parentCustomerId }) => {
+        const { errors } = await editCustomerParent({
+          variables: {
+            input: {
+              id: customer.id,
+              externalId: customer.externalId,
+              parentCustomerId: parentCustomerId || null,
+            },
+          },
+        })
+
+        if (errors) return
+        ;(ref as unknown as RefObject<DialogRef>)?.current?.closeDialog()
+      },
+      enableReinitialize: true,
+    })
+
+    // The current parent is kept in the options so it's displayed before any search.
+    // Subsidiaries are left out, which also prevents picking one of the customer's own.
+    const customers = [
+      ...(customer.parentCustomer ? [customer.parentCustomer] : []),
+      ...(data?.customers.collection || []).filter(
+        ({ id, parentCustomer }) => id !== customer.parentCustomer?.id && !parentCustomer,
+      ),
+    ].filter(({ id }) => id !== customer.id)
+
+    return (
+      <Dialog
+        ref={ref}
+        onOpen={async () => {
+          await getCustomers()
+        }}
+        onClose={() => formikProps.resetForm()}
+        title={translate('text_17924292541854fnxigp67wd')}
+        description={translate('text_1792429254188r9c3s1tmu4q')}
+        actions={({ closeDialog }) => (
+          <>
+            <Button variant="quaternary" onClick={closeDialog}>
+              {translate('text_63ea0f84f400488553caa6a5')}
+            </Button>
+            <Button
+              variant="primary"
+              disabled={!formikProps.dirty || hasChildCustomers}
+              onClick={formikProps.submitForm}
+            >
+              {translate('text_1792429254190spgd0eze7ec')}
+            </Button>
+          </>
+        )}
+      >
+        <div className="mb-8 flex flex-col gap-4">
+          {hasChildCustomers && (
+            <Alert type="info">{translate('text_1792431488529mt4ky77mujn')}</Alert>
+          )}
+          <ComboBoxField
+            name="parentCustomerId"
+            formikProps={formikProps}
+            label={translate('text_17924292541928ih2nhglu61')}
+            placeholder={translate('text_17924292541947m32h636zy2')}
+            helperText={translate('text_1792429254196g1a2ll77g5n')}
+            loading={loading}
+            searchQuery={getCustomers}
+            data={customers.map(({ id, displayName, externalId }) => ({
+              value: id,
+              label: displayName || externalId,
+              description: externalId,
+            }))}
+            disabled={hasChildCustomers}
+            PopperProps={{ displayInDialog: true }}
+          />
+        </div>
+      </Dialog>
+    )
+  },
+)
+
+EditCustomerParentDialog.displayName = 'EditCustomerParentDialog'
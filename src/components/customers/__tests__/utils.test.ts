@@ -1,4 +1,10 @@
-import { computeCustomerInitials, getInitials } from '~/components/customers/utils'
+import {
+  computeCustomerInitials,
+  getBulkCouponErrorTranslationKey,
+  getInitials,
+  parseCustomerExternalIds,
+} from '~/components/customers/utils'
+import { LagoApiError } from '~/generated/graphql'
 
 describe('customerUtils', () => {
   describe('getInitials', () => {
@@ -64,4 +70,59 @@ describe('customerUtils', () => {
       })
     })
   })
+
+  describe('parseCustomerExternalIds', () => {
+    it('should read the first column when the file has no header', () => {
+      expect(parseCustomerExternalIds('cust_1,Acme\ncust_2,Globex\n\ncust_1,Acme')).toEqual([
+        'cust_1',
+        'cust_2',
+      ])
+    })
+
+    it('should read the external ID column when the file has a header', () => {
+      expect(
+        parseCustomerExternalIds('name;External_ID\r\n"Acme";"cust_1"\r\nGlobex;cust_2\r\n'),
+      ).toEqual(['cust_1', 'cust_2'])
+    })
+
+    it('should read every line with the delimiter of the first line', () => {
+      expect(parseCustomerExternalIds('cust_1;Acme, Inc\ncust_2;Globex\ncust_3,Initech')).toEqual([
+        'cust_1',
+        'cust_2',
+        'cust_3,Initech',
+      ])
+    })
+
+    it('should return no external ID for an empty file', () => {
+      expect(parseCustomerExternalIds('\n\n')).toEqual([])
+    })
+  })
+
+  describe('getBulkCouponErrorTranslationKey', () => {
+    const buildErrors = (code: LagoApiError, details?: Record<string, string[]>) => [
+      { message: '', extensions: { code, details } },
+    ]
+
+    it('should return the reason of a known error', () => {
+      expect(
+        getBulkCouponErrorTranslationKey(buildErrors(LagoApiError.CouponIsNotReusable)),
+      ).toEqual('text_1792425798752l66xcoiw8rm')
+    })
+
+    it('should return the reason of an error detail', () => {
+      expect(
+        getBulkCouponErrorTranslationKey(
+          buildErrors(LagoApiError.UnprocessableEntity, {
+            currency: [LagoApiError.CurrenciesDoesNotMatch],
+          }),
+        ),
+      ).toEqual('text_1792425798754o3skhrdi0cc')
+    })
+
+    it('should return a generic reason for an unknown error', () => {
+      expect(getBulkCouponErrorTranslationKey(buildErrors(LagoApiError.InternalError))).toEqual(
+        'text_1792425798759f9ty96h0exo',
+      )
+    })
+  })
 })
@@ -0,0 +1,275 @@
+import { gql } from '@apollo/client'
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+
+import {
+  CustomerActivityCategoryEnum,
+  getCustomerActivityLink,
+  getCustomerActivityTypes,
+  groupCustomerActivitiesByDay,
+} from '~/components/customers/activity/utils'
+import {
+  Icon,
+  IconColor,
+  IconName,
+  InfiniteScroll,
+  Skeleton,
+  Typography,
+} from '~/components/designSystem'
+import { ButtonSelector } from '~/components/form'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import { formatDateToTZ } from '~/core/timezone'
+import {
+  CustomerActivityForTimelineFragment,
+  CustomerActivityTypeEnum,
+  TimezoneEnum,
+  useGetCustomerActivitiesQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment CustomerActivityForTimeline on CustomerActivity {
+    id
+    activityType
+    occurredAt
+    resourceId
+    invoiceId
+    label
+    previousLabel
+    amountCents
+    currency
+    changedAttributes
+  }
+
+  query getCustomerActivities(
+    $customerId: ID!
+    $activityTypes: [CustomerActivityTypeEnum!]
+    $page: Int
+    $limit: Int
+  ) {
+    customerActivities(
+      customerId: $customerId
+      activityTypes: $activityTypes
+      page: $page
+      limit: $limit
+    ) {
+      metadata {
+        currentPage
+        totalPages
+      }
+      collection {
+        ...CustomerActivityForTimeline
+      }
+    }
+  }
+`
+
+const CUSTOMER_ACTIVITY_DISPLAY: Record<
+  CustomerActivityTypeEnum,
+  { icon: IconName; color?: IconColor; translationKey: string }
+> = {
+  [CustomerActivityTypeEnum.SubscriptionStarted]: {
+    icon: 'play',
+    translationKey: 'text_1792428048139ef4s7qafeht',
+  },
+  [CustomerActivityTypeEnum.SubscriptionUpgraded]: {
+    icon: 'arrow-top',
+    translationKey: 'text_179242804814198kcas1ics0',
+  },
+  [CustomerActivityTypeEnum.SubscriptionDowngraded]: {
+    icon: 'arrow-bottom',
+    translationKey: 'text_1792428048143idq2frgwap2',
+  },
+  [CustomerActivityTypeEnum.SubscriptionTerminated]: {
+    icon: 'stop',
+    translationKey: 'text_1792428048145lqwsjmhy92p',
+  },
+  [CustomerActivityTypeEnum.InvoiceIssued]: {
+    icon: 'document',
+    translationKey: 'text_17924280481479wz3zm7t5i4',
+  },
+  [CustomerActivityTypeEnum.PaymentSucceeded]: {
+    icon: 'validate-filled',
+    color: 'success',
+    translationKey: 'text_17924280481497ehcp9p28kr',
+  },
+  [CustomerActivityTypeEnum.PaymentFailed]: {
+    icon: 'error-filled',
+    color: 'error',
+    translationKey: 'text_1792428048151nadpdwpv7oo',
+  },
+  [CustomerActivityTypeEnum.CreditNoteIssued]: {
+    icon: 'receipt',
+    translationKey: 'text_1792428048153g134pnxkb7f',
+  },
+  [CustomerActivityTypeEnum.WalletToppedUp]: {
+    icon: 'wallet',
+    translationKey: 'text_1792428048156h5i5m86xdlc',
+  },
+  [CustomerActivityTypeEnum.WalletVoided]: {
+    icon: 'wallet',
+    color: 'warning',
+    translationKey: 'text_179242804815851dy7rb687f',
+  },
+  [CustomerActivityTypeEnum.CouponApplied]: {
+    icon: 'coupon',
+    translationKey: 'text_1792428048160bfj8hbli6lu',
+  },
+  [CustomerActivityTypeEnum.DunningAttempted]: {
+    icon: 'bell',
+    translationKey: 'text_1792428048162lpqjxmurpzy',
+  },
+  [CustomerActivityTypeEnum.SettingsUpdated]: {
+    icon: 'settings',
+    translationKey: 'text_1792428048164n5fj6evxpc1',
+  },
+}
+
+const CUSTOMER_ACTIVITY_CATEGORY_TRANSLATION_KEYS: Record<CustomerActivityCategoryEnum, string> = {
+  [CustomerActivityCategoryEnum.all]: 'text_1792428048120r511w31uubc',
+  [CustomerActivityCategoryEnum.subscriptions]: 'text_1792428048122ysas58su1g4',
+  [CustomerActivityCategoryEnum.invoices]: 'text_17924280481243a2y64tswwy',
+  [CustomerActivityCategoryEnum.payments]: 'text_1792428048126t8m2alrn2gk',
+  [CustomerActivityCategoryEnum.creditNotes]: 'text_1792428048128qokozapgyfc',
+  [CustomerActivityCategoryEnum.wallets]: 'text_1792428048130g2ctsl5kkqj',
+  [CustomerActivityCategoryEnum.coupons]: 'text_17924280481327jf5ubb2f2b',
+  [CustomerActivityCategoryEnum.dunning]: 'text_1792428048134b5q3hny6j9u',
+  [CustomerActivityCategoryEnum.settings]: 'text_17924280481364pnfswqt05b',
+}
+
+interface CustomerActivityTimelineProps {
+  customerId: string
+  customerTimezone?: TimezoneEnum
+}
+
+export const CustomerActivityTimeline = ({
+  customerId,
+  customerTimezone,
+}: CustomerActivityTimelineProps) => {
+  const { translate } = useInternationalization()
+  const [category, setCategory] = useState<CustomerActivityCategoryEnum>(
+    CustomerActivityCategoryEnum.all,
+  )
+
+  const { data, loading, fetchMore } = useGetCustomerActivitiesQuery({
+    variables: { customerId, activityTypes: getCustomerActivityTypes(category), limit: 20 },
+    skip: !customerId,
+    notifyOnNetworkStatusChange: true,
+  })
+
+  const activities = data?.customerActivities.collection || []
+  const activitiesByDay = groupCustomerActivitiesByDay(activities, customerTimezone)
+
+  const getActivityDescription = ({
+    amountCents,
+    currency,
+    changedAttributes,
+  }: CustomerActivityForTimelineFragment) => {
+    if (changedAttributes?.length) return changedAttributes.join(', ')
+
+    if (!currency || amountCents === null || amountCents === undefined) return undefined
+
+    return intlFormatNumber(deserializeAmount(amountCents, currency), { currency })
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col gap-1">
+        <Typography variant="subhead" color="grey700">
+          {translate('text_1792428048113p4fsbcqi2gw')}
+        </Typography>
+        <Typography variant="caption" color="grey600">
+          {translate('text_1792428048115hsmb9bpf3up')}
+        </Typography>
+      </div>
+
+      <ButtonSelector
+        value={category}
+        options={Object.values(CustomerActivityCategoryEnum).map((value) => ({
+          value,
+          label: translate(CUSTOMER_ACTIVITY_CATEGORY_TRANSLATION_KEYS[value]),
+        }))}
+        onChange={(value) => setCategory(value as CustomerActivityCategoryEnum)}
+      />
+
+      {!loading && !activities.length && (
+        <Typography variant="body" color="grey500">
+          {translate('text_1792428048117cs5pn07foez')}
+        </Typography>
+      )}
+
+      <InfiniteScroll
+        onBottom={() => {
+          const { currentPage = 0, totalPages = 0 } = data?.customerActivities.metadata || {}
+
+          currentPage < totalPages &&
+            !loading &&
+            fetchMore({
+              variables: { page: currentPage + 1 },
+            })
+        }}
+      >
+        <div className="flex flex-col gap-8" data-test="customer-activity-timeline">
+          {activitiesByDay.map(({ day, activities: dayActivities }) => (
+            <div key={`customer-activity-day-${day}`} className="flex flex-col gap-2">
+              <Typography variant="captionHl" color="grey600">
+                {formatDateToTZ(dayActivities[0].occurredAt, customerTimezone)}
+              </Typography>
+
+              <div className="flex flex-col">
+                {dayActivities.map((activity) => {
+                  const { icon, color, translationKey } =
+                    CUSTOMER_ACTIVITY_DISPLAY[activity.activityType]
+                  const link = getCustomerActivityLink(activity, customerId)
+                  const description = getActivityDescription(activity)
+                  const title = (
+                    <Typography variant="body" color="grey700" noWrap>
+                      {translate(translationKey, {
+                        label: activity.label || '-',
+                        previousLabel: activity.previousLabel || '-',
+                      })}
+                    </Typography>
+                  )
+
+                  return (
+                    <div
+                      key={`customer-activity-${activity.id}`}
+                      className="flex items-start gap-4 py-3 not-last:shadow-b"
+                    >
+                      <div className="flex size-8 shrink-0 items-center justify-center rounded-full bg-grey-100">
+                        <Icon name={icon} color={color} />
+                      </div>
+                      <div className="flex min-w-0 flex-1 flex-col">
+                        {link ? <Link to={link}>{title}</Link> : title}
+                        {!!description && (
+                          <Typography variant="caption" color="grey600" noWrap>
+                            {description}
+                          </Typography>
+                        )}
+                      </div>
+                      <Typography variant="caption" color="grey600" noWrap>
+                        {formatDateToTZ(activity.occurredAt, customerTimezone, 'HH:mm')}
+                      </Typography>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          ))}
+
+          {loading &&
+            [0, 1, 2].map((index) => (
+              <div key={`customer-activity-skeleton-${index}`} className="flex gap-4 py-3">
+                <Skeleton variant="circular" size="big" />
+                <div className="flex flex-1 flex-col gap-2">
+                  <Skeleton variant="text" className="w-60" />
+                  <Skeleton variant="text" className="w-30" />
+                </div>
+              </div>
+            ))}
+        </div>
+      </InfiniteScroll>
+    </div>
+  )
+}
@@ -0,0 +1,122 @@
+import {
+  CustomerActivityCategoryEnum,
+  getCustomerActivityLink,
+  getCustomerActivityTypes,
+  groupCustomerActivitiesByDay,
+} from '~/components/customers/activity/utils'
+import { CustomerActivityTypeEnum, TimezoneEnum } from '~/generated/graphql'
+
+describe('customer activity utils', () => {
+  describe('getCustomerActivityTypes', () => {
+    it('does not filter the activities of all categories', () => {
+      expect(getCustomerActivityTypes(CustomerActivityCategoryEnum.all)).toBeUndefined()
+    })
+
+    it('returns the activity types of a category', () => {
+      expect(getCustomerActivityTypes(CustomerActivityCategoryEnum.payments)).toEqual([
+        CustomerActivityTypeEnum.PaymentSucceeded,
+        CustomerActivityTypeEnum.PaymentFailed,
+      ])
+    })
+  })
+
+  describe('getCustomerActivityLink', () => {
+    it('links to the object of the activity', () => {
+      expect(
+        getCustomerActivityLink(
+          { activityType: CustomerActivityTypeEnum.SubscriptionUpgraded, resourceId: 'sub_1' },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/subscription/sub_1/overview')
+      expect(
+        getCustomerActivityLink(
+          { activityType: CustomerActivityTypeEnum.InvoiceIssued, resourceId: 'inv_1' },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/invoice/inv_1/overview')
+      expect(
+        getCustomerActivityLink(
+          { activityType: CustomerActivityTypeEnum.PaymentFailed, resourceId: 'pay_1' },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/payment/pay_1')
+      expect(
+        getCustomerActivityLink(
+          { activityType: CustomerActivityTypeEnum.CouponApplied, resourceId: 'coupon_1' },
+          'cus_1',
+        ),
+      ).toBe('/coupon/coupon_1')
+    })
+
+    it('links credit notes and dunning attempts through their invoice', () => {
+      expect(
+        getCustomerActivityLink(
+          {
+            activityType: CustomerActivityTypeEnum.CreditNoteIssued,
+            resourceId: 'cn_1',
+            invoiceId: 'inv_1',
+          },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/invoice/inv_1/credit-notes/cn_1')
+      expect(
+        getCustomerActivityLink(
+          { activityType: CustomerActivityTypeEnum.CreditNoteIssued, resourceId: 'cn_1' },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/credit-notes/cn_1')
+      expect(
+        getCustomerActivityLink(
+          {
+            activityType: CustomerActivityTypeEnum.DunningAttempted,
+            resourceId: 'pr_1',
+            invoiceId: 'inv_1',
+          },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/invoice/inv_1/overview')
+    })
+
+    it('links wallet and settings activities to the customer tabs', () => {
+      expect(
+        getCustomerActivityLink({ activityType: CustomerActivityTypeEnum.WalletVoided }, 'cus_1'),
+      ).toBe('/customer/cus_1/wallet')
+      expect(
+        getCustomerActivityLink(
+          { activityType: CustomerActivityTypeEnum.SettingsUpdated },
+          'cus_1',
+        ),
+      ).toBe('/customer/cus_1/settings')
+    })
+
+    it('returns undefined without object to open', () => {
+      expect(
+        getCustomerActivityLink({ activityType: CustomerActivityTypeEnum.InvoiceIssued }, 'cus_1'),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('groupCustomerActivitiesByDay', () => {
+    it('groups the activities by day in the customer timezone', () => {
+      expect(
+        groupCustomerActivitiesByDay(
+          [
+            { id: '1', occurredAt: '2024-03-02T10:00:00Z' },
+            { id: '2', occurredAt: '2024-03-02T02:00:00Z' },
+            { id: '3', occurredAt: '2024-03-01T20:00:00Z' },
+          ],
+          TimezoneEnum.TzAmericaNewYork,
+        ),
+      ).toEqual([
+        { day: '2024-03-02', activities: [{ id: '1', occurredAt: '2024-03-02T10:00:00Z' }] },
+        {
+          day: '2024-03-01',
+          activities: [
+            { id: '2', occurredAt: '2024-03-02T02:00:00Z' },
+            { id: '3', occurredAt: '2024-03-01T20:00:00Z' },
+          ],
+        },
+      ])
+    })
+  })
+})
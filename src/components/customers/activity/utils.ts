@@ -0,0 +1,155 @@
+import { DateTime } from 'luxon'
+import { generatePath } from 'react-router-dom'
+
+import {
+  CustomerDetailsTabsOptions,
+  CustomerInvoiceDetailsTabsOptionsEnum,
+  CustomerSubscriptionDetailsTabsOptionsEnum,
+} from '~/core/constants/tabsOptions'
+import {
+  COUPON_DETAILS_ROUTE,
+  CUSTOMER_CREDIT_NOTE_DETAILS_ROUTE,
+  CUSTOMER_DETAILS_TAB_ROUTE,
+  CUSTOMER_INVOICE_CREDIT_NOTE_DETAILS_ROUTE,
+  CUSTOMER_INVOICE_DETAILS_ROUTE,
+  CUSTOMER_PAYMENT_DETAILS_ROUTE,
+  CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE,
+} from '~/core/router'
+import { getTimezoneConfig } from '~/core/timezone'
+import { CustomerActivity, CustomerActivityTypeEnum, TimezoneEnum } from '~/generated/graphql'
+
+export enum CustomerActivityCategoryEnum {
+  all = 'all',
+  subscriptions = 'subscriptions',
+  invoices = 'invoices',
+  payments = 'payments',
+  creditNotes = 'creditNotes',
+  wallets = 'wallets',
+  coupons = 'coupons',
+  dunning = 'dunning',
+  settings = 'settings',
+}
+
+export const CUSTOMER_ACTIVITY_TYPES_BY_CATEGORY: Record<
+  Exclude<CustomerActivityCategoryEnum, CustomerActivityCategoryEnum.all>,
+  CustomerActivityTypeEnum[]
+> = {
+  [CustomerActivityCategoryEnum.subscriptions]: [
+    CustomerActivityTypeEnum.SubscriptionStarted,
+    CustomerActivityTypeEnum.SubscriptionUpgraded,
+    CustomerActivityTypeEnum.SubscriptionDowngraded,
+    CustomerActivityTypeEnum.SubscriptionTerminated,
+  ],
+  [CustomerActivityCategoryEnum.invoices]: [CustomerActivityTypeEnum.InvoiceIssued],
+  [CustomerActivityCategoryEnum.payments]: [
+    CustomerActivityTypeEnum.PaymentSucceeded,
+    CustomerActivityTypeEnum.PaymentFailed,
+  ],
+  [CustomerActivityCategoryEnum.creditNotes]: [CustomerActivityTypeEnum.CreditNoteIssued],
+  [CustomerActivityCategoryEnum.wallets]: [
+    CustomerActivityTypeEnum.WalletToppedUp,
+    CustomerActivityTypeEnum.WalletVoided,
+  ],
+  [CustomerActivityCategoryEnum.coupons]: [CustomerActivityTypeEnum.CouponApplied],
+  [CustomerActivityCategoryEnum.dunning]: [CustomerActivityTypeEnum.DunningAttempted],
+  [CustomerActivityCategoryEnum.settings]: [CustomerActivityTypeEnum.SettingsUpdated],
+}
+
+export const getCustomerActivityTypes = (category: CustomerActivityCategoryEnum) =>
+  category === CustomerActivityCategoryEnum.all
+    ? undefined
+    : CUSTOMER_ACTIVITY_TYPES_BY_CATEGORY[category]
+
+/**
+ * Returns the page of the object an activity relates to, undefined when there is none to open.
+ */
+export const getCustomerActivityLink = (
+  activity: Pick<CustomerActivity, 'activityType' | 'resourceId' | 'invoiceId'>,
+  customerId: string,
+): string | undefined => {
+  const { activityType, resourceId, invoiceId } = activity
+
+  switch (activityType) {
+    case CustomerActivityTypeEnum.SubscriptionStarted:
+    case CustomerActivityTypeEnum.SubscriptionUpgraded:
+    case CustomerActivityTypeEnum.SubscriptionDowngraded:
+    case CustomerActivityTypeEnum.SubscriptionTerminated:
+      return resourceId
+        ? generatePath(CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE, {
+            customerId,
+            subscriptionId: resourceId,
+            tab: CustomerSubscriptionDetailsTabsOptionsEnum.overview,
+          })
+        : undefined
+    case CustomerActivityTypeEnum.InvoiceIssued:
+      return resourceId
+        ? generatePath(CUSTOMER_INVOICE_DETAILS_ROUTE, {
+            customerId,
+            invoiceId: resourceId,
+            tab: CustomerInvoiceDetailsTabsOptionsEnum.overview,
+          })
+        : undefined
+    case CustomerActivityTypeEnum.PaymentSucceeded:
+    case CustomerActivityTypeEnum.PaymentFailed:
+      return resourceId
+        ? generatePath(CUSTOMER_PAYMENT_DETAILS_ROUTE, { customerId, paymentId: resourceId })
+        : undefined
+    case CustomerActivityTypeEnum.CreditNoteIssued:
+      if (!resourceId) return undefined
+
+      return invoiceId
+        ? generatePath(CUSTOMER_INVOICE_CREDIT_NOTE_DETAILS_ROUTE, {
+            customerId,
+            invoiceId,
+            creditNoteId: resourceId,
+          })
+        : generatePath(CUSTOMER_CREDIT_NOTE_DETAILS_ROUTE, { customerId, creditNoteId: resourceId })
+    case CustomerActivityTypeEnum.CouponApplied:
+      return resourceId ? generatePath(COUPON_DETAILS_ROUTE, { couponId: resourceId }) : undefined
+    // Dunning attempts request the payment of overdue invoices
+    case CustomerActivityTypeEnum.DunningAttempted:
+      return invoiceId
+        ? generatePath(CUSTOMER_INVOICE_DETAILS_ROUTE, {
+            customerId,
+            invoiceId,
+            tab: CustomerInvoiceDetailsTabsOptionsEnum.overview,
+          })
+        : undefined
+    case CustomerActivityTypeEnum.WalletToppedUp:
+    case CustomerActivityTypeEnum.WalletVoided:
+      return generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+        customerId,
+        tab: CustomerDetailsTabsOptions.wallet,
+      })
+    case CustomerActivityTypeEnum.SettingsUpdated:
+      return generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+        customerId,
+        tab: CustomerDetailsTabsOptions.settings,
+      })
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Groups the activities, sorted from the most recent, by day in the customer timezone.
+ */
+export const groupCustomerActivitiesByDay = <T extends Pick<CustomerActivity, 'occurredAt'>>(
+  activities: T[],
+  timezone: TimezoneEnum | null | undefined,
+): Array<{ day: string; activities: T[] }> => {
+  const zone = getTimezoneConfig(timezone).name
+
+  return activities.reduce<Array<{ day: string; activities: T[] }>>((groups, activity) => {
+    const day = DateTime.fromISO(activity.occurredAt, { zone }).toISODate() || ''
+    const lastGroup = groups[groups.length - 1]
+
+    if (lastGroup?.day === day) {
+      lastGroup.activities.push(activity)
+    } else {
+      groups.push({ day, activities: [activity] })
+    }
+
+    return groups
+  }, [])
+}
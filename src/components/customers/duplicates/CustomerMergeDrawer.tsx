@@ -0,0 +1,437 @@
+import { gql } from '@apollo/client'
+import { forwardRef, ReactNode, useImperativeHandle, useRef, useState } from 'react'
+import { generatePath, Link } from 'react-router-dom'
+
+import {
+  DeleteCustomerDialog,
+  DeleteCustomerDialogRef,
+} from '~/components/customers/DeleteCustomerDialog'
+import {
+  CustomerMergeStepEnum,
+  getCustomerFieldsComparison,
+  getCustomerMergeSteps,
+} from '~/components/customers/duplicates/utils'
+import { TRANSLATIONS_MAP_CUSTOMER_FIELD } from '~/components/customers/utils'
+import {
+  Alert,
+  Button,
+  Card,
+  Chip,
+  Drawer,
+  DrawerRef,
+  Icon,
+  Skeleton,
+  Typography,
+} from '~/components/designSystem'
+import {
+  CustomerDetailsTabsOptions,
+  CustomerInvoiceDetailsTabsOptionsEnum,
+  CustomerSubscriptionDetailsTabsOptionsEnum,
+} from '~/core/constants/tabsOptions'
+import {
+  COUPON_DETAILS_ROUTE,
+  CREATE_SUBSCRIPTION,
+  CREATE_WALLET_ROUTE,
+  CUSTOMER_DETAILS_TAB_ROUTE,
+  CUSTOMER_INVOICE_DETAILS_ROUTE,
+  CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE,
+  UPDATE_CUSTOMER_ROUTE,
+} from '~/core/router'
+import { DeleteCustomerDialogFragmentDoc, useGetCustomersForMergeQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePermissions } from '~/hooks/usePermissions'
+
+gql`
+  fragment CustomerForMerge on Customer {
+    id
+    displayName
+    externalId
+    name
+    legalName
+    email
+    phone
+    taxIdentificationNumber
+    addressLine1
+    addressLine2
+    zipcode
+    city
+    state
+    country
+    currency
+    timezone
+    paymentProvider
+    subscriptions(status: [active, pending]) {
+      id
+      name
+      externalId
+      plan {
+        id
+        name
+      }
+    }
+    appliedCoupons {
+      id
+      coupon {
+        id
+        name
+      }
+    }
+    ...DeleteCustomerDialog
+  }
+
+  query getCustomersForMerge($customerId: ID!, $duplicateId: ID!) {
+    customer(id: $customerId) {
+      ...CustomerForMerge
+    }
+    duplicate: customer(id: $duplicateId) {
+      ...CustomerForMerge
+    }
+    duplicateWallets: wallets(customerId: $duplicateId, status: active, limit: 100) {
+      metadata {
+        totalCount
+      }
+      collection {
+        id
+        name
+      }
+    }
+    duplicateOpenInvoices: invoices(
+      customerId: $duplicateId
+      status: [finalized]
+      paymentStatus: [pending, failed]
+      limit: 100
+    ) {
+      metadata {
+        totalCount
+      }
+      collection {
+        id
+        number
+      }
+    }
+  }
+
+  ${DeleteCustomerDialogFragmentDoc}
+`
+
+const CUSTOMER_MERGE_STEP_TRANSLATION_KEYS: Record<
+  CustomerMergeStepEnum,
+  { title: string; description: string }
+> = {
+  [CustomerMergeStepEnum.subscriptions]: {
+    title: 'text_179242829213295mdp0xeour',
+    description: 'text_17924282921342any1ti7bx4',
+  },
+  [CustomerMergeStepEnum.wallets]: {
+    title: 'text_17924282921362q14oy8bo6b',
+    description: 'text_17924282921387ngpri71aiq',
+  },
+  [CustomerMergeStepEnum.coupons]: {
+    title: 'text_1792428292140qu7u3gw2r1a',
+    description: 'text_1792428292142ipv2hxlpr35',
+  },
+  [CustomerMergeStepEnum.invoices]: {
+    title: 'text_1792428292145xzcw4bxno0t',
+    description: 'text_1792428292147v88dvyrcsrs',
+  },
+}
+
+export interface CustomerMergeDrawerRef {
+  openDrawer: (data: { customerId: string; duplicateId: string }) => unknown
+  closeDrawer: () => unknown
+}
+
+interface CustomerMergeDrawerProps {
+  onDuplicateDeleted?: () => void
+}
+
+export const CustomerMergeDrawer = forwardRef<CustomerMergeDrawerRef, CustomerMergeDrawerProps>(
+  ({ onDuplicateDeleted }, ref) => {
+    const { translate } = useInternationalization()
+    const { hasPermissions } = usePermissions()
+    const drawerRef = useRef<DrawerRef>(null)
+    const deleteDialogRef = useRef<DeleteCustomerDialogRef>(null)
+    const [ids, setIds] = useState<{ customerId: string; duplicateId: string }>()
+
+    const { data, loading, refetch } = useGetCustomersForMergeQuery({
+      variables: ids as { customerId: string; duplicateId: string },
+      skip: !ids,
+      fetchPolicy: 'network-only',
+      notifyOnNetworkStatusChange: true,
+    })
+
+    useImperativeHandle(ref, () => ({
+      openDrawer: (pair) => {
+        setIds(pair)
+        drawerRef.current?.openDrawer()
+      },
+      closeDrawer: () => drawerRef.current?.closeDrawer(),
+    }))
+
+    const customer = data?.customer
+    const duplicate = data?.duplicate
+    const subscriptions = duplicate?.subscriptions || []
+    const appliedCoupons = duplicate?.appliedCoupons || []
+    const wallets = data?.duplicateWallets.collection || []
+    const openInvoices = data?.duplicateOpenInvoices.collection || []
+
+    // Wallets and open invoices are only listed up to the query limit, their total is counted apart
+    const steps = getCustomerMergeSteps({
+      [CustomerMergeStepEnum.subscriptions]: subscriptions.length,
+      [CustomerMergeStepEnum.wallets]: data?.duplicateWallets.metadata.totalCount ?? wallets.length,
+      [CustomerMergeStepEnum.coupons]: appliedCoupons.length,
+      [CustomerMergeStepEnum.invoices]:
+        data?.duplicateOpenInvoices.metadata.totalCount ?? openInvoices.length,
+    })
+    const canRetireDuplicate = steps.every(({ isDone }) => isDone)
+
+    const renderStepItems = (step: CustomerMergeStepEnum, remainingCount: number): ReactNode => {
+      if (!customer || !duplicate) return null
+
+      const items = {
+        [CustomerMergeStepEnum.subscriptions]: subscriptions.map((subscription) => ({
+          id: subscription.id,
+          label: `${subscription.name || subscription.plan.name} (${subscription.externalId})`,
+          link: generatePath(CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE, {
+            customerId: duplicate.id,
+            subscriptionId: subscription.id,
+            tab: CustomerSubscriptionDetailsTabsOptionsEnum.overview,
+          }),
+        })),
+        [CustomerMergeStepEnum.wallets]: wallets.map((wallet) => ({
+          id: wallet.id,
+          label: wallet.name || translate('text_1792428292149po0rbubvc4h'),
+          link: generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+            customerId: duplicate.id,
+            tab: CustomerDetailsTabsOptions.wallet,
+          }),
+        })),
+        [CustomerMergeStepEnum.coupons]: appliedCoupons.map((appliedCoupon) => ({
+          id: appliedCoupon.id,
+          label: appliedCoupon.coupon.name,
+          link: generatePath(COUPON_DETAILS_ROUTE, { couponId: appliedCoupon.coupon.id }),
+        })),
+        [CustomerMergeStepEnum.invoices]: openInvoices.map((invoice) => ({
+          id: invoice.id,
+          label: invoice.number,
+          link: generatePath(CUSTOMER_INVOICE_DETAILS_ROUTE, {
+            customerId: duplicate.id,
+            invoiceId: invoice.id,
+            tab: CustomerInvoiceDetailsTabsOptionsEnum.overview,
+          }),
+        })),
+      }[step]
+
+      const keptCustomerAction = {
+        [CustomerMergeStepEnum.subscriptions]: {
+          label: translate('text_17924282921515rv3ufbgiv8'),
+          link: generatePath(CREATE_SUBSCRIPTION, { customerId: customer.id }),
+        },
+        [CustomerMergeStepEnum.wallets]: {
+          label: translate('text_1792428292153b7wi3jca8vo'),
+          link: generatePath(CREATE_WALLET_ROUTE, { customerId: customer.id }),
+        },
+        [CustomerMergeStepEnum.coupons]: {
+          label: translate('text_17924282921569fre6fahhf6'),
+          link: generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+            customerId: customer.id,
+            tab: CustomerDetailsTabsOptions.overview,
+          }),
+        },
+        [CustomerMergeStepEnum.invoices]: undefined,
+      }[step]
+
+      const unlistedCount = remainingCount - items.length
+
+      return (
+        <>
+          {items.map(({ id, label, link }) => (
+            <Link key={`customer-merge-${step}-${id}`} to={link} target="_blank">
+              <Typography variant="body" color="grey700" noWrap>
+                {label}
+              </Typography>
+            </Link>
+          ))}
+          {unlistedCount > 0 && (
+            <Typography variant="caption" color="grey600">
+              {translate('text_1792432437042e2mfjk5hrns', { count: unlistedCount }, unlistedCount)}
+            </Typography>
+          )}
+          {!!items.length && !!keptCustomerAction && (
+            <Link to={keptCustomerAction.link} target="_blank">
+              <Typography variant="captionHl" color="primary600">
+                {keptCustomerAction.label}
+              </Typography>
+            </Link>
+          )}
+        </>
+      )
+    }
+
+    return (
+      <Drawer
+        className="px-12 pt-12"
+        ref={drawerRef}
+        title={translate('text_1792428292111vs1jbl3crg7')}
+        onClose={() => setIds(undefined)}
+      >
+        <div className="flex flex-col gap-12">
+          <div>
+            <Typography className="mb-1 text-2xl font-semibold text-grey-700">
+              {translate('text_1792428292111vs1jbl3crg7')}
+            </Typography>
+            <Typography className="text-base font-normal text-grey-600">
+              {translate('text_1792428292113xj0zza6nkcc')}
+            </Typography>
+          </div>
+
+          {loading && !data && (
+            <div className="flex flex-col gap-4">
+              {[0, 1, 2].map((index) => (
+                <Skeleton key={`customer-merge-skeleton-${index}`} variant="text" />
+              ))}
+            </div>
+          )}
+
+          {!!customer && !!duplicate && (
+            <>
+              <div className="flex flex-col gap-4 pb-12 shadow-b">
+                <div className="flex items-center justify-between gap-3">
+                  <Typography className="text-lg font-semibold text-grey-700">
+                    {translate('text_1792428292115talpu9ux742')}
+                  </Typography>
+                  <Button
+                    variant="quaternary"
+                    size="small"
+                    startIcon="switch"
+                    onClick={() => setIds({ customerId: duplicate.id, duplicateId: customer.id })}
+                  >
+                    {translate('text_17924282921174zj5oohx6r4')}
+                  </Button>
+                </div>
+
+                <Card className="gap-0 p-0">
+                  <div className="grid grid-cols-[1fr_2fr_2fr] gap-4 px-4 py-3 shadow-b">
+                    <span />
+                    <Typography variant="captionHl" color="grey600" noWrap>
+                      {translate('text_1792428292119vby1nlscvu2', { name: customer.displayName })}
+                    </Typography>
+                    <Typography variant="captionHl" color="grey600" noWrap>
+                      {translate('text_1792428292121m4nnp420bye', { name: duplicate.displayName })}
+                    </Typography>
+                  </div>
+                  {getCustomerFieldsComparison(customer, duplicate).map(
+                    ({ field, customerValue, duplicateValue, isSame }) => (
+                      <div
+                        key={`customer-merge-field-${field}`}
+                        className="grid grid-cols-[1fr_2fr_2fr] items-center gap-4 px-4 py-3 not-last:shadow-b"
+                      >
+                        <Typography variant="caption" color="grey600" noWrap>
+                          {translate(TRANSLATIONS_MAP_CUSTOMER_FIELD[field])}
+                        </Typography>
+                        <Typography variant="body" color="grey700" noWrap>
+                          {customerValue || '-'}
+                        </Typography>
+                        <div className="flex items-center gap-2 overflow-hidden">
+                          <Typography variant="body" color="grey700" noWrap>
+                            {duplicateValue || '-'}
+                          </Typography>
+                          {!isSame && <Icon name="warning-filled" color="warning" />}
+                        </div>
+                      </div>
+                    ),
+                  )}
+                </Card>
+
+                {hasPermissions(['customersUpdate']) && (
+                  <Link
+                    to={generatePath(UPDATE_CUSTOMER_ROUTE, { customerId: customer.id })}
+                    target="_blank"
+                  >
+                    <Typography variant="captionHl" color="primary600">
+                      {translate('text_1792428292123iipofp6jxqn')}
+                    </Typography>
+                  </Link>
+                )}
+              </div>
+
+              <div className="flex flex-col gap-4">
+                <div className="flex items-center justify-between gap-3">
+                  <Typography className="text-lg font-semibold text-grey-700">
+                    {translate('text_1792428292125i27wf4w76d9')}
+                  </Typography>
+                  <Button
+                    variant="quaternary"
+                    size="small"
+                    startIcon="reload"
+                    loading={loading}
+                    onClick={() => refetch()}
+                  >
+                    {translate('text_1792428292127fbti7set4vu')}
+                  </Button>
+                </div>
+
+                {steps.map(({ step, remainingCount, isDone }) => (
+                  <Card key={`customer-merge-step-${step}`} className="gap-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <Typography variant="bodyHl" color="grey700">
+                        {translate(CUSTOMER_MERGE_STEP_TRANSLATION_KEYS[step].title)}
+                      </Typography>
+                      {isDone ? (
+                        <Icon name="validate-filled" color="success" />
+                      ) : (
+                        <Chip
+                          size="small"
+                          label={translate('text_1792428292130phl54lsi0yo', {
+                            count: remainingCount,
+                          })}
+                        />
+                      )}
+                    </div>
+                    {!isDone && (
+                      <>
+                        <Typography variant="caption" color="grey600">
+                          {translate(CUSTOMER_MERGE_STEP_TRANSLATION_KEYS[step].description)}
+                        </Typography>
+                        {renderStepItems(step, remainingCount)}
+                      </>
+                    )}
+                  </Card>
+                ))}
+
+                {!canRetireDuplicate && (
+                  <Alert type="info">{translate('text_1792428292158u51jxeaeexo')}</Alert>
+                )}
+
+                {hasPermissions(['customersDelete']) && (
+                  <div>
+                    <Button
+                      danger
+                      disabled={!canRetireDuplicate}
+                      onClick={() =>
+                        deleteDialogRef.current?.openDialog({
+                          customer: duplicate,
+                          onDeleted: () => {
+                            drawerRef.current?.closeDrawer()
+                            onDuplicateDeleted?.()
+                          },
+                        })
+                      }
+                      data-test="retire-duplicate-customer"
+                    >
+                      {translate('text_179242829216038lnjuvgh2e', { name: duplicate.displayName })}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DeleteCustomerDialog ref={deleteDialogRef} />
+      </Drawer>
+    )
+  },
+)
+
+CustomerMergeDrawer.displayName = 'CustomerMergeDrawer'
@@ -0,0 +1,53 @@
+import {
+  CustomerMergeStepEnum,
+  getCustomerFieldsComparison,
+  getCustomerMergeSteps,
+} from '~/components/customers/duplicates/utils'
+import { CountryCode } from '~/generated/graphql'
+
+describe('customer duplicates utils', () => {
+  describe('getCustomerFieldsComparison', () => {
+    it('compares the fields set on either customer', () => {
+      expect(
+        getCustomerFieldsComparison(
+          { externalId: 'acme', name: 'Acme', email: 'Billing@acme.com ', country: CountryCode.Fr },
+          { externalId: 'acme_api', name: 'ACME', email: 'billing@acme.com', phone: '+33 1' },
+        ),
+      ).toEqual([
+        { field: 'externalId', customerValue: 'acme', duplicateValue: 'acme_api', isSame: false },
+        { field: 'name', customerValue: 'Acme', duplicateValue: 'ACME', isSame: true },
+        {
+          field: 'email',
+          customerValue: 'Billing@acme.com ',
+          duplicateValue: 'billing@acme.com',
+          isSame: true,
+        },
+        { field: 'phone', customerValue: undefined, duplicateValue: '+33 1', isSame: false },
+        {
+          field: 'country',
+          customerValue: CountryCode.Fr,
+          duplicateValue: undefined,
+          isSame: false,
+        },
+      ])
+    })
+  })
+
+  describe('getCustomerMergeSteps', () => {
+    it('marks the steps without anything left on the duplicate as done', () => {
+      expect(
+        getCustomerMergeSteps({
+          [CustomerMergeStepEnum.subscriptions]: 2,
+          [CustomerMergeStepEnum.wallets]: 0,
+          [CustomerMergeStepEnum.coupons]: 1,
+          [CustomerMergeStepEnum.invoices]: 0,
+        }),
+      ).toEqual([
+        { step: CustomerMergeStepEnum.subscriptions, remainingCount: 2, isDone: false },
+        { step: CustomerMergeStepEnum.wallets, remainingCount: 0, isDone: true },
+        { step: CustomerMergeStepEnum.coupons, remainingCount: 1, isDone: false },
+        { step: CustomerMergeStepEnum.invoices, remainingCount: 0, isDone: true },
+      ])
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { Customer } from '~/generated/graphql'
+
+export const CUSTOMER_COMPARED_FIELDS = [
+  'externalId',
+  'name',
+  'legalName',
+  'email',
+  'phone',
+  'taxIdentificationNumber',
+  'addressLine1',
+  'addressLine2',
+  'zipcode',
+  'city',
+  'state',
+  'country',
+  'currency',
+  'timezone',
+  'paymentProvider',
+] as const
+
+export type CustomerComparedField = (typeof CUSTOMER_COMPARED_FIELDS)[number]
+
+export type CustomerFieldComparison = {
+  field: CustomerComparedField
+  customerValue?: string | null
+  duplicateValue?: string | null
+  isSame: boolean
+}
+
+export enum CustomerMergeStepEnum {
+  subscriptions = 'subscriptions',
+  wallets = 'wallets',
+  coupons = 'coupons',
+  invoices = 'invoices',
+}
+
+const normalizeValue = (value?: string | null) => (value || '').trim().toLowerCase()
+
+/**
+ * Compares the fields of two customers, ignoring the case and the surrounding spaces.
+ * Fields empty on both customers are left out.
+ */
+export const getCustomerFieldsComparison = (
+  customer: Partial<Pick<Customer, CustomerComparedField>>,
+  duplicate: Partial<Pick<Customer, CustomerComparedField>>,
+): CustomerFieldComparison[] =>
+  CUSTOMER_COMPARED_FIELDS.filter((field) => !!customer[field] || !!duplicate[field]).map(
+    (field) => ({
+      field,
+      customerValue: customer[field],
+      duplicateValue: duplicate[field],
+      isSame: normalizeValue(customer[field]) === normalizeValue(duplicate[field]),
+    }),
+  )
+
+/**
+ * Returns the steps needed before the duplicate can be deleted: everything still attached to it
+ * has to be moved to the kept customer, or closed.
+ */
+export const getCustomerMergeSteps = (remainingCounts: Record<CustomerMergeStepEnum, number>) =>
+  Object.values(CustomerMergeStepEnum).map((step) => ({
+    step,
+    remainingCount: remainingCounts[step],
+    isDone: !remainingCounts[step],
+  }))
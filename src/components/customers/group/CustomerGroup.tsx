@@ -0,0 +1,394 @@
+import { gql } from '@apollo/client'
+import { useRef } from 'react'
+import { generatePath, useNavigate } from 'react-router-dom'
+
+import { Button, Status, StatusType, Table, Typography } from '~/components/designSystem'
+import { ExportDialog, ExportDialogRef, ExportValues } from '~/components/exports/ExportDialog'
+import { PageSectionTitle } from '~/components/layouts/Section'
+import { OverviewCard } from '~/components/OverviewCard'
+import { TimezoneDate } from '~/components/TimezoneDate'
+import { addToast } from '~/core/apolloClient'
+import { CustomerSubscriptionDetailsTabsOptionsEnum } from '~/core/constants/tabsOptions'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import {
+  CUSTOMER_DETAILS_ROUTE,
+  CUSTOMER_GROUP_REQUEST_OVERDUE_PAYMENT_ROUTE,
+  CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE,
+} from '~/core/router'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import {
+  CurrencyEnum,
+  InvoiceExportTypeEnum,
+  StatusTypeEnum,
+  TimezoneEnum,
+  useCreateInvoicesDataExportMutation,
+  useGetCustomerGroupQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePermissions } from '~/hooks/usePermissions'
+
+import { getCustomerGroupTotals } from './utils'
+
+gql`
+  fragment CustomerGroupMemberItem on CustomerGroupMember {
+    id
+    currency
+    currentUsageAmountCents
+    outstandingAmountCents
+    overdueAmountCents
+    overdueInvoicesCount
+    walletsBalanceCents
+    customer {
+      id
+      displayName
+      externalId
+      activeSubscriptionsCount
+      subscriptions(status: [active, pending]) {
+        id
+        name
+        status
+        startedAt
+        subscriptionAt
+        plan {
+          id
+          name
+        }
+      }
+    }
+  }
+
+  query getCustomerGroup($customerId: ID!, $limit: Int) {
+    customerGroupMembers(customerId: $customerId, limit: $limit) {
+      collection {
+        id
+        ...CustomerGroupMemberItem
+      }
+    }
+  }
+`
+
+// Groups are loaded at once, as the totals are computed over all the child customers
+const RESULT_LIMIT = 1000
+
+interface CustomerGroupProps {
+  customerId: string
+  externalCustomerId?: string
+  customerName?: string
+  userCurrency?: CurrencyEnum
+  customerTimezone?: TimezoneEnum
+}
+
+export const CustomerGroup = ({
+  customerId,
+  externalCustomerId,
+  customerName,
+  userCurrency,
+  customerTimezone,
+}: CustomerGroupProps) => {
+  const { translate } = useInternationalization()
+  const { hasPermissions } = usePermissions()
+  const navigate = useNavigate()
+  const exportInvoicesDialogRef = useRef<ExportDialogRef>(null)
+
+  const { data, loading, error } = useGetCustomerGroupQuery({
+    variables: { customerId, limit: RESULT_LIMIT },
+    fetchPolicy: 'network-only',
+  })
+
+  const [triggerCreateInvoicesDataExport] = useCreateInvoicesDataExportMutation({
+    onCompleted({ createInvoicesDataExport }) {
+      if (createInvoicesDataExport) {
+        addToast({
+          message: translate('text_66b323b63e76c400f78cd342'),
+          severity: 'info',
+        })
+      }
+    },
+  })
+
+  const members = data?.customerGroupMembers.collection || []
+  const groupTotals = getCustomerGroupTotals(members, userCurrency)
+  const hasOverdueInvoices = groupTotals.some(({ overdueInvoicesCount }) => !!overdueInvoicesCount)
+  const subscriptions = members.flatMap(({ customer }) =>
+    customer.subscriptions.map((subscription) => ({ ...subscription, customer })),
+  )
+
+  const formatAmount = (amount: number, currency: CurrencyEnum) =>
+    intlFormatNumber(amount, { currencyDisplay: 'symbol', currency })
+
+  const onInvoicesExport = async (values: ExportValues<InvoiceExportTypeEnum>) => {
+    const res = await triggerCreateInvoicesDataExport({
+      variables: {
+        input: {
+          ...values,
+          filters: { customerExternalId: externalCustomerId, includeChildCustomers: true },
+        },
+      },
+    })
+
+    if (res.errors) return
+  }
+
+  return (
+    <div className="flex flex-col gap-12">
+      <section>
+        <PageSectionTitle
+          title={translate('text_17924292541508oyupl3y4kk')}
+          subtitle={translate(
+            'text_1792429254152433yzobnigf',
+            { count: members.length },
+            members.length,
+          )}
+          loading={loading}
+          customAction={
+            <div className="flex items-center gap-3">
+              {hasPermissions(['invoicesView']) && (
+                <Button
+                  variant="quaternary"
+                  disabled={!members.length}
+                  onClick={() => exportInvoicesDialogRef.current?.openDialog()}
+                >
+                  {translate('text_66b21236c939426d07ff98ca')}
+                </Button>
+              )}
+              {hasPermissions(['analyticsOverdueBalancesView']) && hasOverdueInvoices && (
+                <Button
+                  variant="quaternary"
+                  onClick={() =>
+                    navigate(
+                      generatePath(CUSTOMER_GROUP_REQUEST_OVERDUE_PAYMENT_ROUTE, { customerId }),
+                    )
+                  }
+                >
+                  {translate('text_66b25adfd834ed0104345eb7')}
+                </Button>
+              )}
+            </div>
+          }
+        />
+
+        {!loading && !!error && (
+          <Typography className="text-grey-500">
+            {translate('text_63ac86d797f728a87b2f9ff2')}
+          </Typography>
+        )}
+
+        <div className="flex flex-col gap-4">
+          {groupTotals.map((totals) => (
+            <div key={`customer-group-totals-${totals.currency}`} className="flex flex-col gap-2">
+              {groupTotals.length > 1 && (
+                <Typography variant="captionHl" color="grey600">
+                  {translate(
+                    'text_1792429254154qe4yskqohrg',
+                    { currency: totals.currency, count: totals.customersCount },
+                    totals.customersCount,
+                  )}
+                </Typography>
+              )}
+              <div className="flex flex-wrap gap-4">
+                <OverviewCard
+                  title={translate('text_1792429254156viat0wsr559')}
+                  content={formatAmount(totals.outstandingAmount, totals.currency)}
+                  caption={translate(
+                    'text_1792429254158va5m0oj7o3s',
+                    { count: totals.activeSubscriptionsCount },
+                    totals.activeSubscriptionsCount,
+                  )}
+                />
+                <OverviewCard
+                  title={translate('text_6670a7222702d70114cc795a')}
+                  content={formatAmount(totals.overdueAmount, totals.currency)}
+                  caption={translate(
+                    'text_6670a7222702d70114cc795c',
+                    { count: totals.overdueInvoicesCount },
+                    totals.overdueInvoicesCount,
+                  )}
+                  isAccentContent={!!totals.overdueInvoicesCount}
+                />
+                <OverviewCard
+                  title={translate('text_1792429254160yf434k0psr1')}
+                  content={formatAmount(totals.walletsBalance, totals.currency)}
+                  caption={translate('text_1792429254163x05iuja8rdw')}
+                />
+                <OverviewCard
+                  title={translate('text_1792429254165t374xaqk0dg')}
+                  content={formatAmount(totals.currentUsageAmount, totals.currency)}
+                  caption={translate('text_1792429254167lkwcf0b0o4u')}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <PageSectionTitle
+          title={translate('text_1792429254170ita62redu0c')}
+          subtitle={translate('text_17924292541721cd5fq1fr0h')}
+        />
+
+        <Table
+          name="customer-group-members"
+          data={members}
+          containerSize={4}
+          isLoading={loading}
+          onRowActionLink={({ customer }) =>
+            generatePath(CUSTOMER_DETAILS_ROUTE, { customerId: customer.id })
+          }
+          columns={[
+            {
+              key: 'customer.displayName',
+              title: translate('text_624efab67eb2570101d117cc'),
+              maxSpace: true,
+              minWidth: 200,
+              content: ({ customer }) => (
+                <div className="flex flex-col">
+                  <Typography variant="bodyHl" color="grey700" noWrap>
+                    {customer.displayName || '-'}
+                  </Typography>
+                  <Typography variant="caption" color="grey600" noWrap>
+                    {customer.externalId}
+                  </Typography>
+                </div>
+              ),
+            },
+            {
+              key: 'customer.activeSubscriptionsCount',
+              title: translate('text_1734452833961chacuky8218'),
+              textAlign: 'right',
+              content: ({ customer }) => customer.activeSubscriptionsCount,
+            },
+            {
+              key: 'outstandingAmountCents',
+              title: translate('text_1792429254156viat0wsr559'),
+              textAlign: 'right',
+              content: ({ outstandingAmountCents, currency }) =>
+                formatAmount(deserializeAmount(outstandingAmountCents, currency), currency),
+            },
+            {
+              key: 'overdueAmountCents',
+              title: translate('text_6670a7222702d70114cc795a'),
+              textAlign: 'right',
+              content: ({ overdueAmountCents, overdueInvoicesCount, currency }) => (
+                <Typography color={overdueInvoicesCount ? 'warning700' : 'grey700'}>
+                  {formatAmount(deserializeAmount(overdueAmountCents, currency), currency)}
+                </Typography>
+              ),
+            },
+            {
+              key: 'walletsBalanceCents',
+              title: translate('text_1792429254160yf434k0psr1'),
+              textAlign: 'right',
+              content: ({ walletsBalanceCents, currency }) =>
+                formatAmount(deserializeAmount(walletsBalanceCents, currency), currency),
+            },
+            {
+              key: 'currentUsageAmountCents',
+              title: translate('text_1792429254165t374xaqk0dg'),
+              textAlign: 'right',
+              content: ({ currentUsageAmountCents, currency }) =>
+                formatAmount(deserializeAmount(currentUsageAmountCents, currency), currency),
+            },
+          ]}
+          placeholder={{
+            emptyState: {
+              title: translate('text_1792429254174flnvtzsdgzj'),
+              subtitle: translate('text_1792429254176c9ve3w9kn8p'),
+            },
+          }}
+        />
+      </section>
+
+      <section>
+        <PageSectionTitle
+          title={translate('text_6250304370f0f700a8fdc28d')}
+          subtitle={translate('text_1792429254179o8ukksgekfq')}
+        />
+
+        {!loading && !subscriptions.length ? (
+          <Typography className="text-grey-500">
+            {translate('text_6250304370f0f700a8fdc28f')}
+          </Typography>
+        ) : (
+          <Table
+            name="customer-group-subscriptions"
+            data={subscriptions}
+            containerSize={4}
+            isLoading={loading}
+            onRowActionLink={({ id, customer }) =>
+              generatePath(CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE, {
+                customerId: customer.id,
+                subscriptionId: id,
+                tab: CustomerSubscriptionDetailsTabsOptionsEnum.overview,
+              })
+            }
+            columns={[
+              {
+                key: 'status',
+                title: translate('text_62d7f6178ec94cd09370e5fb'),
+                content: ({ status }) =>
+                  status === StatusTypeEnum.Pending ? (
+                    <Status type={StatusType.default} label="pending" />
+                  ) : (
+                    <Status type={StatusType.success} label="active" />
+                  ),
+              },
+              {
+                key: 'name',
+                title: translate('text_6253f11816f710014600b9ed'),
+                maxSpace: true,
+                content: ({ name, plan }) => (
+                  <Typography variant="bodyHl" color="grey700" noWrap>
+                    {name || plan.name}
+                  </Typography>
+                ),
+              },
+              {
+                key: 'customer.displayName',
+                title: translate('text_624efab67eb2570101d117cc'),
+                content: ({ customer }) => (
+                  <Typography color="grey600" noWrap>
+                    {customer.displayName || customer.externalId}
+                  </Typography>
+                ),
+              },
+              {
+                key: 'startedAt',
+                title: translate('text_65201c5a175a4b0238abf29e'),
+                content: ({ startedAt, subscriptionAt }) => (
+                  <TimezoneDate
+                    typographyClassName="text-nowrap text-base font-normal text-grey-600"
+                    date={startedAt || subscriptionAt}
+                    customerTimezone={customerTimezone}
+                  />
+                ),
+              },
+            ]}
+          />
+        )}
+      </section>
+
+      <ExportDialog
+        ref={exportInvoicesDialogRef}
+        totalCountLabel={translate(
+          'text_1792429254181btcntw1gnsz',
+          { customerName, count: members.length },
+          members.length,
+        )}
+        onExport={onInvoicesExport}
+        resourceTypeOptions={[
+          {
+            label: translate('text_66b21236c939426d07ff993b'),
+            sublabel: translate('text_66b21236c939426d07ff993c'),
+            value: InvoiceExportTypeEnum.Invoices,
+          },
+          {
+            label: translate('text_66b21236c939426d07ff993d'),
+            sublabel: translate('text_66b21236c939426d07ff993e'),
+            value: InvoiceExportTypeEnum.InvoiceFees,
+          },
+        ]}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import { getCustomerGroupTotals } from '~/components/customers/group/utils'
+import { CurrencyEnum } from '~/generated/graphql'
+
+const buildMember = (
+  currency: CurrencyEnum,
+  activeSubscriptionsCount: number,
+  amountsCents: number,
+  overdueInvoicesCount = 0,
+) => ({
+  currency,
+  currentUsageAmountCents: amountsCents,
+  outstandingAmountCents: amountsCents,
+  overdueAmountCents: amountsCents,
+  overdueInvoicesCount,
+  walletsBalanceCents: amountsCents,
+  customer: { activeSubscriptionsCount },
+})
+
+describe('customer group utils', () => {
+  describe('getCustomerGroupTotals', () => {
+    it('sums the figures of the child customers by currency', () => {
+      expect(
+        getCustomerGroupTotals(
+          [
+            buildMember(CurrencyEnum.Usd, 1, 1050, 1),
+            buildMember(CurrencyEnum.Eur, 2, 2000, 2),
+            buildMember(CurrencyEnum.Eur, 1, 500),
+          ],
+          CurrencyEnum.Eur,
+        ),
+      ).toEqual([
+        {
+          currency: CurrencyEnum.Eur,
+          customersCount: 2,
+          activeSubscriptionsCount: 3,
+          outstandingAmount: 25,
+          overdueAmount: 25,
+          overdueInvoicesCount: 2,
+          walletsBalance: 25,
+          currentUsageAmount: 25,
+        },
+        {
+          currency: CurrencyEnum.Usd,
+          customersCount: 1,
+          activeSubscriptionsCount: 1,
+          outstandingAmount: 10.5,
+          overdueAmount: 10.5,
+          overdueInvoicesCount: 1,
+          walletsBalance: 10.5,
+          currentUsageAmount: 10.5,
+        },
+      ])
+    })
+
+    it('sums the amounts in cents before converting them', () => {
+      expect(
+        getCustomerGroupTotals([
+          buildMember(CurrencyEnum.Usd, 0, 10),
+          buildMember(CurrencyEnum.Usd, 0, 20),
+        ])[0].outstandingAmount,
+      ).toBe(0.3)
+    })
+
+    it('returns no totals without child customers', () => {
+      expect(getCustomerGroupTotals([], CurrencyEnum.Eur)).toEqual([])
+    })
+  })
+})
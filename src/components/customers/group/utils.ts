@@ -0,0 +1,99 @@
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import { CurrencyEnum, Customer, CustomerGroupMember } from '~/generated/graphql'
+
+type CustomerGroupMemberFigures = Pick<
+  CustomerGroupMember,
+  | 'currency'
+  | 'currentUsageAmountCents'
+  | 'outstandingAmountCents'
+  | 'overdueAmountCents'
+  | 'overdueInvoicesCount'
+  | 'walletsBalanceCents'
+> & {
+  customer: Pick<Customer, 'activeSubscriptionsCount'>
+}
+
+export type CustomerGroupTotals = {
+  currency: CurrencyEnum
+  customersCount: number
+  activeSubscriptionsCount: number
+  outstandingAmount: number
+  overdueAmount: number
+  overdueInvoicesCount: number
+  walletsBalance: number
+  currentUsageAmount: number
+}
+
+type CustomerGroupTotalsCents = Omit<
+  CustomerGroupTotals,
+  'outstandingAmount' | 'overdueAmount' | 'walletsBalance' | 'currentUsageAmount'
+> & {
+  outstandingAmountCents: number
+  overdueAmountCents: number
+  walletsBalanceCents: number
+  currentUsageAmountCents: number
+}
+
+/**
+ * Sums the figures of the child customers by currency, as amounts in different currencies can't
+ * be added up. Amounts are summed in cents and only converted once per total, so the totals don't
+ * accumulate float rounding errors. The currency of the parent customer comes first.
+ */
+export const getCustomerGroupTotals = (
+  members: CustomerGroupMemberFigures[],
+  parentCurrency?: CurrencyEnum | null,
+): CustomerGroupTotals[] => {
+  const totalsByCurrency = members.reduce<Partial<Record<CurrencyEnum, CustomerGroupTotalsCents>>>(
+    (acc, member) => {
+      const { currency } = member
+      const totals = acc[currency] || {
+        currency,
+        customersCount: 0,
+        activeSubscriptionsCount: 0,
+        outstandingAmountCents: 0,
+        overdueAmountCents: 0,
+        overdueInvoicesCount: 0,
+        walletsBalanceCents: 0,
+        currentUsageAmountCents: 0,
+      }
+
+      return {
+        ...acc,
+        [currency]: {
+          currency,
+          customersCount: totals.customersCount + 1,
+          activeSubscriptionsCount:
+            totals.activeSubscriptionsCount + member.customer.activeSubscriptionsCount,
+          outstandingAmountCents:
+            totals.outstandingAmountCents + Number(member.outstandingAmountCents),
+          overdueAmountCents: totals.overdueAmountCents + Number(member.overdueAmountCents),
+          overdueInvoicesCount: totals.overdueInvoicesCount + member.overdueInvoicesCount,
+          walletsBalanceCents: totals.walletsBalanceCents + Number(member.walletsBalanceCents),
+          currentUsageAmountCents:
+            totals.currentUsageAmountCents + Number(member.currentUsageAmountCents),
+        },
+      }
+    },
+    {},
+  )
+
+  return Object.values(totalsByCurrency)
+    .map(
+      ({
+        currency,
+        outstandingAmountCents,
+        overdueAmountCents,
+        walletsBalanceCents,
+        currentUsageAmountCents,
+        ...counts
+      }) => ({
+        currency,
+        ...counts,
+        outstandingAmount: deserializeAmount(outstandingAmountCents, currency),
+        overdueAmount: deserializeAmount(overdueAmountCents, currency),
+        walletsBalance: deserializeAmount(walletsBalanceCents, currency),
+        currentUsageAmount: deserializeAmount(currentUsageAmountCents, currency),
+      }),
+    )
+    .sort((a, b) => Number(b.currency === parentCurrency) - Number(a.currency === parentCurrency))
+}
@@ -0,0 +1,56 @@
+import { Card, Icon, Typography } from '~/components/designSystem'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+// Only the first errors are displayed, the complete list is in the downloadable error file
+const DISPLAYED_ERRORS_LIMIT = 50
+
+export type ImportCustomersLineErrors = {
+  line: number
+  externalId: string
+  errors: string[]
+}
+
+interface ImportCustomersErrorsListProps {
+  lineErrors: ImportCustomersLineErrors[]
+}
+
+export const ImportCustomersErrorsList = ({ lineErrors }: ImportCustomersErrorsListProps) => {
+  const { translate } = useInternationalization()
+
+  if (!lineErrors.length) return null
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Card className="gap-0 p-0">
+        {lineErrors.slice(0, DISPLAYED_ERRORS_LIMIT).map(({ line, externalId, errors }) => (
+          <div
+            key={`import-customers-error-${line}`}
+            className="flex items-start gap-4 px-4 py-3 not-last:shadow-b"
+          >
+            <Icon name="warning-filled" color="warning" />
+            <div className="flex min-w-0 flex-1 flex-col">
+              <Typography variant="body" color="grey700" noWrap>
+                {translate('text_179242778284651sh09bm6pj', {
+                  line,
+                  externalId: externalId || '-',
+                })}
+              </Typography>
+              {errors.map((error) => (
+                <Typography key={`import-customers-error-${line}-${error}`} variant="caption">
+                  {error}
+                </Typography>
+              ))}
+            </div>
+          </div>
+        ))}
+      </Card>
+      {lineErrors.length > DISPLAYED_ERRORS_LIMIT && (
+        <Typography variant="caption" color="grey600">
+          {translate('text_1792427782849tgucbnmysxw', {
+            count: lineErrors.length - DISPLAYED_ERRORS_LIMIT,
+          })}
+        </Typography>
+      )}
+    </div>
+  )
+}
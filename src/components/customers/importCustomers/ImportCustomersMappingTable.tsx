@@ -0,0 +1,81 @@
+import { TRANSLATIONS_MAP_CUSTOMER_FIELD } from '~/components/customers/utils'
+import { Alert, Card, Typography } from '~/components/designSystem'
+import { ComboBox } from '~/components/form'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import {
+  getImportCustomersMappingErrors,
+  ImportCustomerFieldEnum,
+  ImportCustomersMapping,
+} from './utils'
+
+interface ImportCustomersMappingTableProps {
+  headers: string[]
+  sampleRow: string[]
+  mapping: ImportCustomersMapping
+  onChange: (mapping: ImportCustomersMapping) => void
+}
+
+export const ImportCustomersMappingTable = ({
+  headers,
+  sampleRow,
+  mapping,
+  onChange,
+}: ImportCustomersMappingTableProps) => {
+  const { translate } = useInternationalization()
+  const { isExternalIdMissing, duplicatedFields } = getImportCustomersMappingErrors(mapping)
+
+  const fieldsComboboxData = Object.values(ImportCustomerFieldEnum).map((field) => ({
+    value: field,
+    label: translate(TRANSLATIONS_MAP_CUSTOMER_FIELD[field]),
+  }))
+
+  return (
+    <div className="flex flex-col gap-4">
+      {isExternalIdMissing && (
+        <Alert type="danger">{translate('text_17924277828382wn4y4xpqv4')}</Alert>
+      )}
+      {!!duplicatedFields.length && (
+        <Alert type="danger">
+          {translate('text_1792427782840dc26tdjvymh', {
+            fields: duplicatedFields
+              .map((field) => translate(TRANSLATIONS_MAP_CUSTOMER_FIELD[field]))
+              .join(', '),
+          })}
+        </Alert>
+      )}
+
+      <Card className="gap-0 p-0">
+        {headers.map((header, index) => (
+          <div
+            key={`import-customers-column-${index}`}
+            className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+          >
+            <div className="flex min-w-0 flex-1 flex-col">
+              <Typography variant="bodyHl" color="grey700" noWrap>
+                {header || translate('text_1792427782842y6oj6wfgrxz', { index: index + 1 })}
+              </Typography>
+              <Typography variant="caption" color="grey600" noWrap>
+                {sampleRow[index] || '-'}
+              </Typography>
+            </div>
+            <ComboBox
+              className="w-60"
+              name={`import-customers-column-${index}`}
+              placeholder={translate('text_17924277828448su2vt1g32a')}
+              data={fieldsComboboxData}
+              value={mapping[index] || ''}
+              onChange={(value) =>
+                onChange(
+                  mapping.map((field, fieldIndex) =>
+                    fieldIndex === index ? (value as ImportCustomerFieldEnum) || undefined : field,
+                  ),
+                )
+              }
+            />
+          </div>
+        ))}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,254 @@
+import {
+  buildImportCustomerInput,
+  getDefaultImportCustomersMapping,
+  getImportCustomerRows,
+  getImportCustomersErrorsCsv,
+  getImportCustomersMappingErrors,
+  ImportCustomerErrorEnum,
+  ImportCustomerFieldEnum,
+  mergeImportCustomerMetadata,
+  validateImportCustomerInput,
+} from '~/components/customers/importCustomers/utils'
+import { CountryCode, CurrencyEnum, ProviderTypeEnum, TimezoneEnum } from '~/generated/graphql'
+
+describe('importCustomers utils', () => {
+  describe('getDefaultImportCustomersMapping', () => {
+    it('maps the columns from their header', () => {
+      expect(
+        getDefaultImportCustomersMapping(['External ID', 'Email address', 'Plan', 'tax_id']),
+      ).toEqual([
+        ImportCustomerFieldEnum.externalId,
+        ImportCustomerFieldEnum.email,
+        undefined,
+        ImportCustomerFieldEnum.taxIdentificationNumber,
+      ])
+    })
+
+    it('maps each field once', () => {
+      expect(getDefaultImportCustomersMapping(['name', 'customer_name'])).toEqual([
+        ImportCustomerFieldEnum.name,
+        undefined,
+      ])
+    })
+  })
+
+  describe('getImportCustomersMappingErrors', () => {
+    it('requires the external ID', () => {
+      expect(getImportCustomersMappingErrors([ImportCustomerFieldEnum.name])).toEqual({
+        isExternalIdMissing: true,
+        duplicatedFields: [],
+      })
+    })
+
+    it('returns the fields mapped to several columns, except metadata', () => {
+      expect(
+        getImportCustomersMappingErrors([
+          ImportCustomerFieldEnum.externalId,
+          ImportCustomerFieldEnum.email,
+          ImportCustomerFieldEnum.email,
+          ImportCustomerFieldEnum.metadata,
+          ImportCustomerFieldEnum.metadata,
+          undefined,
+        ]),
+      ).toEqual({ isExternalIdMissing: false, duplicatedFields: [ImportCustomerFieldEnum.email] })
+    })
+  })
+
+  describe('buildImportCustomerInput', () => {
+    it('builds the customer from the mapped cells', () => {
+      expect(
+        buildImportCustomerInput(
+          [
+            'cus_1',
+            'Acme',
+            'eur',
+            'fr',
+            'Europe/Paris',
+            'FR',
+            'Stripe',
+            'stripe_prod',
+            'cus_x',
+            'gold',
+            'ignored',
+            '',
+          ],
+          [
+            'id',
+            'name',
+            'currency',
+            'country',
+            'timezone',
+            'locale',
+            'provider',
+            'code',
+            'psp_id',
+            'tier',
+            'notes',
+            'empty',
+          ],
+          [
+            ImportCustomerFieldEnum.externalId,
+            ImportCustomerFieldEnum.name,
+            ImportCustomerFieldEnum.currency,
+            ImportCustomerFieldEnum.country,
+            ImportCustomerFieldEnum.timezone,
+            ImportCustomerFieldEnum.documentLocale,
+            ImportCustomerFieldEnum.paymentProvider,
+            ImportCustomerFieldEnum.paymentProviderCode,
+            ImportCustomerFieldEnum.providerCustomerId,
+            ImportCustomerFieldEnum.metadata,
+            undefined,
+            ImportCustomerFieldEnum.metadata,
+          ],
+        ),
+      ).toEqual({
+        externalId: 'cus_1',
+        name: 'Acme',
+        currency: CurrencyEnum.Eur,
+        country: CountryCode.Fr,
+        timezone: TimezoneEnum.TzEuropeParis,
+        billingConfiguration: { documentLocale: 'fr' },
+        paymentProvider: ProviderTypeEnum.Stripe,
+        paymentProviderCode: 'stripe_prod',
+        providerCustomer: { providerCustomerId: 'cus_x', syncWithProvider: false },
+        metadata: [{ key: 'tier', value: 'gold', displayInInvoice: false }],
+      })
+    })
+  })
+
+  describe('validateImportCustomerInput', () => {
+    it('accepts a valid customer', () => {
+      expect(
+        validateImportCustomerInput({ externalId: 'cus_1', email: 'billing@acme.com' }),
+      ).toEqual([])
+    })
+
+    it('applies the rules of the customer form', () => {
+      const errors = validateImportCustomerInput({
+        externalId: '',
+        email: 'not-an-email',
+        paymentProvider: ProviderTypeEnum.Stripe,
+      })
+
+      expect(errors).toHaveLength(3)
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          { field: ImportCustomerFieldEnum.externalId, error: ImportCustomerErrorEnum.required },
+          { field: ImportCustomerFieldEnum.email, error: ImportCustomerErrorEnum.invalidEmail },
+          {
+            field: ImportCustomerFieldEnum.paymentProvider,
+            error: ImportCustomerErrorEnum.invalidPaymentProvider,
+          },
+        ]),
+      )
+    })
+
+    it('requires a payment provider to import a provider customer ID', () => {
+      expect(
+        validateImportCustomerInput({
+          externalId: 'cus_1',
+          providerCustomer: { providerCustomerId: 'cus_x', syncWithProvider: false },
+        }),
+      ).toEqual([
+        {
+          field: ImportCustomerFieldEnum.providerCustomerId,
+          error: ImportCustomerErrorEnum.invalidPaymentProvider,
+        },
+      ])
+    })
+
+    it('rejects values the form does not offer', () => {
+      expect(
+        validateImportCustomerInput({
+          externalId: 'cus_1',
+          currency: 'EURO' as CurrencyEnum,
+          timezone: 'Mars/Olympus' as TimezoneEnum,
+          billingConfiguration: { documentLocale: 'xx' },
+        }),
+      ).toEqual([
+        { field: ImportCustomerFieldEnum.currency, error: ImportCustomerErrorEnum.invalidValue },
+        { field: ImportCustomerFieldEnum.timezone, error: ImportCustomerErrorEnum.invalidValue },
+        {
+          field: ImportCustomerFieldEnum.documentLocale,
+          error: ImportCustomerErrorEnum.invalidValue,
+        },
+      ])
+    })
+  })
+
+  describe('mergeImportCustomerMetadata', () => {
+    it('updates the imported keys and keeps the other metadata of the customer', () => {
+      expect(
+        mergeImportCustomerMetadata(
+          [
+            { id: 'm_1', key: 'tier', value: 'silver', displayInInvoice: true },
+            { id: 'm_2', key: 'region', value: 'eu', displayInInvoice: false },
+          ],
+          [
+            { key: 'tier', value: 'gold', displayInInvoice: false },
+            { key: 'seller', value: 'alice', displayInInvoice: false },
+          ],
+        ),
+      ).toEqual([
+        { id: 'm_1', key: 'tier', value: 'gold', displayInInvoice: true },
+        { id: 'm_2', key: 'region', value: 'eu', displayInInvoice: false },
+        { key: 'seller', value: 'alice', displayInInvoice: false },
+      ])
+    })
+
+    it('leaves the metadata untouched when the file has none', () => {
+      expect(
+        mergeImportCustomerMetadata(
+          [{ id: 'm_1', key: 'tier', value: 'silver', displayInInvoice: true }],
+          undefined,
+        ),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('getImportCustomerRows', () => {
+    it('validates every row and reports duplicated external IDs', () => {
+      const rows = getImportCustomerRows(
+        [
+          { lineNumber: 1, cells: ['id', 'email'] },
+          { lineNumber: 2, cells: ['cus_1', 'a@acme.com'] },
+          { lineNumber: 4, cells: ['cus_2', 'wrong'] },
+          { lineNumber: 5, cells: ['cus_1', ''] },
+        ],
+        [ImportCustomerFieldEnum.externalId, ImportCustomerFieldEnum.email],
+      )
+
+      expect(rows.map(({ line, errors }) => ({ line, errors }))).toEqual([
+        { line: 2, errors: [] },
+        {
+          line: 4,
+          errors: [
+            { field: ImportCustomerFieldEnum.email, error: ImportCustomerErrorEnum.invalidEmail },
+          ],
+        },
+        {
+          line: 5,
+          errors: [
+            {
+              field: ImportCustomerFieldEnum.externalId,
+              error: ImportCustomerErrorEnum.duplicatedExternalId,
+            },
+          ],
+        },
+      ])
+    })
+  })
+
+  describe('getImportCustomersErrorsCsv', () => {
+    it('lists the errors of each line', () => {
+      expect(
+        getImportCustomersErrorsCsv([
+          { line: 3, externalId: 'cus_2', errors: ['Invalid email', 'Invalid currency'] },
+          { line: 5, externalId: 'cus,4', errors: ['Already exists'] },
+        ]),
+      ).toBe(
+        'line,external_id,errors\n3,cus_2,Invalid email | Invalid currency\n5,"cus,4",Already exists',
+      )
+    })
+  })
+})
@@ -0,0 +1,326 @@
+import { ValidationError } from 'yup'
+
+import { TimeZonesConfig } from '~/core/timezone/config'
+import { DocumentLocales } from '~/core/translations/documentLocales'
+import { CsvRow, escapeCsvValue } from '~/core/utils/csv'
+import { customerSchema } from '~/formValidation/customerSchema'
+import {
+  CountryCode,
+  CreateCustomerInput,
+  CurrencyEnum,
+  CustomerMetadataInput,
+  ProviderTypeEnum,
+  TimezoneEnum,
+} from '~/generated/graphql'
+
+export enum ImportCustomerFieldEnum {
+  externalId = 'externalId',
+  name = 'name',
+  firstname = 'firstname',
+  lastname = 'lastname',
+  email = 'email',
+  phone = 'phone',
+  legalName = 'legalName',
+  legalNumber = 'legalNumber',
+  taxIdentificationNumber = 'taxIdentificationNumber',
+  addressLine1 = 'addressLine1',
+  addressLine2 = 'addressLine2',
+  zipcode = 'zipcode',
+  city = 'city',
+  state = 'state',
+  country = 'country',
+  currency = 'currency',
+  timezone = 'timezone',
+  documentLocale = 'documentLocale',
+  paymentProvider = 'paymentProvider',
+  paymentProviderCode = 'paymentProviderCode',
+  providerCustomerId = 'providerCustomerId',
+  metadata = 'metadata',
+}
+
+export enum ImportCustomerErrorEnum {
+  required = 'required',
+  invalidEmail = 'invalidEmail',
+  invalidValue = 'invalidValue',
+  invalidMetadata = 'invalidMetadata',
+  invalidPaymentProvider = 'invalidPaymentProvider',
+  duplicatedExternalId = 'duplicatedExternalId',
+}
+
+// Field mapped to each column of the file, undefined when the column is ignored
+export type ImportCustomersMapping = Array<ImportCustomerFieldEnum | undefined>
+
+export type ImportCustomerRowError = {
+  field: ImportCustomerFieldEnum
+  error: ImportCustomerErrorEnum
+}
+
+export type ImportCustomerRow = {
+  // 1-based line of the row in the file, the header being the first line
+  line: number
+  input: CreateCustomerInput
+  errors: ImportCustomerRowError[]
+}
+
+// Normalized headers recognized for each field, metadata columns are never mapped automatically
+const IMPORT_CUSTOMER_FIELD_HEADERS: Partial<Record<ImportCustomerFieldEnum, string[]>> = {
+  [ImportCustomerFieldEnum.externalId]: ['externalid', 'externalcustomerid', 'customerid', 'id'],
+  [ImportCustomerFieldEnum.name]: ['name', 'customername', 'companyname'],
+  [ImportCustomerFieldEnum.firstname]: ['firstname'],
+  [ImportCustomerFieldEnum.lastname]: ['lastname'],
+  [ImportCustomerFieldEnum.email]: ['email', 'emailaddress'],
+  [ImportCustomerFieldEnum.phone]: ['phone', 'phonenumber'],
+  [ImportCustomerFieldEnum.legalName]: ['legalname'],
+  [ImportCustomerFieldEnum.legalNumber]: ['legalnumber'],
+  [ImportCustomerFieldEnum.taxIdentificationNumber]: [
+    'taxidentificationnumber',
+    'taxid',
+    'vatnumber',
+  ],
+  [ImportCustomerFieldEnum.addressLine1]: ['addressline1', 'address', 'address1'],
+  [ImportCustomerFieldEnum.addressLine2]: ['addressline2', 'address2'],
+  [ImportCustomerFieldEnum.zipcode]: ['zipcode', 'zip', 'postalcode', 'postcode'],
+  [ImportCustomerFieldEnum.city]: ['city'],
+  [ImportCustomerFieldEnum.state]: ['state', 'region'],
+  [ImportCustomerFieldEnum.country]: ['country', 'countrycode'],
+  [ImportCustomerFieldEnum.currency]: ['currency'],
+  [ImportCustomerFieldEnum.timezone]: ['timezone'],
+  [ImportCustomerFieldEnum.documentLocale]: ['documentlocale', 'locale', 'language'],
+  [ImportCustomerFieldEnum.paymentProvider]: ['paymentprovider'],
+  [ImportCustomerFieldEnum.paymentProviderCode]: ['paymentprovidercode'],
+  [ImportCustomerFieldEnum.providerCustomerId]: ['providercustomerid', 'paymentprovidercustomerid'],
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+// Files hold IANA names (Europe/Paris) rather than the API values (TZ_EUROPE_PARIS)
+const parseTimezone = (value: string) =>
+  (Object.entries(TimeZonesConfig).find(([, { name }]) => name === value)?.[0] ||
+    value) as TimezoneEnum
+
+/**
+ * Maps the columns of the file to customer fields from their header. Each field is mapped once.
+ */
+export const getDefaultImportCustomersMapping = (headers: string[]): ImportCustomersMapping => {
+  const mappedFields = new Set<ImportCustomerFieldEnum>()
+
+  return headers.map((header) => {
+    const field = (
+      Object.entries(IMPORT_CUSTOMER_FIELD_HEADERS) as [ImportCustomerFieldEnum, string[]][]
+    ).find(
+      ([candidate, aliases]) =>
+        !mappedFields.has(candidate) && aliases.includes(normalizeHeader(header)),
+    )?.[0]
+
+    if (field) mappedFields.add(field)
+
+    return field
+  })
+}
+
+/**
+ * Returns the issues preventing the import with a mapping: the external ID must be mapped,
+ * and only metadata can be mapped to several columns.
+ */
+export const getImportCustomersMappingErrors = (mapping: ImportCustomersMapping) => {
+  const mappedFields = mapping.filter(
+    (field): field is ImportCustomerFieldEnum =>
+      !!field && field !== ImportCustomerFieldEnum.metadata,
+  )
+
+  return {
+    isExternalIdMissing: !mappedFields.includes(ImportCustomerFieldEnum.externalId),
+    duplicatedFields: Array.from(
+      new Set(mappedFields.filter((field, index) => mappedFields.indexOf(field) !== index)),
+    ),
+  }
+}
+
+export const buildImportCustomerInput = (
+  cells: string[],
+  headers: string[],
+  mapping: ImportCustomersMapping,
+): CreateCustomerInput => {
+  const input: CreateCustomerInput = { externalId: '' }
+
+  mapping.forEach((field, index) => {
+    const value = cells[index]?.trim()
+
+    if (!field || !value) return
+
+    switch (field) {
+      case ImportCustomerFieldEnum.metadata:
+        input.metadata = [
+          ...(input.metadata || []),
+          { key: headers[index], value, displayInInvoice: false },
+        ]
+        break
+      case ImportCustomerFieldEnum.currency:
+        input.currency = value.toUpperCase() as CurrencyEnum
+        break
+      case ImportCustomerFieldEnum.country:
+        input.country = value.toUpperCase() as CountryCode
+        break
+      case ImportCustomerFieldEnum.timezone:
+        input.timezone = parseTimezone(value)
+        break
+      case ImportCustomerFieldEnum.documentLocale:
+        input.billingConfiguration = { documentLocale: value.toLowerCase() }
+        break
+      case ImportCustomerFieldEnum.paymentProvider:
+        input.paymentProvider = value.toLowerCase() as ProviderTypeEnum
+        break
+      case ImportCustomerFieldEnum.providerCustomerId:
+        input.providerCustomer = { providerCustomerId: value, syncWithProvider: false }
+        break
+      default:
+        input[field] = value
+    }
+  })
+
+  return input
+}
+
+const getInvalidEnumFields = (input: CreateCustomerInput) =>
+  [
+    [ImportCustomerFieldEnum.currency, input.currency, Object.values(CurrencyEnum)],
+    [ImportCustomerFieldEnum.country, input.country, Object.values(CountryCode)],
+    [ImportCustomerFieldEnum.timezone, input.timezone, Object.values(TimezoneEnum)],
+    [
+      ImportCustomerFieldEnum.documentLocale,
+      input.billingConfiguration?.documentLocale,
+      Object.keys(DocumentLocales),
+    ],
+    [
+      ImportCustomerFieldEnum.paymentProvider,
+      input.paymentProvider,
+      Object.values(ProviderTypeEnum),
+    ],
+  ]
+    .filter(([, value, values]) => !!value && !(values as string[]).includes(value as string))
+    .map(([field]) => field as ImportCustomerFieldEnum)
+
+const getSchemaErrorFromPath = (path?: string): ImportCustomerRowError | undefined => {
+  switch (path?.split(/[.[]/)[0]) {
+    case 'externalId':
+      return {
+        field: ImportCustomerFieldEnum.externalId,
+        error: ImportCustomerErrorEnum.required,
+      }
+    case 'email':
+      return { field: ImportCustomerFieldEnum.email, error: ImportCustomerErrorEnum.invalidEmail }
+    case 'metadata':
+      return {
+        field: ImportCustomerFieldEnum.metadata,
+        error: ImportCustomerErrorEnum.invalidMetadata,
+      }
+    case 'providerCustomer':
+      return {
+        field: ImportCustomerFieldEnum.paymentProvider,
+        error: ImportCustomerErrorEnum.invalidPaymentProvider,
+      }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Validates a customer with the rules of the customer form, and checks the values of the fields
+ * the form restricts with selects.
+ */
+export const validateImportCustomerInput = (
+  input: CreateCustomerInput,
+): ImportCustomerRowError[] => {
+  const errors: ImportCustomerRowError[] = getInvalidEnumFields(input).map((field) => ({
+    field,
+    error: ImportCustomerErrorEnum.invalidValue,
+  }))
+
+  // A provider customer is only sent along with its payment provider
+  if (!!input.providerCustomer?.providerCustomerId && !input.paymentProvider) {
+    errors.push({
+      field: ImportCustomerFieldEnum.providerCustomerId,
+      error: ImportCustomerErrorEnum.invalidPaymentProvider,
+    })
+  }
+
+  try {
+    // The form always holds a provider customer, even without payment provider
+    customerSchema.validateSync(
+      { ...input, providerCustomer: input.providerCustomer || {} },
+      { abortEarly: false },
+    )
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error
+
+    const schemaErrors = (error.inner.length ? error.inner : [error])
+      .map(({ path }) => getSchemaErrorFromPath(path))
+      .filter((schemaError): schemaError is ImportCustomerRowError => !!schemaError)
+
+    schemaErrors.forEach((schemaError) => {
+      if (!errors.some(({ field }) => field === schemaError.field)) errors.push(schemaError)
+    })
+  }
+
+  return errors
+}
+
+/**
+ * Builds and validates the customers of every row of the file, the first row being the header.
+ * An external ID already used by a previous row of the file is reported as duplicated.
+ */
+export const getImportCustomerRows = (
+  rows: CsvRow[],
+  mapping: ImportCustomersMapping,
+): ImportCustomerRow[] => {
+  const [{ cells: headers = [] } = {}, ...lines] = rows
+  const externalIds = new Set<string>()
+
+  return lines.map(({ lineNumber, cells }) => {
+    const input = buildImportCustomerInput(cells, headers, mapping)
+    const errors = validateImportCustomerInput(input)
+
+    if (input.externalId && externalIds.has(input.externalId)) {
+      errors.push({
+        field: ImportCustomerFieldEnum.externalId,
+        error: ImportCustomerErrorEnum.duplicatedExternalId,
+      })
+    }
+
+    externalIds.add(input.externalId)
+
+    return { line: lineNumber, input, errors }
+  })
+}
+
+/**
+ * Merges the metadata of the file with the ones of an existing customer, as an update replaces them all.
+ * Values of the keys present in the file are updated, the other metadata are kept.
+ */
+export const mergeImportCustomerMetadata = (
+  existingMetadata: CustomerMetadataInput[],
+  importedMetadata: CustomerMetadataInput[] | null | undefined,
+): CustomerMetadataInput[] | undefined => {
+  if (!importedMetadata?.length) return undefined
+
+  const mergedMetadata = existingMetadata.map((metadata) => {
+    const importedValue = importedMetadata.find(({ key }) => key === metadata.key)?.value
+
+    return importedValue === undefined ? metadata : { ...metadata, value: importedValue }
+  })
+
+  return [
+    ...mergedMetadata,
+    ...importedMetadata.filter(({ key }) => !existingMetadata.some((item) => item.key === key)),
+  ]
+}
+
+export const getImportCustomersErrorsCsv = (
+  rows: Array<{ line: number; externalId: string; errors: string[] }>,
+) =>
+  [
+    'line,external_id,errors',
+    ...rows.map(({ line, externalId, errors }) =>
+      [String(line), externalId, errors.join(' | ')].map(escapeCsvValue).join(','),
+    ),
+  ].join('\n')
@@ -0,0 +1,169 @@
+import { gql } from '@apollo/client'
+import { useRef, useState } from 'react'
+
+import { Button, DialogRef, Popper, Tooltip, Typography } from '~/components/designSystem'
+import { useFilters } from '~/components/designSystem/Filters/useFilters'
+import { WarningDialog } from '~/components/WarningDialog'
+import { addToast } from '~/core/apolloClient'
+import {
+  CustomerSegmentItemFragment,
+  useDestroyCustomerSegmentMutation,
+  useGetCustomerSegmentsQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePermissions } from '~/hooks/usePermissions'
+import { MenuPopper } from '~/styles'
+
+import {
+  SaveCustomerSegmentDialog,
+  SaveCustomerSegmentDialogRef,
+} from './SaveCustomerSegmentDialog'
+import {
+  getCustomerSegmentFilters,
+  getCustomerSegmentFiltersFormValues,
+  isCustomerSegmentApplied,
+} from './utils'
+
+gql`
+  fragment CustomerSegmentItem on CustomerSegment {
+    id
+    name
+    filters
+  }
+
+  query getCustomerSegments($limit: Int) {
+    customerSegments(limit: $limit) {
+      collection {
+        id
+        ...CustomerSegmentItem
+      }
+    }
+  }
+
+  mutation destroyCustomerSegment($input: DestroyCustomerSegmentInput!) {
+    destroyCustomerSegment(input: $input) {
+      id
+    }
+  }
+`
+
+const RESULT_LIMIT = 100
+
+export const CustomerSegmentsPopper = () => {
+  const { translate } = useInternationalization()
+  const { hasPermissions } = usePermissions()
+  const { availableFilters, initialFiltersFormValues, hasAppliedFilters, applyFilters } =
+    useFilters()
+  const saveDialogRef = useRef<SaveCustomerSegmentDialogRef>(null)
+  const deleteDialogRef = useRef<DialogRef>(null)
+  const [segmentToDelete, setSegmentToDelete] = useState<CustomerSegmentItemFragment>()
+
+  const { data } = useGetCustomerSegmentsQuery({
+    variables: { limit: RESULT_LIMIT },
+  })
+  const customerSegments = data?.customerSegments.collection || []
+  const appliedSegment = customerSegments.find((segment) =>
+    isCustomerSegmentApplied(segment.filters, initialFiltersFormValues),
+  )
+
+  const [destroyCustomerSegment] = useDestroyCustomerSegmentMutation({
+    refetchQueries: ['getCustomerSegments'],
+    onCompleted({ destroyCustomerSegment: destroyedCustomerSegment }) {
+      if (!destroyedCustomerSegment) return
+
+      addToast({
+        message: translate('text_1792428744467btb9hl8dm0v'),
+        severity: 'success',
+      })
+    },
+  })
+
+  return (
+    <>
+      <Popper
+        PopperProps={{ placement: 'bottom-end' }}
+        opener={
+          <Button variant="quaternary" size="small" endIcon="chevron-down">
+            {appliedSegment?.name || translate('text_1792428744469l303s9tuvl2')}
+          </Button>
+        }
+      >
+        {({ closePopper }) => (
+          <MenuPopper className="min-w-60">
+            {!customerSegments.length && (
+              <Typography className="px-3 py-2" variant="caption" color="grey600">
+                {translate('text_1792428744471z3ylrwh1kky')}
+              </Typography>
+            )}
+
+            {customerSegments.map((segment) => (
+              <div key={`customer-segment-${segment.id}`} className="flex items-center gap-1">
+                <Button
+                  fullWidth
+                  variant="quaternary"
+                  align="left"
+                  endIcon={segment.id === appliedSegment?.id ? 'checkmark' : undefined}
+                  onClick={() => {
+                    applyFilters(
+                      getCustomerSegmentFiltersFormValues(segment.filters, availableFilters),
+                    )
+                    closePopper()
+                  }}
+                >
+                  {segment.name}
+                </Button>
+                {hasPermissions(['customersUpdate']) && (
+                  <Tooltip placement="top-end" title={translate('text_17924287444737eogne7olud')}>
+                    <Button
+                      icon="trash"
+                      variant="quaternary"
+                      size="small"
+                      onClick={() => {
+                        setSegmentToDelete(segment)
+                        deleteDialogRef.current?.openDialog()
+                        closePopper()
+                      }}
+                    />
+                  </Tooltip>
+                )}
+              </div>
+            ))}
+
+            {hasPermissions(['customersUpdate']) && (
+              <Button
+                variant="quaternary"
+                align="left"
+                startIcon="plus"
+                disabled={!hasAppliedFilters || !!appliedSegment}
+                onClick={() => {
+                  saveDialogRef.current?.openDialog(
+                    getCustomerSegmentFilters(initialFiltersFormValues),
+                  )
+                  closePopper()
+                }}
+              >
+                {translate('text_1792428744475f7fadlnidf2')}
+              </Button>
+            )}
+          </MenuPopper>
+        )}
+      </Popper>
+
+      <SaveCustomerSegmentDialog ref={saveDialogRef} />
+
+      <WarningDialog
+        ref={deleteDialogRef}
+        title={translate('text_1792428744478oit1uyo4snw', { name: segmentToDelete?.name })}
+        description={translate('text_1792428744480snhpbbu89zn')}
+        onContinue={async () => {
+          if (!segmentToDelete) return
+
+          await destroyCustomerSegment({
+            variables: { input: { id: segmentToDelete.id } },
+          })
+        }}
+        continueText={translate('text_1792428744482nu5rw80zw35')}
+      />
+    </>
+  )
+}
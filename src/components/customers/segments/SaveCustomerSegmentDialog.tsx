@@ -0,0 +1,109 @@
+import { gql } from '@apollo/client'
+import { useFormik } from 'formik'
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import { object, string } from 'yup'
+
+import { Button, Dialog, DialogRef } from '~/components/designSystem'
+import { TextInputField } from '~/components/form'
+import { addToast } from '~/core/apolloClient'
+import { useCreateCustomerSegmentMutation } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { CustomerSegmentFilters } from './utils'
+
+gql`
+  mutation createCustomerSegment($input: CreateCustomerSegmentInput!) {
+    createCustomerSegment(input: $input) {
+      id
+      name
+    }
+  }
+`
+
+export interface SaveCustomerSegmentDialogRef {
+  openDialog: (filters: CustomerSegmentFilters) => unknown
+  closeDialog: () => unknown
+}
+
+export const SaveCustomerSegmentDialog = forwardRef<SaveCustomerSegmentDialogRef>((_, ref) => {
+  const { translate } = useInternationalization()
+  const dialogRef = useRef<DialogRef>(null)
+  const [filters, setFilters] = useState<CustomerSegmentFilters>()
+
+  const [createCustomerSegment] = useCreateCustomerSegmentMutation({
+    refetchQueries: ['getCustomerSegments'],
+    onCompleted({ createCustomerSegment: createdCustomerSegment }) {
+      if (!createdCustomerSegment) return
+
+      addToast({
+        message: translate('text_1792428744454myi16wa8ncl', { name: createdCustomerSegment.name }),
+        severity: 'success',
+      })
+    },
+  })
+
+  const formikProps = useFormik<{ name: string }>({
+    initialValues: {
+      name: '',
+    },
+    validationSchema: object().shape({
+      name: string().required(''),
+    }),
+    validateOnMount: true,
+    onSubmit: async ({ name }, formikBag) => {
+      if (!filters) return
+
+      const { errors } = await createCustomerSegment({
+        variables: { input: { name, filters } },
+      })
+
+      if (errors?.length) return
+
+      dialogRef.current?.closeDialog()
+      formikBag.resetForm()
+    },
+  })
+
+  useImperativeHandle(ref, () => ({
+    openDialog: (segmentFilters) => {
+      setFilters(segmentFilters)
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_1792428744456d9sscnvifkg')}
+      description={translate('text_1792428744458fzphiu056u1')}
+      onClose={() => formikProps.resetForm()}
+      actions={({ closeDialog }) => (
+        <>
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_6271200984178801ba8bdf4a')}
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!formikProps.isValid}
+            onClick={formikProps.submitForm}
+          >
+            {translate('text_1792428744460nz9qtvh91g9')}
+          </Button>
+        </>
+      )}
+    >
+      <TextInputField
+        // eslint-disable-next-line jsx-a11y/no-autofocus
+        autoFocus
+        className="mb-8"
+        name="name"
+        label={translate('text_1792428744463sm4otu7keel')}
+        placeholder={translate('text_1792428744465n7y104qm1qz')}
+        formikProps={formikProps}
+      />
+    </Dialog>
+  )
+})
+
+SaveCustomerSegmentDialog.displayName = 'SaveCustomerSegmentDialog'
@@ -0,0 +1,65 @@
+import {
+  getCustomerSegmentFilters,
+  getCustomerSegmentFiltersFormValues,
+  isCustomerSegmentApplied,
+} from '~/components/customers/segments/utils'
+import { AvailableFiltersEnum } from '~/components/designSystem/Filters/types'
+
+describe('customer segments utils', () => {
+  describe('getCustomerSegmentFilters', () => {
+    it('keeps the filters having a value', () => {
+      expect(
+        getCustomerSegmentFilters([
+          { filterType: AvailableFiltersEnum.country, value: 'FR' },
+          { filterType: AvailableFiltersEnum.subscriptionStatus, value: 'active,pending' },
+          { filterType: AvailableFiltersEnum.currency },
+          { value: 'EUR' },
+        ]),
+      ).toEqual({
+        [AvailableFiltersEnum.country]: 'FR',
+        [AvailableFiltersEnum.subscriptionStatus]: 'active,pending',
+      })
+    })
+  })
+
+  describe('getCustomerSegmentFiltersFormValues', () => {
+    it('leaves out the filters that are not available', () => {
+      expect(
+        getCustomerSegmentFiltersFormValues(
+          {
+            [AvailableFiltersEnum.country]: 'FR',
+            [AvailableFiltersEnum.invoiceType]: 'one_off',
+          },
+          [AvailableFiltersEnum.country, AvailableFiltersEnum.currency],
+        ),
+      ).toEqual({ filters: [{ filterType: AvailableFiltersEnum.country, value: 'FR' }] })
+    })
+
+    it('handles a segment without filters', () => {
+      expect(getCustomerSegmentFiltersFormValues(null, [AvailableFiltersEnum.country])).toEqual({
+        filters: [],
+      })
+    })
+  })
+
+  describe('isCustomerSegmentApplied', () => {
+    it('compares the segment filters with the applied ones', () => {
+      const segmentFilters = {
+        [AvailableFiltersEnum.country]: 'FR',
+        [AvailableFiltersEnum.paymentOverdue]: 'true',
+      }
+
+      expect(
+        isCustomerSegmentApplied(segmentFilters, [
+          { filterType: AvailableFiltersEnum.paymentOverdue, value: 'true' },
+          { filterType: AvailableFiltersEnum.country, value: 'FR' },
+        ]),
+      ).toBe(true)
+      expect(
+        isCustomerSegmentApplied(segmentFilters, [
+          { filterType: AvailableFiltersEnum.country, value: 'FR' },
+        ]),
+      ).toBe(false)
+    })
+  })
+})
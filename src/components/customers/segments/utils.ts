@@ -0,0 +1,36 @@
+import _isEqual from 'lodash/isEqual'
+
+import { AvailableFiltersEnum, FiltersFormValues } from '~/components/designSystem/Filters/types'
+
+// Filters saved in a segment, by filter name, with the values they have in the URL
+export type CustomerSegmentFilters = Partial<Record<AvailableFiltersEnum, string>>
+
+export const getCustomerSegmentFilters = (
+  filters: FiltersFormValues['filters'],
+): CustomerSegmentFilters =>
+  filters.reduce<CustomerSegmentFilters>((acc, { filterType, value }) => {
+    if (!filterType || !value) return acc
+
+    return { ...acc, [filterType]: value }
+  }, {})
+
+/**
+ * Returns the filters form values applying a segment.
+ * Filters that are no longer available on the customers list are left out.
+ */
+export const getCustomerSegmentFiltersFormValues = (
+  segmentFilters: CustomerSegmentFilters | null | undefined,
+  availableFilters: AvailableFiltersEnum[],
+): FiltersFormValues => ({
+  filters: Object.entries(segmentFilters || {})
+    .filter(
+      ([filterType, value]) =>
+        availableFilters.includes(filterType as AvailableFiltersEnum) && typeof value === 'string',
+    )
+    .map(([filterType, value]) => ({ filterType: filterType as AvailableFiltersEnum, value })),
+})
+
+export const isCustomerSegmentApplied = (
+  segmentFilters: CustomerSegmentFilters | null | undefined,
+  appliedFilters: FiltersFormValues['filters'],
+) => _isEqual(segmentFilters || {}, getCustomerSegmentFilters(appliedFilters))
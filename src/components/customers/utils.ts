@@ -1,3 +1,8 @@
+import { ApolloError } from '@apollo/client'
+import { GraphQLFormattedError } from 'graphql'
+
+import { hasDefinedGQLError } from '~/core/apolloClient'
+import { parseCsv } from '~/core/utils/csv'
 import { Customer, CustomerTypeEnum } from '~/generated/graphql'
 
 export const getInitials = (str: string) =>
@@ -23,3 +28,98 @@ export const TRANSLATIONS_MAP_CUSTOMER_TYPE: Record<CustomerTypeEnum, string> =
   [CustomerTypeEnum.Individual]: 'text_1726129457108txzr4gdkvcz',
   [CustomerTypeEnum.Company]: 'text_1726129457108raohiy4kkt3',
 }
+
+export type CustomerField =
+  | 'externalId'
+  | 'name'
+  | 'firstname'
+  | 'lastname'
+  | 'email'
+  | 'phone'
+  | 'legalName'
+  | 'legalNumber'
+  | 'taxIdentificationNumber'
+  | 'addressLine1'
+  | 'addressLine2'
+  | 'zipcode'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'currency'
+  | 'timezone'
+  | 'documentLocale'
+  | 'paymentProvider'
+  | 'paymentProviderCode'
+  | 'providerCustomerId'
+  | 'metadata'
+
+export const TRANSLATIONS_MAP_CUSTOMER_FIELD: Record<CustomerField, string> = {
+  externalId: 'text_1792427782791flmq7psocmd',
+  name: 'text_17924277827931kedozyg1ul',
+  firstname: 'text_1792427782796qjuz5il93mr',
+  lastname: 'text_1792427782798rmxgb3s6tux',
+  email: 'text_179242778280097qua70towb',
+  phone: 'text_1792427782802f6fmfdzooe2',
+  legalName: 'text_17924277828049x62pk3bxn5',
+  legalNumber: 'text_1792427782806qj9xrnnk11p',
+  taxIdentificationNumber: 'text_1792427782808j8jy592ewty',
+  addressLine1: 'text_1792427782810xv7haddjfe9',
+  addressLine2: 'text_179242778281212802yu6nuv',
+  zipcode: 'text_1792427782814pvwxjsfbkkf',
+  city: 'text_1792427782817h34tgpmuaeq',
+  state: 'text_1792427782819xntucijdc16',
+  country: 'text_1792427782821q22926ne6mg',
+  currency: 'text_1792427782823jw59fxjklxs',
+  timezone: 'text_1792427782825ycx3lhk85mz',
+  documentLocale: 'text_179242778282756ioe478ytp',
+  paymentProvider: 'text_1792427782829gigfiwg7wo3',
+  paymentProviderCode: 'text_1792427782831pribleul010',
+  providerCustomerId: 'text_1792427782834lfw7fn9538i',
+  metadata: 'text_1792427782836i55tg34vlbk',
+}
+
+const EXTERNAL_ID_HEADERS = ['external_id', 'external_customer_id', 'externalid', 'customer_id']
+
+/**
+ * Reads customer external IDs from an uploaded CSV, either from an external ID column
+ * when the file has a header, or from its first column.
+ */
+export const parseCustomerExternalIds = (content: string): string[] => {
+  const rows = parseCsv(content)
+
+  if (!rows.length) return []
+
+  const headerIndex = rows[0].findIndex((value) =>
+    EXTERNAL_ID_HEADERS.includes(value.toLowerCase()),
+  )
+  const columnIndex = Math.max(headerIndex, 0)
+  const values = (headerIndex >= 0 ? rows.slice(1) : rows)
+    .map((row) => row[columnIndex])
+    .filter(Boolean)
+
+  return Array.from(new Set(values))
+}
+
+export enum BulkCouponActionEnum {
+  apply = 'apply',
+  remove = 'remove',
+}
+
+export enum BulkCouponResultStatusEnum {
+  succeeded = 'succeeded',
+  skipped = 'skipped',
+  failed = 'failed',
+}
+
+/**
+ * Returns the reason of a failed bulk coupon operation on a customer.
+ */
+export const getBulkCouponErrorTranslationKey = (
+  errors?: ApolloError | readonly GraphQLFormattedError[],
+) => {
+  if (hasDefinedGQLError('CouponIsNotReusable', errors)) return 'text_1792425798752l66xcoiw8rm'
+  if (hasDefinedGQLError('CurrenciesDoesNotMatch', errors)) return 'text_1792425798754o3skhrdi0cc'
+  if (hasDefinedGQLError('PlanOverlapping', errors)) return 'text_1792425798757s1qmlxgq4em'
+
+  return 'text_1792425798759f9ty96h0exo'
+}
@@ -6,10 +6,15 @@ import { FiltersItemCreditNoteReason } from '~/components/designSystem/Filters/f
 import { FiltersItemCreditNoteRefundStatus } from '~/components/designSystem/Filters/filtersElements/FiltersItemCreditNoteRefundStatus'
 import { FiltersItemCustomerType } from '~/components/designSystem/Filters/filtersElements/FiltersItemCustomerType'
 import { FiltersItemDate } from '~/components/designSystem/Filters/filtersElements/FiltersItemDate'
+import { FiltersItemHasTaxIdentificationNumber } from '~/components/designSystem/Filters/filtersElements/FiltersItemHasTaxIdentificationNumber'
 import { FiltersItemInvoiceNumber } from '~/components/designSystem/Filters/filtersElements/FiltersItemInvoiceNumber'
+import { FiltersItemMetadata } from '~/components/designSystem/Filters/filtersElements/FiltersItemMetadata'
+import { FiltersItemPaymentProvider } from '~/components/designSystem/Filters/filtersElements/FiltersItemPaymentProvider'
 import { FiltersItemPlanCode } from '~/components/designSystem/Filters/filtersElements/FiltersItemPlanCode'
 import { FiltersItemSelfBilled } from '~/components/designSystem/Filters/filtersElements/FiltersItemSelfBilled'
 import { FiltersItemSubscription } from '~/components/designSystem/Filters/filtersElements/FiltersItemSubscription'
+import { FiltersItemSubscriptionStatus } from '~/components/designSystem/Filters/filtersElements/FiltersItemSubscriptionStatus'
+import { FiltersItemWalletBalanceBelow } from '~/components/designSystem/Filters/filtersElements/FiltersItemWalletBalanceBelow'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
 
 import { FiltersItemCurrency } from './filtersElements/FiltersItemCurrency'
@@ -47,6 +52,9 @@ export const FiltersPanelItemTypeSwitch = ({
     [AvailableFiltersEnum.country]: (
       <FiltersItemCountry value={value} setFilterValue={setFilterValue} />
     ),
+    [AvailableFiltersEnum.createdAt]: (
+      <FiltersItemDate value={value} setFilterValue={setFilterValue} />
+    ),
     [AvailableFiltersEnum.creditNoteCreditStatus]: (
       <FiltersItemCreditNoteCreditStatus value={value} setFilterValue={setFilterValue} />
     ),
@@ -67,6 +75,9 @@ export const FiltersPanelItemTypeSwitch = ({
       <FiltersItemCustomer value={value} setFilterValue={setFilterValue} />
     ),
     [AvailableFiltersEnum.date]: <FiltersItemDate value={value} setFilterValue={setFilterValue} />,
+    [AvailableFiltersEnum.hasTaxIdentificationNumber]: (
+      <FiltersItemHasTaxIdentificationNumber value={value} setFilterValue={setFilterValue} />
+    ),
     [AvailableFiltersEnum.invoiceNumber]: (
       <FiltersItemInvoiceNumber value={value} setFilterValue={setFilterValue} />
     ),
@@ -76,6 +87,9 @@ export const FiltersPanelItemTypeSwitch = ({
     [AvailableFiltersEnum.issuingDate]: (
       <FiltersItemIssuingDate value={value} setFilterValue={setFilterValue} />
     ),
+    [AvailableFiltersEnum.metadata]: (
+      <FiltersItemMetadata value={value} setFilterValue={setFilterValue} />
+    ),
     [AvailableFiltersEnum.partiallyPaid]: (
       <FiltersItemPartiallyPaid value={value} setFilterValue={setFilterValue} />
     ),
@@ -85,6 +99,9 @@ export const FiltersPanelItemTypeSwitch = ({
     [AvailableFiltersEnum.paymentOverdue]: (
       <FiltersItemPaymentOverdue value={value} setFilterValue={setFilterValue} />
     ),
+    [AvailableFiltersEnum.paymentProvider]: (
+      <FiltersItemPaymentProvider value={value} setFilterValue={setFilterValue} />
+    ),
     [AvailableFiltersEnum.paymentStatus]: (
       <FiltersItemPaymentStatus value={value} setFilterValue={setFilterValue} />
     ),
@@ -100,12 +117,19 @@ export const FiltersPanelItemTypeSwitch = ({
     [AvailableFiltersEnum.subscriptionExternalId]: (
       <FiltersItemSubscription value={value} setFilterValue={setFilterValue} />
     ),
+    [AvailableFiltersEnum.subscriptionStatus]: (
+      <FiltersItemSubscriptionStatus value={value} setFilterValue={setFilterValue} />
+    ),
+    [AvailableFiltersEnum.walletBalanceBelow]: (
+      <FiltersItemWalletBalanceBelow value={value} setFilterValue={setFilterValue} />
+    ),
   }
 
   return (
     <>
       {filterType === AvailableFiltersEnum.issuingDate ||
-      filterType === AvailableFiltersEnum.date ? (
+      filterType === AvailableFiltersEnum.date ||
+      filterType === AvailableFiltersEnum.createdAt ? (
         <Typography variant="body" color="grey700">
           {translate('text_66ab42d4ece7e6b7078993e2')}
         </Typography>
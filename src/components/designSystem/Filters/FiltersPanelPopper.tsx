@@ -9,7 +9,12 @@ import { ComboBox } from '~/components/form'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
 
 import { FiltersPanelItemTypeSwitch } from './FiltersPanelItemTypeSwitch'
-import { AvailableFiltersEnum, FiltersFormValues, mapFilterToTranslationKey } from './types'
+import {
+  AvailableFiltersEnum,
+  filterDataInlineSeparator,
+  FiltersFormValues,
+  mapFilterToTranslationKey,
+} from './types'
 import { useFilters } from './useFilters'
 
 export const FiltersPanelPopper = () => {
@@ -46,12 +51,25 @@ export const FiltersPanelPopper = () => {
         return array().of(
           object().shape({
             filterType: string().required(''),
-            value: string().when('filterType', {
-              is: (filterType: AvailableFiltersEnum) =>
-                !!filterType && filterType === AvailableFiltersEnum.issuingDate,
-              then: (schema) => schema.matches(/\w+,\w+/, '').required(''),
-              otherwise: (schema) => schema.required(''),
-            }),
+            value: string()
+              .when('filterType', {
+                is: (filterType: AvailableFiltersEnum) =>
+                  !!filterType &&
+                  [AvailableFiltersEnum.issuingDate, AvailableFiltersEnum.createdAt].includes(
+                    filterType,
+                  ),
+                then: (schema) => schema.matches(/\w+,\w+/, '').required(''),
+                otherwise: (schema) => schema.required(''),
+              })
+              // A metadata value can't be filtered on without its key
+              .when('filterType', {
+                is: AvailableFiltersEnum.metadata,
+                then: (schema) =>
+                  schema.test({
+                    message: '',
+                    test: (filterValue) => !!filterValue?.split(filterDataInlineSeparator)[0],
+                  }),
+              }),
           }),
         )
       }),
@@ -1,6 +1,9 @@
+import { CUSTOMER_LIST_FILTER_PREFIX } from '~/core/constants/filters'
+
 import { AvailableFiltersEnum, filterDataInlineSeparator } from '../types'
 import {
   formatActiveFilterValueDisplay,
+  formatFiltersForCustomerQuery,
   formatFiltersForInvoiceQuery,
   formatFiltersForRevenueStreamsQuery,
   getFilterValue,
@@ -47,6 +50,50 @@ describe('Filters utils', () => {
     })
   })
 
+  describe('formatFiltersForCustomerQuery', () => {
+    it('should format filters for customer query', () => {
+      const searchParams = new URLSearchParams()
+
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_country`, 'FR')
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_subscriptionStatus`, 'active,pending')
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_paymentProvider`, 'stripe')
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_paymentOverdue`, 'true')
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_walletBalanceBelow`, '10.5')
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_hasTaxIdentificationNumber`, 'false')
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_createdAt`, '2022-01-01,2022-01-31')
+      searchParams.set(
+        `${CUSTOMER_LIST_FILTER_PREFIX}_metadata`,
+        `segment${filterDataInlineSeparator}enterprise`,
+      )
+      searchParams.set(`${CUSTOMER_LIST_FILTER_PREFIX}_invoiceType`, 'one_off')
+
+      expect(formatFiltersForCustomerQuery(searchParams)).toEqual({
+        country: 'FR',
+        subscriptionStatus: ['active', 'pending'],
+        paymentProvider: 'stripe',
+        hasOverdueInvoices: true,
+        walletBalanceBelow: 10.5,
+        hasTaxIdentificationNumber: false,
+        createdAtFrom: '2022-01-01',
+        createdAtTo: '2022-01-31',
+        metadata: [{ key: 'segment', value: 'enterprise' }],
+      })
+    })
+
+    it('should filter on the metadata key only when no value is set', () => {
+      const searchParams = new URLSearchParams()
+
+      searchParams.set(
+        `${CUSTOMER_LIST_FILTER_PREFIX}_metadata`,
+        `segment${filterDataInlineSeparator}`,
+      )
+
+      expect(formatFiltersForCustomerQuery(searchParams)).toEqual({
+        metadata: [{ key: 'segment', value: undefined }],
+      })
+    })
+  })
+
   describe('formatFiltersForRevenueStreamsQuery', () => {
     it('should format filters for revenue streams query', () => {
       const searchParams = new URLSearchParams()
@@ -117,6 +164,28 @@ describe('Filters utils', () => {
 
       expect(result).toBe('1/1/2022 - 1/31/2022')
     })
+    it('should format active filter createdAt value display', () => {
+      const result = formatActiveFilterValueDisplay(
+        AvailableFiltersEnum.createdAt,
+        '2022-01-01,2022-01-31',
+      )
+
+      expect(result).toBe('1/1/2022 - 1/31/2022')
+    })
+    it('should format active filter metadata value display', () => {
+      expect(
+        formatActiveFilterValueDisplay(
+          AvailableFiltersEnum.metadata,
+          `segment${filterDataInlineSeparator}enterprise`,
+        ),
+      ).toBe('segment: enterprise')
+      expect(
+        formatActiveFilterValueDisplay(
+          AvailableFiltersEnum.metadata,
+          `segment${filterDataInlineSeparator}`,
+        ),
+      ).toBe('segment')
+    })
     it('should format active filter paymentStatus value display', () => {
       const result = formatActiveFilterValueDisplay(
         AvailableFiltersEnum.paymentStatus,
@@ -0,0 +1,36 @@
+import { TextInput } from '~/components/form'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { filterDataInlineSeparator, FiltersFormValues } from '../types'
+
+type FiltersItemMetadataProps = {
+  value: FiltersFormValues['filters'][0]['value']
+  setFilterValue: (value: string) => void
+}
+
+export const FiltersItemMetadata = ({ value = '', setFilterValue }: FiltersItemMetadataProps) => {
+  const { translate } = useInternationalization()
+  // The value is optional: without it, the customers having the key are matched
+  const [metadataKey = '', metadataValue = ''] = value.split(filterDataInlineSeparator)
+
+  return (
+    <div className="flex items-center gap-2 lg:gap-3">
+      <TextInput
+        className="flex-1"
+        placeholder={translate('text_63fcc3218d35b9377840f5a7')}
+        value={metadataKey}
+        onChange={(newKey) =>
+          setFilterValue(`${newKey}${filterDataInlineSeparator}${metadataValue}`)
+        }
+      />
+      <TextInput
+        className="flex-1"
+        placeholder={translate('text_63fcc3218d35b9377840f5af')}
+        value={metadataValue}
+        onChange={(newValue) =>
+          setFilterValue(`${metadataKey}${filterDataInlineSeparator}${newValue}`)
+        }
+      />
+    </div>
+  )
+}
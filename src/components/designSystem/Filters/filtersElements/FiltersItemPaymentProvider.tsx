@@ -0,0 +1,48 @@
+import { ComboBox } from '~/components/form'
+import { ProviderTypeEnum } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { FiltersFormValues } from '../types'
+
+type FiltersItemPaymentProviderProps = {
+  value: FiltersFormValues['filters'][0]['value']
+  setFilterValue: (value: string) => void
+}
+
+export const FiltersItemPaymentProvider = ({
+  value,
+  setFilterValue,
+}: FiltersItemPaymentProviderProps) => {
+  const { translate } = useInternationalization()
+
+  return (
+    <ComboBox
+      disableClearable
+      placeholder={translate('text_66ab42d4ece7e6b7078993b1')}
+      data={[
+        {
+          value: ProviderTypeEnum.Adyen,
+          label: translate('text_645d071272418a14c1c76a6d'),
+        },
+        {
+          value: ProviderTypeEnum.Cashfree,
+          label: translate('text_17367626793434wkg1rk0114'),
+        },
+        {
+          value: ProviderTypeEnum.Gocardless,
+          label: translate('text_634ea0ecc6147de10ddb6625'),
+        },
+        {
+          value: ProviderTypeEnum.Moneyhash,
+          label: translate('text_1733427981129n3wxjui0bex'),
+        },
+        {
+          value: ProviderTypeEnum.Stripe,
+          label: translate('text_62b1edddbf5f461ab971277d'),
+        },
+      ]}
+      onChange={(paymentProvider) => setFilterValue(paymentProvider)}
+      value={value}
+    />
+  )
+}
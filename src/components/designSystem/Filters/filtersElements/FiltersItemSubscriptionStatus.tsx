@@ -0,0 +1,50 @@
+import { MultipleComboBox } from '~/components/form'
+import { StatusTypeEnum } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { FiltersFormValues } from '../types'
+
+type FiltersItemSubscriptionStatusProps = {
+  value: FiltersFormValues['filters'][0]['value']
+  setFilterValue: (value: string) => void
+}
+
+export const FiltersItemSubscriptionStatus = ({
+  value,
+  setFilterValue,
+}: FiltersItemSubscriptionStatusProps) => {
+  const { translate } = useInternationalization()
+
+  return (
+    <MultipleComboBox
+      disableClearable
+      disableCloseOnSelect
+      placeholder={translate('text_66ab42d4ece7e6b7078993b1')}
+      data={[
+        {
+          label: translate('text_624efab67eb2570101d1180e'),
+          value: StatusTypeEnum.Active,
+        },
+        {
+          label: translate('text_62da6db136909f52c2704c30'),
+          value: StatusTypeEnum.Pending,
+        },
+        {
+          label: translate('text_1792428744452mkgnoomyhsd'),
+          value: StatusTypeEnum.Canceled,
+        },
+        {
+          label: translate('text_624efab67eb2570101d11826'),
+          value: StatusTypeEnum.Terminated,
+        },
+      ]}
+      onChange={(status) => {
+        setFilterValue(String(status.map((v) => v.value).join(',')))
+      }}
+      value={value
+        ?.split(',')
+        .filter((v) => !!v)
+        .map((v) => ({ value: v }))}
+    />
+  )
+}
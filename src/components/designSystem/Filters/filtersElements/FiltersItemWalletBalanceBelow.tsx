@@ -0,0 +1,27 @@
+import { TextInput } from '~/components/form'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { FiltersFormValues } from '../types'
+
+type FiltersItemWalletBalanceBelowProps = {
+  value: FiltersFormValues['filters'][0]['value']
+  setFilterValue: (value: string) => void
+}
+
+export const FiltersItemWalletBalanceBelow = ({
+  value,
+  setFilterValue,
+}: FiltersItemWalletBalanceBelowProps) => {
+  const { translate } = useInternationalization()
+
+  return (
+    <TextInput
+      beforeChangeFormatter={['chargeDecimal']}
+      type="number"
+      placeholder="0"
+      value={value}
+      onChange={(balance) => setFilterValue(balance)}
+      helperText={translate('text_1792428744450k18jn1ua9np')}
+    />
+  )
+}
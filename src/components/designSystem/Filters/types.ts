@@ -17,6 +17,7 @@ export enum AmountFilterInterval {
 export enum AvailableFiltersEnum {
   amount = 'amount',
   country = 'country',
+  createdAt = 'createdAt',
   creditNoteCreditStatus = 'creditNoteCreditStatus',
   creditNoteReason = 'creditNoteReason',
   creditNoteRefundStatus = 'creditNoteRefundStatus',
@@ -24,18 +25,23 @@ export enum AvailableFiltersEnum {
   customerAccountType = 'accountType',
   customerExternalId = 'customerExternalId',
   date = 'date',
+  hasTaxIdentificationNumber = 'hasTaxIdentificationNumber',
   invoiceNumber = 'invoiceNumber',
   invoiceType = 'invoiceType',
   issuingDate = 'issuingDate',
+  metadata = 'metadata',
   partiallyPaid = 'partiallyPaid',
   paymentDisputeLost = 'paymentDisputeLost',
   paymentOverdue = 'paymentOverdue',
+  paymentProvider = 'paymentProvider',
   paymentStatus = 'paymentStatus',
   planCode = 'planCode',
   selfBilled = 'selfBilled',
   status = 'status',
   subscriptionExternalId = 'subscriptionExternalId',
+  subscriptionStatus = 'subscriptionStatus',
   timeGranularity = 'timeGranularity',
+  walletBalanceBelow = 'walletBalanceBelow',
 }
 
 export const CreditNoteAvailableFilters = [
@@ -74,11 +80,24 @@ export const RevenueStreamsAvailablePopperFilters = [
   AvailableFiltersEnum.subscriptionExternalId,
 ]
 
-export const CustomerAvailableFilters = [AvailableFiltersEnum.customerAccountType]
+export const CustomerAvailableFilters = [
+  AvailableFiltersEnum.customerAccountType,
+  AvailableFiltersEnum.country,
+  AvailableFiltersEnum.currency,
+  AvailableFiltersEnum.planCode,
+  AvailableFiltersEnum.subscriptionStatus,
+  AvailableFiltersEnum.paymentProvider,
+  AvailableFiltersEnum.paymentOverdue,
+  AvailableFiltersEnum.walletBalanceBelow,
+  AvailableFiltersEnum.hasTaxIdentificationNumber,
+  AvailableFiltersEnum.createdAt,
+  AvailableFiltersEnum.metadata,
+]
 
 const translationMap: Record<AvailableFiltersEnum, string> = {
   [AvailableFiltersEnum.amount]: 'text_17346988752182hpzppdqk9t',
   [AvailableFiltersEnum.country]: 'text_62ab2d0396dd6b0361614da0',
+  [AvailableFiltersEnum.createdAt]: 'text_1792428744441lgiqwvxbqgb',
   [AvailableFiltersEnum.creditNoteCreditStatus]: 'text_173470389114473bzrbyh6va',
   [AvailableFiltersEnum.creditNoteReason]: 'text_1734703891144ptrs5sty2bg',
   [AvailableFiltersEnum.creditNoteRefundStatus]: 'text_1734703891144vv5iclhl4vz',
@@ -86,18 +105,23 @@ const translationMap: Record<AvailableFiltersEnum, string> = {
   [AvailableFiltersEnum.customerAccountType]: 'text_1726128938631ioz4orixel3',
   [AvailableFiltersEnum.customerExternalId]: 'text_65201c5a175a4b0238abf29a',
   [AvailableFiltersEnum.date]: 'text_664cb90097bfa800e6efa3f5',
+  [AvailableFiltersEnum.hasTaxIdentificationNumber]: 'text_17924287444438jibseatw5w',
   [AvailableFiltersEnum.invoiceNumber]: 'text_1734698875218fbxzci2g2s2',
   [AvailableFiltersEnum.invoiceType]: 'text_632d68358f1fedc68eed3e5a',
   [AvailableFiltersEnum.issuingDate]: 'text_6419c64eace749372fc72b39',
+  [AvailableFiltersEnum.metadata]: 'text_63fcc3218d35b9377840f59b',
   [AvailableFiltersEnum.partiallyPaid]: 'text_1738071221799vib0l2z1bxe',
   [AvailableFiltersEnum.paymentDisputeLost]: 'text_66141e30699a0631f0b2ed32',
   [AvailableFiltersEnum.paymentOverdue]: 'text_666c5b12fea4aa1e1b26bf55',
+  [AvailableFiltersEnum.paymentProvider]: 'text_634ea0ecc6147de10ddb6631',
   [AvailableFiltersEnum.paymentStatus]: 'text_63eba8c65a6c8043feee2a0f',
   [AvailableFiltersEnum.planCode]: 'text_642d5eb2783a2ad10d670320',
   [AvailableFiltersEnum.selfBilled]: 'text_1738595318403vcyh77pwiew',
   [AvailableFiltersEnum.status]: 'text_63ac86d797f728a87b2f9fa7',
   [AvailableFiltersEnum.subscriptionExternalId]: 'text_1741008626283x4p1zwj11zi',
+  [AvailableFiltersEnum.subscriptionStatus]: 'text_1792428744445vikeit5ummt',
   [AvailableFiltersEnum.timeGranularity]: '', // Used in quick filters only
+  [AvailableFiltersEnum.walletBalanceBelow]: 'text_1792428744448uzba3edl56q',
 }
 
 export type FiltersFormValues = {
@@ -60,6 +60,12 @@ export const parseAmountValue = (value: string) => {
 export const FILTER_VALUE_MAP: Record<AvailableFiltersEnum, Function> = {
   [AvailableFiltersEnum.amount]: parseAmountValue,
   [AvailableFiltersEnum.country]: (value: string) => value,
+  [AvailableFiltersEnum.createdAt]: (value: string) => {
+    return {
+      createdAtFrom: (value as string).split(',')[0],
+      createdAtTo: (value as string).split(',')[1],
+    }
+  },
   [AvailableFiltersEnum.creditNoteCreditStatus]: (value: string) => (value as string).split(','),
   [AvailableFiltersEnum.creditNoteReason]: (value: string) => (value as string).split(','),
   [AvailableFiltersEnum.creditNoteRefundStatus]: (value: string) => (value as string).split(','),
@@ -70,6 +76,7 @@ export const FILTER_VALUE_MAP: Record<AvailableFiltersEnum, Function> = {
   [AvailableFiltersEnum.date]: (value: string) => {
     return { fromDate: (value as string).split(',')[0], toDate: (value as string).split(',')[1] }
   },
+  [AvailableFiltersEnum.hasTaxIdentificationNumber]: (value: string) => value === 'true',
   [AvailableFiltersEnum.invoiceNumber]: (value: string) => value,
   [AvailableFiltersEnum.invoiceType]: (value: string) => (value as string).split(','),
   [AvailableFiltersEnum.issuingDate]: (value: string) => {
@@ -78,16 +85,26 @@ export const FILTER_VALUE_MAP: Record<AvailableFiltersEnum, Function> = {
       issuingDateTo: (value as string).split(',')[1],
     }
   },
+  [AvailableFiltersEnum.metadata]: (value: string) => {
+    const [metadataKey, metadataValue] = (value as string).split(filterDataInlineSeparator)
+
+    if (!metadataKey) return {}
+
+    return { metadata: [{ key: metadataKey, value: metadataValue || undefined }] }
+  },
   [AvailableFiltersEnum.partiallyPaid]: (value: string) => value === 'true',
   [AvailableFiltersEnum.paymentDisputeLost]: (value: string) => value === 'true',
   [AvailableFiltersEnum.paymentOverdue]: (value: string) => value === 'true',
+  [AvailableFiltersEnum.paymentProvider]: (value: string) => value,
   [AvailableFiltersEnum.paymentStatus]: (value: string) => (value as string).split(','),
   [AvailableFiltersEnum.planCode]: (value: string) => value,
   [AvailableFiltersEnum.selfBilled]: (value: string) => value === 'true',
   [AvailableFiltersEnum.status]: (value: string) => (value as string).split(','),
   [AvailableFiltersEnum.subscriptionExternalId]: (value: string) =>
     (value as string).split(filterDataInlineSeparator)[0],
+  [AvailableFiltersEnum.subscriptionStatus]: (value: string) => (value as string).split(','),
   [AvailableFiltersEnum.timeGranularity]: (value: string) => value,
+  [AvailableFiltersEnum.walletBalanceBelow]: (value: string) => Number(value),
 }
 
 const formatFiltersForQuery = ({
@@ -160,8 +177,13 @@ export const formatFiltersForInvoiceQuery = (searchParams: URLSearchParams) => {
 }
 
 export const formatFiltersForCustomerQuery = (searchParams: URLSearchParams) => {
+  const keyMap: Partial<Record<AvailableFiltersEnum, string>> = {
+    [AvailableFiltersEnum.paymentOverdue]: 'hasOverdueInvoices',
+  }
+
   return formatFiltersForQuery({
     searchParams,
+    keyMap,
     availableFilters: CustomerAvailableFilters,
     filtersNamePrefix: CUSTOMER_LIST_FILTER_PREFIX,
   })
@@ -215,6 +237,9 @@ export const formatActiveFilterValueDisplay = (
   switch (key) {
     case AvailableFiltersEnum.customerExternalId:
       return value.split(filterDataInlineSeparator)[1]
+    case AvailableFiltersEnum.metadata:
+      return value.split(filterDataInlineSeparator).filter(Boolean).join(': ')
+    case AvailableFiltersEnum.createdAt:
     case AvailableFiltersEnum.date:
     case AvailableFiltersEnum.issuingDate:
       return value
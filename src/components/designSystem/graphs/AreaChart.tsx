@@ -50,12 +50,18 @@ const CustomTooltip = ({ active, payload }: CustomTooltipProps): JSX.Element | n
   return null
 }
 
+const formatYAxisValue = (value: number, currency?: CurrencyEnum) =>
+  currency
+    ? bigNumberShortenNotationFormater(deserializeAmount(value, currency), { currency })
+    : bigNumberShortenNotationFormater(value, { style: 'decimal' })
+
 type AreaChartProps = {
   blur: boolean
   data: AreaChartDataType[]
   loading?: boolean
   hasOnlyZeroValues?: boolean
-  currency: CurrencyEnum
+  // Without currency, values are displayed as counts
+  currency?: CurrencyEnum
 }
 
 const AreaChart = memo(({ blur, currency, data, hasOnlyZeroValues, loading }: AreaChartProps) => {
@@ -66,7 +72,7 @@ const AreaChart = memo(({ blur, currency, data, hasOnlyZeroValues, loading }: Ar
           margin={{
             top: 1,
             left: 1,
-            right: getCurrencySymbol(currency).length > 1 ? 12 : 2,
+            right: !!currency && getCurrencySymbol(currency).length > 1 ? 12 : 2,
             bottom: -6,
           }}
           data={data}
@@ -163,12 +169,7 @@ const AreaChart = memo(({ blur, currency, data, hasOnlyZeroValues, loading }: Ar
                       >
                         {index !== 0 && hasOnlyZeroValues
                           ? '-'
-                          : bigNumberShortenNotationFormater(
-                              deserializeAmount(payload.value, currency),
-                              {
-                                currency,
-                              },
-                            )}
+                          : formatYAxisValue(payload.value, currency)}
                       </text>
                     </g>
                   ) : (
@@ -0,0 +1,232 @@
+import { memo } from 'react'
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  Tooltip as RechartTooltip,
+  ResponsiveContainer,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+import { Typography } from '~/components/designSystem'
+import { ChartWrapper } from '~/components/layouts/Charts'
+import {
+  bigNumberShortenNotationFormater,
+  getCurrencySymbol,
+  intlFormatNumber,
+} from '~/core/formats/intlFormatNumber'
+import { CurrencyEnum } from '~/generated/graphql'
+import { theme } from '~/styles'
+
+import { TIER_CURVE_GRAPH_COLORS } from './const'
+import { TierCurveChartDataType } from './types'
+
+const TICK_STYLE = {
+  fontFamily: 'Inter',
+  fontSize: '12px',
+  fontStyle: 'normal',
+  fontWeight: '400',
+  lineHeight: '16px',
+  letterSpacing: '-0.16px',
+}
+
+type TierCurveChartLabels = {
+  units: string
+  unitPrice: string
+  cumulativeAmount: string
+}
+
+type TierCurveChartProps = {
+  currency: CurrencyEnum
+  data: TierCurveChartDataType[]
+  // Graduated percentage tiers are priced with a rate instead of an amount
+  isUnitPricePercentage?: boolean
+  labels: TierCurveChartLabels
+}
+
+type CustomTooltipProps = {
+  active?: boolean
+  payload?: { payload?: TierCurveChartDataType }[]
+  formatUnitPrice: (value: number) => string
+  formatAmount: (value: number) => string
+  labels: TierCurveChartLabels
+}
+
+const CustomTooltip = ({
+  active,
+  payload,
+  formatUnitPrice,
+  formatAmount,
+  labels,
+}: CustomTooltipProps): JSX.Element | null => {
+  const point = payload?.[0]?.payload
+
+  if (!active || !point) return null
+
+  return (
+    <div className="flex min-w-60 flex-col gap-2 rounded-xl bg-grey-700 px-4 py-3">
+      <Typography variant="captionHl" color="white">
+        {`${intlFormatNumber(point.units, { style: 'decimal' })} ${labels.units}`}
+      </Typography>
+      {(
+        [
+          ['unitPrice', formatUnitPrice(point.unitPrice)],
+          ['cumulativeAmount', formatAmount(point.cumulativeAmount)],
+        ] as const
+      ).map(([key, value]) => (
+        <div
+          key={`tier-curve-chart-tooltip-${key}`}
+          className="flex items-center justify-between gap-2"
+        >
+          <div className="flex items-center gap-2">
+            <div
+              className="size-3 rounded-full"
+              style={{ backgroundColor: TIER_CURVE_GRAPH_COLORS[key] }}
+            ></div>
+            <Typography variant="caption" color="white" noWrap>
+              {labels[key]}
+            </Typography>
+          </div>
+          <Typography variant="caption" color="white" noWrap>
+            {value}
+          </Typography>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const TierCurveChart = memo(
+  ({ currency, data, isUnitPricePercentage, labels }: TierCurveChartProps) => {
+    const formatAmount = (value: number) =>
+      intlFormatNumber(value, { currencyDisplay: 'symbol', currency, maximumFractionDigits: 15 })
+    const formatUnitPrice = (value: number) =>
+      isUnitPricePercentage
+        ? intlFormatNumber(value, { style: 'percent', maximumFractionDigits: 15 })
+        : formatAmount(value)
+
+    return (
+      <ChartWrapper className="flex flex-col gap-3">
+        <ResponsiveContainer width="100%" height={160}>
+          <LineChart
+            margin={{
+              top: 4,
+              left: 1,
+              right: getCurrencySymbol(currency).length > 1 ? 12 : 2,
+              bottom: -6,
+            }}
+            data={data}
+          >
+            <XAxis
+              type="number"
+              dataKey="units"
+              axisLine={true}
+              stroke={theme.palette.grey[200]}
+              tickLine={false}
+              domain={['dataMin', 'dataMax']}
+              ticks={data.length ? [data[0].units, data[data.length - 1].units] : []}
+              tick={(props: {
+                x: number
+                y: number
+                index: number
+                payload: { value: number }
+              }) => (
+                <g transform={`translate(${props.x},${props.y + 10})`}>
+                  <text
+                    fill={theme.palette.grey[600]}
+                    style={{ ...TICK_STYLE, textAnchor: props.index === 0 ? 'start' : 'end' }}
+                  >
+                    {intlFormatNumber(props.payload.value, { style: 'decimal' })}
+                  </text>
+                </g>
+              )}
+            />
+            <YAxis yAxisId="unitPrice" hide domain={[0, 'dataMax']} />
+            <YAxis
+              yAxisId="cumulativeAmount"
+              axisLine={false}
+              stroke={theme.palette.grey[600]}
+              tickLine={false}
+              interval={0}
+              domain={[0, 'dataMax']}
+              orientation="right"
+              tick={(props: {
+                x: number
+                y: number
+                index: number
+                visibleTicksCount: number
+                payload: { value: number }
+              }) => {
+                const { x, y, payload, index, visibleTicksCount } = props
+
+                if (index !== 0 && index !== visibleTicksCount - 1) {
+                  return <></>
+                }
+
+                return (
+                  <g transform={`translate(${x},${index !== 0 ? y + 12 : y - 2})`}>
+                    <text fill={theme.palette.grey[600]} style={TICK_STYLE}>
+                      {bigNumberShortenNotationFormater(payload.value, { currency })}
+                    </text>
+                  </g>
+                )
+              }}
+            />
+            <CartesianGrid
+              horizontal={<>{/* Hide horizontal line */}</>}
+              stroke={theme.palette.grey[200]}
+            />
+            <Line
+              yAxisId="unitPrice"
+              type="linear"
+              dataKey="unitPrice"
+              stroke={TIER_CURVE_GRAPH_COLORS.unitPrice}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              yAxisId="cumulativeAmount"
+              type="linear"
+              dataKey="cumulativeAmount"
+              stroke={TIER_CURVE_GRAPH_COLORS.cumulativeAmount}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <RechartTooltip
+              isAnimationActive={false}
+              cursor={{ stroke: theme.palette.grey[500], strokeDasharray: '2 2' }}
+              content={
+                <CustomTooltip
+                  formatAmount={formatAmount}
+                  formatUnitPrice={formatUnitPrice}
+                  labels={labels}
+                />
+              }
+            />
+          </LineChart>
+        </ResponsiveContainer>
+
+        <div className="flex gap-4">
+          {(['unitPrice', 'cumulativeAmount'] as const).map((key) => (
+            <div key={`tier-curve-chart-legend-${key}`} className="flex items-center gap-2">
+              <div
+                className="size-3 rounded-full"
+                style={{ backgroundColor: TIER_CURVE_GRAPH_COLORS[key] }}
+              ></div>
+              <Typography variant="caption" color="grey600" noWrap>
+                {labels[key]}
+              </Typography>
+            </div>
+          ))}
+        </div>
+      </ChartWrapper>
+    )
+  },
+)
+
+TierCurveChart.displayName = 'TierCurveChart'
+
+export default TierCurveChart
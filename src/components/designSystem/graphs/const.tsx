@@ -4,3 +4,8 @@ export const REVENUE_STREAMS_GRAPH_COLORS = {
   commitmentFeeAmountCents: '#79F2CA',
   oneOffFeeAmountCents: '#FFAB00',
 }
+
+export const TIER_CURVE_GRAPH_COLORS = {
+  unitPrice: '#AEA2F1',
+  cumulativeAmount: '#4C9AFF',
+}
@@ -3,3 +3,9 @@ export type AreaChartDataType = {
   value: number
   tooltipLabel: string
 }
+
+export type TierCurveChartDataType = {
+  units: number
+  unitPrice: number
+  cumulativeAmount: number
+}
@@ -1,11 +1,16 @@
 import { gql } from '@apollo/client'
-import { ReactNode } from 'react'
+import { ReactNode, useRef } from 'react'
 
 import { CodeSnippet } from '~/components/CodeSnippet'
-import { Alert, Icon, Tooltip, Typography } from '~/components/designSystem'
+import { Alert, Button, Icon, Tooltip, Typography } from '~/components/designSystem'
+import {
+  InferBillableMetricDialog,
+  InferBillableMetricDialogRef,
+} from '~/components/developers/InferBillableMetricDialog'
 import { TimezoneDate } from '~/components/TimezoneDate'
 import { DebuggerEventDetailsFragment } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePermissions } from '~/hooks/usePermissions'
 
 gql`
   fragment DebuggerEventDetails on Event {
@@ -51,6 +56,8 @@ const PropertyItem = ({ label, value }: { label: string; value?: string | ReactN
 
 export const DebuggerEventDetails = ({ event }: DebuggerEventDetailsProps) => {
   const { translate } = useInternationalization()
+  const { hasPermissions } = usePermissions()
+  const inferBillableMetricDialogRef = useRef<InferBillableMetricDialogRef>(null)
   const {
     billableMetricName,
     timestamp,
@@ -85,7 +92,22 @@ export const DebuggerEventDetails = ({ event }: DebuggerEventDetailsProps) => {
 
         {!matchBillableMetric && (
           <div className="col-span-2">
-            <Alert type="warning">{translate('text_6298bd525e359200d5ea01b7')}</Alert>
+            <Alert type="warning">
+              <div className="flex flex-col items-start gap-2">
+                {translate('text_6298bd525e359200d5ea01b7')}
+                {hasPermissions(['billableMetricsCreate']) && (
+                  <Button
+                    variant="quaternary"
+                    size="small"
+                    startIcon="plus"
+                    onClick={() => inferBillableMetricDialogRef.current?.openDialog(code)}
+                    data-test="infer-billable-metric"
+                  >
+                    {translate('text_1792424763764b9m0jbdfmqk')}
+                  </Button>
+                )}
+              </div>
+            </Alert>
           </div>
         )}
         {!matchCustomField && (
@@ -171,6 +193,8 @@ export const DebuggerEventDetails = ({ event }: DebuggerEventDetailsProps) => {
           displayHead={false}
         />
       </div>
+
+      <InferBillableMetricDialog ref={inferBillableMetricDialogRef} />
     </>
   )
 }
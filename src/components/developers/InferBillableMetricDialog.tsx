@@ -0,0 +1,199 @@
+import { gql } from '@apollo/client'
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import {
+  inferBillableMetricFromEvents,
+  InferredPropertyKindEnum,
+} from '~/components/billableMetrics/utils'
+import {
+  Alert,
+  Button,
+  Card,
+  Chip,
+  Dialog,
+  DialogRef,
+  Skeleton,
+  Typography,
+} from '~/components/designSystem'
+import { updateInferredBillableMetricVar } from '~/core/apolloClient'
+import { CREATE_BILLABLE_METRIC_ROUTE } from '~/core/router'
+import {
+  AggregationTypeEnum,
+  useGetEventsForBillableMetricInferenceQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  query getEventsForBillableMetricInference($code: String!, $limit: Int) {
+    events(code: $code, limit: $limit) {
+      collection {
+        id
+        payload
+      }
+    }
+  }
+`
+
+// Number of recent events read to infer the metric
+const INFERENCE_EVENTS_LIMIT = 100
+// Number of values displayed for each property
+const DISPLAYED_VALUES_COUNT = 5
+
+const PROPERTY_KIND_TRANSLATION_KEYS: Record<InferredPropertyKindEnum, string> = {
+  [InferredPropertyKindEnum.numeric]: 'text_1792424763738l7p71myp1ap',
+  [InferredPropertyKindEnum.categorical]: 'text_1792424763740nzqcyq10v1j',
+  [InferredPropertyKindEnum.identifier]: 'text_17924247637423npvqcu1gge',
+}
+
+const AGGREGATION_TYPE_TRANSLATION_KEYS: Partial<Record<AggregationTypeEnum, string>> = {
+  [AggregationTypeEnum.CountAgg]: 'text_623c4a8c599213014cacc9de',
+  [AggregationTypeEnum.UniqueCountAgg]: 'text_62694d9181be8d00a33f20f0',
+  [AggregationTypeEnum.SumAgg]: 'text_62694d9181be8d00a33f2100',
+}
+
+export interface InferBillableMetricDialogRef {
+  openDialog: (code: string) => unknown
+  closeDialog: () => unknown
+}
+
+export const InferBillableMetricDialog = forwardRef<InferBillableMetricDialogRef>((_, ref) => {
+  const { translate } = useInternationalization()
+  const navigate = useNavigate()
+  const dialogRef = useRef<DialogRef>(null)
+  const [code, setCode] = useState<string>()
+  const { data, loading, error } = useGetEventsForBillableMetricInferenceQuery({
+    variables: { code: code as string, limit: INFERENCE_EVENTS_LIMIT },
+    skip: !code,
+    // Kept out of the cache, as the filtered events would replace the paginated Debugger list
+    fetchPolicy: 'no-cache',
+  })
+
+  const inferredMetric = useMemo(() => {
+    if (!code || !data?.events?.collection) return undefined
+
+    return inferBillableMetricFromEvents(
+      code,
+      data.events.collection.map(({ payload }) => payload),
+    )
+  }, [code, data?.events?.collection])
+
+  useImperativeHandle(ref, () => ({
+    openDialog: (eventCode) => {
+      setCode(eventCode)
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_17924247637444tj3g1o9jad', { code })}
+      description={translate('text_1792424763747us5dlwp8yxj')}
+      onClose={() => setCode(undefined)}
+      actions={({ closeDialog }) => (
+        <>
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_6271200984178801ba8bdf4a')}
+          </Button>
+          <Button
+            disabled={!inferredMetric?.eventsCount}
+            onClick={() => {
+              updateInferredBillableMetricVar({ values: inferredMetric?.values })
+              closeDialog()
+              navigate(CREATE_BILLABLE_METRIC_ROUTE)
+            }}
+            data-test="create-metric-from-event"
+          >
+            {translate('text_1792424763749fw5orwr7rnu')}
+          </Button>
+        </>
+      )}
+    >
+      <div className="mb-8 flex flex-col gap-6">
+        {loading && (
+          <div className="flex flex-col gap-3">
+            {[0, 1, 2].map((i) => (
+              <Skeleton key={`infer-metric-skeleton-${i}`} variant="text" className="w-full" />
+            ))}
+          </div>
+        )}
+
+        {!loading && !!error && (
+          <Alert type="danger">{translate('text_1792424763751nkhjgtby4mv')}</Alert>
+        )}
+
+        {!loading && !!inferredMetric && (
+          <>
+            <Typography variant="caption" color="grey600">
+              {translate(
+                'text_1792424763753jdbqlx46yu9',
+                { count: inferredMetric.eventsCount },
+                inferredMetric.eventsCount,
+              )}
+            </Typography>
+
+            {!!inferredMetric.properties.length && (
+              <Card className="gap-0 p-0">
+                {inferredMetric.properties.map(({ key, kind, values }) => (
+                  <div
+                    key={`inferred-property-${key}`}
+                    className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+                  >
+                    <div className="flex flex-1 flex-col overflow-hidden">
+                      <Typography variant="bodyHl" color="grey700" noWrap>
+                        {key}
+                      </Typography>
+                      <Typography variant="caption" color="grey600" noWrap>
+                        {values.slice(0, DISPLAYED_VALUES_COUNT).join(', ')}
+                        {values.length > DISPLAYED_VALUES_COUNT &&
+                          ` ${translate('text_1792424763755cj0l00y1ogk', {
+                            count: values.length - DISPLAYED_VALUES_COUNT,
+                          })}`}
+                      </Typography>
+                    </div>
+                    <Chip size="small" label={translate(PROPERTY_KIND_TRANSLATION_KEYS[kind])} />
+                  </div>
+                ))}
+              </Card>
+            )}
+
+            {!!inferredMetric.eventsCount && (
+              <div className="flex flex-col gap-1">
+                <Typography variant="captionHl" color="grey700">
+                  {translate('text_1792424763757wyybiz4ey40')}
+                </Typography>
+                <Typography variant="body" color="grey700">
+                  {translate('text_1792424763759f26bx4p909o', {
+                    aggregationType: [
+                      translate(
+                        AGGREGATION_TYPE_TRANSLATION_KEYS[inferredMetric.values.aggregationType] ||
+                          '',
+                      ),
+                      inferredMetric.values.fieldName,
+                    ]
+                      .filter(Boolean)
+                      .join(' · '),
+                  })}
+                </Typography>
+                <Typography variant="body" color="grey700">
+                  {translate(
+                    'text_1792424763762nx2t7fu8fdd',
+                    {
+                      count: inferredMetric.values.filters.length,
+                      filters: inferredMetric.values.filters.map(({ key }) => key).join(', '),
+                    },
+                    inferredMetric.values.filters.length,
+                  )}
+                </Typography>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Dialog>
+  )
+})
+
+InferBillableMetricDialog.displayName = 'InferBillableMetricDialog'
@@ -4,6 +4,7 @@ import {
   formatDataForAreaChart,
   getLastTwelveMonthsNumbersUntilNow,
   GRAPH_YEAR_MONTH_DATE_FORMAT,
+  groupAreaChartDataByCurrency,
   padAndTransformDataOverLastTwelveMonth,
   TAreaChartDataResult,
 } from '~/components/graphs/utils'
@@ -622,4 +623,30 @@ describe('components/graphs/utils', () => {
       ])
     })
   })
+
+  describe('groupAreaChartDataByCurrency', () => {
+    it('should group the months and sum the amounts of each currency', () => {
+      expect(
+        groupAreaChartDataByCurrency([
+          { amountCents: '1000', currency: CurrencyEnum.Eur, month: '2024-01-01T00:00:00Z' },
+          { amountCents: 500, currency: CurrencyEnum.Usd, month: '2024-01-01T00:00:00Z' },
+          { amountCents: '2500', currency: CurrencyEnum.Eur, month: '2024-02-01T00:00:00Z' },
+        ]),
+      ).toStrictEqual([
+        {
+          currency: CurrencyEnum.Eur,
+          amountCentsSum: 3500,
+          months: [
+            { amountCents: '1000', currency: CurrencyEnum.Eur, month: '2024-01-01T00:00:00Z' },
+            { amountCents: '2500', currency: CurrencyEnum.Eur, month: '2024-02-01T00:00:00Z' },
+          ],
+        },
+        {
+          currency: CurrencyEnum.Usd,
+          amountCentsSum: 500,
+          months: [{ amountCents: 500, currency: CurrencyEnum.Usd, month: '2024-01-01T00:00:00Z' }],
+        },
+      ])
+    })
+  })
 })
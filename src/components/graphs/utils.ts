@@ -64,3 +64,29 @@ export const formatDataForAreaChart = (
     axisName: item.month as string,
   }))
 }
+
+/**
+ * Groups monthly amounts by currency so each currency can be displayed in its own chart.
+ */
+export const groupAreaChartDataByCurrency = (
+  data: Array<{ amountCents: string | number; currency: CurrencyEnum; month: string }>,
+) => {
+  const dataByCurrency = new Map<
+    CurrencyEnum,
+    { currency: CurrencyEnum; amountCentsSum: number; months: TAreaChartDataResult }
+  >()
+
+  data.forEach(({ amountCents, currency, month }) => {
+    const currencyData = dataByCurrency.get(currency) || {
+      currency,
+      amountCentsSum: 0,
+      months: [],
+    }
+
+    currencyData.amountCentsSum += Number(amountCents)
+    currencyData.months.push({ amountCents, currency, month })
+    dataByCurrency.set(currency, currencyData)
+  })
+
+  return Array.from(dataByCurrency.values())
+}
@@ -52,11 +52,13 @@ import { useChargeForm } from '~/hooks/plans/useChargeForm'
 import { useCurrentUser } from '~/hooks/useCurrentUser'
 import { NAV_HEIGHT, theme } from '~/styles'
 
+import { ChargeCurrencyVariantsPrices } from './ChargeCurrencyVariantsPrices'
 import { buildChargeFilterAddFilterButtonId, ChargeFilter } from './ChargeFilter'
 import { ChargeOptionsAccordion } from './ChargeOptionsAccordion'
 import { ChargeWrapperSwitch } from './ChargeWrapperSwitch'
 import { RemoveChargeWarningDialogRef } from './RemoveChargeWarningDialog'
-import { LocalChargeInput, PlanFormInput } from './types'
+import { SaveChargeTemplateDialogRef } from './SaveChargeTemplateDialog'
+import { LocalChargeInput, LocalCurrencyVariantProperties, PlanFormInput } from './types'
 
 const buildChargeDefaultPropertyId = (chargeIndex: number) =>
   `charge-${chargeIndex}-default-property-accordion`
@@ -168,6 +170,7 @@ interface ChargeAccordionProps {
   premiumWarningDialogRef?: RefObject<PremiumWarningDialogRef>
   editInvoiceDisplayNameRef: RefObject<EditInvoiceDisplayNameRef>
   removeChargeWarningDialogRef?: RefObject<RemoveChargeWarningDialogRef>
+  saveChargeTemplateDialogRef?: RefObject<SaveChargeTemplateDialogRef>
   subscriptionFormType?: keyof typeof FORM_TYPE_ENUM
   shouldDisplayAlreadyUsedChargeAlert: boolean
 }
@@ -178,6 +181,7 @@ export const ChargeAccordion = memo(
     disabled,
     shouldDisplayAlreadyUsedChargeAlert,
     removeChargeWarningDialogRef,
+    saveChargeTemplateDialogRef,
     premiumWarningDialogRef,
     editInvoiceDisplayNameRef,
     isUsedInSubscription,
@@ -292,6 +296,16 @@ export const ChargeAccordion = memo(
             properties: getPropertyShape({}),
             filters: [],
             taxes: [],
+            // Prices entered for the currency variants were shaped for the previous charge model
+            currencyVariantProperties: localCharge.currencyVariantProperties
+              ? Object.keys(
+                  localCharge.currencyVariantProperties,
+                ).reduce<LocalCurrencyVariantProperties>((acc, variantCurrency) => {
+                  acc[variantCurrency as CurrencyEnum] = getPropertyShape({})
+
+                  return acc
+                }, {})
+              : undefined,
           }
         }
 
@@ -421,6 +435,21 @@ export const ChargeAccordion = memo(
                   ),
                 )}
               />
+              {!isInSubscriptionForm && !!saveChargeTemplateDialogRef && (
+                <Tooltip placement="top-end" title={translate('text_1792422572551ah5pnao3x6x')}>
+                  <Button
+                    variant="quaternary"
+                    size="small"
+                    icon="book"
+                    data-test="save-charge-as-template"
+                    onClick={(e: MouseEvent<HTMLButtonElement>) => {
+                      e.stopPropagation()
+
+                      saveChargeTemplateDialogRef.current?.openDialog(localCharge)
+                    }}
+                  />
+                </Tooltip>
+              )}
               {!isInSubscriptionForm && (
                 <Tooltip placement="top-end" title={translate('text_624aa732d6af4e0103d40e65')}>
                   <Button
@@ -548,15 +577,24 @@ export const ChargeAccordion = memo(
                       )
                     }}
                   >
-                    <ChargeWrapperSwitch
-                      currency={currency}
-                      formikProps={formikProps}
-                      chargeIndex={index}
-                      propertyCursor="properties"
-                      premiumWarningDialogRef={premiumWarningDialogRef}
-                      valuePointer={localCharge?.properties}
-                      initialValuePointer={initialLocalCharge?.properties}
-                    />
+                    <>
+                      <ChargeWrapperSwitch
+                        currency={currency}
+                        formikProps={formikProps}
+                        chargeIndex={index}
+                        propertyCursor="properties"
+                        premiumWarningDialogRef={premiumWarningDialogRef}
+                        valuePointer={localCharge?.properties}
+                        initialValuePointer={initialLocalCharge?.properties}
+                      />
+                      {!isInSubscriptionForm && (
+                        <ChargeCurrencyVariantsPrices
+                          chargeIndex={index}
+                          formikProps={formikProps}
+                          premiumWarningDialogRef={premiumWarningDialogRef}
+                        />
+                      )}
+                    </>
                   </ConditionalWrapper>
                 )}
 
@@ -693,6 +731,14 @@ export const ChargeAccordion = memo(
                             valuePointer={filter.properties}
                             initialValuePointer={initialLocalCharge?.properties}
                           />
+                          {!isInSubscriptionForm && (
+                            <ChargeCurrencyVariantsPrices
+                              chargeIndex={index}
+                              filterIndex={filterIndex}
+                              formikProps={formikProps}
+                              premiumWarningDialogRef={premiumWarningDialogRef}
+                            />
+                          )}
                         </ChargeWithFiltersWrapper>
                       </Accordion>
                     )
@@ -0,0 +1,117 @@
+import { FormikProps } from 'formik'
+import { memo, RefObject } from 'react'
+
+import { Button, Typography } from '~/components/designSystem'
+import { ChargeWrapperSwitch } from '~/components/plans/ChargeWrapperSwitch'
+import { LocalPropertiesInput, PlanFormInput } from '~/components/plans/types'
+import { PremiumWarningDialogRef } from '~/components/PremiumWarningDialog'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { tw } from '~/styles/utils'
+
+const copyProperties = (properties: LocalPropertiesInput): LocalPropertiesInput => ({
+  ...properties,
+  graduatedRanges: properties.graduatedRanges?.map((range) => ({ ...range })),
+  graduatedPercentageRanges: properties.graduatedPercentageRanges?.map((range) => ({ ...range })),
+  volumeRanges: properties.volumeRanges?.map((range) => ({ ...range })),
+})
+
+interface ChargeCurrencyVariantsPricesProps {
+  chargeIndex: number
+  filterIndex?: number
+  disabled?: boolean
+  formikProps: FormikProps<PlanFormInput>
+  premiumWarningDialogRef?: RefObject<PremiumWarningDialogRef>
+}
+
+/**
+ * Prices of a charge, or of one of its filters, in each currency variant of the plan.
+ * Prices of derived variants are converted on save so only the manual ones can be edited.
+ */
+export const ChargeCurrencyVariantsPrices = memo(
+  ({
+    chargeIndex,
+    filterIndex,
+    disabled,
+    formikProps,
+    premiumWarningDialogRef,
+  }: ChargeCurrencyVariantsPricesProps) => {
+    const { translate } = useInternationalization()
+    const { amountCurrency, currencyVariants } = formikProps.values
+    const localCharge = formikProps.values.charges[chargeIndex]
+    const isFilter = typeof filterIndex === 'number'
+    const target = isFilter ? localCharge.filters?.[filterIndex] : localCharge
+    const propertyCursor = isFilter
+      ? `filters.${filterIndex}.currencyVariantProperties`
+      : 'currencyVariantProperties'
+
+    if (!currencyVariants?.length || !target?.properties) return null
+
+    return (
+      <div className="mx-4 mb-4 flex flex-col gap-4">
+        {currencyVariants.map((currencyVariant, variantIndex) => {
+          const variantProperties =
+            target.currencyVariantProperties?.[currencyVariant.amountCurrency]
+
+          return (
+            <div
+              key={`charge-${chargeIndex}-${filterIndex}-currency-variant-${variantIndex}`}
+              className="flex flex-col rounded-xl border border-grey-300"
+            >
+              <div
+                className={tw('flex items-center justify-between gap-3 px-4 pt-4', {
+                  'pb-4': currencyVariant.isDerived,
+                })}
+              >
+                <Typography variant="captionHl" color="grey700">
+                  {translate('text_17924233244429tns0mc8jx7', {
+                    currency: currencyVariant.amountCurrency,
+                  })}
+                </Typography>
+                {currencyVariant.isDerived && (
+                  <Typography variant="caption" color="grey600">
+                    {translate('text_17924233244448rbgj8elhdg', { currency: amountCurrency })}
+                  </Typography>
+                )}
+              </div>
+
+              {!currencyVariant.isDerived && !!variantProperties && (
+                <ChargeWrapperSwitch
+                  currency={currencyVariant.amountCurrency}
+                  disabled={disabled}
+                  formikProps={formikProps}
+                  chargeIndex={chargeIndex}
+                  filterIndex={filterIndex}
+                  propertyCursor={`${propertyCursor}.${currencyVariant.amountCurrency}`}
+                  premiumWarningDialogRef={premiumWarningDialogRef}
+                  valuePointer={variantProperties}
+                  initialValuePointer={variantProperties}
+                />
+              )}
+
+              {!currencyVariant.isDerived && !variantProperties && (
+                <Button
+                  className="m-4 self-start"
+                  variant="quaternary"
+                  startIcon="plus"
+                  disabled={disabled}
+                  onClick={() => {
+                    formikProps.setFieldValue(
+                      `charges.${chargeIndex}.${propertyCursor}.${currencyVariant.amountCurrency}`,
+                      copyProperties(target.properties as LocalPropertiesInput),
+                    )
+                  }}
+                >
+                  {translate('text_1792423324446o5390pkvjev', {
+                    currency: currencyVariant.amountCurrency,
+                  })}
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    )
+  },
+)
+
+ChargeCurrencyVariantsPrices.displayName = 'ChargeCurrencyVariantsPrices'
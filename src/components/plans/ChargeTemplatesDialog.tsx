@@ -0,0 +1,187 @@
+import { gql } from '@apollo/client'
+import { forwardRef, useImperativeHandle, useRef } from 'react'
+
+import { Button, Dialog, DialogRef, Skeleton, Tooltip, Typography } from '~/components/designSystem'
+import { chargeModelLookupTranslation } from '~/core/constants/form'
+import {
+  BillableMetricForPlanFragmentDoc,
+  ChargeTemplateItemFragment,
+  CustomChargeFragmentDoc,
+  DynamicChargeFragmentDoc,
+  GraduatedChargeFragmentDoc,
+  GraduatedPercentageChargeFragmentDoc,
+  PackageChargeFragmentDoc,
+  PercentageChargeFragmentDoc,
+  StandardChargeFragmentDoc,
+  useGetChargeTemplatesLazyQuery,
+  VolumeRangesFragmentDoc,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment ChargeTemplateItem on ChargeTemplate {
+    id
+    name
+    chargeModel
+    invoiceable
+    prorated
+    properties {
+      ...GraduatedCharge
+      ...GraduatedPercentageCharge
+      ...VolumeRanges
+      ...PackageCharge
+      ...StandardCharge
+      ...PercentageCharge
+      ...CustomCharge
+      ...DynamicCharge
+    }
+    filters {
+      invoiceDisplayName
+      values
+      properties {
+        ...GraduatedCharge
+        ...GraduatedPercentageCharge
+        ...VolumeRanges
+        ...PackageCharge
+        ...StandardCharge
+        ...PercentageCharge
+        ...CustomCharge
+        ...DynamicCharge
+      }
+    }
+    billableMetric {
+      id
+      ...BillableMetricForPlan
+    }
+    plans {
+      id
+      name
+    }
+  }
+
+  query getChargeTemplates($limit: Int) {
+    chargeTemplates(limit: $limit) {
+      collection {
+        id
+        ...ChargeTemplateItem
+      }
+    }
+  }
+
+  ${BillableMetricForPlanFragmentDoc}
+  ${GraduatedChargeFragmentDoc}
+  ${GraduatedPercentageChargeFragmentDoc}
+  ${VolumeRangesFragmentDoc}
+  ${PackageChargeFragmentDoc}
+  ${StandardChargeFragmentDoc}
+  ${PercentageChargeFragmentDoc}
+  ${CustomChargeFragmentDoc}
+  ${DynamicChargeFragmentDoc}
+`
+
+const RESULT_LIMIT = 100
+
+export type ChargeTemplatesDialogRef = DialogRef
+
+interface ChargeTemplatesDialogProps {
+  onSelect: (template: ChargeTemplateItemFragment) => void
+}
+
+export const ChargeTemplatesDialog = forwardRef<
+  ChargeTemplatesDialogRef,
+  ChargeTemplatesDialogProps
+>(({ onSelect }, ref) => {
+  const { translate } = useInternationalization()
+  const dialogRef = useRef<DialogRef>(null)
+  const [getChargeTemplates, { data, loading }] = useGetChargeTemplatesLazyQuery({
+    fetchPolicy: 'network-only',
+    variables: { limit: RESULT_LIMIT },
+  })
+  const chargeTemplates = data?.chargeTemplates.collection || []
+
+  useImperativeHandle(ref, () => ({
+    openDialog: () => {
+      getChargeTemplates()
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_1792422572536hy6hgyrb0vb')}
+      description={translate('text_1792422572538h42dn2k8ewq')}
+      actions={({ closeDialog }) => (
+        <Button variant="quaternary" onClick={closeDialog}>
+          {translate('text_62f50d26c989ab03196884ae')}
+        </Button>
+      )}
+    >
+      <div className="mb-8 flex flex-col">
+        {loading &&
+          [0, 1, 2].map((i) => (
+            <div key={`charge-template-skeleton-${i}`} className="flex flex-col gap-2 py-3">
+              <Skeleton variant="text" className="w-40" />
+              <Skeleton variant="text" className="w-60" />
+            </div>
+          ))}
+
+        {!loading && !chargeTemplates.length && (
+          <Typography variant="body" color="grey600">
+            {translate('text_17924225725418dah5cu80xt')}
+          </Typography>
+        )}
+
+        {!loading &&
+          chargeTemplates.map((chargeTemplate) => (
+            <div
+              key={`charge-template-${chargeTemplate.id}`}
+              className="flex items-center gap-4 py-3 shadow-b"
+            >
+              <div className="flex min-w-0 flex-1 flex-col">
+                <Typography variant="bodyHl" color="grey700" noWrap>
+                  {chargeTemplate.name}
+                </Typography>
+                <Typography variant="caption" noWrap>
+                  {translate('text_17924225725432340ijrm01s', {
+                    billableMetricName: chargeTemplate.billableMetric.name,
+                    billableMetricCode: chargeTemplate.billableMetric.code,
+                    chargeModel: translate(
+                      chargeModelLookupTranslation[chargeTemplate.chargeModel],
+                    ),
+                  })}
+                </Typography>
+              </div>
+              <Tooltip
+                placement="top-end"
+                disableHoverListener={!chargeTemplate.plans.length}
+                title={chargeTemplate.plans.map(({ name }) => name).join(', ')}
+              >
+                <Typography variant="caption" noWrap>
+                  {translate(
+                    'text_179242257254595x3qcvowz4',
+                    { count: chargeTemplate.plans.length },
+                    chargeTemplate.plans.length,
+                  )}
+                </Typography>
+              </Tooltip>
+              <Button
+                variant="secondary"
+                size="small"
+                onClick={() => {
+                  onSelect(chargeTemplate)
+                  dialogRef.current?.closeDialog()
+                }}
+                data-test={`insert-charge-template-${chargeTemplate.id}`}
+              >
+                {translate('text_17924225725470idqqarsz35')}
+              </Button>
+            </div>
+          ))}
+      </div>
+    </Dialog>
+  )
+})
+
+ChargeTemplatesDialog.displayName = 'ChargeTemplatesDialog'
@@ -0,0 +1,51 @@
+import { useMemo } from 'react'
+
+import { Typography } from '~/components/designSystem'
+import TierCurveChart from '~/components/designSystem/graphs/TierCurveChart'
+import { ChargeModelEnum, CurrencyEnum } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { computeTierCurve, TIERED_CHARGE_MODELS, TieredProperties } from './utils'
+
+interface ChargeTierCurveProps {
+  chargeModel: ChargeModelEnum
+  currency: CurrencyEnum
+  properties?: TieredProperties | null
+}
+
+export const ChargeTierCurve = ({ chargeModel, currency, properties }: ChargeTierCurveProps) => {
+  const { translate } = useInternationalization()
+  const data = useMemo(
+    () => computeTierCurve({ chargeModel, properties }),
+    [chargeModel, properties],
+  )
+
+  if (!TIERED_CHARGE_MODELS.includes(chargeModel) || !data.length) return null
+
+  const isUnitPricePercentage = chargeModel === ChargeModelEnum.GraduatedPercentage
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-1">
+        <Typography variant="captionHl" color="grey700">
+          {translate('text_1792421657428ncqe5t20a5w')}
+        </Typography>
+        <Typography variant="caption">{translate('text_1792421657430y8gqkkech4b')}</Typography>
+      </div>
+      <TierCurveChart
+        currency={currency}
+        data={data}
+        isUnitPricePercentage={isUnitPricePercentage}
+        labels={{
+          units: translate('text_1792421663607zy2pescki8w'),
+          unitPrice: translate(
+            isUnitPricePercentage
+              ? 'text_64de472463e2da6b31737de0'
+              : 'text_1792421657432yjjgal9t0rn',
+          ),
+          cumulativeAmount: translate('text_17924216574348h6b9nj3ntx'),
+        }}
+      />
+    </div>
+  )
+}
@@ -2,6 +2,7 @@ import { FormikProps } from 'formik'
 import { memo, RefObject } from 'react'
 
 import { ChargePercentage } from '~/components/plans/ChargePercentage'
+import { ChargeTierCurve } from '~/components/plans/ChargeTierCurve'
 import { CustomCharge } from '~/components/plans/CustomCharge'
 import { DynamicCharge } from '~/components/plans/DynamicCharge'
 import { GraduatedChargeTable } from '~/components/plans/GraduatedChargeTable'
@@ -44,7 +45,7 @@ export const ChargeWrapperSwitch = memo(
     const localCharge = formikProps.values.charges[chargeIndex]
 
     return (
-      <div className="m-4">
+      <div className="m-4 flex flex-col gap-6">
         {localCharge.chargeModel === ChargeModelEnum.Standard ? (
           <StandardCharge
             chargeIndex={chargeIndex}
@@ -120,6 +121,12 @@ export const ChargeWrapperSwitch = memo(
             valuePointer={valuePointer}
           />
         ) : null}
+
+        <ChargeTierCurve
+          chargeModel={localCharge.chargeModel}
+          currency={currency}
+          properties={valuePointer}
+        />
       </div>
     )
   },
@@ -15,8 +15,10 @@ import {
   SEARCH_RECURRING_CHARGE_INPUT_CLASSNAME,
 } from '~/core/constants/form'
 import getPropertyShape from '~/core/serializers/getPropertyShape'
+import { deserializeChargeTemplate } from '~/core/serializers/serializeChargeTemplate'
 import {
   ChargeModelEnum,
+  ChargeTemplateItemFragment,
   CurrencyEnum,
   PlanInterval,
   useGetMeteredBillableMetricsLazyQuery,
@@ -26,11 +28,14 @@ import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { MenuPopper, theme } from '~/styles'
 
 import { ChargeAccordion } from './ChargeAccordion'
+import { ChargeTemplatesDialog, ChargeTemplatesDialogRef } from './ChargeTemplatesDialog'
 import {
   RemoveChargeWarningDialog,
   RemoveChargeWarningDialogRef,
 } from './RemoveChargeWarningDialog'
+import { SaveChargeTemplateDialog, SaveChargeTemplateDialogRef } from './SaveChargeTemplateDialog'
 import { LocalChargeInput, PlanFormInput } from './types'
+import { getChargeAccordionId } from './utils'
 
 const RESULT_LIMIT = 50
 
@@ -83,8 +88,6 @@ interface ChargesSectionProps {
   subscriptionFormType?: keyof typeof FORM_TYPE_ENUM
 }
 
-const getNewChargeId = (id: string, index: number) => `plan-charge-${id}-${index}`
-
 export const ChargesSection = memo(
   ({
     alreadyExistingCharges,
@@ -103,6 +106,8 @@ export const ChargesSection = memo(
     const [showAddRecurringCharge, setShowAddRecurringCharge] = useState(false)
     const newChargeId = useRef<string | null>(null)
     const removeChargeWarningDialogRef = useRef<RemoveChargeWarningDialogRef>(null)
+    const chargeTemplatesDialogRef = useRef<ChargeTemplatesDialogRef>(null)
+    const saveChargeTemplateDialogRef = useRef<SaveChargeTemplateDialogRef>(null)
     const [alreadyUsedBmsIds, setAlreadyUsedBmsIds] = useState<Map<string, number>>(new Map())
     const hasAnyMeteredCharge = useMemo(
       () => formikProps.values.charges.some((c) => !c.billableMetric.recurring),
@@ -213,6 +218,20 @@ export const ChargesSection = memo(
       // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [formikProps.values.charges.length])
 
+    const insertChargeTemplate = (chargeTemplate: ChargeTemplateItemFragment) => {
+      const previousCharges = [...formikProps.values.charges]
+      const newCharge = deserializeChargeTemplate(chargeTemplate)
+      // Recurring charges are listed after the metered ones
+      const newChargeIndex = newCharge.billableMetric.recurring
+        ? previousCharges.length
+        : previousCharges.findLastIndex((c) => c.billableMetric.recurring === false) + 1
+
+      previousCharges.splice(newChargeIndex, 0, newCharge)
+
+      formikProps.setFieldValue('charges', previousCharges)
+      newChargeId.current = getChargeAccordionId(newCharge.billableMetric.id, newChargeIndex)
+    }
+
     if (!hasAnyCharge && isInSubscriptionForm) {
       return null
     }
@@ -290,6 +309,17 @@ export const ChargesSection = memo(
                     >
                       {translate('text_64d27120a3d1e300b35d0fcc')}
                     </Button>
+                    <Button
+                      variant="quaternary"
+                      startIcon="book"
+                      data-test="add-charge-from-template"
+                      onClick={() => {
+                        chargeTemplatesDialogRef.current?.openDialog()
+                        closePopper()
+                      }}
+                    >
+                      {translate('text_1792422572549vg4aqbohu0g')}
+                    </Button>
                   </MenuPopper>
                 )}
               </Popper>
@@ -324,7 +354,7 @@ export const ChargesSection = memo(
                     // Prevent displaying recurring charges
                     if (charge.billableMetric.recurring) return
 
-                    const id = getNewChargeId(charge.billableMetric.id, i)
+                    const id = getChargeAccordionId(charge.billableMetric.id, i)
                     const isNew = !alreadyExistingCharges?.find(
                       (chargeFetched) => chargeFetched?.id === charge.id,
                     )
@@ -340,6 +370,7 @@ export const ChargesSection = memo(
                         subscriptionFormType={subscriptionFormType}
                         shouldDisplayAlreadyUsedChargeAlert={shouldDisplayAlreadyUsedChargeAlert}
                         removeChargeWarningDialogRef={removeChargeWarningDialogRef}
+                        saveChargeTemplateDialogRef={saveChargeTemplateDialogRef}
                         premiumWarningDialogRef={premiumWarningDialogRef}
                         editInvoiceDisplayNameRef={editInvoiceDisplayNameRef}
                         isUsedInSubscription={!isNew && !canBeEdited}
@@ -363,7 +394,7 @@ export const ChargesSection = memo(
                     emptyText={translate('text_6246b6bc6b25f500b779aa7a')}
                     onChange={(newCharge) => {
                       const previousCharges = [...formikProps.values.charges]
-                      const newId = getNewChargeId(newCharge, previousCharges.length)
+                      const newId = getChargeAccordionId(newCharge, previousCharges.length)
                       const localBillableMetrics =
                         meteredBillableMetricsData?.billableMetrics?.collection.find(
                           (bm) => bm.id === newCharge,
@@ -440,7 +471,7 @@ export const ChargesSection = memo(
                     // Prevent displaying metered charges
                     if (!charge.billableMetric.recurring) return
 
-                    const id = getNewChargeId(charge.billableMetric.id, i)
+                    const id = getChargeAccordionId(charge.billableMetric.id, i)
                     const isNew = !alreadyExistingCharges?.find(
                       (chargeFetched) => chargeFetched?.id === charge.id,
                     )
@@ -456,6 +487,7 @@ export const ChargesSection = memo(
                         subscriptionFormType={subscriptionFormType}
                         shouldDisplayAlreadyUsedChargeAlert={shouldDisplayAlreadyUsedChargeAlert}
                         removeChargeWarningDialogRef={removeChargeWarningDialogRef}
+                        saveChargeTemplateDialogRef={saveChargeTemplateDialogRef}
                         premiumWarningDialogRef={premiumWarningDialogRef}
                         editInvoiceDisplayNameRef={editInvoiceDisplayNameRef}
                         isUsedInSubscription={!isNew && !canBeEdited}
@@ -479,7 +511,7 @@ export const ChargesSection = memo(
                     emptyText={translate('text_6246b6bc6b25f500b779aa7a')}
                     onChange={(newCharge) => {
                       const previousCharges = [...formikProps.values.charges]
-                      const newId = getNewChargeId(newCharge, previousCharges.length)
+                      const newId = getChargeAccordionId(newCharge, previousCharges.length)
                       const localBillableMetrics =
                         recurringBillableMetricsData?.billableMetrics?.collection.find(
                           (bm) => bm.id === newCharge,
@@ -537,6 +569,8 @@ export const ChargesSection = memo(
         </Card>
 
         <RemoveChargeWarningDialog ref={removeChargeWarningDialogRef} formikProps={formikProps} />
+        <ChargeTemplatesDialog ref={chargeTemplatesDialogRef} onSelect={insertChargeTemplate} />
+        <SaveChargeTemplateDialog ref={saveChargeTemplateDialogRef} />
       </>
     )
   },
@@ -0,0 +1,229 @@
+import { gql } from '@apollo/client'
+import { InputAdornment } from '@mui/material'
+import { FormikProps } from 'formik'
+import { memo } from 'react'
+
+import { Button, Card, Tooltip, Typography } from '~/components/designSystem'
+import { ButtonSelector, ComboBox, ComboBoxField, TextInputField } from '~/components/form'
+import {
+  CurrencyEnum,
+  CustomChargeFragmentDoc,
+  DynamicChargeFragmentDoc,
+  GraduatedChargeFragmentDoc,
+  GraduatedPercentageChargeFragmentDoc,
+  PackageChargeFragmentDoc,
+  PercentageChargeFragmentDoc,
+  PriceRoundingRuleEnum,
+  StandardChargeFragmentDoc,
+  VolumeRangesFragmentDoc,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { LocalPlanCurrencyVariantInput, PlanFormInput } from './types'
+import { omitCurrencyVariantProperties } from './utils'
+
+gql`
+  fragment PlanForCurrencyVariantsSection on Plan {
+    id
+    currencyVariants {
+      id
+      amountCents
+      amountCurrency
+      currencyVariantExchangeRate
+      currencyVariantRoundingRule
+      charges {
+        id
+        properties {
+          ...GraduatedCharge
+          ...GraduatedPercentageCharge
+          ...VolumeRanges
+          ...PackageCharge
+          ...StandardCharge
+          ...PercentageCharge
+          ...CustomCharge
+          ...DynamicCharge
+        }
+        filters {
+          properties {
+            ...GraduatedCharge
+            ...GraduatedPercentageCharge
+            ...VolumeRanges
+            ...PackageCharge
+            ...StandardCharge
+            ...PercentageCharge
+            ...CustomCharge
+            ...DynamicCharge
+          }
+        }
+      }
+    }
+  }
+
+  ${GraduatedChargeFragmentDoc}
+  ${GraduatedPercentageChargeFragmentDoc}
+  ${VolumeRangesFragmentDoc}
+  ${PackageChargeFragmentDoc}
+  ${StandardChargeFragmentDoc}
+  ${PercentageChargeFragmentDoc}
+  ${CustomChargeFragmentDoc}
+  ${DynamicChargeFragmentDoc}
+`
+
+const roundingRuleTranslationLookup: Record<PriceRoundingRuleEnum, string> = {
+  [PriceRoundingRuleEnum.CurrencyPrecision]: 'text_1792423324404nus73dmq7y8',
+  [PriceRoundingRuleEnum.WholeUnit]: 'text_1792423324406j6deelb1q86',
+  [PriceRoundingRuleEnum.None]: 'text_1792423324408xnrpv8hdfzl',
+}
+
+interface CurrencyVariantsSectionProps {
+  formikProps: FormikProps<PlanFormInput>
+}
+
+export const CurrencyVariantsSection = memo(({ formikProps }: CurrencyVariantsSectionProps) => {
+  const { translate } = useInternationalization()
+  const { amountCurrency, currencyVariants = [] } = formikProps.values
+  const usedCurrencies = [
+    amountCurrency,
+    ...currencyVariants.map((variant) => variant.amountCurrency),
+  ]
+  const availableCurrencies = Object.values(CurrencyEnum).filter(
+    (currency) => !usedCurrencies.includes(currency),
+  )
+
+  const updateCurrencyVariant = (
+    variantIndex: number,
+    values: Partial<LocalPlanCurrencyVariantInput>,
+  ) => {
+    formikProps.setFieldValue(`currencyVariants.${variantIndex}`, {
+      ...currencyVariants[variantIndex],
+      ...values,
+    })
+  }
+
+  return (
+    <Card>
+      <div className="flex flex-col gap-2">
+        <Typography variant="subhead">{translate('text_17924233244119j5443324km')}</Typography>
+        <Typography variant="caption">
+          {translate('text_1792423324413spp5tcitzha', { currency: amountCurrency })}
+        </Typography>
+      </div>
+
+      {currencyVariants.map((currencyVariant, variantIndex) => (
+        <div
+          key={`currency-variant-${variantIndex}`}
+          className="flex flex-col gap-6 rounded-xl border border-grey-400 p-4"
+          data-test={`currency-variant-${variantIndex}`}
+        >
+          <div className="flex items-end gap-3">
+            <ComboBox
+              className="flex-1"
+              name={`currencyVariants.${variantIndex}.amountCurrency`}
+              label={translate('text_17924233244157e002ra0s24')}
+              value={currencyVariant.amountCurrency}
+              data={Object.values(CurrencyEnum).map((currency) => ({
+                value: currency,
+                disabled:
+                  currency !== currencyVariant.amountCurrency && usedCurrencies.includes(currency),
+              }))}
+              // The currency of an existing variant cannot be changed, remove it instead
+              disabled={!!currencyVariant.id}
+              disableClearable
+              onChange={(value) => {
+                if (!value || value === currencyVariant.amountCurrency) return
+
+                // Prices entered by hand were expressed in the previous currency
+                formikProps.setFieldValue(
+                  'charges',
+                  omitCurrencyVariantProperties(
+                    formikProps.values.charges,
+                    currencyVariant.amountCurrency,
+                  ),
+                )
+                updateCurrencyVariant(variantIndex, { amountCurrency: value as CurrencyEnum })
+              }}
+            />
+            <Tooltip placement="top-end" title={translate('text_1792423324417nj71byl6qhq')}>
+              <Button
+                icon="trash"
+                variant="quaternary"
+                onClick={() => {
+                  formikProps.setFieldValue(
+                    'currencyVariants',
+                    currencyVariants.filter((_, i) => i !== variantIndex),
+                  )
+                }}
+              />
+            </Tooltip>
+          </div>
+
+          <ButtonSelector
+            label={translate('text_1792423324419es5zndmyr5b')}
+            value={currencyVariant.isDerived}
+            onChange={(value) => updateCurrencyVariant(variantIndex, { isDerived: !!value })}
+            options={[
+              { label: translate('text_1792423324421yr6rodf4ib1'), value: true },
+              { label: translate('text_1792423324423llfp7wnj9nt'), value: false },
+            ]}
+          />
+
+          {currencyVariant.isDerived && (
+            <div className="flex items-start gap-3">
+              <TextInputField
+                className="flex-1"
+                name={`currencyVariants.${variantIndex}.exchangeRate`}
+                label={translate('text_1792423324426kh72lb3ov85')}
+                helperText={translate('text_1792423324428b6a40l6ncl7', {
+                  currency: amountCurrency,
+                  variantCurrency: currencyVariant.amountCurrency,
+                  rate: currencyVariant.exchangeRate || '-',
+                })}
+                beforeChangeFormatter={['positiveNumber']}
+                formikProps={formikProps}
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">{currencyVariant.amountCurrency}</InputAdornment>
+                  ),
+                }}
+              />
+              <ComboBoxField
+                className="flex-1"
+                name={`currencyVariants.${variantIndex}.roundingRule`}
+                label={translate('text_1792423324430tkgmvt3anm7')}
+                data={Object.values(PriceRoundingRuleEnum).map((roundingRule) => ({
+                  label: translate(roundingRuleTranslationLookup[roundingRule]),
+                  value: roundingRule,
+                }))}
+                disableClearable
+                formikProps={formikProps}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <Button
+        className="self-start"
+        startIcon="plus"
+        variant="quaternary"
+        disabled={!availableCurrencies.length}
+        onClick={() => {
+          formikProps.setFieldValue('currencyVariants', [
+            ...currencyVariants,
+            {
+              amountCurrency: availableCurrencies[0],
+              isDerived: true,
+              exchangeRate: '',
+              roundingRule: PriceRoundingRuleEnum.CurrencyPrecision,
+            },
+          ])
+        }}
+        data-test="add-currency-variant"
+      >
+        {translate('text_179242332443254zq8x2eumo')}
+      </Button>
+    </Card>
+  )
+})
+
+CurrencyVariantsSection.displayName = 'CurrencyVariantsSection'
@@ -14,6 +14,7 @@ import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { NAV_HEIGHT, theme } from '~/styles'
 
 import { PlanFormInput } from './types'
+import { getCurrencyVariantAmountCents } from './utils'
 
 gql`
   fragment PlanForFixedFeeSection on Plan {
@@ -139,6 +140,51 @@ export const FixedFeeSection = memo(
               }}
             />
 
+            {!isInSubscriptionForm && !!formikProps.values.currencyVariants?.length && (
+              <div className="flex flex-col gap-4">
+                {formikProps.values.currencyVariants.map((currencyVariant, variantIndex) =>
+                  currencyVariant.isDerived ? (
+                    <Typography
+                      key={`currency-variant-amount-${variantIndex}`}
+                      variant="caption"
+                      color="grey600"
+                    >
+                      {translate('text_1792423324438bl4ab19a7zz', {
+                        amount: intlFormatNumber(
+                          Number(
+                            getCurrencyVariantAmountCents(
+                              formikProps.values.amountCents,
+                              currencyVariant,
+                            ) || 0,
+                          ),
+                          { currency: currencyVariant.amountCurrency },
+                        ),
+                        currency: currencyVariant.amountCurrency,
+                      })}
+                    </Typography>
+                  ) : (
+                    <AmountInputField
+                      key={`currency-variant-amount-${variantIndex}`}
+                      name={`currencyVariants.${variantIndex}.amountCents`}
+                      currency={currencyVariant.amountCurrency}
+                      beforeChangeFormatter={['positiveNumber']}
+                      label={translate('text_17924233244400y1efb7vkln', {
+                        currency: currencyVariant.amountCurrency,
+                      })}
+                      formikProps={formikProps}
+                      InputProps={{
+                        endAdornment: (
+                          <InputAdornment position="end">
+                            {getCurrencySymbol(currencyVariant.amountCurrency)}
+                          </InputAdornment>
+                        ),
+                      }}
+                    />
+                  ),
+                )}
+              </div>
+            )}
+
             <RadioGroupField
               name="payInAdvance"
               label={translate('text_6682c52081acea90520743a8')}
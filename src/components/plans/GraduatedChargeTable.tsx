@@ -1,7 +1,7 @@
 import { gql } from '@apollo/client'
 import { InputAdornment } from '@mui/material'
 import { FormikProps } from 'formik'
-import { memo, useState } from 'react'
+import { ClipboardEvent, memo, useRef, useState } from 'react'
 import styled from 'styled-components'
 
 import { Alert, Button, ChargeTable, Tooltip, Typography } from '~/components/designSystem'
@@ -13,7 +13,9 @@ import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { useGraduatedChargeForm } from '~/hooks/plans/useGraduatedChargeForm'
 import { theme } from '~/styles'
 
+import { PasteChargeTiersDialog, PasteChargeTiersDialogRef } from './PasteChargeTiersDialog'
 import { LocalChargeFilterInput, LocalPropertiesInput, PlanFormInput } from './types'
+import { getInvalidTierRangeIndex, parsePastedTiers } from './utils'
 
 gql`
   fragment GraduatedCharge on Properties {
@@ -26,6 +28,8 @@ gql`
   }
 `
 
+const PASTED_TIER_AMOUNT_FIELDS = ['perUnitAmount', 'flatAmount']
+
 interface GraduatedChargeTableProps {
   chargeIndex: number
   currency: CurrencyEnum
@@ -46,7 +50,8 @@ export const GraduatedChargeTable = memo(
   }: GraduatedChargeTableProps) => {
     const { translate } = useInternationalization()
     const [errorIndex, setErrorIndex] = useState<number | undefined>()
-    const { tableDatas, addRange, handleUpdate, deleteRange, infosCalculation } =
+    const pasteTiersDialogRef = useRef<PasteChargeTiersDialogRef>(null)
+    const { tableDatas, addRange, replaceRanges, handleUpdate, deleteRange, infosCalculation } =
       useGraduatedChargeForm({
         chargeIndex,
         disabled,
@@ -55,19 +60,47 @@ export const GraduatedChargeTable = memo(
         valuePointer,
       })
 
+    const pasteTiers = (content: string) => {
+      const { ranges } = parsePastedTiers(content, PASTED_TIER_AMOUNT_FIELDS)
+
+      replaceRanges(ranges)
+      // Overlapping tiers are flagged like a bound typed by hand
+      setErrorIndex(getInvalidTierRangeIndex(ranges))
+    }
+
+    const onTablePaste = (event: ClipboardEvent<HTMLDivElement>) => {
+      const content = event.clipboardData.getData('text')
+
+      // A single value pasted in a cell keeps the default input behavior
+      if (disabled || !content.trim().includes('\n')) return
+
+      event.preventDefault()
+      pasteTiersDialogRef.current?.openDialog(content)
+    }
+
     return (
       <Container>
-        <Button
-          className="mb-2 ml-auto"
-          startIcon="plus"
-          variant="quaternary"
-          onClick={addRange}
-          disabled={disabled}
-          data-test="add-tier"
-        >
-          {translate('text_62793bbb599f1c01522e91a5')}
-        </Button>
-        <TableContainer>
+        <div className="mb-2 ml-auto flex gap-2">
+          <Button
+            startIcon="table"
+            variant="quaternary"
+            onClick={() => pasteTiersDialogRef.current?.openDialog()}
+            disabled={disabled}
+            data-test="paste-tiers"
+          >
+            {translate('text_1792421371121a5mztudycl7')}
+          </Button>
+          <Button
+            startIcon="plus"
+            variant="quaternary"
+            onClick={addRange}
+            disabled={disabled}
+            data-test="add-tier"
+          >
+            {translate('text_62793bbb599f1c01522e91a5')}
+          </Button>
+        </div>
+        <TableContainer onPaste={onTablePaste}>
           <ChargeTable
             name="graduated-charge-table"
             data={tableDatas}
@@ -294,6 +327,16 @@ export const GraduatedChargeTable = memo(
             })}
           </>
         </Alert>
+
+        <PasteChargeTiersDialog
+          ref={pasteTiersDialogRef}
+          amountFields={PASTED_TIER_AMOUNT_FIELDS}
+          columnLabels={[
+            translate('text_1792421371143l0ac655p4hj'),
+            translate('text_17924213711454dlml6rbqf4'),
+          ]}
+          onSubmit={pasteTiers}
+        />
       </Container>
     )
   },
@@ -0,0 +1,249 @@
+import { gql, useApolloClient } from '@apollo/client'
+import { ChangeEvent, forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { ValidationError } from 'yup'
+
+import { Alert, Button, Dialog, DialogRef, Typography } from '~/components/designSystem'
+import { PlanFormInput } from '~/components/plans/types'
+import { resetDuplicatePlanVar, updateImportedPlanVar } from '~/core/apolloClient'
+import { CREATE_PLAN_ROUTE } from '~/core/router'
+import {
+  deserializePlanExport,
+  getPlanExportCodes,
+  parsePlanExport,
+} from '~/core/serializers/serializePlanExport'
+import { chargeSchema } from '~/formValidation/chargeSchema'
+import {
+  BillableMetricForPlanFragmentDoc,
+  GetBillableMetricsForPlanImportDocument,
+  GetBillableMetricsForPlanImportQuery,
+  GetBillableMetricsForPlanImportQueryVariables,
+  GetTaxesForPlanImportDocument,
+  GetTaxesForPlanImportQuery,
+  GetTaxesForPlanImportQueryVariables,
+  TaxForPlanAndChargesInPlanFormFragmentDoc,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  query getBillableMetricsForPlanImport($searchTerm: String, $limit: Int) {
+    billableMetrics(searchTerm: $searchTerm, limit: $limit) {
+      collection {
+        id
+        ...BillableMetricForPlan
+      }
+    }
+  }
+
+  query getTaxesForPlanImport($searchTerm: String, $limit: Int) {
+    taxes(searchTerm: $searchTerm, limit: $limit) {
+      collection {
+        id
+        ...TaxForPlanAndChargesInPlanForm
+      }
+    }
+  }
+
+  ${BillableMetricForPlanFragmentDoc}
+  ${TaxForPlanAndChargesInPlanFormFragmentDoc}
+`
+
+// Codes are looked up through the search, which also matches names, so a few results are needed
+const CODE_SEARCH_LIMIT = 20
+
+export type ImportPlanDialogRef = DialogRef
+
+export const ImportPlanDialog = forwardRef<ImportPlanDialogRef>((_, ref) => {
+  const { translate } = useInternationalization()
+  const navigate = useNavigate()
+  const client = useApolloClient()
+  const dialogRef = useRef<DialogRef>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string>()
+  const [isLoading, setIsLoading] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [planValues, setPlanValues] = useState<PlanFormInput>()
+
+  const reset = () => {
+    setFileName(undefined)
+    setErrors([])
+    setPlanValues(undefined)
+  }
+
+  useImperativeHandle(ref, () => ({
+    openDialog: () => {
+      reset()
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  const importFile = async (content: string) => {
+    let planExport
+
+    try {
+      planExport = parsePlanExport(content)
+    } catch {
+      return setErrors([translate('text_17924209667138vs6ake2633')])
+    }
+
+    const { billableMetricCodes, taxCodes } = getPlanExportCodes(planExport)
+    const [billableMetricsResults, taxesResults] = await Promise.all([
+      Promise.all(
+        billableMetricCodes.map((code) =>
+          client.query<
+            GetBillableMetricsForPlanImportQuery,
+            GetBillableMetricsForPlanImportQueryVariables
+          >({
+            query: GetBillableMetricsForPlanImportDocument,
+            variables: { searchTerm: code, limit: CODE_SEARCH_LIMIT },
+          }),
+        ),
+      ),
+      Promise.all(
+        taxCodes.map((code) =>
+          client.query<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>({
+            query: GetTaxesForPlanImportDocument,
+            variables: { searchTerm: code, limit: CODE_SEARCH_LIMIT },
+          }),
+        ),
+      ),
+    ])
+    const billableMetrics = billableMetricsResults
+      .flatMap(({ data }) => data.billableMetrics.collection)
+      .filter(({ code }) => billableMetricCodes.includes(code))
+    const taxes = taxesResults
+      .flatMap(({ data }) => data.taxes.collection)
+      .filter(({ code }) => taxCodes.includes(code))
+    const missingBillableMetricCodes = billableMetricCodes.filter(
+      (code) => !billableMetrics.some((billableMetric) => billableMetric.code === code),
+    )
+    const missingTaxCodes = taxCodes.filter((code) => !taxes.some((tax) => tax.code === code))
+
+    if (missingBillableMetricCodes.length || missingTaxCodes.length) {
+      return setErrors([
+        ...(missingBillableMetricCodes.length
+          ? [
+              translate('text_179242096671587n58us3wjo', {
+                codes: missingBillableMetricCodes.join(', '),
+              }),
+            ]
+          : []),
+        ...(missingTaxCodes.length
+          ? [translate('text_179242096671700v2rgh2mq1', { codes: missingTaxCodes.join(', ') })]
+          : []),
+      ])
+    }
+
+    const values = deserializePlanExport(planExport, { billableMetrics, taxes })
+
+    try {
+      await chargeSchema.validate(values.charges, { abortEarly: false })
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error
+
+      // Error paths start with the index of the invalid charge, ie: "[2].properties.amount"
+      const invalidChargeCodes = new Set(
+        error.inner.map(({ path }) => {
+          const chargeIndex = Number(path?.match(/^\[(\d+)\]/)?.[1])
+
+          return values.charges[chargeIndex]?.billableMetric.code
+        }),
+      )
+
+      return setErrors(
+        Array.from(invalidChargeCodes).map((code) =>
+          translate('text_1792420966720twz54ig04j8', { code }),
+        ),
+      )
+    }
+
+    setPlanValues(values)
+  }
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+
+    // Allow selecting the same file again after fixing it
+    event.target.value = ''
+
+    if (!file) return
+
+    reset()
+    setFileName(file.name)
+    setIsLoading(true)
+
+    try {
+      await importFile(await file.text())
+    } catch {
+      setErrors([translate('text_1792431621729lg53t5kx39o')])
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_1792420966707f5b3eni5hd9')}
+      description={translate('text_1792420966709l89fumsr0eq')}
+      actions={({ closeDialog }) => (
+        <>
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_6271200984178801ba8bdf4a')}
+          </Button>
+          <Button
+            disabled={!planValues}
+            onClick={() => {
+              resetDuplicatePlanVar()
+              updateImportedPlanVar({ values: planValues })
+              closeDialog()
+              navigate(CREATE_PLAN_ROUTE)
+            }}
+          >
+            {translate('text_1792420966722i6gyerk344d')}
+          </Button>
+        </>
+      )}
+    >
+      <div className="mb-8 flex flex-col gap-4">
+        <input
+          ref={fileInputRef}
+          hidden
+          type="file"
+          accept=".json,.yaml,.yml,application/json,application/yaml"
+          onChange={onFileChange}
+        />
+        <div className="flex items-center gap-3">
+          <Button
+            variant="secondary"
+            startIcon="paperclip"
+            loading={isLoading}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            {translate('text_1792420966711sto1xzik26z')}
+          </Button>
+          {!!fileName && (
+            <Typography variant="body" color="grey700" noWrap>
+              {fileName}
+            </Typography>
+          )}
+        </div>
+
+        {!!errors.length && (
+          <Alert type="danger">
+            <div className="flex flex-col gap-1">
+              {errors.map((error) => (
+                <Typography key={error} variant="body" color="grey700">
+                  {error}
+                </Typography>
+              ))}
+            </div>
+          </Alert>
+        )}
+      </div>
+    </Dialog>
+  )
+})
+
+ImportPlanDialog.displayName = 'ImportPlanDialog'
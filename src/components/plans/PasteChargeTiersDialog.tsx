@@ -0,0 +1,98 @@
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react'
+
+import { Alert, Button, Dialog, DialogRef, Typography } from '~/components/designSystem'
+import { TextInput } from '~/components/form'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { parsePastedTiers } from './utils'
+
+export type PasteChargeTiersDialogRef = {
+  openDialog: (content?: string) => void
+  closeDialog: () => void
+}
+
+interface PasteChargeTiersDialogProps {
+  // Amount columns expected after the "from" and "to" bounds, in the pasted order
+  amountFields: string[]
+  columnLabels: string[]
+  onSubmit: (content: string) => void
+}
+
+export const PasteChargeTiersDialog = forwardRef<
+  PasteChargeTiersDialogRef,
+  PasteChargeTiersDialogProps
+>(({ amountFields, columnLabels, onSubmit }, ref) => {
+  const { translate } = useInternationalization()
+  const dialogRef = useRef<DialogRef>(null)
+  const [content, setContent] = useState('')
+  const { ranges, invalidLines } = useMemo(
+    () => parsePastedTiers(content, amountFields),
+    [content, amountFields],
+  )
+
+  useImperativeHandle(ref, () => ({
+    openDialog: (pastedContent) => {
+      setContent(pastedContent || '')
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_1792421371121a5mztudycl7')}
+      description={translate('text_1792421371125ntnxsvl9mq3', {
+        columns: [
+          translate('text_17924213711389i1hbr5a7mk'),
+          translate('text_1792421371141kktb2p1gywl'),
+          ...columnLabels,
+        ].join(', '),
+      })}
+      actions={({ closeDialog }) => (
+        <>
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_6271200984178801ba8bdf4a')}
+          </Button>
+          <Button
+            disabled={!ranges.length || !!invalidLines.length}
+            onClick={() => {
+              onSubmit(content)
+              closeDialog()
+            }}
+          >
+            {translate('text_17924213711362ntegxnuwd6')}
+          </Button>
+        </>
+      )}
+    >
+      <div className="mb-8 flex flex-col gap-4">
+        <TextInput
+          // eslint-disable-next-line jsx-a11y/no-autofocus
+          autoFocus
+          multiline
+          name="pastedTiers"
+          rows="8"
+          maxRows={16}
+          label={translate('text_1792421371128f98wg3x2b82')}
+          placeholder={`0\t100\t${amountFields.map(() => '0').join('\t')}`}
+          helperText={translate('text_1792421371130fgxculy8rfz')}
+          value={content}
+          onChange={setContent}
+        />
+
+        {!!invalidLines.length ? (
+          <Alert type="danger">
+            {translate('text_1792421371134uo81qz40xm9', { lines: invalidLines.join(', ') })}
+          </Alert>
+        ) : (
+          <Typography variant="caption">
+            {translate('text_1792421371132xlp9myn1flx', { count: ranges.length }, ranges.length)}
+          </Typography>
+        )}
+      </div>
+    </Dialog>
+  )
+})
+
+PasteChargeTiersDialog.displayName = 'PasteChargeTiersDialog'
@@ -29,10 +29,18 @@ const getSnippets = (plan?: PlanFormInput) => {
 }
 
 interface PlanCodeSnippetProps {
+  displayHead?: boolean
   loading?: boolean
   plan?: PlanFormInput
 }
 
-export const PlanCodeSnippet = ({ plan, loading }: PlanCodeSnippetProps) => {
-  return <CodeSnippet loading={loading} language="bash" code={getSnippets(plan)} />
+export const PlanCodeSnippet = ({ displayHead, loading, plan }: PlanCodeSnippetProps) => {
+  return (
+    <CodeSnippet
+      displayHead={displayHead}
+      loading={loading}
+      language="bash"
+      code={getSnippets(plan)}
+    />
+  )
 }
@@ -0,0 +1,146 @@
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+
+import { Button, Drawer, DrawerRef, Icon, Typography } from '~/components/designSystem'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { LocalChargeInput } from './types'
+import { getChargeAccordionId, PlanLintRuleEnum, PlanLintWarning } from './utils'
+
+const MUI_ACCORDION_SUMMARY_CLASSNAME = 'MuiAccordionSummary-root'
+
+const planLintRuleTranslationLookup: Record<PlanLintRuleEnum, string> = {
+  [PlanLintRuleEnum.PayInAdvanceNotSupported]: 'text_1792422245393c8disdp4w1q',
+  [PlanLintRuleEnum.FreeUnitsCoverFirstPackage]: 'text_17924222453955d5y5ntctyb',
+  [PlanLintRuleEnum.DuplicatedFilter]: 'text_1792422245397pcen2z7o82j',
+  [PlanLintRuleEnum.FreePercentageTransactions]: 'text_17924222454000pdy8opaqh0',
+  [PlanLintRuleEnum.UsageThresholdBelowFixedFee]: 'text_1792422245402rru155xf6y8',
+  [PlanLintRuleEnum.MinimumCommitmentBelowFixedFee]: 'text_1792422245404kzcayuk6txv',
+}
+
+type PlanLintWarningsDrawerOpenParams = {
+  warnings: PlanLintWarning[]
+  charges: LocalChargeInput[]
+  onSave: () => Promise<unknown> | void
+}
+
+export interface PlanLintWarningsDrawerRef {
+  openDrawer: (params: PlanLintWarningsDrawerOpenParams) => void
+  closeDrawer: () => void
+}
+
+export const PlanLintWarningsDrawer = forwardRef<PlanLintWarningsDrawerRef>((_props, ref) => {
+  const { translate } = useInternationalization()
+  const drawerRef = useRef<DrawerRef>(null)
+  const [localData, setLocalData] = useState<PlanLintWarningsDrawerOpenParams>()
+
+  useImperativeHandle(ref, () => ({
+    openDrawer: (params) => {
+      setLocalData(params)
+      drawerRef.current?.openDrawer()
+    },
+    closeDrawer: () => drawerRef.current?.closeDrawer(),
+  }))
+
+  const goToCharge = (chargeIndex: number) => {
+    const charge = localData?.charges[chargeIndex]
+
+    if (!charge) return
+
+    drawerRef.current?.closeDrawer()
+
+    // Wait for the drawer to be closed so the page can be scrolled
+    setTimeout(() => {
+      const element = document.getElementById(
+        getChargeAccordionId(charge.billableMetric.id, chargeIndex),
+      )
+
+      if (!element) return
+
+      const summary = element.querySelector(
+        `.${MUI_ACCORDION_SUMMARY_CLASSNAME}`,
+      ) as HTMLElement | null
+
+      if (summary?.getAttribute('aria-expanded') === 'false') summary.click()
+
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }, 0)
+  }
+
+  return (
+    <Drawer
+      ref={drawerRef}
+      title={translate('text_17924222454061uaolmvv7vh')}
+      stickyBottomBar={({ closeDrawer }) => (
+        <div className="flex justify-end gap-3">
+          <Button size="large" variant="quaternary" onClick={closeDrawer}>
+            {translate('text_1792422245408r3ng3qc30dj')}
+          </Button>
+          <Button
+            size="large"
+            onClick={async () => {
+              closeDrawer()
+              await localData?.onSave()
+            }}
+            data-test="plan-lint-save-anyway"
+          >
+            {translate('text_17924222454106fhakf2ikxo')}
+          </Button>
+        </div>
+      )}
+    >
+      <div className="flex flex-col gap-8">
+        <div className="flex flex-col gap-1">
+          <Typography variant="headline">
+            {translate(
+              'text_1792422245412aqb42g8f0zu',
+              { count: localData?.warnings.length || 0 },
+              localData?.warnings.length || 0,
+            )}
+          </Typography>
+          <Typography variant="body">{translate('text_179242224541582pyxgkscyh')}</Typography>
+        </div>
+
+        <div className="flex flex-col">
+          {localData?.warnings.map(({ rule, chargeIndex, filterIndex }, i) => {
+            const charge = chargeIndex !== undefined ? localData.charges[chargeIndex] : undefined
+            const filter = filterIndex !== undefined ? charge?.filters?.[filterIndex] : undefined
+            const chargeLabel = [
+              charge?.invoiceDisplayName || charge?.billableMetric.name,
+              filter &&
+                (filter.invoiceDisplayName ||
+                  translate('text_1792422245417tt20b50ytc5', { index: (filterIndex || 0) + 1 })),
+            ]
+              .filter(Boolean)
+              .join(' • ')
+
+            return (
+              <div
+                key={`plan-lint-warning-${rule}-${chargeIndex}-${filterIndex}-${i}`}
+                className="flex items-start gap-3 py-4 shadow-b"
+              >
+                <Icon name="warning-unfilled" color="warning" className="mt-1" />
+                <div className="flex flex-1 flex-col gap-1">
+                  {!!charge && (
+                    <Typography variant="captionHl" color="grey700">
+                      {chargeLabel}
+                    </Typography>
+                  )}
+                  <Typography variant="body" color="grey700">
+                    {translate(planLintRuleTranslationLookup[rule])}
+                  </Typography>
+                </div>
+                {chargeIndex !== undefined && (
+                  <Button variant="quaternary" size="small" onClick={() => goToCharge(chargeIndex)}>
+                    {translate('text_1792422245419awlw5uge1kx')}
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </Drawer>
+  )
+})
+
+PlanLintWarningsDrawer.displayName = 'PlanLintWarningsDrawer'
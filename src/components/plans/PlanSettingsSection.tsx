@@ -219,6 +219,10 @@ export const PlanSettingsSection = memo(
         <ComboBoxField
           data={Object.values(CurrencyEnum).map((currencyType) => ({
             value: currencyType,
+            // A currency variant already prices the plan in this currency
+            disabled: !!formikProps.values.currencyVariants?.some(
+              ({ amountCurrency }) => amountCurrency === currencyType,
+            ),
           }))}
           disableClearable
           disabled={subscriptionFormType === FORM_TYPE_ENUM.edition || (isEdition && !canBeEdited)}
@@ -0,0 +1,303 @@
+import { ReactNode } from 'react'
+import { generatePath, Link } from 'react-router-dom'
+
+import { Chip, Typography } from '~/components/designSystem'
+import { chargeModelLookupTranslation, getIntervalTranslationKey } from '~/core/constants/form'
+import { PlanDetailsTabsOptionsEnum } from '~/core/constants/tabsOptions'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { PLAN_DETAILS_ROUTE } from '~/core/router'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import { ChargeModelEnum, CurrencyEnum, EditPlanFragment, Properties } from '~/generated/graphql'
+import { TranslateFunc, useInternationalization } from '~/hooks/core/useInternationalization'
+import { tw } from '~/styles/utils'
+
+import { alignPlansCharges, ComparedPlanCharge, hasComparedValuesDifference } from './utils'
+
+type ComparisonRow = {
+  key: string
+  label: ReactNode
+  // Raw values used to detect differences, independently of the formatting
+  values: unknown[]
+  // One cell per compared plan, made of one or several lines
+  cells: Array<string | string[]>
+}
+
+const formatAmount = (amount: number | string | null | undefined, currency: CurrencyEnum) =>
+  intlFormatNumber(Number(amount) || 0, {
+    currencyDisplay: 'symbol',
+    currency,
+    maximumFractionDigits: 15,
+  })
+
+const formatRate = (rate: string | null | undefined) =>
+  intlFormatNumber(Number(rate) / 100 || 0, { style: 'percent', maximumFractionDigits: 15 })
+
+const getPropertiesPricing = (
+  chargeModel: ChargeModelEnum,
+  properties: Properties | null | undefined,
+  currency: CurrencyEnum,
+  translate: TranslateFunc,
+): string[] => {
+  if (!properties) return []
+
+  switch (chargeModel) {
+    case ChargeModelEnum.Standard:
+      return [
+        translate('text_1792421856878jnt0gjo8naa', {
+          amount: formatAmount(properties.amount, currency),
+        }),
+      ]
+    case ChargeModelEnum.Package:
+      return [
+        translate('text_1792421856880l8ivdtwqc59', {
+          amount: formatAmount(properties.amount, currency),
+          packageSize: properties.packageSize,
+          freeUnits: properties.freeUnits || 0,
+        }),
+      ]
+    case ChargeModelEnum.Graduated:
+    case ChargeModelEnum.Volume:
+      return (
+        (chargeModel === ChargeModelEnum.Graduated
+          ? properties.graduatedRanges
+          : properties.volumeRanges) || []
+      ).map((range) =>
+        translate('text_1792421856882fzqzz5h1fsn', {
+          fromValue: range.fromValue,
+          toValue: range.toValue || '∞',
+          perUnitAmount: formatAmount(range.perUnitAmount, currency),
+          flatAmount: formatAmount(range.flatAmount, currency),
+        }),
+      )
+    case ChargeModelEnum.GraduatedPercentage:
+      return (properties.graduatedPercentageRanges || []).map((range) =>
+        translate('text_17924218568846uc84m5e5cf', {
+          fromValue: range.fromValue,
+          toValue: range.toValue || '∞',
+          rate: formatRate(range.rate),
+          flatAmount: formatAmount(range.flatAmount, currency),
+        }),
+      )
+    case ChargeModelEnum.Percentage:
+      return [
+        translate('text_1792421856886qt9lpsnv67q', {
+          rate: formatRate(properties.rate),
+          fixedAmount: formatAmount(properties.fixedAmount, currency),
+        }),
+      ]
+    default:
+      return []
+  }
+}
+
+const getChargePricing = (
+  charge: ComparedPlanCharge,
+  currency: CurrencyEnum,
+  translate: TranslateFunc,
+) => [
+  ...getPropertiesPricing(charge.chargeModel, charge.properties, currency, translate),
+  ...(charge.filters || []).flatMap((filter) => {
+    const filterLabel =
+      filter.invoiceDisplayName ||
+      Object.entries((filter.values || {}) as Record<string, string[]>)
+        .map(([key, values]) => `${key}: ${values.join(', ')}`)
+        .join(' • ')
+
+    return getPropertiesPricing(charge.chargeModel, filter.properties, currency, translate).map(
+      (pricing) => translate('text_1792421856889z1h4rpch63k', { filter: filterLabel, pricing }),
+    )
+  }),
+]
+
+interface PlansComparisonTableProps {
+  plans: EditPlanFragment[]
+}
+
+export const PlansComparisonTable = ({ plans }: PlansComparisonTableProps) => {
+  const { translate } = useInternationalization()
+  const getCurrency = (plan: EditPlanFragment) => plan.amountCurrency || CurrencyEnum.Usd
+
+  const settingsRows: ComparisonRow[] = [
+    {
+      key: 'interval',
+      label: translate('text_65201b8216455901fe273dc1'),
+      values: plans.map((plan) => plan.interval),
+      cells: plans.map((plan) => translate(getIntervalTranslationKey[plan.interval])),
+    },
+    {
+      key: 'payInAdvance',
+      label: translate('text_65201b8216455901fe273dd9'),
+      values: plans.map((plan) => plan.payInAdvance),
+      cells: plans.map((plan) =>
+        translate(
+          plan.payInAdvance ? 'text_646e2d0cc536351b62ba6faa' : 'text_646e2d0cc536351b62ba6f8c',
+        ),
+      ),
+    },
+    {
+      key: 'amountCents',
+      label: translate('text_642d5eb2783a2ad10d670336'),
+      values: plans.map((plan) => [Number(plan.amountCents), plan.amountCurrency]),
+      cells: plans.map((plan) =>
+        formatAmount(deserializeAmount(plan.amountCents, getCurrency(plan)), getCurrency(plan)),
+      ),
+    },
+    {
+      key: 'trialPeriod',
+      label: translate('text_65201b8216455901fe273dcd'),
+      values: plans.map((plan) => plan.trialPeriod || 0),
+      cells: plans.map((plan) =>
+        !plan.trialPeriod
+          ? translate('text_17924218568659oqg26ps9gr')
+          : translate(
+              'text_64c7a89b6c67eb6c9889815f',
+              { days: plan.trialPeriod },
+              plan.trialPeriod,
+            ),
+      ),
+    },
+    {
+      key: 'minimumCommitment',
+      label: translate('text_65d601bffb11e0f9d1d9f569'),
+      values: plans.map((plan) =>
+        plan.minimumCommitment
+          ? [Number(plan.minimumCommitment.amountCents), plan.amountCurrency]
+          : null,
+      ),
+      cells: plans.map((plan) =>
+        plan.minimumCommitment
+          ? formatAmount(
+              deserializeAmount(plan.minimumCommitment.amountCents, getCurrency(plan)),
+              getCurrency(plan),
+            )
+          : translate('text_1792421856863l6tqijrj7ps'),
+      ),
+    },
+  ]
+
+  const chargesRows: ComparisonRow[] = alignPlansCharges(plans).flatMap(
+    ({ key, billableMetric, charges }) => {
+      const label = (
+        <div className="flex flex-col">
+          <Typography variant="captionHl" color="grey700" noWrap>
+            {billableMetric.name}
+          </Typography>
+          <Typography variant="caption" noWrap>
+            {billableMetric.code}
+          </Typography>
+        </div>
+      )
+
+      return [
+        {
+          key: `${key}-chargeModel`,
+          label,
+          values: charges.map((charge) => charge?.chargeModel),
+          cells: charges.map((charge) =>
+            charge
+              ? translate(chargeModelLookupTranslation[charge.chargeModel])
+              : translate('text_1792421856861da3lqqxpqpt'),
+          ),
+        },
+        {
+          key: `${key}-pricing`,
+          label: translate('text_1792421856876g09ww06p7ny'),
+          values: charges.map((charge) =>
+            charge ? { properties: charge.properties, filters: charge.filters } : null,
+          ),
+          cells: charges.map((charge, planIndex) => {
+            const pricing = charge
+              ? getChargePricing(charge, getCurrency(plans[planIndex]), translate)
+              : []
+
+            return pricing.length ? pricing : '-'
+          }),
+        },
+      ]
+    },
+  )
+
+  const renderSection = (title: string, rows: ComparisonRow[]) => (
+    <>
+      <tr>
+        <th colSpan={plans.length + 1} className="pb-3 pt-8 text-left">
+          <Typography variant="subhead" color="grey700">
+            {title}
+          </Typography>
+        </th>
+      </tr>
+      {rows.map((row) => {
+        const isDifferent = hasComparedValuesDifference(row.values)
+
+        return (
+          <tr key={`plans-comparison-row-${row.key}`} className="shadow-b">
+            <td className="py-3 pr-4 align-top">
+              <div className="flex items-start justify-between gap-2">
+                {typeof row.label === 'string' ? (
+                  <Typography variant="captionHl" color="grey700">
+                    {row.label}
+                  </Typography>
+                ) : (
+                  row.label
+                )}
+                {isDifferent && (
+                  <Chip size="small" label={translate('text_1792421856867onxgbdp2j5w')} />
+                )}
+              </div>
+            </td>
+            {row.cells.map((cell, planIndex) => (
+              <td
+                key={`plans-comparison-cell-${row.key}-${planIndex}`}
+                className={tw('px-4 py-3 align-top', { 'bg-yellow-100': isDifferent })}
+              >
+                <div className="flex flex-col gap-1">
+                  {(Array.isArray(cell) ? cell : [cell]).map((line, lineIndex) => (
+                    <Typography
+                      key={`plans-comparison-cell-${row.key}-${planIndex}-${lineIndex}`}
+                      variant="body"
+                      color="grey700"
+                    >
+                      {line}
+                    </Typography>
+                  ))}
+                </div>
+              </td>
+            ))}
+          </tr>
+        )
+      })}
+    </>
+  )
+
+  return (
+    <table className="w-full table-fixed border-collapse">
+      <thead>
+        <tr className="shadow-b">
+          <th className="w-60" />
+          {plans.map((plan) => (
+            <th key={`plans-comparison-header-${plan.id}`} className="px-4 py-3 text-left">
+              <Link
+                to={generatePath(PLAN_DETAILS_ROUTE, {
+                  planId: plan.id,
+                  tab: PlanDetailsTabsOptionsEnum.overview,
+                })}
+              >
+                <Typography variant="bodyHl" color="grey700" noWrap>
+                  {plan.name}
+                </Typography>
+              </Link>
+              <Typography variant="caption" noWrap>
+                {plan.code}
+              </Typography>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {renderSection(translate('text_642d5eb2783a2ad10d67031a'), settingsRows)}
+        {!!chargesRows.length &&
+          renderSection(translate('text_1792421856859wmpru0dn2ru'), chargesRows)}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,251 @@
+import { InputAdornment } from '@mui/material'
+import { DateTime } from 'luxon'
+import { FC, PropsWithChildren, useMemo, useState } from 'react'
+
+import { Card, Chip, Typography } from '~/components/designSystem'
+import { DatePicker, TextInput } from '~/components/form'
+import { ALL_FILTER_VALUES } from '~/core/constants/form'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { ChargeModelEnum, CurrencyEnum } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { PlanFormInput } from './types'
+import {
+  buildSimulatedUsageKey,
+  SimulatedUsage,
+  SimulatedUsages,
+  simulatePlanInvoice,
+} from './utils'
+
+interface PricingSimulatorProps {
+  plan: PlanFormInput
+}
+
+export const PricingSimulator = ({ plan }: PricingSimulatorProps) => {
+  const { translate } = useInternationalization()
+  const [subscriptionAt, setSubscriptionAt] = useState<string>(
+    DateTime.now().startOf('day').toISO() as string,
+  )
+  const [usages, setUsages] = useState<SimulatedUsages>({})
+  const currency = plan.amountCurrency || CurrencyEnum.Usd
+
+  const simulation = useMemo(
+    () =>
+      simulatePlanInvoice({
+        plan,
+        usages,
+        subscriptionAt: DateTime.fromISO(subscriptionAt),
+      }),
+    [plan, usages, subscriptionAt],
+  )
+
+  const formatAmount = (amount: number) =>
+    intlFormatNumber(amount, { currencyDisplay: 'symbol', currency })
+
+  const updateUsage = (key: string, field: keyof SimulatedUsage, value: string) => {
+    setUsages((prev) => ({ ...prev, [key]: { ...prev[key], [field]: value } }))
+  }
+
+  const renderUsageInputs = (key: string, label: string, chargeModel: ChargeModelEnum) => (
+    <div className="flex flex-col gap-2" key={key}>
+      <Typography variant="captionHl" color="grey700">
+        {label}
+      </Typography>
+      <div className="flex gap-3">
+        <TextInput
+          className="flex-1"
+          name={`simulated-units-${key}`}
+          placeholder="0"
+          beforeChangeFormatter={['positiveNumber', 'chargeDecimal']}
+          value={usages[key]?.units || ''}
+          onChange={(value) => updateUsage(key, 'units', value)}
+          InputProps={{
+            endAdornment: (
+              <InputAdornment position="end">
+                {translate('text_65771fa3f4ab9a00720726ce')}
+              </InputAdornment>
+            ),
+          }}
+        />
+        {chargeModel === ChargeModelEnum.Percentage && (
+          <TextInput
+            className="flex-1"
+            name={`simulated-events-${key}`}
+            placeholder="1"
+            beforeChangeFormatter={['positiveNumber', 'int']}
+            value={usages[key]?.eventsCount || ''}
+            onChange={(value) => updateUsage(key, 'eventsCount', value)}
+            InputProps={{
+              endAdornment: (
+                <InputAdornment position="end">
+                  {translate('text_1792420145483z4fhz850zpp')}
+                </InputAdornment>
+              ),
+            }}
+          />
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="flex h-full flex-col gap-8 overflow-auto px-8 pb-20 pt-8">
+      <div className="flex flex-col gap-1">
+        <Typography variant="subhead">{translate('text_1792420145472pjqwp27kyjk')}</Typography>
+        <Typography variant="caption">{translate('text_1792420145474aujpcm39hah')}</Typography>
+      </div>
+
+      <DatePicker
+        name="simulatedSubscriptionAt"
+        label={translate('text_17924201454779j73sc8fzxu')}
+        value={subscriptionAt}
+        placement="bottom-start"
+        onChange={(value) => {
+          if (value) setSubscriptionAt(value)
+        }}
+      />
+
+      <SimulatorSection title={translate('text_1792420145479o1f3918kv94')}>
+        {!plan.charges?.length && (
+          <Typography variant="caption">{translate('text_1792420145481aj5ltwjvbce')}</Typography>
+        )}
+        {simulation.charges.map(({ charge, chargeIndex, isSimulated }) => (
+          <Card className="gap-3 p-4" key={`simulated-charge-${chargeIndex}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex flex-col overflow-hidden">
+                <Typography variant="bodyHl" color="grey700" noWrap>
+                  {charge.invoiceDisplayName || charge.billableMetric.name}
+                </Typography>
+                <Typography variant="caption" noWrap>
+                  {charge.billableMetric.code}
+                </Typography>
+              </div>
+              {!!charge.payInAdvance && (
+                <Chip size="small" label={translate('text_1792420145505w70dp4jiyhq')} />
+              )}
+            </div>
+
+            {!isSimulated ? (
+              <Typography variant="caption" color="grey600">
+                {translate('text_1792420145488wrotqs6ghsr')}
+              </Typography>
+            ) : (
+              <>
+                {!!charge.properties &&
+                  renderUsageInputs(
+                    buildSimulatedUsageKey(chargeIndex),
+                    translate('text_64e620bca31226337ffc62ad'),
+                    charge.chargeModel,
+                  )}
+                {(charge.filters || []).map((filter, filterIndex) =>
+                  renderUsageInputs(
+                    buildSimulatedUsageKey(chargeIndex, filterIndex),
+                    filter.invoiceDisplayName ||
+                      filter.values
+                        .map((value) => {
+                          const [filterKey, filterValue] = Object.entries(JSON.parse(value))[0]
+
+                          return filterValue === ALL_FILTER_VALUES ? filterKey : `${filterValue}`
+                        })
+                        .join(' • ') ||
+                      translate('text_1792420145485qbjlksi7ml6', { index: filterIndex + 1 }),
+                    charge.chargeModel,
+                  ),
+                )}
+              </>
+            )}
+          </Card>
+        ))}
+      </SimulatorSection>
+
+      <SimulatorSection title={translate('text_1792420145490qtayr6e7euo')}>
+        <Typography variant="caption">
+          {translate('text_17924201454929f2cksqeeja', {
+            fromDate: simulation.periodStart.toFormat('LLL. dd, yyyy'),
+            toDate: simulation.periodEnd.toFormat('LLL. dd, yyyy'),
+          })}
+        </Typography>
+
+        <Card className="gap-0 p-0">
+          <SimulatorLine
+            label={translate('text_642d5eb2783a2ad10d670336')}
+            caption={
+              simulation.prorationRatio < 1
+                ? translate('text_1792420145494y207tdhh2gn', {
+                    ratio: intlFormatNumber(simulation.prorationRatio, { style: 'percent' }),
+                  })
+                : undefined
+            }
+            value={formatAmount(simulation.fixedFeeAmount)}
+          />
+          {simulation.charges.map(({ charge, chargeIndex, amount, minimumTrueUpAmount }) => (
+            <SimulatorLine
+              key={`simulated-charge-amount-${chargeIndex}`}
+              label={charge.invoiceDisplayName || charge.billableMetric.name}
+              caption={
+                minimumTrueUpAmount > 0
+                  ? translate('text_179242014549772korijft5d', {
+                      amount: formatAmount(minimumTrueUpAmount),
+                    })
+                  : undefined
+              }
+              value={formatAmount(amount + minimumTrueUpAmount)}
+            />
+          ))}
+          {simulation.commitmentTrueUpAmount > 0 && (
+            <SimulatorLine
+              label={translate('text_17924201454996w1klub8hal')}
+              value={formatAmount(simulation.commitmentTrueUpAmount)}
+            />
+          )}
+          <SimulatorLine
+            label={translate('text_1792420145501ru0antmttlx')}
+            value={formatAmount(simulation.subtotalAmount)}
+          />
+          <SimulatorLine
+            label={translate('text_645bb193927b375079d28a8f')}
+            value={formatAmount(simulation.taxesAmount)}
+          />
+          <SimulatorLine
+            isTotal
+            label={translate('text_1792420145503qhlm5q8tq04')}
+            value={formatAmount(simulation.totalAmount)}
+          />
+        </Card>
+      </SimulatorSection>
+    </div>
+  )
+}
+
+const SimulatorSection: FC<PropsWithChildren<{ title: string }>> = ({ title, children }) => (
+  <section className="flex flex-col gap-4">
+    <Typography variant="bodyHl" color="grey700">
+      {title}
+    </Typography>
+    {children}
+  </section>
+)
+
+const SimulatorLine = ({
+  caption,
+  isTotal,
+  label,
+  value,
+}: {
+  caption?: string
+  isTotal?: boolean
+  label: string
+  value: string
+}) => (
+  <div className="flex items-start justify-between gap-4 px-4 py-3 not-last:shadow-b">
+    <div className="flex flex-col overflow-hidden">
+      <Typography variant={isTotal ? 'bodyHl' : 'body'} color="grey700" noWrap>
+        {label}
+      </Typography>
+      {!!caption && <Typography variant="caption">{caption}</Typography>}
+    </div>
+    <Typography variant={isTotal ? 'bodyHl' : 'body'} color="grey700" noWrap>
+      {value}
+    </Typography>
+  </div>
+)
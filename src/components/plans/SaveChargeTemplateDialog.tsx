@@ -0,0 +1,110 @@
+import { gql } from '@apollo/client'
+import { useFormik } from 'formik'
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import { object, string } from 'yup'
+
+import { Button, Dialog, DialogRef } from '~/components/designSystem'
+import { TextInputField } from '~/components/form'
+import { addToast } from '~/core/apolloClient'
+import { serializeChargeTemplateInput } from '~/core/serializers/serializeChargeTemplate'
+import { useCreateChargeTemplateMutation } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+import { LocalChargeInput } from './types'
+
+gql`
+  mutation createChargeTemplate($input: CreateChargeTemplateInput!) {
+    createChargeTemplate(input: $input) {
+      id
+      name
+    }
+  }
+`
+
+export interface SaveChargeTemplateDialogRef {
+  openDialog: (charge: LocalChargeInput) => unknown
+  closeDialog: () => unknown
+}
+
+export const SaveChargeTemplateDialog = forwardRef<SaveChargeTemplateDialogRef>((_, ref) => {
+  const { translate } = useInternationalization()
+  const dialogRef = useRef<DialogRef>(null)
+  const [charge, setCharge] = useState<LocalChargeInput>()
+
+  const [createChargeTemplate] = useCreateChargeTemplateMutation({
+    onCompleted({ createChargeTemplate: createdChargeTemplate }) {
+      if (!createdChargeTemplate) return
+
+      addToast({
+        message: translate('text_17924225725648b0wu2yy0xq', { name: createdChargeTemplate.name }),
+        severity: 'success',
+      })
+    },
+  })
+
+  const formikProps = useFormik<{ name: string }>({
+    initialValues: {
+      name: charge?.invoiceDisplayName || charge?.billableMetric.name || '',
+    },
+    validationSchema: object().shape({
+      name: string().required(''),
+    }),
+    validateOnMount: true,
+    enableReinitialize: true,
+    onSubmit: async ({ name }, formikBag) => {
+      if (!charge) return
+
+      const { errors } = await createChargeTemplate({
+        variables: { input: serializeChargeTemplateInput(name, charge) },
+      })
+
+      if (errors?.length) return
+
+      dialogRef.current?.closeDialog()
+      formikBag.resetForm()
+    },
+  })
+
+  useImperativeHandle(ref, () => ({
+    openDialog: (localCharge) => {
+      setCharge(localCharge)
+      dialogRef.current?.openDialog()
+    },
+    closeDialog: () => dialogRef.current?.closeDialog(),
+  }))
+
+  return (
+    <Dialog
+      ref={dialogRef}
+      title={translate('text_1792422572553jaibzb7cccq')}
+      description={translate('text_17924225725553ybpodagznx')}
+      onClose={() => formikProps.resetForm()}
+      actions={({ closeDialog }) => (
+        <>
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_6271200984178801ba8bdf4a')}
+          </Button>
+          <Button
+            variant="primary"
+            disabled={!formikProps.isValid}
+            onClick={formikProps.submitForm}
+          >
+            {translate('text_1792422572562gsjabr57yau')}
+          </Button>
+        </>
+      )}
+    >
+      <TextInputField
+        // eslint-disable-next-line jsx-a11y/no-autofocus
+        autoFocus
+        className="mb-8"
+        name="name"
+        label={translate('text_1792422572558rkrsp747m2w')}
+        placeholder={translate('text_1792422572560ed94hgnrf45')}
+        formikProps={formikProps}
+      />
+    </Dialog>
+  )
+})
+
+SaveChargeTemplateDialog.displayName = 'SaveChargeTemplateDialog'
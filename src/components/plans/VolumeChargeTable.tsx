@@ -1,7 +1,7 @@
 import { gql } from '@apollo/client'
 import { InputAdornment } from '@mui/material'
 import { FormikProps } from 'formik'
-import { memo, useState } from 'react'
+import { ClipboardEvent, memo, useRef, useState } from 'react'
 import styled from 'styled-components'
 
 import { Alert, Button, ChargeTable, Tooltip, Typography } from '~/components/designSystem'
@@ -12,7 +12,9 @@ import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { useVolumeChargeForm } from '~/hooks/plans/useVolumeChargeForm'
 import { theme } from '~/styles'
 
+import { PasteChargeTiersDialog, PasteChargeTiersDialogRef } from './PasteChargeTiersDialog'
 import { LocalChargeFilterInput, LocalPropertiesInput, PlanFormInput } from './types'
+import { getInvalidTierRangeIndex, parsePastedTiers } from './utils'
 
 gql`
   fragment VolumeRanges on Properties {
@@ -25,6 +27,8 @@ gql`
   }
 `
 
+const PASTED_TIER_AMOUNT_FIELDS = ['perUnitAmount', 'flatAmount']
+
 interface VolumeChargeTableProps {
   chargeIndex: number
   currency: CurrencyEnum
@@ -45,7 +49,8 @@ export const VolumeChargeTable = memo(
   }: VolumeChargeTableProps) => {
     const { translate } = useInternationalization()
     const [errorIndex, setErrorIndex] = useState<number | undefined>()
-    const { tableDatas, addRange, handleUpdate, deleteRange, infosCalculation } =
+    const pasteTiersDialogRef = useRef<PasteChargeTiersDialogRef>(null)
+    const { tableDatas, addRange, replaceRanges, handleUpdate, deleteRange, infosCalculation } =
       useVolumeChargeForm({
         chargeIndex,
         disabled,
@@ -54,19 +59,47 @@ export const VolumeChargeTable = memo(
         valuePointer,
       })
 
+    const pasteTiers = (content: string) => {
+      const { ranges } = parsePastedTiers(content, PASTED_TIER_AMOUNT_FIELDS)
+
+      replaceRanges(ranges)
+      // Overlapping tiers are flagged like a bound typed by hand
+      setErrorIndex(getInvalidTierRangeIndex(ranges))
+    }
+
+    const onTablePaste = (event: ClipboardEvent<HTMLDivElement>) => {
+      const content = event.clipboardData.getData('text')
+
+      // A single value pasted in a cell keeps the default input behavior
+      if (disabled || !content.trim().includes('\n')) return
+
+      event.preventDefault()
+      pasteTiersDialogRef.current?.openDialog(content)
+    }
+
     return (
       <Container>
-        <Button
-          className="mb-2 ml-auto"
-          startIcon="plus"
-          variant="quaternary"
-          onClick={addRange}
-          disabled={disabled}
-          data-test="add-tier"
-        >
-          {translate('text_6304e74aab6dbc18d615f38e')}
-        </Button>
-        <TableContainer>
+        <div className="mb-2 ml-auto flex gap-2">
+          <Button
+            startIcon="table"
+            variant="quaternary"
+            onClick={() => pasteTiersDialogRef.current?.openDialog()}
+            disabled={disabled}
+            data-test="paste-tiers"
+          >
+            {translate('text_1792421371121a5mztudycl7')}
+          </Button>
+          <Button
+            startIcon="plus"
+            variant="quaternary"
+            onClick={addRange}
+            disabled={disabled}
+            data-test="add-tier"
+          >
+            {translate('text_6304e74aab6dbc18d615f38e')}
+          </Button>
+        </div>
+        <TableContainer onPaste={onTablePaste}>
           <ChargeTable
             name="volume-charge-table"
             data={tableDatas}
@@ -235,6 +268,16 @@ export const VolumeChargeTable = memo(
             })}
           </Typography>
         </Alert>
+
+        <PasteChargeTiersDialog
+          ref={pasteTiersDialogRef}
+          amountFields={PASTED_TIER_AMOUNT_FIELDS}
+          columnLabels={[
+            translate('text_1792421371143l0ac655p4hj'),
+            translate('text_17924213711454dlml6rbqf4'),
+          ]}
+          onSubmit={pasteTiers}
+        />
       </Container>
     )
   },
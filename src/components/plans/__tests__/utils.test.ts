@@ -1,5 +1,37 @@
-import { transformFilterObjectToString } from '~/components/plans/utils'
+import { DateTime } from 'luxon'
+
+import { LocalChargeInput, PlanFormInput, PlanVersionSnapshot } from '~/components/plans/types'
+import {
+  alignPlansCharges,
+  buildSimulatedUsageKey,
+  computeChargePropertiesAmount,
+  computeTierCurve,
+  convertAmountToCurrencyVariant,
+  convertPropertiesToCurrencyVariant,
+  diffPlanVersions,
+  getCurrencyVariantProperties,
+  getFirstPeriodProrationRatio,
+  getInvalidTierRangeIndex,
+  hasComparedValuesDifference,
+  hasValidCurrencyVariantPrices,
+  lintPlan,
+  omitCurrencyVariantProperties,
+  parsePastedTiers,
+  PlanLintRuleEnum,
+  PlanVersionChangeKindEnum,
+  PlanVersionDiffSectionEnum,
+  simulatePlanInvoice,
+  transformFilterObjectToString,
+} from '~/components/plans/utils'
 import { ALL_FILTER_VALUES } from '~/core/constants/form'
+import {
+  AggregationTypeEnum,
+  ChargeModelEnum,
+  CurrencyEnum,
+  EditPlanFragment,
+  PlanInterval,
+  PriceRoundingRuleEnum,
+} from '~/generated/graphql'
 
 describe('utils', () => {
   describe('transformFilterObjectToString', () => {
@@ -23,3 +55,1002 @@ describe('utils', () => {
     })
   })
 })
+
+describe('computeChargePropertiesAmount', () => {
+  it('should return 0 when no usage is given', () => {
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.Standard,
+        properties: { amount: '2' },
+      }),
+    ).toBe(0)
+  })
+
+  it('should compute a standard charge', () => {
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.Standard,
+        properties: { amount: '0.5' },
+        usage: { units: '12' },
+      }),
+    ).toBe(6)
+  })
+
+  it('should compute a package charge with free units', () => {
+    const properties = { amount: '10', packageSize: 100, freeUnits: 50 }
+
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.Package,
+        properties,
+        usage: { units: 50 },
+      }),
+    ).toBe(0)
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.Package,
+        properties,
+        usage: { units: 151 },
+      }),
+    ).toBe(20)
+  })
+
+  describe('graduated charge', () => {
+    const properties = {
+      graduatedRanges: [
+        { fromValue: '0', toValue: '10', perUnitAmount: '1', flatAmount: '5' },
+        { fromValue: '11', toValue: '20', perUnitAmount: '0.5', flatAmount: '2' },
+        { fromValue: '21', toValue: null, perUnitAmount: '0.1', flatAmount: '0' },
+      ],
+    }
+
+    it('should only bill the first tier', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Graduated,
+          properties,
+          usage: { units: 10 },
+        }),
+      ).toBe(15)
+    })
+
+    it('should bill each reached tier', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Graduated,
+          properties,
+          usage: { units: 30 },
+        }),
+      ).toBe(10 + 5 + 5 + 2 + 1)
+    })
+
+    it('should bill nothing without usage', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Graduated,
+          properties,
+          usage: { units: 0 },
+        }),
+      ).toBe(0)
+    })
+  })
+
+  it('should compute a graduated percentage charge', () => {
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.GraduatedPercentage,
+        properties: {
+          graduatedPercentageRanges: [
+            { fromValue: '0', toValue: '100', rate: '10', flatAmount: '1' },
+            { fromValue: '101', toValue: null, rate: '5', flatAmount: '0' },
+          ],
+        },
+        usage: { units: 300 },
+      }),
+    ).toBe(10 + 1 + 10)
+  })
+
+  it('should bill all the units at the price of the matching volume tier', () => {
+    const properties = {
+      volumeRanges: [
+        { fromValue: '0', toValue: '100', perUnitAmount: '2', flatAmount: '10' },
+        { fromValue: '101', toValue: null, perUnitAmount: '1', flatAmount: '0' },
+      ],
+    }
+
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.Volume,
+        properties,
+        usage: { units: 100 },
+      }),
+    ).toBe(210)
+    expect(
+      computeChargePropertiesAmount({
+        chargeModel: ChargeModelEnum.Volume,
+        properties,
+        usage: { units: 101 },
+      }),
+    ).toBe(101)
+  })
+
+  describe('percentage charge', () => {
+    it('should apply the rate and the fixed amount per event', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Percentage,
+          properties: { rate: '1', fixedAmount: '0.5' },
+          usage: { units: 1000, eventsCount: 4 },
+        }),
+      ).toBe(12)
+    })
+
+    it('should not bill the free events', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Percentage,
+          properties: { rate: '1', fixedAmount: '0.5', freeUnitsPerEvents: 2 },
+          usage: { units: 1000, eventsCount: 4 },
+        }),
+      ).toBe(6)
+    })
+
+    it('should apply the per transaction limits', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Percentage,
+          properties: { rate: '1', perTransactionMaxAmount: '1', perTransactionMinAmount: '0.5' },
+          usage: { units: 1000, eventsCount: 4 },
+        }),
+      ).toBe(4)
+    })
+
+    it('should apply a zero per transaction maximum', () => {
+      expect(
+        computeChargePropertiesAmount({
+          chargeModel: ChargeModelEnum.Percentage,
+          properties: { rate: '1', perTransactionMaxAmount: 0 as unknown as string },
+          usage: { units: 1000, eventsCount: 4 },
+        }),
+      ).toBe(0)
+    })
+  })
+})
+
+describe('getFirstPeriodProrationRatio', () => {
+  it('should not prorate a subscription starting at the beginning of the period', () => {
+    const { ratio } = getFirstPeriodProrationRatio({
+      interval: PlanInterval.Monthly,
+      subscriptionAt: DateTime.fromISO('2024-04-01'),
+    })
+
+    expect(ratio).toBe(1)
+  })
+
+  it('should prorate a subscription starting during the period', () => {
+    const { ratio } = getFirstPeriodProrationRatio({
+      interval: PlanInterval.Monthly,
+      subscriptionAt: DateTime.fromISO('2024-04-16'),
+    })
+
+    expect(ratio).toBe(0.5)
+  })
+
+  it('should exclude the trial period', () => {
+    const { ratio } = getFirstPeriodProrationRatio({
+      interval: PlanInterval.Monthly,
+      subscriptionAt: DateTime.fromISO('2024-04-01'),
+      trialPeriod: 40,
+    })
+
+    expect(ratio).toBe(0)
+  })
+})
+
+describe('simulatePlanInvoice', () => {
+  const billableMetric = {
+    id: 'bm-1',
+    name: 'API calls',
+    code: 'api_calls',
+    aggregationType: AggregationTypeEnum.CountAgg,
+    recurring: false,
+  }
+
+  it('should sum the fees, the commitment true-up and the taxes', () => {
+    const simulation = simulatePlanInvoice({
+      plan: {
+        name: 'Plan',
+        code: 'plan',
+        interval: PlanInterval.Monthly,
+        amountCents: '10',
+        amountCurrency: CurrencyEnum.Usd,
+        payInAdvance: false,
+        taxes: [{ id: 'tax-1', code: 'vat', name: 'VAT', rate: 20 }],
+        minimumCommitment: { amountCents: '50' },
+        charges: [
+          {
+            billableMetric,
+            chargeModel: ChargeModelEnum.Standard,
+            properties: { amount: '1' },
+            filters: [
+              {
+                values: ['{ "region": "eu" }'],
+                properties: { amount: '2' },
+              },
+            ],
+          },
+        ],
+      },
+      usages: {
+        [buildSimulatedUsageKey(0)]: { units: 5 },
+        [buildSimulatedUsageKey(0, 0)]: { units: 10 },
+      },
+      subscriptionAt: DateTime.fromISO('2024-04-01'),
+    })
+
+    expect(simulation.fixedFeeAmount).toBe(10)
+    expect(simulation.charges[0].amount).toBe(25)
+    expect(simulation.commitmentTrueUpAmount).toBe(15)
+    expect(simulation.subtotalAmount).toBe(50)
+    expect(simulation.taxesAmount).toBe(10)
+    expect(simulation.totalAmount).toBe(60)
+  })
+
+  it('should not simulate unsupported charge models', () => {
+    const simulation = simulatePlanInvoice({
+      plan: {
+        name: 'Plan',
+        code: 'plan',
+        interval: PlanInterval.Monthly,
+        amountCents: '0',
+        amountCurrency: CurrencyEnum.Usd,
+        payInAdvance: false,
+        charges: [{ billableMetric, chargeModel: ChargeModelEnum.Custom, properties: {} }],
+      },
+      usages: { [buildSimulatedUsageKey(0)]: { units: 5 } },
+      subscriptionAt: DateTime.fromISO('2024-04-01'),
+    })
+
+    expect(simulation.charges[0].isSimulated).toBe(false)
+    expect(simulation.totalAmount).toBe(0)
+  })
+})
+
+describe('diffPlanVersions', () => {
+  const charge: NonNullable<PlanVersionSnapshot['charges']>[number] = {
+    id: 'charge-1',
+    billableMetric: { id: 'bm-1', code: 'api_calls', name: 'API calls' },
+    chargeModel: ChargeModelEnum.Graduated,
+    invoiceable: true,
+    minAmountCents: '0',
+    payInAdvance: false,
+    prorated: false,
+    properties: {
+      graduatedRanges: [
+        { fromValue: '0', toValue: '10', perUnitAmount: '1', flatAmount: '0' },
+        { fromValue: '11', toValue: null, perUnitAmount: '0.5', flatAmount: '0' },
+      ],
+    },
+    filters: [
+      {
+        invoiceDisplayName: null,
+        values: { region: ['eu', 'us'] },
+        properties: { amount: '2' },
+      },
+    ],
+  }
+  const usageThreshold = {
+    id: 'threshold-1',
+    amountCents: '10000',
+    recurring: false,
+    thresholdDisplayName: null,
+  }
+  const snapshot: PlanVersionSnapshot = {
+    amountCents: '1000',
+    amountCurrency: CurrencyEnum.Usd,
+    interval: PlanInterval.Monthly,
+    payInAdvance: false,
+    trialPeriod: 0,
+    charges: [charge],
+    minimumCommitment: { amountCents: '5000', invoiceDisplayName: null },
+    usageThresholds: [usageThreshold],
+  }
+
+  it('should return no changes for identical revisions', () => {
+    expect(diffPlanVersions(snapshot, snapshot)).toEqual([])
+  })
+
+  it('should list updated values with their path', () => {
+    const changes = diffPlanVersions(snapshot, {
+      ...snapshot,
+      amountCents: '2000',
+      charges: [
+        {
+          ...charge,
+          properties: {
+            graduatedRanges: [
+              { fromValue: '0', toValue: '10', perUnitAmount: '1.5', flatAmount: '0' },
+              { fromValue: '11', toValue: null, perUnitAmount: '0.5', flatAmount: '0' },
+            ],
+          },
+          filters: [
+            {
+              invoiceDisplayName: null,
+              // Same values in another order are still the same filter
+              values: { region: ['us', 'eu'] },
+              properties: { amount: '3' },
+            },
+          ],
+        },
+      ],
+      minimumCommitment: null,
+      usageThresholds: [{ ...usageThreshold, amountCents: '20000' }],
+    })
+
+    expect(changes).toEqual([
+      {
+        section: PlanVersionDiffSectionEnum.plan,
+        kind: PlanVersionChangeKindEnum.updated,
+        path: ['amountCents'],
+        before: '1000',
+        after: '2000',
+      },
+      {
+        section: PlanVersionDiffSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.updated,
+        path: ['API calls', 'properties', 'graduatedRanges', '1', 'perUnitAmount'],
+        before: '1',
+        after: '1.5',
+      },
+      {
+        section: PlanVersionDiffSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.updated,
+        path: ['API calls', 'region: us, eu', 'properties', 'amount'],
+        before: '2',
+        after: '3',
+      },
+      {
+        section: PlanVersionDiffSectionEnum.minimumCommitment,
+        kind: PlanVersionChangeKindEnum.removed,
+        path: ['amountCents'],
+        before: '5000',
+        after: undefined,
+      },
+      {
+        section: PlanVersionDiffSectionEnum.usageThresholds,
+        kind: PlanVersionChangeKindEnum.updated,
+        path: ['#1', 'amountCents'],
+        before: '10000',
+        after: '20000',
+      },
+    ])
+  })
+
+  it('should list added and removed charges, filters and thresholds as a whole', () => {
+    const changes = diffPlanVersions(snapshot, {
+      ...snapshot,
+      charges: [
+        {
+          ...charge,
+          filters: [
+            {
+              invoiceDisplayName: 'All countries',
+              values: { country: [ALL_FILTER_VALUES] },
+              properties: { amount: '2' },
+            },
+          ],
+        },
+        {
+          ...charge,
+          id: 'charge-2',
+          invoiceDisplayName: 'Storage',
+          filters: [],
+        },
+      ],
+      usageThresholds: [],
+    })
+
+    expect(changes).toEqual([
+      {
+        section: PlanVersionDiffSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.added,
+        path: ['API calls', 'All countries'],
+      },
+      {
+        section: PlanVersionDiffSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.removed,
+        path: ['API calls', 'region: eu, us'],
+      },
+      {
+        section: PlanVersionDiffSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.added,
+        path: ['Storage'],
+      },
+      {
+        section: PlanVersionDiffSectionEnum.usageThresholds,
+        kind: PlanVersionChangeKindEnum.removed,
+        path: ['#1'],
+      },
+    ])
+  })
+})
+
+describe('parsePastedTiers', () => {
+  it('reads tab separated rows copied from a spreadsheet and skips the header', () => {
+    const content = [
+      'From\tTo\tPer unit\tFlat fee',
+      '0\t100\t$1.50\t10',
+      '101\t1,000\t1\t',
+      '1001\t∞\t0.5\t0',
+    ].join('\n')
+
+    expect(parsePastedTiers(content, ['perUnitAmount', 'flatAmount'])).toStrictEqual({
+      invalidLines: [],
+      ranges: [
+        { fromValue: '0', toValue: '100', perUnitAmount: '1.50', flatAmount: '10' },
+        { fromValue: '101', toValue: '1000', perUnitAmount: '1', flatAmount: undefined },
+        { fromValue: '1001', toValue: null, perUnitAmount: '0.5', flatAmount: '0' },
+      ],
+    })
+  })
+
+  it('keeps the ranges contiguous whatever the pasted lower bounds', () => {
+    const content = '5,10,1\r\n8,20,2\r\n50,30,3\r\n'
+
+    expect(parsePastedTiers(content, ['rate']).ranges).toStrictEqual([
+      { fromValue: '0', toValue: '10', rate: '1' },
+      { fromValue: '11', toValue: '20', rate: '2' },
+      { fromValue: '21', toValue: null, rate: '3' },
+    ])
+  })
+
+  it('reads semicolon separated and quoted values', () => {
+    expect(parsePastedTiers('0;"100";"1,5"\n101;;2', ['rate']).ranges).toStrictEqual([
+      { fromValue: '0', toValue: '100', rate: '1.5' },
+      { fromValue: '101', toValue: null, rate: '2' },
+    ])
+  })
+
+  it('reads comma decimals and thousands separators', () => {
+    const content = [
+      '0\t1.000\t0,5\t1.234,56',
+      '1001\t10,000\t0.25\t1,234.5',
+      '10001\t\t€0,125\t1,000,000',
+    ].join('\n')
+
+    expect(parsePastedTiers(content, ['perUnitAmount', 'flatAmount']).ranges).toStrictEqual([
+      { fromValue: '0', toValue: '1000', perUnitAmount: '0.5', flatAmount: '1234.56' },
+      { fromValue: '1001', toValue: '10000', perUnitAmount: '0.25', flatAmount: '1234.5' },
+      { fromValue: '10001', toValue: null, perUnitAmount: '0.125', flatAmount: '1000000' },
+    ])
+  })
+
+  it('rejects the amounts that could be either a decimal or a thousands separator', () => {
+    const content = ['0\t10\t1,500', '11\t20\t1.500', '21\t\t1,2,3'].join('\n')
+
+    expect(parsePastedTiers(content, ['perUnitAmount'])).toStrictEqual({
+      invalidLines: [1, 2, 3],
+      ranges: [],
+    })
+  })
+
+  it('reads the ambiguous amounts with the decimal separator of the whole paste', () => {
+    expect(
+      parsePastedTiers(['0\t10\t1,500', '11\t20\t1.500', '21\t\t0,25'].join('\n'), [
+        'perUnitAmount',
+      ]).ranges,
+    ).toStrictEqual([
+      { fromValue: '0', toValue: '10', perUnitAmount: '1.500' },
+      { fromValue: '11', toValue: '20', perUnitAmount: '1500' },
+      { fromValue: '21', toValue: null, perUnitAmount: '0.25' },
+    ])
+    expect(
+      parsePastedTiers(['0\t10\t1,500', '11\t20\t1.500', '21\t\t0.25'].join('\n'), [
+        'perUnitAmount',
+      ]).ranges,
+    ).toStrictEqual([
+      { fromValue: '0', toValue: '10', perUnitAmount: '1500' },
+      { fromValue: '11', toValue: '20', perUnitAmount: '1.500' },
+      { fromValue: '21', toValue: null, perUnitAmount: '0.25' },
+    ])
+  })
+
+  it('reads every line with the delimiter of the first line', () => {
+    const content = ['0\t10\t1', '11;20;2', '21\t30\t1,5', '31\t\t0,5'].join('\n')
+
+    expect(parsePastedTiers(content, ['perUnitAmount'])).toStrictEqual({
+      invalidLines: [2],
+      ranges: [
+        { fromValue: '0', toValue: '10', perUnitAmount: '1' },
+        { fromValue: '11', toValue: '30', perUnitAmount: '1.5' },
+        { fromValue: '31', toValue: null, perUnitAmount: '0.5' },
+      ],
+    })
+  })
+
+  it('returns the lines that can not be read', () => {
+    const content = ['0,10,1', '11,,2', '21,30.5,3', '31,40,abc', '41,,4'].join('\n')
+
+    expect(parsePastedTiers(content, ['perUnitAmount']).invalidLines).toStrictEqual([2, 3, 4])
+  })
+})
+
+describe('getInvalidTierRangeIndex', () => {
+  it('returns the index of the first tier ending before it starts', () => {
+    expect(
+      getInvalidTierRangeIndex([
+        { fromValue: '0', toValue: '10' },
+        { fromValue: '11', toValue: '5' },
+        { fromValue: '6', toValue: null },
+      ]),
+    ).toBe(1)
+    expect(
+      getInvalidTierRangeIndex([
+        { fromValue: '0', toValue: '10' },
+        { fromValue: '11', toValue: null },
+      ]),
+    ).toBeUndefined()
+  })
+})
+
+describe('computeTierCurve', () => {
+  it('samples the bounds of each graduated tier', () => {
+    expect(
+      computeTierCurve({
+        chargeModel: ChargeModelEnum.Graduated,
+        properties: {
+          graduatedRanges: [
+            { fromValue: '0', toValue: '10', perUnitAmount: '2', flatAmount: '5' },
+            { fromValue: '11', toValue: null, perUnitAmount: '1', flatAmount: '0' },
+          ],
+        },
+      }),
+    ).toStrictEqual([
+      { units: 0, unitPrice: 2, cumulativeAmount: 0 },
+      { units: 10, unitPrice: 2, cumulativeAmount: 25 },
+      { units: 11, unitPrice: 1, cumulativeAmount: 26 },
+      { units: 22, unitPrice: 1, cumulativeAmount: 37 },
+    ])
+  })
+
+  it('shows the volume pricing cliffs', () => {
+    const curve = computeTierCurve({
+      chargeModel: ChargeModelEnum.Volume,
+      properties: {
+        volumeRanges: [
+          { fromValue: '0', toValue: '100', perUnitAmount: '1', flatAmount: '0' },
+          { fromValue: '101', toValue: null, perUnitAmount: '0.5', flatAmount: '0' },
+        ],
+      },
+    })
+
+    expect(curve[1]).toStrictEqual({ units: 100, unitPrice: 1, cumulativeAmount: 100 })
+    expect(curve[2]).toStrictEqual({ units: 101, unitPrice: 0.5, cumulativeAmount: 50.5 })
+  })
+
+  it('uses rates for graduated percentage tiers and ignores other charge models', () => {
+    expect(
+      computeTierCurve({
+        chargeModel: ChargeModelEnum.GraduatedPercentage,
+        properties: {
+          graduatedPercentageRanges: [
+            { fromValue: '0', toValue: null, rate: '10', flatAmount: '1' },
+          ],
+        },
+      }),
+    ).toStrictEqual([
+      { units: 0, unitPrice: 0.1, cumulativeAmount: 0 },
+      { units: 10, unitPrice: 0.1, cumulativeAmount: 2 },
+    ])
+    expect(
+      computeTierCurve({ chargeModel: ChargeModelEnum.Standard, properties: { volumeRanges: [] } }),
+    ).toStrictEqual([])
+  })
+})
+
+describe('alignPlansCharges', () => {
+  const buildCharge = (id: string, billableMetricId: string) =>
+    ({ id, billableMetric: { id: billableMetricId } }) as NonNullable<
+      EditPlanFragment['charges']
+    >[number]
+
+  it('lines up the charges of each plan by billable metric', () => {
+    const rows = alignPlansCharges([
+      { charges: [buildCharge('a1', 'bm1'), buildCharge('a2', 'bm2')] },
+      { charges: [buildCharge('b1', 'bm2'), buildCharge('b2', 'bm3'), buildCharge('b3', 'bm2')] },
+      { charges: null },
+    ])
+
+    expect(
+      rows.map(({ key, charges }) => [key, charges.map((charge) => charge?.id)]),
+    ).toStrictEqual([
+      ['bm1-0', ['a1', undefined, undefined]],
+      ['bm2-0', ['a2', 'b1', undefined]],
+      ['bm3-0', [undefined, 'b2', undefined]],
+      ['bm2-1', [undefined, 'b3', undefined]],
+    ])
+  })
+})
+
+describe('hasComparedValuesDifference', () => {
+  it('detects different values', () => {
+    expect(hasComparedValuesDifference([{ amount: '1' }, { amount: '1' }])).toBeFalsy()
+    expect(hasComparedValuesDifference([{ amount: '1' }, { amount: '2' }])).toBeTruthy()
+    expect(hasComparedValuesDifference([undefined, null])).toBeFalsy()
+    expect(hasComparedValuesDifference(['monthly', undefined])).toBeTruthy()
+  })
+})
+
+describe('lintPlan', () => {
+  const buildCharge = (charge: Partial<LocalChargeInput>) =>
+    ({
+      billableMetric: {
+        id: 'bm-1',
+        code: 'api_calls',
+        name: 'API calls',
+        aggregationType: AggregationTypeEnum.CountAgg,
+        recurring: false,
+      },
+      chargeModel: ChargeModelEnum.Standard,
+      payInAdvance: false,
+      prorated: false,
+      properties: { amount: '1' },
+      filters: [],
+      ...charge,
+    }) as LocalChargeInput
+  const buildPlan = (plan: Partial<PlanFormInput>) =>
+    ({
+      name: 'Plan',
+      code: 'plan',
+      interval: PlanInterval.Monthly,
+      payInAdvance: false,
+      amountCents: '100',
+      amountCurrency: CurrencyEnum.Usd,
+      charges: [],
+      ...plan,
+    }) as PlanFormInput
+
+  it('returns no warning for a consistent plan', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          charges: [buildCharge({})],
+          minimumCommitment: { amountCents: '200' },
+          nonRecurringUsageThresholds: [{ amountCents: 150 }],
+        }),
+      ),
+    ).toEqual([])
+  })
+
+  it('warns about pay in advance charges on metrics that cannot be billed in advance', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          charges: [
+            buildCharge({ payInAdvance: true }),
+            buildCharge({
+              payInAdvance: true,
+              billableMetric: {
+                id: 'bm-2',
+                code: 'seats',
+                name: 'Seats',
+                aggregationType: AggregationTypeEnum.MaxAgg,
+                recurring: false,
+              },
+            }),
+          ],
+        }),
+      ),
+    ).toEqual([{ rule: PlanLintRuleEnum.PayInAdvanceNotSupported, chargeIndex: 1 }])
+  })
+
+  it('warns about free units covering the first package, on charges and filters', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          charges: [
+            buildCharge({
+              chargeModel: ChargeModelEnum.Package,
+              properties: { amount: '1', packageSize: 10, freeUnits: 10 },
+              filters: [
+                { values: ['a'], properties: { amount: '1', packageSize: 10, freeUnits: 5 } },
+                { values: ['b'], properties: { amount: '1', packageSize: 10, freeUnits: 20 } },
+              ],
+            }),
+          ],
+        }),
+      ),
+    ).toEqual([
+      { rule: PlanLintRuleEnum.FreeUnitsCoverFirstPackage, chargeIndex: 0 },
+      { rule: PlanLintRuleEnum.FreeUnitsCoverFirstPackage, chargeIndex: 0, filterIndex: 1 },
+    ])
+  })
+
+  it('only checks free units on package charges', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          charges: [
+            // Left over from a previous charge model, not billed
+            buildCharge({ properties: { amount: '1', packageSize: 10, freeUnits: 20 } }),
+            buildCharge({
+              chargeModel: ChargeModelEnum.Graduated,
+              properties: {
+                graduatedRanges: [
+                  { fromValue: '0', toValue: '10', flatAmount: '0', perUnitAmount: '0' },
+                  { fromValue: '11', toValue: null, flatAmount: '0', perUnitAmount: '1' },
+                ],
+              },
+            }),
+            buildCharge({
+              chargeModel: ChargeModelEnum.Percentage,
+              properties: { rate: '1', freeUnitsPerEvents: 100 },
+            }),
+          ],
+        }),
+      ),
+    ).toEqual([])
+  })
+
+  it('warns about filters duplicating the values of another filter', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          charges: [
+            buildCharge({
+              filters: [
+                { values: ['a', 'b'], properties: { amount: '1' } },
+                { values: ['c'], properties: { amount: '1' } },
+                { values: ['b', 'a'], properties: { amount: '2' } },
+              ],
+            }),
+          ],
+        }),
+      ),
+    ).toEqual([{ rule: PlanLintRuleEnum.DuplicatedFilter, chargeIndex: 0, filterIndex: 2 }])
+  })
+
+  it('warns about percentage charges with a zero minimum and maximum per transaction', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          charges: [
+            buildCharge({
+              chargeModel: ChargeModelEnum.Percentage,
+              properties: { rate: '1', perTransactionMinAmount: '0', perTransactionMaxAmount: '0' },
+            }),
+            buildCharge({
+              chargeModel: ChargeModelEnum.Percentage,
+              properties: { rate: '1', perTransactionMinAmount: '0' },
+            }),
+            buildCharge({
+              chargeModel: ChargeModelEnum.Percentage,
+              properties: {
+                rate: '1',
+                perTransactionMinAmount: 0 as unknown as string,
+                perTransactionMaxAmount: 0 as unknown as string,
+              },
+            }),
+          ],
+        }),
+      ),
+    ).toEqual([
+      { rule: PlanLintRuleEnum.FreePercentageTransactions, chargeIndex: 0 },
+      { rule: PlanLintRuleEnum.FreePercentageTransactions, chargeIndex: 2 },
+    ])
+  })
+
+  it('warns about thresholds and minimum commitment lower than the subscription fee', () => {
+    expect(
+      lintPlan(
+        buildPlan({
+          minimumCommitment: { amountCents: '50' },
+          recurringUsageThreshold: { amountCents: 80, recurring: true },
+        }),
+      ),
+    ).toEqual([
+      { rule: PlanLintRuleEnum.UsageThresholdBelowFixedFee },
+      { rule: PlanLintRuleEnum.MinimumCommitmentBelowFixedFee },
+    ])
+
+    expect(
+      lintPlan(
+        buildPlan({
+          amountCents: '0',
+          minimumCommitment: { amountCents: '50' },
+          recurringUsageThreshold: { amountCents: 80, recurring: true },
+        }),
+      ),
+    ).toEqual([])
+  })
+})
+
+describe('currency variants', () => {
+  const conversion = {
+    amountCurrency: CurrencyEnum.Eur,
+    exchangeRate: '0.9137',
+    roundingRule: PriceRoundingRuleEnum.CurrencyPrecision,
+  }
+
+  describe('convertAmountToCurrencyVariant', () => {
+    it('applies the rounding rule', () => {
+      expect(convertAmountToCurrencyVariant('10', conversion)).toBe('9.14')
+      expect(
+        convertAmountToCurrencyVariant('10', {
+          ...conversion,
+          roundingRule: PriceRoundingRuleEnum.WholeUnit,
+        }),
+      ).toBe('10')
+      expect(
+        convertAmountToCurrencyVariant('10', {
+          ...conversion,
+          roundingRule: PriceRoundingRuleEnum.None,
+        }),
+      ).toBe('9.137')
+    })
+
+    it('uses the precision of the variant currency', () => {
+      expect(
+        convertAmountToCurrencyVariant('10', {
+          amountCurrency: CurrencyEnum.Jpy,
+          exchangeRate: '149.53',
+          roundingRule: PriceRoundingRuleEnum.CurrencyPrecision,
+        }),
+      ).toBe('1495')
+    })
+
+    it('keeps empty amounts empty', () => {
+      expect(convertAmountToCurrencyVariant(undefined, conversion)).toBeUndefined()
+      expect(convertAmountToCurrencyVariant('', conversion)).toBeUndefined()
+      expect(convertAmountToCurrencyVariant('0', conversion)).toBe('0')
+    })
+  })
+
+  describe('convertPropertiesToCurrencyVariant', () => {
+    it('converts prices and keeps rates and units', () => {
+      expect(
+        convertPropertiesToCurrencyVariant(
+          {
+            rate: '1.5',
+            fixedAmount: '2',
+            freeUnitsPerEvents: 3,
+            perTransactionMinAmount: '1',
+          },
+          conversion,
+        ),
+      ).toEqual(
+        expect.objectContaining({
+          rate: '1.5',
+          fixedAmount: '1.83',
+          freeUnitsPerEvents: 3,
+          perTransactionMinAmount: '0.91',
+          perTransactionMaxAmount: undefined,
+        }),
+      )
+
+      expect(
+        convertPropertiesToCurrencyVariant(
+          {
+            graduatedRanges: [
+              { fromValue: '0', toValue: '10', perUnitAmount: '1', flatAmount: '0' },
+              { fromValue: '11', toValue: null, perUnitAmount: '0.5', flatAmount: '10' },
+            ],
+          },
+          conversion,
+        )?.graduatedRanges,
+      ).toEqual([
+        { fromValue: '0', toValue: '10', perUnitAmount: '0.91', flatAmount: '0' },
+        { fromValue: '11', toValue: null, perUnitAmount: '0.46', flatAmount: '9.14' },
+      ])
+    })
+  })
+
+  describe('getCurrencyVariantProperties', () => {
+    it('returns the converted prices of derived variants and the entered prices otherwise', () => {
+      const properties = { amount: '10' }
+
+      expect(
+        getCurrencyVariantProperties(properties, undefined, { ...conversion, isDerived: true })
+          ?.amount,
+      ).toBe('9.14')
+      expect(
+        getCurrencyVariantProperties(
+          properties,
+          { [CurrencyEnum.Eur]: { amount: '12' } },
+          { amountCurrency: CurrencyEnum.Eur, isDerived: false },
+        )?.amount,
+      ).toBe('12')
+      expect(
+        getCurrencyVariantProperties(properties, undefined, {
+          amountCurrency: CurrencyEnum.Eur,
+          isDerived: false,
+        }),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('hasValidCurrencyVariantPrices', () => {
+    const manualVariant = { amountCurrency: CurrencyEnum.Eur, isDerived: false }
+    const buildCharge = (charge: Partial<LocalChargeInput>) =>
+      ({
+        chargeModel: ChargeModelEnum.Standard,
+        properties: { amount: '10' },
+        filters: [],
+        ...charge,
+      }) as LocalChargeInput
+
+    it('requires prices for every charge and filter of a manual variant', () => {
+      expect(hasValidCurrencyVariantPrices([buildCharge({})], manualVariant)).toBe(false)
+      expect(
+        hasValidCurrencyVariantPrices(
+          [
+            buildCharge({
+              currencyVariantProperties: { [CurrencyEnum.Eur]: { amount: '9' } },
+              filters: [{ values: ['a'], properties: { amount: '5' } }],
+            }),
+          ],
+          manualVariant,
+        ),
+      ).toBe(false)
+      expect(
+        hasValidCurrencyVariantPrices(
+          [
+            buildCharge({
+              currencyVariantProperties: { [CurrencyEnum.Eur]: { amount: '9' } },
+              filters: [
+                {
+                  values: ['a'],
+                  properties: { amount: '5' },
+                  currencyVariantProperties: { [CurrencyEnum.Eur]: { amount: '4' } },
+                },
+              ],
+            }),
+          ],
+          manualVariant,
+        ),
+      ).toBe(true)
+    })
+
+    it('validates the prices of a manual variant with the charge rules', () => {
+      expect(
+        hasValidCurrencyVariantPrices(
+          [buildCharge({ currencyVariantProperties: { [CurrencyEnum.Eur]: { amount: '' } } })],
+          manualVariant,
+        ),
+      ).toBe(false)
+    })
+
+    it('accepts derived variants, converted from the plan prices', () => {
+      expect(
+        hasValidCurrencyVariantPrices([buildCharge({})], { ...manualVariant, isDerived: true }),
+      ).toBe(true)
+    })
+  })
+
+  describe('omitCurrencyVariantProperties', () => {
+    it('removes the prices of the currency from the charges and their filters', () => {
+      const [charge] = omitCurrencyVariantProperties(
+        [
+          {
+            currencyVariantProperties: {
+              [CurrencyEnum.Eur]: { amount: '12' },
+              [CurrencyEnum.Gbp]: { amount: '8' },
+            },
+            filters: [
+              {
+                properties: { amount: '5' },
+                values: [],
+                currencyVariantProperties: { [CurrencyEnum.Eur]: { amount: '6' } },
+              },
+            ],
+          } as unknown as LocalChargeInput,
+        ],
+        CurrencyEnum.Eur,
+      )
+
+      expect(charge.currencyVariantProperties).toEqual({ [CurrencyEnum.Gbp]: { amount: '8' } })
+      expect(charge.filters?.[0].currencyVariantProperties).toEqual({})
+      expect(charge.filters?.[0].properties).toEqual({ amount: '5' })
+    })
+  })
+})
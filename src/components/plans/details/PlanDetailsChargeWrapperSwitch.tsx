@@ -4,6 +4,7 @@ import styled from 'styled-components'
 import { Alert, Chip } from '~/components/designSystem'
 import DetailsJSONDisplay from '~/components/details/DetailsJSONDisplay'
 import DetailsTableDisplay from '~/components/details/DetailsTableDisplay'
+import { ChargeTierCurve } from '~/components/plans/ChargeTierCurve'
 import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
 import { ChargeModelEnum, CurrencyEnum, Maybe, Properties } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
@@ -103,6 +104,8 @@ const PlanDetailsChargeWrapperSwitch = ({
               })
             })()}
           />
+
+          <ChargeTierCurve chargeModel={chargeModel} currency={currency} properties={values} />
         </ChargeContentWrapper>
       )}
       {chargeModel === ChargeModelEnum.GraduatedPercentage &&
@@ -132,6 +135,8 @@ const PlanDetailsChargeWrapperSwitch = ({
                 })
               })()}
             />
+
+            <ChargeTierCurve chargeModel={chargeModel} currency={currency} properties={values} />
           </ChargeContentWrapper>
         )}
       {chargeModel === ChargeModelEnum.Percentage && (
@@ -210,6 +215,8 @@ const PlanDetailsChargeWrapperSwitch = ({
               })
             })()}
           />
+
+          <ChargeTierCurve chargeModel={chargeModel} currency={currency} properties={values} />
         </ChargeContentWrapper>
       )}
       {chargeModel === ChargeModelEnum.Custom && (
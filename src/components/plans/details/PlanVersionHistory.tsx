@@ -0,0 +1,322 @@
+import { gql } from '@apollo/client'
+import { useMemo, useRef, useState } from 'react'
+
+import { Card, Chip, InfiniteScroll, Table, Typography } from '~/components/designSystem'
+import { ComboBox } from '~/components/form'
+import { PlanVersionSnapshot } from '~/components/plans/types'
+import {
+  diffPlanVersions,
+  PlanVersionChange,
+  PlanVersionChangeKindEnum,
+  PlanVersionDiffSectionEnum,
+} from '~/components/plans/utils'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import {
+  CurrencyEnum,
+  PlanVersionImpactedSubscriptionFragmentDoc,
+  useGetPlanVersionsForPlanDetailsQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+import { DetailsSectionTitle } from '~/styles/detailsPage'
+
+import {
+  PlanVersionImpactedSubscriptionsDialog,
+  PlanVersionImpactedSubscriptionsDialogRef,
+} from './PlanVersionImpactedSubscriptionsDialog'
+
+gql`
+  query getPlanVersionsForPlanDetails($planId: ID!, $page: Int, $limit: Int) {
+    planVersions(planId: $planId, page: $page, limit: $limit) {
+      collection {
+        id
+        version
+        createdAt
+        cascadeUpdates
+        snapshot
+        author {
+          id
+          email
+        }
+        impactedSubscriptions {
+          id
+          ...PlanVersionImpactedSubscription
+        }
+      }
+      metadata {
+        currentPage
+        totalPages
+      }
+    }
+  }
+
+  ${PlanVersionImpactedSubscriptionFragmentDoc}
+`
+
+const DIFF_SECTIONS_TRANSLATION_KEYS: Record<PlanVersionDiffSectionEnum, string> = {
+  [PlanVersionDiffSectionEnum.plan]: 'text_179242047933675nqcb520qq',
+  [PlanVersionDiffSectionEnum.charges]: 'text_17924204793385g4keo9qx7z',
+  [PlanVersionDiffSectionEnum.minimumCommitment]: 'text_1792420479341jlq56vmzx9h',
+  [PlanVersionDiffSectionEnum.usageThresholds]: 'text_1724179887722baucvj7bvc1',
+}
+
+const CHANGE_KINDS_TRANSLATION_KEYS: Record<PlanVersionChangeKindEnum, string> = {
+  [PlanVersionChangeKindEnum.added]: 'text_17924204793439taocyoiu5h',
+  [PlanVersionChangeKindEnum.removed]: 'text_179242047934552hjevdsu5f',
+  [PlanVersionChangeKindEnum.updated]: 'text_179242047934765ogwhezofp',
+}
+
+const PlanVersionHistory = ({ planId }: { planId?: string }) => {
+  const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const impactedSubscriptionsDialogRef = useRef<PlanVersionImpactedSubscriptionsDialogRef>(null)
+  const [fromVersionId, setFromVersionId] = useState<string>()
+  const [toVersionId, setToVersionId] = useState<string>()
+  const { data, loading, error, fetchMore } = useGetPlanVersionsForPlanDetailsQuery({
+    variables: { planId: planId as string, limit: 20 },
+    skip: !planId,
+    notifyOnNetworkStatusChange: true,
+  })
+  const versions = useMemo(() => data?.planVersions.collection || [], [data])
+
+  // Versions are sorted from the latest one, compare the two last revisions by default
+  const fromVersion = versions.find(({ id }) => id === fromVersionId) || versions[1]
+  const toVersion = versions.find(({ id }) => id === toVersionId) || versions[0]
+
+  const changes = useMemo(() => {
+    if (!fromVersion || !toVersion || fromVersion.id === toVersion.id) return []
+
+    return diffPlanVersions(
+      fromVersion.snapshot as PlanVersionSnapshot,
+      toVersion.snapshot as PlanVersionSnapshot,
+    )
+  }, [fromVersion, toVersion])
+
+  const currency =
+    (toVersion?.snapshot as PlanVersionSnapshot | undefined)?.amountCurrency || CurrencyEnum.Usd
+
+  const versionsComboboxData = versions.map(({ id, version, createdAt }) => ({
+    value: id,
+    label: translate('text_1792420479349ikey2xl1ocm', {
+      version,
+      date: formatTimeOrgaTZ(createdAt),
+    }),
+  }))
+
+  const formatChangeValue = (change: PlanVersionChange, value?: string) => {
+    if (value === undefined) return ''
+
+    // Plan, commitment and threshold amounts are stored in cents, charge properties are not
+    const attribute = change.path[change.path.length - 1]
+
+    if (attribute.endsWith('Cents') && !isNaN(Number(value))) {
+      return intlFormatNumber(deserializeAmount(value, currency), {
+        currencyDisplay: 'symbol',
+        currency,
+      })
+    }
+
+    return value
+  }
+
+  const renderChangeValues = (change: PlanVersionChange) => {
+    if (change.kind === PlanVersionChangeKindEnum.updated) {
+      return `${formatChangeValue(change, change.before)} → ${formatChangeValue(change, change.after)}`
+    }
+
+    return formatChangeValue(
+      change,
+      change.kind === PlanVersionChangeKindEnum.added ? change.after : change.before,
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-12">
+      <section>
+        <DetailsSectionTitle variant="subhead" noWrap>
+          {translate('text_17924204793009cwu2kapum1')}
+        </DetailsSectionTitle>
+
+        <InfiniteScroll
+          onBottom={() => {
+            const { currentPage = 0, totalPages = 0 } = data?.planVersions.metadata || {}
+
+            currentPage < totalPages &&
+              !loading &&
+              fetchMore({
+                variables: { page: currentPage + 1 },
+              })
+          }}
+        >
+          <Table
+            name="plan-versions"
+            containerSize={{ default: 0 }}
+            data={versions}
+            isLoading={loading}
+            hasError={!!error}
+            placeholder={{
+              emptyState: {
+                title: translate('text_1792420479302qy94ilyxtae'),
+                subtitle: translate('text_1792420479304lst6blxma1u'),
+              },
+            }}
+            columns={[
+              {
+                key: 'version',
+                title: translate('text_1792420479306mqt9gdupqda'),
+                minWidth: 80,
+                content: ({ version }) => (
+                  <Typography variant="bodyHl" color="grey700">
+                    {translate('text_17924204793083rof1wt20pu', { version })}
+                  </Typography>
+                ),
+              },
+              {
+                key: 'author.email',
+                title: translate('text_1792420479310hvk1uvy01qa'),
+                maxSpace: true,
+                content: ({ author }) => (
+                  <Typography variant="body" color="grey700" noWrap>
+                    {author?.email || '-'}
+                  </Typography>
+                ),
+              },
+              {
+                key: 'createdAt',
+                title: translate('text_17924204793134r1x98tuzeg'),
+                minWidth: 160,
+                content: ({ createdAt }) => (
+                  <Typography variant="body" color="grey600">
+                    {formatTimeOrgaTZ(createdAt, 'LLL. dd, yyyy HH:mm')}
+                  </Typography>
+                ),
+              },
+              {
+                key: 'cascadeUpdates',
+                title: translate('text_1792420479315lte1sxleaz1'),
+                minWidth: 160,
+                content: ({ cascadeUpdates, impactedSubscriptions }) => {
+                  const count = cascadeUpdates ? impactedSubscriptions.length : 0
+
+                  return (
+                    <Typography variant="body" color="grey600">
+                      {translate('text_1792420479317ofdzjmixwn6', { count }, count)}
+                    </Typography>
+                  )
+                },
+              },
+            ]}
+            actionColumn={(planVersion) => {
+              const index = versions.findIndex(({ id }) => id === planVersion.id)
+              const previousVersion = versions[index + 1]
+
+              return [
+                previousVersion
+                  ? {
+                      startIcon: 'switch',
+                      title: translate('text_17924204793195pjngbi5jot'),
+                      onAction: () => {
+                        setFromVersionId(previousVersion.id)
+                        setToVersionId(planVersion.id)
+                      },
+                    }
+                  : null,
+                planVersion.cascadeUpdates && planVersion.impactedSubscriptions.length
+                  ? {
+                      startIcon: 'eye',
+                      title: translate('text_17924204793211tb9p53exq3'),
+                      onAction: () => {
+                        impactedSubscriptionsDialogRef.current?.openDialog({
+                          version: planVersion.version,
+                          subscriptions: planVersion.impactedSubscriptions,
+                        })
+                      },
+                    }
+                  : null,
+              ]
+            }}
+          />
+        </InfiniteScroll>
+      </section>
+
+      {versions.length > 1 && (
+        <section className="flex flex-col gap-4">
+          <DetailsSectionTitle variant="subhead" noWrap>
+            {translate('text_1792420479323mtfswemcohg')}
+          </DetailsSectionTitle>
+
+          <div className="flex gap-4">
+            <ComboBox
+              disableClearable
+              className="flex-1"
+              name="fromVersion"
+              label={translate('text_1792420479325r9ns798o6fy')}
+              placeholder={translate('text_17924204793301ea7chliwk1')}
+              data={versionsComboboxData}
+              value={fromVersion?.id}
+              onChange={setFromVersionId}
+            />
+            <ComboBox
+              disableClearable
+              className="flex-1"
+              name="toVersion"
+              label={translate('text_1792420479328j0oygh72tnd')}
+              placeholder={translate('text_17924204793301ea7chliwk1')}
+              data={versionsComboboxData}
+              value={toVersion?.id}
+              onChange={setToVersionId}
+            />
+          </div>
+
+          {!changes.length ? (
+            <Typography variant="caption">
+              {fromVersion?.id === toVersion?.id
+                ? translate('text_1792420479332pfdo8zxt4w1')
+                : translate('text_179242047933447uc647mwtu')}
+            </Typography>
+          ) : (
+            Object.values(PlanVersionDiffSectionEnum).map((section) => {
+              const sectionChanges = changes.filter((change) => change.section === section)
+
+              if (!sectionChanges.length) return null
+
+              return (
+                <div className="flex flex-col gap-2" key={`plan-version-diff-section-${section}`}>
+                  <Typography variant="bodyHl" color="grey700">
+                    {translate(DIFF_SECTIONS_TRANSLATION_KEYS[section])}
+                  </Typography>
+                  <Card className="gap-0 p-0">
+                    {sectionChanges.map((change, i) => (
+                      <div
+                        key={`plan-version-diff-${section}-${i}`}
+                        className="flex items-center justify-between gap-4 px-4 py-3 not-last:shadow-b"
+                      >
+                        <div className="flex items-center gap-3 overflow-hidden">
+                          <Chip
+                            size="small"
+                            label={translate(CHANGE_KINDS_TRANSLATION_KEYS[change.kind])}
+                          />
+                          <Typography variant="body" color="grey700" noWrap>
+                            {change.path.join(' › ')}
+                          </Typography>
+                        </div>
+                        <Typography variant="body" color="grey600" noWrap>
+                          {renderChangeValues(change)}
+                        </Typography>
+                      </div>
+                    ))}
+                  </Card>
+                </div>
+              )
+            })
+          )}
+        </section>
+      )}
+
+      <PlanVersionImpactedSubscriptionsDialog ref={impactedSubscriptionsDialogRef} />
+    </div>
+  )
+}
+
+export default PlanVersionHistory
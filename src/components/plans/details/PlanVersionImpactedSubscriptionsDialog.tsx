@@ -0,0 +1,94 @@
+import { gql } from '@apollo/client'
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+import { generatePath, Link } from 'react-router-dom'
+
+import { Button, Dialog, DialogRef, Typography } from '~/components/designSystem'
+import { CustomerSubscriptionDetailsTabsOptionsEnum } from '~/core/constants/tabsOptions'
+import { CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE } from '~/core/router'
+import { PlanVersionImpactedSubscriptionFragment } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment PlanVersionImpactedSubscription on Subscription {
+    id
+    name
+    externalId
+    customer {
+      id
+      displayName
+      externalId
+    }
+  }
+`
+
+type PlanVersionImpactedSubscriptionsDialogProps = {
+  version: number
+  subscriptions: PlanVersionImpactedSubscriptionFragment[]
+}
+
+export type PlanVersionImpactedSubscriptionsDialogRef = {
+  openDialog: (data: PlanVersionImpactedSubscriptionsDialogProps) => void
+  closeDialog: () => void
+}
+
+export const PlanVersionImpactedSubscriptionsDialog =
+  forwardRef<PlanVersionImpactedSubscriptionsDialogRef>((_, ref) => {
+    const { translate } = useInternationalization()
+    const dialogRef = useRef<DialogRef>(null)
+    const [localData, setLocalData] = useState<PlanVersionImpactedSubscriptionsDialogProps>()
+
+    useImperativeHandle(ref, () => ({
+      openDialog: (data) => {
+        setLocalData(data)
+        dialogRef.current?.openDialog()
+      },
+      closeDialog: () => {
+        setLocalData(undefined)
+        dialogRef.current?.closeDialog()
+      },
+    }))
+
+    return (
+      <Dialog
+        ref={dialogRef}
+        title={translate('text_1792420479351rx5v531ydp7', { version: localData?.version })}
+        description={translate('text_1792420479353k9b6xzzpvvs')}
+        actions={({ closeDialog }) => (
+          <Button variant="quaternary" onClick={closeDialog}>
+            {translate('text_62f50d26c989ab03196884ae')}
+          </Button>
+        )}
+      >
+        <div className="mb-8 flex flex-col">
+          {localData?.subscriptions.map((subscription) => (
+            <div
+              key={`plan-version-impacted-subscription-${subscription.id}`}
+              className="flex items-center justify-between gap-4 py-3 shadow-b"
+            >
+              <div className="flex flex-col overflow-hidden">
+                <Link
+                  to={generatePath(CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE, {
+                    customerId: subscription.customer.id,
+                    subscriptionId: subscription.id,
+                    tab: CustomerSubscriptionDetailsTabsOptionsEnum.overview,
+                  })}
+                >
+                  <Typography variant="bodyHl" color="grey700" noWrap>
+                    {subscription.name || subscription.externalId}
+                  </Typography>
+                </Link>
+                <Typography variant="caption" noWrap>
+                  {subscription.externalId}
+                </Typography>
+              </div>
+              <Typography variant="body" color="grey600" noWrap>
+                {subscription.customer.displayName || subscription.customer.externalId}
+              </Typography>
+            </div>
+          ))}
+        </div>
+      </Dialog>
+    )
+  })
+
+PlanVersionImpactedSubscriptionsDialog.displayName = 'PlanVersionImpactedSubscriptionsDialog'
@@ -1,13 +1,21 @@
 import {
+  BillableMetric,
   BillableMetricForPlanFragment,
+  Charge,
+  ChargeFilter,
   ChargeFilterInput,
   ChargeInput,
+  Commitment,
   CommitmentInput,
   CreatePlanInput,
+  CurrencyEnum,
+  Plan,
+  PriceRoundingRuleEnum,
   PropertiesInput,
   TaxForPlanAndChargesInPlanFormFragment,
   TaxForPlanChargeAccordionFragment,
   TaxForPlanSettingsSectionFragment,
+  UsageThreshold,
   UsageThresholdInput,
 } from '~/generated/graphql'
 
@@ -20,9 +28,13 @@ export type LocalPropertiesInput = Omit<PropertiesInput, 'groupedBy'> & {
   groupedBy?: string | null
 }
 
+// NOTE: prices entered by hand for each currency variant of the plan
+export type LocalCurrencyVariantProperties = Partial<Record<CurrencyEnum, LocalPropertiesInput>>
+
 export type LocalChargeFilterInput = Omit<ChargeFilterInput, 'properties' | 'values'> & {
   properties: LocalPropertiesInput
   values: string[] // This value should be defined using transformFilterObjectToString method
+  currencyVariantProperties?: LocalCurrencyVariantProperties
 }
 
 export type LocalChargeInput = Omit<ChargeInput, 'billableMetricId' | 'filters' | 'properties'> & {
@@ -32,13 +44,24 @@ export type LocalChargeInput = Omit<ChargeInput, 'billableMetricId' | 'filters'
   filters?: LocalChargeFilterInput[]
   // NOTE: this is used for display purpose but will be replaced by taxCodes[] on save
   taxes?: TaxForPlanChargeAccordionFragment[] | null
+  currencyVariantProperties?: LocalCurrencyVariantProperties
+}
+
+export type LocalPlanCurrencyVariantInput = {
+  id?: string
+  amountCurrency: CurrencyEnum
+  // NOTE: when true, prices are converted from the plan prices instead of being entered by hand
+  isDerived: boolean
+  exchangeRate?: string
+  roundingRule?: PriceRoundingRuleEnum
+  amountCents?: string
 }
 
 export type LocalUsageThresholdInput = UsageThresholdInput
 
 export type PlanFormInput = Omit<
   CreatePlanInput,
-  'clientMutationId' | 'charges' | 'usageThresholds'
+  'clientMutationId' | 'charges' | 'usageThresholds' | 'currencyVariants'
 > & {
   charges: LocalChargeInput[]
   // NOTE: this is used for display purpose but will be replaced by taxCodes[] on save
@@ -48,4 +71,32 @@ export type PlanFormInput = Omit<
   nonRecurringUsageThresholds?: LocalUsageThresholdInput[]
   recurringUsageThreshold?: LocalUsageThresholdInput
   cascadeUpdates?: boolean
+  currencyVariants?: LocalPlanCurrencyVariantInput[]
+}
+
+// NOTE: shape of the plan saved on each revision, as returned by the API in PlanVersion.snapshot
+export type PlanVersionSnapshot = Pick<
+  Plan,
+  'amountCents' | 'amountCurrency' | 'interval' | 'payInAdvance' | 'trialPeriod'
+> & {
+  charges?: Array<
+    Pick<
+      Charge,
+      | 'id'
+      | 'chargeModel'
+      | 'invoiceDisplayName'
+      | 'invoiceable'
+      | 'minAmountCents'
+      | 'payInAdvance'
+      | 'properties'
+      | 'prorated'
+    > & {
+      billableMetric: Pick<BillableMetric, 'id' | 'code' | 'name'>
+      filters?: Array<Pick<ChargeFilter, 'invoiceDisplayName' | 'properties' | 'values'>> | null
+    }
+  > | null
+  minimumCommitment?: Pick<Commitment, 'amountCents' | 'invoiceDisplayName'> | null
+  usageThresholds?: Array<
+    Pick<UsageThreshold, 'id' | 'amountCents' | 'recurring' | 'thresholdDisplayName'>
+  > | null
 }
@@ -1,5 +1,1242 @@
-import { ALL_FILTER_VALUES } from '~/core/constants/form'
+import Decimal from 'decimal.js'
+import _omit from 'lodash/omit'
+import { DateTime } from 'luxon'
+
+import { ALL_FILTER_VALUES, ONE_TIER_EXAMPLE_UNITS } from '~/core/constants/form'
+import { deserializeAmount, serializeAmount } from '~/core/serializers/serializeAmount'
+import { parseCsvRows } from '~/core/utils/csv'
+import { chargeSchema } from '~/formValidation/chargeSchema'
+import {
+  AggregationTypeEnum,
+  ChargeModelEnum,
+  CurrencyEnum,
+  EditPlanFragment,
+  PlanInterval,
+  PriceRoundingRuleEnum,
+} from '~/generated/graphql'
+
+import {
+  LocalChargeInput,
+  LocalCurrencyVariantProperties,
+  LocalPlanCurrencyVariantInput,
+  LocalPropertiesInput,
+  PlanFormInput,
+  PlanVersionSnapshot,
+} from './types'
 
 export const transformFilterObjectToString = (key: string, value?: string): string => {
   return `{ "${[key]}": "${value || ALL_FILTER_VALUES}" }`
 }
+
+export const SIMULATED_CHARGE_MODELS = [
+  ChargeModelEnum.Standard,
+  ChargeModelEnum.Package,
+  ChargeModelEnum.Graduated,
+  ChargeModelEnum.Volume,
+  ChargeModelEnum.Percentage,
+  ChargeModelEnum.GraduatedPercentage,
+]
+
+export type SimulatedUsage = {
+  units?: string | number
+  // Only used by the percentage charge model, which can bill a fixed amount per event
+  eventsCount?: string | number
+}
+
+export type SimulatedUsages = Record<string, SimulatedUsage | undefined>
+
+export const buildSimulatedUsageKey = (chargeIndex: number, filterIndex?: number) =>
+  typeof filterIndex === 'number' ? `${chargeIndex}-${filterIndex}` : `${chargeIndex}-default`
+
+const toDecimal = (value?: string | number | null) => {
+  const number = Number(value)
+
+  return new Decimal(isNaN(number) ? 0 : number)
+}
+
+// A zero amount is a set amount, only an empty input is not
+const hasAmount = (value?: string | number | null) =>
+  value !== undefined && value !== null && value !== ''
+
+type TieredRange = {
+  fromValue?: string | number | null
+  toValue?: string | number | null
+  flatAmount?: string | null
+  unitAmount: Decimal
+}
+
+/**
+ * Ranges are stored as contiguous tiers: the first one starts at 0 and each following one
+ * starts right after the previous toValue. A tier is billed for the units above the previous
+ * toValue, and its flat fee is billed as soon as one unit reaches it.
+ */
+const computeGraduatedRangesAmount = (ranges: TieredRange[], units: Decimal) => {
+  if (units.lessThanOrEqualTo(0)) return new Decimal(0)
+
+  return ranges.reduce((total, range, i) => {
+    const lowerBound = i === 0 ? new Decimal(0) : toDecimal(ranges[i - 1].toValue)
+
+    if (units.lessThanOrEqualTo(lowerBound)) return total
+
+    const upperBound =
+      range.toValue === null || range.toValue === undefined || range.toValue === ''
+        ? units
+        : Decimal.min(units, toDecimal(range.toValue))
+    const rangeUnits = Decimal.max(upperBound.minus(lowerBound), 0)
+
+    return total.plus(rangeUnits.mul(range.unitAmount)).plus(toDecimal(range.flatAmount))
+  }, new Decimal(0))
+}
+
+const computeVolumeRangesAmount = (ranges: TieredRange[], units: Decimal) => {
+  if (units.lessThanOrEqualTo(0) || !ranges.length) return new Decimal(0)
+
+  const matchingRange =
+    ranges.find(
+      (range) =>
+        range.toValue === null ||
+        range.toValue === undefined ||
+        range.toValue === '' ||
+        units.lessThanOrEqualTo(toDecimal(range.toValue)),
+    ) || ranges[ranges.length - 1]
+
+  return units.mul(matchingRange.unitAmount).plus(toDecimal(matchingRange.flatAmount))
+}
+
+/**
+ * Events are assumed to share the total amount evenly, as the simulator does not know each
+ * event value. Free units are consumed by the first events until one of the free thresholds
+ * is reached, then the fixed amount and the transaction limits apply to the remaining events.
+ */
+const computePercentageAmount = (properties: LocalPropertiesInput, usage: SimulatedUsage) => {
+  const units = toDecimal(usage.units)
+
+  if (units.lessThanOrEqualTo(0)) return new Decimal(0)
+
+  const eventsCount = Decimal.max(toDecimal(usage.eventsCount || 1).floor(), 1)
+  const eventAmount = units.div(eventsCount)
+  const rate = toDecimal(properties.rate).div(100)
+  const freeEvents = Decimal.min(toDecimal(properties.freeUnitsPerEvents), eventsCount)
+  const freeAggregation = toDecimal(properties.freeUnitsPerTotalAggregation)
+
+  let freeUnits = new Decimal(0)
+
+  if (freeEvents.greaterThan(0) && freeAggregation.greaterThan(0)) {
+    freeUnits = Decimal.min(freeEvents.mul(eventAmount), freeAggregation)
+  } else if (freeEvents.greaterThan(0)) {
+    freeUnits = freeEvents.mul(eventAmount)
+  } else if (freeAggregation.greaterThan(0)) {
+    freeUnits = freeAggregation
+  }
+
+  const paidUnits = Decimal.max(units.minus(freeUnits), 0)
+  const paidEvents = paidUnits.div(eventAmount).ceil()
+
+  if (paidEvents.lessThanOrEqualTo(0)) return new Decimal(0)
+
+  const fixedAmount = toDecimal(properties.fixedAmount)
+  const hasMinAmount = hasAmount(properties.perTransactionMinAmount)
+  const hasMaxAmount = hasAmount(properties.perTransactionMaxAmount)
+
+  if (!hasMinAmount && !hasMaxAmount) {
+    return paidUnits.mul(rate).plus(paidEvents.mul(fixedAmount))
+  }
+
+  let paidEventAmount = paidUnits.div(paidEvents).mul(rate).plus(fixedAmount)
+
+  if (hasMinAmount) {
+    paidEventAmount = Decimal.max(paidEventAmount, toDecimal(properties.perTransactionMinAmount))
+  }
+
+  if (hasMaxAmount) {
+    paidEventAmount = Decimal.min(paidEventAmount, toDecimal(properties.perTransactionMaxAmount))
+  }
+
+  return paidEventAmount.mul(paidEvents)
+}
+
+type TieredRangeInput = {
+  fromValue?: string | number | null
+  toValue?: string | number | null
+  flatAmount?: string | null
+  perUnitAmount?: string | null
+  rate?: string | null
+}
+
+export type TieredProperties = {
+  graduatedRanges?: TieredRangeInput[] | null
+  graduatedPercentageRanges?: TieredRangeInput[] | null
+  volumeRanges?: TieredRangeInput[] | null
+}
+
+export const TIERED_CHARGE_MODELS = [
+  ChargeModelEnum.Graduated,
+  ChargeModelEnum.GraduatedPercentage,
+  ChargeModelEnum.Volume,
+]
+
+// Percentage rates are stored as percents, ie: "1.5" for 1.5%
+const getTieredRanges = (chargeModel: ChargeModelEnum, properties: TieredProperties) => {
+  switch (chargeModel) {
+    case ChargeModelEnum.Graduated:
+      return (properties.graduatedRanges || []).map((range) => ({
+        ...range,
+        unitAmount: toDecimal(range.perUnitAmount),
+      }))
+    case ChargeModelEnum.GraduatedPercentage:
+      return (properties.graduatedPercentageRanges || []).map((range) => ({
+        ...range,
+        unitAmount: toDecimal(range.rate).div(100),
+      }))
+    case ChargeModelEnum.Volume:
+      return (properties.volumeRanges || []).map((range) => ({
+        ...range,
+        unitAmount: toDecimal(range.perUnitAmount),
+      }))
+    default:
+      return []
+  }
+}
+
+export const computeChargePropertiesAmount = ({
+  chargeModel,
+  properties,
+  usage,
+}: {
+  chargeModel: ChargeModelEnum
+  properties?: LocalPropertiesInput
+  usage?: SimulatedUsage
+}): number => {
+  const units = toDecimal(usage?.units)
+
+  if (!properties || !usage) return 0
+
+  switch (chargeModel) {
+    case ChargeModelEnum.Standard:
+      return units.mul(toDecimal(properties.amount)).toNumber()
+    case ChargeModelEnum.Package: {
+      const billedUnits = units.minus(toDecimal(properties.freeUnits))
+      const packageSize = toDecimal(properties.packageSize)
+
+      if (billedUnits.lessThanOrEqualTo(0) || packageSize.lessThanOrEqualTo(0)) return 0
+
+      return billedUnits.div(packageSize).ceil().mul(toDecimal(properties.amount)).toNumber()
+    }
+    case ChargeModelEnum.Graduated:
+    case ChargeModelEnum.GraduatedPercentage:
+      return computeGraduatedRangesAmount(
+        getTieredRanges(chargeModel, properties),
+        units,
+      ).toNumber()
+    case ChargeModelEnum.Volume:
+      return computeVolumeRangesAmount(getTieredRanges(chargeModel, properties), units).toNumber()
+    case ChargeModelEnum.Percentage:
+      return computePercentageAmount(properties, usage).toNumber()
+    default:
+      return 0
+  }
+}
+
+export type TierCurvePoint = {
+  units: number
+  // Price of one unit in the tier, as a ratio of the units for the graduated percentage model
+  unitPrice: number
+  cumulativeAmount: number
+}
+
+/**
+ * Samples the first and last unit of each tier, which is enough to draw the curves as they are
+ * linear within a tier. The unbounded last tier is drawn as wide as the previous ones.
+ */
+export const computeTierCurve = ({
+  chargeModel,
+  properties,
+}: {
+  chargeModel: ChargeModelEnum
+  properties?: TieredProperties | null
+}): TierCurvePoint[] => {
+  const ranges = properties ? getTieredRanges(chargeModel, properties) : []
+
+  if (!ranges.length) return []
+
+  const computeAmount =
+    chargeModel === ChargeModelEnum.Volume
+      ? computeVolumeRangesAmount
+      : computeGraduatedRangesAmount
+  const lastFromValue = Number(ranges[ranges.length - 1].fromValue || 0)
+  const lastToValue =
+    ranges.length === 1 ? ONE_TIER_EXAMPLE_UNITS : Math.max(lastFromValue * 2, lastFromValue + 1)
+
+  return ranges.flatMap((range, i) => {
+    const isLastRange = i === ranges.length - 1
+    const fromValue = Number(range.fromValue || 0)
+    const toValue = isLastRange ? lastToValue : Math.max(Number(range.toValue || 0), fromValue)
+
+    return [fromValue, toValue].map((units) => ({
+      units,
+      unitPrice: range.unitAmount.toNumber(),
+      cumulativeAmount: computeAmount(ranges, new Decimal(units)).toNumber(),
+    }))
+  })
+}
+
+const INTERVAL_TO_LUXON_UNIT: Record<PlanInterval, 'week' | 'month' | 'quarter' | 'year'> = {
+  [PlanInterval.Weekly]: 'week',
+  [PlanInterval.Monthly]: 'month',
+  [PlanInterval.Quarterly]: 'quarter',
+  [PlanInterval.Yearly]: 'year',
+}
+
+/**
+ * Returns the share of the first calendar billing period that is billed for a subscription
+ * starting on the given date, trial days excluded.
+ */
+export const getFirstPeriodProrationRatio = ({
+  interval,
+  subscriptionAt,
+  trialPeriod,
+}: {
+  interval: PlanInterval
+  subscriptionAt: DateTime
+  trialPeriod?: number | null
+}) => {
+  const unit = INTERVAL_TO_LUXON_UNIT[interval]
+  const periodStart = subscriptionAt.startOf(unit)
+  const periodEnd = subscriptionAt.endOf(unit)
+  const billedFrom = subscriptionAt.startOf('day').plus({ days: Number(trialPeriod) || 0 })
+  const periodDays = Math.round(periodEnd.diff(periodStart, 'days').days)
+
+  if (billedFrom > periodEnd || periodDays <= 0) {
+    return { periodStart, periodEnd, ratio: 0 }
+  }
+
+  const billedDays = Math.round(periodEnd.diff(billedFrom, 'days').days)
+
+  return { periodStart, periodEnd, ratio: Math.min(billedDays / periodDays, 1) }
+}
+
+type SimulatedTax = { rate: number }
+
+const sumTaxRates = (taxes?: SimulatedTax[] | null) =>
+  (taxes || []).reduce((acc, tax) => acc.plus(toDecimal(tax.rate)), new Decimal(0)).div(100)
+
+export type SimulatedCharge = {
+  chargeIndex: number
+  charge: LocalChargeInput
+  isSimulated: boolean
+  amount: number
+  minimumTrueUpAmount: number
+}
+
+export type PlanInvoiceSimulation = {
+  periodStart: DateTime
+  periodEnd: DateTime
+  prorationRatio: number
+  fixedFeeAmount: number
+  charges: SimulatedCharge[]
+  commitmentTrueUpAmount: number
+  subtotalAmount: number
+  taxesAmount: number
+  totalAmount: number
+}
+
+/**
+ * Estimates the first invoice of a subscription to the plan being edited.
+ * Fixed fee and minimum commitment are prorated on the first calendar period, charges are not.
+ */
+export const simulatePlanInvoice = ({
+  plan,
+  usages,
+  subscriptionAt,
+}: {
+  plan: PlanFormInput
+  usages: SimulatedUsages
+  subscriptionAt: DateTime
+}): PlanInvoiceSimulation => {
+  const { periodStart, periodEnd, ratio } = getFirstPeriodProrationRatio({
+    interval: plan.interval,
+    subscriptionAt,
+    trialPeriod: plan.trialPeriod,
+  })
+  const planTaxRate = sumTaxRates(plan.taxes)
+  const fixedFeeAmount = toDecimal(plan.amountCents).mul(ratio)
+  let taxesAmount = fixedFeeAmount.mul(planTaxRate)
+
+  const charges = (plan.charges || []).map((charge, chargeIndex) => {
+    const isSimulated = SIMULATED_CHARGE_MODELS.includes(charge.chargeModel)
+
+    if (!isSimulated) {
+      return { chargeIndex, charge, isSimulated, amount: 0, minimumTrueUpAmount: 0 }
+    }
+
+    const filtersAmount = (charge.filters || []).reduce(
+      (acc, filter, filterIndex) =>
+        acc.plus(
+          computeChargePropertiesAmount({
+            chargeModel: charge.chargeModel,
+            properties: filter.properties,
+            usage: usages[buildSimulatedUsageKey(chargeIndex, filterIndex)],
+          }),
+        ),
+      new Decimal(0),
+    )
+    const amount = filtersAmount.plus(
+      computeChargePropertiesAmount({
+        chargeModel: charge.chargeModel,
+        properties: charge.properties,
+        usage: usages[buildSimulatedUsageKey(chargeIndex)],
+      }),
+    )
+    const minimumTrueUpAmount = charge.payInAdvance
+      ? new Decimal(0)
+      : Decimal.max(toDecimal(charge.minAmountCents).minus(amount), 0)
+    const chargeTaxRate = charge.taxes?.length ? sumTaxRates(charge.taxes) : planTaxRate
+
+    taxesAmount = taxesAmount.plus(amount.plus(minimumTrueUpAmount).mul(chargeTaxRate))
+
+    return {
+      chargeIndex,
+      charge,
+      isSimulated,
+      amount: amount.toNumber(),
+      minimumTrueUpAmount: minimumTrueUpAmount.toNumber(),
+    }
+  })
+
+  const feesAmount = charges.reduce(
+    (acc, charge) => acc.plus(charge.amount).plus(charge.minimumTrueUpAmount),
+    fixedFeeAmount,
+  )
+  const commitmentAmount = toDecimal(plan.minimumCommitment?.amountCents).mul(ratio)
+  const commitmentTrueUpAmount = Decimal.max(commitmentAmount.minus(feesAmount), 0)
+  const commitmentTaxRate = plan.minimumCommitment?.taxes?.length
+    ? sumTaxRates(plan.minimumCommitment.taxes)
+    : planTaxRate
+
+  taxesAmount = taxesAmount.plus(commitmentTrueUpAmount.mul(commitmentTaxRate))
+
+  const subtotalAmount = feesAmount.plus(commitmentTrueUpAmount)
+
+  return {
+    periodStart,
+    periodEnd,
+    prorationRatio: ratio,
+    fixedFeeAmount: fixedFeeAmount.toNumber(),
+    charges,
+    commitmentTrueUpAmount: commitmentTrueUpAmount.toNumber(),
+    subtotalAmount: subtotalAmount.toNumber(),
+    taxesAmount: taxesAmount.toNumber(),
+    totalAmount: subtotalAmount.plus(taxesAmount).toNumber(),
+  }
+}
+
+export enum PlanVersionDiffSectionEnum {
+  plan = 'plan',
+  charges = 'charges',
+  minimumCommitment = 'minimumCommitment',
+  usageThresholds = 'usageThresholds',
+}
+
+export enum PlanVersionChangeKindEnum {
+  added = 'added',
+  removed = 'removed',
+  updated = 'updated',
+}
+
+export type PlanVersionChange = {
+  section: PlanVersionDiffSectionEnum
+  kind: PlanVersionChangeKindEnum
+  // Labels leading to the changed value, the last one being the attribute name for value changes
+  path: string[]
+  // Only defined for value changes, an added or removed charge, filter or threshold has none
+  before?: string
+  after?: string
+}
+
+type SnapshotCharge = NonNullable<PlanVersionSnapshot['charges']>[number]
+type SnapshotChargeFilter = NonNullable<SnapshotCharge['filters']>[number]
+type SnapshotUsageThreshold = NonNullable<PlanVersionSnapshot['usageThresholds']>[number]
+
+const PLAN_VERSION_PLAN_ATTRIBUTES = [
+  'amountCents',
+  'amountCurrency',
+  'interval',
+  'payInAdvance',
+  'trialPeriod',
+] as const
+
+const PLAN_VERSION_CHARGE_ATTRIBUTES = [
+  'chargeModel',
+  'invoiceDisplayName',
+  'invoiceable',
+  'minAmountCents',
+  'payInAdvance',
+  'prorated',
+] as const
+
+const isEmptySnapshotValue = (value: unknown) =>
+  value === null || value === undefined || value === ''
+
+/**
+ * Flattens a snapshot value into a map of leaf paths to their string value.
+ * Lists of objects (like ranges) are indexed from 1, lists of scalars are kept as one value.
+ */
+const flattenSnapshotValue = (
+  value: unknown,
+  path: string[] = [],
+  acc: Record<string, { path: string[]; value: string }> = {},
+) => {
+  if (isEmptySnapshotValue(value)) return acc
+
+  if (Array.isArray(value) && value.some((item) => typeof item === 'object' && item !== null)) {
+    value.forEach((item, i) => flattenSnapshotValue(item, [...path, `${i + 1}`], acc))
+  } else if (Array.isArray(value)) {
+    if (value.length) acc[path.join('.')] = { path, value: value.join(', ') }
+  } else if (typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([key, nestedValue]) => {
+      if (key === '__typename') return
+
+      flattenSnapshotValue(nestedValue, [...path, key], acc)
+    })
+  } else {
+    acc[path.join('.')] = { path, value: String(value) }
+  }
+
+  return acc
+}
+
+const getChangeKind = (before?: string, after?: string) => {
+  if (before === undefined) return PlanVersionChangeKindEnum.added
+  if (after === undefined) return PlanVersionChangeKindEnum.removed
+
+  return PlanVersionChangeKindEnum.updated
+}
+
+const diffSnapshotValues = ({
+  section,
+  path,
+  before,
+  after,
+}: {
+  section: PlanVersionDiffSectionEnum
+  path: string[]
+  before: unknown
+  after: unknown
+}): PlanVersionChange[] => {
+  const flatBefore = flattenSnapshotValue(before)
+  const flatAfter = flattenSnapshotValue(after)
+  const keys = Array.from(new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)]))
+
+  return keys.reduce<PlanVersionChange[]>((acc, key) => {
+    const beforeValue = flatBefore[key]?.value
+    const afterValue = flatAfter[key]?.value
+
+    if (beforeValue === afterValue) return acc
+
+    acc.push({
+      section,
+      kind: getChangeKind(beforeValue, afterValue),
+      path: [...path, ...(flatBefore[key] || flatAfter[key]).path],
+      before: beforeValue,
+      after: afterValue,
+    })
+
+    return acc
+  }, [])
+}
+
+const pickSnapshotAttributes = <T extends object, K extends keyof T>(
+  object: T | null | undefined,
+  attributes: readonly K[],
+) =>
+  attributes.reduce<Partial<Pick<T, K>>>((acc, attribute) => {
+    if (object) acc[attribute] = object[attribute]
+
+    return acc
+  }, {})
+
+const getSnapshotChargeFilterLabel = (filter: SnapshotChargeFilter) =>
+  filter.invoiceDisplayName ||
+  Object.entries((filter.values || {}) as Record<string, string[]>)
+    .map(([key, values]) =>
+      values.includes(ALL_FILTER_VALUES) ? key : `${key}: ${values.join(', ')}`,
+    )
+    .join(' • ')
+
+// Filters have no stable id between revisions, they are identified by the values they match
+const getSnapshotChargeFilterKey = (filter: SnapshotChargeFilter) =>
+  JSON.stringify(
+    Object.entries((filter.values || {}) as Record<string, string[]>)
+      .map(([key, values]) => [key, [...values].sort()])
+      .sort(([a], [b]) => `${a}`.localeCompare(`${b}`)),
+  )
+
+/**
+ * Diffs two entity lists matched by key.
+ * Added or removed entities are reported as a whole, matched ones through the given callback.
+ */
+const diffSnapshotLists = <T>({
+  section,
+  path,
+  before,
+  after,
+  getKey,
+  getLabel,
+  diffItems,
+}: {
+  section: PlanVersionDiffSectionEnum
+  path: string[]
+  before?: T[] | null
+  after?: T[] | null
+  getKey: (item: T) => string
+  getLabel: (item: T, index: number) => string
+  diffItems: (before: T, after: T, path: string[]) => PlanVersionChange[]
+}) => {
+  const beforeByKey = new Map((before || []).map((item) => [getKey(item), item]))
+  const afterKeys = new Set((after || []).map(getKey))
+  const changes: PlanVersionChange[] = []
+
+  ;(after || []).forEach((item, i) => {
+    const previousItem = beforeByKey.get(getKey(item))
+
+    if (!previousItem) {
+      changes.push({
+        section,
+        kind: PlanVersionChangeKindEnum.added,
+        path: [...path, getLabel(item, i)],
+      })
+    } else {
+      changes.push(...diffItems(previousItem, item, [...path, getLabel(item, i)]))
+    }
+  })
+  ;(before || []).forEach((item, i) => {
+    if (!afterKeys.has(getKey(item))) {
+      changes.push({
+        section,
+        kind: PlanVersionChangeKindEnum.removed,
+        path: [...path, getLabel(item, i)],
+      })
+    }
+  })
+
+  return changes
+}
+
+const getSnapshotChargeLabel = (charge: SnapshotCharge) =>
+  charge.invoiceDisplayName || charge.billableMetric.name
+
+const getSnapshotUsageThresholdLabel = (threshold: SnapshotUsageThreshold, index: number) =>
+  threshold.thresholdDisplayName || `#${index + 1}`
+
+/**
+ * Lists the changes between two revisions of a plan: fixed fee settings, charges with their
+ * properties and filters, minimum commitment and progressive billing thresholds.
+ */
+export const diffPlanVersions = (
+  before: PlanVersionSnapshot,
+  after: PlanVersionSnapshot,
+): PlanVersionChange[] => {
+  const planChanges = diffSnapshotValues({
+    section: PlanVersionDiffSectionEnum.plan,
+    path: [],
+    before: pickSnapshotAttributes(before, PLAN_VERSION_PLAN_ATTRIBUTES),
+    after: pickSnapshotAttributes(after, PLAN_VERSION_PLAN_ATTRIBUTES),
+  })
+
+  const chargesChanges = diffSnapshotLists({
+    section: PlanVersionDiffSectionEnum.charges,
+    path: [],
+    before: before.charges,
+    after: after.charges,
+    getKey: (charge) => charge.id,
+    getLabel: getSnapshotChargeLabel,
+    diffItems: (beforeCharge, afterCharge, path) => [
+      ...diffSnapshotValues({
+        section: PlanVersionDiffSectionEnum.charges,
+        path,
+        before: {
+          ...pickSnapshotAttributes(beforeCharge, PLAN_VERSION_CHARGE_ATTRIBUTES),
+          properties: beforeCharge.properties,
+        },
+        after: {
+          ...pickSnapshotAttributes(afterCharge, PLAN_VERSION_CHARGE_ATTRIBUTES),
+          properties: afterCharge.properties,
+        },
+      }),
+      ...diffSnapshotLists({
+        section: PlanVersionDiffSectionEnum.charges,
+        path,
+        before: beforeCharge.filters,
+        after: afterCharge.filters,
+        getKey: getSnapshotChargeFilterKey,
+        getLabel: getSnapshotChargeFilterLabel,
+        diffItems: (beforeFilter, afterFilter, filterPath) =>
+          diffSnapshotValues({
+            section: PlanVersionDiffSectionEnum.charges,
+            path: filterPath,
+            before: {
+              invoiceDisplayName: beforeFilter.invoiceDisplayName,
+              properties: beforeFilter.properties,
+            },
+            after: {
+              invoiceDisplayName: afterFilter.invoiceDisplayName,
+              properties: afterFilter.properties,
+            },
+          }),
+      }),
+    ],
+  })
+
+  const minimumCommitmentChanges = diffSnapshotValues({
+    section: PlanVersionDiffSectionEnum.minimumCommitment,
+    path: [],
+    before: before.minimumCommitment,
+    after: after.minimumCommitment,
+  })
+
+  const usageThresholdsChanges = diffSnapshotLists({
+    section: PlanVersionDiffSectionEnum.usageThresholds,
+    path: [],
+    before: before.usageThresholds,
+    after: after.usageThresholds,
+    getKey: (threshold) => threshold.id,
+    getLabel: getSnapshotUsageThresholdLabel,
+    diffItems: (beforeThreshold, afterThreshold, path) =>
+      diffSnapshotValues({
+        section: PlanVersionDiffSectionEnum.usageThresholds,
+        path,
+        before: pickSnapshotAttributes(beforeThreshold, ['amountCents', 'recurring']),
+        after: pickSnapshotAttributes(afterThreshold, ['amountCents', 'recurring']),
+      }),
+  })
+
+  return [...planChanges, ...chargesChanges, ...minimumCommitmentChanges, ...usageThresholdsChanges]
+}
+
+export type PastedTierRange<K extends string> = {
+  fromValue: string
+  toValue: string | null
+} & Record<K, string | undefined>
+
+export type PastedTiers<K extends string> = {
+  ranges: PastedTierRange<K>[]
+  // 1-based line numbers of the pasted content that could not be read
+  invalidLines: number[]
+}
+
+const UNBOUNDED_TIER_VALUES = ['', '∞', '-', 'inf', 'infinity']
+// A single separator followed by 3 digits, ie: "1,500" or "1.500"
+const AMBIGUOUS_SEPARATOR_PATTERN = /^-?[1-9]\d{0,2}[.,]\d{3}$/
+
+type DecimalSeparator = '.' | ','
+
+const getThousandsPattern = (separator: string) => new RegExp(`^-?\\d{1,3}(\\${separator}\\d{3})+$`)
+
+/**
+ * Returns the decimal separator used by all the pasted values, ie: "1.234,56" or "0,5" -> ",".
+ * Values like "1,500" tell nothing, so it stays undefined when no value or conflicting values tell it.
+ */
+const getPastedDecimalSeparator = (values: string[]): DecimalSeparator | undefined => {
+  const decimalSeparators = values.reduce<Set<DecimalSeparator>>((acc, value) => {
+    const cleanedValue = value.replace(/[^\d.,-]/g, '')
+    const separators = cleanedValue.match(/[.,]/g) || []
+    const lastSeparator = separators[separators.length - 1] as DecimalSeparator | undefined
+
+    if (!lastSeparator || AMBIGUOUS_SEPARATOR_PATTERN.test(cleanedValue)) return acc
+
+    if (new Set(separators).size > 1 || separators.length === 1) {
+      acc.add(lastSeparator)
+    } else if (getThousandsPattern(lastSeparator).test(cleanedValue)) {
+      acc.add(lastSeparator === ',' ? '.' : ',')
+    }
+
+    return acc
+  }, new Set())
+
+  return decimalSeparators.size === 1 ? Array.from(decimalSeparators)[0] : undefined
+}
+
+/**
+ * Reads a pasted number, dropping currency symbols and percent signs, ie: "$1,000.50" -> "1000.50".
+ * Both "1,234.56" and "1.234,56" notations are read, the last separator being the decimal one.
+ * A single separator followed by 3 digits can be either, so "1,500" and "1.500" are read with the
+ * decimal separator of the whole paste. When it is unknown, they are read as thousands for
+ * whole numbers (tier bounds) and rejected otherwise.
+ */
+const parsePastedNumber = (
+  value: string,
+  {
+    isWholeNumber = false,
+    decimalSeparator,
+  }: {
+    isWholeNumber?: boolean
+    decimalSeparator?: DecimalSeparator
+  } = {},
+): string | undefined => {
+  const cleanedValue = value.replace(/[^\d.,-]/g, '')
+  const separators = cleanedValue.match(/[.,]/g) || []
+  const lastSeparator = separators[separators.length - 1]
+  let normalizedValue = cleanedValue
+
+  if (new Set(separators).size > 1) {
+    const thousandsSeparator = lastSeparator === ',' ? '.' : ','
+
+    normalizedValue = cleanedValue.split(thousandsSeparator).join('').replace(',', '.')
+  } else if (separators.length > 1) {
+    if (!getThousandsPattern(lastSeparator).test(cleanedValue)) return undefined
+
+    normalizedValue = cleanedValue.split(lastSeparator).join('')
+  } else if (!!lastSeparator) {
+    const isAmbiguous = AMBIGUOUS_SEPARATOR_PATTERN.test(cleanedValue)
+
+    if (isAmbiguous && !decimalSeparator && !isWholeNumber) return undefined
+
+    if (isAmbiguous && (decimalSeparator ? lastSeparator !== decimalSeparator : isWholeNumber)) {
+      normalizedValue = cleanedValue.replace(lastSeparator, '')
+    } else {
+      normalizedValue = cleanedValue.replace(',', '.')
+    }
+  }
+
+  if (normalizedValue === '' || isNaN(Number(normalizedValue))) return undefined
+
+  return normalizedValue
+}
+
+/**
+ * Reads tiers pasted from a spreadsheet or a CSV file, one tier per line with the
+ * "from, to" bounds followed by the amount columns, ie: "0, 100, 0.5, 10".
+ * Ranges are normalized the same way the tier tables build them: the first one starts at 0,
+ * each following one starts right after the previous toValue and the last one is unbounded.
+ * Bounds are not reordered, so an overlapping tier is left for the form validation to flag.
+ */
+export const parsePastedTiers = <K extends string>(
+  content: string,
+  amountFields: K[],
+): PastedTiers<K> => {
+  const invalidLines: number[] = []
+  const rows = parseCsvRows(content)
+
+  // Ignore the header row copied along with the values
+  if (
+    !!rows.length &&
+    !rows[0].cells
+      .slice(0, 2)
+      .some((cell) => parsePastedNumber(cell, { isWholeNumber: true }) !== undefined)
+  ) {
+    rows.shift()
+  }
+
+  const decimalSeparator = getPastedDecimalSeparator(rows.flatMap(({ cells }) => cells))
+
+  const ranges = rows.reduce<PastedTierRange<K>[]>((acc, { lineNumber, cells }, i) => {
+    const [, toCell = '', ...amountCells] = cells
+    const isLastRow = i === rows.length - 1
+    const isUnbounded = UNBOUNDED_TIER_VALUES.includes(toCell.toLowerCase())
+    const toValue = parsePastedNumber(toCell, { isWholeNumber: true, decimalSeparator })
+    const amounts = amountFields.map((_, fieldIndex) => amountCells[fieldIndex] || '')
+    const parsedAmounts = amounts.map((amount) =>
+      amount === '' ? undefined : parsePastedNumber(amount, { decimalSeparator }),
+    )
+
+    if (
+      (isUnbounded && !isLastRow) ||
+      (!isUnbounded && (toValue === undefined || !Number.isInteger(Number(toValue)))) ||
+      amounts.some((amount, amountIndex) => amount !== '' && !parsedAmounts[amountIndex])
+    ) {
+      invalidLines.push(lineNumber)
+
+      return acc
+    }
+
+    const previousRange = acc[acc.length - 1]
+
+    acc.push({
+      fromValue: previousRange ? String(Number(previousRange.toValue || 0) + 1) : '0',
+      toValue: isUnbounded ? null : String(Number(toValue)),
+      ...amountFields.reduce(
+        (fields, field, fieldIndex) => ({
+          ...fields,
+          [field]: parsedAmounts[fieldIndex],
+        }),
+        {} as Record<K, string | undefined>,
+      ),
+    })
+
+    return acc
+  }, [])
+
+  // The last tier always covers the remaining units
+  if (!!ranges.length) ranges[ranges.length - 1].toValue = null
+
+  return { ranges, invalidLines }
+}
+
+/**
+ * Returns the index of the first tier ending before it starts, matching the charge validation.
+ */
+export const getInvalidTierRangeIndex = (
+  ranges: { fromValue?: string | number | null; toValue?: string | number | null }[],
+) => {
+  const index = ranges.findIndex(
+    ({ fromValue, toValue }, i) =>
+      i < ranges.length - 1 && Number(fromValue || 0) > Number(toValue || 0),
+  )
+
+  return index === -1 ? undefined : index
+}
+
+export const MIN_COMPARED_PLANS = 2
+export const MAX_COMPARED_PLANS = 4
+export const PLANS_COMPARISON_SEARCH_PARAM = 'planIds'
+
+export type ComparedPlanCharge = NonNullable<EditPlanFragment['charges']>[number]
+
+export type PlansComparisonChargeRow = {
+  key: string
+  billableMetric: ComparedPlanCharge['billableMetric']
+  // One entry per compared plan, undefined when the plan does not bill this metric
+  charges: Array<ComparedPlanCharge | undefined>
+}
+
+/**
+ * Lines up the charges of the compared plans by billable metric, keeping the order in which
+ * they first appear. A plan billing the same metric twice gets one row per occurrence.
+ */
+export const alignPlansCharges = (
+  plans: Array<Pick<EditPlanFragment, 'charges'>>,
+): PlansComparisonChargeRow[] => {
+  const rows: PlansComparisonChargeRow[] = []
+
+  plans.forEach((plan, planIndex) => {
+    const occurrences: Record<string, number> = {}
+
+    for (const charge of plan.charges || []) {
+      const occurrence = occurrences[charge.billableMetric.id] || 0
+      const key = `${charge.billableMetric.id}-${occurrence}`
+      let row = rows.find((r) => r.key === key)
+
+      occurrences[charge.billableMetric.id] = occurrence + 1
+
+      if (!row) {
+        row = { key, billableMetric: charge.billableMetric, charges: plans.map(() => undefined) }
+        rows.push(row)
+      }
+
+      row.charges[planIndex] = charge
+    }
+  })
+
+  return rows
+}
+
+export const hasComparedValuesDifference = (values: unknown[]) =>
+  new Set(values.map((value) => JSON.stringify(value ?? null))).size > 1
+
+export type TGetIsPayInAdvanceOptionDisabledProps = {
+  aggregationType: AggregationTypeEnum
+  chargeModel: ChargeModelEnum
+  isPayInAdvance: boolean
+  isProrated: boolean
+  isRecurring: boolean
+}
+
+export const getIsPayInAdvanceOptionDisabled = ({
+  aggregationType,
+  chargeModel,
+  // NOTE: keeping isPayInAdvance for future use
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  isPayInAdvance,
+  isProrated,
+  isRecurring,
+}: TGetIsPayInAdvanceOptionDisabledProps): boolean => {
+  if (aggregationType === AggregationTypeEnum.CountAgg && chargeModel === ChargeModelEnum.Volume) {
+    return true
+  } else if (aggregationType === AggregationTypeEnum.UniqueCountAgg) {
+    if (
+      chargeModel === ChargeModelEnum.Volume ||
+      (chargeModel === ChargeModelEnum.Graduated && isProrated)
+    ) {
+      return true
+    }
+  } else if (aggregationType === AggregationTypeEnum.LatestAgg) {
+    return true
+  } else if (aggregationType === AggregationTypeEnum.MaxAgg) {
+    return true
+  } else if (aggregationType === AggregationTypeEnum.SumAgg) {
+    if (chargeModel === ChargeModelEnum.Volume) {
+      return true
+    } else if (chargeModel === ChargeModelEnum.Graduated && isRecurring && isProrated) {
+      return true
+    }
+  } else if (aggregationType === AggregationTypeEnum.WeightedSumAgg) {
+    return true
+  } else if (aggregationType === AggregationTypeEnum.CustomAgg) {
+    if (chargeModel !== ChargeModelEnum.Standard && isRecurring && isProrated) {
+      return true
+    }
+  }
+
+  // Enabled by default
+  return false
+}
+
+export const getChargeAccordionId = (billableMetricId: string, index: number) =>
+  `plan-charge-${billableMetricId}-${index}`
+
+export enum PlanLintRuleEnum {
+  PayInAdvanceNotSupported = 'payInAdvanceNotSupported',
+  FreeUnitsCoverFirstPackage = 'freeUnitsCoverFirstPackage',
+  DuplicatedFilter = 'duplicatedFilter',
+  FreePercentageTransactions = 'freePercentageTransactions',
+  UsageThresholdBelowFixedFee = 'usageThresholdBelowFixedFee',
+  MinimumCommitmentBelowFixedFee = 'minimumCommitmentBelowFixedFee',
+}
+
+export type PlanLintWarning = {
+  rule: PlanLintRuleEnum
+  // Set for warnings raised on a charge, and on one of its filters when filterIndex is set
+  chargeIndex?: number
+  filterIndex?: number
+}
+
+const lintChargeProperties = (
+  chargeModel: ChargeModelEnum,
+  properties: LocalPropertiesInput | undefined,
+): PlanLintRuleEnum[] => {
+  const rules: PlanLintRuleEnum[] = []
+
+  if (!properties) return rules
+
+  // Package is the only model with both free units and a first tier: graduated and volume charges
+  // price free usage with a zero priced tier, and percentage free units are not tiered
+  if (
+    chargeModel === ChargeModelEnum.Package &&
+    Number(properties.packageSize) > 0 &&
+    Number(properties.freeUnits || 0) >= Number(properties.packageSize)
+  ) {
+    rules.push(PlanLintRuleEnum.FreeUnitsCoverFirstPackage)
+  }
+
+  if (
+    chargeModel === ChargeModelEnum.Percentage &&
+    hasAmount(properties.perTransactionMinAmount) &&
+    hasAmount(properties.perTransactionMaxAmount) &&
+    Number(properties.perTransactionMinAmount) === 0 &&
+    Number(properties.perTransactionMaxAmount) === 0
+  ) {
+    rules.push(PlanLintRuleEnum.FreePercentageTransactions)
+  }
+
+  return rules
+}
+
+/**
+ * Checks the plan form values against pricing rules that are valid but most likely a mistake.
+ * Unlike the form validation, the returned warnings never prevent the plan from being saved.
+ */
+export const lintPlan = (values: PlanFormInput): PlanLintWarning[] => {
+  const warnings: PlanLintWarning[] = []
+  const fixedFee = Number(values.amountCents || 0)
+
+  values.charges.forEach((charge, chargeIndex) => {
+    if (
+      charge.payInAdvance &&
+      getIsPayInAdvanceOptionDisabled({
+        aggregationType: charge.billableMetric.aggregationType,
+        chargeModel: charge.chargeModel,
+        isPayInAdvance: charge.payInAdvance,
+        isProrated: charge.prorated || false,
+        isRecurring: charge.billableMetric.recurring,
+      })
+    ) {
+      warnings.push({ rule: PlanLintRuleEnum.PayInAdvanceNotSupported, chargeIndex })
+    }
+
+    lintChargeProperties(charge.chargeModel, charge.properties).forEach((rule) =>
+      warnings.push({ rule, chargeIndex }),
+    )
+
+    const filtersValues: string[] = []
+
+    charge.filters?.forEach((filter, filterIndex) => {
+      const filterValues = JSON.stringify([...filter.values].sort())
+
+      if (filtersValues.includes(filterValues)) {
+        warnings.push({ rule: PlanLintRuleEnum.DuplicatedFilter, chargeIndex, filterIndex })
+      }
+
+      filtersValues.push(filterValues)
+
+      lintChargeProperties(charge.chargeModel, filter.properties).forEach((rule) =>
+        warnings.push({ rule, chargeIndex, filterIndex }),
+      )
+    })
+  })
+
+  if (!fixedFee) return warnings
+
+  const usageThresholds = [
+    ...(values.nonRecurringUsageThresholds || []),
+    ...(values.recurringUsageThreshold ? [values.recurringUsageThreshold] : []),
+  ]
+
+  if (usageThresholds.some(({ amountCents }) => Number(amountCents) < fixedFee)) {
+    warnings.push({ rule: PlanLintRuleEnum.UsageThresholdBelowFixedFee })
+  }
+
+  const minimumCommitmentAmount = values.minimumCommitment?.amountCents
+
+  if (!!minimumCommitmentAmount && Number(minimumCommitmentAmount) < fixedFee) {
+    warnings.push({ rule: PlanLintRuleEnum.MinimumCommitmentBelowFixedFee })
+  }
+
+  return warnings
+}
+
+type CurrencyVariantConversion = Pick<
+  LocalPlanCurrencyVariantInput,
+  'amountCurrency' | 'exchangeRate' | 'roundingRule'
+>
+
+/**
+ * Converts an amount of the plan currency to a currency variant, using the variant exchange rate
+ * and rounding rule. Empty amounts are kept empty so optional prices stay unset.
+ */
+export const convertAmountToCurrencyVariant = (
+  amount: string | number | null | undefined,
+  { amountCurrency, exchangeRate, roundingRule }: CurrencyVariantConversion,
+): string | undefined => {
+  if (amount === undefined || amount === null || amount === '') return undefined
+
+  const convertedAmount = new Decimal(Number(amount) || 0).times(Number(exchangeRate) || 0)
+
+  if (roundingRule === PriceRoundingRuleEnum.WholeUnit) {
+    return convertedAmount.ceil().toFixed()
+  }
+
+  if (roundingRule === PriceRoundingRuleEnum.CurrencyPrecision) {
+    return String(
+      deserializeAmount(
+        serializeAmount(convertedAmount.toNumber(), amountCurrency),
+        amountCurrency,
+      ),
+    )
+  }
+
+  return convertedAmount.toDecimalPlaces(15).toFixed()
+}
+
+/**
+ * Converts every price of a charge properties object to a currency variant.
+ * Rates, units and package sizes do not depend on the currency and are kept as is.
+ */
+export const convertPropertiesToCurrencyVariant = (
+  properties: LocalPropertiesInput | undefined,
+  conversion: CurrencyVariantConversion,
+): LocalPropertiesInput | undefined => {
+  if (!properties) return properties
+
+  const convert = (amount?: string | null) => convertAmountToCurrencyVariant(amount, conversion)
+
+  return {
+    ...properties,
+    amount: convert(properties.amount),
+    fixedAmount: convert(properties.fixedAmount),
+    freeUnitsPerTotalAggregation: convert(properties.freeUnitsPerTotalAggregation),
+    perTransactionMinAmount: convert(properties.perTransactionMinAmount),
+    perTransactionMaxAmount: convert(properties.perTransactionMaxAmount),
+    graduatedRanges: properties.graduatedRanges?.map((range) => ({
+      ...range,
+      flatAmount: convert(range.flatAmount) || '',
+      perUnitAmount: convert(range.perUnitAmount) || '',
+    })),
+    graduatedPercentageRanges: properties.graduatedPercentageRanges?.map((range) => ({
+      ...range,
+      flatAmount: convert(range.flatAmount) || '',
+    })),
+    volumeRanges: properties.volumeRanges?.map((range) => ({
+      ...range,
+      flatAmount: convert(range.flatAmount) || '',
+      perUnitAmount: convert(range.perUnitAmount) || '',
+    })),
+  }
+}
+
+/**
+ * Returns the prices of a charge, or of one of its filters, in a currency variant:
+ * converted from the plan prices for derived variants, as entered by hand otherwise.
+ */
+export const getCurrencyVariantProperties = (
+  properties: LocalPropertiesInput | undefined,
+  currencyVariantProperties: LocalCurrencyVariantProperties | undefined,
+  currencyVariant: LocalPlanCurrencyVariantInput,
+): LocalPropertiesInput | undefined => {
+  if (currencyVariant.isDerived) {
+    return convertPropertiesToCurrencyVariant(properties, currencyVariant)
+  }
+
+  return currencyVariantProperties?.[currencyVariant.amountCurrency]
+}
+
+/**
+ * Checks that a currency variant priced by hand has prices for every charge and filter of the plan,
+ * valid against the same rules as the plan charges. Derived variants are converted from the plan prices.
+ */
+export const hasValidCurrencyVariantPrices = (
+  charges: LocalChargeInput[],
+  { amountCurrency, isDerived }: LocalPlanCurrencyVariantInput,
+): boolean => {
+  if (isDerived) return true
+
+  const hasMissingPrices = charges.some(
+    ({ properties, filters, currencyVariantProperties }) =>
+      (!!properties && !currencyVariantProperties?.[amountCurrency]) ||
+      !!filters?.some((filter) => !filter.currencyVariantProperties?.[amountCurrency]),
+  )
+
+  if (hasMissingPrices) return false
+
+  return chargeSchema.isValidSync(
+    charges.map((charge) => ({
+      ...charge,
+      properties: charge.currencyVariantProperties?.[amountCurrency],
+      filters: charge.filters?.map((filter) => ({
+        ...filter,
+        properties: filter.currencyVariantProperties?.[amountCurrency],
+      })),
+    })),
+  )
+}
+
+export const getCurrencyVariantAmountCents = (
+  amountCents: string | number | undefined,
+  currencyVariant: LocalPlanCurrencyVariantInput,
+): string | undefined => {
+  if (currencyVariant.isDerived) {
+    return convertAmountToCurrencyVariant(amountCents, currencyVariant)
+  }
+
+  return currencyVariant.amountCents
+}
+
+/**
+ * Removes the prices entered by hand for a currency from every charge and filter.
+ * Used when a manual currency variant changes currency, as its prices no longer apply.
+ */
+export const omitCurrencyVariantProperties = (
+  charges: LocalChargeInput[],
+  currency: CurrencyEnum,
+): LocalChargeInput[] => {
+  const omitCurrency = (currencyVariantProperties?: LocalCurrencyVariantProperties) =>
+    currencyVariantProperties && _omit(currencyVariantProperties, currency)
+
+  return charges.map((charge) => ({
+    ...charge,
+    currencyVariantProperties: omitCurrency(charge.currencyVariantProperties),
+    filters: charge.filters?.map((filter) => ({
+      ...filter,
+      currencyVariantProperties: omitCurrency(filter.currencyVariantProperties),
+    })),
+  }))
+}
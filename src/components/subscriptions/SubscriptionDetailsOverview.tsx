@@ -11,6 +11,7 @@ import {
 import { theme } from '~/styles'
 
 import SubscriptionInformations from './SubscriptionInformations'
+import SubscriptionPlanOverrides from './SubscriptionPlanOverrides'
 
 gql`
   query getSubscriptionForDetailsOverview($subscriptionId: ID!) {
@@ -47,6 +48,7 @@ const SubscriptionDetailsOverview = () => {
   return (
     <Container>
       <SubscriptionInformations subscription={subscription} />
+      <SubscriptionPlanOverrides subscriptionId={subscriptionId} />
       <PlanDetailsOverview planId={subscription?.plan.id} />
     </Container>
   )
@@ -0,0 +1,332 @@
+import { gql } from '@apollo/client'
+import { useMemo } from 'react'
+
+import { Button, Card, Chip, Tooltip, Typography } from '~/components/designSystem'
+import { PlanVersionChangeKindEnum } from '~/components/plans/utils'
+import { addToast } from '~/core/apolloClient'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import {
+  CurrencyEnum,
+  CustomChargeFragmentDoc,
+  DynamicChargeFragmentDoc,
+  GraduatedChargeFragmentDoc,
+  GraduatedPercentageChargeFragmentDoc,
+  PackageChargeFragmentDoc,
+  PercentageChargeFragmentDoc,
+  StandardChargeFragmentDoc,
+  UsageThresholdOverridesInput,
+  useGetSubscriptionPlanOverridesQuery,
+  useUpdateSubscriptionMutation,
+  VolumeRangesFragmentDoc,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePermissions } from '~/hooks/usePermissions'
+import { DetailsSectionTitle } from '~/styles/detailsPage'
+
+import {
+  getPlanOverrideDifferences,
+  PlanOverrideDifference,
+  PlanOverrideSectionEnum,
+  resetPlanOverrideDifference,
+} from './utils'
+
+gql`
+  fragment PlanForSubscriptionOverrides on Plan {
+    id
+    name
+    description
+    invoiceDisplayName
+    amountCents
+    amountCurrency
+    trialPeriod
+    taxes {
+      id
+      code
+    }
+    minimumCommitment {
+      amountCents
+      invoiceDisplayName
+      taxes {
+        id
+        code
+      }
+    }
+    usageThresholds {
+      id
+      amountCents
+      recurring
+      thresholdDisplayName
+    }
+    charges {
+      id
+      invoiceDisplayName
+      minAmountCents
+      billableMetric {
+        id
+        name
+      }
+      taxes {
+        id
+        code
+      }
+      properties {
+        ...GraduatedCharge
+        ...GraduatedPercentageCharge
+        ...VolumeRanges
+        ...PackageCharge
+        ...StandardCharge
+        ...PercentageCharge
+        ...CustomCharge
+        ...DynamicCharge
+      }
+      filters {
+        invoiceDisplayName
+        values
+        properties {
+          ...GraduatedCharge
+          ...GraduatedPercentageCharge
+          ...VolumeRanges
+          ...PackageCharge
+          ...StandardCharge
+          ...PercentageCharge
+          ...CustomCharge
+          ...DynamicCharge
+        }
+      }
+    }
+  }
+
+  query getSubscriptionPlanOverrides($subscriptionId: ID!) {
+    subscription(id: $subscriptionId) {
+      id
+      plan {
+        id
+        ...PlanForSubscriptionOverrides
+        parent {
+          id
+          ...PlanForSubscriptionOverrides
+        }
+      }
+    }
+  }
+
+  ${GraduatedChargeFragmentDoc}
+  ${GraduatedPercentageChargeFragmentDoc}
+  ${VolumeRangesFragmentDoc}
+  ${PackageChargeFragmentDoc}
+  ${StandardChargeFragmentDoc}
+  ${PercentageChargeFragmentDoc}
+  ${CustomChargeFragmentDoc}
+  ${DynamicChargeFragmentDoc}
+`
+
+const OVERRIDE_SECTIONS_TRANSLATION_KEYS: Record<PlanOverrideSectionEnum, string> = {
+  [PlanOverrideSectionEnum.plan]: 'text_1792423779743t6fo8cajdy5',
+  [PlanOverrideSectionEnum.charges]: 'text_17924237797452tg3m7vj5dy',
+  [PlanOverrideSectionEnum.minimumCommitment]: 'text_1792423779747ii160tulu6n',
+  [PlanOverrideSectionEnum.usageThresholds]: 'text_1792423779749lqnjsc289fm',
+}
+
+const formatObjectValue = (value: object) =>
+  Object.entries(value)
+    .filter(
+      ([key, nestedValue]) =>
+        key !== '__typename' &&
+        nestedValue !== null &&
+        nestedValue !== undefined &&
+        nestedValue !== '',
+    )
+    .map(([key, nestedValue]) => `${key}: ${nestedValue}`)
+    .join(', ')
+
+const SubscriptionPlanOverrides = ({ subscriptionId }: { subscriptionId?: string }) => {
+  const { translate } = useInternationalization()
+  const { hasPermissions } = usePermissions()
+  const { data } = useGetSubscriptionPlanOverridesQuery({
+    variables: { subscriptionId: subscriptionId as string },
+    skip: !subscriptionId,
+  })
+  const [updateSubscription] = useUpdateSubscriptionMutation({
+    onCompleted({ updateSubscription: updatedSubscription }) {
+      if (!updatedSubscription) return
+
+      addToast({
+        message: translate('text_1792423779751fvmehjonmt7'),
+        severity: 'success',
+      })
+    },
+    refetchQueries: ['getSubscriptionPlanOverrides'],
+  })
+  const overriddenPlan = data?.subscription?.plan
+  const plan = overriddenPlan?.parent
+  const currency = overriddenPlan?.amountCurrency || CurrencyEnum.Usd
+
+  const differences = useMemo(() => {
+    if (!plan || !overriddenPlan) return []
+
+    return getPlanOverrideDifferences(plan, overriddenPlan)
+  }, [plan, overriddenPlan])
+
+  // Only subscriptions overriding their plan are compared
+  if (!plan || !overriddenPlan) return null
+
+  const formatAmountCents = (value: unknown) =>
+    intlFormatNumber(deserializeAmount(String(value), currency), {
+      currencyDisplay: 'symbol',
+      currency,
+    })
+
+  const formatValue = (difference: PlanOverrideDifference, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '-'
+
+    const attribute = difference.path[difference.path.length - 1]
+
+    if (difference.section === PlanOverrideSectionEnum.usageThresholds) {
+      return (value as UsageThresholdOverridesInput[])
+        .map(({ amountCents, recurring }) =>
+          recurring
+            ? translate('text_1792423779753ozxfzfhae32', {
+                amount: formatAmountCents(amountCents),
+              })
+            : formatAmountCents(amountCents),
+        )
+        .join(', ')
+    }
+
+    // Plan, commitment and minimum amounts are in cents, charge properties are not
+    if (attribute.endsWith('Cents') && !isNaN(Number(value))) {
+      return formatAmountCents(value)
+    }
+
+    if (Array.isArray(value)) {
+      return value
+        .map((item) => (typeof item === 'object' ? formatObjectValue(item) : String(item)))
+        .join(' | ')
+    }
+
+    if (typeof value === 'object') return formatObjectValue(value)
+
+    return String(value)
+  }
+
+  // Charges and filters defined on one side only have no value to compare
+  const renderValue = (difference: PlanOverrideDifference, isPlanValue: boolean) => {
+    if (difference.kind === PlanVersionChangeKindEnum.updated) {
+      return formatValue(difference, isPlanValue ? difference.planValue : difference.overrideValue)
+    }
+
+    const isIncluded =
+      difference.kind ===
+      (isPlanValue ? PlanVersionChangeKindEnum.removed : PlanVersionChangeKindEnum.added)
+
+    return translate(isIncluded ? 'text_1792423779755qp8xinihox0' : 'text_17924237797586vtds34lrsr')
+  }
+
+  return (
+    <section className="flex flex-col gap-4">
+      <div>
+        <DetailsSectionTitle variant="subhead" noWrap>
+          {translate('text_1792423779760rpqb5ahfej8')}
+        </DetailsSectionTitle>
+        <Typography variant="caption">
+          {translate('text_1792423779762or5ewnybbqw', { planName: plan.name })}
+        </Typography>
+      </div>
+
+      {!differences.length ? (
+        <Typography variant="caption">{translate('text_1792423779764kmws8qldc69')}</Typography>
+      ) : (
+        Object.values(PlanOverrideSectionEnum).map((section) => {
+          const sectionDifferences = differences.filter(
+            (difference) => difference.section === section,
+          )
+
+          if (!sectionDifferences.length) return null
+
+          return (
+            <div className="flex flex-col gap-2" key={`plan-override-section-${section}`}>
+              <Typography variant="bodyHl" color="grey700">
+                {translate(OVERRIDE_SECTIONS_TRANSLATION_KEYS[section])}
+              </Typography>
+              <Card className="gap-0 p-0">
+                <div className="flex items-center gap-4 px-4 py-2 shadow-b">
+                  <Typography className="flex-1" variant="captionHl">
+                    {translate('text_1792423779766t45fhkyiya3')}
+                  </Typography>
+                  <Typography className="w-48 text-right" variant="captionHl">
+                    {translate('text_1792423779768713jmim9g0x')}
+                  </Typography>
+                  <Typography className="w-48 text-right" variant="captionHl">
+                    {translate('text_1792423779770vtitis9bh0z')}
+                  </Typography>
+                  <div className="w-10" />
+                </div>
+                {sectionDifferences.map((difference, i) => (
+                  <div
+                    key={`plan-override-${section}-${i}`}
+                    className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+                    data-test={`plan-override-difference-${section}-${i}`}
+                  >
+                    <div className="flex flex-1 items-center gap-3 overflow-hidden">
+                      {difference.kind !== PlanVersionChangeKindEnum.updated && (
+                        <Chip
+                          size="small"
+                          label={translate(
+                            difference.kind === PlanVersionChangeKindEnum.added
+                              ? 'text_1792423779772fhvx95db5sl'
+                              : 'text_1792423779774h5t5udl8jfo',
+                          )}
+                        />
+                      )}
+                      <Typography variant="body" color="grey700" noWrap>
+                        {difference.path.join(' › ')}
+                      </Typography>
+                    </div>
+                    <Typography className="w-48 text-right" variant="body" color="grey600">
+                      {renderValue(difference, true)}
+                    </Typography>
+                    <Typography className="w-48 text-right" variant="body" color="grey700">
+                      {renderValue(difference, false)}
+                    </Typography>
+                    <div className="w-10">
+                      {hasPermissions(['subscriptionsUpdate']) && (
+                        <Tooltip
+                          placement="top-end"
+                          title={translate('text_1792423779776aay7kbvzvy8')}
+                        >
+                          <Button
+                            icon="reload"
+                            variant="quaternary"
+                            size="small"
+                            onClick={async () => {
+                              await updateSubscription({
+                                variables: {
+                                  input: {
+                                    id: subscriptionId as string,
+                                    planOverrides: resetPlanOverrideDifference(
+                                      plan,
+                                      overriddenPlan,
+                                      difference,
+                                    ),
+                                  },
+                                },
+                              })
+                            }}
+                            data-test={`reset-plan-override-${section}-${i}`}
+                          />
+                        </Tooltip>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </Card>
+            </div>
+          )
+        })
+      )}
+    </section>
+  )
+}
+
+export default SubscriptionPlanOverrides
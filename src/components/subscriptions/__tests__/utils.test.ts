@@ -1,5 +1,44 @@
-import { getLifetimeGraphPercentages } from '~/components/subscriptions/utils'
-import { SubscriptionLifetimeUsage } from '~/generated/graphql'
+import { PlanVersionChangeKindEnum } from '~/components/plans/utils'
+import {
+  getLifetimeGraphPercentages,
+  getPlanOverrideDifferences,
+  PlanOverrideSectionEnum,
+  resetPlanOverrideDifference,
+} from '~/components/subscriptions/utils'
+import {
+  CurrencyEnum,
+  PlanForSubscriptionOverridesFragment,
+  SubscriptionLifetimeUsage,
+} from '~/generated/graphql'
+
+const vatTax = { id: 'tax-1', code: 'vat' }
+const localTax = { id: 'tax-2', code: 'local' }
+
+const plan = {
+  id: 'plan-1',
+  name: 'Premium',
+  description: null,
+  invoiceDisplayName: null,
+  amountCents: '10000',
+  amountCurrency: CurrencyEnum.Eur,
+  trialPeriod: 0,
+  taxes: [vatTax],
+  minimumCommitment: null,
+  usageThresholds: [{ id: 'threshold-1', amountCents: '5000', recurring: false }],
+  charges: [
+    {
+      id: 'charge-1',
+      invoiceDisplayName: null,
+      minAmountCents: '0',
+      billableMetric: { id: 'bm-1', name: 'API calls' },
+      taxes: [],
+      properties: { amount: '1' },
+      filters: [
+        { invoiceDisplayName: null, values: { region: ['eu'] }, properties: { amount: '2' } },
+      ],
+    },
+  ],
+} as unknown as PlanForSubscriptionOverridesFragment
 
 describe('subscriptions utils tests', () => {
   it('should return the appropriate calculated percentages', () => {
@@ -69,4 +108,148 @@ describe('subscriptions utils tests', () => {
       nextThresholdPercentage: 0,
     })
   })
+
+  describe('getPlanOverrideDifferences', () => {
+    it('returns no difference for identical plans', () => {
+      expect(getPlanOverrideDifferences(plan, { ...plan, id: 'plan-2' })).toEqual([])
+    })
+
+    it('ignores the order of taxes and API typenames', () => {
+      expect(
+        getPlanOverrideDifferences({ ...plan, taxes: [vatTax, localTax] }, {
+          ...plan,
+          taxes: [localTax, vatTax],
+          charges: plan.charges?.map((charge) => ({
+            ...charge,
+            properties: { ...charge.properties, __typename: 'Properties' },
+          })),
+        } as PlanForSubscriptionOverridesFragment),
+      ).toEqual([])
+    })
+
+    it('lists the overridden values with their plan value', () => {
+      const differences = getPlanOverrideDifferences(plan, {
+        ...plan,
+        amountCents: '8000',
+        minimumCommitment: { amountCents: '2000', invoiceDisplayName: null, taxes: [] },
+        usageThresholds: [{ id: 'threshold-2', amountCents: '7000', recurring: true }],
+        charges: [
+          {
+            ...plan.charges?.[0],
+            properties: { amount: '0.5' },
+            filters: [],
+          },
+        ],
+      } as PlanForSubscriptionOverridesFragment)
+
+      expect(differences).toEqual([
+        expect.objectContaining({
+          section: PlanOverrideSectionEnum.plan,
+          kind: PlanVersionChangeKindEnum.updated,
+          path: ['amountCents'],
+          planValue: '10000',
+          overrideValue: '8000',
+        }),
+        expect.objectContaining({
+          section: PlanOverrideSectionEnum.charges,
+          kind: PlanVersionChangeKindEnum.updated,
+          path: ['API calls', 'amount'],
+          planValue: '1',
+          overrideValue: '0.5',
+        }),
+        expect.objectContaining({
+          section: PlanOverrideSectionEnum.charges,
+          kind: PlanVersionChangeKindEnum.removed,
+          path: ['API calls', 'region: eu'],
+        }),
+        expect.objectContaining({
+          section: PlanOverrideSectionEnum.minimumCommitment,
+          path: ['amountCents'],
+          planValue: undefined,
+          overrideValue: '2000',
+        }),
+        expect.objectContaining({
+          section: PlanOverrideSectionEnum.usageThresholds,
+          path: ['usageThresholds'],
+        }),
+      ])
+    })
+
+    it('lists the charges only defined on one side', () => {
+      const differences = getPlanOverrideDifferences(plan, {
+        ...plan,
+        charges: [
+          {
+            ...plan.charges?.[0],
+            id: 'charge-2',
+            billableMetric: { id: 'bm-2', name: 'Seats' },
+          },
+        ],
+      } as PlanForSubscriptionOverridesFragment)
+
+      expect(differences.map(({ kind, path }) => ({ kind, path }))).toEqual([
+        { kind: PlanVersionChangeKindEnum.added, path: ['Seats'] },
+        { kind: PlanVersionChangeKindEnum.removed, path: ['API calls'] },
+      ])
+    })
+  })
+
+  describe('resetPlanOverrideDifference', () => {
+    it('sets the plan value back on the overrides', () => {
+      const overriddenPlan = {
+        ...plan,
+        amountCents: '8000',
+        charges: [{ ...plan.charges?.[0], properties: { amount: '0.5' } }],
+      } as PlanForSubscriptionOverridesFragment
+      const [amountDifference, propertyDifference] = getPlanOverrideDifferences(
+        plan,
+        overriddenPlan,
+      )
+
+      expect(resetPlanOverrideDifference(plan, overriddenPlan, amountDifference)).toEqual(
+        expect.objectContaining({ amountCents: '10000' }),
+      )
+      expect(
+        resetPlanOverrideDifference(plan, overriddenPlan, propertyDifference).charges?.[0]
+          .properties,
+      ).toEqual({ amount: '1' })
+      // The subscription values are left untouched
+      expect(overriddenPlan.charges?.[0].properties).toEqual({ amount: '0.5' })
+    })
+
+    it('restores the removed plan items and removes the added ones', () => {
+      const overriddenPlan = {
+        ...plan,
+        charges: [
+          { ...plan.charges?.[0], filters: [] },
+          { ...plan.charges?.[0], id: 'charge-2', billableMetric: { id: 'bm-2', name: 'Seats' } },
+        ],
+      } as PlanForSubscriptionOverridesFragment
+      const [removedFilter, addedCharge] = getPlanOverrideDifferences(plan, overriddenPlan)
+
+      expect(
+        resetPlanOverrideDifference(plan, overriddenPlan, removedFilter).charges?.[0].filters,
+      ).toEqual([
+        { invoiceDisplayName: null, values: { region: ['eu'] }, properties: { amount: '2' } },
+      ])
+      expect(
+        resetPlanOverrideDifference(plan, overriddenPlan, addedCharge).charges?.map(
+          ({ billableMetricId }) => billableMetricId,
+        ),
+      ).toEqual(['bm-1'])
+    })
+
+    it('unsets the values not defined on the plan', () => {
+      const overriddenPlan = {
+        ...plan,
+        minimumCommitment: { amountCents: '2000', invoiceDisplayName: null, taxes: [] },
+      } as PlanForSubscriptionOverridesFragment
+      const [commitmentDifference] = getPlanOverrideDifferences(plan, overriddenPlan)
+
+      expect(
+        resetPlanOverrideDifference(plan, overriddenPlan, commitmentDifference).minimumCommitment
+          ?.amountCents,
+      ).toBeNull()
+    })
+  })
 })
@@ -1,3 +1,12 @@
+import _cloneDeep from 'lodash/cloneDeep'
+import _get from 'lodash/get'
+import _set from 'lodash/set'
+
+import { PlanVersionChangeKindEnum } from '~/components/plans/utils'
+import { ALL_FILTER_VALUES } from '~/core/constants/form'
+import { serializePlanOverrides } from '~/core/serializers/serializePlanOverrides'
+import { PlanForSubscriptionOverridesFragment, PlanOverridesInput } from '~/generated/graphql'
+
 import { TSubscriptionUsageLifetimeGraphDataResult } from './SubscriptionUsageLifetimeGraph'
 
 export const getLifetimeGraphPercentages = (
@@ -33,3 +42,371 @@ export const getLifetimeGraphPercentages = (
     lastThresholdPercentage: localLastThresholdPercentage,
   }
 }
+
+export enum PlanOverrideSectionEnum {
+  plan = 'plan',
+  charges = 'charges',
+  minimumCommitment = 'minimumCommitment',
+  usageThresholds = 'usageThresholds',
+}
+
+type PlanOverridesInputPath = Array<string | number>
+
+export type PlanOverrideDifference = {
+  section: PlanOverrideSectionEnum
+  // Added and removed stand for charges or filters only defined on the subscription or on the plan
+  kind: PlanVersionChangeKindEnum
+  // Labels leading to the overridden value, the last one being the attribute name for value changes
+  path: string[]
+  planValue?: unknown
+  overrideValue?: unknown
+  // Location of the value in the plan overrides input of the plan and of the subscription
+  planInputPath?: PlanOverridesInputPath
+  overrideInputPath: PlanOverridesInputPath
+}
+
+type OverriddenCharge = NonNullable<PlanForSubscriptionOverridesFragment['charges']>[number]
+type OverriddenChargeFilter = NonNullable<OverriddenCharge['filters']>[number]
+
+const PLAN_OVERRIDE_PLAN_ATTRIBUTES = [
+  'amountCents',
+  'trialPeriod',
+  'invoiceDisplayName',
+  'taxCodes',
+] as const
+const PLAN_OVERRIDE_MINIMUM_COMMITMENT_ATTRIBUTES = [
+  'amountCents',
+  'invoiceDisplayName',
+  'taxCodes',
+] as const
+const PLAN_OVERRIDE_CHARGE_ATTRIBUTES = [
+  'invoiceDisplayName',
+  'minAmountCents',
+  'taxCodes',
+] as const
+
+// The API returns null for unset values and Apollo adds a __typename to every object
+const normalizePlanOverrideValue = (value: unknown): unknown => {
+  if (value === null || value === undefined || value === '') return undefined
+
+  if (Array.isArray(value)) {
+    const items = value.map(normalizePlanOverrideValue)
+
+    if (!items.length) return undefined
+
+    // Lists of codes are not ordered
+    return items.every((item) => typeof item === 'string') ? [...items].sort() : items
+  }
+
+  if (typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([key]) => key !== '__typename')
+      .map(([key, nestedValue]) => [key, normalizePlanOverrideValue(nestedValue)])
+      .filter(([, nestedValue]) => nestedValue !== undefined)
+
+    return entries.length ? Object.fromEntries(entries) : undefined
+  }
+
+  return String(value)
+}
+
+const isSamePlanOverrideValue = (a: unknown, b: unknown) =>
+  JSON.stringify(normalizePlanOverrideValue(a)) === JSON.stringify(normalizePlanOverrideValue(b))
+
+const diffPlanOverrideAttributes = ({
+  section,
+  path,
+  attributes,
+  planObject,
+  overrideObject,
+  planInputPath,
+  overrideInputPath,
+}: {
+  section: PlanOverrideSectionEnum
+  path: string[]
+  attributes: readonly string[]
+  planObject?: Record<string, unknown> | null
+  overrideObject?: Record<string, unknown> | null
+  planInputPath: PlanOverridesInputPath
+  overrideInputPath: PlanOverridesInputPath
+}): PlanOverrideDifference[] =>
+  attributes.reduce<PlanOverrideDifference[]>((acc, attribute) => {
+    const planValue = planObject?.[attribute]
+    const overrideValue = overrideObject?.[attribute]
+
+    if (isSamePlanOverrideValue(planValue, overrideValue)) return acc
+
+    acc.push({
+      section,
+      kind: PlanVersionChangeKindEnum.updated,
+      path: [...path, attribute],
+      planValue,
+      overrideValue,
+      planInputPath: [...planInputPath, attribute],
+      overrideInputPath: [...overrideInputPath, attribute],
+    })
+
+    return acc
+  }, [])
+
+const getPropertiesAttributes = (...properties: Array<object | null | undefined>) =>
+  Array.from(new Set(properties.flatMap((property) => Object.keys(property || {})))).filter(
+    (key) => key !== '__typename',
+  )
+
+// Plans can have several charges on the same billable metric, they are matched by occurrence
+const getOverriddenChargesKeys = (charges: OverriddenCharge[]) => {
+  const occurrences: Record<string, number> = {}
+
+  return charges.map(({ billableMetric }) => {
+    occurrences[billableMetric.id] = (occurrences[billableMetric.id] || 0) + 1
+
+    return `${billableMetric.id}-${occurrences[billableMetric.id]}`
+  })
+}
+
+const getOverriddenChargeFilterKey = (filter: OverriddenChargeFilter) =>
+  JSON.stringify(
+    Object.entries((filter.values || {}) as Record<string, string[]>)
+      .map(([key, values]) => [key, [...values].sort()])
+      .sort(([a], [b]) => `${a}`.localeCompare(`${b}`)),
+  )
+
+const getOverriddenChargeFilterLabel = (filter: OverriddenChargeFilter) =>
+  filter.invoiceDisplayName ||
+  Object.entries((filter.values || {}) as Record<string, string[]>)
+    .map(([key, values]) =>
+      values.includes(ALL_FILTER_VALUES) ? key : `${key}: ${values.join(', ')}`,
+    )
+    .join(' • ')
+
+const diffOverriddenChargeFilters = ({
+  path,
+  planFilters,
+  overrideFilters,
+  planInputPath,
+  overrideInputPath,
+}: {
+  path: string[]
+  planFilters: OverriddenChargeFilter[]
+  overrideFilters: OverriddenChargeFilter[]
+  planInputPath: PlanOverridesInputPath
+  overrideInputPath: PlanOverridesInputPath
+}) => {
+  const differences: PlanOverrideDifference[] = []
+  const overrideKeys = overrideFilters.map(getOverriddenChargeFilterKey)
+
+  overrideFilters.forEach((overrideFilter, overrideFilterIndex) => {
+    const planFilterIndex = planFilters.findIndex(
+      (planFilter) =>
+        getOverriddenChargeFilterKey(planFilter) === overrideKeys[overrideFilterIndex],
+    )
+    const filterPath = [...path, getOverriddenChargeFilterLabel(overrideFilter)]
+    const filterOverrideInputPath = [...overrideInputPath, 'filters', overrideFilterIndex]
+
+    if (planFilterIndex < 0) {
+      differences.push({
+        section: PlanOverrideSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.added,
+        path: filterPath,
+        overrideInputPath: filterOverrideInputPath,
+      })
+
+      return
+    }
+
+    const planFilter = planFilters[planFilterIndex]
+    const filterPlanInputPath = [...planInputPath, 'filters', planFilterIndex]
+
+    differences.push(
+      ...diffPlanOverrideAttributes({
+        section: PlanOverrideSectionEnum.charges,
+        path: filterPath,
+        attributes: ['invoiceDisplayName'],
+        planObject: planFilter,
+        overrideObject: overrideFilter,
+        planInputPath: filterPlanInputPath,
+        overrideInputPath: filterOverrideInputPath,
+      }),
+      ...diffPlanOverrideAttributes({
+        section: PlanOverrideSectionEnum.charges,
+        path: filterPath,
+        attributes: getPropertiesAttributes(planFilter.properties, overrideFilter.properties),
+        planObject: planFilter.properties,
+        overrideObject: overrideFilter.properties,
+        planInputPath: [...filterPlanInputPath, 'properties'],
+        overrideInputPath: [...filterOverrideInputPath, 'properties'],
+      }),
+    )
+  })
+
+  planFilters.forEach((planFilter, planFilterIndex) => {
+    if (overrideKeys.includes(getOverriddenChargeFilterKey(planFilter))) return
+
+    differences.push({
+      section: PlanOverrideSectionEnum.charges,
+      kind: PlanVersionChangeKindEnum.removed,
+      path: [...path, getOverriddenChargeFilterLabel(planFilter)],
+      planInputPath: [...planInputPath, 'filters', planFilterIndex],
+      // Restoring the filter appends it to the subscription ones
+      overrideInputPath: [...overrideInputPath, 'filters', overrideFilters.length],
+    })
+  })
+
+  return differences
+}
+
+/**
+ * Lists every value of a subscription plan override that differs from its parent plan:
+ * fixed fee settings, taxes, charges with their properties and filters, minimum commitment
+ * and progressive billing thresholds.
+ */
+export const getPlanOverrideDifferences = (
+  plan: PlanForSubscriptionOverridesFragment,
+  overriddenPlan: PlanForSubscriptionOverridesFragment,
+): PlanOverrideDifference[] => {
+  const planInput = serializePlanOverrides(plan)
+  const overrideInput = serializePlanOverrides(overriddenPlan)
+  const differences = [
+    ...diffPlanOverrideAttributes({
+      section: PlanOverrideSectionEnum.plan,
+      path: [],
+      attributes: PLAN_OVERRIDE_PLAN_ATTRIBUTES,
+      planObject: planInput,
+      overrideObject: overrideInput,
+      planInputPath: [],
+      overrideInputPath: [],
+    }),
+  ]
+
+  const planCharges = plan.charges || []
+  const overrideCharges = overriddenPlan.charges || []
+  const planChargesKeys = getOverriddenChargesKeys(planCharges)
+  const overrideChargesKeys = getOverriddenChargesKeys(overrideCharges)
+
+  overrideCharges.forEach((overrideCharge, overrideChargeIndex) => {
+    const planChargeIndex = planChargesKeys.indexOf(overrideChargesKeys[overrideChargeIndex])
+    const chargePath = [overrideCharge.invoiceDisplayName || overrideCharge.billableMetric.name]
+    const chargeOverrideInputPath = ['charges', overrideChargeIndex]
+
+    if (planChargeIndex < 0) {
+      differences.push({
+        section: PlanOverrideSectionEnum.charges,
+        kind: PlanVersionChangeKindEnum.added,
+        path: chargePath,
+        overrideInputPath: chargeOverrideInputPath,
+      })
+
+      return
+    }
+
+    const planCharge = planCharges[planChargeIndex]
+    const chargePlanInputPath = ['charges', planChargeIndex]
+
+    differences.push(
+      ...diffPlanOverrideAttributes({
+        section: PlanOverrideSectionEnum.charges,
+        path: chargePath,
+        attributes: PLAN_OVERRIDE_CHARGE_ATTRIBUTES,
+        planObject: planInput.charges?.[planChargeIndex],
+        overrideObject: overrideInput.charges?.[overrideChargeIndex],
+        planInputPath: chargePlanInputPath,
+        overrideInputPath: chargeOverrideInputPath,
+      }),
+      ...diffPlanOverrideAttributes({
+        section: PlanOverrideSectionEnum.charges,
+        path: chargePath,
+        attributes: getPropertiesAttributes(planCharge.properties, overrideCharge.properties),
+        planObject: planCharge.properties,
+        overrideObject: overrideCharge.properties,
+        planInputPath: [...chargePlanInputPath, 'properties'],
+        overrideInputPath: [...chargeOverrideInputPath, 'properties'],
+      }),
+      ...diffOverriddenChargeFilters({
+        path: chargePath,
+        planFilters: planCharge.filters || [],
+        overrideFilters: overrideCharge.filters || [],
+        planInputPath: chargePlanInputPath,
+        overrideInputPath: chargeOverrideInputPath,
+      }),
+    )
+  })
+
+  planCharges.forEach((planCharge, planChargeIndex) => {
+    if (overrideChargesKeys.includes(planChargesKeys[planChargeIndex])) return
+
+    differences.push({
+      section: PlanOverrideSectionEnum.charges,
+      kind: PlanVersionChangeKindEnum.removed,
+      path: [planCharge.invoiceDisplayName || planCharge.billableMetric.name],
+      planInputPath: ['charges', planChargeIndex],
+      overrideInputPath: ['charges', overrideCharges.length],
+    })
+  })
+
+  differences.push(
+    ...diffPlanOverrideAttributes({
+      section: PlanOverrideSectionEnum.minimumCommitment,
+      path: [],
+      attributes: PLAN_OVERRIDE_MINIMUM_COMMITMENT_ATTRIBUTES,
+      planObject: planInput.minimumCommitment,
+      overrideObject: overrideInput.minimumCommitment,
+      planInputPath: ['minimumCommitment'],
+      overrideInputPath: ['minimumCommitment'],
+    }),
+  )
+
+  // Thresholds have no identity between plans, the whole list is compared and reset at once
+  const sortThresholds = (thresholds: PlanOverridesInput['usageThresholds']) =>
+    [...(thresholds || [])].sort((a, b) => Number(a.amountCents) - Number(b.amountCents))
+
+  if (
+    !isSamePlanOverrideValue(
+      sortThresholds(planInput.usageThresholds),
+      sortThresholds(overrideInput.usageThresholds),
+    )
+  ) {
+    differences.push({
+      section: PlanOverrideSectionEnum.usageThresholds,
+      kind: PlanVersionChangeKindEnum.updated,
+      path: ['usageThresholds'],
+      planValue: sortThresholds(planInput.usageThresholds),
+      overrideValue: sortThresholds(overrideInput.usageThresholds),
+      planInputPath: ['usageThresholds'],
+      overrideInputPath: ['usageThresholds'],
+    })
+  }
+
+  return differences
+}
+
+/**
+ * Returns the plan overrides of the subscription with one of its differences set back to the plan value.
+ */
+export const resetPlanOverrideDifference = (
+  plan: PlanForSubscriptionOverridesFragment,
+  overriddenPlan: PlanForSubscriptionOverridesFragment,
+  { planInputPath, overrideInputPath }: PlanOverrideDifference,
+): PlanOverridesInput => {
+  // Cloned as the API values are read only
+  const overrideInput = _cloneDeep(serializePlanOverrides(overriddenPlan))
+  const planValue = planInputPath ? _get(serializePlanOverrides(plan), planInputPath) : undefined
+
+  if (planValue !== undefined) {
+    _set(overrideInput, overrideInputPath, _cloneDeep(planValue))
+
+    return overrideInput
+  }
+
+  const parentPath = overrideInputPath.slice(0, -1)
+  const parent = parentPath.length ? _get(overrideInput, parentPath) : overrideInput
+
+  // Charges and filters only defined on the subscription are removed, other values are unset
+  if (Array.isArray(parent)) {
+    parent.splice(Number(overrideInputPath[overrideInputPath.length - 1]), 1)
+  } else {
+    _set(overrideInput, overrideInputPath, null)
+  }
+
+  return overrideInput
+}
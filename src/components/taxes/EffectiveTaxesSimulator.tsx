@@ -0,0 +1,243 @@
+import { gql } from '@apollo/client'
+import { useMemo, useState } from 'react'
+
+import { Alert, Card, Skeleton, Typography } from '~/components/designSystem'
+import { ComboBox } from '~/components/form'
+import { EffectiveTaxesSourceEnum, getEffectiveTaxes } from '~/components/taxes/utils'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import {
+  TaxForEffectiveTaxesFragmentDoc,
+  useGetCustomerForEffectiveTaxesQuery,
+  useGetCustomersForEffectiveTaxesLazyQuery,
+  useGetOrganizationTaxesForEffectiveTaxesQuery,
+  useGetPlanForEffectiveTaxesQuery,
+  useGetPlansForEffectiveTaxesLazyQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  fragment TaxForEffectiveTaxes on Tax {
+    id
+    name
+    code
+    rate
+  }
+
+  query getOrganizationTaxesForEffectiveTaxes {
+    taxes(page: 1, limit: 1000, appliedToOrganization: true) {
+      collection {
+        id
+        ...TaxForEffectiveTaxes
+      }
+    }
+  }
+
+  query getCustomersForEffectiveTaxes($page: Int, $limit: Int, $searchTerm: String) {
+    customers(page: $page, limit: $limit, searchTerm: $searchTerm) {
+      collection {
+        id
+        displayName
+        externalId
+      }
+    }
+  }
+
+  query getCustomerForEffectiveTaxes($id: ID!) {
+    customer(id: $id) {
+      id
+      anrokCustomer {
+        id
+      }
+      taxes {
+        id
+        ...TaxForEffectiveTaxes
+      }
+    }
+  }
+
+  query getPlansForEffectiveTaxes($page: Int, $limit: Int, $searchTerm: String) {
+    plans(page: $page, limit: $limit, searchTerm: $searchTerm) {
+      collection {
+        id
+        name
+        code
+      }
+    }
+  }
+
+  query getPlanForEffectiveTaxes($id: ID!) {
+    plan(id: $id) {
+      id
+      taxes {
+        id
+        ...TaxForEffectiveTaxes
+      }
+      charges {
+        id
+        invoiceDisplayName
+        billableMetric {
+          id
+          name
+          code
+        }
+        taxes {
+          id
+          ...TaxForEffectiveTaxes
+        }
+      }
+    }
+  }
+
+  ${TaxForEffectiveTaxesFragmentDoc}
+`
+
+const effectiveTaxesSourceTranslationLookup: Record<EffectiveTaxesSourceEnum, string> = {
+  [EffectiveTaxesSourceEnum.Charge]: 'text_1792427313904qe7uppd5njx',
+  [EffectiveTaxesSourceEnum.Plan]: 'text_1792427313906i7xjkrdw3n6',
+  [EffectiveTaxesSourceEnum.Customer]: 'text_17924273139088kpgfciydly',
+  [EffectiveTaxesSourceEnum.Organization]: 'text_1792427313911uc2qziisly6',
+}
+
+const formatRate = (rate: number) => intlFormatNumber(rate / 100, { style: 'percent' })
+
+export const EffectiveTaxesSimulator = () => {
+  const { translate } = useInternationalization()
+  const [customerId, setCustomerId] = useState<string>('')
+  const [planId, setPlanId] = useState<string>('')
+  const [chargeId, setChargeId] = useState<string>('')
+
+  const [getCustomers, { data: customersData, loading: customersLoading }] =
+    useGetCustomersForEffectiveTaxesLazyQuery({ variables: { limit: 20 } })
+  const [getPlans, { data: plansData, loading: plansLoading }] =
+    useGetPlansForEffectiveTaxesLazyQuery({ variables: { limit: 20 } })
+  const { data: organizationTaxesData, loading: organizationTaxesLoading } =
+    useGetOrganizationTaxesForEffectiveTaxesQuery()
+  const { data: customerData, loading: customerLoading } = useGetCustomerForEffectiveTaxesQuery({
+    variables: { id: customerId },
+    skip: !customerId,
+  })
+  const { data: planData, loading: planLoading } = useGetPlanForEffectiveTaxesQuery({
+    variables: { id: planId },
+    skip: !planId,
+  })
+
+  const customer = customerId ? customerData?.customer : undefined
+  const plan = planId ? planData?.plan : undefined
+  const charge = plan?.charges?.find(({ id }) => id === chargeId)
+  const isLoading = organizationTaxesLoading || customerLoading || planLoading
+
+  const { source, taxes } = getEffectiveTaxes({
+    chargeTaxes: charge?.taxes,
+    planTaxes: plan?.taxes,
+    customerTaxes: customer?.taxes,
+    organizationTaxes: organizationTaxesData?.taxes.collection,
+  })
+  const totalRate = taxes.reduce((acc, { rate }) => acc + rate, 0)
+
+  const chargesComboboxData = useMemo(
+    () =>
+      (plan?.charges || []).map(({ id, invoiceDisplayName, billableMetric }) => ({
+        value: id,
+        label: invoiceDisplayName || billableMetric.name,
+        description: billableMetric.code,
+      })),
+    [plan?.charges],
+  )
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-3 gap-4">
+        <ComboBox
+          label={translate('text_1792427313913ww5d713v5ji')}
+          placeholder={translate('text_1792427313915o014vugwm9v')}
+          value={customerId}
+          data={(customersData?.customers.collection || []).map(
+            ({ id, displayName, externalId }) => ({
+              value: id,
+              label: displayName || externalId,
+              description: externalId,
+            }),
+          )}
+          loading={customersLoading}
+          searchQuery={getCustomers}
+          onChange={setCustomerId}
+        />
+        <ComboBox
+          label={translate('text_17924273139177awv5bvq6p2')}
+          placeholder={translate('text_1792427313919t4c8ww3ur8j')}
+          value={planId}
+          data={(plansData?.plans.collection || []).map(({ id, name, code }) => ({
+            value: id,
+            label: name,
+            description: code,
+          }))}
+          loading={plansLoading}
+          searchQuery={getPlans}
+          onChange={(value) => {
+            setPlanId(value)
+            setChargeId('')
+          }}
+        />
+        <ComboBox
+          disabled={!plan}
+          label={translate('text_1792427313921i0nzn4zy2ai')}
+          placeholder={translate('text_17924273139233kj3677e3im')}
+          value={chargeId}
+          data={chargesComboboxData}
+          onChange={setChargeId}
+        />
+      </div>
+
+      {!!customer?.anrokCustomer?.id && (
+        <Alert type="info">{translate('text_1792427313926baqz516kf5e')}</Alert>
+      )}
+
+      <Card className="gap-0 p-0">
+        {isLoading && (
+          <div className="px-4 py-3">
+            <Skeleton variant="text" className="w-60" />
+          </div>
+        )}
+
+        {!isLoading && !taxes.length && (
+          <div className="px-4 py-3">
+            <Typography variant="caption" color="grey600">
+              {translate('text_1792427313928joxdzx2la9x')}
+            </Typography>
+          </div>
+        )}
+
+        {!isLoading &&
+          taxes.map(({ id, name, code, rate }) => (
+            <div
+              key={`effective-tax-${id}`}
+              className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+            >
+              <div className="flex min-w-0 flex-1 flex-col">
+                <Typography variant="body" color="grey700" noWrap>
+                  {name}
+                </Typography>
+                <Typography variant="caption" color="grey600" noWrap>
+                  {code}
+                </Typography>
+              </div>
+              <Typography variant="body" color="grey700">
+                {formatRate(rate)}
+              </Typography>
+            </div>
+          ))}
+
+        {!isLoading && !!source && (
+          <div className="flex items-center gap-4 px-4 py-3 not-last:shadow-b">
+            <Typography className="flex-1" variant="caption" color="grey600">
+              {translate(effectiveTaxesSourceTranslationLookup[source])}
+            </Typography>
+            <Typography variant="bodyHl" color="grey700">
+              {formatRate(totalRate)}
+            </Typography>
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,339 @@
+import { gql } from '@apollo/client'
+import { forwardRef, useImperativeHandle, useRef, useState } from 'react'
+
+import {
+  Button,
+  Card,
+  Drawer,
+  DrawerRef,
+  InfiniteScroll,
+  Skeleton,
+  Typography,
+} from '~/components/designSystem'
+import { ButtonSelector, Checkbox } from '~/components/form'
+import { SearchInput } from '~/components/SearchInput'
+import { addToast } from '~/core/apolloClient'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import {
+  TaxAssignmentObjectTypeEnum,
+  TaxForTaxAssignmentsDrawerFragment,
+  useCreateTaxAssignmentsMutation,
+  useDestroyTaxAssignmentsMutation,
+  useGetTaxAssignmentsLazyQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useDebouncedSearch } from '~/hooks/useDebouncedSearch'
+import { usePermissions } from '~/hooks/usePermissions'
+
+gql`
+  fragment TaxForTaxAssignmentsDrawer on Tax {
+    id
+    name
+    code
+    rate
+    customersCount
+    plansCount
+    chargesCount
+    addOnsCount
+  }
+
+  query getTaxAssignments(
+    $taxId: ID!
+    $objectType: TaxAssignmentObjectTypeEnum!
+    $assigned: Boolean
+    $searchTerm: String
+    $page: Int
+    $limit: Int
+  ) {
+    taxAssignments(
+      taxId: $taxId
+      objectType: $objectType
+      assigned: $assigned
+      searchTerm: $searchTerm
+      page: $page
+      limit: $limit
+    ) {
+      collection {
+        objectId
+        objectType
+        name
+        code
+        planName
+      }
+      metadata {
+        currentPage
+        totalPages
+      }
+    }
+  }
+
+  mutation createTaxAssignments($input: CreateTaxAssignmentsInput!) {
+    createTaxAssignments(input: $input) {
+      id
+      ...TaxForTaxAssignmentsDrawer
+    }
+  }
+
+  mutation destroyTaxAssignments($input: DestroyTaxAssignmentsInput!) {
+    destroyTaxAssignments(input: $input) {
+      id
+      ...TaxForTaxAssignmentsDrawer
+    }
+  }
+`
+
+const objectTypeTranslationLookup: Record<TaxAssignmentObjectTypeEnum, string> = {
+  [TaxAssignmentObjectTypeEnum.Customer]: 'text_1792427313866ma086gw5s4a',
+  [TaxAssignmentObjectTypeEnum.Plan]: 'text_17924273138684d70ekuddmc',
+  [TaxAssignmentObjectTypeEnum.Charge]: 'text_1792427313870lf6e3696ud8',
+  [TaxAssignmentObjectTypeEnum.AddOn]: 'text_1792427313872genit4zd8y7',
+}
+
+const getObjectTypeCount = (
+  tax: TaxForTaxAssignmentsDrawerFragment,
+  objectType: TaxAssignmentObjectTypeEnum,
+) => {
+  switch (objectType) {
+    case TaxAssignmentObjectTypeEnum.Customer:
+      return tax.customersCount
+    case TaxAssignmentObjectTypeEnum.Plan:
+      return tax.plansCount
+    case TaxAssignmentObjectTypeEnum.Charge:
+      return tax.chargesCount
+    case TaxAssignmentObjectTypeEnum.AddOn:
+      return tax.addOnsCount
+  }
+}
+
+interface TaxAssignmentsListProps {
+  tax: TaxForTaxAssignmentsDrawerFragment
+  objectType: TaxAssignmentObjectTypeEnum
+  assigned: boolean
+  canEdit: boolean
+}
+
+const TaxAssignmentsList = ({ tax, objectType, assigned, canEdit }: TaxAssignmentsListProps) => {
+  const { translate } = useInternationalization()
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [getTaxAssignments, { data, loading, error, fetchMore }] = useGetTaxAssignmentsLazyQuery({
+    variables: { taxId: tax.id, objectType, assigned, limit: 20 },
+    notifyOnNetworkStatusChange: true,
+  })
+  const { debouncedSearch, isLoading } = useDebouncedSearch(getTaxAssignments, loading)
+  const mutationOptions = {
+    refetchQueries: ['getTaxAssignments'],
+    onCompleted: () => setSelectedIds([]),
+  }
+  const [createTaxAssignments, { loading: isAssigning }] =
+    useCreateTaxAssignmentsMutation(mutationOptions)
+  const [destroyTaxAssignments, { loading: isUnassigning }] =
+    useDestroyTaxAssignmentsMutation(mutationOptions)
+
+  const assignments = data?.taxAssignments.collection || []
+  const allSelected = !!assignments.length && selectedIds.length === assignments.length
+
+  const onBulkAction = async () => {
+    const input = { taxId: tax.id, objectType, objectIds: selectedIds }
+    const count = selectedIds.length
+
+    if (assigned) {
+      const { errors } = await destroyTaxAssignments({ variables: { input } })
+
+      if (!errors) {
+        addToast({
+          message: translate('text_1792427313874sn9b7ni3jyo', { count }, count),
+          severity: 'success',
+        })
+      }
+    } else {
+      const { errors } = await createTaxAssignments({ variables: { input } })
+
+      if (!errors) {
+        addToast({
+          message: translate('text_1792427313877yzljoaujs54', { count }, count),
+          severity: 'success',
+        })
+      }
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <SearchInput
+          onChange={debouncedSearch}
+          placeholder={translate('text_1792427313879fu0ku79lavb')}
+        />
+        {canEdit && (
+          <Button
+            variant={assigned ? 'secondary' : 'primary'}
+            danger={assigned}
+            disabled={!selectedIds.length}
+            loading={isAssigning || isUnassigning}
+            onClick={onBulkAction}
+          >
+            {translate(
+              assigned ? 'text_1792427313881kdkq7efphz9' : 'text_1792427313883adexezgs2ui',
+              { count: selectedIds.length },
+              selectedIds.length,
+            )}
+          </Button>
+        )}
+      </div>
+
+      {isLoading && !assignments.length && (
+        <Card className="gap-0 p-0">
+          {[0, 1, 2].map((index) => (
+            <div key={`tax-assignment-skeleton-${index}`} className="px-4 py-3 not-last:shadow-b">
+              <Skeleton variant="text" className="w-60" />
+            </div>
+          ))}
+        </Card>
+      )}
+
+      {!!error && !isLoading && (
+        <Typography variant="caption" color="danger600">
+          {translate('text_636d023ce11a9d038819b579')}
+        </Typography>
+      )}
+
+      {!error && !isLoading && !assignments.length && (
+        <Typography variant="caption" color="grey600">
+          {translate(assigned ? 'text_1792427313885wr0vopomfxg' : 'text_1792427313887owdn6xxj5jf')}
+        </Typography>
+      )}
+
+      {!!assignments.length && (
+        <InfiniteScroll
+          onBottom={() => {
+            const { currentPage = 0, totalPages = 0 } = data?.taxAssignments.metadata || {}
+
+            currentPage < totalPages &&
+              !loading &&
+              fetchMore({
+                variables: { page: currentPage + 1 },
+              })
+          }}
+        >
+          <Card className="gap-0 p-0">
+            {canEdit && (
+              <div className="px-4 py-3 shadow-b">
+                <Checkbox
+                  canBeIndeterminate
+                  label={translate('text_1792427313889pvk21d6jy4g')}
+                  value={allSelected || (!!selectedIds.length ? undefined : false)}
+                  onChange={() =>
+                    setSelectedIds(allSelected ? [] : assignments.map(({ objectId }) => objectId))
+                  }
+                />
+              </div>
+            )}
+            {assignments.map(({ objectId, name, code, planName }) => {
+              const sublabel = [planName, code].filter(Boolean).join(' • ')
+
+              return (
+                <div
+                  key={`tax-assignment-${objectType}-${objectId}`}
+                  className="px-4 py-3 not-last:shadow-b"
+                >
+                  {canEdit ? (
+                    <Checkbox
+                      label={name}
+                      sublabel={sublabel}
+                      value={selectedIds.includes(objectId)}
+                      onChange={(_, checked) =>
+                        setSelectedIds((prev) =>
+                          checked ? [...prev, objectId] : prev.filter((id) => id !== objectId),
+                        )
+                      }
+                    />
+                  ) : (
+                    <div className="flex flex-col">
+                      <Typography variant="body" color="grey700" noWrap>
+                        {name}
+                      </Typography>
+                      {!!sublabel && (
+                        <Typography variant="caption" color="grey600" noWrap>
+                          {sublabel}
+                        </Typography>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </Card>
+        </InfiniteScroll>
+      )}
+    </div>
+  )
+}
+
+export interface TaxAssignmentsDrawerRef {
+  openDrawer: (tax: TaxForTaxAssignmentsDrawerFragment) => void
+  closeDrawer: () => void
+}
+
+export const TaxAssignmentsDrawer = forwardRef<TaxAssignmentsDrawerRef>((_props, ref) => {
+  const { translate } = useInternationalization()
+  const { hasPermissions } = usePermissions()
+  const drawerRef = useRef<DrawerRef>(null)
+  const [tax, setTax] = useState<TaxForTaxAssignmentsDrawerFragment>()
+  const [objectType, setObjectType] = useState(TaxAssignmentObjectTypeEnum.Customer)
+  const [assigned, setAssigned] = useState(true)
+
+  useImperativeHandle(ref, () => ({
+    openDrawer: (taxToDisplay) => {
+      setTax(taxToDisplay)
+      setObjectType(TaxAssignmentObjectTypeEnum.Customer)
+      setAssigned(true)
+      drawerRef.current?.openDrawer()
+    },
+    closeDrawer: () => drawerRef.current?.closeDrawer(),
+  }))
+
+  return (
+    <Drawer ref={drawerRef} title={translate('text_1792427313891ke8fgyhz2at')}>
+      {!!tax && (
+        <div className="flex flex-col gap-8">
+          <div className="flex flex-col gap-1">
+            <Typography variant="headline">
+              {tax.name} ({intlFormatNumber(tax.rate / 100, { style: 'percent' })})
+            </Typography>
+            <Typography variant="body">{translate('text_1792427313894wohkqgjl97q')}</Typography>
+          </div>
+
+          <ButtonSelector
+            label={translate('text_1792427313896clufgx84mv3')}
+            value={objectType}
+            options={Object.values(TaxAssignmentObjectTypeEnum).map((type) => ({
+              value: type,
+              label: `${translate(objectTypeTranslationLookup[type])} (${getObjectTypeCount(tax, type)})`,
+            }))}
+            onChange={(value) => setObjectType(value as TaxAssignmentObjectTypeEnum)}
+          />
+
+          <ButtonSelector
+            label={translate('text_1792427313898xielql9joei')}
+            value={assigned}
+            options={[
+              { value: true, label: translate('text_1792427313900ylit9xnbbh8') },
+              { value: false, label: translate('text_1792427313902b3vm6qrdtrq') },
+            ]}
+            onChange={(value) => setAssigned(value as boolean)}
+          />
+
+          <TaxAssignmentsList
+            key={`${tax.id}-${objectType}-${assigned}`}
+            tax={tax}
+            objectType={objectType}
+            assigned={assigned}
+            canEdit={hasPermissions(['organizationTaxesUpdate'])}
+          />
+        </div>
+      )}
+    </Drawer>
+  )
+})
+
+TaxAssignmentsDrawer.displayName = 'TaxAssignmentsDrawer'
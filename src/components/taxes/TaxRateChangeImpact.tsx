@@ -0,0 +1,131 @@
+import { gql } from '@apollo/client'
+
+import { Card, Skeleton, Typography } from '~/components/designSystem'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { deserializeAmount } from '~/core/serializers/serializeAmount'
+import { CurrencyEnum, useGetTaxRateChangeImpactQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+
+gql`
+  query getTaxRateChangeImpact($taxId: ID!, $effectiveAt: ISO8601DateTime!) {
+    taxRateChangeImpact(taxId: $taxId, effectiveAt: $effectiveAt) {
+      draftInvoices {
+        id
+        number
+        currency
+        totalAmountCents
+        customer {
+          id
+          displayName
+        }
+      }
+      upcomingBillings {
+        billingAt
+        subscriptionsCount
+      }
+    }
+  }
+`
+
+interface TaxRateChangeImpactProps {
+  taxId: string
+  effectiveAt: string
+}
+
+export const TaxRateChangeImpact = ({ taxId, effectiveAt }: TaxRateChangeImpactProps) => {
+  const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const { data, loading } = useGetTaxRateChangeImpactQuery({
+    variables: { taxId, effectiveAt },
+    fetchPolicy: 'network-only',
+  })
+
+  const { draftInvoices = [], upcomingBillings = [] } = data?.taxRateChangeImpact || {}
+
+  if (loading) {
+    return (
+      <Card className="gap-0 p-0">
+        {[0, 1].map((index) => (
+          <div key={`tax-rate-change-impact-skeleton-${index}`} className="px-4 py-3">
+            <Skeleton variant="text" className="w-60" />
+          </div>
+        ))}
+      </Card>
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-col gap-2">
+        <Typography variant="captionHl" color="grey700">
+          {translate(
+            'text_1792426849274ccq15y8mbte',
+            { count: draftInvoices.length },
+            draftInvoices.length,
+          )}
+        </Typography>
+        {!draftInvoices.length ? (
+          <Typography variant="caption" color="grey600">
+            {translate('text_1792426849277tvh1248lcku')}
+          </Typography>
+        ) : (
+          <Card className="gap-0 p-0">
+            {draftInvoices.map(({ id, number, currency, totalAmountCents, customer }) => (
+              <div
+                key={`tax-rate-change-draft-invoice-${id}`}
+                className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+              >
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <Typography variant="body" color="grey700" noWrap>
+                    {number}
+                  </Typography>
+                  <Typography variant="caption" color="grey600" noWrap>
+                    {customer.displayName}
+                  </Typography>
+                </div>
+                <Typography variant="body" color="grey700" noWrap>
+                  {intlFormatNumber(
+                    deserializeAmount(totalAmountCents, currency || CurrencyEnum.Usd),
+                    { currency: currency || CurrencyEnum.Usd },
+                  )}
+                </Typography>
+              </div>
+            ))}
+          </Card>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        <Typography variant="captionHl" color="grey700">
+          {translate('text_1792426849279g820swhwtv8')}
+        </Typography>
+        {!upcomingBillings.length ? (
+          <Typography variant="caption" color="grey600">
+            {translate('text_1792426849281sc7e93g0zpc')}
+          </Typography>
+        ) : (
+          <Card className="gap-0 p-0">
+            {upcomingBillings.map(({ billingAt, subscriptionsCount }) => (
+              <div
+                key={`tax-rate-change-upcoming-billing-${billingAt}`}
+                className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+              >
+                <Typography className="flex-1" variant="body" color="grey700" noWrap>
+                  {formatTimeOrgaTZ(billingAt)}
+                </Typography>
+                <Typography variant="body" color="grey600" noWrap>
+                  {translate(
+                    'text_1792426849284hrvle24o5sp',
+                    { count: subscriptionsCount },
+                    subscriptionsCount,
+                  )}
+                </Typography>
+              </div>
+            ))}
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
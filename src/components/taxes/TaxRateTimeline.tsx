@@ -0,0 +1,138 @@
+import { gql } from '@apollo/client'
+import { useRef, useState } from 'react'
+
+import { Button, Card, Chip, Typography } from '~/components/designSystem'
+import { TaxRateChangeImpact } from '~/components/taxes/TaxRateChangeImpact'
+import {
+  getScheduledTaxRateChanges,
+  getTaxRateTimeline,
+  isTaxRateChangeScheduled,
+} from '~/components/taxes/utils'
+import { WarningDialog, WarningDialogRef } from '~/components/WarningDialog'
+import { addToast } from '~/core/apolloClient'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { TaxRateChangeItemFragment, useDestroyTaxRateChangeMutation } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+
+gql`
+  fragment TaxRateChangeItem on TaxRateChange {
+    id
+    rate
+    previousRate
+    effectiveAt
+  }
+
+  mutation destroyTaxRateChange($input: DestroyTaxRateChangeInput!) {
+    destroyTaxRateChange(input: $input) {
+      id
+    }
+  }
+`
+
+const formatRate = (rate: number) => intlFormatNumber(rate / 100, { style: 'percent' })
+
+interface TaxRateTimelineProps {
+  taxId: string
+  rateChanges: TaxRateChangeItemFragment[]
+  canCancel: boolean
+}
+
+export const TaxRateTimeline = ({ taxId, rateChanges, canCancel }: TaxRateTimelineProps) => {
+  const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const cancelDialogRef = useRef<WarningDialogRef>(null)
+  const [rateChangeToCancel, setRateChangeToCancel] = useState<TaxRateChangeItemFragment>()
+  const [destroyTaxRateChange] = useDestroyTaxRateChangeMutation({
+    refetchQueries: ['getTaxForDetails'],
+    onCompleted({ destroyTaxRateChange: result }) {
+      if (!!result) {
+        addToast({
+          message: translate('text_1792426849297l8244p0bngh'),
+          severity: 'success',
+        })
+      }
+    },
+  })
+
+  const nextRateChange = getScheduledTaxRateChanges(rateChanges)[0]
+
+  return (
+    <div className="flex flex-col gap-4">
+      {!rateChanges.length ? (
+        <Typography variant="caption" color="grey600">
+          {translate('text_1792426849299tmb4jtmxih0')}
+        </Typography>
+      ) : (
+        <Card className="gap-0 p-0">
+          {getTaxRateTimeline(rateChanges).map((rateChange) => {
+            const isScheduled = isTaxRateChangeScheduled(rateChange)
+
+            return (
+              <div
+                key={`tax-rate-change-${rateChange.id}`}
+                className="flex items-center gap-4 px-4 py-3 not-last:shadow-b"
+              >
+                <div className="flex min-w-0 flex-1 flex-col">
+                  <Typography variant="bodyHl" color="grey700" noWrap>
+                    {translate('text_1792426849301m14mz7b6t63', {
+                      previousRate: formatRate(rateChange.previousRate),
+                      rate: formatRate(rateChange.rate),
+                    })}
+                  </Typography>
+                  <Typography variant="caption" color="grey600" noWrap>
+                    {formatTimeOrgaTZ(rateChange.effectiveAt)}
+                  </Typography>
+                </div>
+                <Chip
+                  size="small"
+                  label={translate(
+                    isScheduled ? 'text_17924268493034qdumr6gxpe' : 'text_17924268493051gzrzagszkj',
+                  )}
+                />
+                {isScheduled && canCancel && (
+                  <Button
+                    size="small"
+                    variant="quaternary"
+                    onClick={() => {
+                      setRateChangeToCancel(rateChange)
+                      cancelDialogRef.current?.openDialog()
+                    }}
+                  >
+                    {translate('text_1792426849307zo47258clgw')}
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </Card>
+      )}
+
+      {!!nextRateChange && (
+        <div className="flex flex-col gap-2">
+          <Typography variant="bodyHl" color="grey700">
+            {translate('text_1792426849310hjzzthg3fdm', {
+              date: formatTimeOrgaTZ(nextRateChange.effectiveAt),
+            })}
+          </Typography>
+          <TaxRateChangeImpact taxId={taxId} effectiveAt={nextRateChange.effectiveAt} />
+        </div>
+      )}
+
+      <WarningDialog
+        ref={cancelDialogRef}
+        title={translate('text_1792426849312kdwi1tyzepl')}
+        description={translate('text_1792426849314fra441gzas2', {
+          rate: formatRate(rateChangeToCancel?.rate || 0),
+          date: rateChangeToCancel ? formatTimeOrgaTZ(rateChangeToCancel.effectiveAt) : '',
+        })}
+        continueText={translate('text_1792426849316vyi02tjh6sk')}
+        onContinue={async () => {
+          if (!rateChangeToCancel) return
+
+          await destroyTaxRateChange({ variables: { input: { id: rateChangeToCancel.id } } })
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import { DateTime } from 'luxon'
+
+import {
+  EffectiveTaxesSourceEnum,
+  getEffectiveTaxes,
+  getScheduledTaxRateChanges,
+  getTaxRateTimeline,
+  isTaxRateChangeScheduled,
+} from '~/components/taxes/utils'
+
+const buildRateChange = (id: string, days: number) => ({
+  id,
+  effectiveAt: DateTime.now().plus({ days }).toISO() as string,
+})
+
+describe('taxes utils', () => {
+  const rateChanges = [
+    buildRateChange('next-year', 365),
+    buildRateChange('last-year', -365),
+    buildRateChange('next-month', 30),
+    buildRateChange('last-month', -30),
+  ]
+
+  describe('isTaxRateChangeScheduled', () => {
+    it('returns whether the change applies in the future', () => {
+      expect(isTaxRateChangeScheduled(buildRateChange('future', 1))).toBe(true)
+      expect(isTaxRateChangeScheduled(buildRateChange('past', -1))).toBe(false)
+    })
+  })
+
+  describe('getScheduledTaxRateChanges', () => {
+    it('returns the future changes, the closest one first', () => {
+      expect(getScheduledTaxRateChanges(rateChanges).map(({ id }) => id)).toEqual([
+        'next-month',
+        'next-year',
+      ])
+    })
+  })
+
+  describe('getTaxRateTimeline', () => {
+    it('returns all the changes, the most recent one first', () => {
+      expect(getTaxRateTimeline(rateChanges).map(({ id }) => id)).toEqual([
+        'next-year',
+        'next-month',
+        'last-month',
+        'last-year',
+      ])
+    })
+
+    it('does not mutate the changes', () => {
+      getTaxRateTimeline(rateChanges)
+
+      expect(rateChanges[0].id).toBe('next-year')
+      expect(rateChanges[1].id).toBe('last-year')
+    })
+  })
+
+  describe('getEffectiveTaxes', () => {
+    const chargeTaxes = [{ code: 'charge' }]
+    const planTaxes = [{ code: 'plan' }]
+    const customerTaxes = [{ code: 'customer' }]
+    const organizationTaxes = [{ code: 'organization' }]
+
+    it('returns the charge taxes first', () => {
+      expect(
+        getEffectiveTaxes({ chargeTaxes, planTaxes, customerTaxes, organizationTaxes }),
+      ).toEqual({ source: EffectiveTaxesSourceEnum.Charge, taxes: chargeTaxes })
+    })
+
+    it('falls back on the plan, then the customer, then the organization taxes', () => {
+      expect(
+        getEffectiveTaxes({ chargeTaxes: [], planTaxes, customerTaxes, organizationTaxes }),
+      ).toEqual({ source: EffectiveTaxesSourceEnum.Plan, taxes: planTaxes })
+      expect(getEffectiveTaxes({ chargeTaxes: null, customerTaxes, organizationTaxes })).toEqual({
+        source: EffectiveTaxesSourceEnum.Customer,
+        taxes: customerTaxes,
+      })
+      expect(getEffectiveTaxes({ customerTaxes: [], organizationTaxes })).toEqual({
+        source: EffectiveTaxesSourceEnum.Organization,
+        taxes: organizationTaxes,
+      })
+    })
+
+    it('returns no taxes when none is applied', () => {
+      expect(getEffectiveTaxes({ chargeTaxes: [], organizationTaxes: [] })).toEqual({
+        source: undefined,
+        taxes: [],
+      })
+    })
+  })
+})
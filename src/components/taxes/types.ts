@@ -1,3 +1,4 @@
 import { TaxCreateInput, TaxUpdateInput } from '~/generated/graphql'
 
-export type TaxFormInput = TaxCreateInput | Omit<TaxUpdateInput, 'id'>
+export type TaxFormInput = (TaxCreateInput | Omit<TaxUpdateInput, 'id'>) &
+  Pick<TaxUpdateInput, 'rateEffectiveAt'>
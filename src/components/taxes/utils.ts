@@ -0,0 +1,58 @@
+import { DateTime } from 'luxon'
+
+type TaxRateChange = {
+  effectiveAt: string
+}
+
+const compareEffectiveAt = (a: TaxRateChange, b: TaxRateChange) =>
+  DateTime.fromISO(a.effectiveAt).toMillis() - DateTime.fromISO(b.effectiveAt).toMillis()
+
+export const isTaxRateChangeScheduled = ({ effectiveAt }: TaxRateChange) =>
+  DateTime.fromISO(effectiveAt) > DateTime.now()
+
+/**
+ * Returns the rate changes not applied yet, the closest one first.
+ */
+export const getScheduledTaxRateChanges = <T extends TaxRateChange>(rateChanges: T[]): T[] =>
+  rateChanges.filter(isTaxRateChangeScheduled).sort(compareEffectiveAt)
+
+/**
+ * Returns all the rate changes of a tax, the most recent one first.
+ */
+export const getTaxRateTimeline = <T extends TaxRateChange>(rateChanges: T[]): T[] =>
+  [...rateChanges].sort((a, b) => compareEffectiveAt(b, a))
+
+export enum EffectiveTaxesSourceEnum {
+  Charge = 'charge',
+  Plan = 'plan',
+  Customer = 'customer',
+  Organization = 'organization',
+}
+
+type EffectiveTaxesParams<T> = {
+  chargeTaxes?: T[] | null
+  planTaxes?: T[] | null
+  customerTaxes?: T[] | null
+  organizationTaxes?: T[] | null
+}
+
+/**
+ * Returns the taxes applied to a charge fee, with the level they come from.
+ * Follows the invoice precedence: charge, then plan, then customer, then organization defaults.
+ */
+export const getEffectiveTaxes = <T>({
+  chargeTaxes,
+  planTaxes,
+  customerTaxes,
+  organizationTaxes,
+}: EffectiveTaxesParams<T>): { source?: EffectiveTaxesSourceEnum; taxes: T[] } => {
+  const levels: [EffectiveTaxesSourceEnum, T[] | null | undefined][] = [
+    [EffectiveTaxesSourceEnum.Charge, chargeTaxes],
+    [EffectiveTaxesSourceEnum.Plan, planTaxes],
+    [EffectiveTaxesSourceEnum.Customer, customerTaxes],
+    [EffectiveTaxesSourceEnum.Organization, organizationTaxes],
+  ]
+  const [source, taxes] = levels.find(([, levelTaxes]) => !!levelTaxes?.length) || []
+
+  return { source, taxes: taxes || [] }
+}
@@ -28,6 +28,10 @@ export const cache = new InMemoryCache({
           keyArgs: false,
           merge: mergePaginatedCollection,
         },
+        planVersions: {
+          keyArgs: ['planId'],
+          merge: mergePaginatedCollection,
+        },
         subscriptions: {
           keyArgs: false,
           merge: mergePaginatedCollection,
@@ -40,12 +44,24 @@ export const cache = new InMemoryCache({
           keyArgs: false,
           merge: mergePaginatedCollection,
         },
+        addOnAmountChanges: {
+          keyArgs: ['addOnId'],
+          merge: mergePaginatedCollection,
+        },
+        appliedCoupons: {
+          keyArgs: ['couponId'],
+          merge: mergePaginatedCollection,
+        },
+        couponCodes: {
+          keyArgs: ['couponId'],
+          merge: mergePaginatedCollection,
+        },
         events: {
           keyArgs: false,
           merge: mergePaginatedCollection,
         },
         addOns: {
-          keyArgs: false,
+          keyArgs: ['order'],
           merge: mergePaginatedCollection,
         },
         wallets: {
@@ -107,7 +123,19 @@ export const cache = new InMemoryCache({
         taxes: {
           // Same list if fetch in same page with different results.
           // Difference is made on appliedByDefault value
-          keyArgs: ['id', 'appliedToOrganization'],
+          keyArgs: ['id', 'appliedToOrganization', 'rate'],
+          merge: mergePaginatedCollection,
+        },
+        customerDuplicates: {
+          keyArgs: ['criteria'],
+          merge: mergePaginatedCollection,
+        },
+        customerActivities: {
+          keyArgs: ['customerId', 'activityTypes'],
+          merge: mergePaginatedCollection,
+        },
+        taxAssignments: {
+          keyArgs: ['taxId', 'objectType', 'assigned'],
           merge: mergePaginatedCollection,
         },
       },
@@ -0,0 +1,26 @@
+import { makeVar, useReactiveVar } from '@apollo/client'
+
+import { PlanFormInput } from '~/components/plans/types'
+
+type ImportedPlanVar = {
+  values?: PlanFormInput
+}
+
+const initial = {
+  values: undefined,
+}
+
+export const importedPlanVar = makeVar<ImportedPlanVar>(initial)
+
+export const updateImportedPlanVar = (input: ImportedPlanVar) => {
+  importedPlanVar({
+    ...importedPlanVar(),
+    ...input,
+  })
+}
+
+export const resetImportedPlanVar = () => {
+  importedPlanVar(initial)
+}
+
+export const useImportedPlanVar = () => useReactiveVar(importedPlanVar)
@@ -4,4 +4,6 @@ export * from './envGlobalVar'
 export * from './internationalizationVar'
 export * from './locationHistoryVar'
 export * from './duplicatePlanVar'
+export * from './importedPlanVar'
+export * from './inferredBillableMetricVar'
 export * from './toastVar'
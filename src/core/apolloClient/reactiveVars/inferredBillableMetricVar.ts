@@ -0,0 +1,30 @@
+import { makeVar, useReactiveVar } from '@apollo/client'
+
+import { CreateBillableMetricInput } from '~/generated/graphql'
+
+type InferredBillableMetricVar = {
+  // Metric suggested from recent events of the Debugger
+  values?: Pick<
+    CreateBillableMetricInput,
+    'name' | 'code' | 'aggregationType' | 'fieldName' | 'filters'
+  >
+}
+
+const initial = {
+  values: undefined,
+}
+
+export const inferredBillableMetricVar = makeVar<InferredBillableMetricVar>(initial)
+
+export const updateInferredBillableMetricVar = (input: InferredBillableMetricVar) => {
+  inferredBillableMetricVar({
+    ...inferredBillableMetricVar(),
+    ...input,
+  })
+}
+
+export const resetInferredBillableMetricVar = () => {
+  inferredBillableMetricVar(initial)
+}
+
+export const useInferredBillableMetricVar = () => useReactiveVar(inferredBillableMetricVar)
@@ -17,6 +17,7 @@ export enum IntegrationsTabsOptionsEnum {
 export enum PlanDetailsTabsOptionsEnum {
   overview = 'overview',
   subscriptions = 'subscriptions',
+  history = 'history',
 }
 
 export enum NewAnalyticsTabsOptionsEnum {
@@ -34,7 +35,9 @@ export enum InvoiceListTabEnum {
 }
 
 export enum CustomerDetailsTabsOptions {
+  activity = 'activity',
   creditNotes = 'creditNotes',
+  group = 'group',
   overview = 'overview',
   wallet = 'wallet',
   invoices = 'invoices',
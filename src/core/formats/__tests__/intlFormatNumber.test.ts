@@ -170,6 +170,11 @@ describe('Currency tools', () => {
       ).toBe('€100Q')
       expect(bigNumberShortenNotationFormater(100_000_000_000_000_000)).toBe('$100Q')
     })
+
+    it('should return amount without currency symbol for decimal style', () => {
+      expect(bigNumberShortenNotationFormater(12, { style: 'decimal' })).toBe('12')
+      expect(bigNumberShortenNotationFormater(1_100, { style: 'decimal' })).toBe('1.1k')
+    })
   })
 
   describe('intlFormatOrdinalNumber()', () => {
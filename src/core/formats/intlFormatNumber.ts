@@ -97,7 +97,7 @@ export const bigNumberShortenNotationFormater = (
     ? (amount / item.value).toFixed(1).replace(rx, '$1') + item.symbol
     : '0'
 
-  return `${getCurrencySymbol(currency)}${formatedAmount}`
+  return `${style === AmountStyle.currency ? getCurrencySymbol(currency) : ''}${formatedAmount}`
 }
 
 export const intlFormatOrdinalNumber = (number: number | string) => {
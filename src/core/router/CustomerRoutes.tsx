@@ -4,6 +4,7 @@ import { lazyLoad } from './utils'
 // ----------- Pages -----------
 const CustomersList = lazyLoad(() => import('~/pages/CustomersList'))
 const CustomerDetails = lazyLoad(() => import('~/pages/CustomerDetails'))
+const CustomerDuplicates = lazyLoad(() => import('~/pages/CustomerDuplicates'))
 const CustomerDraftInvoicesList = lazyLoad(() => import('~/pages/CustomerDraftInvoicesList'))
 const CustomerInvoiceDetails = lazyLoad(() => import('~/pages/CustomerInvoiceDetails'))
 
@@ -17,11 +18,13 @@ const CreditNoteDetails = lazyLoad(() => import('~/pages/CreditNoteDetails'))
 
 // ----------- Routes -----------
 export const CUSTOMERS_LIST_ROUTE = '/customers'
+export const CUSTOMER_DUPLICATES_ROUTE = '/customers/duplicates'
 export const CUSTOMER_DETAILS_ROUTE = '/customer/:customerId'
 export const CUSTOMER_DETAILS_TAB_ROUTE = `${CUSTOMER_DETAILS_ROUTE}/:tab`
 export const CUSTOMER_DRAFT_INVOICES_LIST_ROUTE = `${CUSTOMER_DETAILS_ROUTE}/draft-invoices`
 export const CUSTOMER_INVOICE_DETAILS_ROUTE = `${CUSTOMER_DETAILS_ROUTE}/invoice/:invoiceId/:tab`
 export const CUSTOMER_REQUEST_OVERDUE_PAYMENT_ROUTE = `${CUSTOMER_DETAILS_ROUTE}/request-overdue-payment`
+export const CUSTOMER_GROUP_REQUEST_OVERDUE_PAYMENT_ROUTE = `${CUSTOMER_DETAILS_ROUTE}/group/request-overdue-payment`
 
 // Credit note related
 export const CUSTOMER_INVOICE_CREDIT_NOTE_DETAILS_ROUTE = `${CUSTOMER_DETAILS_ROUTE}/invoice/:invoiceId/credit-notes/:creditNoteId`
@@ -35,6 +38,12 @@ export const customerRoutes: CustomRouteObject[] = [
     element: <CustomersList />,
     permissions: ['customersView'],
   },
+  {
+    path: CUSTOMER_DUPLICATES_ROUTE,
+    private: true,
+    element: <CustomerDuplicates />,
+    permissions: ['customersView'],
+  },
   {
     path: [CUSTOMER_DETAILS_ROUTE, CUSTOMER_DETAILS_TAB_ROUTE],
     private: true,
@@ -69,7 +78,7 @@ export const customerObjectCreationRoutes: CustomRouteObject[] = [
     permissions: ['creditNotesCreate'],
   },
   {
-    path: CUSTOMER_REQUEST_OVERDUE_PAYMENT_ROUTE,
+    path: [CUSTOMER_REQUEST_OVERDUE_PAYMENT_ROUTE, CUSTOMER_GROUP_REQUEST_OVERDUE_PAYMENT_ROUTE],
     private: true,
     element: <CustomerRequestOverduePayment />,
     permissions: ['analyticsOverdueBalancesView'],
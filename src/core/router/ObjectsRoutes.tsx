@@ -13,6 +13,7 @@ const InvoicesPage = lazyLoad(() => import('~/pages/InvoicesPage'))
 const ApiKeysForm = lazyLoad(() => import('~/pages/developers/ApiKeysForm'))
 const CreateBillableMetric = lazyLoad(() => import('~/pages/CreateBillableMetric'))
 const CreateCustomer = lazyLoad(() => import('~/pages/CreateCustomer'))
+const ImportCustomers = lazyLoad(() => import('~/pages/ImportCustomers'))
 const CreatePlan = lazyLoad(() => import('~/pages/CreatePlan'))
 const CreateTax = lazyLoad(() => import('~/pages/CreateTax'))
 const CreateInvoice = lazyLoad(() => import('~/pages/CreateInvoice'))
@@ -26,9 +27,11 @@ const CreatePayment = lazyLoad(() => import('~/pages/CreatePayment'))
 // Details
 const SubscriptionDetails = lazyLoad(() => import('~/pages/SubscriptionDetails'))
 const PlanDetails = lazyLoad(() => import('~/pages/PlanDetails'))
+const PlansComparison = lazyLoad(() => import('~/pages/PlansComparison'))
 const AddOnDetails = lazyLoad(() => import('~/pages/AddOnDetails'))
 const CouponDetails = lazyLoad(() => import('~/pages/CouponDetails'))
 const PaymentDetails = lazyLoad(() => import('~/pages/PaymentDetails'))
+const TaxDetails = lazyLoad(() => import('~/pages/TaxDetails'))
 
 // ----------- Routes -----------
 // Lists
@@ -42,6 +45,7 @@ export const INVOICES_TAB_ROUTE = '/invoices/:tab'
 // Creation
 export const CREATE_CUSTOMER_ROUTE = `/customer/create`
 export const UPDATE_CUSTOMER_ROUTE = `/customer/:customerId/edit`
+export const IMPORT_CUSTOMERS_ROUTE = `/customer/import`
 
 export const CREATE_API_KEYS_ROUTE = `/api-keys/create`
 export const UPDATE_API_KEYS_ROUTE = `/api-keys/:apiKeyId/edit`
@@ -81,12 +85,14 @@ export const CUSTOMER_SUBSCRIPTION_DETAILS_ROUTE =
   '/customer/:customerId/subscription/:subscriptionId/:tab'
 export const PLAN_SUBSCRIPTION_DETAILS_ROUTE = '/plan/:planId/subscription/:subscriptionId/:tab'
 export const PLAN_DETAILS_ROUTE = '/plan/:planId/:tab'
+export const PLANS_COMPARISON_ROUTE = '/plans/compare'
 export const CUSTOMER_SUBSCRIPTION_PLAN_DETAILS =
   '/customer/:customerId/subscription/:subscriptionId/plan/:planId/:tab'
 export const ADD_ON_DETAILS_ROUTE = '/add-on/:addOnId'
 export const COUPON_DETAILS_ROUTE = '/coupon/:couponId'
 export const PAYMENT_DETAILS_ROUTE = '/payment/:paymentId'
 export const CUSTOMER_PAYMENT_DETAILS_ROUTE = '/customer/:customerId/payment/:paymentId'
+export const TAX_DETAILS_ROUTE = '/tax/:taxId'
 
 export const objectListRoutes: CustomRouteObject[] = [
   {
@@ -128,6 +134,12 @@ export const objectCreationRoutes: CustomRouteObject[] = [
     element: <CreateCustomer />,
     permissions: ['customersCreate', 'customersUpdate'],
   },
+  {
+    path: IMPORT_CUSTOMERS_ROUTE,
+    private: true,
+    element: <ImportCustomers />,
+    permissions: ['customersCreate'],
+  },
   {
     path: [CREATE_API_KEYS_ROUTE, UPDATE_API_KEYS_ROUTE],
     private: true,
@@ -209,6 +221,12 @@ export const objectDetailsRoutes: CustomRouteObject[] = [
     element: <PlanDetails />,
     permissions: ['plansView'],
   },
+  {
+    path: [PLANS_COMPARISON_ROUTE],
+    private: true,
+    element: <PlansComparison />,
+    permissions: ['plansView'],
+  },
   {
     path: [ADD_ON_DETAILS_ROUTE],
     private: true,
@@ -227,4 +245,10 @@ export const objectDetailsRoutes: CustomRouteObject[] = [
     element: <PaymentDetails />,
     permissions: ['paymentsView'],
   },
+  {
+    path: [TAX_DETAILS_ROUTE],
+    private: true,
+    element: <TaxDetails />,
+    permissions: ['organizationTaxesView'],
+  },
 ]
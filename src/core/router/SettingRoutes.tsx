@@ -16,6 +16,7 @@ const CreateInvoiceCustomSection = lazyLoad(
 )
 
 const TaxesSettings = lazyLoad(() => import('~/pages/settings/TaxesSettings'))
+const TaxAssignments = lazyLoad(() => import('~/pages/settings/TaxAssignments'))
 const Members = lazyLoad(() => import('~/pages/settings/Members'))
 const Integrations = lazyLoad(() => import('~/pages/settings/Integrations'))
 const Authentication = lazyLoad(() => import('~/pages/settings/Authentication/Authentication'))
@@ -67,6 +68,7 @@ const CreateDunning = lazyLoad(() => import('~/pages/settings/Dunnings/CreateDun
 export const SETTINGS_ROUTE = '/settings'
 export const INVOICE_SETTINGS_ROUTE = `${SETTINGS_ROUTE}/invoice`
 export const TAXES_SETTINGS_ROUTE = `${SETTINGS_ROUTE}/taxes`
+export const TAX_ASSIGNMENTS_SETTINGS_ROUTE = `${TAXES_SETTINGS_ROUTE}/assignments`
 export const ORGANIZATION_INFORMATIONS_ROUTE = `${SETTINGS_ROUTE}/organization-informations`
 export const ROOT_INTEGRATIONS_ROUTE = `${SETTINGS_ROUTE}/integrations`
 export const INTEGRATIONS_ROUTE = `${ROOT_INTEGRATIONS_ROUTE}/:integrationGroup`
@@ -130,6 +132,12 @@ export const settingRoutes: CustomRouteObject[] = [
         element: <TaxesSettings />,
         permissions: ['organizationTaxesView'],
       },
+      {
+        path: [TAX_ASSIGNMENTS_SETTINGS_ROUTE],
+        private: true,
+        element: <TaxAssignments />,
+        permissions: ['organizationTaxesView'],
+      },
       {
         path: EMAILS_SETTINGS_ROUTE,
         private: true,
@@ -0,0 +1,118 @@
+import { LocalChargeInput } from '~/components/plans/types'
+import { transformFilterObjectToString } from '~/components/plans/utils'
+import {
+  deserializeChargeTemplate,
+  serializeChargeTemplateInput,
+} from '~/core/serializers/serializeChargeTemplate'
+import { AggregationTypeEnum, ChargeModelEnum } from '~/generated/graphql'
+
+const billableMetric = {
+  id: 'bm-1',
+  name: 'API calls',
+  code: 'api_calls',
+  aggregationType: AggregationTypeEnum.CountAgg,
+  recurring: false,
+  filters: [{ id: 'filter-1', key: 'region', values: ['eu', 'us'] }],
+}
+
+const graduatedRanges = [
+  { fromValue: '0', toValue: '10', perUnitAmount: '1', flatAmount: '0' },
+  { fromValue: '11', toValue: null, perUnitAmount: '0.5', flatAmount: '0' },
+]
+
+describe('serializeChargeTemplate', () => {
+  describe('serializeChargeTemplateInput', () => {
+    it('keeps the charge configuration and drops the plan specific settings', () => {
+      const charge = {
+        id: 'charge-1',
+        billableMetric,
+        chargeModel: ChargeModelEnum.Standard,
+        invoiceable: true,
+        prorated: false,
+        payInAdvance: true,
+        invoiceDisplayName: 'API',
+        minAmountCents: '10',
+        properties: { amount: '2', groupedBy: 'region,country' },
+        filters: [
+          {
+            invoiceDisplayName: 'Europe',
+            properties: { amount: '3' },
+            values: [transformFilterObjectToString('region', 'eu')],
+          },
+        ],
+      } as LocalChargeInput
+
+      const input = serializeChargeTemplateInput('API calls by region', charge)
+
+      expect(input).toEqual(
+        expect.objectContaining({
+          name: 'API calls by region',
+          billableMetricId: 'bm-1',
+          chargeModel: ChargeModelEnum.Standard,
+          invoiceable: true,
+          prorated: false,
+        }),
+      )
+      expect(input.properties).toEqual(
+        expect.objectContaining({ amount: '2', groupedBy: ['region', 'country'] }),
+      )
+      expect(input.filters).toEqual([
+        expect.objectContaining({
+          invoiceDisplayName: 'Europe',
+          values: { region: ['eu'] },
+        }),
+      ])
+      expect(input).not.toHaveProperty('payInAdvance')
+      expect(input).not.toHaveProperty('minAmountCents')
+      expect(input).not.toHaveProperty('invoiceDisplayName')
+    })
+  })
+
+  describe('deserializeChargeTemplate', () => {
+    it('builds a new charge referencing the template', () => {
+      const charge = deserializeChargeTemplate({
+        id: 'template-1',
+        name: 'API calls by region',
+        billableMetric,
+        chargeModel: ChargeModelEnum.Graduated,
+        invoiceable: true,
+        prorated: false,
+        properties: { graduatedRanges },
+        filters: [
+          { invoiceDisplayName: null, properties: { graduatedRanges }, values: { region: ['us'] } },
+        ],
+        plans: [],
+      })
+
+      expect(charge).toEqual(
+        expect.objectContaining({
+          chargeTemplateId: 'template-1',
+          billableMetric,
+          chargeModel: ChargeModelEnum.Graduated,
+          payInAdvance: false,
+          invoiceDisplayName: '',
+        }),
+      )
+      expect(charge).not.toHaveProperty('id')
+      expect(charge.properties?.graduatedRanges).toEqual(graduatedRanges)
+      expect(charge.filters?.[0].values).toEqual([transformFilterObjectToString('region', 'us')])
+    })
+
+    it('does not set filters when the billable metric has none', () => {
+      const charge = deserializeChargeTemplate({
+        id: 'template-1',
+        name: 'Seats',
+        billableMetric: { ...billableMetric, filters: [] },
+        chargeModel: ChargeModelEnum.Standard,
+        invoiceable: true,
+        prorated: true,
+        properties: { amount: '5' },
+        filters: [],
+        plans: [],
+      })
+
+      expect(charge.filters).toBeUndefined()
+      expect(charge.properties?.amount).toBe('5')
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import { transformFilterObjectToString } from '~/components/plans/utils'
+import {
+  deserializePlanExport,
+  getPlanExportCodes,
+  parsePlanExport,
+  PLAN_EXPORT_VERSION,
+  PlanExportFormatEnum,
+  serializePlanExport,
+  stringifyPlanExport,
+} from '~/core/serializers/serializePlanExport'
+import {
+  AggregationTypeEnum,
+  ChargeModelEnum,
+  CommitmentTypeEnum,
+  CurrencyEnum,
+  EditPlanFragment,
+  PlanInterval,
+} from '~/generated/graphql'
+
+const billableMetric = {
+  id: 'bm-1',
+  name: 'API calls',
+  code: 'api_calls',
+  aggregationType: AggregationTypeEnum.CountAgg,
+  recurring: false,
+  filters: [{ id: 'filter-1', key: 'region', values: ['eu', 'us'] }],
+}
+
+const vatTax = { id: 'tax-1', code: 'vat', name: 'VAT', rate: 20 }
+
+const plan = {
+  __typename: 'Plan',
+  id: 'plan-1',
+  name: 'Premium',
+  code: 'premium',
+  description: 'Premium plan',
+  interval: PlanInterval.Monthly,
+  payInAdvance: true,
+  invoiceDisplayName: null,
+  amountCents: '10000',
+  amountCurrency: CurrencyEnum.Eur,
+  trialPeriod: 7,
+  billChargesMonthly: null,
+  taxes: [{ __typename: 'Tax', ...vatTax }],
+  minimumCommitment: {
+    __typename: 'Commitment',
+    amountCents: '50000',
+    commitmentType: CommitmentTypeEnum.MinimumCommitment,
+    invoiceDisplayName: 'Commitment',
+    taxes: [],
+  },
+  usageThresholds: [
+    { id: 'threshold-2', amountCents: '30000', recurring: false, thresholdDisplayName: null },
+    { id: 'threshold-1', amountCents: '10000', recurring: false, thresholdDisplayName: null },
+    { id: 'threshold-3', amountCents: '5000', recurring: true, thresholdDisplayName: 'Every' },
+  ],
+  charges: [
+    {
+      __typename: 'Charge',
+      id: 'charge-1',
+      chargeModel: ChargeModelEnum.Standard,
+      invoiceable: true,
+      minAmountCents: '1000',
+      payInAdvance: false,
+      prorated: false,
+      invoiceDisplayName: null,
+      regroupPaidFees: null,
+      taxes: [{ __typename: 'Tax', ...vatTax }],
+      billableMetric: { __typename: 'BillableMetric', ...billableMetric },
+      properties: { __typename: 'Properties', amount: '0.5', groupedBy: null },
+      filters: [
+        {
+          __typename: 'ChargeFilter',
+          invoiceDisplayName: null,
+          values: { region: ['eu'] },
+          properties: { __typename: 'Properties', amount: '1', groupedBy: null },
+        },
+      ],
+    },
+  ],
+} as unknown as EditPlanFragment
+
+describe('serializePlanExport', () => {
+  it('should reference billable metrics and taxes by code without cache typenames', () => {
+    const planExport = serializePlanExport(plan)
+
+    expect(planExport.version).toBe(PLAN_EXPORT_VERSION)
+    expect(planExport.plan.taxCodes).toEqual(['vat'])
+    expect(planExport.plan.amountCents).toBe(10000)
+    expect(planExport.plan.charges).toEqual([
+      {
+        billableMetricCode: 'api_calls',
+        chargeModel: ChargeModelEnum.Standard,
+        invoiceDisplayName: null,
+        invoiceable: true,
+        minAmountCents: 1000,
+        payInAdvance: false,
+        prorated: false,
+        regroupPaidFees: null,
+        taxCodes: ['vat'],
+        properties: { amount: '0.5', groupedBy: null },
+        filters: [
+          {
+            invoiceDisplayName: null,
+            values: { region: ['eu'] },
+            properties: { amount: '1', groupedBy: null },
+          },
+        ],
+      },
+    ])
+    expect(getPlanExportCodes(planExport)).toEqual({
+      billableMetricCodes: ['api_calls'],
+      taxCodes: ['vat'],
+    })
+  })
+})
+
+describe('parsePlanExport', () => {
+  it.each([PlanExportFormatEnum.json, PlanExportFormatEnum.yaml])(
+    'should read back a %s export',
+    (format) => {
+      const planExport = serializePlanExport(plan)
+
+      expect(parsePlanExport(stringifyPlanExport(planExport, format))).toEqual(planExport)
+    },
+  )
+
+  it('should reject files that are not plan exports', () => {
+    expect(() => parsePlanExport('{ "name": ')).toThrow()
+    expect(() => parsePlanExport('name: Premium')).toThrow()
+    expect(() => parsePlanExport(JSON.stringify({ version: PLAN_EXPORT_VERSION }))).toThrow()
+  })
+})
+
+describe('deserializePlanExport', () => {
+  it('should build the plan form values with the resolved billable metrics and taxes', () => {
+    const values = deserializePlanExport(serializePlanExport(plan), {
+      billableMetrics: [billableMetric],
+      taxes: [vatTax],
+    })
+
+    expect(values.amountCents).toBe('100')
+    expect(values.amountCurrency).toBe(CurrencyEnum.Eur)
+    expect(values.taxes).toEqual([vatTax])
+    expect(values.minimumCommitment).toEqual({
+      amountCents: '500',
+      invoiceDisplayName: 'Commitment',
+      taxes: [],
+    })
+    expect(values.nonRecurringUsageThresholds?.map(({ amountCents }) => amountCents)).toEqual([
+      100, 300,
+    ])
+    expect(values.recurringUsageThreshold?.amountCents).toBe(50)
+    expect(values.charges[0].billableMetric).toBe(billableMetric)
+    expect(values.charges[0].minAmountCents).toBe('10')
+    expect(values.charges[0].taxes).toEqual([vatTax])
+    expect(values.charges[0].properties?.amount).toBe('0.5')
+    expect(values.charges[0].filters?.[0].values).toEqual([
+      transformFilterObjectToString('region', 'eu'),
+    ])
+  })
+})
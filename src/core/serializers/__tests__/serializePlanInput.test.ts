@@ -6,6 +6,7 @@ import {
   ChargeModelEnum,
   CurrencyEnum,
   PlanInterval,
+  PriceRoundingRuleEnum,
 } from '~/generated/graphql'
 
 const fullProperty = {
@@ -894,4 +895,113 @@ describe('serializePlanInput()', () => {
       })
     })
   })
+
+  describe('a plan with currency variants', () => {
+    const billableMetric = {
+      id: '1234',
+      name: 'simpleBM',
+      code: 'simple-bm',
+      recurring: false,
+      aggregationType: AggregationTypeEnum.CountAgg,
+    }
+
+    it('returns the prices of each variant, in the order of the plan charges', () => {
+      const plan = serializePlanInput({
+        amountCents: '10',
+        amountCurrency: CurrencyEnum.Usd,
+        billChargesMonthly: true,
+        charges: [
+          {
+            chargeModel: ChargeModelEnum.Standard,
+            billableMetric,
+            properties: { amount: '1' },
+            filters: [
+              {
+                invoiceDisplayName: 'Europe',
+                properties: { amount: '2' },
+                values: [transformFilterObjectToString('region', 'eu')],
+                currencyVariantProperties: { [CurrencyEnum.Jpy]: { amount: '300' } },
+              },
+            ],
+            currencyVariantProperties: { [CurrencyEnum.Jpy]: { amount: '150' } },
+          },
+        ],
+        code: 'my-plan',
+        interval: PlanInterval.Monthly,
+        name: 'My plan',
+        payInAdvance: true,
+        trialPeriod: 0,
+        currencyVariants: [
+          {
+            amountCurrency: CurrencyEnum.Eur,
+            isDerived: true,
+            exchangeRate: '0.9',
+            roundingRule: PriceRoundingRuleEnum.WholeUnit,
+          },
+          {
+            id: 'variant-jpy',
+            amountCurrency: CurrencyEnum.Jpy,
+            isDerived: false,
+            amountCents: '1500',
+          },
+        ],
+      })
+
+      expect(plan.charges[0]).not.toHaveProperty('currencyVariantProperties')
+      expect(plan.charges[0].filters?.[0]).not.toHaveProperty('currencyVariantProperties')
+      expect(plan.currencyVariants).toEqual([
+        {
+          id: undefined,
+          amountCurrency: CurrencyEnum.Eur,
+          amountCents: 900,
+          exchangeRate: 0.9,
+          roundingRule: PriceRoundingRuleEnum.WholeUnit,
+          charges: [
+            {
+              properties: expect.objectContaining({ amount: '1' }),
+              filters: [
+                expect.objectContaining({
+                  properties: expect.objectContaining({ amount: '2' }),
+                  values: { region: ['eu'] },
+                }),
+              ],
+            },
+          ],
+        },
+        {
+          id: 'variant-jpy',
+          amountCurrency: CurrencyEnum.Jpy,
+          amountCents: 1500,
+          exchangeRate: undefined,
+          roundingRule: undefined,
+          charges: [
+            {
+              properties: expect.objectContaining({ amount: '150' }),
+              filters: [
+                expect.objectContaining({
+                  properties: expect.objectContaining({ amount: '300' }),
+                }),
+              ],
+            },
+          ],
+        },
+      ])
+    })
+
+    it('does not send currency variants when they are not managed by the form', () => {
+      const plan = serializePlanInput({
+        amountCents: '10',
+        amountCurrency: CurrencyEnum.Usd,
+        billChargesMonthly: true,
+        charges: [],
+        code: 'my-plan',
+        interval: PlanInterval.Monthly,
+        name: 'My plan',
+        payInAdvance: true,
+        trialPeriod: 0,
+      })
+
+      expect(plan).not.toHaveProperty('currencyVariants')
+    })
+  })
 })
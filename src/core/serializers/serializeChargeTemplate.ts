@@ -0,0 +1,59 @@
+import { LocalChargeInput } from '~/components/plans/types'
+import { transformFilterObjectToString } from '~/components/plans/utils'
+import {
+  ChargeTemplateItemFragment,
+  CreateChargeTemplateInput,
+  Properties,
+} from '~/generated/graphql'
+
+import getPropertyShape from './getPropertyShape'
+import { serializeFilters, serializeProperties } from './serializePlanInput'
+
+export const serializeChargeTemplateInput = (
+  name: string,
+  { billableMetric, chargeModel, invoiceable, prorated, properties, filters }: LocalChargeInput,
+): CreateChargeTemplateInput => {
+  return {
+    name,
+    billableMetricId: billableMetric.id,
+    chargeModel,
+    invoiceable,
+    prorated,
+    properties: properties ? serializeProperties(properties as Properties, chargeModel) : undefined,
+    filters: serializeFilters(filters, chargeModel),
+  }
+}
+
+/**
+ * Builds a new plan charge from a template.
+ * The template id is kept on the charge so the API records which plans were built from it.
+ */
+export const deserializeChargeTemplate = ({
+  id,
+  billableMetric,
+  chargeModel,
+  invoiceable,
+  prorated,
+  properties,
+  filters,
+}: ChargeTemplateItemFragment): LocalChargeInput => {
+  return {
+    chargeTemplateId: id,
+    billableMetric,
+    chargeModel,
+    invoiceable,
+    prorated,
+    payInAdvance: false,
+    invoiceDisplayName: '',
+    properties: getPropertyShape(properties || undefined),
+    filters: !!billableMetric.filters?.length
+      ? (filters || []).map((filter) => ({
+          invoiceDisplayName: filter.invoiceDisplayName,
+          properties: getPropertyShape(filter.properties),
+          values: Object.entries((filter.values || {}) as Record<string, string[]>).flatMap(
+            ([key, values]) => values.map((value) => transformFilterObjectToString(key, value)),
+          ),
+        }))
+      : undefined,
+  }
+}
@@ -0,0 +1,221 @@
+import { parse, stringify } from 'yaml'
+
+import { LocalChargeInput, PlanFormInput } from '~/components/plans/types'
+import { transformFilterObjectToString } from '~/components/plans/utils'
+import { omitDeep } from '~/core/apolloClient'
+import {
+  BillableMetricForPlanFragment,
+  ChargeInput,
+  CreatePlanInput,
+  CurrencyEnum,
+  EditPlanFragment,
+  Properties,
+  TaxForPlanAndChargesInPlanFormFragment,
+} from '~/generated/graphql'
+
+import getPropertyShape from './getPropertyShape'
+import { deserializeAmount } from './serializeAmount'
+
+// Bump when the file structure changes in a non backward compatible way
+export const PLAN_EXPORT_VERSION = 1
+
+export enum PlanExportFormatEnum {
+  json = 'json',
+  yaml = 'yaml',
+}
+
+export type PlanExportCharge = Omit<ChargeInput, 'billableMetricId' | 'id'> & {
+  billableMetricCode: string
+}
+
+/**
+ * Portable representation of a plan, shaped like the plan creation input.
+ * Billable metrics and taxes are referenced by code so the file can be imported in another
+ * organization, and amounts are expressed in cents.
+ */
+export type PlanExport = {
+  version: number
+  plan: Omit<CreatePlanInput, 'clientMutationId' | 'charges'> & {
+    charges: PlanExportCharge[]
+  }
+}
+
+export const serializePlanExport = (plan: EditPlanFragment): PlanExport => {
+  return {
+    version: PLAN_EXPORT_VERSION,
+    plan: {
+      name: plan.name,
+      code: plan.code,
+      description: plan.description || null,
+      invoiceDisplayName: plan.invoiceDisplayName || null,
+      interval: plan.interval,
+      payInAdvance: plan.payInAdvance,
+      amountCents: Number(plan.amountCents),
+      amountCurrency: plan.amountCurrency,
+      trialPeriod: plan.trialPeriod || 0,
+      billChargesMonthly: plan.billChargesMonthly || false,
+      taxCodes: plan.taxes?.map(({ code }) => code) || [],
+      minimumCommitment: plan.minimumCommitment
+        ? {
+            amountCents: Number(plan.minimumCommitment.amountCents),
+            invoiceDisplayName: plan.minimumCommitment.invoiceDisplayName || null,
+            taxCodes: plan.minimumCommitment.taxes?.map(({ code }) => code) || [],
+          }
+        : null,
+      usageThresholds: (plan.usageThresholds || []).map(
+        ({ amountCents, recurring, thresholdDisplayName }) => ({
+          amountCents: Number(amountCents),
+          recurring,
+          thresholdDisplayName: thresholdDisplayName || null,
+        }),
+      ),
+      charges: (plan.charges || []).map((charge) => ({
+        billableMetricCode: charge.billableMetric.code,
+        chargeModel: charge.chargeModel,
+        invoiceDisplayName: charge.invoiceDisplayName || null,
+        invoiceable: charge.invoiceable,
+        minAmountCents: Number(charge.minAmountCents || 0),
+        payInAdvance: charge.payInAdvance,
+        prorated: charge.prorated,
+        regroupPaidFees: charge.regroupPaidFees || null,
+        taxCodes: charge.taxes?.map(({ code }) => code) || [],
+        // Apollo adds __typename on every object, it has no meaning outside of the app cache
+        properties: charge.properties
+          ? (omitDeep(charge.properties, '__typename') as Properties)
+          : null,
+        filters: (charge.filters || []).map(({ invoiceDisplayName, properties, values }) => ({
+          invoiceDisplayName: invoiceDisplayName || null,
+          properties: omitDeep(properties, '__typename') as Properties,
+          values,
+        })),
+      })),
+    },
+  }
+}
+
+export const stringifyPlanExport = (planExport: PlanExport, format: PlanExportFormatEnum) => {
+  if (format === PlanExportFormatEnum.yaml) return stringify(planExport)
+
+  return JSON.stringify(planExport, null, 2)
+}
+
+export const parsePlanExport = (content: string): PlanExport => {
+  let planExport: PlanExport
+
+  try {
+    // JSON being a subset of YAML, the YAML parser reads both formats
+    planExport = parse(content)
+  } catch {
+    throw new Error('Invalid file content')
+  }
+
+  if (planExport?.version !== PLAN_EXPORT_VERSION) {
+    throw new Error(`Unsupported version: ${planExport?.version}`)
+  }
+
+  if (!planExport.plan || !Array.isArray(planExport.plan.charges)) {
+    throw new Error('Missing plan definition')
+  }
+
+  return planExport
+}
+
+export const getPlanExportCodes = ({ plan }: PlanExport) => {
+  const taxCodes = [
+    ...(plan.taxCodes || []),
+    ...(plan.minimumCommitment?.taxCodes || []),
+    ...plan.charges.flatMap((charge) => charge.taxCodes || []),
+  ]
+
+  return {
+    billableMetricCodes: Array.from(new Set(plan.charges.map((c) => c.billableMetricCode))),
+    taxCodes: Array.from(new Set(taxCodes)),
+  }
+}
+
+/**
+ * Builds the plan form values from an exported plan.
+ * Billable metrics and taxes referenced by the file are expected to be resolved beforehand.
+ */
+export const deserializePlanExport = (
+  { plan }: PlanExport,
+  {
+    billableMetrics,
+    taxes,
+  }: {
+    billableMetrics: BillableMetricForPlanFragment[]
+    taxes: TaxForPlanAndChargesInPlanFormFragment[]
+  },
+): PlanFormInput => {
+  const currency = plan.amountCurrency || CurrencyEnum.Usd
+  const getTaxes = (codes?: string[] | null) =>
+    (codes || []).reduce<TaxForPlanAndChargesInPlanFormFragment[]>((acc, code) => {
+      const tax = taxes.find((t) => t.code === code)
+
+      if (tax) acc.push(tax)
+
+      return acc
+    }, [])
+  const usageThresholds = (plan.usageThresholds || []).map((threshold) => ({
+    ...threshold,
+    amountCents: deserializeAmount(threshold.amountCents || 0, currency),
+  }))
+  const nonRecurringUsageThresholds = usageThresholds
+    .filter(({ recurring }) => !recurring)
+    .sort((a, b) => a.amountCents - b.amountCents)
+
+  return {
+    name: plan.name || '',
+    code: plan.code || '',
+    description: plan.description || '',
+    interval: plan.interval,
+    invoiceDisplayName: plan.invoiceDisplayName || undefined,
+    payInAdvance: plan.payInAdvance || false,
+    amountCents: String(deserializeAmount(plan.amountCents || 0, currency)),
+    amountCurrency: currency,
+    trialPeriod: plan.trialPeriod ?? undefined,
+    billChargesMonthly: plan.billChargesMonthly || undefined,
+    taxes: getTaxes(plan.taxCodes),
+    minimumCommitment: plan.minimumCommitment
+      ? {
+          invoiceDisplayName: plan.minimumCommitment.invoiceDisplayName,
+          amountCents: String(deserializeAmount(plan.minimumCommitment.amountCents || 0, currency)),
+          taxes: getTaxes(plan.minimumCommitment.taxCodes),
+        }
+      : {},
+    nonRecurringUsageThresholds: nonRecurringUsageThresholds.length
+      ? nonRecurringUsageThresholds
+      : undefined,
+    recurringUsageThreshold: usageThresholds.find(({ recurring }) => !!recurring),
+    charges: plan.charges.map(
+      ({
+        billableMetricCode,
+        taxCodes,
+        minAmountCents,
+        properties,
+        filters,
+        invoiceDisplayName,
+        ...charge
+      }) =>
+        ({
+          ...charge,
+          billableMetric: billableMetrics.find(({ code }) => code === billableMetricCode),
+          invoiceDisplayName: invoiceDisplayName || '',
+          taxes: getTaxes(taxCodes),
+          minAmountCents: Number(minAmountCents)
+            ? String(deserializeAmount(minAmountCents, currency))
+            : undefined,
+          payInAdvance: charge.payInAdvance || false,
+          regroupPaidFees: charge.regroupPaidFees || null,
+          properties: properties ? getPropertyShape(properties as Properties) : undefined,
+          filters: (filters || []).map((filter) => ({
+            invoiceDisplayName: filter.invoiceDisplayName,
+            properties: getPropertyShape(filter.properties as Properties),
+            values: Object.entries((filter.values || {}) as Record<string, string[]>).flatMap(
+              ([key, values]) => values.map((value) => transformFilterObjectToString(key, value)),
+            ),
+          })),
+        }) as LocalChargeInput,
+    ),
+  }
+}
@@ -1,5 +1,14 @@
 import { LocalChargeFilterInput, PlanFormInput } from '~/components/plans/types'
-import { ChargeFilterInput, ChargeModelEnum, Properties } from '~/generated/graphql'
+import {
+  getCurrencyVariantAmountCents,
+  getCurrencyVariantProperties,
+} from '~/components/plans/utils'
+import {
+  ChargeFilterInput,
+  ChargeModelEnum,
+  PlanCurrencyVariantInput,
+  Properties,
+} from '~/generated/graphql'
 
 import { serializeAmount } from './serializeAmount'
 
@@ -9,13 +18,16 @@ const serializeScientificNotation = (value: string): string => {
   return Number(value).toLocaleString('en-US', { maximumFractionDigits: 15, useGrouping: false })
 }
 
-const serializeFilters = (
+export const serializeFilters = (
   filters: LocalChargeFilterInput[] | undefined,
   chargeModel: ChargeModelEnum,
 ): ChargeFilterInput[] | undefined => {
   if (!filters?.length) return []
 
   return filters.map(({ values, properties, invoiceDisplayName, ...filterProps }) => {
+    // Prices of the currency variants are sent with the plan currency variants
+    delete filterProps.currencyVariantProperties
+
     const allValuesAsJson = values.map((value) => JSON.parse(value))
     const groupedBy = allValuesAsJson.reduce(
       (acc, cur) => {
@@ -39,7 +51,7 @@ const serializeFilters = (
   })
 }
 
-const serializeProperties = (properties: Properties, chargeModel: ChargeModelEnum) => {
+export const serializeProperties = (properties: Properties, chargeModel: ChargeModelEnum) => {
   return {
     ...properties,
     ...([ChargeModelEnum.Standard, ChargeModelEnum.Dynamic].includes(chargeModel)
@@ -104,12 +116,18 @@ const serializeProperties = (properties: Properties, chargeModel: ChargeModelEnu
           freeUnitsPerTotalAggregation: !!properties?.freeUnitsPerTotalAggregation
             ? String(properties?.freeUnitsPerTotalAggregation)
             : undefined,
-          perTransactionMinAmount: !!properties?.perTransactionMinAmount
-            ? String(properties?.perTransactionMinAmount || 0)
-            : undefined,
-          perTransactionMaxAmount: !!properties?.perTransactionMaxAmount
-            ? String(properties?.perTransactionMaxAmount || 0)
-            : undefined,
+          perTransactionMinAmount:
+            properties?.perTransactionMinAmount !== undefined &&
+            properties?.perTransactionMinAmount !== null &&
+            properties?.perTransactionMinAmount !== ''
+              ? String(properties.perTransactionMinAmount)
+              : undefined,
+          perTransactionMaxAmount:
+            properties?.perTransactionMaxAmount !== undefined &&
+            properties?.perTransactionMaxAmount !== null &&
+            properties?.perTransactionMaxAmount !== ''
+              ? String(properties.perTransactionMaxAmount)
+              : undefined,
         }
       : { perTransactionMinAmount: undefined, perTransactionMaxAmount: undefined }),
     ...(chargeModel === ChargeModelEnum.Custom
@@ -118,6 +136,57 @@ const serializeProperties = (properties: Properties, chargeModel: ChargeModelEnu
   }
 }
 
+const serializeCurrencyVariants = ({
+  amountCents,
+  charges,
+  currencyVariants,
+}: PlanFormInput): PlanCurrencyVariantInput[] | undefined => {
+  if (!currencyVariants) return undefined
+
+  return currencyVariants.map((currencyVariant) => {
+    const { id, amountCurrency, isDerived, exchangeRate, roundingRule } = currencyVariant
+
+    return {
+      id,
+      amountCurrency,
+      amountCents: Number(
+        serializeAmount(
+          getCurrencyVariantAmountCents(amountCents, currencyVariant) || 0,
+          amountCurrency,
+        ),
+      ),
+      exchangeRate: isDerived ? Number(exchangeRate) : undefined,
+      roundingRule: isDerived ? roundingRule : undefined,
+      // Charges and filters are matched with the plan ones by their position
+      charges: charges.map(({ chargeModel, properties, filters, currencyVariantProperties }) => {
+        const variantProperties = getCurrencyVariantProperties(
+          properties,
+          currencyVariantProperties,
+          currencyVariant,
+        )
+
+        return {
+          properties: variantProperties
+            ? serializeProperties(variantProperties as Properties, chargeModel)
+            : undefined,
+          filters: serializeFilters(
+            filters?.map((filter) => ({
+              ...filter,
+              properties:
+                getCurrencyVariantProperties(
+                  filter.properties,
+                  filter.currencyVariantProperties,
+                  currencyVariant,
+                ) || {},
+            })),
+            chargeModel,
+          ),
+        }
+      }),
+    }
+  })
+}
+
 export const serializePlanInput = (values: PlanFormInput) => {
   const {
     amountCents,
@@ -128,6 +197,7 @@ export const serializePlanInput = (values: PlanFormInput) => {
     nonRecurringUsageThresholds,
     recurringUsageThreshold,
     cascadeUpdates,
+    currencyVariants,
     ...otherValues
   } = values
 
@@ -173,6 +243,8 @@ export const serializePlanInput = (values: PlanFormInput) => {
         minAmountCents,
         taxes: chargeTaxes,
         filters,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        currencyVariantProperties,
         ...charge
       }) => {
         return {
@@ -193,6 +265,7 @@ export const serializePlanInput = (values: PlanFormInput) => {
       },
     ),
     ...(typeof cascadeUpdates === 'undefined' ? {} : { cascadeUpdates }),
+    ...(currencyVariants ? { currencyVariants: serializeCurrencyVariants(values) } : {}),
     ...otherValues,
   }
 }
@@ -0,0 +1,59 @@
+import {
+  PlanForSubscriptionOverridesFragment,
+  PlanOverridesInput,
+  PropertiesInput,
+} from '~/generated/graphql'
+
+/**
+ * Builds the plan overrides of a subscription from a plan returned by the API.
+ * Amounts are already in cents so, unlike serializePlanInput, no conversion is needed.
+ */
+export const serializePlanOverrides = ({
+  name,
+  description,
+  invoiceDisplayName,
+  amountCents,
+  amountCurrency,
+  trialPeriod,
+  taxes,
+  minimumCommitment,
+  usageThresholds,
+  charges,
+}: PlanForSubscriptionOverridesFragment): PlanOverridesInput => {
+  return {
+    name,
+    description,
+    invoiceDisplayName,
+    amountCents,
+    amountCurrency,
+    trialPeriod,
+    taxCodes: taxes?.map(({ code }) => code) || [],
+    minimumCommitment: !!minimumCommitment
+      ? {
+          amountCents: minimumCommitment.amountCents,
+          invoiceDisplayName: minimumCommitment.invoiceDisplayName,
+          taxCodes: minimumCommitment.taxes?.map(({ code }) => code) || [],
+        }
+      : {},
+    usageThresholds: (usageThresholds || []).map(
+      ({ amountCents: thresholdAmountCents, recurring, thresholdDisplayName }) => ({
+        amountCents: thresholdAmountCents,
+        recurring,
+        thresholdDisplayName,
+      }),
+    ),
+    charges: (charges || []).map((charge) => ({
+      id: charge.id,
+      billableMetricId: charge.billableMetric.id,
+      invoiceDisplayName: charge.invoiceDisplayName,
+      minAmountCents: charge.minAmountCents,
+      taxCodes: charge.taxes?.map(({ code }) => code) || [],
+      properties: (charge.properties as PropertiesInput) || undefined,
+      filters: (charge.filters || []).map((filter) => ({
+        invoiceDisplayName: filter.invoiceDisplayName,
+        properties: filter.properties as PropertiesInput,
+        values: filter.values,
+      })),
+    })),
+  }
+}
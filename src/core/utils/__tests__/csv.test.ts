@@ -0,0 +1,62 @@
+import { escapeCsvValue, parseCsv, parseCsvRows } from '~/core/utils/csv'
+
+describe('csv', () => {
+  describe('escapeCsvValue', () => {
+    it('quotes values containing delimiters, quotes or line breaks', () => {
+      expect(escapeCsvValue('plain')).toBe('plain')
+      expect(escapeCsvValue('a,b')).toBe('"a,b"')
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""')
+      expect(escapeCsvValue('line\nbreak')).toBe('"line\nbreak"')
+    })
+  })
+
+  describe('parseCsv', () => {
+    it('reads comma separated rows', () => {
+      expect(parseCsv('external_id,name\ncus_1,Acme\r\ncus_2,Globex\n')).toEqual([
+        ['external_id', 'name'],
+        ['cus_1', 'Acme'],
+        ['cus_2', 'Globex'],
+      ])
+    })
+
+    it('detects semicolon and tab delimiters', () => {
+      expect(parseCsv('external_id;name\ncus_1;Acme, Inc.')).toEqual([
+        ['external_id', 'name'],
+        ['cus_1', 'Acme, Inc.'],
+      ])
+      expect(parseCsv('external_id\tname\ncus_1\tAcme')).toEqual([
+        ['external_id', 'name'],
+        ['cus_1', 'Acme'],
+      ])
+      expect(parseCsv('0;1,5\n2;3')).toEqual([
+        ['0', '1,5'],
+        ['2', '3'],
+      ])
+      expect(parseCsv('0\t1,000,000;5')).toEqual([['0', '1,000,000;5']])
+    })
+
+    it('reads quoted values', () => {
+      expect(parseCsv('id,address\ncus_1,"1 Main St, Suite ""B""\nParis"')).toEqual([
+        ['id', 'address'],
+        ['cus_1', '1 Main St, Suite "B"\nParis'],
+      ])
+    })
+
+    it('ignores empty lines and keeps empty cells', () => {
+      expect(parseCsv('id,name,email\n\ncus_1,,a@b.co\n,,\n')).toEqual([
+        ['id', 'name', 'email'],
+        ['cus_1', '', 'a@b.co'],
+      ])
+    })
+  })
+
+  describe('parseCsvRows', () => {
+    it('keeps the line number each row starts on', () => {
+      expect(parseCsvRows('id,address\n\ncus_1,"1 Main St\nParis"\ncus_2,Berlin')).toEqual([
+        { lineNumber: 1, cells: ['id', 'address'] },
+        { lineNumber: 3, cells: ['cus_1', '1 Main St\nParis'] },
+        { lineNumber: 5, cells: ['cus_2', 'Berlin'] },
+      ])
+    })
+  })
+})
@@ -0,0 +1,77 @@
+export const escapeCsvValue = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+
+const detectCsvDelimiter = (content: string) => {
+  const firstLine = content.split(/\r?\n/)[0] || ''
+
+  // Cells copied from a spreadsheet are separated by tabs
+  if (firstLine.includes('\t')) return '\t'
+
+  // Spreadsheets export CSV files with semicolons in locales using a decimal comma
+  return firstLine.includes(';') && firstLine.split(';').length >= firstLine.split(',').length
+    ? ';'
+    : ','
+}
+
+export type CsvRow = {
+  // 1-based number of the line the row starts on in the file
+  lineNumber: number
+  cells: string[]
+}
+
+/**
+ * Reads the rows of a CSV file. Quoted values can contain delimiters, line breaks and escaped quotes.
+ * Empty lines are ignored, each row keeps the number of the line it starts on.
+ */
+export const parseCsvRows = (content: string): CsvRow[] => {
+  const delimiter = detectCsvDelimiter(content)
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let cell = ''
+  let isQuoted = false
+  let lineNumber = 1
+  let rowLineNumber = 1
+
+  const pushRow = () => {
+    row.push(cell.trim())
+
+    if (row.some(Boolean)) rows.push({ lineNumber: rowLineNumber, cells: row })
+
+    row = []
+    cell = ''
+    rowLineNumber = lineNumber
+  }
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index]
+
+    if (char === '\n') lineNumber++
+
+    if (isQuoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"'
+        index++
+      } else if (char === '"') {
+        isQuoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      isQuoted = true
+    } else if (char === delimiter) {
+      row.push(cell.trim())
+      cell = ''
+    } else if (char === '\n') {
+      pushRow()
+    } else if (char !== '\r') {
+      cell += char
+    }
+  }
+
+  pushRow()
+
+  return rows
+}
+
+export const parseCsv = (content: string): string[][] =>
+  parseCsvRows(content).map(({ cells }) => cells)
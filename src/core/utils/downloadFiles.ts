@@ -26,3 +26,23 @@ export const handleDownloadFile = (fileUrl?: string | null) => {
     showError()
   }, 0)
 }
+
+export const handleDownloadTextFile = ({
+  content,
+  fileName,
+  mimeType,
+}: {
+  content: string
+  fileName: string
+  mimeType: string
+}) => {
+  const fileUrl = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+
+  link.href = fileUrl
+  link.download = fileName
+  link.click()
+
+  // As for the file opening above, the url is released on the next tick so the browser can start the download
+  setTimeout(() => URL.revokeObjectURL(fileUrl), 0)
+}
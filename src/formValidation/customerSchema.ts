@@ -0,0 +1,133 @@
+import { array, object, string } from 'yup'
+
+import { metadataSchema } from '~/formValidation/metadataSchema'
+import {
+  AnrokCustomer,
+  CustomerTypeEnum,
+  HubspotCustomer,
+  IntegrationTypeEnum,
+  NetsuiteCustomer,
+  ProviderCustomer,
+  ProviderTypeEnum,
+  SalesforceCustomer,
+  XeroCustomer,
+} from '~/generated/graphql'
+
+export const customerSchema = object().shape({
+  customerType: string().oneOf(Object.values(CustomerTypeEnum)).nullable(),
+  name: string(),
+  firstname: string(),
+  lastname: string(),
+  email: string().email('text_620bc4d4269a55014d493fc3'),
+  externalId: string().required(''),
+  metadata: metadataSchema(),
+  providerCustomer: object().test({
+    test: function (value: Omit<ProviderCustomer, 'id'>, { from }) {
+      // Value can be undefined if no paymentProvider is selected
+      if (value && from && from[1] && !from[1].value.paymentProvider) {
+        return true
+      }
+
+      // if code is not selected, validation fails
+      if (value && from && from[1] && !from[1].value.paymentProviderCode) {
+        return false
+      }
+
+      if (from?.[1].value.paymentProvider !== ProviderTypeEnum.Cashfree) {
+        // if syncWithProvider is false, providerCustomerId is required
+        if (!value?.syncWithProvider && !value?.providerCustomerId) {
+          return false
+        }
+      }
+
+      return true
+    },
+  }),
+  integrationCustomers: array()
+    .of(
+      object()
+        .test({
+          test: function (
+            value:
+              | Omit<NetsuiteCustomer, 'id'>
+              | Omit<AnrokCustomer, 'id'>
+              | Omit<XeroCustomer, 'id'>
+              | Omit<HubspotCustomer, 'id'>
+              | Omit<SalesforceCustomer, 'id'>,
+          ) {
+            if (!!value) {
+              if (value.integrationType === IntegrationTypeEnum.Netsuite) {
+                value = value as NetsuiteCustomer
+                // If Netsuite integrationCode is not selected
+                if (!value.integrationCode) {
+                  return false
+                }
+
+                // If syncWithProvider is true but no subsidiary is selected
+                if (value?.syncWithProvider && !value?.subsidiaryId) {
+                  return false
+                }
+                // if syncWithProvider is false, externalCustomerId is required
+                if (!value?.syncWithProvider && !value?.externalCustomerId) {
+                  return false
+                }
+              } else if (value.integrationType === IntegrationTypeEnum.Anrok) {
+                value = value as AnrokCustomer
+                // If Anrok integrationCode is not selected
+                if (!value.integrationCode) {
+                  return false
+                }
+
+                // if syncWithProvider is false, externalCustomerId is required
+                if (!value?.syncWithProvider && !value?.externalCustomerId) {
+                  return false
+                }
+              } else if (value.integrationType === IntegrationTypeEnum.Xero) {
+                value = value as XeroCustomer
+                // If Xero integrationCode is not selected
+                if (!value.integrationCode) {
+                  return false
+                }
+
+                // if syncWithProvider is false, externalCustomerId is required
+                if (!value?.syncWithProvider && !value?.externalCustomerId) {
+                  return false
+                }
+              } else if (value.integrationType === IntegrationTypeEnum.Hubspot) {
+                value = value as HubspotCustomer
+                // If Hubspot integrationCode is not selected
+                if (!value.integrationCode) {
+                  return false
+                }
+
+                // targetedObject needs to be selected
+                if (!value?.targetedObject) {
+                  return false
+                }
+
+                // if syncWithProvider is false, externalCustomerId is required
+                if (!value?.syncWithProvider && !value?.externalCustomerId) {
+                  return false
+                }
+              } else if (value.integrationType === IntegrationTypeEnum.Salesforce) {
+                value = value as SalesforceCustomer
+
+                // If Salesforce integrationCode is not selected
+                if (!value.integrationCode) {
+                  return false
+                }
+
+                // if syncWithProvider is false then externalCustomerId is required
+                if (!value?.syncWithProvider && !value?.externalCustomerId) {
+                  return false
+                }
+              }
+            }
+
+            return true
+          },
+        })
+        .nullable(),
+    )
+    .nullable(),
+})
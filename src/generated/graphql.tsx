@@ -96,6 +96,8 @@ export type AddOn = {
   id: Scalars['ID']['output'];
   integrationMappings?: Maybe<Array<Mapping>>;
   invoiceDisplayName?: Maybe<Scalars['String']['output']>;
+  /** Number of one-off invoices using this add-on */
+  invoicesCount: Scalars['Int']['output'];
   name: Scalars['String']['output'];
   organization?: Maybe<Organization>;
   taxes?: Maybe<Array<Tax>>;
@@ -107,6 +109,25 @@ export type AddOnIntegrationMappingsArgs = {
   integrationId?: InputMaybe<Scalars['ID']['input']>;
 };
 
+export type AddOnAmountChange = {
+  __typename?: 'AddOnAmountChange';
+  amountCents: Scalars['BigInt']['output'];
+  amountCurrency: CurrencyEnum;
+  createdAt: Scalars['ISO8601DateTime']['output'];
+  id: Scalars['ID']['output'];
+  previousAmountCents?: Maybe<Scalars['BigInt']['output']>;
+  previousAmountCurrency?: Maybe<CurrencyEnum>;
+  user?: Maybe<User>;
+};
+
+export type AddOnAmountChangeCollection = {
+  __typename?: 'AddOnAmountChangeCollection';
+  /** A collection of paginated AddOnAmountChangeCollection */
+  collection: Array<AddOnAmountChange>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
 /** AddOnCollection type */
 export type AddOnCollection = {
   __typename?: 'AddOnCollection';
@@ -116,6 +137,22 @@ export type AddOnCollection = {
   metadata: CollectionMetadata;
 };
 
+export type AddOnRevenue = {
+  __typename?: 'AddOnRevenue';
+  amountCents: Scalars['BigInt']['output'];
+  currency: CurrencyEnum;
+  invoicesCount: Scalars['Int']['output'];
+  month: Scalars['ISO8601DateTime']['output'];
+};
+
+export type AddOnRevenueCollection = {
+  __typename?: 'AddOnRevenueCollection';
+  /** A collection of paginated AddOnRevenueCollection */
+  collection: Array<AddOnRevenue>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
 /** Stripe input arguments */
 export type AddStripePaymentProviderInput = {
   /** A unique identifier for the client performing the mutation. */
@@ -253,6 +290,7 @@ export type AppliedCoupon = {
   amountCurrency?: Maybe<CurrencyEnum>;
   coupon: Coupon;
   createdAt: Scalars['ISO8601DateTime']['output'];
+  customer: Customer;
   frequency: CouponFrequency;
   frequencyDuration?: Maybe<Scalars['Int']['output']>;
   frequencyDurationRemaining?: Maybe<Scalars['Int']['output']>;
@@ -261,6 +299,14 @@ export type AppliedCoupon = {
   terminatedAt: Scalars['ISO8601DateTime']['output'];
 };
 
+export type AppliedCouponCollection = {
+  __typename?: 'AppliedCouponCollection';
+  /** A collection of paginated AppliedCouponCollection */
+  collection: Array<AppliedCoupon>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
 export type AppliedTax = {
   amountCents: Scalars['BigInt']['output'];
   amountCurrency: CurrencyEnum;
@@ -290,6 +336,8 @@ export type BillableMetric = {
   activeSubscriptionsCount: Scalars['Int']['output'];
   aggregationType: AggregationTypeEnum;
   code: Scalars['String']['output'];
+  /** Coupons limited to the billable metric */
+  coupons: Array<Coupon>;
   createdAt: Scalars['ISO8601DateTime']['output'];
   deletedAt?: Maybe<Scalars['ISO8601DateTime']['output']>;
   description?: Maybe<Scalars['String']['output']>;
@@ -301,6 +349,10 @@ export type BillableMetric = {
   integrationMappings?: Maybe<Array<Mapping>>;
   name: Scalars['String']['output'];
   organization?: Maybe<Organization>;
+  /** Subscriptions overriding their plan with charges on the billable metric */
+  overriddenSubscriptions: Array<Subscription>;
+  /** Plans with charges on the billable metric, overridden plans excluded */
+  plans: Array<Plan>;
   plansCount: Scalars['Int']['output'];
   recurring: Scalars['Boolean']['output'];
   roundingFunction?: Maybe<RoundingFunctionEnum>;
@@ -358,6 +410,8 @@ export type Charge = {
   __typename?: 'Charge';
   billableMetric: BillableMetric;
   chargeModel: ChargeModelEnum;
+  /** Template the charge was created from */
+  chargeTemplate?: Maybe<ChargeTemplate>;
   createdAt: Scalars['ISO8601DateTime']['output'];
   deletedAt?: Maybe<Scalars['ISO8601DateTime']['output']>;
   filters?: Maybe<Array<ChargeFilter>>;
@@ -373,6 +427,12 @@ export type Charge = {
   updatedAt: Scalars['ISO8601DateTime']['output'];
 };
 
+export type ChargeCurrencyVariantInput = {
+  /** Filters prices, in the same order as the charge filters */
+  filters?: InputMaybe<Array<ChargeFilterInput>>;
+  properties?: InputMaybe<PropertiesInput>;
+};
+
 /** Charge filters object */
 export type ChargeFilter = {
   __typename?: 'ChargeFilter';
@@ -402,6 +462,7 @@ export type ChargeFilterUsage = {
 export type ChargeInput = {
   billableMetricId: Scalars['ID']['input'];
   chargeModel: ChargeModelEnum;
+  chargeTemplateId?: InputMaybe<Scalars['ID']['input']>;
   filters?: InputMaybe<Array<ChargeFilterInput>>;
   id?: InputMaybe<Scalars['ID']['input']>;
   invoiceDisplayName?: InputMaybe<Scalars['String']['input']>;
@@ -435,6 +496,32 @@ export type ChargeOverridesInput = {
   taxCodes?: InputMaybe<Array<Scalars['String']['input']>>;
 };
 
+/** Reusable charge configuration, used to create the same charge across plans */
+export type ChargeTemplate = {
+  __typename?: 'ChargeTemplate';
+  billableMetric: BillableMetric;
+  chargeModel: ChargeModelEnum;
+  createdAt: Scalars['ISO8601DateTime']['output'];
+  filters?: Maybe<Array<ChargeFilter>>;
+  id: Scalars['ID']['output'];
+  invoiceable: Scalars['Boolean']['output'];
+  name: Scalars['String']['output'];
+  /** Plans with at least one charge created from this template */
+  plans: Array<Plan>;
+  properties?: Maybe<Properties>;
+  prorated: Scalars['Boolean']['output'];
+  updatedAt: Scalars['ISO8601DateTime']['output'];
+};
+
+/** ChargeTemplateCollection type */
+export type ChargeTemplateCollection = {
+  __typename?: 'ChargeTemplateCollection';
+  /** A collection of paginated ChargeTemplateCollection */
+  collection: Array<ChargeTemplate>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
 export type ChargeUsage = {
   __typename?: 'ChargeUsage';
   amountCents: Scalars['BigInt']['output'];
@@ -1014,6 +1101,8 @@ export type Coupon = {
   appliedCouponsCount: Scalars['Int']['output'];
   billableMetrics?: Maybe<Array<BillableMetric>>;
   code?: Maybe<Scalars['String']['output']>;
+  /** Number of single-use codes generated from the coupon */
+  codesCount: Scalars['Int']['output'];
   couponType: CouponTypeEnum;
   createdAt: Scalars['ISO8601DateTime']['output'];
   /** Number of customers using this coupon */
@@ -1030,12 +1119,49 @@ export type Coupon = {
   organization?: Maybe<Organization>;
   percentageRate?: Maybe<Scalars['Float']['output']>;
   plans?: Maybe<Array<Plan>>;
+  /** Number of single-use codes applied to a customer */
+  redeemedCodesCount: Scalars['Int']['output'];
   reusable: Scalars['Boolean']['output'];
   status: CouponStatusEnum;
   terminatedAt?: Maybe<Scalars['ISO8601DateTime']['output']>;
   updatedAt: Scalars['ISO8601DateTime']['output'];
 };
 
+/** CouponCodeCollection type */
+export type CouponAnalytic = {
+  __typename?: 'CouponAnalytic';
+  activeAppliedCouponsCount: Scalars['Int']['output'];
+  discounts: Array<CouponDiscount>;
+  month: Scalars['ISO8601DateTime']['output'];
+};
+
+export type CouponAnalyticCollection = {
+  __typename?: 'CouponAnalyticCollection';
+  /** A collection of paginated CouponAnalyticCollection */
+  collection: Array<CouponAnalytic>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
+/** Single-use code generated from a coupon */
+export type CouponCode = {
+  __typename?: 'CouponCode';
+  code: Scalars['String']['output'];
+  coupon: Coupon;
+  createdAt: Scalars['ISO8601DateTime']['output'];
+  customer?: Maybe<Customer>;
+  id: Scalars['ID']['output'];
+  redeemedAt?: Maybe<Scalars['ISO8601DateTime']['output']>;
+};
+
+export type CouponCodeCollection = {
+  __typename?: 'CouponCodeCollection';
+  /** A collection of paginated CouponCodeCollection */
+  collection: Array<CouponCode>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
 /** CouponCollection type */
 export type CouponCollection = {
   __typename?: 'CouponCollection';
@@ -1045,6 +1171,12 @@ export type CouponCollection = {
   metadata: CollectionMetadata;
 };
 
+export type CouponDiscount = {
+  __typename?: 'CouponDiscount';
+  amountCents: Scalars['BigInt']['output'];
+  currency: CurrencyEnum;
+};
+
 export enum CouponExpiration {
   NoExpiration = 'no_expiration',
   TimeLimit = 'time_limit'
@@ -1141,6 +1273,35 @@ export type CreateBillableMetricInput = {
   weightedInterval?: InputMaybe<WeightedIntervalEnum>;
 };
 
+/** Autogenerated input type of CreateChargeTemplate */
+export type CreateChargeTemplateInput = {
+  billableMetricId: Scalars['ID']['input'];
+  chargeModel: ChargeModelEnum;
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  filters?: InputMaybe<Array<ChargeFilterInput>>;
+  invoiceable?: InputMaybe<Scalars['Boolean']['input']>;
+  name: Scalars['String']['input'];
+  properties?: InputMaybe<PropertiesInput>;
+  prorated?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+/** Autogenerated input type of CreateCouponCodes */
+export type CreateCouponCodesInput = {
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  codes: Array<Scalars['String']['input']>;
+  couponId: Scalars['ID']['input'];
+};
+
+/** Autogenerated return type of CreateCouponCodes. */
+export type CreateCouponCodesPayload = {
+  __typename?: 'CreateCouponCodesPayload';
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: Maybe<Scalars['String']['output']>;
+  collection: Array<CouponCode>;
+};
+
 /** Autogenerated input type of CreateCoupon */
 export type CreateCouponInput = {
   amountCents?: InputMaybe<Scalars['BigInt']['input']>;
@@ -1219,6 +1380,15 @@ export type CreateCustomerPortalWalletTransactionInput = {
   walletId: Scalars['ID']['input'];
 };
 
+/** Autogenerated input type of CreateCustomerSegment */
+export type CreateCustomerSegmentInput = {
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  /** Filters of the customers list, by filter name */
+  filters: Scalars['JSON']['input'];
+  name: Scalars['String']['input'];
+};
+
 /** Create Wallet Input */
 export type CreateCustomerWalletInput = {
   /** A unique identifier for the client performing the mutation. */
@@ -1406,6 +1576,7 @@ export type CreatePlanInput = {
   /** A unique identifier for the client performing the mutation. */
   clientMutationId?: InputMaybe<Scalars['String']['input']>;
   code: Scalars['String']['input'];
+  currencyVariants?: InputMaybe<Array<PlanCurrencyVariantInput>>;
   description?: InputMaybe<Scalars['String']['input']>;
   interval: PlanInterval;
   invoiceDisplayName?: InputMaybe<Scalars['String']['input']>;
@@ -1455,6 +1626,15 @@ export type CreateSubscriptionInput = {
   subscriptionId?: InputMaybe<Scalars['ID']['input']>;
 };
 
+/** Autogenerated input type of CreateTaxAssignments */
+export type CreateTaxAssignmentsInput = {
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  objectIds: Array<Scalars['ID']['input']>;
+  objectType: TaxAssignmentObjectTypeEnum;
+  taxId: Scalars['ID']['input'];
+};
+
 export type CreateTransactionMetadataInput = {
   key: Scalars['String']['input'];
   value: Scalars['String']['input'];
@@ -1956,6 +2136,8 @@ export type Customer = {
   billingConfiguration?: Maybe<CustomerBillingConfiguration>;
   /** Check if customer attributes are editable */
   canEditAttributes: Scalars['Boolean']['output'];
+  /** Number of customers having this customer as parent */
+  childCustomersCount: Scalars['Int']['output'];
   city?: Maybe<Scalars['String']['output']>;
   country?: Maybe<CountryCode>;
   createdAt: Scalars['ISO8601DateTime']['output'];
@@ -1997,6 +2179,7 @@ export type Customer = {
   name?: Maybe<Scalars['String']['output']>;
   netPaymentTerm?: Maybe<Scalars['Int']['output']>;
   netsuiteCustomer?: Maybe<NetsuiteCustomer>;
+  parentCustomer?: Maybe<Customer>;
   paymentProvider?: Maybe<ProviderTypeEnum>;
   paymentProviderCode?: Maybe<Scalars['String']['output']>;
   phone?: Maybe<Scalars['String']['output']>;
@@ -2029,6 +2212,47 @@ export enum CustomerAccountTypeEnum {
   Partner = 'partner'
 }
 
+export type CustomerActivity = {
+  __typename?: 'CustomerActivity';
+  activityType: CustomerActivityTypeEnum;
+  amountCents?: Maybe<Scalars['BigInt']['output']>;
+  /** Previous and new values of the updated customer settings */
+  changedAttributes?: Maybe<Array<Scalars['String']['output']>>;
+  currency?: Maybe<CurrencyEnum>;
+  id: Scalars['ID']['output'];
+  /** Invoice of the credit note or of the dunning attempt */
+  invoiceId?: Maybe<Scalars['ID']['output']>;
+  /** Name or number of the object */
+  label?: Maybe<Scalars['String']['output']>;
+  occurredAt: Scalars['ISO8601DateTime']['output'];
+  /** Previous plan name of an upgraded or downgraded subscription */
+  previousLabel?: Maybe<Scalars['String']['output']>;
+  /** ID of the subscription, invoice, payment, credit note, wallet, coupon or payment request */
+  resourceId?: Maybe<Scalars['ID']['output']>;
+};
+
+export type CustomerActivityCollection = {
+  __typename?: 'CustomerActivityCollection';
+  collection: Array<CustomerActivity>;
+  metadata: CollectionMetadata;
+};
+
+export enum CustomerActivityTypeEnum {
+  CouponApplied = 'coupon_applied',
+  CreditNoteIssued = 'credit_note_issued',
+  DunningAttempted = 'dunning_attempted',
+  InvoiceIssued = 'invoice_issued',
+  PaymentFailed = 'payment_failed',
+  PaymentSucceeded = 'payment_succeeded',
+  SettingsUpdated = 'settings_updated',
+  SubscriptionDowngraded = 'subscription_downgraded',
+  SubscriptionStarted = 'subscription_started',
+  SubscriptionTerminated = 'subscription_terminated',
+  SubscriptionUpgraded = 'subscription_upgraded',
+  WalletToppedUp = 'wallet_topped_up',
+  WalletVoided = 'wallet_voided'
+}
+
 export type CustomerAddress = {
   __typename?: 'CustomerAddress';
   addressLine1?: Maybe<Scalars['String']['output']>;
@@ -2067,6 +2291,48 @@ export type CustomerCollection = {
   metadata: CollectionMetadata;
 };
 
+export type CustomerDuplicate = {
+  __typename?: 'CustomerDuplicate';
+  customer: Customer;
+  duplicate: Customer;
+  id: Scalars['ID']['output'];
+  matchedCriteria: Array<CustomerDuplicateCriteriaEnum>;
+  /** Similarity of the customer names, from 0 to 1 */
+  nameSimilarity: Scalars['Float']['output'];
+};
+
+export type CustomerDuplicateCollection = {
+  __typename?: 'CustomerDuplicateCollection';
+  collection: Array<CustomerDuplicate>;
+  metadata: CollectionMetadata;
+};
+
+export enum CustomerDuplicateCriteriaEnum {
+  BillingAddress = 'billing_address',
+  Email = 'email',
+  Name = 'name',
+  TaxIdentificationNumber = 'tax_identification_number'
+}
+
+/** Consolidated figures of a child customer */
+export type CustomerGroupMember = {
+  __typename?: 'CustomerGroupMember';
+  currency: CurrencyEnum;
+  currentUsageAmountCents: Scalars['BigInt']['output'];
+  customer: Customer;
+  id: Scalars['ID']['output'];
+  outstandingAmountCents: Scalars['BigInt']['output'];
+  overdueAmountCents: Scalars['BigInt']['output'];
+  overdueInvoicesCount: Scalars['Int']['output'];
+  walletsBalanceCents: Scalars['BigInt']['output'];
+};
+
+export type CustomerGroupMemberCollection = {
+  __typename?: 'CustomerGroupMemberCollection';
+  collection: Array<CustomerGroupMember>;
+  metadata: CollectionMetadata;
+};
+
 export type CustomerMetadata = {
   __typename?: 'CustomerMetadata';
   createdAt: Scalars['ISO8601DateTime']['output'];
@@ -2077,6 +2343,11 @@ export type CustomerMetadata = {
   value: Scalars['String']['output'];
 };
 
+export type CustomerMetadataFilterInput = {
+  key: Scalars['String']['input'];
+  value?: InputMaybe<Scalars['String']['input']>;
+};
+
 export type CustomerMetadataInput = {
   displayInInvoice: Scalars['Boolean']['input'];
   id?: InputMaybe<Scalars['ID']['input']>;
@@ -2173,6 +2444,21 @@ export type CustomerPortalWalletTransactionCollection = {
   metadata: CollectionMetadata;
 };
 
+export type CustomerSegment = {
+  __typename?: 'CustomerSegment';
+  createdAt: Scalars['ISO8601DateTime']['output'];
+  /** Filters of the customers list, by filter name */
+  filters: Scalars['JSON']['output'];
+  id: Scalars['ID']['output'];
+  name: Scalars['String']['output'];
+};
+
+export type CustomerSegmentCollection = {
+  __typename?: 'CustomerSegmentCollection';
+  collection: Array<CustomerSegment>;
+  metadata: CollectionMetadata;
+};
+
 export enum CustomerTypeEnum {
   Company = 'company',
   Individual = 'individual'
@@ -2332,6 +2618,8 @@ export type DataExportInvoiceFiltersInput = {
   amountTo?: InputMaybe<Scalars['Int']['input']>;
   currency?: InputMaybe<CurrencyEnum>;
   customerExternalId?: InputMaybe<Scalars['String']['input']>;
+  /** Includes the invoices of the child customers of the customer */
+  includeChildCustomers?: InputMaybe<Scalars['Boolean']['input']>;
   invoiceType?: InputMaybe<Array<InvoiceTypeEnum>>;
   issuingDateFrom?: InputMaybe<Scalars['ISO8601Date']['input']>;
   issuingDateTo?: InputMaybe<Scalars['ISO8601Date']['input']>;
@@ -2432,6 +2720,21 @@ export type DestroyCustomerPayload = {
   id?: Maybe<Scalars['ID']['output']>;
 };
 
+/** Autogenerated input type of DestroyCustomerSegment */
+export type DestroyCustomerSegmentInput = {
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  id: Scalars['ID']['input'];
+};
+
+/** Autogenerated return type of DestroyCustomerSegment. */
+export type DestroyCustomerSegmentPayload = {
+  __typename?: 'DestroyCustomerSegmentPayload';
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: Maybe<Scalars['String']['output']>;
+  id?: Maybe<Scalars['ID']['output']>;
+};
+
 /** Autogenerated input type of DestroyDunningCampaign */
 export type DestroyDunningCampaignInput = {
   /** A unique identifier for the client performing the mutation. */
@@ -2537,6 +2840,15 @@ export type DestroyPlanPayload = {
   id?: Maybe<Scalars['ID']['output']>;
 };
 
+/** Autogenerated input type of DestroyTaxAssignments */
+export type DestroyTaxAssignmentsInput = {
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  objectIds: Array<Scalars['ID']['input']>;
+  objectType: TaxAssignmentObjectTypeEnum;
+  taxId: Scalars['ID']['input'];
+};
+
 /** Autogenerated input type of DestroyTax */
 export type DestroyTaxInput = {
   /** A unique identifier for the client performing the mutation. */
@@ -2552,6 +2864,21 @@ export type DestroyTaxPayload = {
   id?: Maybe<Scalars['ID']['output']>;
 };
 
+/** Autogenerated input type of DestroyTaxRateChange */
+export type DestroyTaxRateChangeInput = {
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: InputMaybe<Scalars['String']['input']>;
+  id: Scalars['ID']['input'];
+};
+
+/** Autogenerated return type of DestroyTaxRateChange. */
+export type DestroyTaxRateChangePayload = {
+  __typename?: 'DestroyTaxRateChangePayload';
+  /** A unique identifier for the client performing the mutation. */
+  clientMutationId?: Maybe<Scalars['String']['output']>;
+  id?: Maybe<Scalars['ID']['output']>;
+};
+
 /** Autogenerated input type of DestroyWebhookEndpoint */
 export type DestroyWebhookEndpointInput = {
   /** A unique identifier for the client performing the mutation. */
@@ -3512,8 +3839,12 @@ export type Mutation = {
   createAppliedCoupon?: Maybe<AppliedCoupon>;
   /** Creates a new Billable metric */
   createBillableMetric?: Maybe<BillableMetric>;
+  /** Creates a new charge template */
+  createChargeTemplate?: Maybe<ChargeTemplate>;
   /** Creates a new Coupon */
   createCoupon?: Maybe<Coupon>;
+  /** Creates single-use codes for a coupon */
+  createCouponCodes?: Maybe<CreateCouponCodesPayload>;
   /** Creates a new Credit Note */
   createCreditNote?: Maybe<CreditNote>;
   /** Request data export of credit notes */
@@ -3522,6 +3853,8 @@ export type Mutation = {
   createCustomer?: Maybe<Customer>;
   /** Creates a new Customer Wallet Transaction from Customer Portal */
   createCustomerPortalWalletTransaction?: Maybe<CustomerPortalWalletTransactionCollection>;
+  /** Creates a new customer segment */
+  createCustomerSegment?: Maybe<CustomerSegment>;
   /** Creates a new Customer Wallet */
   createCustomerWallet?: Maybe<Wallet>;
   /** Creates a new Customer Wallet Transaction */
@@ -3560,6 +3893,8 @@ export type Mutation = {
   createSubscription?: Maybe<Subscription>;
   /** Creates a tax */
   createTax?: Maybe<Tax>;
+  /** Applies a tax to several customers, plans, charges or add-ons */
+  createTaxAssignments?: Maybe<Tax>;
   /** Create a new webhook endpoint */
   createWebhookEndpoint?: Maybe<WebhookEndpoint>;
   /** Create Xero integration */
@@ -3576,6 +3911,8 @@ export type Mutation = {
   destroyCoupon?: Maybe<DestroyCouponPayload>;
   /** Delete a Customer */
   destroyCustomer?: Maybe<DestroyCustomerPayload>;
+  /** Deletes a customer segment */
+  destroyCustomerSegment?: Maybe<DestroyCustomerSegmentPayload>;
   /** Deletes a dunning campaign */
   destroyDunningCampaign?: Maybe<DestroyDunningCampaignPayload>;
   /** Destroy an integration */
@@ -3592,6 +3929,10 @@ export type Mutation = {
   destroyPlan?: Maybe<DestroyPlanPayload>;
   /** Deletes a tax */
   destroyTax?: Maybe<DestroyTaxPayload>;
+  /** Removes a tax from several customers, plans, charges or add-ons */
+  destroyTaxAssignments?: Maybe<Tax>;
+  /** Cancels a scheduled tax rate change */
+  destroyTaxRateChange?: Maybe<DestroyTaxRateChangePayload>;
   /** Deletes a webhook endpoint */
   destroyWebhookEndpoint?: Maybe<DestroyWebhookEndpointPayload>;
   /** Download a Credit Note PDF */
@@ -3800,11 +4141,21 @@ export type MutationCreateBillableMetricArgs = {
 };
 
 
+export type MutationCreateChargeTemplateArgs = {
+  input: CreateChargeTemplateInput;
+};
+
+
 export type MutationCreateCouponArgs = {
   input: CreateCouponInput;
 };
 
 
+export type MutationCreateCouponCodesArgs = {
+  input: CreateCouponCodesInput;
+};
+
+
 export type MutationCreateCreditNoteArgs = {
   input: CreateCreditNoteInput;
 };
@@ -3825,6 +4176,11 @@ export type MutationCreateCustomerPortalWalletTransactionArgs = {
 };
 
 
+export type MutationCreateCustomerSegmentArgs = {
+  input: CreateCustomerSegmentInput;
+};
+
+
 export type MutationCreateCustomerWalletArgs = {
   input: CreateCustomerWalletInput;
 };
@@ -3920,6 +4276,11 @@ export type MutationCreateTaxArgs = {
 };
 
 
+export type MutationCreateTaxAssignmentsArgs = {
+  input: CreateTaxAssignmentsInput;
+};
+
+
 export type MutationCreateWebhookEndpointArgs = {
   input: WebhookEndpointCreateInput;
 };
@@ -3960,6 +4321,11 @@ export type MutationDestroyCustomerArgs = {
 };
 
 
+export type MutationDestroyCustomerSegmentArgs = {
+  input: DestroyCustomerSegmentInput;
+};
+
+
 export type MutationDestroyDunningCampaignArgs = {
   input: DestroyDunningCampaignInput;
 };
@@ -4000,6 +4366,16 @@ export type MutationDestroyTaxArgs = {
 };
 
 
+export type MutationDestroyTaxAssignmentsArgs = {
+  input: DestroyTaxAssignmentsInput;
+};
+
+
+export type MutationDestroyTaxRateChangeArgs = {
+  input: DestroyTaxRateChangeInput;
+};
+
+
 export type MutationDestroyWebhookEndpointArgs = {
   input: DestroyWebhookEndpointInput;
 };
@@ -4664,12 +5040,20 @@ export type Plan = {
   activeSubscriptionsCount: Scalars['Int']['output'];
   amountCents: Scalars['BigInt']['output'];
   amountCurrency: CurrencyEnum;
+  /** Plan this plan is a currency variant of */
+  basePlan?: Maybe<Plan>;
   billChargesMonthly?: Maybe<Scalars['Boolean']['output']>;
   charges?: Maybe<Array<Charge>>;
   /** Number of charges attached to a plan */
   chargesCount: Scalars['Int']['output'];
   code: Scalars['String']['output'];
   createdAt: Scalars['ISO8601DateTime']['output'];
+  /** Exchange rate from the base plan currency, when the variant prices are derived from the base plan */
+  currencyVariantExchangeRate?: Maybe<Scalars['Float']['output']>;
+  /** Rounding applied to the prices derived from the base plan */
+  currencyVariantRoundingRule?: Maybe<PriceRoundingRuleEnum>;
+  /** Copies of the plan priced in other currencies */
+  currencyVariants?: Maybe<Array<Plan>>;
   /** Number of customers attached to a plan */
   customersCount: Scalars['Int']['output'];
   description?: Maybe<Scalars['String']['output']>;
@@ -4699,6 +5083,16 @@ export type PlanCollection = {
   metadata: CollectionMetadata;
 };
 
+export type PlanCurrencyVariantInput = {
+  amountCents: Scalars['BigInt']['input'];
+  amountCurrency: CurrencyEnum;
+  /** Prices of the plan charges, in the same order as the plan charges */
+  charges: Array<ChargeCurrencyVariantInput>;
+  exchangeRate?: InputMaybe<Scalars['Float']['input']>;
+  id?: InputMaybe<Scalars['ID']['input']>;
+  roundingRule?: InputMaybe<PriceRoundingRuleEnum>;
+};
+
 export enum PlanInterval {
   Monthly = 'monthly',
   Quarterly = 'quarterly',
@@ -4719,6 +5113,30 @@ export type PlanOverridesInput = {
   usageThresholds?: InputMaybe<Array<UsageThresholdOverridesInput>>;
 };
 
+/** Revision of a plan, recorded each time the plan is saved */
+export type PlanVersion = {
+  __typename?: 'PlanVersion';
+  author?: Maybe<User>;
+  /** Whether the changes were cascaded to the overridden subscriptions */
+  cascadeUpdates: Scalars['Boolean']['output'];
+  createdAt: Scalars['ISO8601DateTime']['output'];
+  id: Scalars['ID']['output'];
+  /** Overridden subscriptions updated by the cascade of this revision */
+  impactedSubscriptions: Array<Subscription>;
+  /** Plan attributes as saved in this revision */
+  snapshot: Scalars['JSON']['output'];
+  version: Scalars['Int']['output'];
+};
+
+/** PlanVersionCollection type */
+export type PlanVersionCollection = {
+  __typename?: 'PlanVersionCollection';
+  /** A collection of paginated PlanVersionCollection */
+  collection: Array<PlanVersion>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
 export enum PremiumIntegrationTypeEnum {
   ApiPermissions = 'api_permissions',
   AutoDunning = 'auto_dunning',
@@ -4741,6 +5159,12 @@ export enum PremiumIntegrationTypeEnum {
   ZeroAmountFees = 'zero_amount_fees'
 }
 
+export enum PriceRoundingRuleEnum {
+  CurrencyPrecision = 'currency_precision',
+  None = 'none',
+  WholeUnit = 'whole_unit'
+}
+
 export type Properties = {
   __typename?: 'Properties';
   amount?: Maybe<Scalars['String']['output']>;
@@ -4813,18 +5237,30 @@ export type Query = {
   __typename?: 'Query';
   /** Query a single add-on of an organization */
   addOn?: Maybe<AddOn>;
+  /** Query amount changes of an add-on */
+  addOnAmountChanges: AddOnAmountChangeCollection;
+  /** Query monthly revenue of an add-on from one-off invoices */
+  addOnRevenues: AddOnRevenueCollection;
   /** Query add-ons of an organization */
   addOns: AddOnCollection;
   /** Query the API key */
   apiKey: ApiKey;
   /** Query the API keys of current organization */
   apiKeys: SanitizedApiKeyCollection;
+  /** Query active applied coupons of a coupon */
+  appliedCoupons: AppliedCouponCollection;
   /** Query a single billable metric of an organization */
   billableMetric?: Maybe<BillableMetric>;
   /** Query billable metrics of an organization */
   billableMetrics: BillableMetricCollection;
+  /** Query charge templates of an organization */
+  chargeTemplates: ChargeTemplateCollection;
   /** Query a single coupon of an organization */
   coupon?: Maybe<Coupon>;
+  /** Query monthly usage of a coupon */
+  couponAnalytics: CouponAnalyticCollection;
+  /** Query single-use codes of a coupon */
+  couponCodes: CouponCodeCollection;
   /** Query coupons of an organization */
   coupons: CouponCollection;
   /** Query a single credit note */
@@ -4839,6 +5275,12 @@ export type Query = {
   currentVersion: CurrentVersion;
   /** Query a single customer of an organization */
   customer?: Maybe<Customer>;
+  /** Query the activity timeline of a customer */
+  customerActivities: CustomerActivityCollection;
+  /** Query the customers that are possible duplicates of each other */
+  customerDuplicates: CustomerDuplicateCollection;
+  /** Query the child customers of a customer, with their consolidated figures */
+  customerGroupMembers: CustomerGroupMemberCollection;
   /** Query invoices of a customer */
   customerInvoices: InvoiceCollection;
   /** Query the usage of the customer on the current billing period */
@@ -4859,6 +5301,8 @@ export type Query = {
   customerPortalUser?: Maybe<CustomerPortalCustomer>;
   /** Query wallets */
   customerPortalWallets: CustomerPortalWalletCollection;
+  /** Query the customer segments of the organization */
+  customerSegments: CustomerSegmentCollection;
   /** Query the usage of the customer on the current billing period */
   customerUsage: CustomerUsage;
   /** Query customers of an organization */
@@ -4941,6 +5385,8 @@ export type Query = {
   payments: PaymentCollection;
   /** Query a single plan of an organization */
   plan?: Maybe<Plan>;
+  /** Query the revisions of a plan */
+  planVersions: PlanVersionCollection;
   /** Query plans of an organization */
   plans: PlanCollection;
   /** Query a single subscription of an organization */
@@ -4949,6 +5395,10 @@ export type Query = {
   subscriptions: SubscriptionCollection;
   /** Query a single tax of an organization */
   tax?: Maybe<Tax>;
+  /** Query the customers, plans, charges or add-ons a tax is applied to */
+  taxAssignments: TaxAssignmentCollection;
+  /** Query what a scheduled tax rate change will affect */
+  taxRateChangeImpact: TaxRateChangeImpact;
   /** Query taxes of an organization */
   taxes: TaxCollection;
   /** Query a single wallet of an organization */
@@ -4971,8 +5421,22 @@ export type QueryAddOnArgs = {
 };
 
 
+export type QueryAddOnAmountChangesArgs = {
+  addOnId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryAddOnRevenuesArgs = {
+  addOnId: Scalars['ID']['input'];
+  months?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
 export type QueryAddOnsArgs = {
   limit?: InputMaybe<Scalars['Int']['input']>;
+  order?: InputMaybe<Scalars['String']['input']>;
   page?: InputMaybe<Scalars['Int']['input']>;
   searchTerm?: InputMaybe<Scalars['String']['input']>;
 };
@@ -4989,6 +5453,13 @@ export type QueryApiKeysArgs = {
 };
 
 
+export type QueryAppliedCouponsArgs = {
+  couponId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
 export type QueryBillableMetricArgs = {
   id: Scalars['ID']['input'];
 };
@@ -5003,11 +5474,33 @@ export type QueryBillableMetricsArgs = {
 };
 
 
+export type QueryChargeTemplatesArgs = {
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+};
+
+
 export type QueryCouponArgs = {
   id: Scalars['ID']['input'];
 };
 
 
+export type QueryCouponAnalyticsArgs = {
+  couponId: Scalars['ID']['input'];
+  months?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryCouponCodesArgs = {
+  couponId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  redeemed?: InputMaybe<Scalars['Boolean']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+};
+
+
 export type QueryCouponsArgs = {
   limit?: InputMaybe<Scalars['Int']['input']>;
   page?: InputMaybe<Scalars['Int']['input']>;
@@ -5051,6 +5544,28 @@ export type QueryCustomerArgs = {
 };
 
 
+export type QueryCustomerActivitiesArgs = {
+  activityTypes?: InputMaybe<Array<CustomerActivityTypeEnum>>;
+  customerId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryCustomerDuplicatesArgs = {
+  criteria?: InputMaybe<Array<CustomerDuplicateCriteriaEnum>>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryCustomerGroupMembersArgs = {
+  customerId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
 export type QueryCustomerInvoicesArgs = {
   customerId: Scalars['ID']['input'];
   limit?: InputMaybe<Scalars['Int']['input']>;
@@ -5104,6 +5619,12 @@ export type QueryCustomerPortalWalletsArgs = {
 };
 
 
+export type QueryCustomerSegmentsArgs = {
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
 export type QueryCustomerUsageArgs = {
   customerId?: InputMaybe<Scalars['ID']['input']>;
   subscriptionId: Scalars['ID']['input'];
@@ -5112,9 +5633,21 @@ export type QueryCustomerUsageArgs = {
 
 export type QueryCustomersArgs = {
   accountType?: InputMaybe<Array<CustomerAccountTypeEnum>>;
+  country?: InputMaybe<CountryCode>;
+  createdAtFrom?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
+  createdAtTo?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
+  currency?: InputMaybe<CurrencyEnum>;
+  externalIds?: InputMaybe<Array<Scalars['String']['input']>>;
+  hasOverdueInvoices?: InputMaybe<Scalars['Boolean']['input']>;
+  hasTaxIdentificationNumber?: InputMaybe<Scalars['Boolean']['input']>;
   limit?: InputMaybe<Scalars['Int']['input']>;
+  metadata?: InputMaybe<Array<CustomerMetadataFilterInput>>;
   page?: InputMaybe<Scalars['Int']['input']>;
+  paymentProvider?: InputMaybe<ProviderTypeEnum>;
+  planCode?: InputMaybe<Scalars['String']['input']>;
   searchTerm?: InputMaybe<Scalars['String']['input']>;
+  subscriptionStatus?: InputMaybe<Array<StatusTypeEnum>>;
+  walletBalanceBelow?: InputMaybe<Scalars['Float']['input']>;
 };
 
 
@@ -5197,6 +5730,7 @@ export type QueryDunningCampaignsArgs = {
 
 
 export type QueryEventsArgs = {
+  code?: InputMaybe<Scalars['String']['input']>;
   limit?: InputMaybe<Scalars['Int']['input']>;
   page?: InputMaybe<Scalars['Int']['input']>;
 };
@@ -5312,6 +5846,7 @@ export type QueryInvoicesArgs = {
   currency?: InputMaybe<CurrencyEnum>;
   customerExternalId?: InputMaybe<Scalars['String']['input']>;
   customerId?: InputMaybe<Scalars['ID']['input']>;
+  includeChildCustomers?: InputMaybe<Scalars['Boolean']['input']>;
   invoiceType?: InputMaybe<Array<InvoiceTypeEnum>>;
   issuingDateFrom?: InputMaybe<Scalars['ISO8601Date']['input']>;
   issuingDateTo?: InputMaybe<Scalars['ISO8601Date']['input']>;
@@ -5390,10 +5925,18 @@ export type QueryPlanArgs = {
 };
 
 
-export type QueryPlansArgs = {
+export type QueryPlanVersionsArgs = {
   limit?: InputMaybe<Scalars['Int']['input']>;
   page?: InputMaybe<Scalars['Int']['input']>;
-  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  planId: Scalars['ID']['input'];
+};
+
+
+export type QueryPlansArgs = {
+  isCurrencyVariant?: InputMaybe<Scalars['Boolean']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
 };
 
 
@@ -5415,12 +5958,29 @@ export type QueryTaxArgs = {
 };
 
 
+export type QueryTaxAssignmentsArgs = {
+  assigned?: InputMaybe<Scalars['Boolean']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  objectType: TaxAssignmentObjectTypeEnum;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  taxId: Scalars['ID']['input'];
+};
+
+
+export type QueryTaxRateChangeImpactArgs = {
+  effectiveAt: Scalars['ISO8601DateTime']['input'];
+  taxId: Scalars['ID']['input'];
+};
+
+
 export type QueryTaxesArgs = {
   appliedToOrganization?: InputMaybe<Scalars['Boolean']['input']>;
   autoGenerated?: InputMaybe<Scalars['Boolean']['input']>;
   limit?: InputMaybe<Scalars['Int']['input']>;
   order?: InputMaybe<Scalars['String']['input']>;
   page?: InputMaybe<Scalars['Int']['input']>;
+  rate?: InputMaybe<Scalars['Float']['input']>;
   searchTerm?: InputMaybe<Scalars['String']['input']>;
 };
 
@@ -5841,9 +6401,38 @@ export type Tax = {
   /** Number of plans using this tax */
   plansCount: Scalars['Int']['output'];
   rate: Scalars['Float']['output'];
+  /** Rate changes of the tax, already applied or scheduled */
+  rateChanges: Array<TaxRateChange>;
   updatedAt: Scalars['ISO8601DateTime']['output'];
 };
 
+export type TaxAssignment = {
+  __typename?: 'TaxAssignment';
+  /** Code of the assigned object, if any */
+  code?: Maybe<Scalars['String']['output']>;
+  name: Scalars['String']['output'];
+  objectId: Scalars['ID']['output'];
+  objectType: TaxAssignmentObjectTypeEnum;
+  /** Name of the plan the charge belongs to */
+  planName?: Maybe<Scalars['String']['output']>;
+};
+
+/** TaxAssignmentCollection type */
+export type TaxAssignmentCollection = {
+  __typename?: 'TaxAssignmentCollection';
+  /** A collection of paginated TaxAssignmentCollection */
+  collection: Array<TaxAssignment>;
+  /** Pagination Metadata for navigating the Pagination */
+  metadata: CollectionMetadata;
+};
+
+export enum TaxAssignmentObjectTypeEnum {
+  AddOn = 'add_on',
+  Charge = 'charge',
+  Customer = 'customer',
+  Plan = 'plan'
+}
+
 /** TaxCollection type */
 export type TaxCollection = {
   __typename?: 'TaxCollection';
@@ -5863,6 +6452,29 @@ export type TaxCreateInput = {
   rate: Scalars['Float']['input'];
 };
 
+export type TaxRateChange = {
+  __typename?: 'TaxRateChange';
+  createdAt: Scalars['ISO8601DateTime']['output'];
+  effectiveAt: Scalars['ISO8601DateTime']['output'];
+  id: Scalars['ID']['output'];
+  previousRate: Scalars['Float']['output'];
+  rate: Scalars['Float']['output'];
+};
+
+export type TaxRateChangeImpact = {
+  __typename?: 'TaxRateChangeImpact';
+  /** Draft invoices that will be finalized after the effective date */
+  draftInvoices: Array<Invoice>;
+  /** Billing runs of subscriptions using the tax after the effective date */
+  upcomingBillings: Array<TaxRateChangeUpcomingBilling>;
+};
+
+export type TaxRateChangeUpcomingBilling = {
+  __typename?: 'TaxRateChangeUpcomingBilling';
+  billingAt: Scalars['ISO8601DateTime']['output'];
+  subscriptionsCount: Scalars['Int']['output'];
+};
+
 /** Autogenerated input type of UpdateTax */
 export type TaxUpdateInput = {
   appliedToOrganization?: InputMaybe<Scalars['Boolean']['input']>;
@@ -5873,6 +6485,8 @@ export type TaxUpdateInput = {
   id: Scalars['ID']['input'];
   name?: InputMaybe<Scalars['String']['input']>;
   rate?: InputMaybe<Scalars['Float']['input']>;
+  /** Date from which the new rate applies, immediately when empty */
+  rateEffectiveAt?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
 };
 
 /** Autogenerated input type of TerminateAppliedCoupon */
@@ -6321,6 +6935,8 @@ export type UpdateCustomerInput = {
   metadata?: InputMaybe<Array<CustomerMetadataInput>>;
   name?: InputMaybe<Scalars['String']['input']>;
   netPaymentTerm?: InputMaybe<Scalars['Int']['input']>;
+  /** Links the customer to a parent customer, null removes the link */
+  parentCustomerId?: InputMaybe<Scalars['ID']['input']>;
   paymentProvider?: InputMaybe<ProviderTypeEnum>;
   paymentProviderCode?: InputMaybe<Scalars['String']['input']>;
   phone?: InputMaybe<Scalars['String']['input']>;
@@ -6557,6 +7173,7 @@ export type UpdatePlanInput = {
   /** A unique identifier for the client performing the mutation. */
   clientMutationId?: InputMaybe<Scalars['String']['input']>;
   code: Scalars['String']['input'];
+  currencyVariants?: InputMaybe<Array<PlanCurrencyVariantInput>>;
   description?: InputMaybe<Scalars['String']['input']>;
   id: Scalars['String']['input'];
   interval: PlanInterval;
@@ -6891,6 +7508,23 @@ export type UserIdentifierQueryVariables = Exact<{ [key: string]: never; }>;
 
 export type UserIdentifierQuery = { __typename?: 'Query', me: { __typename?: 'User', id: string, email?: string | null, premium: boolean, memberships: Array<{ __typename?: 'Membership', id: string, organization: { __typename?: 'Organization', id: string, name: string, logoUrl?: string | null }, permissions: { __typename?: 'Permissions', addonsCreate: boolean, addonsDelete: boolean, addonsUpdate: boolean, addonsView: boolean, analyticsView: boolean, analyticsOverdueBalancesView: boolean, billableMetricsCreate: boolean, billableMetricsDelete: boolean, billableMetricsUpdate: boolean, billableMetricsView: boolean, couponsAttach: boolean, couponsCreate: boolean, couponsDelete: boolean, couponsDetach: boolean, couponsUpdate: boolean, couponsView: boolean, creditNotesCreate: boolean, creditNotesView: boolean, creditNotesVoid: boolean, customerSettingsUpdateGracePeriod: boolean, customerSettingsUpdateLang: boolean, customerSettingsUpdatePaymentTerms: boolean, customerSettingsUpdateTaxRates: boolean, customerSettingsView: boolean, customersCreate: boolean, customersDelete: boolean, customersUpdate: boolean, customersView: boolean, developersKeysManage: boolean, developersManage: boolean, draftInvoicesUpdate: boolean, dunningCampaignsCreate: boolean, dunningCampaignsUpdate: boolean, dunningCampaignsView: boolean, invoiceCustomSectionsCreate: boolean, invoiceCustomSectionsUpdate: boolean, invoicesCreate: boolean, invoicesSend: boolean, invoicesUpdate: boolean, invoicesView: boolean, invoicesVoid: boolean, organizationEmailsUpdate: boolean, organizationEmailsView: boolean, organizationIntegrationsCreate: boolean, organizationIntegrationsDelete: boolean, organizationIntegrationsUpdate: boolean, organizationIntegrationsView: boolean, organizationInvoicesUpdate: boolean, organizationInvoicesView: boolean, organizationMembersCreate: boolean, organizationMembersDelete: boolean, organizationMembersUpdate: boolean, organizationMembersView: boolean, organizationTaxesUpdate: boolean, organizationTaxesView: boolean, organizationUpdate: boolean, organizationView: boolean, paymentsCreate: boolean, paymentsView: boolean, plansCreate: boolean, plansDelete: boolean, plansUpdate: boolean, plansView: boolean, subscriptionsCreate: boolean, subscriptionsUpdate: boolean, subscriptionsView: boolean, walletsCreate: boolean, walletsTerminate: boolean, walletsTopUp: boolean, walletsUpdate: boolean } }> }, organization?: { __typename?: 'CurrentOrganization', id: string, name: string, logoUrl?: string | null, timezone?: TimezoneEnum | null, defaultCurrency: CurrencyEnum, premiumIntegrations: Array<PremiumIntegrationTypeEnum> } | null };
 
+export type GetAddOnAmountChangesQueryVariables = Exact<{
+  addOnId: Scalars['ID']['input'];
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetAddOnAmountChangesQuery = { __typename?: 'Query', addOnAmountChanges: { __typename?: 'AddOnAmountChangeCollection', collection: Array<{ __typename?: 'AddOnAmountChange', id: string, amountCents: any, amountCurrency: CurrencyEnum, previousAmountCents?: any | null, previousAmountCurrency?: CurrencyEnum | null, createdAt: any, user?: { __typename?: 'User', id: string, email?: string | null } | null }>, metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number } } };
+
+export type GetAddOnRevenuesQueryVariables = Exact<{
+  addOnId: Scalars['ID']['input'];
+  months?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetAddOnRevenuesQuery = { __typename?: 'Query', addOnRevenues: { __typename?: 'AddOnRevenueCollection', collection: Array<{ __typename?: 'AddOnRevenue', amountCents: any, currency: CurrencyEnum, month: any }> } };
+
 export type DeleteAddOnFragment = { __typename?: 'AddOn', id: string, name: string };
 
 export type DeleteAddOnMutationVariables = Exact<{
@@ -6922,6 +7556,16 @@ export type GetGoogleAuthUrlQueryVariables = Exact<{ [key: string]: never; }>;
 
 export type GetGoogleAuthUrlQuery = { __typename?: 'Query', googleAuthUrl: { __typename?: 'AuthUrl', url: string } };
 
+export type ChargesForBillableMetricImpactFragment = { __typename?: 'Plan', id: string, charges?: Array<{ __typename?: 'Charge', id: string, billableMetric: { __typename?: 'BillableMetric', id: string }, filters?: Array<{ __typename?: 'ChargeFilter', values: any }> | null }> | null };
+
+export type GetBillableMetricImpactQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+  integrationsLimit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetBillableMetricImpactQuery = { __typename?: 'Query', billableMetric?: { __typename?: 'BillableMetric', id: string, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string> }> | null, plans: Array<{ __typename?: 'Plan', id: string, name: string, code: string, charges?: Array<{ __typename?: 'Charge', id: string, billableMetric: { __typename?: 'BillableMetric', id: string }, filters?: Array<{ __typename?: 'ChargeFilter', values: any }> | null }> | null }>, overriddenSubscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, externalId: string, customer: { __typename?: 'Customer', id: string, displayName: string }, plan: { __typename?: 'Plan', id: string, charges?: Array<{ __typename?: 'Charge', id: string, billableMetric: { __typename?: 'BillableMetric', id: string }, filters?: Array<{ __typename?: 'ChargeFilter', values: any }> | null }> | null } }>, coupons: Array<{ __typename?: 'Coupon', id: string, name: string, code?: string | null }>, integrationMappings?: Array<{ __typename?: 'Mapping', id: string, integrationId: string, externalId: string, externalName?: string | null }> | null } | null, integrations?: { __typename?: 'IntegrationCollection', collection: Array<{ __typename: 'AnrokIntegration', id: string, name: string } | { __typename?: 'HubspotIntegration' } | { __typename: 'NetsuiteIntegration', id: string, name: string } | { __typename?: 'OktaIntegration' } | { __typename?: 'SalesforceIntegration' } | { __typename: 'XeroIntegration', id: string, name: string }> } | null };
+
 export type DeleteBillableMetricDialogFragment = { __typename?: 'BillableMetric', id: string, name: string, draftInvoicesCount: number, activeSubscriptionsCount: number };
 
 export type GetBillableMetricToDeleteQueryVariables = Exact<{
@@ -6960,10 +7604,44 @@ export type GetPlansForCouponsQueryVariables = Exact<{
 
 export type GetPlansForCouponsQuery = { __typename?: 'Query', plans: { __typename?: 'PlanCollection', collection: Array<{ __typename?: 'Plan', id: string, name: string, code: string }> } };
 
+export type GetCouponAnalyticsQueryVariables = Exact<{
+  couponId: Scalars['ID']['input'];
+  months?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCouponAnalyticsQuery = { __typename?: 'Query', couponAnalytics: { __typename?: 'CouponAnalyticCollection', collection: Array<{ __typename?: 'CouponAnalytic', month: any, activeAppliedCouponsCount: number, discounts: Array<{ __typename?: 'CouponDiscount', amountCents: any, currency: CurrencyEnum }> }> } };
+
+export type GetAppliedCouponsOfCouponQueryVariables = Exact<{
+  couponId: Scalars['ID']['input'];
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetAppliedCouponsOfCouponQuery = { __typename?: 'Query', appliedCoupons: { __typename?: 'AppliedCouponCollection', collection: Array<{ __typename?: 'AppliedCoupon', id: string, amountCentsRemaining?: any | null, amountCurrency?: CurrencyEnum | null, frequency: CouponFrequency, frequencyDurationRemaining?: number | null, createdAt: any, customer: { __typename?: 'Customer', id: string, displayName: string, externalId: string } }>, metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number } } };
+
 export type CouponCaptionFragment = { __typename?: 'Coupon', id: string, amountCurrency?: CurrencyEnum | null, amountCents?: any | null, couponType: CouponTypeEnum, percentageRate?: number | null, frequency: CouponFrequency, frequencyDuration?: number | null };
 
 export type AppliedCouponCaptionFragment = { __typename?: 'AppliedCoupon', id: string, amountCurrency?: CurrencyEnum | null, amountCents?: any | null, amountCentsRemaining?: any | null, percentageRate?: number | null, frequency: CouponFrequency, frequencyDuration?: number | null, frequencyDurationRemaining?: number | null };
 
+export type GetCouponCodesQueryVariables = Exact<{
+  couponId: Scalars['ID']['input'];
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCouponCodesQuery = { __typename?: 'Query', couponCodes: { __typename?: 'CouponCodeCollection', collection: Array<{ __typename?: 'CouponCode', id: string, code: string, createdAt: any, redeemedAt?: any | null, customer?: { __typename?: 'Customer', id: string, externalId: string, displayName: string } | null }>, metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number } } };
+
+export type GetCouponCodesForExportQueryVariables = Exact<{
+  couponId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCouponCodesForExportQuery = { __typename?: 'Query', couponCodes: { __typename?: 'CouponCodeCollection', collection: Array<{ __typename?: 'CouponCode', id: string, code: string, createdAt: any, redeemedAt?: any | null, customer?: { __typename?: 'Customer', id: string, externalId: string, displayName: string } | null }> } };
+
 export type DeleteCouponFragment = { __typename?: 'Coupon', id: string, name: string, appliedCouponsCount: number };
 
 export type GetCouponToDeleteQueryVariables = Exact<{
@@ -6980,6 +7658,15 @@ export type DeleteCouponMutationVariables = Exact<{
 
 export type DeleteCouponMutation = { __typename?: 'Mutation', destroyCoupon?: { __typename?: 'DestroyCouponPayload', id?: string | null } | null };
 
+export type CouponCodeItemFragment = { __typename?: 'CouponCode', id: string, code: string, createdAt: any, redeemedAt?: any | null, customer?: { __typename?: 'Customer', id: string, externalId: string, displayName: string } | null };
+
+export type CreateCouponCodesMutationVariables = Exact<{
+  input: CreateCouponCodesInput;
+}>;
+
+
+export type CreateCouponCodesMutation = { __typename?: 'Mutation', createCouponCodes?: { __typename?: 'CreateCouponCodesPayload', collection: Array<{ __typename?: 'CouponCode', id: string, code: string, createdAt: any, redeemedAt?: any | null, customer?: { __typename?: 'Customer', id: string, externalId: string, displayName: string } | null }> } | null };
+
 export type TerminateCouponFragment = { __typename?: 'Coupon', id: string, name: string };
 
 export type TerminateCouponMutationVariables = Exact<{
@@ -6987,7 +7674,7 @@ export type TerminateCouponMutationVariables = Exact<{
 }>;
 
 
-export type TerminateCouponMutation = { __typename?: 'Mutation', terminateCoupon?: { __typename?: 'Coupon', id: string, amountCents?: any | null, amountCurrency?: CurrencyEnum | null, percentageRate?: number | null, code?: string | null, expirationAt?: any | null, name: string, frequency: CouponFrequency, reusable: boolean, couponType: CouponTypeEnum, status: CouponStatusEnum, customersCount: number, expiration: CouponExpiration, frequencyDuration?: number | null, billableMetrics?: Array<{ __typename?: 'BillableMetric', id: string, name: string }> | null, plans?: Array<{ __typename?: 'Plan', id: string, name: string }> | null } | null };
+export type TerminateCouponMutation = { __typename?: 'Mutation', terminateCoupon?: { __typename?: 'Coupon', id: string, amountCents?: any | null, amountCurrency?: CurrencyEnum | null, percentageRate?: number | null, code?: string | null, expiration: CouponExpiration, expirationAt?: any | null, name: string, frequency: CouponFrequency, reusable: boolean, couponType: CouponTypeEnum, status: CouponStatusEnum, codesCount: number, redeemedCodesCount: number, customersCount: number, frequencyDuration?: number | null, billableMetrics?: Array<{ __typename?: 'BillableMetric', id: string, name: string }> | null, plans?: Array<{ __typename?: 'Plan', id: string, name: string }> | null } | null };
 
 export type InvoiceForCreditNoteFormCalculationFragment = { __typename?: 'Invoice', id: string, couponsAmountCents: any, paymentStatus: InvoicePaymentStatusTypeEnum, creditableAmountCents: any, refundableAmountCents: any, feesAmountCents: any, currency?: CurrencyEnum | null, versionNumber: number, paymentDisputeLostAt?: any | null, totalPaidAmountCents: any, fees?: Array<{ __typename?: 'Fee', id: string, appliedTaxes?: Array<{ __typename?: 'FeeAppliedTax', id: string, taxName: string, taxRate: number }> | null }> | null };
 
@@ -7126,6 +7813,28 @@ export type AddCouponMutationVariables = Exact<{
 
 export type AddCouponMutation = { __typename?: 'Mutation', createAppliedCoupon?: { __typename?: 'AppliedCoupon', id: string, amountCurrency?: CurrencyEnum | null, amountCents?: any | null, amountCentsRemaining?: any | null, percentageRate?: number | null, frequency: CouponFrequency, frequencyDuration?: number | null, frequencyDurationRemaining?: number | null, coupon: { __typename?: 'Coupon', id: string, name: string } } | null };
 
+export type GetCustomersForBulkCouponsQueryVariables = Exact<{
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  accountType?: InputMaybe<Array<CustomerAccountTypeEnum> | CustomerAccountTypeEnum>;
+  country?: InputMaybe<CountryCode>;
+  currency?: InputMaybe<CurrencyEnum>;
+  planCode?: InputMaybe<Scalars['String']['input']>;
+  subscriptionStatus?: InputMaybe<Array<StatusTypeEnum> | StatusTypeEnum>;
+  paymentProvider?: InputMaybe<ProviderTypeEnum>;
+  hasOverdueInvoices?: InputMaybe<Scalars['Boolean']['input']>;
+  walletBalanceBelow?: InputMaybe<Scalars['Float']['input']>;
+  hasTaxIdentificationNumber?: InputMaybe<Scalars['Boolean']['input']>;
+  createdAtFrom?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
+  createdAtTo?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
+  metadata?: InputMaybe<Array<CustomerMetadataFilterInput> | CustomerMetadataFilterInput>;
+  externalIds?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
+
+
+export type GetCustomersForBulkCouponsQuery = { __typename?: 'Query', customers: { __typename?: 'CustomerCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number, totalCount: number }, collection: Array<{ __typename?: 'Customer', id: string, externalId: string, displayName: string, appliedCoupons?: Array<{ __typename?: 'AppliedCoupon', id: string, coupon: { __typename?: 'Coupon', id: string } }> | null }> } };
+
 export type GetCustomerCreditNotesQueryVariables = Exact<{
   customerId: Scalars['ID']['input'];
   page?: InputMaybe<Scalars['Int']['input']>;
@@ -7165,7 +7874,7 @@ export type GetCustomerInvoicesQueryVariables = Exact<{
 
 export type GetCustomerInvoicesQuery = { __typename?: 'Query', customerInvoices: { __typename?: 'InvoiceCollection', collection: Array<{ __typename?: 'Invoice', id: string, status: InvoiceStatusTypeEnum, taxStatus?: InvoiceTaxStatusTypeEnum | null, paymentStatus: InvoicePaymentStatusTypeEnum, paymentOverdue: boolean, number: string, issuingDate: any, totalAmountCents: any, totalDueAmountCents: any, totalPaidAmountCents: any, currency?: CurrencyEnum | null, voidable: boolean, paymentDisputeLostAt?: any | null, taxProviderVoidable: boolean, invoiceType: InvoiceTypeEnum, creditableAmountCents: any, refundableAmountCents: any, associatedActiveWalletPresent: boolean, customer: { __typename?: 'Customer', id: string, name?: string | null, displayName: string, applicableTimezone: TimezoneEnum }, errorDetails?: Array<{ __typename?: 'ErrorDetail', errorCode: ErrorCodesEnum, errorDetails?: string | null }> | null }>, metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalCount: number, totalPages: number } } };
 
-export type CustomerMainInfosFragment = { __typename?: 'Customer', id: string, customerType?: CustomerTypeEnum | null, name?: string | null, firstname?: string | null, lastname?: string | null, externalId: string, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, email?: string | null, currency?: CurrencyEnum | null, addressLine1?: string | null, addressLine2?: string | null, state?: string | null, country?: CountryCode | null, city?: string | null, url?: string | null, zipcode?: string | null, paymentProvider?: ProviderTypeEnum | null, timezone?: TimezoneEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, anrokCustomer?: { __typename?: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, netsuiteCustomer?: { __typename?: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null } | null, xeroCustomer?: { __typename?: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, hubspotCustomer?: { __typename?: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null } | null, salesforceCustomer?: { __typename?: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string }> | null };
+export type CustomerMainInfosFragment = { __typename?: 'Customer', id: string, customerType?: CustomerTypeEnum | null, name?: string | null, firstname?: string | null, lastname?: string | null, externalId: string, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, email?: string | null, currency?: CurrencyEnum | null, addressLine1?: string | null, addressLine2?: string | null, state?: string | null, country?: CountryCode | null, city?: string | null, url?: string | null, zipcode?: string | null, paymentProvider?: ProviderTypeEnum | null, timezone?: TimezoneEnum | null, paymentProviderCode?: string | null, childCustomersCount: number, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, anrokCustomer?: { __typename?: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, netsuiteCustomer?: { __typename?: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null } | null, xeroCustomer?: { __typename?: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, hubspotCustomer?: { __typename?: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null } | null, salesforceCustomer?: { __typename?: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string }> | null, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string } | null };
 
 export type PaymentProvidersListForCustomerMainInfosQueryVariables = Exact<{
   limit?: InputMaybe<Scalars['Int']['input']>;
@@ -7298,6 +8007,24 @@ export type UpdateCustomerInvoiceGracePeriodMutationVariables = Exact<{
 
 export type UpdateCustomerInvoiceGracePeriodMutation = { __typename?: 'Mutation', updateCustomerInvoiceGracePeriod?: { __typename?: 'Customer', id: string, invoiceGracePeriod?: number | null } | null };
 
+export type EditCustomerParentFragment = { __typename?: 'Customer', id: string, externalId: string, childCustomersCount: number, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string } | null };
+
+export type GetCustomersForParentQueryVariables = Exact<{
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetCustomersForParentQuery = { __typename?: 'Query', customers: { __typename?: 'CustomerCollection', collection: Array<{ __typename?: 'Customer', id: string, displayName: string, externalId: string, parentCustomer?: { __typename?: 'Customer', id: string } | null }> } };
+
+export type EditCustomerParentMutationVariables = Exact<{
+  input: UpdateCustomerInput;
+}>;
+
+
+export type EditCustomerParentMutation = { __typename?: 'Mutation', updateCustomer?: { __typename?: 'Customer', id: string, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string, childCustomersCount: number } | null } | null };
+
 export type EditCustomerVatRateFragment = { __typename?: 'Customer', id: string, name?: string | null, displayName: string, externalId: string, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null };
 
 export type GetTaxRatesForEditCustomerQueryVariables = Exact<{
@@ -7316,6 +8043,18 @@ export type CreateCustomerAppliedTaxMutationVariables = Exact<{
 
 export type CreateCustomerAppliedTaxMutation = { __typename?: 'Mutation', updateCustomer?: { __typename?: 'Customer', id: string, taxes?: Array<{ __typename?: 'Tax', id: string, name: string, code: string, rate: number, autoGenerated: boolean }> | null } | null };
 
+export type CustomerActivityForTimelineFragment = { __typename?: 'CustomerActivity', id: string, activityType: CustomerActivityTypeEnum, occurredAt: any, resourceId?: string | null, invoiceId?: string | null, label?: string | null, previousLabel?: string | null, amountCents?: any | null, currency?: CurrencyEnum | null, changedAttributes?: Array<string> | null };
+
+export type GetCustomerActivitiesQueryVariables = Exact<{
+  customerId: Scalars['ID']['input'];
+  activityTypes?: InputMaybe<Array<CustomerActivityTypeEnum> | CustomerActivityTypeEnum>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCustomerActivitiesQuery = { __typename?: 'Query', customerActivities: { __typename?: 'CustomerActivityCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'CustomerActivity', id: string, activityType: CustomerActivityTypeEnum, occurredAt: any, resourceId?: string | null, invoiceId?: string | null, label?: string | null, previousLabel?: string | null, amountCents?: any | null, currency?: CurrencyEnum | null, changedAttributes?: Array<string> | null }> } };
+
 export type GetAccountingIntegrationsForExternalAppsAccordionQueryVariables = Exact<{
   limit?: InputMaybe<Scalars['Int']['input']>;
   page?: InputMaybe<Scalars['Int']['input']>;
@@ -7363,6 +8102,26 @@ export type VoidCreditNoteMutationVariables = Exact<{
 
 export type VoidCreditNoteMutation = { __typename?: 'Mutation', voidCreditNote?: { __typename?: 'CreditNote', id: string } | null };
 
+export type CustomerForMergeFragment = { __typename?: 'Customer', id: string, displayName: string, externalId: string, name?: string | null, legalName?: string | null, email?: string | null, phone?: string | null, taxIdentificationNumber?: string | null, addressLine1?: string | null, addressLine2?: string | null, zipcode?: string | null, city?: string | null, state?: string | null, country?: CountryCode | null, currency?: CurrencyEnum | null, timezone?: TimezoneEnum | null, paymentProvider?: ProviderTypeEnum | null, subscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, externalId: string, plan: { __typename?: 'Plan', id: string, name: string } }>, appliedCoupons?: Array<{ __typename?: 'AppliedCoupon', id: string, coupon: { __typename?: 'Coupon', id: string, name: string } }> | null };
+
+export type GetCustomersForMergeQueryVariables = Exact<{
+  customerId: Scalars['ID']['input'];
+  duplicateId: Scalars['ID']['input'];
+}>;
+
+
+export type GetCustomersForMergeQuery = { __typename?: 'Query', customer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string, name?: string | null, legalName?: string | null, email?: string | null, phone?: string | null, taxIdentificationNumber?: string | null, addressLine1?: string | null, addressLine2?: string | null, zipcode?: string | null, city?: string | null, state?: string | null, country?: CountryCode | null, currency?: CurrencyEnum | null, timezone?: TimezoneEnum | null, paymentProvider?: ProviderTypeEnum | null, subscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, externalId: string, plan: { __typename?: 'Plan', id: string, name: string } }>, appliedCoupons?: Array<{ __typename?: 'AppliedCoupon', id: string, coupon: { __typename?: 'Coupon', id: string, name: string } }> | null } | null, duplicate?: { __typename?: 'Customer', id: string, displayName: string, externalId: string, name?: string | null, legalName?: string | null, email?: string | null, phone?: string | null, taxIdentificationNumber?: string | null, addressLine1?: string | null, addressLine2?: string | null, zipcode?: string | null, city?: string | null, state?: string | null, country?: CountryCode | null, currency?: CurrencyEnum | null, timezone?: TimezoneEnum | null, paymentProvider?: ProviderTypeEnum | null, subscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, externalId: string, plan: { __typename?: 'Plan', id: string, name: string } }>, appliedCoupons?: Array<{ __typename?: 'AppliedCoupon', id: string, coupon: { __typename?: 'Coupon', id: string, name: string } }> | null } | null, duplicateWallets: { __typename?: 'WalletCollection', metadata: { __typename?: 'CollectionMetadata', totalCount: number }, collection: Array<{ __typename?: 'Wallet', id: string, name?: string | null }> }, duplicateOpenInvoices: { __typename?: 'InvoiceCollection', metadata: { __typename?: 'CollectionMetadata', totalCount: number }, collection: Array<{ __typename?: 'Invoice', id: string, number: string }> } };
+
+export type CustomerGroupMemberItemFragment = { __typename?: 'CustomerGroupMember', id: string, currency: CurrencyEnum, currentUsageAmountCents: any, outstandingAmountCents: any, overdueAmountCents: any, overdueInvoicesCount: number, walletsBalanceCents: any, customer: { __typename?: 'Customer', id: string, displayName: string, externalId: string, activeSubscriptionsCount: number, subscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, status?: StatusTypeEnum | null, startedAt?: any | null, subscriptionAt?: any | null, plan: { __typename?: 'Plan', id: string, name: string } }> } };
+
+export type GetCustomerGroupQueryVariables = Exact<{
+  customerId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCustomerGroupQuery = { __typename?: 'Query', customerGroupMembers: { __typename?: 'CustomerGroupMemberCollection', collection: Array<{ __typename?: 'CustomerGroupMember', id: string, currency: CurrencyEnum, currentUsageAmountCents: any, outstandingAmountCents: any, overdueAmountCents: any, overdueInvoicesCount: number, walletsBalanceCents: any, customer: { __typename?: 'Customer', id: string, displayName: string, externalId: string, activeSubscriptionsCount: number, subscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, status?: StatusTypeEnum | null, startedAt?: any | null, subscriptionAt?: any | null, plan: { __typename?: 'Plan', id: string, name: string } }> } }> } };
+
 export type CustomerCouponFragment = { __typename?: 'AppliedCoupon', id: string, amountCurrency?: CurrencyEnum | null, amountCents?: any | null, amountCentsRemaining?: any | null, percentageRate?: number | null, frequency: CouponFrequency, frequencyDuration?: number | null, frequencyDurationRemaining?: number | null, coupon: { __typename?: 'Coupon', id: string, name: string } };
 
 export type CustomerAppliedCouponsFragment = { __typename?: 'Customer', id: string, appliedCoupons?: Array<{ __typename?: 'AppliedCoupon', id: string, amountCurrency?: CurrencyEnum | null, amountCents?: any | null, amountCentsRemaining?: any | null, percentageRate?: number | null, frequency: CouponFrequency, frequencyDuration?: number | null, frequencyDurationRemaining?: number | null, coupon: { __typename?: 'Coupon', id: string, name: string } }> | null };
@@ -7406,6 +8165,29 @@ export type GetCustomerSubscriptionForListQueryVariables = Exact<{
 
 export type GetCustomerSubscriptionForListQuery = { __typename?: 'Query', customer?: { __typename?: 'Customer', id: string, subscriptions: Array<{ __typename?: 'Subscription', id: string, status?: StatusTypeEnum | null, startedAt?: any | null, nextPendingStartDate?: any | null, name?: string | null, nextName?: string | null, externalId: string, subscriptionAt?: any | null, endingAt?: any | null, plan: { __typename?: 'Plan', id: string, amountCurrency: CurrencyEnum, name: string, interval: PlanInterval }, nextPlan?: { __typename?: 'Plan', id: string, name: string, code: string, interval: PlanInterval } | null, nextSubscription?: { __typename?: 'Subscription', id: string, name?: string | null, externalId: string, status?: StatusTypeEnum | null } | null }> } | null };
 
+export type CustomerSegmentItemFragment = { __typename?: 'CustomerSegment', id: string, name: string, filters: any };
+
+export type GetCustomerSegmentsQueryVariables = Exact<{
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCustomerSegmentsQuery = { __typename?: 'Query', customerSegments: { __typename?: 'CustomerSegmentCollection', collection: Array<{ __typename?: 'CustomerSegment', id: string, name: string, filters: any }> } };
+
+export type DestroyCustomerSegmentMutationVariables = Exact<{
+  input: DestroyCustomerSegmentInput;
+}>;
+
+
+export type DestroyCustomerSegmentMutation = { __typename?: 'Mutation', destroyCustomerSegment?: { __typename?: 'DestroyCustomerSegmentPayload', id?: string | null } | null };
+
+export type CreateCustomerSegmentMutationVariables = Exact<{
+  input: CreateCustomerSegmentInput;
+}>;
+
+
+export type CreateCustomerSegmentMutation = { __typename?: 'Mutation', createCustomerSegment?: { __typename?: 'CustomerSegment', id: string, name: string } | null };
+
 export type TerminateCustomerSubscriptionMutationVariables = Exact<{
   input: TerminateSubscriptionInput;
 }>;
@@ -7485,6 +8267,14 @@ export type DeleteWebhookMutation = { __typename?: 'Mutation', destroyWebhookEnd
 
 export type EventItemFragment = { __typename?: 'Event', id: string, code: string, receivedAt?: any | null, matchBillableMetric?: boolean | null, matchCustomField?: boolean | null };
 
+export type GetEventsForBillableMetricInferenceQueryVariables = Exact<{
+  code: Scalars['String']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetEventsForBillableMetricInferenceQuery = { __typename?: 'Query', events?: { __typename?: 'EventCollection', collection: Array<{ __typename?: 'Event', id: string, payload: any }> } | null };
+
 export type ApiKeyForRotateApiKeyDialogFragment = { __typename?: 'SanitizedApiKey', id: string, lastUsedAt?: any | null, name?: string | null };
 
 export type RotateApiKeyMutationVariables = Exact<{
@@ -7705,6 +8495,15 @@ export type ChargeForChargeOptionsAccordionFragment = { __typename?: 'Charge', i
 
 export type PercentageChargeFragment = { __typename?: 'Properties', fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null };
 
+export type ChargeTemplateItemFragment = { __typename?: 'ChargeTemplate', id: string, name: string, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, name: string, code: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', id: string, key: string, values: Array<string> }> | null }, plans: Array<{ __typename?: 'Plan', id: string, name: string }> };
+
+export type GetChargeTemplatesQueryVariables = Exact<{
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetChargeTemplatesQuery = { __typename?: 'Query', chargeTemplates: { __typename?: 'ChargeTemplateCollection', collection: Array<{ __typename?: 'ChargeTemplate', id: string, name: string, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, name: string, code: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', id: string, key: string, values: Array<string> }> | null }, plans: Array<{ __typename?: 'Plan', id: string, name: string }> }> } };
+
 export type PlanForChargeAccordionFragment = { __typename?: 'Plan', billChargesMonthly?: boolean | null };
 
 export type BillableMetricForChargeSectionFragment = { __typename?: 'BillableMetric', id: string, name: string, code: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', id: string, key: string, values: Array<string> }> | null };
@@ -7735,6 +8534,8 @@ export type GetTaxesForCommitmentsQueryVariables = Exact<{
 
 export type GetTaxesForCommitmentsQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> } };
 
+export type PlanForCurrencyVariantsSectionFragment = { __typename?: 'Plan', id: string, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCents: any, amountCurrency: CurrencyEnum, currencyVariantExchangeRate?: number | null, currencyVariantRoundingRule?: PriceRoundingRuleEnum | null, charges?: Array<{ __typename?: 'Charge', id: string, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null }> | null };
+
 export type CustomChargeFragment = { __typename?: 'Properties', customProperties?: any | null };
 
 export type DeletePlanDialogFragment = { __typename?: 'Plan', id: string, name: string, draftInvoicesCount: number, activeSubscriptionsCount: number };
@@ -7754,6 +8555,22 @@ export type GraduatedChargeFragment = { __typename?: 'Properties', graduatedRang
 
 export type GraduatedPercentageChargeFragment = { __typename?: 'Properties', graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null };
 
+export type GetBillableMetricsForPlanImportQueryVariables = Exact<{
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetBillableMetricsForPlanImportQuery = { __typename?: 'Query', billableMetrics: { __typename?: 'BillableMetricCollection', collection: Array<{ __typename?: 'BillableMetric', id: string, name: string, code: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', id: string, key: string, values: Array<string> }> | null }> } };
+
+export type GetTaxesForPlanImportQueryVariables = Exact<{
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetTaxesForPlanImportQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', collection: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> } };
+
 export type PackageChargeFragment = { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null };
 
 export type TaxForPlanSettingsSectionFragment = { __typename?: 'Tax', id: string, code: string, name: string, rate: number };
@@ -7768,6 +8585,13 @@ export type GetTaxesForPlanQueryVariables = Exact<{
 
 export type GetTaxesForPlanQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> } };
 
+export type CreateChargeTemplateMutationVariables = Exact<{
+  input: CreateChargeTemplateInput;
+}>;
+
+
+export type CreateChargeTemplateMutation = { __typename?: 'Mutation', createChargeTemplate?: { __typename?: 'ChargeTemplate', id: string, name: string } | null };
+
 export type StandardChargeFragment = { __typename?: 'Properties', amount?: string | null, groupedBy?: Array<string> | null };
 
 export type VolumeRangesFragment = { __typename?: 'Properties', volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null };
@@ -7777,7 +8601,7 @@ export type GetPlanForDetailsOverviewSectionQueryVariables = Exact<{
 }>;
 
 
-export type GetPlanForDetailsOverviewSectionQuery = { __typename?: 'Query', plan?: { __typename?: 'Plan', id: string, name: string, code: string, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null } | null };
+export type GetPlanForDetailsOverviewSectionQuery = { __typename?: 'Query', plan?: { __typename?: 'Plan', id: string, name: string, code: string, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, chargeTemplate?: { __typename?: 'ChargeTemplate', id: string } | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCents: any, amountCurrency: CurrencyEnum, currencyVariantExchangeRate?: number | null, currencyVariantRoundingRule?: PriceRoundingRuleEnum | null, charges?: Array<{ __typename?: 'Charge', id: string, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null }> | null } | null };
 
 export type GetSubscribtionsForPlanDetailsQueryVariables = Exact<{
   page?: InputMaybe<Scalars['Int']['input']>;
@@ -7791,6 +8615,17 @@ export type GetSubscribtionsForPlanDetailsQuery = { __typename?: 'Query', subscr
 
 export type PlanSubscriptionListItemForSubscriptionListFragment = { __typename?: 'Subscription', id: string, endingAt?: any | null, subscriptionAt?: any | null, plan: { __typename?: 'Plan', id: string, parent?: { __typename?: 'Plan', id: string } | null }, customer: { __typename?: 'Customer', id: string, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string } };
 
+export type GetPlanVersionsForPlanDetailsQueryVariables = Exact<{
+  planId: Scalars['ID']['input'];
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetPlanVersionsForPlanDetailsQuery = { __typename?: 'Query', planVersions: { __typename?: 'PlanVersionCollection', collection: Array<{ __typename?: 'PlanVersion', id: string, version: number, createdAt: any, cascadeUpdates: boolean, snapshot: any, author?: { __typename?: 'User', id: string, email?: string | null } | null, impactedSubscriptions: Array<{ __typename?: 'Subscription', id: string, name?: string | null, externalId: string, customer: { __typename?: 'Customer', id: string, displayName: string, externalId: string } }> }>, metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number } } };
+
+export type PlanVersionImpactedSubscriptionFragment = { __typename?: 'Subscription', id: string, name?: string | null, externalId: string, customer: { __typename?: 'Customer', id: string, displayName: string, externalId: string } };
+
 export type EditOrganizationInformationsDialogFragment = { __typename?: 'CurrentOrganization', id: string, logoUrl?: string | null, name: string, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, email?: string | null, addressLine1?: string | null, addressLine2?: string | null, zipcode?: string | null, city?: string | null, state?: string | null, country?: CountryCode | null };
 
 export type UpdateOrganizationInformationsMutationVariables = Exact<{
@@ -8658,6 +9493,15 @@ export type GetSubscriptionForDetailsOverviewQuery = { __typename?: 'Query', sub
 
 export type SubscriptionForSubscriptionInformationsFragment = { __typename?: 'Subscription', id: string, externalId: string, status?: StatusTypeEnum | null, subscriptionAt?: any | null, endingAt?: any | null, nextPendingStartDate?: any | null, nextPlan?: { __typename?: 'Plan', id: string, name: string } | null, customer: { __typename?: 'Customer', id: string, name?: string | null, displayName: string }, plan: { __typename?: 'Plan', id: string, name: string, parent?: { __typename?: 'Plan', id: string, name: string } | null } };
 
+export type PlanForSubscriptionOverridesFragment = { __typename?: 'Plan', id: string, name: string, description?: string | null, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null } | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null, charges?: Array<{ __typename?: 'Charge', id: string, invoiceDisplayName?: string | null, minAmountCents: any, billableMetric: { __typename?: 'BillableMetric', id: string, name: string }, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null };
+
+export type GetSubscriptionPlanOverridesQueryVariables = Exact<{
+  subscriptionId: Scalars['ID']['input'];
+}>;
+
+
+export type GetSubscriptionPlanOverridesQuery = { __typename?: 'Query', subscription?: { __typename?: 'Subscription', id: string, plan: { __typename?: 'Plan', id: string, name: string, description?: string | null, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, parent?: { __typename?: 'Plan', id: string, name: string, description?: string | null, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null } | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null, charges?: Array<{ __typename?: 'Charge', id: string, invoiceDisplayName?: string | null, minAmountCents: any, billableMetric: { __typename?: 'BillableMetric', id: string, name: string }, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null } | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null, charges?: Array<{ __typename?: 'Charge', id: string, invoiceDisplayName?: string | null, minAmountCents: any, billableMetric: { __typename?: 'BillableMetric', id: string, name: string }, taxes?: Array<{ __typename?: 'Tax', id: string, code: string }> | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null } } | null };
+
 export type SubscriptionUsageLifetimeGraphForLifetimeGraphFragment = { __typename?: 'Subscription', id: string, status?: StatusTypeEnum | null, lifetimeUsage?: { __typename?: 'SubscriptionLifetimeUsage', lastThresholdAmountCents?: any | null, nextThresholdAmountCents?: any | null, totalUsageAmountCents: any, totalUsageFromDatetime: any, totalUsageToDatetime: any } | null, customer: { __typename?: 'Customer', id: string, currency?: CurrencyEnum | null, applicableTimezone: TimezoneEnum }, plan: { __typename?: 'Plan', id: string } };
 
 export type GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables = Exact<{
@@ -8676,6 +9520,90 @@ export type DeleteTaxMutationVariables = Exact<{
 
 export type DeleteTaxMutation = { __typename?: 'Mutation', destroyTax?: { __typename?: 'DestroyTaxPayload', id?: string | null } | null };
 
+export type TaxForEffectiveTaxesFragment = { __typename?: 'Tax', id: string, name: string, code: string, rate: number };
+
+export type GetOrganizationTaxesForEffectiveTaxesQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type GetOrganizationTaxesForEffectiveTaxesQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', collection: Array<{ __typename?: 'Tax', id: string, name: string, code: string, rate: number }> } };
+
+export type GetCustomersForEffectiveTaxesQueryVariables = Exact<{
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetCustomersForEffectiveTaxesQuery = { __typename?: 'Query', customers: { __typename?: 'CustomerCollection', collection: Array<{ __typename?: 'Customer', id: string, displayName: string, externalId: string }> } };
+
+export type GetCustomerForEffectiveTaxesQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetCustomerForEffectiveTaxesQuery = { __typename?: 'Query', customer?: { __typename?: 'Customer', id: string, anrokCustomer?: { __typename?: 'AnrokCustomer', id: string } | null, taxes?: Array<{ __typename?: 'Tax', id: string, name: string, code: string, rate: number }> | null } | null };
+
+export type GetPlansForEffectiveTaxesQueryVariables = Exact<{
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+}>;
+
+
+export type GetPlansForEffectiveTaxesQuery = { __typename?: 'Query', plans: { __typename?: 'PlanCollection', collection: Array<{ __typename?: 'Plan', id: string, name: string, code: string }> } };
+
+export type GetPlanForEffectiveTaxesQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetPlanForEffectiveTaxesQuery = { __typename?: 'Query', plan?: { __typename?: 'Plan', id: string, taxes?: Array<{ __typename?: 'Tax', id: string, name: string, code: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, invoiceDisplayName?: string | null, billableMetric: { __typename?: 'BillableMetric', id: string, name: string, code: string }, taxes?: Array<{ __typename?: 'Tax', id: string, name: string, code: string, rate: number }> | null }> | null } | null };
+
+export type TaxForTaxAssignmentsDrawerFragment = { __typename?: 'Tax', id: string, name: string, code: string, rate: number, customersCount: number, plansCount: number, chargesCount: number, addOnsCount: number };
+
+export type GetTaxAssignmentsQueryVariables = Exact<{
+  taxId: Scalars['ID']['input'];
+  objectType: TaxAssignmentObjectTypeEnum;
+  assigned?: InputMaybe<Scalars['Boolean']['input']>;
+  searchTerm?: InputMaybe<Scalars['String']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetTaxAssignmentsQuery = { __typename?: 'Query', taxAssignments: { __typename?: 'TaxAssignmentCollection', collection: Array<{ __typename?: 'TaxAssignment', objectId: string, objectType: TaxAssignmentObjectTypeEnum, name: string, code?: string | null, planName?: string | null }>, metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number } } };
+
+export type CreateTaxAssignmentsMutationVariables = Exact<{
+  input: CreateTaxAssignmentsInput;
+}>;
+
+
+export type CreateTaxAssignmentsMutation = { __typename?: 'Mutation', createTaxAssignments?: { __typename?: 'Tax', id: string, name: string, code: string, rate: number, customersCount: number, plansCount: number, chargesCount: number, addOnsCount: number } | null };
+
+export type DestroyTaxAssignmentsMutationVariables = Exact<{
+  input: DestroyTaxAssignmentsInput;
+}>;
+
+
+export type DestroyTaxAssignmentsMutation = { __typename?: 'Mutation', destroyTaxAssignments?: { __typename?: 'Tax', id: string, name: string, code: string, rate: number, customersCount: number, plansCount: number, chargesCount: number, addOnsCount: number } | null };
+
+export type GetTaxRateChangeImpactQueryVariables = Exact<{
+  taxId: Scalars['ID']['input'];
+  effectiveAt: Scalars['ISO8601DateTime']['input'];
+}>;
+
+
+export type GetTaxRateChangeImpactQuery = { __typename?: 'Query', taxRateChangeImpact: { __typename?: 'TaxRateChangeImpact', draftInvoices: Array<{ __typename?: 'Invoice', id: string, number: string, currency?: CurrencyEnum | null, totalAmountCents: any, customer: { __typename?: 'Customer', id: string, displayName: string } }>, upcomingBillings: Array<{ __typename?: 'TaxRateChangeUpcomingBilling', billingAt: any, subscriptionsCount: number }> } };
+
+export type TaxRateChangeItemFragment = { __typename?: 'TaxRateChange', id: string, rate: number, previousRate: number, effectiveAt: any };
+
+export type DestroyTaxRateChangeMutationVariables = Exact<{
+  input: DestroyTaxRateChangeInput;
+}>;
+
+
+export type DestroyTaxRateChangeMutation = { __typename?: 'Mutation', destroyTaxRateChange?: { __typename?: 'DestroyTaxRateChangePayload', id?: string | null } | null };
+
 export type CustomerWalletFragment = { __typename?: 'Wallet', id: string, expirationAt?: any | null, name?: string | null, rateAmount: number, invoiceRequiresSuccessfulPayment: boolean, balanceCents: any, consumedAmountCents: any, consumedCredits: number, createdAt: any, creditsBalance: number, currency: CurrencyEnum, lastBalanceSyncAt?: any | null, lastConsumedCreditAt?: any | null, status: WalletStatusEnum, terminatedAt?: any | null, ongoingBalanceCents: any, creditsOngoingBalance: number, ongoingUsageBalanceCents: any, creditsOngoingUsageBalance: number, recurringTransactionRules?: Array<{ __typename?: 'RecurringTransactionRule', lagoId: string, method: RecurringTransactionMethodEnum, trigger: RecurringTransactionTriggerEnum, interval?: RecurringTransactionIntervalEnum | null, targetOngoingBalance?: string | null, paidCredits: string, grantedCredits: string, thresholdCredits?: string | null, startedAt?: any | null, invoiceRequiresSuccessfulPayment: boolean, expirationAt?: any | null, transactionMetadata?: Array<{ __typename?: 'TransactionMetadata', key: string, value: string }> | null }> | null };
 
 export type GetCustomerWalletListQueryVariables = Exact<{
@@ -8727,21 +9655,21 @@ export type CreateSubscriptionMutationVariables = Exact<{
 }>;
 
 
-export type CreateSubscriptionMutation = { __typename?: 'Mutation', createSubscription?: { __typename?: 'Subscription', id: string, customer: { __typename?: 'Customer', id: string, activeSubscriptionsCount: number, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null } } | null };
+export type CreateSubscriptionMutation = { __typename?: 'Mutation', createSubscription?: { __typename?: 'Subscription', id: string, customer: { __typename?: 'Customer', id: string, activeSubscriptionsCount: number, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, childCustomersCount: number, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string } | null } } | null };
 
 export type UpdateSubscriptionMutationVariables = Exact<{
   input: UpdateSubscriptionInput;
 }>;
 
 
-export type UpdateSubscriptionMutation = { __typename?: 'Mutation', updateSubscription?: { __typename?: 'Subscription', id: string, customer: { __typename?: 'Customer', id: string, activeSubscriptionsCount: number, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null }, plan: { __typename?: 'Plan', id: string } } | null };
+export type UpdateSubscriptionMutation = { __typename?: 'Mutation', updateSubscription?: { __typename?: 'Subscription', id: string, customer: { __typename?: 'Customer', id: string, activeSubscriptionsCount: number, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, childCustomersCount: number, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string } | null }, plan: { __typename?: 'Plan', id: string } } | null };
 
 export type GetSinglePlanQueryVariables = Exact<{
   id: Scalars['ID']['input'];
 }>;
 
 
-export type GetSinglePlanQuery = { __typename?: 'Query', plan?: { __typename?: 'Plan', id: string, name: string, code: string, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null } | null };
+export type GetSinglePlanQuery = { __typename?: 'Query', plan?: { __typename?: 'Plan', id: string, name: string, code: string, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, chargeTemplate?: { __typename?: 'ChargeTemplate', id: string } | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCents: any, amountCurrency: CurrencyEnum, currencyVariantExchangeRate?: number | null, currencyVariantRoundingRule?: PriceRoundingRuleEnum | null, charges?: Array<{ __typename?: 'Charge', id: string, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null }> | null } | null };
 
 export type CreatePlanMutationVariables = Exact<{
   input: CreatePlanInput;
@@ -8755,7 +9683,7 @@ export type UpdatePlanMutationVariables = Exact<{
 }>;
 
 
-export type UpdatePlanMutation = { __typename?: 'Mutation', updatePlan?: { __typename?: 'Plan', id: string, name: string, code: string, chargesCount: number, activeSubscriptionsCount: number, createdAt: any, draftInvoicesCount: number, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null } | null };
+export type UpdatePlanMutation = { __typename?: 'Mutation', updatePlan?: { __typename?: 'Plan', id: string, name: string, code: string, chargesCount: number, activeSubscriptionsCount: number, createdAt: any, amountCurrency: CurrencyEnum, draftInvoicesCount: number, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCurrency: CurrencyEnum, amountCents: any, currencyVariantExchangeRate?: number | null, currencyVariantRoundingRule?: PriceRoundingRuleEnum | null, charges?: Array<{ __typename?: 'Charge', id: string, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null }> | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, chargeTemplate?: { __typename?: 'ChargeTemplate', id: string } | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null } | null };
 
 export type InvoiceFeeFragment = { __typename?: 'Fee', id: string, amountCurrency: CurrencyEnum, feeType: FeeTypesEnum, invoiceName?: string | null, invoiceDisplayName?: string | null, groupedBy: any, succeededAt?: any | null, creditableAmountCents: any, appliedTaxes?: Array<{ __typename?: 'FeeAppliedTax', id: string, taxName: string, taxRate: number }> | null, trueUpFee?: { __typename?: 'Fee', id: string } | null, charge?: { __typename?: 'Charge', id: string, billableMetric: { __typename?: 'BillableMetric', id: string, name: string } } | null, chargeFilter?: { __typename?: 'ChargeFilter', id: string, invoiceDisplayName?: string | null, values: any } | null };
 
@@ -8798,7 +9726,7 @@ export type UpdateAddOnMutationVariables = Exact<{
 }>;
 
 
-export type UpdateAddOnMutation = { __typename?: 'Mutation', updateAddOn?: { __typename?: 'AddOn', id: string, name: string, amountCurrency: CurrencyEnum, amountCents: any, customersCount: number, createdAt: any } | null };
+export type UpdateAddOnMutation = { __typename?: 'Mutation', updateAddOn?: { __typename?: 'AddOn', id: string, name: string, amountCurrency: CurrencyEnum, amountCents: any, customersCount: number, invoicesCount: number, createdAt: any } | null };
 
 export type GetSingleBillableMetricQueryVariables = Exact<{
   id: Scalars['ID']['input'];
@@ -8922,14 +9850,14 @@ export type UpdateInvoiceCustomSectionMutation = { __typename?: 'Mutation', upda
 
 export type TaxFormFragment = { __typename?: 'Tax', id: string, code: string, description?: string | null, name: string, rate: number, customersCount: number };
 
-export type TaxFormQueryShapeFragment = { __typename?: 'Tax', autoGenerated: boolean, id: string, code: string, description?: string | null, name: string, rate: number, customersCount: number };
+export type TaxFormQueryShapeFragment = { __typename?: 'Tax', autoGenerated: boolean, id: string, code: string, description?: string | null, name: string, rate: number, customersCount: number, rateChanges: Array<{ __typename?: 'TaxRateChange', id: string, rate: number, effectiveAt: any }> };
 
 export type GetSingleTaxQueryVariables = Exact<{
   id: Scalars['ID']['input'];
 }>;
 
 
-export type GetSingleTaxQuery = { __typename?: 'Query', tax?: { __typename?: 'Tax', id: string, autoGenerated: boolean, code: string, description?: string | null, name: string, rate: number, customersCount: number } | null };
+export type GetSingleTaxQuery = { __typename?: 'Query', tax?: { __typename?: 'Tax', id: string, autoGenerated: boolean, code: string, description?: string | null, name: string, rate: number, customersCount: number, rateChanges: Array<{ __typename?: 'TaxRateChange', id: string, rate: number, effectiveAt: any }> } | null };
 
 export type CreateTaxMutationVariables = Exact<{
   input: TaxCreateInput;
@@ -8991,9 +9919,9 @@ export type GetAddOnForDetailsQueryVariables = Exact<{
 }>;
 
 
-export type GetAddOnForDetailsQuery = { __typename?: 'Query', addOn?: { __typename?: 'AddOn', id: string, name: string, amountCents: any, amountCurrency: CurrencyEnum, code: string, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null };
+export type GetAddOnForDetailsQuery = { __typename?: 'Query', addOn?: { __typename?: 'AddOn', id: string, name: string, amountCents: any, amountCurrency: CurrencyEnum, code: string, customersCount: number, invoicesCount: number, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null };
 
-export type AddOnItemFragment = { __typename?: 'AddOn', id: string, name: string, amountCurrency: CurrencyEnum, amountCents: any, customersCount: number, createdAt: any };
+export type AddOnItemFragment = { __typename?: 'AddOn', id: string, name: string, amountCurrency: CurrencyEnum, amountCents: any, customersCount: number, invoicesCount: number, createdAt: any };
 
 export type AddOnsQueryVariables = Exact<{
   page?: InputMaybe<Scalars['Int']['input']>;
@@ -9002,7 +9930,7 @@ export type AddOnsQueryVariables = Exact<{
 }>;
 
 
-export type AddOnsQuery = { __typename?: 'Query', addOns: { __typename?: 'AddOnCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'AddOn', id: string, name: string, amountCurrency: CurrencyEnum, amountCents: any, customersCount: number, createdAt: any }> } };
+export type AddOnsQuery = { __typename?: 'Query', addOns: { __typename?: 'AddOnCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'AddOn', id: string, name: string, amountCurrency: CurrencyEnum, amountCents: any, customersCount: number, invoicesCount: number, createdAt: any }> } };
 
 export type BillableMetricItemFragment = { __typename?: 'BillableMetric', id: string, name: string, code: string, createdAt: any };
 
@@ -9015,14 +9943,14 @@ export type BillableMetricsQueryVariables = Exact<{
 
 export type BillableMetricsQuery = { __typename?: 'Query', billableMetrics: { __typename?: 'BillableMetricCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'BillableMetric', id: string, name: string, code: string, createdAt: any }> } };
 
-export type CouponDetailsFragment = { __typename?: 'Coupon', amountCents?: any | null, amountCurrency?: CurrencyEnum | null, percentageRate?: number | null, code?: string | null, expirationAt?: any | null, name: string, frequency: CouponFrequency, reusable: boolean, couponType: CouponTypeEnum, status: CouponStatusEnum, billableMetrics?: Array<{ __typename?: 'BillableMetric', id: string, name: string }> | null, plans?: Array<{ __typename?: 'Plan', id: string, name: string }> | null };
+export type CouponDetailsFragment = { __typename?: 'Coupon', amountCents?: any | null, amountCurrency?: CurrencyEnum | null, percentageRate?: number | null, code?: string | null, expiration: CouponExpiration, expirationAt?: any | null, name: string, frequency: CouponFrequency, reusable: boolean, couponType: CouponTypeEnum, status: CouponStatusEnum, codesCount: number, redeemedCodesCount: number, billableMetrics?: Array<{ __typename?: 'BillableMetric', id: string, name: string }> | null, plans?: Array<{ __typename?: 'Plan', id: string, name: string }> | null };
 
 export type GetCouponForDetailsQueryVariables = Exact<{
   id: Scalars['ID']['input'];
 }>;
 
 
-export type GetCouponForDetailsQuery = { __typename?: 'Query', coupon?: { __typename?: 'Coupon', id: string, amountCents?: any | null, amountCurrency?: CurrencyEnum | null, percentageRate?: number | null, code?: string | null, expirationAt?: any | null, name: string, frequency: CouponFrequency, reusable: boolean, couponType: CouponTypeEnum, status: CouponStatusEnum, appliedCouponsCount: number, billableMetrics?: Array<{ __typename?: 'BillableMetric', id: string, name: string }> | null, plans?: Array<{ __typename?: 'Plan', id: string, name: string }> | null } | null };
+export type GetCouponForDetailsQuery = { __typename?: 'Query', coupon?: { __typename?: 'Coupon', id: string, amountCents?: any | null, amountCurrency?: CurrencyEnum | null, percentageRate?: number | null, code?: string | null, expiration: CouponExpiration, expirationAt?: any | null, name: string, frequency: CouponFrequency, reusable: boolean, couponType: CouponTypeEnum, status: CouponStatusEnum, codesCount: number, redeemedCodesCount: number, appliedCouponsCount: number, billableMetrics?: Array<{ __typename?: 'BillableMetric', id: string, name: string }> | null, plans?: Array<{ __typename?: 'Plan', id: string, name: string }> | null } | null };
 
 export type CouponItemFragment = { __typename?: 'Coupon', id: string, name: string, customersCount: number, status: CouponStatusEnum, amountCurrency?: CurrencyEnum | null, amountCents?: any | null, expiration: CouponExpiration, expirationAt?: any | null, couponType: CouponTypeEnum, percentageRate?: number | null, frequency: CouponFrequency, frequencyDuration?: number | null };
 
@@ -9068,6 +9996,7 @@ export type GetAddonListForInfoiceQueryVariables = Exact<{
   page?: InputMaybe<Scalars['Int']['input']>;
   limit?: InputMaybe<Scalars['Int']['input']>;
   searchTerm?: InputMaybe<Scalars['String']['input']>;
+  order?: InputMaybe<Scalars['String']['input']>;
 }>;
 
 
@@ -9105,7 +10034,7 @@ export type TaxForPlanAndChargesInPlanFormFragment = { __typename?: 'Tax', id: s
 
 export type BillableMetricForPlanFragment = { __typename?: 'BillableMetric', id: string, name: string, code: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', id: string, key: string, values: Array<string> }> | null };
 
-export type EditPlanFragment = { __typename?: 'Plan', id: string, name: string, code: string, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null };
+export type EditPlanFragment = { __typename?: 'Plan', id: string, name: string, code: string, description?: string | null, interval: PlanInterval, payInAdvance: boolean, invoiceDisplayName?: string | null, amountCents: any, amountCurrency: CurrencyEnum, trialPeriod?: number | null, subscriptionsCount: number, billChargesMonthly?: boolean | null, hasOverriddenPlans?: boolean | null, minimumCommitment?: { __typename?: 'Commitment', amountCents: any, commitmentType: CommitmentTypeEnum, invoiceDisplayName?: string | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null } | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, charges?: Array<{ __typename?: 'Charge', id: string, minAmountCents: any, payInAdvance: boolean, chargeModel: ChargeModelEnum, invoiceable: boolean, prorated: boolean, invoiceDisplayName?: string | null, regroupPaidFees?: RegroupPaidFeesEnum | null, taxes?: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number }> | null, billableMetric: { __typename?: 'BillableMetric', id: string, code: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean, filters?: Array<{ __typename?: 'BillableMetricFilter', key: string, values: Array<string>, id: string }> | null }, chargeTemplate?: { __typename?: 'ChargeTemplate', id: string } | null, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any, properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null, usageThresholds?: Array<{ __typename?: 'UsageThreshold', id: string, amountCents: any, recurring: boolean, thresholdDisplayName?: string | null }> | null, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCents: any, amountCurrency: CurrencyEnum, currencyVariantExchangeRate?: number | null, currencyVariantRoundingRule?: PriceRoundingRuleEnum | null, charges?: Array<{ __typename?: 'Charge', id: string, properties?: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } | null, filters?: Array<{ __typename?: 'ChargeFilter', properties: { __typename?: 'Properties', amount?: string | null, packageSize?: any | null, freeUnits?: any | null, groupedBy?: Array<string> | null, fixedAmount?: string | null, freeUnitsPerEvents?: any | null, freeUnitsPerTotalAggregation?: string | null, rate?: string | null, perTransactionMinAmount?: string | null, perTransactionMaxAmount?: string | null, customProperties?: any | null, graduatedRanges?: Array<{ __typename?: 'GraduatedRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'GraduatedPercentageRange', flatAmount: string, fromValue: any, rate: string, toValue?: any | null }> | null, volumeRanges?: Array<{ __typename?: 'VolumeRange', flatAmount: string, fromValue: any, perUnitAmount: string, toValue?: any | null }> | null } }> | null }> | null }> | null };
 
 export type AddSubscriptionPlanFragment = { __typename?: 'Plan', id: string, name: string, code: string, interval: PlanInterval };
 
@@ -9160,14 +10089,14 @@ export type RetryTaxReportingMutationVariables = Exact<{
 
 export type RetryTaxReportingMutation = { __typename?: 'Mutation', retryTaxReporting?: { __typename?: 'CreditNote', id: string } | null };
 
-export type CustomerDetailsFragment = { __typename?: 'Customer', id: string, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null };
+export type CustomerDetailsFragment = { __typename?: 'Customer', id: string, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, childCustomersCount: number, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string } | null };
 
 export type GetCustomerQueryVariables = Exact<{
   id: Scalars['ID']['input'];
 }>;
 
 
-export type GetCustomerQuery = { __typename?: 'Query', customer?: { __typename?: 'Customer', id: string, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null } | null };
+export type GetCustomerQuery = { __typename?: 'Query', customer?: { __typename?: 'Customer', id: string, customerType?: CustomerTypeEnum | null, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, hasActiveWallet: boolean, currency?: CurrencyEnum | null, hasCreditNotes: boolean, creditNotesCreditsAvailableCount: number, creditNotesBalanceAmountCents: any, applicableTimezone: TimezoneEnum, hasOverdueInvoices: boolean, accountType: CustomerAccountTypeEnum, childCustomersCount: number, addressLine1?: string | null, addressLine2?: string | null, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, targetedObject?: HubspotTargetedObjectsEnum | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, parentCustomer?: { __typename?: 'Customer', id: string, displayName: string, externalId: string } | null } | null };
 
 export type GenerateCustomerPortalUrlMutationVariables = Exact<{
   input: GenerateCustomerPortalUrlInput;
@@ -9195,6 +10124,17 @@ export type GetCustomerInfosForDraftInvoicesListQueryVariables = Exact<{
 
 export type GetCustomerInfosForDraftInvoicesListQuery = { __typename?: 'Query', customer?: { __typename?: 'Customer', id: string, name?: string | null, displayName: string, applicableTimezone: TimezoneEnum } | null, customerInvoices: { __typename?: 'InvoiceCollection', metadata: { __typename?: 'CollectionMetadata', totalCount: number } } };
 
+export type CustomerForDuplicatesListFragment = { __typename?: 'Customer', id: string, displayName: string, externalId: string, email?: string | null };
+
+export type GetCustomerDuplicatesQueryVariables = Exact<{
+  criteria?: InputMaybe<Array<CustomerDuplicateCriteriaEnum> | CustomerDuplicateCriteriaEnum>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type GetCustomerDuplicatesQuery = { __typename?: 'Query', customerDuplicates: { __typename?: 'CustomerDuplicateCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'CustomerDuplicate', id: string, matchedCriteria: Array<CustomerDuplicateCriteriaEnum>, nameSimilarity: number, customer: { __typename?: 'Customer', id: string, displayName: string, externalId: string, email?: string | null }, duplicate: { __typename?: 'Customer', id: string, displayName: string, externalId: string, email?: string | null } }> } };
+
 export type AllInvoiceDetailsForCustomerInvoiceDetailsFragment = { __typename?: 'Invoice', id: string, invoiceType: InvoiceTypeEnum, number: string, paymentStatus: InvoicePaymentStatusTypeEnum, status: InvoiceStatusTypeEnum, taxStatus?: InvoiceTaxStatusTypeEnum | null, totalAmountCents: any, currency?: CurrencyEnum | null, refundableAmountCents: any, creditableAmountCents: any, voidable: boolean, paymentDisputeLostAt?: any | null, integrationSyncable: boolean, externalIntegrationId?: string | null, taxProviderVoidable: boolean, integrationHubspotSyncable: boolean, associatedActiveWalletPresent: boolean, issuingDate: any, externalHubspotIntegrationId?: string | null, integrationSalesforceSyncable: boolean, externalSalesforceIntegrationId?: string | null, subTotalExcludingTaxesAmountCents: any, subTotalIncludingTaxesAmountCents: any, allChargesHaveFees: boolean, versionNumber: number, paymentDueDate: any, paymentOverdue: boolean, totalPaidAmountCents: any, couponsAmountCents: any, creditNotesAmountCents: any, totalDueAmountCents: any, prepaidCreditAmountCents: any, progressiveBillingCreditAmountCents: any, errorDetails?: Array<{ __typename?: 'ErrorDetail', errorCode: ErrorCodesEnum, errorDetails?: string | null }> | null, customer: { __typename?: 'Customer', name?: string | null, displayName: string, id: string, applicableTimezone: TimezoneEnum, accountType: CustomerAccountTypeEnum, currency?: CurrencyEnum | null, legalNumber?: string | null, legalName?: string | null, taxIdentificationNumber?: string | null, email?: string | null, addressLine1?: string | null, addressLine2?: string | null, state?: string | null, country?: CountryCode | null, city?: string | null, zipcode?: string | null, deletedAt?: any | null, netsuiteCustomer?: { __typename?: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, xeroCustomer?: { __typename?: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, hubspotCustomer?: { __typename?: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, salesforceCustomer?: { __typename?: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null } | null, anrokCustomer?: { __typename?: 'AnrokCustomer', id: string, externalAccountId?: string | null } | null }, creditNotes?: Array<{ __typename?: 'CreditNote', id: string, couponsAdjustmentAmountCents: any, number: string, subTotalExcludingTaxesAmountCents: any, currency: CurrencyEnum, totalAmountCents: any, appliedTaxes?: Array<{ __typename?: 'CreditNoteAppliedTax', id: string, amountCents: any, baseAmountCents: any, taxRate: number, taxName: string }> | null, items: Array<{ __typename?: 'CreditNoteItem', amountCents: any, amountCurrency: CurrencyEnum, fee: { __typename?: 'Fee', id: string, amountCents: any, eventsCount?: any | null, units: number, feeType: FeeTypesEnum, groupedBy: any, itemName: string, invoiceName?: string | null, appliedTaxes?: Array<{ __typename?: 'FeeAppliedTax', id: string, taxRate: number }> | null, trueUpParentFee?: { __typename?: 'Fee', id: string } | null, charge?: { __typename?: 'Charge', id: string, billableMetric: { __typename?: 'BillableMetric', id: string, name: string, aggregationType: AggregationTypeEnum } } | null, subscription?: { __typename?: 'Subscription', id: string, name?: string | null, plan: { __typename?: 'Plan', id: string, name: string, invoiceDisplayName?: string | null } } | null, chargeFilter?: { __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any } | null } }> }> | null, fees?: Array<{ __typename?: 'Fee', id: string, amountCents: any, description?: string | null, feeType: FeeTypesEnum, invoiceDisplayName?: string | null, invoiceName?: string | null, itemName: string, units: number, preciseUnitAmount: number, eventsCount?: any | null, adjustedFee: boolean, adjustedFeeType?: AdjustedFeeTypeEnum | null, succeededAt?: any | null, currency: CurrencyEnum, appliedTaxes?: Array<{ __typename?: 'FeeAppliedTax', id: string, taxRate: number }> | null, trueUpFee?: { __typename?: 'Fee', id: string } | null, trueUpParentFee?: { __typename?: 'Fee', id: string } | null, charge?: { __typename?: 'Charge', id: string, payInAdvance: boolean, invoiceDisplayName?: string | null, chargeModel: ChargeModelEnum, minAmountCents: any, prorated: boolean, billableMetric: { __typename?: 'BillableMetric', id: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean } } | null, chargeFilter?: { __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any } | null, amountDetails?: { __typename?: 'FeeAmountDetails', freeUnits?: string | null, fixedFeeUnitAmount?: string | null, flatUnitAmount?: string | null, perUnitAmount?: string | null, perUnitTotalAmount?: string | null, paidUnits?: string | null, perPackageSize?: number | null, perPackageUnitAmount?: string | null, fixedFeeTotalAmount?: string | null, freeEvents?: number | null, minMaxAdjustmentTotalAmount?: string | null, paidEvents?: number | null, rate?: string | null, units?: string | null, graduatedRanges?: Array<{ __typename?: 'FeeAmountDetailsGraduatedRange', toValue?: any | null, flatUnitAmount?: string | null, fromValue?: any | null, perUnitAmount?: string | null, perUnitTotalAmount?: string | null, totalWithFlatAmount?: string | null, units?: string | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'FeeAmountDetailsGraduatedPercentageRange', toValue?: any | null, flatUnitAmount?: string | null, fromValue?: any | null, perUnitTotalAmount?: string | null, rate?: string | null, totalWithFlatAmount?: string | null, units?: string | null }> | null } | null }> | null, invoiceSubscriptions?: Array<{ __typename?: 'InvoiceSubscription', fromDatetime?: any | null, toDatetime?: any | null, chargesFromDatetime?: any | null, chargesToDatetime?: any | null, inAdvanceChargesFromDatetime?: any | null, inAdvanceChargesToDatetime?: any | null, acceptNewChargeFees: boolean, subscription: { __typename?: 'Subscription', id: string, name?: string | null, plan: { __typename?: 'Plan', id: string, name: string, interval: PlanInterval, amountCents: any, amountCurrency: CurrencyEnum, invoiceDisplayName?: string | null } }, fees?: Array<{ __typename?: 'Fee', id: string, amountCents: any, invoiceName?: string | null, invoiceDisplayName?: string | null, units: number, groupedBy: any, description?: string | null, feeType: FeeTypesEnum, itemName: string, preciseUnitAmount: number, eventsCount?: any | null, adjustedFee: boolean, adjustedFeeType?: AdjustedFeeTypeEnum | null, succeededAt?: any | null, currency: CurrencyEnum, subscription?: { __typename?: 'Subscription', id: string, name?: string | null, plan: { __typename?: 'Plan', id: string, name: string, invoiceDisplayName?: string | null, interval: PlanInterval } } | null, charge?: { __typename?: 'Charge', id: string, payInAdvance: boolean, invoiceDisplayName?: string | null, chargeModel: ChargeModelEnum, minAmountCents: any, prorated: boolean, billableMetric: { __typename?: 'BillableMetric', id: string, name: string, aggregationType: AggregationTypeEnum, recurring: boolean } } | null, chargeFilter?: { __typename?: 'ChargeFilter', invoiceDisplayName?: string | null, values: any } | null, appliedTaxes?: Array<{ __typename?: 'FeeAppliedTax', id: string, taxRate: number }> | null, trueUpFee?: { __typename?: 'Fee', id: string } | null, trueUpParentFee?: { __typename?: 'Fee', id: string } | null, amountDetails?: { __typename?: 'FeeAmountDetails', freeUnits?: string | null, fixedFeeUnitAmount?: string | null, flatUnitAmount?: string | null, perUnitAmount?: string | null, perUnitTotalAmount?: string | null, paidUnits?: string | null, perPackageSize?: number | null, perPackageUnitAmount?: string | null, fixedFeeTotalAmount?: string | null, freeEvents?: number | null, minMaxAdjustmentTotalAmount?: string | null, paidEvents?: number | null, rate?: string | null, units?: string | null, graduatedRanges?: Array<{ __typename?: 'FeeAmountDetailsGraduatedRange', toValue?: any | null, flatUnitAmount?: string | null, fromValue?: any | null, perUnitAmount?: string | null, perUnitTotalAmount?: string | null, totalWithFlatAmount?: string | null, units?: string | null }> | null, graduatedPercentageRanges?: Array<{ __typename?: 'FeeAmountDetailsGraduatedPercentageRange', toValue?: any | null, flatUnitAmount?: string | null, fromValue?: any | null, perUnitTotalAmount?: string | null, rate?: string | null, totalWithFlatAmount?: string | null, units?: string | null }> | null } | null }> | null, invoice: { __typename?: 'Invoice', id: string, status: InvoiceStatusTypeEnum } }> | null, appliedTaxes?: Array<{ __typename?: 'InvoiceAppliedTax', id: string, amountCents: any, feesAmountCents: any, taxableAmountCents: any, taxRate: number, taxName: string, enumedTaxCode?: InvoiceAppliedTaxOnWholeInvoiceCodeEnum | null }> | null };
 
 export type GetInvoiceDetailsQueryVariables = Exact<{
@@ -9268,6 +10208,7 @@ export type LastPaymentRequestFragment = { __typename?: 'PaymentRequest', create
 
 export type GetRequestOverduePaymentInfosQueryVariables = Exact<{
   id: Scalars['ID']['input'];
+  includeChildCustomers?: InputMaybe<Scalars['Boolean']['input']>;
 }>;
 
 
@@ -9287,11 +10228,31 @@ export type CustomersQueryVariables = Exact<{
   limit?: InputMaybe<Scalars['Int']['input']>;
   searchTerm?: InputMaybe<Scalars['String']['input']>;
   accountType?: InputMaybe<Array<CustomerAccountTypeEnum> | CustomerAccountTypeEnum>;
-}>;
-
+  country?: InputMaybe<CountryCode>;
+  currency?: InputMaybe<CurrencyEnum>;
+  planCode?: InputMaybe<Scalars['String']['input']>;
+  subscriptionStatus?: InputMaybe<Array<StatusTypeEnum> | StatusTypeEnum>;
+  paymentProvider?: InputMaybe<ProviderTypeEnum>;
+  hasOverdueInvoices?: InputMaybe<Scalars['Boolean']['input']>;
+  walletBalanceBelow?: InputMaybe<Scalars['Float']['input']>;
+  hasTaxIdentificationNumber?: InputMaybe<Scalars['Boolean']['input']>;
+  createdAtFrom?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
+  createdAtTo?: InputMaybe<Scalars['ISO8601DateTime']['input']>;
+  metadata?: InputMaybe<Array<CustomerMetadataFilterInput> | CustomerMetadataFilterInput>;
+}>;
+
 
 export type CustomersQuery = { __typename?: 'Query', customers: { __typename?: 'CustomerCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Customer', id: string, name?: string | null, displayName: string, firstname?: string | null, lastname?: string | null, externalId: string, createdAt: any, activeSubscriptionsCount: number, addressLine1?: string | null, addressLine2?: string | null, applicableTimezone: TimezoneEnum, canEditAttributes: boolean, city?: string | null, country?: CountryCode | null, currency?: CurrencyEnum | null, email?: string | null, externalSalesforceId?: string | null, legalName?: string | null, legalNumber?: string | null, taxIdentificationNumber?: string | null, customerType?: CustomerTypeEnum | null, phone?: string | null, state?: string | null, timezone?: TimezoneEnum | null, zipcode?: string | null, accountType: CustomerAccountTypeEnum, url?: string | null, paymentProvider?: ProviderTypeEnum | null, paymentProviderCode?: string | null, shippingAddress?: { __typename?: 'CustomerAddress', addressLine1?: string | null, addressLine2?: string | null, city?: string | null, country?: CountryCode | null, state?: string | null, zipcode?: string | null } | null, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null, netsuiteCustomer?: { __typename: 'NetsuiteCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, subsidiaryId?: string | null, syncWithProvider?: boolean | null } | null, anrokCustomer?: { __typename: 'AnrokCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, xeroCustomer?: { __typename: 'XeroCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, hubspotCustomer?: { __typename: 'HubspotCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null, targetedObject?: HubspotTargetedObjectsEnum | null } | null, salesforceCustomer?: { __typename: 'SalesforceCustomer', id: string, integrationId?: string | null, externalCustomerId?: string | null, integrationCode?: string | null, integrationType?: IntegrationTypeEnum | null, syncWithProvider?: boolean | null } | null, providerCustomer?: { __typename?: 'ProviderCustomer', id: string, providerCustomerId?: string | null, syncWithProvider?: boolean | null, providerPaymentMethods?: Array<ProviderPaymentMethodsEnum> | null } | null }> } };
 
+export type GetCustomersForImportQueryVariables = Exact<{
+  page?: InputMaybe<Scalars['Int']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  externalIds?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
+
+
+export type GetCustomersForImportQuery = { __typename?: 'Query', customers: { __typename?: 'CustomerCollection', collection: Array<{ __typename?: 'Customer', id: string, externalId: string, metadata?: Array<{ __typename?: 'CustomerMetadata', id: string, key: string, value: string, displayInInvoice: boolean }> | null }> } };
+
 export type GetinviteQueryVariables = Exact<{
   token: Scalars['String']['input'];
 }>;
@@ -9424,16 +10385,17 @@ export type GetPlanForDetailsQueryVariables = Exact<{
 
 export type GetPlanForDetailsQuery = { __typename?: 'Query', plan?: { __typename?: 'Plan', id: string, name: string, code: string, draftInvoicesCount: number, activeSubscriptionsCount: number, parent?: { __typename?: 'Plan', id: string } | null } | null };
 
-export type PlanItemFragment = { __typename?: 'Plan', id: string, name: string, code: string, chargesCount: number, activeSubscriptionsCount: number, createdAt: any, draftInvoicesCount: number };
+export type PlanItemFragment = { __typename?: 'Plan', id: string, name: string, code: string, chargesCount: number, activeSubscriptionsCount: number, createdAt: any, amountCurrency: CurrencyEnum, draftInvoicesCount: number, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCurrency: CurrencyEnum }> | null };
 
 export type PlansQueryVariables = Exact<{
   page?: InputMaybe<Scalars['Int']['input']>;
   limit?: InputMaybe<Scalars['Int']['input']>;
   searchTerm?: InputMaybe<Scalars['String']['input']>;
+  isCurrencyVariant?: InputMaybe<Scalars['Boolean']['input']>;
 }>;
 
 
-export type PlansQuery = { __typename?: 'Query', plans: { __typename?: 'PlanCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Plan', id: string, name: string, code: string, chargesCount: number, activeSubscriptionsCount: number, createdAt: any, draftInvoicesCount: number }> } };
+export type PlansQuery = { __typename?: 'Query', plans: { __typename?: 'PlanCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Plan', id: string, name: string, code: string, chargesCount: number, activeSubscriptionsCount: number, createdAt: any, amountCurrency: CurrencyEnum, draftInvoicesCount: number, currencyVariants?: Array<{ __typename?: 'Plan', id: string, amountCurrency: CurrencyEnum }> | null }> } };
 
 export type GetSubscriptionForDetailsQueryVariables = Exact<{
   subscriptionId: Scalars['ID']['input'];
@@ -9442,6 +10404,13 @@ export type GetSubscriptionForDetailsQueryVariables = Exact<{
 
 export type GetSubscriptionForDetailsQuery = { __typename?: 'Query', subscription?: { __typename?: 'Subscription', id: string, name?: string | null, status?: StatusTypeEnum | null, externalId: string, plan: { __typename?: 'Plan', id: string, name: string, code: string, parent?: { __typename?: 'Plan', id: string, name: string, code: string } | null }, customer: { __typename?: 'Customer', id: string } } | null };
 
+export type GetTaxForDetailsQueryVariables = Exact<{
+  id: Scalars['ID']['input'];
+}>;
+
+
+export type GetTaxForDetailsQuery = { __typename?: 'Query', tax?: { __typename?: 'Tax', id: string, name: string, code: string, description?: string | null, rate: number, autoGenerated: boolean, customersCount: number, plansCount: number, addOnsCount: number, chargesCount: number, rateChanges: Array<{ __typename?: 'TaxRateChange', id: string, rate: number, previousRate: number, effectiveAt: any }> } | null };
+
 export type CreatePasswordResetMutationVariables = Exact<{
   input: CreatePasswordResetInput;
 }>;
@@ -9884,7 +10853,16 @@ export type GetStripeIntegrationsListQueryVariables = Exact<{
 
 export type GetStripeIntegrationsListQuery = { __typename?: 'Query', paymentProviders?: { __typename?: 'PaymentProviderCollection', collection: Array<{ __typename?: 'AdyenProvider' } | { __typename?: 'CashfreeProvider' } | { __typename?: 'GocardlessProvider' } | { __typename?: 'MoneyhashProvider' } | { __typename?: 'StripeProvider', id: string, name: string, code: string, secretKey?: any | null }> } | null };
 
-export type TaxItemForTaxSettingsFragment = { __typename?: 'Tax', id: string, code: string, name: string, rate: number, autoGenerated: boolean, customersCount: number };
+export type GetTaxesForTaxAssignmentsQueryVariables = Exact<{
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  page?: InputMaybe<Scalars['Int']['input']>;
+  rate?: InputMaybe<Scalars['Float']['input']>;
+}>;
+
+
+export type GetTaxesForTaxAssignmentsQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Tax', id: string, appliedToOrganization: boolean, name: string, code: string, rate: number, customersCount: number, plansCount: number, chargesCount: number, addOnsCount: number }> } };
+
+export type TaxItemForTaxSettingsFragment = { __typename?: 'Tax', id: string, code: string, name: string, rate: number, autoGenerated: boolean, customersCount: number, rateChanges: Array<{ __typename?: 'TaxRateChange', id: string, rate: number, effectiveAt: any }> };
 
 export type GetTaxesSettingsInformationsQueryVariables = Exact<{
   limit?: InputMaybe<Scalars['Int']['input']>;
@@ -9892,7 +10870,7 @@ export type GetTaxesSettingsInformationsQueryVariables = Exact<{
 }>;
 
 
-export type GetTaxesSettingsInformationsQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number, autoGenerated: boolean, customersCount: number }> } };
+export type GetTaxesSettingsInformationsQuery = { __typename?: 'Query', taxes: { __typename?: 'TaxCollection', metadata: { __typename?: 'CollectionMetadata', currentPage: number, totalPages: number }, collection: Array<{ __typename?: 'Tax', id: string, code: string, name: string, rate: number, autoGenerated: boolean, customersCount: number, rateChanges: Array<{ __typename?: 'TaxRateChange', id: string, rate: number, effectiveAt: any }> }> } };
 
 export type XeroIntegrationDetailsFragment = { __typename?: 'XeroIntegration', id: string, name: string, code: string, connectionId: string, hasMappingsConfigured?: boolean | null, syncCreditNotes?: boolean | null, syncInvoices?: boolean | null, syncPayments?: boolean | null };
 
@@ -9973,6 +10951,20 @@ export const RevenueStreamDataForOverviewSectionFragmentDoc = gql`
   usageBasedFeeAmountCents
 }
     `;
+export const ChargesForBillableMetricImpactFragmentDoc = gql`
+    fragment ChargesForBillableMetricImpact on Plan {
+  id
+  charges {
+    id
+    billableMetric {
+      id
+    }
+    filters {
+      values
+    }
+  }
+}
+    `;
 export const DeleteBillableMetricDialogFragmentDoc = gql`
     fragment DeleteBillableMetricDialog on BillableMetric {
   id
@@ -9999,6 +10991,19 @@ export const DeleteCouponFragmentDoc = gql`
   appliedCouponsCount
 }
     `;
+export const CouponCodeItemFragmentDoc = gql`
+    fragment CouponCodeItem on CouponCode {
+  id
+  code
+  createdAt
+  redeemedAt
+  customer {
+    id
+    externalId
+    displayName
+  }
+}
+    `;
 export const TerminateCouponFragmentDoc = gql`
     fragment TerminateCoupon on Coupon {
   id
@@ -10332,6 +11337,20 @@ export const EditCustomerVatRateFragmentDoc = gql`
   }
 }
     `;
+export const CustomerActivityForTimelineFragmentDoc = gql`
+    fragment CustomerActivityForTimeline on CustomerActivity {
+  id
+  activityType
+  occurredAt
+  resourceId
+  invoiceId
+  label
+  previousLabel
+  amountCents
+  currency
+  changedAttributes
+}
+    `;
 export const CreditNoteForVoidCreditNoteDialogFragmentDoc = gql`
     fragment CreditNoteForVoidCreditNoteDialog on CreditNote {
   id
@@ -10339,6 +11358,72 @@ export const CreditNoteForVoidCreditNoteDialogFragmentDoc = gql`
   currency
 }
     `;
+export const CustomerForMergeFragmentDoc = gql`
+    fragment CustomerForMerge on Customer {
+  id
+  displayName
+  externalId
+  name
+  legalName
+  email
+  phone
+  taxIdentificationNumber
+  addressLine1
+  addressLine2
+  zipcode
+  city
+  state
+  country
+  currency
+  timezone
+  paymentProvider
+  subscriptions(status: [active, pending]) {
+    id
+    name
+    externalId
+    plan {
+      id
+      name
+    }
+  }
+  appliedCoupons {
+    id
+    coupon {
+      id
+      name
+    }
+  }
+  ...DeleteCustomerDialog
+}
+    ${DeleteCustomerDialogFragmentDoc}`;
+export const CustomerGroupMemberItemFragmentDoc = gql`
+    fragment CustomerGroupMemberItem on CustomerGroupMember {
+  id
+  currency
+  currentUsageAmountCents
+  outstandingAmountCents
+  overdueAmountCents
+  overdueInvoicesCount
+  walletsBalanceCents
+  customer {
+    id
+    displayName
+    externalId
+    activeSubscriptionsCount
+    subscriptions(status: [active, pending]) {
+      id
+      name
+      status
+      startedAt
+      subscriptionAt
+      plan {
+        id
+        name
+      }
+    }
+  }
+}
+    `;
 export const AppliedCouponCaptionFragmentDoc = gql`
     fragment AppliedCouponCaption on AppliedCoupon {
   id
@@ -10369,6 +11454,13 @@ export const CustomerAppliedCouponsFragmentDoc = gql`
   }
 }
     ${CustomerCouponFragmentDoc}`;
+export const CustomerSegmentItemFragmentDoc = gql`
+    fragment CustomerSegmentItem on CustomerSegment {
+  id
+  name
+  filters
+}
+    `;
 export const CustomerUsageForUsageDetailsFragmentDoc = gql`
     fragment CustomerUsageForUsageDetails on CustomerUsage {
   fromDatetime
@@ -10614,6 +11706,18 @@ export const PlanSubscriptionListItemForSubscriptionListFragmentDoc = gql`
   }
 }
     `;
+export const PlanVersionImpactedSubscriptionFragmentDoc = gql`
+    fragment PlanVersionImpactedSubscription on Subscription {
+  id
+  name
+  externalId
+  customer {
+    id
+    displayName
+    externalId
+  }
+}
+    `;
 export const EditOrganizationInformationsDialogFragmentDoc = gql`
     fragment EditOrganizationInformationsDialog on CurrentOrganization {
   id
@@ -11446,6 +12550,11 @@ export const TaxFormQueryShapeFragmentDoc = gql`
     fragment TaxFormQueryShape on Tax {
   ...TaxForm
   autoGenerated
+  rateChanges {
+    id
+    rate
+    effectiveAt
+  }
 }
     ${TaxFormFragmentDoc}`;
 export const MembershipPermissionsFragmentDoc = gql`
@@ -11565,6 +12674,7 @@ export const AddOnItemFragmentDoc = gql`
   amountCurrency
   amountCents
   customersCount
+  invoicesCount
   createdAt
 }
     `;
@@ -11582,12 +12692,15 @@ export const CouponDetailsFragmentDoc = gql`
   amountCurrency
   percentageRate
   code
+  expiration
   expirationAt
   name
   frequency
   reusable
   couponType
   status
+  codesCount
+  redeemedCodesCount
   billableMetrics {
     id
     name
@@ -11727,6 +12840,156 @@ export const DynamicChargeFragmentDoc = gql`
   groupedBy
 }
     `;
+export const ChargeTemplateItemFragmentDoc = gql`
+    fragment ChargeTemplateItem on ChargeTemplate {
+  id
+  name
+  chargeModel
+  invoiceable
+  prorated
+  properties {
+    ...GraduatedCharge
+    ...GraduatedPercentageCharge
+    ...VolumeRanges
+    ...PackageCharge
+    ...StandardCharge
+    ...PercentageCharge
+    ...CustomCharge
+    ...DynamicCharge
+  }
+  filters {
+    invoiceDisplayName
+    values
+    properties {
+      ...GraduatedCharge
+      ...GraduatedPercentageCharge
+      ...VolumeRanges
+      ...PackageCharge
+      ...StandardCharge
+      ...PercentageCharge
+      ...CustomCharge
+      ...DynamicCharge
+    }
+  }
+  billableMetric {
+    id
+    ...BillableMetricForPlan
+  }
+  plans {
+    id
+    name
+  }
+}
+    ${GraduatedChargeFragmentDoc}
+${GraduatedPercentageChargeFragmentDoc}
+${VolumeRangesFragmentDoc}
+${PackageChargeFragmentDoc}
+${StandardChargeFragmentDoc}
+${PercentageChargeFragmentDoc}
+${CustomChargeFragmentDoc}
+${DynamicChargeFragmentDoc}
+${BillableMetricForPlanFragmentDoc}`;
+export const PlanForSubscriptionOverridesFragmentDoc = gql`
+    fragment PlanForSubscriptionOverrides on Plan {
+  id
+  name
+  description
+  invoiceDisplayName
+  amountCents
+  amountCurrency
+  trialPeriod
+  taxes {
+    id
+    code
+  }
+  minimumCommitment {
+    amountCents
+    invoiceDisplayName
+    taxes {
+      id
+      code
+    }
+  }
+  usageThresholds {
+    id
+    amountCents
+    recurring
+    thresholdDisplayName
+  }
+  charges {
+    id
+    invoiceDisplayName
+    minAmountCents
+    billableMetric {
+      id
+      name
+    }
+    taxes {
+      id
+      code
+    }
+    properties {
+      ...GraduatedCharge
+      ...GraduatedPercentageCharge
+      ...VolumeRanges
+      ...PackageCharge
+      ...StandardCharge
+      ...PercentageCharge
+      ...CustomCharge
+      ...DynamicCharge
+    }
+    filters {
+      invoiceDisplayName
+      values
+      properties {
+        ...GraduatedCharge
+        ...GraduatedPercentageCharge
+        ...VolumeRanges
+        ...PackageCharge
+        ...StandardCharge
+        ...PercentageCharge
+        ...CustomCharge
+        ...DynamicCharge
+      }
+    }
+  }
+}
+    ${GraduatedChargeFragmentDoc}
+${GraduatedPercentageChargeFragmentDoc}
+${VolumeRangesFragmentDoc}
+${PackageChargeFragmentDoc}
+${StandardChargeFragmentDoc}
+${PercentageChargeFragmentDoc}
+${CustomChargeFragmentDoc}
+${DynamicChargeFragmentDoc}`;
+export const TaxForEffectiveTaxesFragmentDoc = gql`
+    fragment TaxForEffectiveTaxes on Tax {
+  id
+  name
+  code
+  rate
+}
+    `;
+export const TaxForTaxAssignmentsDrawerFragmentDoc = gql`
+    fragment TaxForTaxAssignmentsDrawer on Tax {
+  id
+  name
+  code
+  rate
+  customersCount
+  plansCount
+  chargesCount
+  addOnsCount
+}
+    `;
+export const TaxRateChangeItemFragmentDoc = gql`
+    fragment TaxRateChangeItem on TaxRateChange {
+  id
+  rate
+  previousRate
+  effectiveAt
+}
+    `;
 export const TaxForPlanChargeAccordionFragmentDoc = gql`
     fragment TaxForPlanChargeAccordion on Tax {
   id
@@ -11838,17 +13101,61 @@ export const PlanForFixedFeeSectionFragmentDoc = gql`
   invoiceDisplayName
 }
     `;
-export const EditPlanFragmentDoc = gql`
-    fragment EditPlan on Plan {
+export const PlanForCurrencyVariantsSectionFragmentDoc = gql`
+    fragment PlanForCurrencyVariantsSection on Plan {
   id
-  name
-  code
-  description
-  interval
-  payInAdvance
-  invoiceDisplayName
-  amountCents
-  amountCurrency
+  currencyVariants {
+    id
+    amountCents
+    amountCurrency
+    currencyVariantExchangeRate
+    currencyVariantRoundingRule
+    charges {
+      id
+      properties {
+        ...GraduatedCharge
+        ...GraduatedPercentageCharge
+        ...VolumeRanges
+        ...PackageCharge
+        ...StandardCharge
+        ...PercentageCharge
+        ...CustomCharge
+        ...DynamicCharge
+      }
+      filters {
+        properties {
+          ...GraduatedCharge
+          ...GraduatedPercentageCharge
+          ...VolumeRanges
+          ...PackageCharge
+          ...StandardCharge
+          ...PercentageCharge
+          ...CustomCharge
+          ...DynamicCharge
+        }
+      }
+    }
+  }
+}
+    ${GraduatedChargeFragmentDoc}
+${GraduatedPercentageChargeFragmentDoc}
+${VolumeRangesFragmentDoc}
+${PackageChargeFragmentDoc}
+${StandardChargeFragmentDoc}
+${PercentageChargeFragmentDoc}
+${CustomChargeFragmentDoc}
+${DynamicChargeFragmentDoc}`;
+export const EditPlanFragmentDoc = gql`
+    fragment EditPlan on Plan {
+  id
+  name
+  code
+  description
+  interval
+  payInAdvance
+  invoiceDisplayName
+  amountCents
+  amountCurrency
   trialPeriod
   subscriptionsCount
   billChargesMonthly
@@ -11877,6 +13184,9 @@ export const EditPlanFragmentDoc = gql`
       code
       ...BillableMetricForPlan
     }
+    chargeTemplate {
+      id
+    }
     ...ChargeAccordion
     chargeModel
   }
@@ -11889,13 +13199,15 @@ export const EditPlanFragmentDoc = gql`
   ...PlanForChargeAccordion
   ...PlanForSettingsSection
   ...PlanForFixedFeeSection
+  ...PlanForCurrencyVariantsSection
 }
     ${TaxForPlanAndChargesInPlanFormFragmentDoc}
 ${BillableMetricForPlanFragmentDoc}
 ${ChargeAccordionFragmentDoc}
 ${PlanForChargeAccordionFragmentDoc}
 ${PlanForSettingsSectionFragmentDoc}
-${PlanForFixedFeeSectionFragmentDoc}`;
+${PlanForFixedFeeSectionFragmentDoc}
+${PlanForCurrencyVariantsSectionFragmentDoc}`;
 export const AddSubscriptionPlanFragmentDoc = gql`
     fragment AddSubscriptionPlan on Plan {
   id
@@ -12009,6 +13321,18 @@ export const AddCustomerDrawerFragmentDoc = gql`
   ...CustomerForExternalAppsAccordion
 }
     ${CustomerForExternalAppsAccordionFragmentDoc}`;
+export const EditCustomerParentFragmentDoc = gql`
+    fragment EditCustomerParent on Customer {
+  id
+  externalId
+  childCustomersCount
+  parentCustomer {
+    id
+    displayName
+    externalId
+  }
+}
+    `;
 export const CustomerMainInfosFragmentDoc = gql`
     fragment CustomerMainInfos on Customer {
   id
@@ -12078,8 +13402,10 @@ export const CustomerMainInfosFragmentDoc = gql`
     key
     value
   }
+  childCustomersCount
+  ...EditCustomerParent
 }
-    `;
+    ${EditCustomerParentFragmentDoc}`;
 export const CustomerDetailsFragmentDoc = gql`
     fragment CustomerDetails on Customer {
   id
@@ -12097,11 +13423,20 @@ export const CustomerDetailsFragmentDoc = gql`
   applicableTimezone
   hasOverdueInvoices
   accountType
+  childCustomersCount
   ...AddCustomerDrawer
   ...CustomerMainInfos
 }
     ${AddCustomerDrawerFragmentDoc}
 ${CustomerMainInfosFragmentDoc}`;
+export const CustomerForDuplicatesListFragmentDoc = gql`
+    fragment CustomerForDuplicatesList on Customer {
+  id
+  displayName
+  externalId
+  email
+}
+    `;
 export const InvoiceDetailsForInvoiceOverviewFragmentDoc = gql`
     fragment InvoiceDetailsForInvoiceOverview on Invoice {
   id
@@ -12744,6 +14079,11 @@ export const PlanItemFragmentDoc = gql`
   chargesCount
   activeSubscriptionsCount
   createdAt
+  amountCurrency
+  currencyVariants {
+    id
+    amountCurrency
+  }
   ...DeletePlanDialog
 }
     ${DeletePlanDialogFragmentDoc}`;
@@ -13176,6 +14516,11 @@ export const TaxItemForTaxSettingsFragmentDoc = gql`
   name
   rate
   autoGenerated
+  rateChanges {
+    id
+    rate
+    effectiveAt
+  }
   ...DeleteTax
 }
     ${DeleteTaxFragmentDoc}`;
@@ -13274,6 +14619,108 @@ export type UserIdentifierQueryHookResult = ReturnType<typeof useUserIdentifierQ
 export type UserIdentifierLazyQueryHookResult = ReturnType<typeof useUserIdentifierLazyQuery>;
 export type UserIdentifierSuspenseQueryHookResult = ReturnType<typeof useUserIdentifierSuspenseQuery>;
 export type UserIdentifierQueryResult = Apollo.QueryResult<UserIdentifierQuery, UserIdentifierQueryVariables>;
+export const GetAddOnAmountChangesDocument = gql`
+    query getAddOnAmountChanges($addOnId: ID!, $page: Int, $limit: Int) {
+  addOnAmountChanges(addOnId: $addOnId, page: $page, limit: $limit) {
+    collection {
+      id
+      amountCents
+      amountCurrency
+      previousAmountCents
+      previousAmountCurrency
+      createdAt
+      user {
+        id
+        email
+      }
+    }
+    metadata {
+      currentPage
+      totalPages
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetAddOnAmountChangesQuery__
+ *
+ * To run a query within a React component, call `useGetAddOnAmountChangesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetAddOnAmountChangesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetAddOnAmountChangesQuery({
+ *   variables: {
+ *      addOnId: // value for 'addOnId'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetAddOnAmountChangesQuery(baseOptions: Apollo.QueryHookOptions<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables> & ({ variables: GetAddOnAmountChangesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables>(GetAddOnAmountChangesDocument, options);
+      }
+export function useGetAddOnAmountChangesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables>(GetAddOnAmountChangesDocument, options);
+        }
+export function useGetAddOnAmountChangesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables>(GetAddOnAmountChangesDocument, options);
+        }
+export type GetAddOnAmountChangesQueryHookResult = ReturnType<typeof useGetAddOnAmountChangesQuery>;
+export type GetAddOnAmountChangesLazyQueryHookResult = ReturnType<typeof useGetAddOnAmountChangesLazyQuery>;
+export type GetAddOnAmountChangesSuspenseQueryHookResult = ReturnType<typeof useGetAddOnAmountChangesSuspenseQuery>;
+export type GetAddOnAmountChangesQueryResult = Apollo.QueryResult<GetAddOnAmountChangesQuery, GetAddOnAmountChangesQueryVariables>;
+export const GetAddOnRevenuesDocument = gql`
+    query getAddOnRevenues($addOnId: ID!, $months: Int) {
+  addOnRevenues(addOnId: $addOnId, months: $months) {
+    collection {
+      amountCents
+      currency
+      month
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetAddOnRevenuesQuery__
+ *
+ * To run a query within a React component, call `useGetAddOnRevenuesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetAddOnRevenuesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetAddOnRevenuesQuery({
+ *   variables: {
+ *      addOnId: // value for 'addOnId'
+ *      months: // value for 'months'
+ *   },
+ * });
+ */
+export function useGetAddOnRevenuesQuery(baseOptions: Apollo.QueryHookOptions<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables> & ({ variables: GetAddOnRevenuesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables>(GetAddOnRevenuesDocument, options);
+      }
+export function useGetAddOnRevenuesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables>(GetAddOnRevenuesDocument, options);
+        }
+export function useGetAddOnRevenuesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables>(GetAddOnRevenuesDocument, options);
+        }
+export type GetAddOnRevenuesQueryHookResult = ReturnType<typeof useGetAddOnRevenuesQuery>;
+export type GetAddOnRevenuesLazyQueryHookResult = ReturnType<typeof useGetAddOnRevenuesLazyQuery>;
+export type GetAddOnRevenuesSuspenseQueryHookResult = ReturnType<typeof useGetAddOnRevenuesSuspenseQuery>;
+export type GetAddOnRevenuesQueryResult = Apollo.QueryResult<GetAddOnRevenuesQuery, GetAddOnRevenuesQueryVariables>;
 export const DeleteAddOnDocument = gql`
     mutation deleteAddOn($input: DestroyAddOnInput!) {
   destroyAddOn(input: $input) {
@@ -13406,6 +14853,100 @@ export type GetGoogleAuthUrlQueryHookResult = ReturnType<typeof useGetGoogleAuth
 export type GetGoogleAuthUrlLazyQueryHookResult = ReturnType<typeof useGetGoogleAuthUrlLazyQuery>;
 export type GetGoogleAuthUrlSuspenseQueryHookResult = ReturnType<typeof useGetGoogleAuthUrlSuspenseQuery>;
 export type GetGoogleAuthUrlQueryResult = Apollo.QueryResult<GetGoogleAuthUrlQuery, GetGoogleAuthUrlQueryVariables>;
+export const GetBillableMetricImpactDocument = gql`
+    query getBillableMetricImpact($id: ID!, $integrationsLimit: Int) {
+  billableMetric(id: $id) {
+    id
+    filters {
+      key
+      values
+    }
+    plans {
+      id
+      name
+      code
+      ...ChargesForBillableMetricImpact
+    }
+    overriddenSubscriptions {
+      id
+      name
+      externalId
+      customer {
+        id
+        displayName
+      }
+      plan {
+        id
+        ...ChargesForBillableMetricImpact
+      }
+    }
+    coupons {
+      id
+      name
+      code
+    }
+    integrationMappings {
+      id
+      integrationId
+      externalId
+      externalName
+    }
+  }
+  integrations(limit: $integrationsLimit) {
+    collection {
+      ... on NetsuiteIntegration {
+        __typename
+        id
+        name
+      }
+      ... on XeroIntegration {
+        __typename
+        id
+        name
+      }
+      ... on AnrokIntegration {
+        __typename
+        id
+        name
+      }
+    }
+  }
+}
+    ${ChargesForBillableMetricImpactFragmentDoc}`;
+
+/**
+ * __useGetBillableMetricImpactQuery__
+ *
+ * To run a query within a React component, call `useGetBillableMetricImpactQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetBillableMetricImpactQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetBillableMetricImpactQuery({
+ *   variables: {
+ *      id: // value for 'id'
+ *      integrationsLimit: // value for 'integrationsLimit'
+ *   },
+ * });
+ */
+export function useGetBillableMetricImpactQuery(baseOptions: Apollo.QueryHookOptions<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables> & ({ variables: GetBillableMetricImpactQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables>(GetBillableMetricImpactDocument, options);
+      }
+export function useGetBillableMetricImpactLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables>(GetBillableMetricImpactDocument, options);
+        }
+export function useGetBillableMetricImpactSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables>(GetBillableMetricImpactDocument, options);
+        }
+export type GetBillableMetricImpactQueryHookResult = ReturnType<typeof useGetBillableMetricImpactQuery>;
+export type GetBillableMetricImpactLazyQueryHookResult = ReturnType<typeof useGetBillableMetricImpactLazyQuery>;
+export type GetBillableMetricImpactSuspenseQueryHookResult = ReturnType<typeof useGetBillableMetricImpactSuspenseQuery>;
+export type GetBillableMetricImpactQueryResult = Apollo.QueryResult<GetBillableMetricImpactQuery, GetBillableMetricImpactQueryVariables>;
 export const GetBillableMetricToDeleteDocument = gql`
     query getBillableMetricToDelete($id: ID!) {
   billableMetric(id: $id) {
@@ -13567,90 +15108,325 @@ export type GetPlansForCouponsQueryHookResult = ReturnType<typeof useGetPlansFor
 export type GetPlansForCouponsLazyQueryHookResult = ReturnType<typeof useGetPlansForCouponsLazyQuery>;
 export type GetPlansForCouponsSuspenseQueryHookResult = ReturnType<typeof useGetPlansForCouponsSuspenseQuery>;
 export type GetPlansForCouponsQueryResult = Apollo.QueryResult<GetPlansForCouponsQuery, GetPlansForCouponsQueryVariables>;
-export const GetCouponToDeleteDocument = gql`
-    query getCouponToDelete($id: ID!) {
-  coupon(id: $id) {
-    ...DeleteCoupon
+export const GetCouponAnalyticsDocument = gql`
+    query getCouponAnalytics($couponId: ID!, $months: Int) {
+  couponAnalytics(couponId: $couponId, months: $months) {
+    collection {
+      month
+      activeAppliedCouponsCount
+      discounts {
+        amountCents
+        currency
+      }
+    }
   }
 }
-    ${DeleteCouponFragmentDoc}`;
+    `;
 
 /**
- * __useGetCouponToDeleteQuery__
+ * __useGetCouponAnalyticsQuery__
  *
- * To run a query within a React component, call `useGetCouponToDeleteQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetCouponToDeleteQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * To run a query within a React component, call `useGetCouponAnalyticsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCouponAnalyticsQuery` returns an object from Apollo Client that contains loading, error, and data properties
  * you can use to render your UI.
  *
  * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useGetCouponToDeleteQuery({
+ * const { data, loading, error } = useGetCouponAnalyticsQuery({
  *   variables: {
- *      id: // value for 'id'
+ *      couponId: // value for 'couponId'
+ *      months: // value for 'months'
  *   },
  * });
  */
-export function useGetCouponToDeleteQuery(baseOptions: Apollo.QueryHookOptions<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables> & ({ variables: GetCouponToDeleteQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+export function useGetCouponAnalyticsQuery(baseOptions: Apollo.QueryHookOptions<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables> & ({ variables: GetCouponAnalyticsQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useQuery<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>(GetCouponToDeleteDocument, options);
+        return Apollo.useQuery<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables>(GetCouponAnalyticsDocument, options);
       }
-export function useGetCouponToDeleteLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>) {
+export function useGetCouponAnalyticsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables>) {
           const options = {...defaultOptions, ...baseOptions}
-          return Apollo.useLazyQuery<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>(GetCouponToDeleteDocument, options);
+          return Apollo.useLazyQuery<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables>(GetCouponAnalyticsDocument, options);
         }
-export function useGetCouponToDeleteSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>) {
+export function useGetCouponAnalyticsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables>) {
           const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
-          return Apollo.useSuspenseQuery<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>(GetCouponToDeleteDocument, options);
-        }
-export type GetCouponToDeleteQueryHookResult = ReturnType<typeof useGetCouponToDeleteQuery>;
-export type GetCouponToDeleteLazyQueryHookResult = ReturnType<typeof useGetCouponToDeleteLazyQuery>;
-export type GetCouponToDeleteSuspenseQueryHookResult = ReturnType<typeof useGetCouponToDeleteSuspenseQuery>;
-export type GetCouponToDeleteQueryResult = Apollo.QueryResult<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>;
-export const DeleteCouponDocument = gql`
-    mutation deleteCoupon($input: DestroyCouponInput!) {
-  destroyCoupon(input: $input) {
-    id
+          return Apollo.useSuspenseQuery<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables>(GetCouponAnalyticsDocument, options);
+        }
+export type GetCouponAnalyticsQueryHookResult = ReturnType<typeof useGetCouponAnalyticsQuery>;
+export type GetCouponAnalyticsLazyQueryHookResult = ReturnType<typeof useGetCouponAnalyticsLazyQuery>;
+export type GetCouponAnalyticsSuspenseQueryHookResult = ReturnType<typeof useGetCouponAnalyticsSuspenseQuery>;
+export type GetCouponAnalyticsQueryResult = Apollo.QueryResult<GetCouponAnalyticsQuery, GetCouponAnalyticsQueryVariables>;
+export const GetAppliedCouponsOfCouponDocument = gql`
+    query getAppliedCouponsOfCoupon($couponId: ID!, $page: Int, $limit: Int) {
+  appliedCoupons(couponId: $couponId, page: $page, limit: $limit) {
+    collection {
+      id
+      amountCentsRemaining
+      amountCurrency
+      frequency
+      frequencyDurationRemaining
+      createdAt
+      customer {
+        id
+        displayName
+        externalId
+      }
+    }
+    metadata {
+      currentPage
+      totalPages
+    }
   }
 }
     `;
-export type DeleteCouponMutationFn = Apollo.MutationFunction<DeleteCouponMutation, DeleteCouponMutationVariables>;
 
 /**
- * __useDeleteCouponMutation__
+ * __useGetAppliedCouponsOfCouponQuery__
  *
- * To run a mutation, you first call `useDeleteCouponMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useDeleteCouponMutation` returns a tuple that includes:
- * - A mutate function that you can call at any time to execute the mutation
- * - An object with fields that represent the current status of the mutation's execution
+ * To run a query within a React component, call `useGetAppliedCouponsOfCouponQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetAppliedCouponsOfCouponQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
  *
- * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const [deleteCouponMutation, { data, loading, error }] = useDeleteCouponMutation({
+ * const { data, loading, error } = useGetAppliedCouponsOfCouponQuery({
  *   variables: {
- *      input: // value for 'input'
+ *      couponId: // value for 'couponId'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
  *   },
  * });
  */
-export function useDeleteCouponMutation(baseOptions?: Apollo.MutationHookOptions<DeleteCouponMutation, DeleteCouponMutationVariables>) {
+export function useGetAppliedCouponsOfCouponQuery(baseOptions: Apollo.QueryHookOptions<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables> & ({ variables: GetAppliedCouponsOfCouponQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useMutation<DeleteCouponMutation, DeleteCouponMutationVariables>(DeleteCouponDocument, options);
+        return Apollo.useQuery<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables>(GetAppliedCouponsOfCouponDocument, options);
       }
-export type DeleteCouponMutationHookResult = ReturnType<typeof useDeleteCouponMutation>;
-export type DeleteCouponMutationResult = Apollo.MutationResult<DeleteCouponMutation>;
-export type DeleteCouponMutationOptions = Apollo.BaseMutationOptions<DeleteCouponMutation, DeleteCouponMutationVariables>;
-export const TerminateCouponDocument = gql`
-    mutation terminateCoupon($input: TerminateCouponInput!) {
-  terminateCoupon(input: $input) {
-    id
-    ...CouponDetails
-    ...CouponItem
-  }
-}
-    ${CouponDetailsFragmentDoc}
-${CouponItemFragmentDoc}`;
-export type TerminateCouponMutationFn = Apollo.MutationFunction<TerminateCouponMutation, TerminateCouponMutationVariables>;
+export function useGetAppliedCouponsOfCouponLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables>(GetAppliedCouponsOfCouponDocument, options);
+        }
+export function useGetAppliedCouponsOfCouponSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables>(GetAppliedCouponsOfCouponDocument, options);
+        }
+export type GetAppliedCouponsOfCouponQueryHookResult = ReturnType<typeof useGetAppliedCouponsOfCouponQuery>;
+export type GetAppliedCouponsOfCouponLazyQueryHookResult = ReturnType<typeof useGetAppliedCouponsOfCouponLazyQuery>;
+export type GetAppliedCouponsOfCouponSuspenseQueryHookResult = ReturnType<typeof useGetAppliedCouponsOfCouponSuspenseQuery>;
+export type GetAppliedCouponsOfCouponQueryResult = Apollo.QueryResult<GetAppliedCouponsOfCouponQuery, GetAppliedCouponsOfCouponQueryVariables>;
+export const GetCouponCodesDocument = gql`
+    query getCouponCodes($couponId: ID!, $page: Int, $limit: Int) {
+  couponCodes(couponId: $couponId, page: $page, limit: $limit) {
+    collection {
+      id
+      ...CouponCodeItem
+    }
+    metadata {
+      currentPage
+      totalPages
+    }
+  }
+}
+    ${CouponCodeItemFragmentDoc}`;
+
+/**
+ * __useGetCouponCodesQuery__
+ *
+ * To run a query within a React component, call `useGetCouponCodesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCouponCodesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCouponCodesQuery({
+ *   variables: {
+ *      couponId: // value for 'couponId'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetCouponCodesQuery(baseOptions: Apollo.QueryHookOptions<GetCouponCodesQuery, GetCouponCodesQueryVariables> & ({ variables: GetCouponCodesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCouponCodesQuery, GetCouponCodesQueryVariables>(GetCouponCodesDocument, options);
+      }
+export function useGetCouponCodesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCouponCodesQuery, GetCouponCodesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCouponCodesQuery, GetCouponCodesQueryVariables>(GetCouponCodesDocument, options);
+        }
+export function useGetCouponCodesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCouponCodesQuery, GetCouponCodesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCouponCodesQuery, GetCouponCodesQueryVariables>(GetCouponCodesDocument, options);
+        }
+export type GetCouponCodesQueryHookResult = ReturnType<typeof useGetCouponCodesQuery>;
+export type GetCouponCodesLazyQueryHookResult = ReturnType<typeof useGetCouponCodesLazyQuery>;
+export type GetCouponCodesSuspenseQueryHookResult = ReturnType<typeof useGetCouponCodesSuspenseQuery>;
+export type GetCouponCodesQueryResult = Apollo.QueryResult<GetCouponCodesQuery, GetCouponCodesQueryVariables>;
+export const GetCouponCodesForExportDocument = gql`
+    query getCouponCodesForExport($couponId: ID!, $limit: Int) {
+  couponCodes(couponId: $couponId, limit: $limit) {
+    collection {
+      id
+      ...CouponCodeItem
+    }
+  }
+}
+    ${CouponCodeItemFragmentDoc}`;
+
+/**
+ * __useGetCouponCodesForExportQuery__
+ *
+ * To run a query within a React component, call `useGetCouponCodesForExportQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCouponCodesForExportQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCouponCodesForExportQuery({
+ *   variables: {
+ *      couponId: // value for 'couponId'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetCouponCodesForExportQuery(baseOptions: Apollo.QueryHookOptions<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables> & ({ variables: GetCouponCodesForExportQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables>(GetCouponCodesForExportDocument, options);
+      }
+export function useGetCouponCodesForExportLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables>(GetCouponCodesForExportDocument, options);
+        }
+export function useGetCouponCodesForExportSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables>(GetCouponCodesForExportDocument, options);
+        }
+export type GetCouponCodesForExportQueryHookResult = ReturnType<typeof useGetCouponCodesForExportQuery>;
+export type GetCouponCodesForExportLazyQueryHookResult = ReturnType<typeof useGetCouponCodesForExportLazyQuery>;
+export type GetCouponCodesForExportSuspenseQueryHookResult = ReturnType<typeof useGetCouponCodesForExportSuspenseQuery>;
+export type GetCouponCodesForExportQueryResult = Apollo.QueryResult<GetCouponCodesForExportQuery, GetCouponCodesForExportQueryVariables>;
+export const GetCouponToDeleteDocument = gql`
+    query getCouponToDelete($id: ID!) {
+  coupon(id: $id) {
+    ...DeleteCoupon
+  }
+}
+    ${DeleteCouponFragmentDoc}`;
+
+/**
+ * __useGetCouponToDeleteQuery__
+ *
+ * To run a query within a React component, call `useGetCouponToDeleteQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCouponToDeleteQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCouponToDeleteQuery({
+ *   variables: {
+ *      id: // value for 'id'
+ *   },
+ * });
+ */
+export function useGetCouponToDeleteQuery(baseOptions: Apollo.QueryHookOptions<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables> & ({ variables: GetCouponToDeleteQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>(GetCouponToDeleteDocument, options);
+      }
+export function useGetCouponToDeleteLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>(GetCouponToDeleteDocument, options);
+        }
+export function useGetCouponToDeleteSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>(GetCouponToDeleteDocument, options);
+        }
+export type GetCouponToDeleteQueryHookResult = ReturnType<typeof useGetCouponToDeleteQuery>;
+export type GetCouponToDeleteLazyQueryHookResult = ReturnType<typeof useGetCouponToDeleteLazyQuery>;
+export type GetCouponToDeleteSuspenseQueryHookResult = ReturnType<typeof useGetCouponToDeleteSuspenseQuery>;
+export type GetCouponToDeleteQueryResult = Apollo.QueryResult<GetCouponToDeleteQuery, GetCouponToDeleteQueryVariables>;
+export const DeleteCouponDocument = gql`
+    mutation deleteCoupon($input: DestroyCouponInput!) {
+  destroyCoupon(input: $input) {
+    id
+  }
+}
+    `;
+export type DeleteCouponMutationFn = Apollo.MutationFunction<DeleteCouponMutation, DeleteCouponMutationVariables>;
+
+/**
+ * __useDeleteCouponMutation__
+ *
+ * To run a mutation, you first call `useDeleteCouponMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useDeleteCouponMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [deleteCouponMutation, { data, loading, error }] = useDeleteCouponMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useDeleteCouponMutation(baseOptions?: Apollo.MutationHookOptions<DeleteCouponMutation, DeleteCouponMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<DeleteCouponMutation, DeleteCouponMutationVariables>(DeleteCouponDocument, options);
+      }
+export type DeleteCouponMutationHookResult = ReturnType<typeof useDeleteCouponMutation>;
+export type DeleteCouponMutationResult = Apollo.MutationResult<DeleteCouponMutation>;
+export type DeleteCouponMutationOptions = Apollo.BaseMutationOptions<DeleteCouponMutation, DeleteCouponMutationVariables>;
+export const CreateCouponCodesDocument = gql`
+    mutation createCouponCodes($input: CreateCouponCodesInput!) {
+  createCouponCodes(input: $input) {
+    collection {
+      id
+      ...CouponCodeItem
+    }
+  }
+}
+    ${CouponCodeItemFragmentDoc}`;
+export type CreateCouponCodesMutationFn = Apollo.MutationFunction<CreateCouponCodesMutation, CreateCouponCodesMutationVariables>;
+
+/**
+ * __useCreateCouponCodesMutation__
+ *
+ * To run a mutation, you first call `useCreateCouponCodesMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useCreateCouponCodesMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [createCouponCodesMutation, { data, loading, error }] = useCreateCouponCodesMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useCreateCouponCodesMutation(baseOptions?: Apollo.MutationHookOptions<CreateCouponCodesMutation, CreateCouponCodesMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<CreateCouponCodesMutation, CreateCouponCodesMutationVariables>(CreateCouponCodesDocument, options);
+      }
+export type CreateCouponCodesMutationHookResult = ReturnType<typeof useCreateCouponCodesMutation>;
+export type CreateCouponCodesMutationResult = Apollo.MutationResult<CreateCouponCodesMutation>;
+export type CreateCouponCodesMutationOptions = Apollo.BaseMutationOptions<CreateCouponCodesMutation, CreateCouponCodesMutationVariables>;
+export const TerminateCouponDocument = gql`
+    mutation terminateCoupon($input: TerminateCouponInput!) {
+  terminateCoupon(input: $input) {
+    id
+    ...CouponDetails
+    ...CouponItem
+  }
+}
+    ${CouponDetailsFragmentDoc}
+${CouponItemFragmentDoc}`;
+export type TerminateCouponMutationFn = Apollo.MutationFunction<TerminateCouponMutation, TerminateCouponMutationVariables>;
 
 /**
  * __useTerminateCouponMutation__
@@ -14472,6 +16248,93 @@ export function useAddCouponMutation(baseOptions?: Apollo.MutationHookOptions<Ad
 export type AddCouponMutationHookResult = ReturnType<typeof useAddCouponMutation>;
 export type AddCouponMutationResult = Apollo.MutationResult<AddCouponMutation>;
 export type AddCouponMutationOptions = Apollo.BaseMutationOptions<AddCouponMutation, AddCouponMutationVariables>;
+export const GetCustomersForBulkCouponsDocument = gql`
+    query getCustomersForBulkCoupons($page: Int, $limit: Int, $searchTerm: String, $accountType: [CustomerAccountTypeEnum!], $country: CountryCode, $currency: CurrencyEnum, $planCode: String, $subscriptionStatus: [StatusTypeEnum!], $paymentProvider: ProviderTypeEnum, $hasOverdueInvoices: Boolean, $walletBalanceBelow: Float, $hasTaxIdentificationNumber: Boolean, $createdAtFrom: ISO8601DateTime, $createdAtTo: ISO8601DateTime, $metadata: [CustomerMetadataFilterInput!], $externalIds: [String!]) {
+  customers(
+    page: $page
+    limit: $limit
+    searchTerm: $searchTerm
+    accountType: $accountType
+    country: $country
+    currency: $currency
+    planCode: $planCode
+    subscriptionStatus: $subscriptionStatus
+    paymentProvider: $paymentProvider
+    hasOverdueInvoices: $hasOverdueInvoices
+    walletBalanceBelow: $walletBalanceBelow
+    hasTaxIdentificationNumber: $hasTaxIdentificationNumber
+    createdAtFrom: $createdAtFrom
+    createdAtTo: $createdAtTo
+    metadata: $metadata
+    externalIds: $externalIds
+  ) {
+    metadata {
+      currentPage
+      totalPages
+      totalCount
+    }
+    collection {
+      id
+      externalId
+      displayName
+      appliedCoupons {
+        id
+        coupon {
+          id
+        }
+      }
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetCustomersForBulkCouponsQuery__
+ *
+ * To run a query within a React component, call `useGetCustomersForBulkCouponsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomersForBulkCouponsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomersForBulkCouponsQuery({
+ *   variables: {
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *      searchTerm: // value for 'searchTerm'
+ *      accountType: // value for 'accountType'
+ *      country: // value for 'country'
+ *      currency: // value for 'currency'
+ *      planCode: // value for 'planCode'
+ *      subscriptionStatus: // value for 'subscriptionStatus'
+ *      paymentProvider: // value for 'paymentProvider'
+ *      hasOverdueInvoices: // value for 'hasOverdueInvoices'
+ *      walletBalanceBelow: // value for 'walletBalanceBelow'
+ *      hasTaxIdentificationNumber: // value for 'hasTaxIdentificationNumber'
+ *      createdAtFrom: // value for 'createdAtFrom'
+ *      createdAtTo: // value for 'createdAtTo'
+ *      metadata: // value for 'metadata'
+ *      externalIds: // value for 'externalIds'
+ *   },
+ * });
+ */
+export function useGetCustomersForBulkCouponsQuery(baseOptions?: Apollo.QueryHookOptions<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>(GetCustomersForBulkCouponsDocument, options);
+      }
+export function useGetCustomersForBulkCouponsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>(GetCustomersForBulkCouponsDocument, options);
+        }
+export function useGetCustomersForBulkCouponsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>(GetCustomersForBulkCouponsDocument, options);
+        }
+export type GetCustomersForBulkCouponsQueryHookResult = ReturnType<typeof useGetCustomersForBulkCouponsQuery>;
+export type GetCustomersForBulkCouponsLazyQueryHookResult = ReturnType<typeof useGetCustomersForBulkCouponsLazyQuery>;
+export type GetCustomersForBulkCouponsSuspenseQueryHookResult = ReturnType<typeof useGetCustomersForBulkCouponsSuspenseQuery>;
+export type GetCustomersForBulkCouponsQueryResult = Apollo.QueryResult<GetCustomersForBulkCouponsQuery, GetCustomersForBulkCouponsQueryVariables>;
 export const GetCustomerCreditNotesDocument = gql`
     query getCustomerCreditNotes($customerId: ID!, $page: Int, $limit: Int, $searchTerm: String) {
   creditNotes(
@@ -15297,91 +17160,233 @@ export function useUpdateCustomerInvoiceGracePeriodMutation(baseOptions?: Apollo
 export type UpdateCustomerInvoiceGracePeriodMutationHookResult = ReturnType<typeof useUpdateCustomerInvoiceGracePeriodMutation>;
 export type UpdateCustomerInvoiceGracePeriodMutationResult = Apollo.MutationResult<UpdateCustomerInvoiceGracePeriodMutation>;
 export type UpdateCustomerInvoiceGracePeriodMutationOptions = Apollo.BaseMutationOptions<UpdateCustomerInvoiceGracePeriodMutation, UpdateCustomerInvoiceGracePeriodMutationVariables>;
-export const GetTaxRatesForEditCustomerDocument = gql`
-    query getTaxRatesForEditCustomer($limit: Int, $page: Int, $searchTerm: String) {
-  taxes(limit: $limit, page: $page, searchTerm: $searchTerm) {
-    metadata {
-      currentPage
-      totalPages
-    }
+export const GetCustomersForParentDocument = gql`
+    query getCustomersForParent($page: Int, $limit: Int, $searchTerm: String) {
+  customers(page: $page, limit: $limit, searchTerm: $searchTerm) {
     collection {
       id
-      name
-      rate
-      code
+      displayName
+      externalId
+      parentCustomer {
+        id
+      }
     }
   }
 }
     `;
 
 /**
- * __useGetTaxRatesForEditCustomerQuery__
+ * __useGetCustomersForParentQuery__
  *
- * To run a query within a React component, call `useGetTaxRatesForEditCustomerQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetTaxRatesForEditCustomerQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * To run a query within a React component, call `useGetCustomersForParentQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomersForParentQuery` returns an object from Apollo Client that contains loading, error, and data properties
  * you can use to render your UI.
  *
  * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useGetTaxRatesForEditCustomerQuery({
+ * const { data, loading, error } = useGetCustomersForParentQuery({
  *   variables: {
- *      limit: // value for 'limit'
  *      page: // value for 'page'
+ *      limit: // value for 'limit'
  *      searchTerm: // value for 'searchTerm'
  *   },
  * });
  */
-export function useGetTaxRatesForEditCustomerQuery(baseOptions?: Apollo.QueryHookOptions<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>) {
+export function useGetCustomersForParentQuery(baseOptions?: Apollo.QueryHookOptions<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useQuery<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>(GetTaxRatesForEditCustomerDocument, options);
+        return Apollo.useQuery<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>(GetCustomersForParentDocument, options);
       }
-export function useGetTaxRatesForEditCustomerLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>) {
+export function useGetCustomersForParentLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>) {
           const options = {...defaultOptions, ...baseOptions}
-          return Apollo.useLazyQuery<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>(GetTaxRatesForEditCustomerDocument, options);
+          return Apollo.useLazyQuery<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>(GetCustomersForParentDocument, options);
         }
-export function useGetTaxRatesForEditCustomerSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>) {
+export function useGetCustomersForParentSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>) {
           const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
-          return Apollo.useSuspenseQuery<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>(GetTaxRatesForEditCustomerDocument, options);
-        }
-export type GetTaxRatesForEditCustomerQueryHookResult = ReturnType<typeof useGetTaxRatesForEditCustomerQuery>;
-export type GetTaxRatesForEditCustomerLazyQueryHookResult = ReturnType<typeof useGetTaxRatesForEditCustomerLazyQuery>;
-export type GetTaxRatesForEditCustomerSuspenseQueryHookResult = ReturnType<typeof useGetTaxRatesForEditCustomerSuspenseQuery>;
-export type GetTaxRatesForEditCustomerQueryResult = Apollo.QueryResult<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>;
-export const CreateCustomerAppliedTaxDocument = gql`
-    mutation createCustomerAppliedTax($input: UpdateCustomerInput!) {
+          return Apollo.useSuspenseQuery<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>(GetCustomersForParentDocument, options);
+        }
+export type GetCustomersForParentQueryHookResult = ReturnType<typeof useGetCustomersForParentQuery>;
+export type GetCustomersForParentLazyQueryHookResult = ReturnType<typeof useGetCustomersForParentLazyQuery>;
+export type GetCustomersForParentSuspenseQueryHookResult = ReturnType<typeof useGetCustomersForParentSuspenseQuery>;
+export type GetCustomersForParentQueryResult = Apollo.QueryResult<GetCustomersForParentQuery, GetCustomersForParentQueryVariables>;
+export const EditCustomerParentDocument = gql`
+    mutation editCustomerParent($input: UpdateCustomerInput!) {
   updateCustomer(input: $input) {
     id
-    ...CustomerAppliedTaxRatesForSettings
+    parentCustomer {
+      id
+      displayName
+      externalId
+      childCustomersCount
+    }
   }
 }
-    ${CustomerAppliedTaxRatesForSettingsFragmentDoc}`;
-export type CreateCustomerAppliedTaxMutationFn = Apollo.MutationFunction<CreateCustomerAppliedTaxMutation, CreateCustomerAppliedTaxMutationVariables>;
+    `;
+export type EditCustomerParentMutationFn = Apollo.MutationFunction<EditCustomerParentMutation, EditCustomerParentMutationVariables>;
 
 /**
- * __useCreateCustomerAppliedTaxMutation__
+ * __useEditCustomerParentMutation__
  *
- * To run a mutation, you first call `useCreateCustomerAppliedTaxMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useCreateCustomerAppliedTaxMutation` returns a tuple that includes:
+ * To run a mutation, you first call `useEditCustomerParentMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useEditCustomerParentMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
  *
  * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const [createCustomerAppliedTaxMutation, { data, loading, error }] = useCreateCustomerAppliedTaxMutation({
+ * const [editCustomerParentMutation, { data, loading, error }] = useEditCustomerParentMutation({
  *   variables: {
  *      input: // value for 'input'
  *   },
  * });
  */
-export function useCreateCustomerAppliedTaxMutation(baseOptions?: Apollo.MutationHookOptions<CreateCustomerAppliedTaxMutation, CreateCustomerAppliedTaxMutationVariables>) {
+export function useEditCustomerParentMutation(baseOptions?: Apollo.MutationHookOptions<EditCustomerParentMutation, EditCustomerParentMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<EditCustomerParentMutation, EditCustomerParentMutationVariables>(EditCustomerParentDocument, options);
+      }
+export type EditCustomerParentMutationHookResult = ReturnType<typeof useEditCustomerParentMutation>;
+export type EditCustomerParentMutationResult = Apollo.MutationResult<EditCustomerParentMutation>;
+export type EditCustomerParentMutationOptions = Apollo.BaseMutationOptions<EditCustomerParentMutation, EditCustomerParentMutationVariables>;
+export const GetTaxRatesForEditCustomerDocument = gql`
+    query getTaxRatesForEditCustomer($limit: Int, $page: Int, $searchTerm: String) {
+  taxes(limit: $limit, page: $page, searchTerm: $searchTerm) {
+    metadata {
+      currentPage
+      totalPages
+    }
+    collection {
+      id
+      name
+      rate
+      code
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetTaxRatesForEditCustomerQuery__
+ *
+ * To run a query within a React component, call `useGetTaxRatesForEditCustomerQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTaxRatesForEditCustomerQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetTaxRatesForEditCustomerQuery({
+ *   variables: {
+ *      limit: // value for 'limit'
+ *      page: // value for 'page'
+ *      searchTerm: // value for 'searchTerm'
+ *   },
+ * });
+ */
+export function useGetTaxRatesForEditCustomerQuery(baseOptions?: Apollo.QueryHookOptions<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>(GetTaxRatesForEditCustomerDocument, options);
+      }
+export function useGetTaxRatesForEditCustomerLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>(GetTaxRatesForEditCustomerDocument, options);
+        }
+export function useGetTaxRatesForEditCustomerSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>(GetTaxRatesForEditCustomerDocument, options);
+        }
+export type GetTaxRatesForEditCustomerQueryHookResult = ReturnType<typeof useGetTaxRatesForEditCustomerQuery>;
+export type GetTaxRatesForEditCustomerLazyQueryHookResult = ReturnType<typeof useGetTaxRatesForEditCustomerLazyQuery>;
+export type GetTaxRatesForEditCustomerSuspenseQueryHookResult = ReturnType<typeof useGetTaxRatesForEditCustomerSuspenseQuery>;
+export type GetTaxRatesForEditCustomerQueryResult = Apollo.QueryResult<GetTaxRatesForEditCustomerQuery, GetTaxRatesForEditCustomerQueryVariables>;
+export const CreateCustomerAppliedTaxDocument = gql`
+    mutation createCustomerAppliedTax($input: UpdateCustomerInput!) {
+  updateCustomer(input: $input) {
+    id
+    ...CustomerAppliedTaxRatesForSettings
+  }
+}
+    ${CustomerAppliedTaxRatesForSettingsFragmentDoc}`;
+export type CreateCustomerAppliedTaxMutationFn = Apollo.MutationFunction<CreateCustomerAppliedTaxMutation, CreateCustomerAppliedTaxMutationVariables>;
+
+/**
+ * __useCreateCustomerAppliedTaxMutation__
+ *
+ * To run a mutation, you first call `useCreateCustomerAppliedTaxMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useCreateCustomerAppliedTaxMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [createCustomerAppliedTaxMutation, { data, loading, error }] = useCreateCustomerAppliedTaxMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useCreateCustomerAppliedTaxMutation(baseOptions?: Apollo.MutationHookOptions<CreateCustomerAppliedTaxMutation, CreateCustomerAppliedTaxMutationVariables>) {
         const options = {...defaultOptions, ...baseOptions}
         return Apollo.useMutation<CreateCustomerAppliedTaxMutation, CreateCustomerAppliedTaxMutationVariables>(CreateCustomerAppliedTaxDocument, options);
       }
 export type CreateCustomerAppliedTaxMutationHookResult = ReturnType<typeof useCreateCustomerAppliedTaxMutation>;
 export type CreateCustomerAppliedTaxMutationResult = Apollo.MutationResult<CreateCustomerAppliedTaxMutation>;
 export type CreateCustomerAppliedTaxMutationOptions = Apollo.BaseMutationOptions<CreateCustomerAppliedTaxMutation, CreateCustomerAppliedTaxMutationVariables>;
+export const GetCustomerActivitiesDocument = gql`
+    query getCustomerActivities($customerId: ID!, $activityTypes: [CustomerActivityTypeEnum!], $page: Int, $limit: Int) {
+  customerActivities(
+    customerId: $customerId
+    activityTypes: $activityTypes
+    page: $page
+    limit: $limit
+  ) {
+    metadata {
+      currentPage
+      totalPages
+    }
+    collection {
+      ...CustomerActivityForTimeline
+    }
+  }
+}
+    ${CustomerActivityForTimelineFragmentDoc}`;
+
+/**
+ * __useGetCustomerActivitiesQuery__
+ *
+ * To run a query within a React component, call `useGetCustomerActivitiesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomerActivitiesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomerActivitiesQuery({
+ *   variables: {
+ *      customerId: // value for 'customerId'
+ *      activityTypes: // value for 'activityTypes'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetCustomerActivitiesQuery(baseOptions: Apollo.QueryHookOptions<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables> & ({ variables: GetCustomerActivitiesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables>(GetCustomerActivitiesDocument, options);
+      }
+export function useGetCustomerActivitiesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables>(GetCustomerActivitiesDocument, options);
+        }
+export function useGetCustomerActivitiesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables>(GetCustomerActivitiesDocument, options);
+        }
+export type GetCustomerActivitiesQueryHookResult = ReturnType<typeof useGetCustomerActivitiesQuery>;
+export type GetCustomerActivitiesLazyQueryHookResult = ReturnType<typeof useGetCustomerActivitiesLazyQuery>;
+export type GetCustomerActivitiesSuspenseQueryHookResult = ReturnType<typeof useGetCustomerActivitiesSuspenseQuery>;
+export type GetCustomerActivitiesQueryResult = Apollo.QueryResult<GetCustomerActivitiesQuery, GetCustomerActivitiesQueryVariables>;
 export const GetAccountingIntegrationsForExternalAppsAccordionDocument = gql`
     query getAccountingIntegrationsForExternalAppsAccordion($limit: Int, $page: Int) {
   integrations(limit: $limit, page: $page) {
@@ -15686,6 +17691,117 @@ export function useVoidCreditNoteMutation(baseOptions?: Apollo.MutationHookOptio
 export type VoidCreditNoteMutationHookResult = ReturnType<typeof useVoidCreditNoteMutation>;
 export type VoidCreditNoteMutationResult = Apollo.MutationResult<VoidCreditNoteMutation>;
 export type VoidCreditNoteMutationOptions = Apollo.BaseMutationOptions<VoidCreditNoteMutation, VoidCreditNoteMutationVariables>;
+export const GetCustomersForMergeDocument = gql`
+    query getCustomersForMerge($customerId: ID!, $duplicateId: ID!) {
+  customer(id: $customerId) {
+    ...CustomerForMerge
+  }
+  duplicate: customer(id: $duplicateId) {
+    ...CustomerForMerge
+  }
+  duplicateWallets: wallets(customerId: $duplicateId, status: active, limit: 100) {
+    metadata {
+      totalCount
+    }
+    collection {
+      id
+      name
+    }
+  }
+  duplicateOpenInvoices: invoices(
+    customerId: $duplicateId
+    status: [finalized]
+    paymentStatus: [pending, failed]
+    limit: 100
+  ) {
+    metadata {
+      totalCount
+    }
+    collection {
+      id
+      number
+    }
+  }
+}
+    ${CustomerForMergeFragmentDoc}`;
+
+/**
+ * __useGetCustomersForMergeQuery__
+ *
+ * To run a query within a React component, call `useGetCustomersForMergeQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomersForMergeQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomersForMergeQuery({
+ *   variables: {
+ *      customerId: // value for 'customerId'
+ *      duplicateId: // value for 'duplicateId'
+ *   },
+ * });
+ */
+export function useGetCustomersForMergeQuery(baseOptions: Apollo.QueryHookOptions<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables> & ({ variables: GetCustomersForMergeQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables>(GetCustomersForMergeDocument, options);
+      }
+export function useGetCustomersForMergeLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables>(GetCustomersForMergeDocument, options);
+        }
+export function useGetCustomersForMergeSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables>(GetCustomersForMergeDocument, options);
+        }
+export type GetCustomersForMergeQueryHookResult = ReturnType<typeof useGetCustomersForMergeQuery>;
+export type GetCustomersForMergeLazyQueryHookResult = ReturnType<typeof useGetCustomersForMergeLazyQuery>;
+export type GetCustomersForMergeSuspenseQueryHookResult = ReturnType<typeof useGetCustomersForMergeSuspenseQuery>;
+export type GetCustomersForMergeQueryResult = Apollo.QueryResult<GetCustomersForMergeQuery, GetCustomersForMergeQueryVariables>;
+export const GetCustomerGroupDocument = gql`
+    query getCustomerGroup($customerId: ID!, $limit: Int) {
+  customerGroupMembers(customerId: $customerId, limit: $limit) {
+    collection {
+      id
+      ...CustomerGroupMemberItem
+    }
+  }
+}
+    ${CustomerGroupMemberItemFragmentDoc}`;
+
+/**
+ * __useGetCustomerGroupQuery__
+ *
+ * To run a query within a React component, call `useGetCustomerGroupQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomerGroupQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomerGroupQuery({
+ *   variables: {
+ *      customerId: // value for 'customerId'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetCustomerGroupQuery(baseOptions: Apollo.QueryHookOptions<GetCustomerGroupQuery, GetCustomerGroupQueryVariables> & ({ variables: GetCustomerGroupQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomerGroupQuery, GetCustomerGroupQueryVariables>(GetCustomerGroupDocument, options);
+      }
+export function useGetCustomerGroupLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomerGroupQuery, GetCustomerGroupQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomerGroupQuery, GetCustomerGroupQueryVariables>(GetCustomerGroupDocument, options);
+        }
+export function useGetCustomerGroupSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomerGroupQuery, GetCustomerGroupQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomerGroupQuery, GetCustomerGroupQueryVariables>(GetCustomerGroupDocument, options);
+        }
+export type GetCustomerGroupQueryHookResult = ReturnType<typeof useGetCustomerGroupQuery>;
+export type GetCustomerGroupLazyQueryHookResult = ReturnType<typeof useGetCustomerGroupLazyQuery>;
+export type GetCustomerGroupSuspenseQueryHookResult = ReturnType<typeof useGetCustomerGroupSuspenseQuery>;
+export type GetCustomerGroupQueryResult = Apollo.QueryResult<GetCustomerGroupQuery, GetCustomerGroupQueryVariables>;
 export const GetCustomerCouponsDocument = gql`
     query getCustomerCoupons($id: ID!) {
   customer(id: $id) {
@@ -15937,6 +18053,116 @@ export type GetCustomerSubscriptionForListQueryHookResult = ReturnType<typeof us
 export type GetCustomerSubscriptionForListLazyQueryHookResult = ReturnType<typeof useGetCustomerSubscriptionForListLazyQuery>;
 export type GetCustomerSubscriptionForListSuspenseQueryHookResult = ReturnType<typeof useGetCustomerSubscriptionForListSuspenseQuery>;
 export type GetCustomerSubscriptionForListQueryResult = Apollo.QueryResult<GetCustomerSubscriptionForListQuery, GetCustomerSubscriptionForListQueryVariables>;
+export const GetCustomerSegmentsDocument = gql`
+    query getCustomerSegments($limit: Int) {
+  customerSegments(limit: $limit) {
+    collection {
+      id
+      ...CustomerSegmentItem
+    }
+  }
+}
+    ${CustomerSegmentItemFragmentDoc}`;
+
+/**
+ * __useGetCustomerSegmentsQuery__
+ *
+ * To run a query within a React component, call `useGetCustomerSegmentsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomerSegmentsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomerSegmentsQuery({
+ *   variables: {
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetCustomerSegmentsQuery(baseOptions?: Apollo.QueryHookOptions<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>(GetCustomerSegmentsDocument, options);
+      }
+export function useGetCustomerSegmentsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>(GetCustomerSegmentsDocument, options);
+        }
+export function useGetCustomerSegmentsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>(GetCustomerSegmentsDocument, options);
+        }
+export type GetCustomerSegmentsQueryHookResult = ReturnType<typeof useGetCustomerSegmentsQuery>;
+export type GetCustomerSegmentsLazyQueryHookResult = ReturnType<typeof useGetCustomerSegmentsLazyQuery>;
+export type GetCustomerSegmentsSuspenseQueryHookResult = ReturnType<typeof useGetCustomerSegmentsSuspenseQuery>;
+export type GetCustomerSegmentsQueryResult = Apollo.QueryResult<GetCustomerSegmentsQuery, GetCustomerSegmentsQueryVariables>;
+export const DestroyCustomerSegmentDocument = gql`
+    mutation destroyCustomerSegment($input: DestroyCustomerSegmentInput!) {
+  destroyCustomerSegment(input: $input) {
+    id
+  }
+}
+    `;
+export type DestroyCustomerSegmentMutationFn = Apollo.MutationFunction<DestroyCustomerSegmentMutation, DestroyCustomerSegmentMutationVariables>;
+
+/**
+ * __useDestroyCustomerSegmentMutation__
+ *
+ * To run a mutation, you first call `useDestroyCustomerSegmentMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useDestroyCustomerSegmentMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [destroyCustomerSegmentMutation, { data, loading, error }] = useDestroyCustomerSegmentMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useDestroyCustomerSegmentMutation(baseOptions?: Apollo.MutationHookOptions<DestroyCustomerSegmentMutation, DestroyCustomerSegmentMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<DestroyCustomerSegmentMutation, DestroyCustomerSegmentMutationVariables>(DestroyCustomerSegmentDocument, options);
+      }
+export type DestroyCustomerSegmentMutationHookResult = ReturnType<typeof useDestroyCustomerSegmentMutation>;
+export type DestroyCustomerSegmentMutationResult = Apollo.MutationResult<DestroyCustomerSegmentMutation>;
+export type DestroyCustomerSegmentMutationOptions = Apollo.BaseMutationOptions<DestroyCustomerSegmentMutation, DestroyCustomerSegmentMutationVariables>;
+export const CreateCustomerSegmentDocument = gql`
+    mutation createCustomerSegment($input: CreateCustomerSegmentInput!) {
+  createCustomerSegment(input: $input) {
+    id
+    name
+  }
+}
+    `;
+export type CreateCustomerSegmentMutationFn = Apollo.MutationFunction<CreateCustomerSegmentMutation, CreateCustomerSegmentMutationVariables>;
+
+/**
+ * __useCreateCustomerSegmentMutation__
+ *
+ * To run a mutation, you first call `useCreateCustomerSegmentMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useCreateCustomerSegmentMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [createCustomerSegmentMutation, { data, loading, error }] = useCreateCustomerSegmentMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useCreateCustomerSegmentMutation(baseOptions?: Apollo.MutationHookOptions<CreateCustomerSegmentMutation, CreateCustomerSegmentMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<CreateCustomerSegmentMutation, CreateCustomerSegmentMutationVariables>(CreateCustomerSegmentDocument, options);
+      }
+export type CreateCustomerSegmentMutationHookResult = ReturnType<typeof useCreateCustomerSegmentMutation>;
+export type CreateCustomerSegmentMutationResult = Apollo.MutationResult<CreateCustomerSegmentMutation>;
+export type CreateCustomerSegmentMutationOptions = Apollo.BaseMutationOptions<CreateCustomerSegmentMutation, CreateCustomerSegmentMutationVariables>;
 export const TerminateCustomerSubscriptionDocument = gql`
     mutation terminateCustomerSubscription($input: TerminateSubscriptionInput!) {
   terminateSubscription(input: $input) {
@@ -16298,20 +18524,64 @@ export function useDeleteWebhookMutation(baseOptions?: Apollo.MutationHookOption
 export type DeleteWebhookMutationHookResult = ReturnType<typeof useDeleteWebhookMutation>;
 export type DeleteWebhookMutationResult = Apollo.MutationResult<DeleteWebhookMutation>;
 export type DeleteWebhookMutationOptions = Apollo.BaseMutationOptions<DeleteWebhookMutation, DeleteWebhookMutationVariables>;
-export const RotateApiKeyDocument = gql`
-    mutation rotateApiKey($input: RotateApiKeyInput!) {
-  rotateApiKey(input: $input) {
-    id
-    ...ApiKeyRevealedForApiKeysList
+export const GetEventsForBillableMetricInferenceDocument = gql`
+    query getEventsForBillableMetricInference($code: String!, $limit: Int) {
+  events(code: $code, limit: $limit) {
+    collection {
+      id
+      payload
+    }
   }
 }
-    ${ApiKeyRevealedForApiKeysListFragmentDoc}`;
-export type RotateApiKeyMutationFn = Apollo.MutationFunction<RotateApiKeyMutation, RotateApiKeyMutationVariables>;
+    `;
 
 /**
- * __useRotateApiKeyMutation__
+ * __useGetEventsForBillableMetricInferenceQuery__
  *
- * To run a mutation, you first call `useRotateApiKeyMutation` within a React component and pass it any options that fit your needs.
+ * To run a query within a React component, call `useGetEventsForBillableMetricInferenceQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetEventsForBillableMetricInferenceQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetEventsForBillableMetricInferenceQuery({
+ *   variables: {
+ *      code: // value for 'code'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetEventsForBillableMetricInferenceQuery(baseOptions: Apollo.QueryHookOptions<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables> & ({ variables: GetEventsForBillableMetricInferenceQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables>(GetEventsForBillableMetricInferenceDocument, options);
+      }
+export function useGetEventsForBillableMetricInferenceLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables>(GetEventsForBillableMetricInferenceDocument, options);
+        }
+export function useGetEventsForBillableMetricInferenceSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables>(GetEventsForBillableMetricInferenceDocument, options);
+        }
+export type GetEventsForBillableMetricInferenceQueryHookResult = ReturnType<typeof useGetEventsForBillableMetricInferenceQuery>;
+export type GetEventsForBillableMetricInferenceLazyQueryHookResult = ReturnType<typeof useGetEventsForBillableMetricInferenceLazyQuery>;
+export type GetEventsForBillableMetricInferenceSuspenseQueryHookResult = ReturnType<typeof useGetEventsForBillableMetricInferenceSuspenseQuery>;
+export type GetEventsForBillableMetricInferenceQueryResult = Apollo.QueryResult<GetEventsForBillableMetricInferenceQuery, GetEventsForBillableMetricInferenceQueryVariables>;
+export const RotateApiKeyDocument = gql`
+    mutation rotateApiKey($input: RotateApiKeyInput!) {
+  rotateApiKey(input: $input) {
+    id
+    ...ApiKeyRevealedForApiKeysList
+  }
+}
+    ${ApiKeyRevealedForApiKeysListFragmentDoc}`;
+export type RotateApiKeyMutationFn = Apollo.MutationFunction<RotateApiKeyMutation, RotateApiKeyMutationVariables>;
+
+/**
+ * __useRotateApiKeyMutation__
+ *
+ * To run a mutation, you first call `useRotateApiKeyMutation` within a React component and pass it any options that fit your needs.
  * When your component renders, `useRotateApiKeyMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
@@ -17130,6 +19400,49 @@ export type GetTaxesForChargesQueryHookResult = ReturnType<typeof useGetTaxesFor
 export type GetTaxesForChargesLazyQueryHookResult = ReturnType<typeof useGetTaxesForChargesLazyQuery>;
 export type GetTaxesForChargesSuspenseQueryHookResult = ReturnType<typeof useGetTaxesForChargesSuspenseQuery>;
 export type GetTaxesForChargesQueryResult = Apollo.QueryResult<GetTaxesForChargesQuery, GetTaxesForChargesQueryVariables>;
+export const GetChargeTemplatesDocument = gql`
+    query getChargeTemplates($limit: Int) {
+  chargeTemplates(limit: $limit) {
+    collection {
+      id
+      ...ChargeTemplateItem
+    }
+  }
+}
+    ${ChargeTemplateItemFragmentDoc}`;
+
+/**
+ * __useGetChargeTemplatesQuery__
+ *
+ * To run a query within a React component, call `useGetChargeTemplatesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetChargeTemplatesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetChargeTemplatesQuery({
+ *   variables: {
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetChargeTemplatesQuery(baseOptions?: Apollo.QueryHookOptions<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>(GetChargeTemplatesDocument, options);
+      }
+export function useGetChargeTemplatesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>(GetChargeTemplatesDocument, options);
+        }
+export function useGetChargeTemplatesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>(GetChargeTemplatesDocument, options);
+        }
+export type GetChargeTemplatesQueryHookResult = ReturnType<typeof useGetChargeTemplatesQuery>;
+export type GetChargeTemplatesLazyQueryHookResult = ReturnType<typeof useGetChargeTemplatesLazyQuery>;
+export type GetChargeTemplatesSuspenseQueryHookResult = ReturnType<typeof useGetChargeTemplatesSuspenseQuery>;
+export type GetChargeTemplatesQueryResult = Apollo.QueryResult<GetChargeTemplatesQuery, GetChargeTemplatesQueryVariables>;
 export const GetMeteredBillableMetricsDocument = gql`
     query getMeteredBillableMetrics($page: Int, $limit: Int, $searchTerm: String) {
   billableMetrics(
@@ -17311,6 +19624,94 @@ export function useDeletePlanMutation(baseOptions?: Apollo.MutationHookOptions<D
 export type DeletePlanMutationHookResult = ReturnType<typeof useDeletePlanMutation>;
 export type DeletePlanMutationResult = Apollo.MutationResult<DeletePlanMutation>;
 export type DeletePlanMutationOptions = Apollo.BaseMutationOptions<DeletePlanMutation, DeletePlanMutationVariables>;
+export const GetBillableMetricsForPlanImportDocument = gql`
+    query getBillableMetricsForPlanImport($searchTerm: String, $limit: Int) {
+  billableMetrics(searchTerm: $searchTerm, limit: $limit) {
+    collection {
+      id
+      ...BillableMetricForPlan
+    }
+  }
+}
+    ${BillableMetricForPlanFragmentDoc}`;
+
+/**
+ * __useGetBillableMetricsForPlanImportQuery__
+ *
+ * To run a query within a React component, call `useGetBillableMetricsForPlanImportQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetBillableMetricsForPlanImportQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetBillableMetricsForPlanImportQuery({
+ *   variables: {
+ *      searchTerm: // value for 'searchTerm'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetBillableMetricsForPlanImportQuery(baseOptions?: Apollo.QueryHookOptions<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>(GetBillableMetricsForPlanImportDocument, options);
+      }
+export function useGetBillableMetricsForPlanImportLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>(GetBillableMetricsForPlanImportDocument, options);
+        }
+export function useGetBillableMetricsForPlanImportSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>(GetBillableMetricsForPlanImportDocument, options);
+        }
+export type GetBillableMetricsForPlanImportQueryHookResult = ReturnType<typeof useGetBillableMetricsForPlanImportQuery>;
+export type GetBillableMetricsForPlanImportLazyQueryHookResult = ReturnType<typeof useGetBillableMetricsForPlanImportLazyQuery>;
+export type GetBillableMetricsForPlanImportSuspenseQueryHookResult = ReturnType<typeof useGetBillableMetricsForPlanImportSuspenseQuery>;
+export type GetBillableMetricsForPlanImportQueryResult = Apollo.QueryResult<GetBillableMetricsForPlanImportQuery, GetBillableMetricsForPlanImportQueryVariables>;
+export const GetTaxesForPlanImportDocument = gql`
+    query getTaxesForPlanImport($searchTerm: String, $limit: Int) {
+  taxes(searchTerm: $searchTerm, limit: $limit) {
+    collection {
+      id
+      ...TaxForPlanAndChargesInPlanForm
+    }
+  }
+}
+    ${TaxForPlanAndChargesInPlanFormFragmentDoc}`;
+
+/**
+ * __useGetTaxesForPlanImportQuery__
+ *
+ * To run a query within a React component, call `useGetTaxesForPlanImportQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTaxesForPlanImportQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetTaxesForPlanImportQuery({
+ *   variables: {
+ *      searchTerm: // value for 'searchTerm'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetTaxesForPlanImportQuery(baseOptions?: Apollo.QueryHookOptions<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>(GetTaxesForPlanImportDocument, options);
+      }
+export function useGetTaxesForPlanImportLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>(GetTaxesForPlanImportDocument, options);
+        }
+export function useGetTaxesForPlanImportSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>(GetTaxesForPlanImportDocument, options);
+        }
+export type GetTaxesForPlanImportQueryHookResult = ReturnType<typeof useGetTaxesForPlanImportQuery>;
+export type GetTaxesForPlanImportLazyQueryHookResult = ReturnType<typeof useGetTaxesForPlanImportLazyQuery>;
+export type GetTaxesForPlanImportSuspenseQueryHookResult = ReturnType<typeof useGetTaxesForPlanImportSuspenseQuery>;
+export type GetTaxesForPlanImportQueryResult = Apollo.QueryResult<GetTaxesForPlanImportQuery, GetTaxesForPlanImportQueryVariables>;
 export const GetTaxesForPlanDocument = gql`
     query getTaxesForPlan($limit: Int, $page: Int) {
   taxes(limit: $limit, page: $page) {
@@ -17359,6 +19760,40 @@ export type GetTaxesForPlanQueryHookResult = ReturnType<typeof useGetTaxesForPla
 export type GetTaxesForPlanLazyQueryHookResult = ReturnType<typeof useGetTaxesForPlanLazyQuery>;
 export type GetTaxesForPlanSuspenseQueryHookResult = ReturnType<typeof useGetTaxesForPlanSuspenseQuery>;
 export type GetTaxesForPlanQueryResult = Apollo.QueryResult<GetTaxesForPlanQuery, GetTaxesForPlanQueryVariables>;
+export const CreateChargeTemplateDocument = gql`
+    mutation createChargeTemplate($input: CreateChargeTemplateInput!) {
+  createChargeTemplate(input: $input) {
+    id
+    name
+  }
+}
+    `;
+export type CreateChargeTemplateMutationFn = Apollo.MutationFunction<CreateChargeTemplateMutation, CreateChargeTemplateMutationVariables>;
+
+/**
+ * __useCreateChargeTemplateMutation__
+ *
+ * To run a mutation, you first call `useCreateChargeTemplateMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useCreateChargeTemplateMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [createChargeTemplateMutation, { data, loading, error }] = useCreateChargeTemplateMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useCreateChargeTemplateMutation(baseOptions?: Apollo.MutationHookOptions<CreateChargeTemplateMutation, CreateChargeTemplateMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<CreateChargeTemplateMutation, CreateChargeTemplateMutationVariables>(CreateChargeTemplateDocument, options);
+      }
+export type CreateChargeTemplateMutationHookResult = ReturnType<typeof useCreateChargeTemplateMutation>;
+export type CreateChargeTemplateMutationResult = Apollo.MutationResult<CreateChargeTemplateMutation>;
+export type CreateChargeTemplateMutationOptions = Apollo.BaseMutationOptions<CreateChargeTemplateMutation, CreateChargeTemplateMutationVariables>;
 export const GetPlanForDetailsOverviewSectionDocument = gql`
     query getPlanForDetailsOverviewSection($plan: ID!) {
   plan(id: $plan) {
@@ -17449,6 +19884,66 @@ export type GetSubscribtionsForPlanDetailsQueryHookResult = ReturnType<typeof us
 export type GetSubscribtionsForPlanDetailsLazyQueryHookResult = ReturnType<typeof useGetSubscribtionsForPlanDetailsLazyQuery>;
 export type GetSubscribtionsForPlanDetailsSuspenseQueryHookResult = ReturnType<typeof useGetSubscribtionsForPlanDetailsSuspenseQuery>;
 export type GetSubscribtionsForPlanDetailsQueryResult = Apollo.QueryResult<GetSubscribtionsForPlanDetailsQuery, GetSubscribtionsForPlanDetailsQueryVariables>;
+export const GetPlanVersionsForPlanDetailsDocument = gql`
+    query getPlanVersionsForPlanDetails($planId: ID!, $page: Int, $limit: Int) {
+  planVersions(planId: $planId, page: $page, limit: $limit) {
+    collection {
+      id
+      version
+      createdAt
+      cascadeUpdates
+      snapshot
+      author {
+        id
+        email
+      }
+      impactedSubscriptions {
+        id
+        ...PlanVersionImpactedSubscription
+      }
+    }
+    metadata {
+      currentPage
+      totalPages
+    }
+  }
+}
+    ${PlanVersionImpactedSubscriptionFragmentDoc}`;
+
+/**
+ * __useGetPlanVersionsForPlanDetailsQuery__
+ *
+ * To run a query within a React component, call `useGetPlanVersionsForPlanDetailsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetPlanVersionsForPlanDetailsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetPlanVersionsForPlanDetailsQuery({
+ *   variables: {
+ *      planId: // value for 'planId'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetPlanVersionsForPlanDetailsQuery(baseOptions: Apollo.QueryHookOptions<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables> & ({ variables: GetPlanVersionsForPlanDetailsQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables>(GetPlanVersionsForPlanDetailsDocument, options);
+      }
+export function useGetPlanVersionsForPlanDetailsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables>(GetPlanVersionsForPlanDetailsDocument, options);
+        }
+export function useGetPlanVersionsForPlanDetailsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables>(GetPlanVersionsForPlanDetailsDocument, options);
+        }
+export type GetPlanVersionsForPlanDetailsQueryHookResult = ReturnType<typeof useGetPlanVersionsForPlanDetailsQuery>;
+export type GetPlanVersionsForPlanDetailsLazyQueryHookResult = ReturnType<typeof useGetPlanVersionsForPlanDetailsLazyQuery>;
+export type GetPlanVersionsForPlanDetailsSuspenseQueryHookResult = ReturnType<typeof useGetPlanVersionsForPlanDetailsSuspenseQuery>;
+export type GetPlanVersionsForPlanDetailsQueryResult = Apollo.QueryResult<GetPlanVersionsForPlanDetailsQuery, GetPlanVersionsForPlanDetailsQueryVariables>;
 export const UpdateOrganizationInformationsDocument = gql`
     mutation updateOrganizationInformations($input: UpdateOrganizationInput!) {
   updateOrganization(input: $input) {
@@ -21154,190 +23649,693 @@ export const SubscrptionForSubscriptionUsageDocument = gql`
  * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useSubscrptionForSubscriptionUsageQuery({
+ * const { data, loading, error } = useSubscrptionForSubscriptionUsageQuery({
+ *   variables: {
+ *      subscription: // value for 'subscription'
+ *   },
+ * });
+ */
+export function useSubscrptionForSubscriptionUsageQuery(baseOptions: Apollo.QueryHookOptions<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables> & ({ variables: SubscrptionForSubscriptionUsageQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>(SubscrptionForSubscriptionUsageDocument, options);
+      }
+export function useSubscrptionForSubscriptionUsageLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>(SubscrptionForSubscriptionUsageDocument, options);
+        }
+export function useSubscrptionForSubscriptionUsageSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>(SubscrptionForSubscriptionUsageDocument, options);
+        }
+export type SubscrptionForSubscriptionUsageQueryHookResult = ReturnType<typeof useSubscrptionForSubscriptionUsageQuery>;
+export type SubscrptionForSubscriptionUsageLazyQueryHookResult = ReturnType<typeof useSubscrptionForSubscriptionUsageLazyQuery>;
+export type SubscrptionForSubscriptionUsageSuspenseQueryHookResult = ReturnType<typeof useSubscrptionForSubscriptionUsageSuspenseQuery>;
+export type SubscrptionForSubscriptionUsageQueryResult = Apollo.QueryResult<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>;
+export const UsageForSubscriptionUsageDocument = gql`
+    query usageForSubscriptionUsage($customerId: ID!, $subscriptionId: ID!) {
+  customerUsage(customerId: $customerId, subscriptionId: $subscriptionId) {
+    amountCents
+    ...SubscriptionCurrentUsageTableComponentCustomerUsage
+    ...CustomerUsageForUsageDetails
+  }
+}
+    ${SubscriptionCurrentUsageTableComponentCustomerUsageFragmentDoc}
+${CustomerUsageForUsageDetailsFragmentDoc}`;
+
+/**
+ * __useUsageForSubscriptionUsageQuery__
+ *
+ * To run a query within a React component, call `useUsageForSubscriptionUsageQuery` and pass it any options that fit your needs.
+ * When your component renders, `useUsageForSubscriptionUsageQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useUsageForSubscriptionUsageQuery({
+ *   variables: {
+ *      customerId: // value for 'customerId'
+ *      subscriptionId: // value for 'subscriptionId'
+ *   },
+ * });
+ */
+export function useUsageForSubscriptionUsageQuery(baseOptions: Apollo.QueryHookOptions<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables> & ({ variables: UsageForSubscriptionUsageQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>(UsageForSubscriptionUsageDocument, options);
+      }
+export function useUsageForSubscriptionUsageLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>(UsageForSubscriptionUsageDocument, options);
+        }
+export function useUsageForSubscriptionUsageSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>(UsageForSubscriptionUsageDocument, options);
+        }
+export type UsageForSubscriptionUsageQueryHookResult = ReturnType<typeof useUsageForSubscriptionUsageQuery>;
+export type UsageForSubscriptionUsageLazyQueryHookResult = ReturnType<typeof useUsageForSubscriptionUsageLazyQuery>;
+export type UsageForSubscriptionUsageSuspenseQueryHookResult = ReturnType<typeof useUsageForSubscriptionUsageSuspenseQuery>;
+export type UsageForSubscriptionUsageQueryResult = Apollo.QueryResult<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>;
+export const GetSubscriptionForDetailsOverviewDocument = gql`
+    query getSubscriptionForDetailsOverview($subscriptionId: ID!) {
+  subscription(id: $subscriptionId) {
+    id
+    plan {
+      id
+    }
+    ...SubscriptionForSubscriptionInformations
+  }
+}
+    ${SubscriptionForSubscriptionInformationsFragmentDoc}`;
+
+/**
+ * __useGetSubscriptionForDetailsOverviewQuery__
+ *
+ * To run a query within a React component, call `useGetSubscriptionForDetailsOverviewQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetSubscriptionForDetailsOverviewQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetSubscriptionForDetailsOverviewQuery({
+ *   variables: {
+ *      subscriptionId: // value for 'subscriptionId'
+ *   },
+ * });
+ */
+export function useGetSubscriptionForDetailsOverviewQuery(baseOptions: Apollo.QueryHookOptions<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables> & ({ variables: GetSubscriptionForDetailsOverviewQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>(GetSubscriptionForDetailsOverviewDocument, options);
+      }
+export function useGetSubscriptionForDetailsOverviewLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>(GetSubscriptionForDetailsOverviewDocument, options);
+        }
+export function useGetSubscriptionForDetailsOverviewSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>(GetSubscriptionForDetailsOverviewDocument, options);
+        }
+export type GetSubscriptionForDetailsOverviewQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsOverviewQuery>;
+export type GetSubscriptionForDetailsOverviewLazyQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsOverviewLazyQuery>;
+export type GetSubscriptionForDetailsOverviewSuspenseQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsOverviewSuspenseQuery>;
+export type GetSubscriptionForDetailsOverviewQueryResult = Apollo.QueryResult<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>;
+export const GetSubscriptionPlanOverridesDocument = gql`
+    query getSubscriptionPlanOverrides($subscriptionId: ID!) {
+  subscription(id: $subscriptionId) {
+    id
+    plan {
+      id
+      ...PlanForSubscriptionOverrides
+      parent {
+        id
+        ...PlanForSubscriptionOverrides
+      }
+    }
+  }
+}
+    ${PlanForSubscriptionOverridesFragmentDoc}`;
+
+/**
+ * __useGetSubscriptionPlanOverridesQuery__
+ *
+ * To run a query within a React component, call `useGetSubscriptionPlanOverridesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetSubscriptionPlanOverridesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetSubscriptionPlanOverridesQuery({
+ *   variables: {
+ *      subscriptionId: // value for 'subscriptionId'
+ *   },
+ * });
+ */
+export function useGetSubscriptionPlanOverridesQuery(baseOptions: Apollo.QueryHookOptions<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables> & ({ variables: GetSubscriptionPlanOverridesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables>(GetSubscriptionPlanOverridesDocument, options);
+      }
+export function useGetSubscriptionPlanOverridesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables>(GetSubscriptionPlanOverridesDocument, options);
+        }
+export function useGetSubscriptionPlanOverridesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables>(GetSubscriptionPlanOverridesDocument, options);
+        }
+export type GetSubscriptionPlanOverridesQueryHookResult = ReturnType<typeof useGetSubscriptionPlanOverridesQuery>;
+export type GetSubscriptionPlanOverridesLazyQueryHookResult = ReturnType<typeof useGetSubscriptionPlanOverridesLazyQuery>;
+export type GetSubscriptionPlanOverridesSuspenseQueryHookResult = ReturnType<typeof useGetSubscriptionPlanOverridesSuspenseQuery>;
+export type GetSubscriptionPlanOverridesQueryResult = Apollo.QueryResult<GetSubscriptionPlanOverridesQuery, GetSubscriptionPlanOverridesQueryVariables>;
+export const GetSubscriptionForSubscriptionUsageLifetimeGraphDocument = gql`
+    query getSubscriptionForSubscriptionUsageLifetimeGraph($subscriptionId: ID!) {
+  subscription(id: $subscriptionId) {
+    id
+    ...SubscriptionUsageLifetimeGraphForLifetimeGraph
+  }
+}
+    ${SubscriptionUsageLifetimeGraphForLifetimeGraphFragmentDoc}`;
+
+/**
+ * __useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery__
+ *
+ * To run a query within a React component, call `useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery({
+ *   variables: {
+ *      subscriptionId: // value for 'subscriptionId'
+ *   },
+ * });
+ */
+export function useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery(baseOptions: Apollo.QueryHookOptions<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables> & ({ variables: GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>(GetSubscriptionForSubscriptionUsageLifetimeGraphDocument, options);
+      }
+export function useGetSubscriptionForSubscriptionUsageLifetimeGraphLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>(GetSubscriptionForSubscriptionUsageLifetimeGraphDocument, options);
+        }
+export function useGetSubscriptionForSubscriptionUsageLifetimeGraphSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>(GetSubscriptionForSubscriptionUsageLifetimeGraphDocument, options);
+        }
+export type GetSubscriptionForSubscriptionUsageLifetimeGraphQueryHookResult = ReturnType<typeof useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery>;
+export type GetSubscriptionForSubscriptionUsageLifetimeGraphLazyQueryHookResult = ReturnType<typeof useGetSubscriptionForSubscriptionUsageLifetimeGraphLazyQuery>;
+export type GetSubscriptionForSubscriptionUsageLifetimeGraphSuspenseQueryHookResult = ReturnType<typeof useGetSubscriptionForSubscriptionUsageLifetimeGraphSuspenseQuery>;
+export type GetSubscriptionForSubscriptionUsageLifetimeGraphQueryResult = Apollo.QueryResult<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>;
+export const DeleteTaxDocument = gql`
+    mutation deleteTax($input: DestroyTaxInput!) {
+  destroyTax(input: $input) {
+    id
+  }
+}
+    `;
+export type DeleteTaxMutationFn = Apollo.MutationFunction<DeleteTaxMutation, DeleteTaxMutationVariables>;
+
+/**
+ * __useDeleteTaxMutation__
+ *
+ * To run a mutation, you first call `useDeleteTaxMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useDeleteTaxMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [deleteTaxMutation, { data, loading, error }] = useDeleteTaxMutation({
+ *   variables: {
+ *      input: // value for 'input'
+ *   },
+ * });
+ */
+export function useDeleteTaxMutation(baseOptions?: Apollo.MutationHookOptions<DeleteTaxMutation, DeleteTaxMutationVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useMutation<DeleteTaxMutation, DeleteTaxMutationVariables>(DeleteTaxDocument, options);
+      }
+export type DeleteTaxMutationHookResult = ReturnType<typeof useDeleteTaxMutation>;
+export type DeleteTaxMutationResult = Apollo.MutationResult<DeleteTaxMutation>;
+export type DeleteTaxMutationOptions = Apollo.BaseMutationOptions<DeleteTaxMutation, DeleteTaxMutationVariables>;
+export const GetOrganizationTaxesForEffectiveTaxesDocument = gql`
+    query getOrganizationTaxesForEffectiveTaxes {
+  taxes(page: 1, limit: 1000, appliedToOrganization: true) {
+    collection {
+      id
+      ...TaxForEffectiveTaxes
+    }
+  }
+}
+    ${TaxForEffectiveTaxesFragmentDoc}`;
+
+/**
+ * __useGetOrganizationTaxesForEffectiveTaxesQuery__
+ *
+ * To run a query within a React component, call `useGetOrganizationTaxesForEffectiveTaxesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetOrganizationTaxesForEffectiveTaxesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetOrganizationTaxesForEffectiveTaxesQuery({
+ *   variables: {
+ *   },
+ * });
+ */
+export function useGetOrganizationTaxesForEffectiveTaxesQuery(baseOptions?: Apollo.QueryHookOptions<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>(GetOrganizationTaxesForEffectiveTaxesDocument, options);
+      }
+export function useGetOrganizationTaxesForEffectiveTaxesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>(GetOrganizationTaxesForEffectiveTaxesDocument, options);
+        }
+export function useGetOrganizationTaxesForEffectiveTaxesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>(GetOrganizationTaxesForEffectiveTaxesDocument, options);
+        }
+export type GetOrganizationTaxesForEffectiveTaxesQueryHookResult = ReturnType<typeof useGetOrganizationTaxesForEffectiveTaxesQuery>;
+export type GetOrganizationTaxesForEffectiveTaxesLazyQueryHookResult = ReturnType<typeof useGetOrganizationTaxesForEffectiveTaxesLazyQuery>;
+export type GetOrganizationTaxesForEffectiveTaxesSuspenseQueryHookResult = ReturnType<typeof useGetOrganizationTaxesForEffectiveTaxesSuspenseQuery>;
+export type GetOrganizationTaxesForEffectiveTaxesQueryResult = Apollo.QueryResult<GetOrganizationTaxesForEffectiveTaxesQuery, GetOrganizationTaxesForEffectiveTaxesQueryVariables>;
+export const GetCustomersForEffectiveTaxesDocument = gql`
+    query getCustomersForEffectiveTaxes($page: Int, $limit: Int, $searchTerm: String) {
+  customers(page: $page, limit: $limit, searchTerm: $searchTerm) {
+    collection {
+      id
+      displayName
+      externalId
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetCustomersForEffectiveTaxesQuery__
+ *
+ * To run a query within a React component, call `useGetCustomersForEffectiveTaxesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomersForEffectiveTaxesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomersForEffectiveTaxesQuery({
+ *   variables: {
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *      searchTerm: // value for 'searchTerm'
+ *   },
+ * });
+ */
+export function useGetCustomersForEffectiveTaxesQuery(baseOptions?: Apollo.QueryHookOptions<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>(GetCustomersForEffectiveTaxesDocument, options);
+      }
+export function useGetCustomersForEffectiveTaxesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>(GetCustomersForEffectiveTaxesDocument, options);
+        }
+export function useGetCustomersForEffectiveTaxesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>(GetCustomersForEffectiveTaxesDocument, options);
+        }
+export type GetCustomersForEffectiveTaxesQueryHookResult = ReturnType<typeof useGetCustomersForEffectiveTaxesQuery>;
+export type GetCustomersForEffectiveTaxesLazyQueryHookResult = ReturnType<typeof useGetCustomersForEffectiveTaxesLazyQuery>;
+export type GetCustomersForEffectiveTaxesSuspenseQueryHookResult = ReturnType<typeof useGetCustomersForEffectiveTaxesSuspenseQuery>;
+export type GetCustomersForEffectiveTaxesQueryResult = Apollo.QueryResult<GetCustomersForEffectiveTaxesQuery, GetCustomersForEffectiveTaxesQueryVariables>;
+export const GetCustomerForEffectiveTaxesDocument = gql`
+    query getCustomerForEffectiveTaxes($id: ID!) {
+  customer(id: $id) {
+    id
+    anrokCustomer {
+      id
+    }
+    taxes {
+      id
+      ...TaxForEffectiveTaxes
+    }
+  }
+}
+    ${TaxForEffectiveTaxesFragmentDoc}`;
+
+/**
+ * __useGetCustomerForEffectiveTaxesQuery__
+ *
+ * To run a query within a React component, call `useGetCustomerForEffectiveTaxesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomerForEffectiveTaxesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomerForEffectiveTaxesQuery({
+ *   variables: {
+ *      id: // value for 'id'
+ *   },
+ * });
+ */
+export function useGetCustomerForEffectiveTaxesQuery(baseOptions: Apollo.QueryHookOptions<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables> & ({ variables: GetCustomerForEffectiveTaxesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables>(GetCustomerForEffectiveTaxesDocument, options);
+      }
+export function useGetCustomerForEffectiveTaxesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables>(GetCustomerForEffectiveTaxesDocument, options);
+        }
+export function useGetCustomerForEffectiveTaxesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables>(GetCustomerForEffectiveTaxesDocument, options);
+        }
+export type GetCustomerForEffectiveTaxesQueryHookResult = ReturnType<typeof useGetCustomerForEffectiveTaxesQuery>;
+export type GetCustomerForEffectiveTaxesLazyQueryHookResult = ReturnType<typeof useGetCustomerForEffectiveTaxesLazyQuery>;
+export type GetCustomerForEffectiveTaxesSuspenseQueryHookResult = ReturnType<typeof useGetCustomerForEffectiveTaxesSuspenseQuery>;
+export type GetCustomerForEffectiveTaxesQueryResult = Apollo.QueryResult<GetCustomerForEffectiveTaxesQuery, GetCustomerForEffectiveTaxesQueryVariables>;
+export const GetPlansForEffectiveTaxesDocument = gql`
+    query getPlansForEffectiveTaxes($page: Int, $limit: Int, $searchTerm: String) {
+  plans(page: $page, limit: $limit, searchTerm: $searchTerm) {
+    collection {
+      id
+      name
+      code
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetPlansForEffectiveTaxesQuery__
+ *
+ * To run a query within a React component, call `useGetPlansForEffectiveTaxesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetPlansForEffectiveTaxesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetPlansForEffectiveTaxesQuery({
+ *   variables: {
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *      searchTerm: // value for 'searchTerm'
+ *   },
+ * });
+ */
+export function useGetPlansForEffectiveTaxesQuery(baseOptions?: Apollo.QueryHookOptions<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>(GetPlansForEffectiveTaxesDocument, options);
+      }
+export function useGetPlansForEffectiveTaxesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>(GetPlansForEffectiveTaxesDocument, options);
+        }
+export function useGetPlansForEffectiveTaxesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>(GetPlansForEffectiveTaxesDocument, options);
+        }
+export type GetPlansForEffectiveTaxesQueryHookResult = ReturnType<typeof useGetPlansForEffectiveTaxesQuery>;
+export type GetPlansForEffectiveTaxesLazyQueryHookResult = ReturnType<typeof useGetPlansForEffectiveTaxesLazyQuery>;
+export type GetPlansForEffectiveTaxesSuspenseQueryHookResult = ReturnType<typeof useGetPlansForEffectiveTaxesSuspenseQuery>;
+export type GetPlansForEffectiveTaxesQueryResult = Apollo.QueryResult<GetPlansForEffectiveTaxesQuery, GetPlansForEffectiveTaxesQueryVariables>;
+export const GetPlanForEffectiveTaxesDocument = gql`
+    query getPlanForEffectiveTaxes($id: ID!) {
+  plan(id: $id) {
+    id
+    taxes {
+      id
+      ...TaxForEffectiveTaxes
+    }
+    charges {
+      id
+      invoiceDisplayName
+      billableMetric {
+        id
+        name
+        code
+      }
+      taxes {
+        id
+        ...TaxForEffectiveTaxes
+      }
+    }
+  }
+}
+    ${TaxForEffectiveTaxesFragmentDoc}`;
+
+/**
+ * __useGetPlanForEffectiveTaxesQuery__
+ *
+ * To run a query within a React component, call `useGetPlanForEffectiveTaxesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetPlanForEffectiveTaxesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetPlanForEffectiveTaxesQuery({
+ *   variables: {
+ *      id: // value for 'id'
+ *   },
+ * });
+ */
+export function useGetPlanForEffectiveTaxesQuery(baseOptions: Apollo.QueryHookOptions<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables> & ({ variables: GetPlanForEffectiveTaxesQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables>(GetPlanForEffectiveTaxesDocument, options);
+      }
+export function useGetPlanForEffectiveTaxesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables>(GetPlanForEffectiveTaxesDocument, options);
+        }
+export function useGetPlanForEffectiveTaxesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables>(GetPlanForEffectiveTaxesDocument, options);
+        }
+export type GetPlanForEffectiveTaxesQueryHookResult = ReturnType<typeof useGetPlanForEffectiveTaxesQuery>;
+export type GetPlanForEffectiveTaxesLazyQueryHookResult = ReturnType<typeof useGetPlanForEffectiveTaxesLazyQuery>;
+export type GetPlanForEffectiveTaxesSuspenseQueryHookResult = ReturnType<typeof useGetPlanForEffectiveTaxesSuspenseQuery>;
+export type GetPlanForEffectiveTaxesQueryResult = Apollo.QueryResult<GetPlanForEffectiveTaxesQuery, GetPlanForEffectiveTaxesQueryVariables>;
+export const GetTaxAssignmentsDocument = gql`
+    query getTaxAssignments($taxId: ID!, $objectType: TaxAssignmentObjectTypeEnum!, $assigned: Boolean, $searchTerm: String, $page: Int, $limit: Int) {
+  taxAssignments(
+    taxId: $taxId
+    objectType: $objectType
+    assigned: $assigned
+    searchTerm: $searchTerm
+    page: $page
+    limit: $limit
+  ) {
+    collection {
+      objectId
+      objectType
+      name
+      code
+      planName
+    }
+    metadata {
+      currentPage
+      totalPages
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetTaxAssignmentsQuery__
+ *
+ * To run a query within a React component, call `useGetTaxAssignmentsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTaxAssignmentsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetTaxAssignmentsQuery({
  *   variables: {
- *      subscription: // value for 'subscription'
+ *      taxId: // value for 'taxId'
+ *      objectType: // value for 'objectType'
+ *      assigned: // value for 'assigned'
+ *      searchTerm: // value for 'searchTerm'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
  *   },
  * });
  */
-export function useSubscrptionForSubscriptionUsageQuery(baseOptions: Apollo.QueryHookOptions<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables> & ({ variables: SubscrptionForSubscriptionUsageQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+export function useGetTaxAssignmentsQuery(baseOptions: Apollo.QueryHookOptions<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables> & ({ variables: GetTaxAssignmentsQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useQuery<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>(SubscrptionForSubscriptionUsageDocument, options);
+        return Apollo.useQuery<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables>(GetTaxAssignmentsDocument, options);
       }
-export function useSubscrptionForSubscriptionUsageLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>) {
+export function useGetTaxAssignmentsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables>) {
           const options = {...defaultOptions, ...baseOptions}
-          return Apollo.useLazyQuery<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>(SubscrptionForSubscriptionUsageDocument, options);
+          return Apollo.useLazyQuery<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables>(GetTaxAssignmentsDocument, options);
         }
-export function useSubscrptionForSubscriptionUsageSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>) {
+export function useGetTaxAssignmentsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables>) {
           const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
-          return Apollo.useSuspenseQuery<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>(SubscrptionForSubscriptionUsageDocument, options);
+          return Apollo.useSuspenseQuery<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables>(GetTaxAssignmentsDocument, options);
         }
-export type SubscrptionForSubscriptionUsageQueryHookResult = ReturnType<typeof useSubscrptionForSubscriptionUsageQuery>;
-export type SubscrptionForSubscriptionUsageLazyQueryHookResult = ReturnType<typeof useSubscrptionForSubscriptionUsageLazyQuery>;
-export type SubscrptionForSubscriptionUsageSuspenseQueryHookResult = ReturnType<typeof useSubscrptionForSubscriptionUsageSuspenseQuery>;
-export type SubscrptionForSubscriptionUsageQueryResult = Apollo.QueryResult<SubscrptionForSubscriptionUsageQuery, SubscrptionForSubscriptionUsageQueryVariables>;
-export const UsageForSubscriptionUsageDocument = gql`
-    query usageForSubscriptionUsage($customerId: ID!, $subscriptionId: ID!) {
-  customerUsage(customerId: $customerId, subscriptionId: $subscriptionId) {
-    amountCents
-    ...SubscriptionCurrentUsageTableComponentCustomerUsage
-    ...CustomerUsageForUsageDetails
+export type GetTaxAssignmentsQueryHookResult = ReturnType<typeof useGetTaxAssignmentsQuery>;
+export type GetTaxAssignmentsLazyQueryHookResult = ReturnType<typeof useGetTaxAssignmentsLazyQuery>;
+export type GetTaxAssignmentsSuspenseQueryHookResult = ReturnType<typeof useGetTaxAssignmentsSuspenseQuery>;
+export type GetTaxAssignmentsQueryResult = Apollo.QueryResult<GetTaxAssignmentsQuery, GetTaxAssignmentsQueryVariables>;
+export const CreateTaxAssignmentsDocument = gql`
+    mutation createTaxAssignments($input: CreateTaxAssignmentsInput!) {
+  createTaxAssignments(input: $input) {
+    id
+    ...TaxForTaxAssignmentsDrawer
   }
 }
-    ${SubscriptionCurrentUsageTableComponentCustomerUsageFragmentDoc}
-${CustomerUsageForUsageDetailsFragmentDoc}`;
+    ${TaxForTaxAssignmentsDrawerFragmentDoc}`;
+export type CreateTaxAssignmentsMutationFn = Apollo.MutationFunction<CreateTaxAssignmentsMutation, CreateTaxAssignmentsMutationVariables>;
 
 /**
- * __useUsageForSubscriptionUsageQuery__
+ * __useCreateTaxAssignmentsMutation__
  *
- * To run a query within a React component, call `useUsageForSubscriptionUsageQuery` and pass it any options that fit your needs.
- * When your component renders, `useUsageForSubscriptionUsageQuery` returns an object from Apollo Client that contains loading, error, and data properties
- * you can use to render your UI.
+ * To run a mutation, you first call `useCreateTaxAssignmentsMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useCreateTaxAssignmentsMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
  *
- * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const { data, loading, error } = useUsageForSubscriptionUsageQuery({
+ * const [createTaxAssignmentsMutation, { data, loading, error }] = useCreateTaxAssignmentsMutation({
  *   variables: {
- *      customerId: // value for 'customerId'
- *      subscriptionId: // value for 'subscriptionId'
+ *      input: // value for 'input'
  *   },
  * });
  */
-export function useUsageForSubscriptionUsageQuery(baseOptions: Apollo.QueryHookOptions<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables> & ({ variables: UsageForSubscriptionUsageQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+export function useCreateTaxAssignmentsMutation(baseOptions?: Apollo.MutationHookOptions<CreateTaxAssignmentsMutation, CreateTaxAssignmentsMutationVariables>) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useQuery<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>(UsageForSubscriptionUsageDocument, options);
+        return Apollo.useMutation<CreateTaxAssignmentsMutation, CreateTaxAssignmentsMutationVariables>(CreateTaxAssignmentsDocument, options);
       }
-export function useUsageForSubscriptionUsageLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>) {
-          const options = {...defaultOptions, ...baseOptions}
-          return Apollo.useLazyQuery<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>(UsageForSubscriptionUsageDocument, options);
-        }
-export function useUsageForSubscriptionUsageSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>) {
-          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
-          return Apollo.useSuspenseQuery<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>(UsageForSubscriptionUsageDocument, options);
-        }
-export type UsageForSubscriptionUsageQueryHookResult = ReturnType<typeof useUsageForSubscriptionUsageQuery>;
-export type UsageForSubscriptionUsageLazyQueryHookResult = ReturnType<typeof useUsageForSubscriptionUsageLazyQuery>;
-export type UsageForSubscriptionUsageSuspenseQueryHookResult = ReturnType<typeof useUsageForSubscriptionUsageSuspenseQuery>;
-export type UsageForSubscriptionUsageQueryResult = Apollo.QueryResult<UsageForSubscriptionUsageQuery, UsageForSubscriptionUsageQueryVariables>;
-export const GetSubscriptionForDetailsOverviewDocument = gql`
-    query getSubscriptionForDetailsOverview($subscriptionId: ID!) {
-  subscription(id: $subscriptionId) {
+export type CreateTaxAssignmentsMutationHookResult = ReturnType<typeof useCreateTaxAssignmentsMutation>;
+export type CreateTaxAssignmentsMutationResult = Apollo.MutationResult<CreateTaxAssignmentsMutation>;
+export type CreateTaxAssignmentsMutationOptions = Apollo.BaseMutationOptions<CreateTaxAssignmentsMutation, CreateTaxAssignmentsMutationVariables>;
+export const DestroyTaxAssignmentsDocument = gql`
+    mutation destroyTaxAssignments($input: DestroyTaxAssignmentsInput!) {
+  destroyTaxAssignments(input: $input) {
     id
-    plan {
-      id
-    }
-    ...SubscriptionForSubscriptionInformations
+    ...TaxForTaxAssignmentsDrawer
   }
 }
-    ${SubscriptionForSubscriptionInformationsFragmentDoc}`;
+    ${TaxForTaxAssignmentsDrawerFragmentDoc}`;
+export type DestroyTaxAssignmentsMutationFn = Apollo.MutationFunction<DestroyTaxAssignmentsMutation, DestroyTaxAssignmentsMutationVariables>;
 
 /**
- * __useGetSubscriptionForDetailsOverviewQuery__
+ * __useDestroyTaxAssignmentsMutation__
  *
- * To run a query within a React component, call `useGetSubscriptionForDetailsOverviewQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetSubscriptionForDetailsOverviewQuery` returns an object from Apollo Client that contains loading, error, and data properties
- * you can use to render your UI.
+ * To run a mutation, you first call `useDestroyTaxAssignmentsMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useDestroyTaxAssignmentsMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
  *
- * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const { data, loading, error } = useGetSubscriptionForDetailsOverviewQuery({
+ * const [destroyTaxAssignmentsMutation, { data, loading, error }] = useDestroyTaxAssignmentsMutation({
  *   variables: {
- *      subscriptionId: // value for 'subscriptionId'
+ *      input: // value for 'input'
  *   },
  * });
  */
-export function useGetSubscriptionForDetailsOverviewQuery(baseOptions: Apollo.QueryHookOptions<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables> & ({ variables: GetSubscriptionForDetailsOverviewQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+export function useDestroyTaxAssignmentsMutation(baseOptions?: Apollo.MutationHookOptions<DestroyTaxAssignmentsMutation, DestroyTaxAssignmentsMutationVariables>) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useQuery<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>(GetSubscriptionForDetailsOverviewDocument, options);
+        return Apollo.useMutation<DestroyTaxAssignmentsMutation, DestroyTaxAssignmentsMutationVariables>(DestroyTaxAssignmentsDocument, options);
       }
-export function useGetSubscriptionForDetailsOverviewLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>) {
-          const options = {...defaultOptions, ...baseOptions}
-          return Apollo.useLazyQuery<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>(GetSubscriptionForDetailsOverviewDocument, options);
-        }
-export function useGetSubscriptionForDetailsOverviewSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>) {
-          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
-          return Apollo.useSuspenseQuery<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>(GetSubscriptionForDetailsOverviewDocument, options);
-        }
-export type GetSubscriptionForDetailsOverviewQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsOverviewQuery>;
-export type GetSubscriptionForDetailsOverviewLazyQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsOverviewLazyQuery>;
-export type GetSubscriptionForDetailsOverviewSuspenseQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsOverviewSuspenseQuery>;
-export type GetSubscriptionForDetailsOverviewQueryResult = Apollo.QueryResult<GetSubscriptionForDetailsOverviewQuery, GetSubscriptionForDetailsOverviewQueryVariables>;
-export const GetSubscriptionForSubscriptionUsageLifetimeGraphDocument = gql`
-    query getSubscriptionForSubscriptionUsageLifetimeGraph($subscriptionId: ID!) {
-  subscription(id: $subscriptionId) {
-    id
-    ...SubscriptionUsageLifetimeGraphForLifetimeGraph
+export type DestroyTaxAssignmentsMutationHookResult = ReturnType<typeof useDestroyTaxAssignmentsMutation>;
+export type DestroyTaxAssignmentsMutationResult = Apollo.MutationResult<DestroyTaxAssignmentsMutation>;
+export type DestroyTaxAssignmentsMutationOptions = Apollo.BaseMutationOptions<DestroyTaxAssignmentsMutation, DestroyTaxAssignmentsMutationVariables>;
+export const GetTaxRateChangeImpactDocument = gql`
+    query getTaxRateChangeImpact($taxId: ID!, $effectiveAt: ISO8601DateTime!) {
+  taxRateChangeImpact(taxId: $taxId, effectiveAt: $effectiveAt) {
+    draftInvoices {
+      id
+      number
+      currency
+      totalAmountCents
+      customer {
+        id
+        displayName
+      }
+    }
+    upcomingBillings {
+      billingAt
+      subscriptionsCount
+    }
   }
 }
-    ${SubscriptionUsageLifetimeGraphForLifetimeGraphFragmentDoc}`;
+    `;
 
 /**
- * __useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery__
+ * __useGetTaxRateChangeImpactQuery__
  *
- * To run a query within a React component, call `useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * To run a query within a React component, call `useGetTaxRateChangeImpactQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTaxRateChangeImpactQuery` returns an object from Apollo Client that contains loading, error, and data properties
  * you can use to render your UI.
  *
  * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery({
+ * const { data, loading, error } = useGetTaxRateChangeImpactQuery({
  *   variables: {
- *      subscriptionId: // value for 'subscriptionId'
+ *      taxId: // value for 'taxId'
+ *      effectiveAt: // value for 'effectiveAt'
  *   },
  * });
  */
-export function useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery(baseOptions: Apollo.QueryHookOptions<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables> & ({ variables: GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+export function useGetTaxRateChangeImpactQuery(baseOptions: Apollo.QueryHookOptions<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables> & ({ variables: GetTaxRateChangeImpactQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useQuery<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>(GetSubscriptionForSubscriptionUsageLifetimeGraphDocument, options);
+        return Apollo.useQuery<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables>(GetTaxRateChangeImpactDocument, options);
       }
-export function useGetSubscriptionForSubscriptionUsageLifetimeGraphLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>) {
+export function useGetTaxRateChangeImpactLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables>) {
           const options = {...defaultOptions, ...baseOptions}
-          return Apollo.useLazyQuery<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>(GetSubscriptionForSubscriptionUsageLifetimeGraphDocument, options);
+          return Apollo.useLazyQuery<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables>(GetTaxRateChangeImpactDocument, options);
         }
-export function useGetSubscriptionForSubscriptionUsageLifetimeGraphSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>) {
+export function useGetTaxRateChangeImpactSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables>) {
           const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
-          return Apollo.useSuspenseQuery<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>(GetSubscriptionForSubscriptionUsageLifetimeGraphDocument, options);
+          return Apollo.useSuspenseQuery<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables>(GetTaxRateChangeImpactDocument, options);
         }
-export type GetSubscriptionForSubscriptionUsageLifetimeGraphQueryHookResult = ReturnType<typeof useGetSubscriptionForSubscriptionUsageLifetimeGraphQuery>;
-export type GetSubscriptionForSubscriptionUsageLifetimeGraphLazyQueryHookResult = ReturnType<typeof useGetSubscriptionForSubscriptionUsageLifetimeGraphLazyQuery>;
-export type GetSubscriptionForSubscriptionUsageLifetimeGraphSuspenseQueryHookResult = ReturnType<typeof useGetSubscriptionForSubscriptionUsageLifetimeGraphSuspenseQuery>;
-export type GetSubscriptionForSubscriptionUsageLifetimeGraphQueryResult = Apollo.QueryResult<GetSubscriptionForSubscriptionUsageLifetimeGraphQuery, GetSubscriptionForSubscriptionUsageLifetimeGraphQueryVariables>;
-export const DeleteTaxDocument = gql`
-    mutation deleteTax($input: DestroyTaxInput!) {
-  destroyTax(input: $input) {
+export type GetTaxRateChangeImpactQueryHookResult = ReturnType<typeof useGetTaxRateChangeImpactQuery>;
+export type GetTaxRateChangeImpactLazyQueryHookResult = ReturnType<typeof useGetTaxRateChangeImpactLazyQuery>;
+export type GetTaxRateChangeImpactSuspenseQueryHookResult = ReturnType<typeof useGetTaxRateChangeImpactSuspenseQuery>;
+export type GetTaxRateChangeImpactQueryResult = Apollo.QueryResult<GetTaxRateChangeImpactQuery, GetTaxRateChangeImpactQueryVariables>;
+export const DestroyTaxRateChangeDocument = gql`
+    mutation destroyTaxRateChange($input: DestroyTaxRateChangeInput!) {
+  destroyTaxRateChange(input: $input) {
     id
   }
 }
     `;
-export type DeleteTaxMutationFn = Apollo.MutationFunction<DeleteTaxMutation, DeleteTaxMutationVariables>;
+export type DestroyTaxRateChangeMutationFn = Apollo.MutationFunction<DestroyTaxRateChangeMutation, DestroyTaxRateChangeMutationVariables>;
 
 /**
- * __useDeleteTaxMutation__
+ * __useDestroyTaxRateChangeMutation__
  *
- * To run a mutation, you first call `useDeleteTaxMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useDeleteTaxMutation` returns a tuple that includes:
+ * To run a mutation, you first call `useDestroyTaxRateChangeMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useDestroyTaxRateChangeMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
  *
  * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const [deleteTaxMutation, { data, loading, error }] = useDeleteTaxMutation({
+ * const [destroyTaxRateChangeMutation, { data, loading, error }] = useDestroyTaxRateChangeMutation({
  *   variables: {
  *      input: // value for 'input'
  *   },
  * });
  */
-export function useDeleteTaxMutation(baseOptions?: Apollo.MutationHookOptions<DeleteTaxMutation, DeleteTaxMutationVariables>) {
+export function useDestroyTaxRateChangeMutation(baseOptions?: Apollo.MutationHookOptions<DestroyTaxRateChangeMutation, DestroyTaxRateChangeMutationVariables>) {
         const options = {...defaultOptions, ...baseOptions}
-        return Apollo.useMutation<DeleteTaxMutation, DeleteTaxMutationVariables>(DeleteTaxDocument, options);
+        return Apollo.useMutation<DestroyTaxRateChangeMutation, DestroyTaxRateChangeMutationVariables>(DestroyTaxRateChangeDocument, options);
       }
-export type DeleteTaxMutationHookResult = ReturnType<typeof useDeleteTaxMutation>;
-export type DeleteTaxMutationResult = Apollo.MutationResult<DeleteTaxMutation>;
-export type DeleteTaxMutationOptions = Apollo.BaseMutationOptions<DeleteTaxMutation, DeleteTaxMutationVariables>;
+export type DestroyTaxRateChangeMutationHookResult = ReturnType<typeof useDestroyTaxRateChangeMutation>;
+export type DestroyTaxRateChangeMutationResult = Apollo.MutationResult<DestroyTaxRateChangeMutation>;
+export type DestroyTaxRateChangeMutationOptions = Apollo.BaseMutationOptions<DestroyTaxRateChangeMutation, DestroyTaxRateChangeMutationVariables>;
 export const GetCustomerWalletListDocument = gql`
     query getCustomerWalletList($customerId: ID!, $page: Int, $limit: Int) {
   wallets(customerId: $customerId, page: $page, limit: $limit) {
@@ -22816,6 +25814,8 @@ export const GetAddOnForDetailsDocument = gql`
     amountCents
     amountCurrency
     code
+    customersCount
+    invoicesCount
     taxes {
       id
       code
@@ -23220,8 +26220,8 @@ export type GetInfosForCreateInvoiceLazyQueryHookResult = ReturnType<typeof useG
 export type GetInfosForCreateInvoiceSuspenseQueryHookResult = ReturnType<typeof useGetInfosForCreateInvoiceSuspenseQuery>;
 export type GetInfosForCreateInvoiceQueryResult = Apollo.QueryResult<GetInfosForCreateInvoiceQuery, GetInfosForCreateInvoiceQueryVariables>;
 export const GetAddonListForInfoiceDocument = gql`
-    query getAddonListForInfoice($page: Int, $limit: Int, $searchTerm: String) {
-  addOns(page: $page, limit: $limit, searchTerm: $searchTerm) {
+    query getAddonListForInfoice($page: Int, $limit: Int, $searchTerm: String, $order: String) {
+  addOns(page: $page, limit: $limit, searchTerm: $searchTerm, order: $order) {
     metadata {
       currentPage
       totalPages
@@ -23259,6 +26259,7 @@ ${TaxInfosForCreateInvoiceFragmentDoc}`;
  *      page: // value for 'page'
  *      limit: // value for 'limit'
  *      searchTerm: // value for 'searchTerm'
+ *      order: // value for 'order'
  *   },
  * });
  */
@@ -24004,6 +27005,62 @@ export type GetCustomerInfosForDraftInvoicesListQueryHookResult = ReturnType<typ
 export type GetCustomerInfosForDraftInvoicesListLazyQueryHookResult = ReturnType<typeof useGetCustomerInfosForDraftInvoicesListLazyQuery>;
 export type GetCustomerInfosForDraftInvoicesListSuspenseQueryHookResult = ReturnType<typeof useGetCustomerInfosForDraftInvoicesListSuspenseQuery>;
 export type GetCustomerInfosForDraftInvoicesListQueryResult = Apollo.QueryResult<GetCustomerInfosForDraftInvoicesListQuery, GetCustomerInfosForDraftInvoicesListQueryVariables>;
+export const GetCustomerDuplicatesDocument = gql`
+    query getCustomerDuplicates($criteria: [CustomerDuplicateCriteriaEnum!], $page: Int, $limit: Int) {
+  customerDuplicates(criteria: $criteria, page: $page, limit: $limit) {
+    metadata {
+      currentPage
+      totalPages
+    }
+    collection {
+      id
+      matchedCriteria
+      nameSimilarity
+      customer {
+        ...CustomerForDuplicatesList
+      }
+      duplicate {
+        ...CustomerForDuplicatesList
+      }
+    }
+  }
+}
+    ${CustomerForDuplicatesListFragmentDoc}`;
+
+/**
+ * __useGetCustomerDuplicatesQuery__
+ *
+ * To run a query within a React component, call `useGetCustomerDuplicatesQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomerDuplicatesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomerDuplicatesQuery({
+ *   variables: {
+ *      criteria: // value for 'criteria'
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetCustomerDuplicatesQuery(baseOptions?: Apollo.QueryHookOptions<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>(GetCustomerDuplicatesDocument, options);
+      }
+export function useGetCustomerDuplicatesLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>(GetCustomerDuplicatesDocument, options);
+        }
+export function useGetCustomerDuplicatesSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>(GetCustomerDuplicatesDocument, options);
+        }
+export type GetCustomerDuplicatesQueryHookResult = ReturnType<typeof useGetCustomerDuplicatesQuery>;
+export type GetCustomerDuplicatesLazyQueryHookResult = ReturnType<typeof useGetCustomerDuplicatesLazyQuery>;
+export type GetCustomerDuplicatesSuspenseQueryHookResult = ReturnType<typeof useGetCustomerDuplicatesSuspenseQuery>;
+export type GetCustomerDuplicatesQueryResult = Apollo.QueryResult<GetCustomerDuplicatesQuery, GetCustomerDuplicatesQueryVariables>;
 export const GetInvoiceDetailsDocument = gql`
     query getInvoiceDetails($id: ID!) {
   invoice(id: $id) {
@@ -24337,7 +27394,7 @@ export type RetryTaxProviderVoidingMutationHookResult = ReturnType<typeof useRet
 export type RetryTaxProviderVoidingMutationResult = Apollo.MutationResult<RetryTaxProviderVoidingMutation>;
 export type RetryTaxProviderVoidingMutationOptions = Apollo.BaseMutationOptions<RetryTaxProviderVoidingMutation, RetryTaxProviderVoidingMutationVariables>;
 export const GetRequestOverduePaymentInfosDocument = gql`
-    query getRequestOverduePaymentInfos($id: ID!) {
+    query getRequestOverduePaymentInfos($id: ID!, $includeChildCustomers: Boolean) {
   organization {
     defaultCurrency
     ...OrganizationForDunningEmail
@@ -24353,7 +27410,11 @@ export const GetRequestOverduePaymentInfosDocument = gql`
       ...LastPaymentRequest
     }
   }
-  invoices(paymentOverdue: true, customerId: $id) {
+  invoices(
+    paymentOverdue: true
+    customerId: $id
+    includeChildCustomers: $includeChildCustomers
+  ) {
     collection {
       ...InvoicesForDunningEmail
       ...InvoicesForRequestOverduePaymentForm
@@ -24380,6 +27441,7 @@ ${InvoicesForRequestOverduePaymentFormFragmentDoc}`;
  * const { data, loading, error } = useGetRequestOverduePaymentInfosQuery({
  *   variables: {
  *      id: // value for 'id'
+ *      includeChildCustomers: // value for 'includeChildCustomers'
  *   },
  * });
  */
@@ -24433,12 +27495,23 @@ export type CreatePaymentRequestMutationHookResult = ReturnType<typeof useCreate
 export type CreatePaymentRequestMutationResult = Apollo.MutationResult<CreatePaymentRequestMutation>;
 export type CreatePaymentRequestMutationOptions = Apollo.BaseMutationOptions<CreatePaymentRequestMutation, CreatePaymentRequestMutationVariables>;
 export const CustomersDocument = gql`
-    query customers($page: Int, $limit: Int, $searchTerm: String, $accountType: [CustomerAccountTypeEnum!]) {
+    query customers($page: Int, $limit: Int, $searchTerm: String, $accountType: [CustomerAccountTypeEnum!], $country: CountryCode, $currency: CurrencyEnum, $planCode: String, $subscriptionStatus: [StatusTypeEnum!], $paymentProvider: ProviderTypeEnum, $hasOverdueInvoices: Boolean, $walletBalanceBelow: Float, $hasTaxIdentificationNumber: Boolean, $createdAtFrom: ISO8601DateTime, $createdAtTo: ISO8601DateTime, $metadata: [CustomerMetadataFilterInput!]) {
   customers(
     page: $page
     limit: $limit
     searchTerm: $searchTerm
     accountType: $accountType
+    country: $country
+    currency: $currency
+    planCode: $planCode
+    subscriptionStatus: $subscriptionStatus
+    paymentProvider: $paymentProvider
+    hasOverdueInvoices: $hasOverdueInvoices
+    walletBalanceBelow: $walletBalanceBelow
+    hasTaxIdentificationNumber: $hasTaxIdentificationNumber
+    createdAtFrom: $createdAtFrom
+    createdAtTo: $createdAtTo
+    metadata: $metadata
   ) {
     metadata {
       currentPage
@@ -24467,6 +27540,17 @@ export const CustomersDocument = gql`
  *      limit: // value for 'limit'
  *      searchTerm: // value for 'searchTerm'
  *      accountType: // value for 'accountType'
+ *      country: // value for 'country'
+ *      currency: // value for 'currency'
+ *      planCode: // value for 'planCode'
+ *      subscriptionStatus: // value for 'subscriptionStatus'
+ *      paymentProvider: // value for 'paymentProvider'
+ *      hasOverdueInvoices: // value for 'hasOverdueInvoices'
+ *      walletBalanceBelow: // value for 'walletBalanceBelow'
+ *      hasTaxIdentificationNumber: // value for 'hasTaxIdentificationNumber'
+ *      createdAtFrom: // value for 'createdAtFrom'
+ *      createdAtTo: // value for 'createdAtTo'
+ *      metadata: // value for 'metadata'
  *   },
  * });
  */
@@ -24486,6 +27570,57 @@ export type CustomersQueryHookResult = ReturnType<typeof useCustomersQuery>;
 export type CustomersLazyQueryHookResult = ReturnType<typeof useCustomersLazyQuery>;
 export type CustomersSuspenseQueryHookResult = ReturnType<typeof useCustomersSuspenseQuery>;
 export type CustomersQueryResult = Apollo.QueryResult<CustomersQuery, CustomersQueryVariables>;
+export const GetCustomersForImportDocument = gql`
+    query getCustomersForImport($page: Int, $limit: Int, $externalIds: [String!]) {
+  customers(page: $page, limit: $limit, externalIds: $externalIds) {
+    collection {
+      id
+      externalId
+      metadata {
+        id
+        key
+        value
+        displayInInvoice
+      }
+    }
+  }
+}
+    `;
+
+/**
+ * __useGetCustomersForImportQuery__
+ *
+ * To run a query within a React component, call `useGetCustomersForImportQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCustomersForImportQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetCustomersForImportQuery({
+ *   variables: {
+ *      page: // value for 'page'
+ *      limit: // value for 'limit'
+ *      externalIds: // value for 'externalIds'
+ *   },
+ * });
+ */
+export function useGetCustomersForImportQuery(baseOptions?: Apollo.QueryHookOptions<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>(GetCustomersForImportDocument, options);
+      }
+export function useGetCustomersForImportLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>(GetCustomersForImportDocument, options);
+        }
+export function useGetCustomersForImportSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>(GetCustomersForImportDocument, options);
+        }
+export type GetCustomersForImportQueryHookResult = ReturnType<typeof useGetCustomersForImportQuery>;
+export type GetCustomersForImportLazyQueryHookResult = ReturnType<typeof useGetCustomersForImportLazyQuery>;
+export type GetCustomersForImportSuspenseQueryHookResult = ReturnType<typeof useGetCustomersForImportSuspenseQuery>;
+export type GetCustomersForImportQueryResult = Apollo.QueryResult<GetCustomersForImportQuery, GetCustomersForImportQueryVariables>;
 export const GetinviteDocument = gql`
     query getinvite($token: String!) {
   invite(token: $token) {
@@ -25096,8 +28231,13 @@ export type GetPlanForDetailsLazyQueryHookResult = ReturnType<typeof useGetPlanF
 export type GetPlanForDetailsSuspenseQueryHookResult = ReturnType<typeof useGetPlanForDetailsSuspenseQuery>;
 export type GetPlanForDetailsQueryResult = Apollo.QueryResult<GetPlanForDetailsQuery, GetPlanForDetailsQueryVariables>;
 export const PlansDocument = gql`
-    query plans($page: Int, $limit: Int, $searchTerm: String) {
-  plans(page: $page, limit: $limit, searchTerm: $searchTerm) {
+    query plans($page: Int, $limit: Int, $searchTerm: String, $isCurrencyVariant: Boolean) {
+  plans(
+    page: $page
+    limit: $limit
+    searchTerm: $searchTerm
+    isCurrencyVariant: $isCurrencyVariant
+  ) {
     metadata {
       currentPage
       totalPages
@@ -25124,6 +28264,7 @@ export const PlansDocument = gql`
  *      page: // value for 'page'
  *      limit: // value for 'limit'
  *      searchTerm: // value for 'searchTerm'
+ *      isCurrencyVariant: // value for 'isCurrencyVariant'
  *   },
  * });
  */
@@ -25199,6 +28340,59 @@ export type GetSubscriptionForDetailsQueryHookResult = ReturnType<typeof useGetS
 export type GetSubscriptionForDetailsLazyQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsLazyQuery>;
 export type GetSubscriptionForDetailsSuspenseQueryHookResult = ReturnType<typeof useGetSubscriptionForDetailsSuspenseQuery>;
 export type GetSubscriptionForDetailsQueryResult = Apollo.QueryResult<GetSubscriptionForDetailsQuery, GetSubscriptionForDetailsQueryVariables>;
+export const GetTaxForDetailsDocument = gql`
+    query getTaxForDetails($id: ID!) {
+  tax(id: $id) {
+    id
+    name
+    code
+    description
+    rate
+    autoGenerated
+    customersCount
+    plansCount
+    addOnsCount
+    chargesCount
+    rateChanges {
+      id
+      ...TaxRateChangeItem
+    }
+  }
+}
+    ${TaxRateChangeItemFragmentDoc}`;
+
+/**
+ * __useGetTaxForDetailsQuery__
+ *
+ * To run a query within a React component, call `useGetTaxForDetailsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTaxForDetailsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetTaxForDetailsQuery({
+ *   variables: {
+ *      id: // value for 'id'
+ *   },
+ * });
+ */
+export function useGetTaxForDetailsQuery(baseOptions: Apollo.QueryHookOptions<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables> & ({ variables: GetTaxForDetailsQueryVariables; skip?: boolean; } | { skip: boolean; }) ) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables>(GetTaxForDetailsDocument, options);
+      }
+export function useGetTaxForDetailsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables>(GetTaxForDetailsDocument, options);
+        }
+export function useGetTaxForDetailsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables>(GetTaxForDetailsDocument, options);
+        }
+export type GetTaxForDetailsQueryHookResult = ReturnType<typeof useGetTaxForDetailsQuery>;
+export type GetTaxForDetailsLazyQueryHookResult = ReturnType<typeof useGetTaxForDetailsLazyQuery>;
+export type GetTaxForDetailsSuspenseQueryHookResult = ReturnType<typeof useGetTaxForDetailsSuspenseQuery>;
+export type GetTaxForDetailsQueryResult = Apollo.QueryResult<GetTaxForDetailsQuery, GetTaxForDetailsQueryVariables>;
 export const CreatePasswordResetDocument = gql`
     mutation createPasswordReset($input: CreatePasswordResetInput!) {
   createPasswordReset(input: $input) {
@@ -27615,6 +30809,56 @@ export type GetStripeIntegrationsListQueryHookResult = ReturnType<typeof useGetS
 export type GetStripeIntegrationsListLazyQueryHookResult = ReturnType<typeof useGetStripeIntegrationsListLazyQuery>;
 export type GetStripeIntegrationsListSuspenseQueryHookResult = ReturnType<typeof useGetStripeIntegrationsListSuspenseQuery>;
 export type GetStripeIntegrationsListQueryResult = Apollo.QueryResult<GetStripeIntegrationsListQuery, GetStripeIntegrationsListQueryVariables>;
+export const GetTaxesForTaxAssignmentsDocument = gql`
+    query getTaxesForTaxAssignments($limit: Int, $page: Int, $rate: Float) {
+  taxes(limit: $limit, page: $page, rate: $rate, order: "name") {
+    metadata {
+      currentPage
+      totalPages
+    }
+    collection {
+      id
+      appliedToOrganization
+      ...TaxForTaxAssignmentsDrawer
+    }
+  }
+}
+    ${TaxForTaxAssignmentsDrawerFragmentDoc}`;
+
+/**
+ * __useGetTaxesForTaxAssignmentsQuery__
+ *
+ * To run a query within a React component, call `useGetTaxesForTaxAssignmentsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTaxesForTaxAssignmentsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetTaxesForTaxAssignmentsQuery({
+ *   variables: {
+ *      limit: // value for 'limit'
+ *      page: // value for 'page'
+ *      rate: // value for 'rate'
+ *   },
+ * });
+ */
+export function useGetTaxesForTaxAssignmentsQuery(baseOptions?: Apollo.QueryHookOptions<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>) {
+        const options = {...defaultOptions, ...baseOptions}
+        return Apollo.useQuery<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>(GetTaxesForTaxAssignmentsDocument, options);
+      }
+export function useGetTaxesForTaxAssignmentsLazyQuery(baseOptions?: Apollo.LazyQueryHookOptions<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>) {
+          const options = {...defaultOptions, ...baseOptions}
+          return Apollo.useLazyQuery<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>(GetTaxesForTaxAssignmentsDocument, options);
+        }
+export function useGetTaxesForTaxAssignmentsSuspenseQuery(baseOptions?: Apollo.SkipToken | Apollo.SuspenseQueryHookOptions<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>) {
+          const options = baseOptions === Apollo.skipToken ? baseOptions : {...defaultOptions, ...baseOptions}
+          return Apollo.useSuspenseQuery<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>(GetTaxesForTaxAssignmentsDocument, options);
+        }
+export type GetTaxesForTaxAssignmentsQueryHookResult = ReturnType<typeof useGetTaxesForTaxAssignmentsQuery>;
+export type GetTaxesForTaxAssignmentsLazyQueryHookResult = ReturnType<typeof useGetTaxesForTaxAssignmentsLazyQuery>;
+export type GetTaxesForTaxAssignmentsSuspenseQueryHookResult = ReturnType<typeof useGetTaxesForTaxAssignmentsSuspenseQuery>;
+export type GetTaxesForTaxAssignmentsQueryResult = Apollo.QueryResult<GetTaxesForTaxAssignmentsQuery, GetTaxesForTaxAssignmentsQueryVariables>;
 export const GetTaxesSettingsInformationsDocument = gql`
     query getTaxesSettingsInformations($limit: Int, $page: Int) {
   taxes(limit: $limit, page: $page, order: "name") {
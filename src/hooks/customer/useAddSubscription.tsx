@@ -95,6 +95,7 @@ const cleanPlanValues = (planValues: PlanOverridesInput, formType: keyof typeof
       invoiceable: undefined,
       prorated: undefined,
       regroupPaidFees: undefined,
+      chargeTemplateId: undefined,
     })),
   }
 }
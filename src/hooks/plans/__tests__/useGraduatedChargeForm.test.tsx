@@ -406,6 +406,32 @@ describe('useGraduatedRange()', () => {
         ])
       })
     })
+
+    describe('replaceRanges()', () => {
+      it('should replace all the graduated ranges', async () => {
+        const { result } = await prepare({})
+        const graduatedRanges = [
+          { fromValue: '0', toValue: '10', flatAmount: undefined, perUnitAmount: '2' },
+          { fromValue: '11', toValue: '20', flatAmount: '5', perUnitAmount: '1' },
+          { fromValue: '21', toValue: null, flatAmount: undefined, perUnitAmount: '0.5' },
+        ]
+
+        await act(async () => await result.current.replaceRanges(graduatedRanges))
+
+        expect(result.current.tableDatas).toStrictEqual([
+          { ...graduatedRanges[0], disabledDelete: true },
+          { ...graduatedRanges[1], disabledDelete: false },
+          { ...graduatedRanges[2], disabledDelete: false },
+        ])
+        expect(result.current.infosCalculation[0]).toStrictEqual({
+          firstUnit: '21',
+          total: 35.5,
+          perUnit: 0,
+          flatFee: 0,
+          units: 0,
+        })
+      })
+    })
   })
 
   describe('with filters', () => {
@@ -337,6 +337,30 @@ describe('useGraduatedRange()', () => {
         ])
       })
     })
+
+    describe('replaceRanges()', () => {
+      it('should replace all the graduated percentage ranges', async () => {
+        const { result } = await prepare({})
+        const graduatedPercentageRanges = [
+          { fromValue: '0', toValue: '10', flatAmount: '1', rate: '2' },
+          { fromValue: '11', toValue: '20', flatAmount: undefined, rate: '1' },
+          { fromValue: '21', toValue: null, flatAmount: undefined, rate: '0.5' },
+        ]
+
+        await act(async () => await result.current.replaceRanges(graduatedPercentageRanges))
+
+        expect(result.current.tableDatas).toStrictEqual([
+          { ...graduatedPercentageRanges[0], disabledDelete: true },
+          { ...graduatedPercentageRanges[1], disabledDelete: false },
+          { ...graduatedPercentageRanges[2], disabledDelete: false },
+        ])
+        expect(result.current.infosCalculation).toStrictEqual([
+          { units: 10, rate: 2, flatAmount: 1 },
+          { units: 10, rate: 1, flatAmount: 0 },
+          { units: 20, rate: 0.5, flatAmount: 0 },
+        ])
+      })
+    })
   })
 
   describe('with filters', () => {
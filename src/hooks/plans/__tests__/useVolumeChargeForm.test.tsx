@@ -291,6 +291,25 @@ describe('useVolumeChargeForm()', () => {
       })
     })
 
+    describe('replaceRanges()', () => {
+      it('should replace all the volumeRanges', async () => {
+        const { result } = await prepare({})
+        const volumeRanges = [
+          { fromValue: '0', toValue: '10', flatAmount: undefined, perUnitAmount: '2' },
+          { fromValue: '11', toValue: '20', flatAmount: '5', perUnitAmount: '1' },
+          { fromValue: '21', toValue: null, flatAmount: undefined, perUnitAmount: '0.5' },
+        ]
+
+        await act(async () => await result.current.replaceRanges(volumeRanges))
+
+        expect(result.current.tableDatas).toStrictEqual([
+          { ...volumeRanges[0], disabledDelete: true },
+          { ...volumeRanges[1], disabledDelete: false },
+          { ...volumeRanges[2], disabledDelete: false },
+        ])
+      })
+    })
+
     describe('handleUpdate()', () => {
       it('should correctly udpate data', async () => {
         const volumeRanges = [
@@ -2,23 +2,21 @@ import styled from 'styled-components'
 
 import { Icon, Typography } from '~/components/designSystem'
 import { BasicComboBoxData } from '~/components/form'
+import {
+  getIsPayInAdvanceOptionDisabled,
+  TGetIsPayInAdvanceOptionDisabledProps,
+} from '~/components/plans/utils'
 import { AggregationTypeEnum, ChargeModelEnum } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { theme } from '~/styles'
 
+export type { TGetIsPayInAdvanceOptionDisabledProps }
+
 export type TGetChargeModelComboboxDataProps = {
   isPremium: boolean
   aggregationType: AggregationTypeEnum
 }
 
-export type TGetIsPayInAdvanceOptionDisabledProps = {
-  aggregationType: AggregationTypeEnum
-  chargeModel: ChargeModelEnum
-  isPayInAdvance: boolean
-  isProrated: boolean
-  isRecurring: boolean
-}
-
 export type TGetIsProRatedOptionDisabledProps = {
   aggregationType: AggregationTypeEnum
   chargeModel: ChargeModelEnum
@@ -105,49 +103,6 @@ export const useChargeForm: () => TUseChargeFormReturn = () => {
     })
   }
 
-  const getIsPayInAdvanceOptionDisabled = ({
-    aggregationType,
-    chargeModel,
-    // NOTE: keeping isPayInAdvance for future use
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    isPayInAdvance,
-    isProrated,
-    isRecurring,
-  }: TGetIsPayInAdvanceOptionDisabledProps): boolean => {
-    if (
-      aggregationType === AggregationTypeEnum.CountAgg &&
-      chargeModel === ChargeModelEnum.Volume
-    ) {
-      return true
-    } else if (aggregationType === AggregationTypeEnum.UniqueCountAgg) {
-      if (
-        chargeModel === ChargeModelEnum.Volume ||
-        (chargeModel === ChargeModelEnum.Graduated && isProrated)
-      ) {
-        return true
-      }
-    } else if (aggregationType === AggregationTypeEnum.LatestAgg) {
-      return true
-    } else if (aggregationType === AggregationTypeEnum.MaxAgg) {
-      return true
-    } else if (aggregationType === AggregationTypeEnum.SumAgg) {
-      if (chargeModel === ChargeModelEnum.Volume) {
-        return true
-      } else if (chargeModel === ChargeModelEnum.Graduated && isRecurring && isProrated) {
-        return true
-      }
-    } else if (aggregationType === AggregationTypeEnum.WeightedSumAgg) {
-      return true
-    } else if (aggregationType === AggregationTypeEnum.CustomAgg) {
-      if (chargeModel !== ChargeModelEnum.Standard && isRecurring && isProrated) {
-        return true
-      }
-    }
-
-    // Enabled by default
-    return false
-  }
-
   const getIsProRatedOptionDisabled = ({
     aggregationType,
     chargeModel,
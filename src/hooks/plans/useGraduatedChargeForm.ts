@@ -33,6 +33,7 @@ type UseGraduatedChargeForm = ({
 }) => {
   handleUpdate: (rangeIndex: number, fieldName: string, value?: number | string) => void
   addRange: () => void
+  replaceRanges: (ranges: Partial<GraduatedRangeInput>[]) => void
   deleteRange: (rangeIndex: number) => void
   tableDatas: RangeType[]
   infosCalculation: InfoCalculationRow[]
@@ -198,6 +199,9 @@ export const useGraduatedChargeForm: UseGraduatedChargeForm = ({
         formikProps.setFieldValue(formikIdentifier, newGraduatedRanges)
       }
     },
+    replaceRanges: (ranges) => {
+      formikProps.setFieldValue(formikIdentifier, ranges)
+    },
     deleteRange: (rangeIndex) => {
       const newGraduatedRanges = graduatedRanges.reduce<GraduatedRangeInput[]>((acc, range, i) => {
         if (i < rangeIndex) acc.push({ ...range })
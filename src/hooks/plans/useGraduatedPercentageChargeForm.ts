@@ -30,6 +30,7 @@ type useGraduatedPercentageChargeForm = ({
 }) => {
   handleUpdate: (rangeIndex: number, fieldName: string, value?: number | string) => void
   addRange: () => void
+  replaceRanges: (ranges: Partial<GraduatedPercentageRangeInput>[]) => void
   deleteRange: (rangeIndex: number) => void
   tableDatas: RangeType[]
   infosCalculation: InfoCalculationRow[]
@@ -176,6 +177,9 @@ export const useGraduatedPercentageChargeForm: useGraduatedPercentageChargeForm
         formikProps.setFieldValue(formikIdentifier, newgraduatedPercentageRanges)
       }
     },
+    replaceRanges: (ranges) => {
+      formikProps.setFieldValue(formikIdentifier, ranges)
+    },
     deleteRange: (rangeIndex) => {
       const newgraduatedPercentageRanges = graduatedPercentageRanges.reduce<
         GraduatedPercentageRangeInput[]
@@ -0,0 +1,36 @@
+import { addToast } from '~/core/apolloClient'
+import {
+  PlanExportFormatEnum,
+  serializePlanExport,
+  stringifyPlanExport,
+} from '~/core/serializers/serializePlanExport'
+import { handleDownloadTextFile } from '~/core/utils/downloadFiles'
+import { useGetSinglePlanLazyQuery } from '~/generated/graphql'
+
+const PLAN_EXPORT_MIME_TYPES: Record<PlanExportFormatEnum, string> = {
+  [PlanExportFormatEnum.json]: 'application/json',
+  [PlanExportFormatEnum.yaml]: 'application/yaml',
+}
+
+export const usePlanExport = () => {
+  const [getSinglePlan] = useGetSinglePlanLazyQuery({ fetchPolicy: 'network-only' })
+
+  const exportPlan = async (planId: string, format: PlanExportFormatEnum) => {
+    const { data } = await getSinglePlan({ variables: { id: planId } })
+
+    if (!data?.plan) {
+      return addToast({
+        severity: 'danger',
+        translateKey: 'text_62b31e1f6a5b8b1b745ece48',
+      })
+    }
+
+    handleDownloadTextFile({
+      content: stringifyPlanExport(serializePlanExport(data.plan), format),
+      fileName: `${data.plan.code}.${format}`,
+      mimeType: PLAN_EXPORT_MIME_TYPES[format],
+    })
+  }
+
+  return { exportPlan }
+}
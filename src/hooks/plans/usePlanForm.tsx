@@ -4,8 +4,16 @@ import { useEffect, useMemo } from 'react'
 import { generatePath, useNavigate, useParams, useSearchParams } from 'react-router-dom'
 import { array, boolean, number, object, string } from 'yup'
 
-import { LocalChargeInput, PlanFormInput } from '~/components/plans/types'
-import { transformFilterObjectToString } from '~/components/plans/utils'
+import {
+  LocalChargeInput,
+  LocalCurrencyVariantProperties,
+  LocalPlanCurrencyVariantInput,
+  PlanFormInput,
+} from '~/components/plans/types'
+import {
+  hasValidCurrencyVariantPrices,
+  transformFilterObjectToString,
+} from '~/components/plans/utils'
 import { REDIRECTION_ORIGIN_SUBSCRIPTION_USAGE } from '~/components/subscriptions/SubscriptionUsageLifetimeGraph'
 import { addToast, hasDefinedGQLError } from '~/core/apolloClient'
 import {
@@ -13,6 +21,10 @@ import {
   resetDuplicatePlanVar,
   useDuplicatePlanVar,
 } from '~/core/apolloClient/reactiveVars/duplicatePlanVar'
+import {
+  resetImportedPlanVar,
+  useImportedPlanVar,
+} from '~/core/apolloClient/reactiveVars/importedPlanVar'
 import { FORM_ERRORS_ENUM, FORM_TYPE_ENUM } from '~/core/constants/form'
 import {
   CustomerSubscriptionDetailsTabsOptionsEnum,
@@ -69,6 +81,36 @@ gql`
   ${EditPlanFragmentDoc}
 `
 
+// Prices entered by hand are returned by the API on each variant, in the same order as the plan charges
+const deserializeCurrencyVariantProperties = (
+  currencyVariants: EditPlanFragment['currencyVariants'],
+  chargeIndex: number,
+  filterIndex?: number,
+): LocalCurrencyVariantProperties | undefined => {
+  const manualCurrencyVariants = (currencyVariants || []).filter(
+    ({ currencyVariantExchangeRate }) => !currencyVariantExchangeRate,
+  )
+
+  if (!manualCurrencyVariants.length) return undefined
+
+  return manualCurrencyVariants.reduce<LocalCurrencyVariantProperties>(
+    (acc, { amountCurrency, charges }) => {
+      const charge = charges?.[chargeIndex]
+      const properties =
+        typeof filterIndex === 'number'
+          ? charge?.filters?.[filterIndex]?.properties
+          : charge?.properties
+
+      if (properties) {
+        acc[amountCurrency] = getPropertyShape(properties)
+      }
+
+      return acc
+    },
+    {},
+  )
+}
+
 interface UsePlanFormReturn {
   errorCode?: string
   formikProps: FormikProps<PlanFormInput>
@@ -91,6 +133,7 @@ export const usePlanForm: ({
   const [searchParams] = useSearchParams()
   const { planId: id } = useParams()
   const { parentId, type: actionType } = useDuplicatePlanVar()
+  const { values: importedPlanValues } = useImportedPlanVar()
   const { data, loading, error } = useGetSinglePlanQuery({
     context: { silentError: LagoApiError.NotFound },
     variables: { id: (id as string) || (parentId as string) || (planIdToFetch as string) },
@@ -104,6 +147,8 @@ export const usePlanForm: ({
       : FORM_TYPE_ENUM.creation
 
   const isEdition = type === FORM_TYPE_ENUM.edition
+  const isImport =
+    type === FORM_TYPE_ENUM.creation && !isUsedInSubscriptionForm && !!importedPlanValues
   const plan = data?.plan
   const initialCurrency =
     type === FORM_TYPE_ENUM.creation && !isUsedInSubscriptionForm
@@ -181,17 +226,45 @@ export const usePlanForm: ({
           ),
         }))
         .find(({ recurring }) => !!recurring),
-      charges: plan?.charges
-        ? (plan?.charges.map(
+      currencyVariants: isUsedInSubscriptionForm
+        ? undefined
+        : (plan?.currencyVariants || []).map(
             ({
-              taxes,
-              properties,
-              minAmountCents,
-              payInAdvance,
-              invoiceDisplayName,
-              filters,
-              ...charge
+              id: currencyVariantId,
+              amountCents: currencyVariantAmountCents,
+              amountCurrency: currencyVariantCurrency,
+              currencyVariantExchangeRate,
+              currencyVariantRoundingRule,
             }) => ({
+              // Duplicated plans get their own variants
+              id: type === FORM_TYPE_ENUM.duplicate ? undefined : currencyVariantId,
+              amountCurrency: currencyVariantCurrency,
+              isDerived: !!currencyVariantExchangeRate,
+              exchangeRate: currencyVariantExchangeRate
+                ? String(currencyVariantExchangeRate)
+                : undefined,
+              roundingRule: currencyVariantRoundingRule || undefined,
+              amountCents: String(
+                deserializeAmount(currencyVariantAmountCents || 0, currencyVariantCurrency),
+              ),
+            }),
+          ),
+      charges: plan?.charges
+        ? (plan?.charges.map(
+            (
+              {
+                taxes,
+                properties,
+                minAmountCents,
+                payInAdvance,
+                invoiceDisplayName,
+                filters,
+                chargeTemplate,
+                ...charge
+              },
+              chargeIndex,
+            ) => ({
+              chargeTemplateId: chargeTemplate?.id,
               // Used to not enable submit button on invoiceDisplayName reset
               invoiceDisplayName: invoiceDisplayName || '',
               taxes: taxes || [],
@@ -209,7 +282,7 @@ export const usePlanForm: ({
               payInAdvance: payInAdvance || false,
               properties: properties ? getPropertyShape(properties) : undefined,
               regroupPaidFees: charge.regroupPaidFees || null,
-              filters: (filters || []).map((filter) => {
+              filters: (filters || []).map((filter, filterIndex) => {
                 const values = Object.entries(filter.values || {}).reduce<string[]>(
                   (acc, [key, objectValues]) => {
                     ;(objectValues as string[]).map((v) => {
@@ -225,13 +298,25 @@ export const usePlanForm: ({
                   ...filter,
                   properties: getPropertyShape(filter.properties),
                   values,
+                  currencyVariantProperties: isUsedInSubscriptionForm
+                    ? undefined
+                    : deserializeCurrencyVariantProperties(
+                        plan.currencyVariants,
+                        chargeIndex,
+                        filterIndex,
+                      ),
                 }
               }),
+              currencyVariantProperties: isUsedInSubscriptionForm
+                ? undefined
+                : deserializeCurrencyVariantProperties(plan.currencyVariants, chargeIndex),
               ...charge,
             }),
           ) as LocalChargeInput[])
         : ([] as LocalChargeInput[]),
       cascadeUpdates: undefined,
+      // Plan imported from a file prefills the whole creation form
+      ...(isImport ? importedPlanValues : {}),
     },
     validationSchema: object().shape({
       name: string().required(''),
@@ -239,7 +324,15 @@ export const usePlanForm: ({
       interval: string().required(''),
       amountCents: string().required(''),
       trialPeriod: number().typeError(translate('text_624ea7c29103fd010732ab7d')).nullable(),
-      amountCurrency: string().required(''),
+      amountCurrency: string()
+        .required('')
+        .test({
+          message: translate('text_1792431965756h6ylet644hn'),
+          test: (amountCurrency, { parent }) =>
+            !(parent as PlanFormInput).currencyVariants?.some(
+              (currencyVariant) => currencyVariant.amountCurrency === amountCurrency,
+            ),
+        }),
       minimumCommitment: object()
         .test({
           test: function (value, { from }) {
@@ -314,6 +407,33 @@ export const usePlanForm: ({
         .nullable()
         .default(undefined),
       cascadeUpdates: boolean(),
+      currencyVariants: array()
+        .of(
+          object().shape({
+            amountCurrency: string().required(''),
+            exchangeRate: string().when('isDerived', {
+              is: true,
+              then: (schema) => schema.required(''),
+            }),
+            roundingRule: string().when('isDerived', {
+              is: true,
+              then: (schema) => schema.required(''),
+            }),
+            amountCents: string().when('isDerived', {
+              is: false,
+              then: (schema) => schema.required(''),
+            }),
+          }),
+        )
+        .test({
+          test: (currencyVariants, { parent }) =>
+            (currencyVariants || []).every((currencyVariant) =>
+              hasValidCurrencyVariantPrices(
+                (parent as PlanFormInput).charges,
+                currencyVariant as LocalPlanCurrencyVariantInput,
+              ),
+            ),
+        }),
     }),
     enableReinitialize: true,
     validateOnMount: true,
@@ -404,12 +524,16 @@ export const usePlanForm: ({
     return undefined
   }, [createError, updateError])
 
-  // Clear duplicate plan var when leaving the page
+  // Clear duplicate and imported plan vars when leaving the page
   useEffect(() => {
     return () => {
       if (type === FORM_TYPE_ENUM.duplicate) {
         resetDuplicatePlanVar()
       }
+
+      if (isImport) {
+        resetImportedPlanVar()
+      }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
@@ -48,6 +48,7 @@ type UseVolumeChargeForm = ({
 }) => {
   handleUpdate: (rangeIndex: number, fieldName: string, value?: number | string) => void
   addRange: () => void
+  replaceRanges: (ranges: Partial<VolumeRangeInput>[]) => void
   deleteRange: (rangeIndex: number) => void
   tableDatas: RangeType[]
   infosCalculation: InfoCalculationRow
@@ -158,6 +159,9 @@ export const useVolumeChargeForm: UseVolumeChargeForm = ({
         formikProps.setFieldValue(formikIdentifier, newVolumeRanges)
       }
     },
+    replaceRanges: (ranges) => {
+      formikProps.setFieldValue(formikIdentifier, ranges)
+    },
     deleteRange: (rangeIndex) => {
       const newVolumeRanges = volumeRanges.reduce<VolumeRangeInput[]>((acc, range, i) => {
         if (i < rangeIndex) acc.push({ ...range })
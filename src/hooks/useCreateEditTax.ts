@@ -27,6 +27,11 @@ gql`
   fragment TaxFormQueryShape on Tax {
     ...TaxForm
     autoGenerated
+    rateChanges {
+      id
+      rate
+      effectiveAt
+    }
   }
 
   query getSingleTax($id: ID!) {
@@ -20,6 +20,7 @@ import {
   ORGANIZATION_INFORMATIONS_ROUTE,
   settingRoutes,
   SETTINGS_ROUTE,
+  TAX_ASSIGNMENTS_SETTINGS_ROUTE,
   TAXES_SETTINGS_ROUTE,
   UPDATE_DUNNING_ROUTE,
   UPDATE_TAX_ROUTE,
@@ -112,7 +113,7 @@ const Settings = () => {
               {
                 title: translate('text_645bb193927b375079d28a8f'),
                 link: TAXES_SETTINGS_ROUTE,
-                match: [TAXES_SETTINGS_ROUTE],
+                match: [TAXES_SETTINGS_ROUTE, TAX_ASSIGNMENTS_SETTINGS_ROUTE],
                 hidden: !hasPermissions(['organizationTaxesView']),
               },
               {
@@ -46,6 +46,7 @@ import {
   PLAN_SUBSCRIPTION_DETAILS_ROUTE,
   PLANS_ROUTE,
   SETTINGS_ROUTE,
+  TAX_ASSIGNMENTS_SETTINGS_ROUTE,
   TAXES_SETTINGS_ROUTE,
   WEBHOOK_LOGS_ROUTE,
   WEBHOOK_LOGS_TAB_ROUTE,
@@ -395,6 +396,7 @@ const SideNav = () => {
                       MEMBERS_ROUTE,
                       ORGANIZATION_INFORMATIONS_ROUTE,
                       TAXES_SETTINGS_ROUTE,
+                      TAX_ASSIGNMENTS_SETTINGS_ROUTE,
                     ],
                     hidden: !hasPermissions(['organizationView']),
                   },
@@ -3,6 +3,8 @@ import { useRef } from 'react'
 import { generatePath, useNavigate, useParams } from 'react-router-dom'
 import styled from 'styled-components'
 
+import { AddOnAmountHistory } from '~/components/addOns/AddOnAmountHistory'
+import { AddOnUsage } from '~/components/addOns/AddOnUsage'
 import { DeleteAddOnDialog, DeleteAddOnDialogRef } from '~/components/addOns/DeleteAddOnDialog'
 import { Button, Popper, Skeleton, Typography } from '~/components/designSystem'
 import { DetailsHeader, DetailsHeaderSkeleton } from '~/components/details/DetailsHeader'
@@ -24,6 +26,8 @@ gql`
       amountCents
       amountCurrency
       code
+      customersCount
+      invoicesCount
       taxes {
         id
         code
@@ -201,6 +205,18 @@ const AddOnDetails = () => {
             </div>
           </DetailsCard>
         </section>
+
+        {!!addOn && (
+          <>
+            <AddOnUsage
+              addOnId={addOn.id}
+              amountCurrency={addOn.amountCurrency}
+              customersCount={addOn.customersCount}
+              invoicesCount={addOn.invoicesCount}
+            />
+            <AddOnAmountHistory addOnId={addOn.id} />
+          </>
+        )}
       </Container>
       <DeleteAddOnDialog ref={deleteDialogRef} />
     </>
@@ -214,7 +230,7 @@ const Container = styled.section`
   flex-direction: column;
   gap: ${theme.spacing(12)};
 
-  padding: 0 ${theme.spacing(12)};
+  padding: 0 ${theme.spacing(12)} ${theme.spacing(12)};
   max-width: 672px;
 `
 
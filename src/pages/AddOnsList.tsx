@@ -35,6 +35,7 @@ gql`
     amountCurrency
     amountCents
     customersCount
+    invoicesCount
     createdAt
   }
 
@@ -151,6 +152,17 @@ const AddOnsList = () => {
                 </Typography>
               ),
             },
+            {
+              key: 'invoicesCount',
+              title: translate('text_1792426436835e8munend4vj'),
+              textAlign: 'right',
+              minWidth: 112,
+              content: ({ invoicesCount }) => (
+                <Typography color="grey600" variant="bodyHl" noWrap>
+                  {invoicesCount}
+                </Typography>
+              ),
+            },
             {
               key: 'createdAt',
               title: translate('text_629728388c4d2300e2d380e3'),
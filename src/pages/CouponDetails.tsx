@@ -4,7 +4,13 @@ import { useRef } from 'react'
 import { generatePath, useNavigate, useParams } from 'react-router-dom'
 import styled from 'styled-components'
 
+import { CouponAnalytics } from '~/components/coupons/CouponAnalytics'
+import { CouponCodesList } from '~/components/coupons/CouponCodesList'
 import { DeleteCouponDialog, DeleteCouponDialogRef } from '~/components/coupons/DeleteCouponDialog'
+import {
+  GenerateCouponCodesDialog,
+  GenerateCouponCodesDialogRef,
+} from '~/components/coupons/GenerateCouponCodesDialog'
 import {
   TerminateCouponDialog,
   TerminateCouponDialogRef,
@@ -50,12 +56,15 @@ gql`
     amountCurrency
     percentageRate
     code
+    expiration
     expirationAt
     name
     frequency
     reusable
     couponType
     status
+    codesCount
+    redeemedCodesCount
     billableMetrics {
       id
       name
@@ -88,6 +97,7 @@ const CouponDetails = () => {
 
   const deleteDialogRef = useRef<DeleteCouponDialogRef>(null)
   const terminateDialogRef = useRef<TerminateCouponDialogRef>(null)
+  const generateCodesDialogRef = useRef<GenerateCouponCodesDialogRef>(null)
 
   const { data: couponResult, loading: isCouponLoading } = useGetCouponForDetailsQuery({
     variables: {
@@ -175,6 +185,20 @@ const CouponDetails = () => {
                 </Tooltip>
                 {coupon && (
                   <>
+                    {hasPermissions(['couponsCreate']) && (
+                      <Button
+                        data-test="coupon-details-generate-codes"
+                        variant="quaternary"
+                        align="left"
+                        disabled={coupon.status === CouponStatusEnum.Terminated}
+                        onClick={() => {
+                          generateCodesDialogRef.current?.openDialog(coupon)
+                          closePopper()
+                        }}
+                      >
+                        {translate('text_179242551730369hdzzkahpe')}
+                      </Button>
+                    )}
                     <Tooltip
                       title={translate('text_62878d88ea3bba00b56d33cf')}
                       disableHoverListener={coupon?.status !== CouponStatusEnum.Terminated}
@@ -391,10 +415,30 @@ const CouponDetails = () => {
                 </DetailsCard>
               </section>
             )}
+
+            {!!coupon && (
+              <CouponAnalytics
+                couponId={coupon.id}
+                couponType={coupon.couponType}
+                frequency={coupon.frequency}
+                expiration={coupon.expiration}
+                expirationAt={coupon.expirationAt}
+              />
+            )}
+
+            {!!coupon?.codesCount && (
+              <CouponCodesList
+                couponId={coupon.id}
+                couponCode={coupon.code}
+                codesCount={coupon.codesCount}
+                redeemedCodesCount={coupon.redeemedCodesCount}
+              />
+            )}
           </>
         )}
       </Container>
       <DeleteCouponDialog ref={deleteDialogRef} />
+      <GenerateCouponCodesDialog ref={generateCodesDialogRef} />
       <TerminateCouponDialog ref={terminateDialogRef} />
     </>
   )
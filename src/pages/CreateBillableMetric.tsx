@@ -6,7 +6,12 @@ import { useEffect, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { array, bool, number, object, string } from 'yup'
 
+import {
+  AggregationPlaygroundDrawer,
+  AggregationPlaygroundDrawerRef,
+} from '~/components/billableMetrics/AggregationPlaygroundDrawer'
 import { BillableMetricCodeSnippet } from '~/components/billableMetrics/BillableMetricCodeSnippet'
+import { BillableMetricImpactReport } from '~/components/billableMetrics/BillableMetricImpactReport'
 import {
   CustomExpressionDrawer,
   CustomExpressionDrawerRef,
@@ -30,6 +35,7 @@ import {
   TextInputField,
 } from '~/components/form'
 import { WarningDialog, WarningDialogRef } from '~/components/WarningDialog'
+import { resetInferredBillableMetricVar, useInferredBillableMetricVar } from '~/core/apolloClient'
 import { FORM_ERRORS_ENUM } from '~/core/constants/form'
 import { BILLABLE_METRICS_ROUTE } from '~/core/router'
 import {
@@ -102,8 +108,12 @@ const CreateBillableMetric = () => {
   const { isEdition, loading, billableMetric, errorCode, onSave } = useCreateEditBillableMetric()
 
   const warningDirtyAttributesDialogRef = useRef<WarningDialogRef>(null)
+  const impactReportDialogRef = useRef<WarningDialogRef>(null)
   const customExpressionDrawerRef = useRef<CustomExpressionDrawerRef>(null)
+  const aggregationPlaygroundDrawerRef = useRef<AggregationPlaygroundDrawerRef>(null)
   const canBeEdited = !billableMetric?.subscriptionsCount && !billableMetric?.plansCount
+  const { values: inferredValues } = useInferredBillableMetricVar()
+  const prefilledValues = isEdition ? undefined : inferredValues
 
   const formikProps = useFormik<
     CreateBillableMetricInput & {
@@ -112,15 +122,15 @@ const CreateBillableMetric = () => {
     }
   >({
     initialValues: {
-      name: billableMetric?.name || '',
-      code: billableMetric?.code || '',
+      name: billableMetric?.name || prefilledValues?.name || '',
+      code: billableMetric?.code || prefilledValues?.code || '',
       description: billableMetric?.description || '',
       expression: billableMetric?.expression || '',
       // @ts-ignore
-      aggregationType: billableMetric?.aggregationType || '',
-      fieldName: billableMetric?.fieldName || undefined,
+      aggregationType: billableMetric?.aggregationType || prefilledValues?.aggregationType || '',
+      fieldName: billableMetric?.fieldName || prefilledValues?.fieldName || undefined,
       recurring: billableMetric?.recurring || false,
-      filters: billableMetric?.filters || [],
+      filters: billableMetric?.filters || prefilledValues?.filters || [],
       aggregateOnTab: billableMetric?.expression
         ? AggregateOnTab.CustomExpression
         : AggregateOnTab.UniqueField,
@@ -213,6 +223,11 @@ const CreateBillableMetric = () => {
     setShouldDisplayDescription(!!formikProps.initialValues.description)
   }, [formikProps.initialValues.description])
 
+  // Clear the metric inferred from the Debugger events when leaving the page
+  useEffect(() => {
+    return () => resetInferredBillableMetricVar()
+  }, [])
+
   useEffect(() => {
     if (
       formikProps.values.aggregationType === AggregationTypeEnum.CountAgg &&
@@ -298,6 +313,11 @@ const CreateBillableMetric = () => {
                     )}
                   </Subtitle>
                 </div>
+                {!!prefilledValues && (
+                  <Alert type="info">
+                    {translate('text_1792424763766injdpdamrpx', { code: prefilledValues.code })}
+                  </Alert>
+                )}
                 <Card>
                   <Typography variant="subhead">
                     {translate('text_623b42ff8ee4e000ba87d0b8')}
@@ -564,6 +584,35 @@ const CreateBillableMetric = () => {
                     {formikProps.values?.aggregationType === AggregationTypeEnum.WeightedSumAgg && (
                       <Alert type="info">{translate('text_650062226a33c46e8205048e')}</Alert>
                     )}
+
+                    {!!formikProps.values.aggregationType && (
+                      <div>
+                        <Button
+                          variant="quaternary"
+                          startIcon="play"
+                          onClick={() => {
+                            const { values } = formikProps
+
+                            aggregationPlaygroundDrawerRef.current?.openDrawer({
+                              code: values.code,
+                              aggregationType: values.aggregationType,
+                              fieldName: values.fieldName,
+                              expression:
+                                values.aggregateOnTab === AggregateOnTab.CustomExpression
+                                  ? values.expression
+                                  : undefined,
+                              roundingFunction: values.roundingFunction,
+                              roundingPrecision: values.roundingPrecision,
+                              weightedInterval: values.weightedInterval,
+                              filters: values.filters,
+                            })
+                          }}
+                          data-test="open-aggregation-playground"
+                        >
+                          {translate('text_1792424180807smdlu65ssxw')}
+                        </Button>
+                      </div>
+                    )}
                   </Stack>
 
                   {!(isEdition && !canBeEdited && !billableMetric?.roundingFunction) && (
@@ -855,7 +904,11 @@ const CreateBillableMetric = () => {
                     fullWidth
                     data-test="submit"
                     size="large"
-                    onClick={formikProps.submitForm}
+                    onClick={
+                      isEdition
+                        ? () => impactReportDialogRef.current?.openDialog()
+                        : formikProps.submitForm
+                    }
                   >
                     {translate(
                       isEdition ? 'text_62582fb4675ece01137a7e6c' : 'text_623b42ff8ee4e000ba87d0d4',
@@ -874,6 +927,7 @@ const CreateBillableMetric = () => {
         ref={customExpressionDrawerRef}
         onSave={(expression: string) => formikProps.setFieldValue('expression', expression)}
       />
+      <AggregationPlaygroundDrawer ref={aggregationPlaygroundDrawerRef} />
       <WarningDialog
         ref={warningDirtyAttributesDialogRef}
         title={translate(
@@ -887,6 +941,28 @@ const CreateBillableMetric = () => {
         )}
         onContinue={() => navigate(BILLABLE_METRICS_ROUTE)}
       />
+      {isEdition && !!billableMetric?.id && (
+        <WarningDialog
+          ref={impactReportDialogRef}
+          mode="info"
+          title={translate('text_17924251591518sccjsfxzqo', {
+            billableMetricName: billableMetric.name,
+          })}
+          description={translate('text_1792425159153ipbpgyn0qrb')}
+          continueText={translate('text_62582fb4675ece01137a7e6c')}
+          onContinue={formikProps.submitForm}
+        >
+          <BillableMetricImpactReport
+            billableMetricId={billableMetric.id}
+            filters={formikProps.values.filters}
+            emptyState={
+              <Typography variant="body" color="grey600">
+                {translate('text_1792425159155qt70a5ch5ks')}
+              </Typography>
+            }
+          />
+        </WarningDialog>
+      )}
     </div>
   )
 }
@@ -1,6 +1,6 @@
 import { useFormik } from 'formik'
 import { RefObject, useCallback, useRef } from 'react'
-import { array, object, ref, string } from 'yup'
+import { ref } from 'yup'
 
 import { BillingAccordion } from '~/components/customers/createCustomer/BillingAccordion'
 import { CustomerInformation } from '~/components/customers/createCustomer/CustomerInformation'
@@ -15,23 +15,14 @@ import { CenteredPage } from '~/components/layouts/CenteredPage'
 import { PremiumWarningDialog, PremiumWarningDialogRef } from '~/components/PremiumWarningDialog'
 import { WarningDialog, WarningDialogRef } from '~/components/WarningDialog'
 import { hasDefinedGQLError } from '~/core/apolloClient'
-import { metadataSchema } from '~/formValidation/metadataSchema'
+import { customerSchema } from '~/formValidation/customerSchema'
 import {
-  AnrokCustomer,
   CreateCustomerInput,
   CurrencyEnum,
   CustomerAccountTypeEnum,
-  CustomerTypeEnum,
-  HubspotCustomer,
-  IntegrationTypeEnum,
-  NetsuiteCustomer,
   PremiumIntegrationTypeEnum,
-  ProviderCustomer,
   ProviderPaymentMethodsEnum,
-  ProviderTypeEnum,
-  SalesforceCustomer,
   UpdateCustomerInput,
-  XeroCustomer,
 } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { useCreateEditCustomer } from '~/hooks/useCreateEditCustomer'
@@ -100,124 +91,7 @@ const CreateCustomer = () => {
       paymentProvider: customer?.paymentProvider ?? undefined,
       metadata: customer?.metadata ?? undefined,
     },
-    validationSchema: object().shape({
-      customerType: string().oneOf(Object.values(CustomerTypeEnum)).nullable(),
-      name: string(),
-      firstname: string(),
-      lastname: string(),
-      email: string().email('text_620bc4d4269a55014d493fc3'),
-      externalId: string().required(''),
-      metadata: metadataSchema(),
-      providerCustomer: object().test({
-        test: function (value: Omit<ProviderCustomer, 'id'>, { from }) {
-          // Value can be undefined if no paymentProvider is selected
-          if (value && from && from[1] && !from[1].value.paymentProvider) {
-            return true
-          }
-
-          // if code is not selected, validation fails
-          if (value && from && from[1] && !from[1].value.paymentProviderCode) {
-            return false
-          }
-
-          if (from?.[1].value.paymentProvider !== ProviderTypeEnum.Cashfree) {
-            // if syncWithProvider is false, providerCustomerId is required
-            if (!value?.syncWithProvider && !value?.providerCustomerId) {
-              return false
-            }
-          }
-
-          return true
-        },
-      }),
-      integrationCustomers: array()
-        .of(
-          object()
-            .test({
-              test: function (
-                value:
-                  | Omit<NetsuiteCustomer, 'id'>
-                  | Omit<AnrokCustomer, 'id'>
-                  | Omit<XeroCustomer, 'id'>
-                  | Omit<HubspotCustomer, 'id'>
-                  | Omit<SalesforceCustomer, 'id'>,
-              ) {
-                if (!!value) {
-                  if (value.integrationType === IntegrationTypeEnum.Netsuite) {
-                    value = value as NetsuiteCustomer
-                    // If Netsuite integrationCode is not selected
-                    if (!value.integrationCode) {
-                      return false
-                    }
-
-                    // If syncWithProvider is true but no subsidiary is selected
-                    if (value?.syncWithProvider && !value?.subsidiaryId) {
-                      return false
-                    }
-                    // if syncWithProvider is false, externalCustomerId is required
-                    if (!value?.syncWithProvider && !value?.externalCustomerId) {
-                      return false
-                    }
-                  } else if (value.integrationType === IntegrationTypeEnum.Anrok) {
-                    value = value as AnrokCustomer
-                    // If Anrok integrationCode is not selected
-                    if (!value.integrationCode) {
-                      return false
-                    }
-
-                    // if syncWithProvider is false, externalCustomerId is required
-                    if (!value?.syncWithProvider && !value?.externalCustomerId) {
-                      return false
-                    }
-                  } else if (value.integrationType === IntegrationTypeEnum.Xero) {
-                    value = value as XeroCustomer
-                    // If Xero integrationCode is not selected
-                    if (!value.integrationCode) {
-                      return false
-                    }
-
-                    // if syncWithProvider is false, externalCustomerId is required
-                    if (!value?.syncWithProvider && !value?.externalCustomerId) {
-                      return false
-                    }
-                  } else if (value.integrationType === IntegrationTypeEnum.Hubspot) {
-                    value = value as HubspotCustomer
-                    // If Hubspot integrationCode is not selected
-                    if (!value.integrationCode) {
-                      return false
-                    }
-
-                    // targetedObject needs to be selected
-                    if (!value?.targetedObject) {
-                      return false
-                    }
-
-                    // if syncWithProvider is false, externalCustomerId is required
-                    if (!value?.syncWithProvider && !value?.externalCustomerId) {
-                      return false
-                    }
-                  } else if (value.integrationType === IntegrationTypeEnum.Salesforce) {
-                    value = value as SalesforceCustomer
-
-                    // If Salesforce integrationCode is not selected
-                    if (!value.integrationCode) {
-                      return false
-                    }
-
-                    // if syncWithProvider is false then externalCustomerId is required
-                    if (!value?.syncWithProvider && !value?.externalCustomerId) {
-                      return false
-                    }
-                  }
-                }
-
-                return true
-              },
-            })
-            .nullable(),
-        )
-        .nullable(),
-    }),
+    validationSchema: customerSchema,
     validateOnMount: true,
     enableReinitialize: true,
     onSubmit: async ({ metadata, ...values }, formikBag) => {
@@ -128,8 +128,8 @@ gql`
     }
   }
 
-  query getAddonListForInfoice($page: Int, $limit: Int, $searchTerm: String) {
-    addOns(page: $page, limit: $limit, searchTerm: $searchTerm) {
+  query getAddonListForInfoice($page: Int, $limit: Int, $searchTerm: String, $order: String) {
+    addOns(page: $page, limit: $limit, searchTerm: $searchTerm, order: $order) {
       metadata {
         currentPage
         totalPages
@@ -169,6 +169,9 @@ gql`
   ${AddOnForInvoiceEditTaxDialogFragmentDoc}
 `
 
+// The most invoiced add-ons are listed first
+const ADD_ONS_ORDER_BY_INVOICES_COUNT = 'invoices_count'
+
 type TaxMapType = Map<
   string,
   {
@@ -221,7 +224,7 @@ const CreateInvoice = () => {
   }, [customer?.taxes, hasTaxProvider, taxes?.collection])
 
   const [getAddOns, { data: addOnData }] = useGetAddonListForInfoiceLazyQuery({
-    variables: { limit: 20 },
+    variables: { limit: 20, order: ADD_ONS_ORDER_BY_INVOICES_COUNT },
   })
 
   const [getTaxFromTaxProvider] = useFetchDraftInvoiceTaxesMutation({
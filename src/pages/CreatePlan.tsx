@@ -1,24 +1,32 @@
 import { gql } from '@apollo/client'
 import { Stack } from '@mui/material'
-import { FC, PropsWithChildren, useRef } from 'react'
+import { FC, PropsWithChildren, useRef, useState } from 'react'
 import { generatePath, useNavigate, useSearchParams } from 'react-router-dom'
 
 import { Button, Card, Skeleton, Typography } from '~/components/designSystem'
+import { ButtonSelector } from '~/components/form'
 import {
   EditInvoiceDisplayName,
   EditInvoiceDisplayNameRef,
 } from '~/components/invoices/EditInvoiceDisplayName'
 import { ChargesSection } from '~/components/plans/ChargesSection'
 import { CommitmentsSection } from '~/components/plans/CommitmentsSection'
+import { CurrencyVariantsSection } from '~/components/plans/CurrencyVariantsSection'
 import { FixedFeeSection } from '~/components/plans/FixedFeeSection'
 import {
   ImpactOverridenSubscriptionsDialog,
   ImpactOverridenSubscriptionsDialogRef,
 } from '~/components/plans/ImpactOverridenSubscriptionsDialog'
 import { PlanCodeSnippet } from '~/components/plans/PlanCodeSnippet'
+import {
+  PlanLintWarningsDrawer,
+  PlanLintWarningsDrawerRef,
+} from '~/components/plans/PlanLintWarningsDrawer'
 import { PlanSettingsSection } from '~/components/plans/PlanSettingsSection'
+import { PricingSimulator } from '~/components/plans/PricingSimulator'
 import { ProgressiveBillingSection } from '~/components/plans/ProgressiveBillingSection'
 import { LocalChargeInput } from '~/components/plans/types'
+import { lintPlan } from '~/components/plans/utils'
 import { PremiumWarningDialog, PremiumWarningDialogRef } from '~/components/PremiumWarningDialog'
 import { REDIRECTION_ORIGIN_SUBSCRIPTION_USAGE } from '~/components/subscriptions/SubscriptionUsageLifetimeGraph'
 import { WarningDialog, WarningDialogRef } from '~/components/WarningDialog'
@@ -37,6 +45,7 @@ import {
 import {
   ChargeAccordionFragmentDoc,
   PlanForChargeAccordionFragmentDoc,
+  PlanForCurrencyVariantsSectionFragmentDoc,
   PlanForFixedFeeSectionFragmentDoc,
   PlanForSettingsSectionFragmentDoc,
 } from '~/generated/graphql'
@@ -104,6 +113,9 @@ gql`
         code
         ...BillableMetricForPlan
       }
+      chargeTemplate {
+        id
+      }
       ...ChargeAccordion
       chargeModel
     }
@@ -117,14 +129,21 @@ gql`
     ...PlanForChargeAccordion
     ...PlanForSettingsSection
     ...PlanForFixedFeeSection
+    ...PlanForCurrencyVariantsSection
   }
 
   ${ChargeAccordionFragmentDoc}
   ${PlanForChargeAccordionFragmentDoc}
   ${PlanForSettingsSectionFragmentDoc}
   ${PlanForFixedFeeSectionFragmentDoc}
+  ${PlanForCurrencyVariantsSectionFragmentDoc}
 `
 
+enum PlanFormSidePanelEnum {
+  codeSnippet = 'codeSnippet',
+  pricingSimulator = 'pricingSimulator',
+}
+
 const CreatePlan = () => {
   const navigate = useNavigate()
   const { translate } = useInternationalization()
@@ -135,6 +154,10 @@ const CreatePlan = () => {
   const warningDialogRef = useRef<WarningDialogRef>(null)
   const impactOverridenSubscriptionsDialogRef = useRef<ImpactOverridenSubscriptionsDialogRef>(null)
   const editInvoiceDisplayNameRef = useRef<EditInvoiceDisplayNameRef>(null)
+  const planLintWarningsDrawerRef = useRef<PlanLintWarningsDrawerRef>(null)
+  const [sidePanel, setSidePanel] = useState<PlanFormSidePanelEnum>(
+    PlanFormSidePanelEnum.codeSnippet,
+  )
 
   const canBeEdited = !plan?.subscriptionsCount
 
@@ -173,6 +196,20 @@ const CreatePlan = () => {
     }
   }
 
+  const savePlan = () => {
+    if (plan?.hasOverriddenPlans && isEdition) {
+      return impactOverridenSubscriptionsDialogRef.current?.openDialog({
+        onSave: async (cascadeUpdates) => {
+          await formikProps.setFieldValue('cascadeUpdates', cascadeUpdates)
+
+          return formikProps.submitForm()
+        },
+      })
+    }
+
+    return formikProps.submitForm()
+  }
+
   return (
     <div>
       <PageHeader.Wrapper>
@@ -225,6 +262,8 @@ const CreatePlan = () => {
                     formikProps={formikProps}
                     isEdition={isEdition}
                   />
+
+                  <CurrencyVariantsSection formikProps={formikProps} />
                 </SectionWrapper>
                 <SectionWrapper>
                   <SectionTitle>
@@ -285,17 +324,17 @@ const CreatePlan = () => {
                   disabled={!formikProps.isValid || (isEdition && !formikProps.dirty)}
                   size="large"
                   onClick={() => {
-                    if (plan?.hasOverriddenPlans && isEdition) {
-                      return impactOverridenSubscriptionsDialogRef.current?.openDialog({
-                        onSave: async (cascadeUpdates) => {
-                          await formikProps.setFieldValue('cascadeUpdates', cascadeUpdates)
+                    const lintWarnings = lintPlan(formikProps.values)
 
-                          return formikProps.submitForm()
-                        },
+                    if (lintWarnings.length) {
+                      return planLintWarningsDrawerRef.current?.openDrawer({
+                        warnings: lintWarnings,
+                        charges: formikProps.values.charges,
+                        onSave: savePlan,
                       })
                     }
 
-                    return formikProps.submitForm()
+                    return savePlan()
                   }}
                   data-test="submit"
                 >
@@ -310,7 +349,31 @@ const CreatePlan = () => {
           )}
         </Main>
         <Side>
-          <PlanCodeSnippet loading={loading} plan={formikProps.values} />
+          <div>
+            <div className="flex h-nav items-center px-8 shadow-b">
+              <ButtonSelector
+                value={sidePanel}
+                onChange={(value) => setSidePanel(value as PlanFormSidePanelEnum)}
+                options={[
+                  {
+                    value: PlanFormSidePanelEnum.codeSnippet,
+                    label: translate('text_623b42ff8ee4e000ba87d0b2'),
+                  },
+                  {
+                    value: PlanFormSidePanelEnum.pricingSimulator,
+                    label: translate('text_1792420145470guuo7wt8txg'),
+                  },
+                ]}
+              />
+            </div>
+            <div className="h-[calc(100%-theme(space.nav))]">
+              {sidePanel === PlanFormSidePanelEnum.codeSnippet ? (
+                <PlanCodeSnippet displayHead={false} loading={loading} plan={formikProps.values} />
+              ) : (
+                <PricingSimulator plan={formikProps.values} />
+              )}
+            </div>
+          </div>
         </Side>
       </Content>
       <WarningDialog
@@ -323,6 +386,7 @@ const CreatePlan = () => {
       <ImpactOverridenSubscriptionsDialog ref={impactOverridenSubscriptionsDialogRef} />
       <EditInvoiceDisplayName ref={editInvoiceDisplayNameRef} />
       <PremiumWarningDialog ref={premiumWarningDialogRef} />
+      <PlanLintWarningsDrawer ref={planLintWarningsDrawerRef} />
     </div>
   )
 }
@@ -1,16 +1,21 @@
 import { InputAdornment } from '@mui/material'
 import { useFormik } from 'formik'
+import { DateTime } from 'luxon'
 import { useEffect, useRef, useState } from 'react'
-import { number, object, string } from 'yup'
+import { date, number, object, string } from 'yup'
 
-import { Button, Card, Skeleton, Tooltip, Typography } from '~/components/designSystem'
-import { TextInputField } from '~/components/form'
+import { Alert, Button, Card, Skeleton, Tooltip, Typography } from '~/components/designSystem'
+import { Checkbox, DatePickerField, TextInputField } from '~/components/form'
 import { TaxCodeSnippet } from '~/components/taxes/TaxCodeSnippet'
+import { TaxRateChangeImpact } from '~/components/taxes/TaxRateChangeImpact'
 import { TaxFormInput } from '~/components/taxes/types'
+import { getScheduledTaxRateChanges } from '~/components/taxes/utils'
 import { WarningDialog, WarningDialogRef } from '~/components/WarningDialog'
 import { FORM_ERRORS_ENUM } from '~/core/constants/form'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { useCreateEditTax } from '~/hooks/useCreateEditTax'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
 import { PageHeader } from '~/styles'
 import {
   ButtonContainer,
@@ -28,6 +33,8 @@ const CreateTaxRate = () => {
   const leavingNotSavedChargesWarningDialogRef = useRef<WarningDialogRef>(null)
   const savingAppliedTaxRateWarningDialogRef = useRef<WarningDialogRef>(null)
   const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const [isRateChangeScheduled, setIsRateChangeScheduled] = useState<boolean>(false)
   const formikProps = useFormik<TaxFormInput>({
     initialValues: {
       code: tax?.code || '',
@@ -35,18 +42,36 @@ const CreateTaxRate = () => {
       name: tax?.name || '',
       // @ts-ignore
       rate: isNaN(Number(tax?.rate)) ? '' : String(tax?.rate),
+      rateEffectiveAt: undefined,
     },
     validationSchema: object().shape({
       code: string().required(''),
       description: string(),
       name: string().required(''),
       rate: number().max(100, 'text_645bb193927b375079d28b88').required(''),
+      rateEffectiveAt: date().min(
+        DateTime.now().endOf('day'),
+        translate('text_17924268492865g1pv2db3ox'),
+      ),
     }),
     enableReinitialize: true,
     validateOnMount: true,
     onSubmit: onSave,
   })
 
+  const scheduledRateChanges = getScheduledTaxRateChanges(tax?.rateChanges || [])
+  const hasRateChanged = isEdition && formikProps.values.rate !== formikProps.initialValues.rate
+  const canScheduleRateChange = hasRateChanged && !tax?.autoGenerated
+
+  useEffect(() => {
+    // The rate is back to its current value, there is nothing to schedule anymore
+    if (!canScheduleRateChange && isRateChangeScheduled) {
+      setIsRateChangeScheduled(false)
+      formikProps.setFieldValue('rateEffectiveAt', undefined)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [canScheduleRateChange])
+
   const [shouldDisplayDescription, setShouldDisplayDescription] = useState<boolean>(
     !!formikProps.initialValues.description,
   )
@@ -196,15 +221,64 @@ const CreateTaxRate = () => {
                     }}
                     formikProps={formikProps}
                   />
+
+                  {!!scheduledRateChanges.length && (
+                    <Alert type="info">
+                      {translate('text_1792426849288n1pie1vo05e', {
+                        rate: intlFormatNumber(scheduledRateChanges[0].rate / 100, {
+                          style: 'percent',
+                        }),
+                        date: formatTimeOrgaTZ(scheduledRateChanges[0].effectiveAt),
+                      })}
+                    </Alert>
+                  )}
+
+                  {canScheduleRateChange && (
+                    <div className="flex flex-col gap-4">
+                      <Checkbox
+                        name="isRateChangeScheduled"
+                        value={isRateChangeScheduled}
+                        label={translate('text_1792426849290hszcty6bzrs')}
+                        sublabel={translate('text_1792426849292slgmatsufd4')}
+                        onChange={(_, checked) => {
+                          setIsRateChangeScheduled(checked)
+                          formikProps.setFieldValue('rateEffectiveAt', undefined)
+                        }}
+                      />
+
+                      {isRateChangeScheduled && (
+                        <>
+                          <DatePickerField
+                            disablePast
+                            name="rateEffectiveAt"
+                            label={translate('text_17924268492956g9v9h0ctwi')}
+                            placeholder={translate('text_632d68358f1fedc68eed3ea5')}
+                            formikProps={formikProps}
+                          />
+                          {!!tax && !!formikProps.values.rateEffectiveAt && (
+                            <TaxRateChangeImpact
+                              taxId={tax.id}
+                              effectiveAt={formikProps.values.rateEffectiveAt}
+                            />
+                          )}
+                        </>
+                      )}
+                    </div>
+                  )}
                 </Card>
 
                 <ButtonContainer>
                   <Button
-                    disabled={!formikProps.isValid || (isEdition && !formikProps.dirty)}
+                    disabled={
+                      !formikProps.isValid ||
+                      (isEdition && !formikProps.dirty) ||
+                      (isRateChangeScheduled && !formikProps.values.rateEffectiveAt)
+                    }
                     fullWidth
                     size="large"
                     onClick={() =>
-                      (tax?.customersCount || 0) > 0
+                      // A scheduled change does not affect anything before its effective date
+                      (tax?.customersCount || 0) > 0 && !formikProps.values.rateEffectiveAt
                         ? savingAppliedTaxRateWarningDialogRef.current?.openDialog()
                         : formikProps.submitForm()
                     }
@@ -2,6 +2,7 @@ import { gql } from '@apollo/client'
 import { useRef } from 'react'
 import { generatePath, useNavigate, useParams } from 'react-router-dom'
 
+import { CustomerActivityTimeline } from '~/components/customers/activity/CustomerActivityTimeline'
 import {
   AddCouponToCustomerDialog,
   AddCouponToCustomerDialogRef,
@@ -15,6 +16,7 @@ import {
   DeleteCustomerDialog,
   DeleteCustomerDialogRef,
 } from '~/components/customers/DeleteCustomerDialog'
+import { CustomerGroup } from '~/components/customers/group/CustomerGroup'
 import { CustomerCoupons } from '~/components/customers/overview/CustomerCoupons'
 import { CustomerSubscriptionsList } from '~/components/customers/overview/CustomerSubscriptionsList'
 import { CustomerUsage } from '~/components/customers/usage/CustomerUsage'
@@ -72,6 +74,7 @@ gql`
     applicableTimezone
     hasOverdueInvoices
     accountType
+    childCustomersCount
     ...AddCustomerDrawer
     ...CustomerMainInfos
   }
@@ -118,6 +121,7 @@ const CustomerDetails = () => {
     hasCreditNotes,
     hasOverdueInvoices,
     applicableTimezone,
+    childCustomersCount,
   } = data?.customer || {}
 
   const customerName = data?.customer?.displayName
@@ -378,6 +382,36 @@ const CustomerDetails = () => {
                         </div>
                       ),
                     },
+                    {
+                      title: translate('text_1792428048111g9plwl7ld3w'),
+                      link: generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+                        customerId: customerId as string,
+                        tab: CustomerDetailsTabsOptions.activity,
+                      }),
+                      component: (
+                        <CustomerActivityTimeline
+                          customerId={customerId as string}
+                          customerTimezone={safeTimezone}
+                        />
+                      ),
+                    },
+                    {
+                      title: translate('text_17924292542113i54q00ryhz'),
+                      link: generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+                        customerId: customerId as string,
+                        tab: CustomerDetailsTabsOptions.group,
+                      }),
+                      hidden: !childCustomersCount,
+                      component: (
+                        <CustomerGroup
+                          customerId={customerId as string}
+                          externalCustomerId={externalId}
+                          customerName={customerName}
+                          userCurrency={data?.customer?.currency || undefined}
+                          customerTimezone={safeTimezone}
+                        />
+                      ),
+                    },
                     {
                       title: translate('text_62d175066d2dbf1d50bc937c'),
                       link: generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
@@ -476,6 +510,7 @@ const CustomerDetails = () => {
                   loading={
                     ![
                       CustomerDetailsTabsOptions.overview,
+                      CustomerDetailsTabsOptions.activity,
                       CustomerDetailsTabsOptions.usage,
                     ].includes(tab as CustomerDetailsTabsOptions) && loading
                   }
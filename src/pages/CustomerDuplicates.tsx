@@ -0,0 +1,223 @@
+import { gql } from '@apollo/client'
+import { useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import {
+  CustomerMergeDrawer,
+  CustomerMergeDrawerRef,
+} from '~/components/customers/duplicates/CustomerMergeDrawer'
+import { Button, Chip, InfiniteScroll, Table, Typography } from '~/components/designSystem'
+import { ButtonSelector } from '~/components/form'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { CUSTOMERS_LIST_ROUTE } from '~/core/router'
+import { CustomerDuplicateCriteriaEnum, useGetCustomerDuplicatesQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { PageHeader } from '~/styles'
+
+gql`
+  fragment CustomerForDuplicatesList on Customer {
+    id
+    displayName
+    externalId
+    email
+  }
+
+  query getCustomerDuplicates(
+    $criteria: [CustomerDuplicateCriteriaEnum!]
+    $page: Int
+    $limit: Int
+  ) {
+    customerDuplicates(criteria: $criteria, page: $page, limit: $limit) {
+      metadata {
+        currentPage
+        totalPages
+      }
+      collection {
+        id
+        matchedCriteria
+        nameSimilarity
+        customer {
+          ...CustomerForDuplicatesList
+        }
+        duplicate {
+          ...CustomerForDuplicatesList
+        }
+      }
+    }
+  }
+`
+
+const ALL_CRITERIA = 'all'
+
+const CUSTOMER_DUPLICATE_CRITERIA_TRANSLATION_KEYS: Record<CustomerDuplicateCriteriaEnum, string> =
+  {
+    [CustomerDuplicateCriteriaEnum.Email]: 'text_17924282920894s0cot0fveb',
+    [CustomerDuplicateCriteriaEnum.TaxIdentificationNumber]: 'text_1792428292091rldgr6r081a',
+    [CustomerDuplicateCriteriaEnum.Name]: 'text_17924282920935yuq6feqtky',
+    [CustomerDuplicateCriteriaEnum.BillingAddress]: 'text_17924282920953psa2dk1qkb',
+  }
+
+const CustomerDuplicates = () => {
+  const { translate } = useInternationalization()
+  const navigate = useNavigate()
+  const mergeDrawerRef = useRef<CustomerMergeDrawerRef>(null)
+  const [criteria, setCriteria] = useState<CustomerDuplicateCriteriaEnum | typeof ALL_CRITERIA>(
+    ALL_CRITERIA,
+  )
+
+  const { data, loading, error, fetchMore, refetch } = useGetCustomerDuplicatesQuery({
+    variables: { criteria: criteria === ALL_CRITERIA ? undefined : [criteria], limit: 20 },
+    notifyOnNetworkStatusChange: true,
+    fetchPolicy: 'network-only',
+    nextFetchPolicy: 'network-only',
+  })
+
+  const renderCustomer = ({
+    displayName,
+    externalId,
+  }: {
+    displayName: string
+    externalId: string
+  }) => (
+    <div className="flex flex-col overflow-hidden">
+      <Typography variant="bodyHl" color="grey700" noWrap>
+        {displayName || '-'}
+      </Typography>
+      <Typography variant="caption" color="grey600" noWrap>
+        {externalId}
+      </Typography>
+    </div>
+  )
+
+  return (
+    <>
+      <PageHeader.Wrapper>
+        <PageHeader.Group className="overflow-hidden">
+          <Button
+            icon="arrow-left"
+            variant="quaternary"
+            onClick={() => navigate(CUSTOMERS_LIST_ROUTE)}
+          />
+          <Typography variant="bodyHl" color="textSecondary" noWrap>
+            {translate('text_1792428292083g5uf6gvv894')}
+          </Typography>
+        </PageHeader.Group>
+      </PageHeader.Wrapper>
+
+      <div className="flex flex-col gap-4 px-4 py-8 shadow-b md:px-12">
+        <div className="flex flex-col gap-1">
+          <Typography variant="headline" color="grey700">
+            {translate('text_1792428292083g5uf6gvv894')}
+          </Typography>
+          <Typography variant="body" color="grey600">
+            {translate('text_1792428292085wdm2nyhsk6k')}
+          </Typography>
+        </div>
+
+        <ButtonSelector
+          value={criteria}
+          options={[
+            { value: ALL_CRITERIA, label: translate('text_17924282920875fjk03h990r') },
+            ...Object.values(CustomerDuplicateCriteriaEnum).map((value) => ({
+              value,
+              label: translate(CUSTOMER_DUPLICATE_CRITERIA_TRANSLATION_KEYS[value]),
+            })),
+          ]}
+          onChange={(value) =>
+            setCriteria(value as CustomerDuplicateCriteriaEnum | typeof ALL_CRITERIA)
+          }
+        />
+      </div>
+
+      <InfiniteScroll
+        onBottom={() => {
+          const { currentPage = 0, totalPages = 0 } = data?.customerDuplicates.metadata || {}
+
+          currentPage < totalPages &&
+            !loading &&
+            fetchMore({
+              variables: { page: currentPage + 1 },
+            })
+        }}
+      >
+        <Table
+          name="customer-duplicates-list"
+          data={data?.customerDuplicates.collection || []}
+          isLoading={loading}
+          hasError={!!error}
+          containerSize={{
+            default: 16,
+            md: 48,
+          }}
+          columns={[
+            {
+              key: 'customer.id',
+              title: translate('text_1792428292098kosrr6gn1eq'),
+              minWidth: 200,
+              content: ({ customer }) => renderCustomer(customer),
+            },
+            {
+              key: 'duplicate.id',
+              title: translate('text_1792428292100b17xtzel3av'),
+              minWidth: 200,
+              content: ({ duplicate }) => renderCustomer(duplicate),
+            },
+            {
+              key: 'nameSimilarity',
+              title: translate('text_1792428292102i1vlwwhis23'),
+              maxSpace: true,
+              content: ({ matchedCriteria, nameSimilarity }) => (
+                <div className="flex flex-wrap gap-2">
+                  {matchedCriteria.map((matchedCriterion) => (
+                    <Chip
+                      key={`customer-duplicate-criteria-${matchedCriterion}`}
+                      size="small"
+                      label={
+                        matchedCriterion === CustomerDuplicateCriteriaEnum.Name
+                          ? `${translate(CUSTOMER_DUPLICATE_CRITERIA_TRANSLATION_KEYS[matchedCriterion])} (${intlFormatNumber(nameSimilarity, { style: 'percent' })})`
+                          : translate(
+                              CUSTOMER_DUPLICATE_CRITERIA_TRANSLATION_KEYS[matchedCriterion],
+                            )
+                      }
+                    />
+                  ))}
+                </div>
+              ),
+            },
+          ]}
+          actionColumn={({ customer, duplicate }) => (
+            <Button
+              variant="quaternary"
+              size="small"
+              onClick={() =>
+                mergeDrawerRef.current?.openDrawer({
+                  customerId: customer.id,
+                  duplicateId: duplicate.id,
+                })
+              }
+            >
+              {translate('text_1792428292104csldia3y5lp')}
+            </Button>
+          )}
+          placeholder={{
+            errorState: {
+              title: translate('text_63ac86d797f728a87b2f9fea'),
+              subtitle: translate('text_63ac86d797f728a87b2f9ff2'),
+              buttonTitle: translate('text_63ac86d797f728a87b2f9ffa'),
+              buttonAction: () => location.reload(),
+              buttonVariant: 'primary',
+            },
+            emptyState: {
+              title: translate('text_1792428292106goexq5kpaaz'),
+              subtitle: translate('text_17924282921080hopv7eyhtj'),
+            },
+          }}
+        />
+      </InfiniteScroll>
+
+      <CustomerMergeDrawer ref={mergeDrawerRef} onDuplicateDeleted={() => refetch()} />
+    </>
+  )
+}
+
+export default CustomerDuplicates
@@ -1,13 +1,20 @@
 import { gql } from '@apollo/client'
 import { useFormik } from 'formik'
-import { FC, useEffect } from 'react'
-import { generatePath, useNavigate, useParams } from 'react-router-dom'
+import { FC, useEffect, useState } from 'react'
+import { generatePath, matchPath, useLocation, useNavigate, useParams } from 'react-router-dom'
 import { object, string } from 'yup'
 
 import { Button, Typography } from '~/components/designSystem'
+import { ButtonSelector } from '~/components/form'
 import { addToast, hasDefinedGQLError } from '~/core/apolloClient'
+import { CustomerDetailsTabsOptions } from '~/core/constants/tabsOptions'
 import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
-import { CUSTOMER_DETAILS_ROUTE, ERROR_404_ROUTE } from '~/core/router'
+import {
+  CUSTOMER_DETAILS_ROUTE,
+  CUSTOMER_DETAILS_TAB_ROUTE,
+  CUSTOMER_GROUP_REQUEST_OVERDUE_PAYMENT_ROUTE,
+  ERROR_404_ROUTE,
+} from '~/core/router'
 import { deserializeAmount } from '~/core/serializers/serializeAmount'
 import { Locale, LocaleEnum } from '~/core/translations'
 import {
@@ -38,7 +45,7 @@ import {
 } from './components/RequestPaymentForm'
 
 gql`
-  query getRequestOverduePaymentInfos($id: ID!) {
+  query getRequestOverduePaymentInfos($id: ID!, $includeChildCustomers: Boolean) {
     organization {
       defaultCurrency
       ...OrganizationForDunningEmail
@@ -57,7 +64,11 @@ gql`
       }
     }
 
-    invoices(paymentOverdue:true, customerId: $id) {
+    invoices(
+      paymentOverdue: true
+      customerId: $id
+      includeChildCustomers: $includeChildCustomers
+    ) {
       collection {
         ...InvoicesForDunningEmail
         ...InvoicesForRequestOverduePaymentForm
@@ -82,18 +93,43 @@ gql`
 const CustomerRequestOverduePayment: FC = () => {
   const { translate } = useInternationalization()
   const { customerId } = useParams()
+  const { pathname } = useLocation()
   const navigate = useNavigate()
   const { isPremium } = useCurrentUser()
+  // The group request also covers the overdue invoices of the child customers
+  const isGroupRequest = !!matchPath(CUSTOMER_GROUP_REQUEST_OVERDUE_PAYMENT_ROUTE, pathname)
+  const customerRoute = isGroupRequest
+    ? generatePath(CUSTOMER_DETAILS_TAB_ROUTE, {
+        customerId: customerId ?? '',
+        tab: CustomerDetailsTabsOptions.group,
+      })
+    : generatePath(CUSTOMER_DETAILS_ROUTE, { customerId: customerId ?? '' })
 
   const {
     data: { customer, organization, paymentRequests, invoices } = {},
     loading,
     error,
   } = useGetRequestOverduePaymentInfosQuery({
-    variables: { id: customerId ?? '' },
+    variables: { id: customerId ?? '', includeChildCustomers: isGroupRequest },
   })
 
   const hasDunningIntegration = !!isPremium
+  const [selectedCurrency, setSelectedCurrency] = useState<CurrencyEnum>()
+
+  const defaultCurrency = customer?.currency || organization?.defaultCurrency || CurrencyEnum.Usd
+  // The invoices of a group can be in several currencies, a payment request covers one of them
+  const invoicesCurrencies = Array.from(
+    new Set((invoices?.collection ?? []).map(({ currency }) => currency || defaultCurrency)),
+  )
+  const requestCurrency =
+    [selectedCurrency, defaultCurrency].find(
+      (currency) => !!currency && invoicesCurrencies.includes(currency),
+    ) ||
+    invoicesCurrencies[0] ||
+    defaultCurrency
+  const invoicesCollection = (invoices?.collection ?? []).filter(
+    ({ currency }) => (currency || defaultCurrency) === requestCurrency,
+  )
 
   const [paymentRequest, paymentRequestStatus] = useCreatePaymentRequestMutation({
     refetchQueries: ['getCustomerOverdueBalances'],
@@ -106,7 +142,7 @@ const CustomerRequestOverduePayment: FC = () => {
         translateKey: 'text_66b9e095a7dc6c6d3dabeed4',
       })
 
-      navigate(generatePath(CUSTOMER_DETAILS_ROUTE, { customerId: customerId ?? '' }))
+      navigate(customerRoute)
     },
     onError(mutationError) {
       if (hasDefinedGQLError('InvoicesNotOverdue', mutationError)) {
@@ -145,18 +181,15 @@ const CustomerRequestOverduePayment: FC = () => {
           input: {
             externalCustomerId: customer?.externalId ?? '',
             email: serializeEmails(values.emails),
-            lagoInvoiceIds: invoices?.collection?.map((invoice) => invoice.id),
+            lagoInvoiceIds: invoicesCollection.map((invoice) => invoice.id),
           },
         },
       })
     },
   })
 
-  const defaultCurrency = customer?.currency || organization?.defaultCurrency || CurrencyEnum.Usd
-  const invoicesCollection = invoices?.collection ?? []
   const totalAmount = invoicesCollection.reduce(
-    (acc, { totalDueAmountCents, currency }) =>
-      acc + deserializeAmount(totalDueAmountCents, currency || defaultCurrency),
+    (acc, { totalDueAmountCents }) => acc + deserializeAmount(totalDueAmountCents, requestCurrency),
     0,
   )
   const totalInvoices = invoicesCollection.length
@@ -189,7 +222,7 @@ const CustomerRequestOverduePayment: FC = () => {
             'text_66b258f62100490d0eb5ca73',
             {
               amount: intlFormatNumber(totalAmount, {
-                currency: defaultCurrency,
+                currency: requestCurrency,
                 currencyDisplay: 'narrowSymbol',
               }),
               count: totalInvoices,
@@ -198,24 +231,30 @@ const CustomerRequestOverduePayment: FC = () => {
           )}
         </Typography>
 
-        <Button
-          variant="quaternary"
-          icon="close"
-          onClick={() =>
-            navigate(generatePath(CUSTOMER_DETAILS_ROUTE, { customerId: customerId ?? '' }))
-          }
-        />
+        <Button variant="quaternary" icon="close" onClick={() => navigate(customerRoute)} />
       </PageHeader.Wrapper>
 
       <main className="height-minus-nav-footer overflow-auto md:height-minus-nav md:flex md:overflow-auto">
         <section className="bg-white md:height-minus-nav-footer md:shrink md:grow md:basis-1/2 md:overflow-auto">
           {hasDunningIntegration && <FreemiumAlert />}
-          <div className="px-4 py-12 md:px-12">
+          <div className="flex flex-col gap-10 px-4 py-12 md:px-12">
+            {invoicesCurrencies.length > 1 && (
+              <ButtonSelector
+                label={translate('text_1792431395970zbggggs8vax')}
+                description={translate('text_1792431395973pa6nfbqqpfc')}
+                value={requestCurrency}
+                options={invoicesCurrencies.map((currency) => ({
+                  value: currency,
+                  label: currency,
+                }))}
+                onChange={(value) => setSelectedCurrency(value as CurrencyEnum)}
+              />
+            )}
             <RequestPaymentForm
               invoicesLoading={loading}
               formikProps={formikProps}
               overdueAmount={totalAmount}
-              currency={defaultCurrency}
+              currency={requestCurrency}
               invoices={invoicesCollection}
               lastSentDate={paymentRequests?.collection?.[0]}
             />
@@ -229,7 +268,7 @@ const CustomerRequestOverduePayment: FC = () => {
               customer={customer ?? undefined}
               organization={organization ?? undefined}
               overdueAmount={totalAmount}
-              currency={defaultCurrency}
+              currency={requestCurrency}
               invoices={invoicesCollection}
             />
           </div>
@@ -238,13 +277,7 @@ const CustomerRequestOverduePayment: FC = () => {
 
       <footer className="fixed bottom-0 z-navBar h-footer w-full bg-white shadow-t md:w-1/2">
         <div className="flex h-full items-center justify-end gap-3 px-4 md:px-12">
-          <Button
-            variant="quaternary"
-            size="large"
-            onClick={() =>
-              navigate(generatePath(CUSTOMER_DETAILS_ROUTE, { customerId: customerId ?? '' }))
-            }
-          >
+          <Button variant="quaternary" size="large" onClick={() => navigate(customerRoute)}>
             {translate('text_6411e6b530cb47007488b027')}
           </Button>
           <Button
@@ -2,22 +2,44 @@ import { gql } from '@apollo/client'
 import { useMemo, useRef } from 'react'
 import { generatePath, useNavigate, useSearchParams } from 'react-router-dom'
 
+import {
+  BulkCustomerCouponsDrawer,
+  BulkCustomerCouponsDrawerRef,
+  BulkCustomerCouponsSegment,
+} from '~/components/customers/BulkCustomerCouponsDrawer'
 import {
   DeleteCustomerDialog,
   DeleteCustomerDialogRef,
 } from '~/components/customers/DeleteCustomerDialog'
-import { computeCustomerInitials } from '~/components/customers/utils'
-import { Avatar, Button, InfiniteScroll, Table, Typography } from '~/components/designSystem'
+import { CustomerSegmentsPopper } from '~/components/customers/segments/CustomerSegmentsPopper'
+import { BulkCouponActionEnum, computeCustomerInitials } from '~/components/customers/utils'
+import {
+  Avatar,
+  Button,
+  InfiniteScroll,
+  Popper,
+  Table,
+  Typography,
+} from '~/components/designSystem'
 import {
   AvailableFiltersEnum,
   AvailableQuickFilters,
+  CustomerAvailableFilters,
   Filters,
+  formatActiveFilterValueDisplay,
   formatFiltersForCustomerQuery,
+  mapFilterToTranslationKey,
 } from '~/components/designSystem/Filters'
 import { PaymentProviderChip } from '~/components/PaymentProviderChip'
 import { SearchInput } from '~/components/SearchInput'
 import { CUSTOMER_LIST_FILTER_PREFIX } from '~/core/constants/filters'
-import { CREATE_CUSTOMER_ROUTE, CUSTOMER_DETAILS_ROUTE, UPDATE_CUSTOMER_ROUTE } from '~/core/router'
+import {
+  CREATE_CUSTOMER_ROUTE,
+  CUSTOMER_DETAILS_ROUTE,
+  CUSTOMER_DUPLICATES_ROUTE,
+  IMPORT_CUSTOMERS_ROUTE,
+  UPDATE_CUSTOMER_ROUTE,
+} from '~/core/router'
 import {
   AddCustomerDrawerFragmentDoc,
   CustomerAccountTypeEnum,
@@ -28,7 +50,7 @@ import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { useDebouncedSearch } from '~/hooks/useDebouncedSearch'
 import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
 import { usePermissions } from '~/hooks/usePermissions'
-import { PageHeader } from '~/styles'
+import { MenuPopper, PageHeader } from '~/styles'
 
 gql`
   fragment CustomerItem on Customer {
@@ -48,8 +70,35 @@ gql`
     $limit: Int
     $searchTerm: String
     $accountType: [CustomerAccountTypeEnum!]
+    $country: CountryCode
+    $currency: CurrencyEnum
+    $planCode: String
+    $subscriptionStatus: [StatusTypeEnum!]
+    $paymentProvider: ProviderTypeEnum
+    $hasOverdueInvoices: Boolean
+    $walletBalanceBelow: Float
+    $hasTaxIdentificationNumber: Boolean
+    $createdAtFrom: ISO8601DateTime
+    $createdAtTo: ISO8601DateTime
+    $metadata: [CustomerMetadataFilterInput!]
   ) {
-    customers(page: $page, limit: $limit, searchTerm: $searchTerm, accountType: $accountType) {
+    customers(
+      page: $page
+      limit: $limit
+      searchTerm: $searchTerm
+      accountType: $accountType
+      country: $country
+      currency: $currency
+      planCode: $planCode
+      subscriptionStatus: $subscriptionStatus
+      paymentProvider: $paymentProvider
+      hasOverdueInvoices: $hasOverdueInvoices
+      walletBalanceBelow: $walletBalanceBelow
+      hasTaxIdentificationNumber: $hasTaxIdentificationNumber
+      createdAtFrom: $createdAtFrom
+      createdAtTo: $createdAtTo
+      metadata: $metadata
+    ) {
       metadata {
         currentPage
         totalPages
@@ -90,6 +139,45 @@ const CustomersList = () => {
   })
 
   const deleteDialogRef = useRef<DeleteCustomerDialogRef>(null)
+  const bulkCouponsDrawerRef = useRef<BulkCustomerCouponsDrawerRef>(null)
+
+  const openBulkCouponsDrawer = (action: BulkCouponActionEnum) => {
+    const segmentLabels = Array.from(searchParams.entries()).reduce<string[]>(
+      (acc, [key, value]) => {
+        const filter = key.replace(`${CUSTOMER_LIST_FILTER_PREFIX}_`, '') as AvailableFiltersEnum
+
+        if (
+          !key.startsWith(CUSTOMER_LIST_FILTER_PREFIX) ||
+          !CustomerAvailableFilters.includes(filter)
+        ) {
+          return acc
+        }
+
+        return [
+          ...acc,
+          `${translate(mapFilterToTranslationKey(filter))}: ${formatActiveFilterValueDisplay(filter, value, translate)}`,
+        ]
+      },
+      [],
+    )
+
+    // The segment is the list as displayed, narrowed by the search
+    if (variables?.searchTerm) {
+      segmentLabels.push(
+        translate('text_1792434435034rsvyssnyt58', { searchTerm: variables.searchTerm }),
+      )
+    }
+
+    bulkCouponsDrawerRef.current?.openDrawer({
+      action,
+      segment: {
+        ...filtersForCustomerQuery,
+        accountType: variables?.accountType || undefined,
+        searchTerm: variables?.searchTerm || undefined,
+      } as BulkCustomerCouponsSegment,
+      segmentLabels,
+    })
+  }
 
   const { debouncedSearch, isLoading } = useDebouncedSearch(getCustomers, loading)
 
@@ -104,6 +192,65 @@ const CustomersList = () => {
             onChange={debouncedSearch}
             placeholder={translate('text_63befc65efcd9374da45b801')}
           />
+          <Popper
+            PopperProps={{ placement: 'bottom-end' }}
+            opener={
+              <Button variant="secondary" endIcon="chevron-down" data-test="customers-bulk-actions">
+                {translate('text_1792425798761gx9rsie1iid')}
+              </Button>
+            }
+          >
+            {({ closePopper }) => (
+              <MenuPopper>
+                {hasPermissions(['couponsAttach']) && (
+                  <Button
+                    variant="quaternary"
+                    align="left"
+                    onClick={() => {
+                      openBulkCouponsDrawer(BulkCouponActionEnum.apply)
+                      closePopper()
+                    }}
+                  >
+                    {translate('text_17924257987635n2cevs2i1o')}
+                  </Button>
+                )}
+                {hasPermissions(['couponsDetach']) && (
+                  <Button
+                    variant="quaternary"
+                    align="left"
+                    onClick={() => {
+                      openBulkCouponsDrawer(BulkCouponActionEnum.remove)
+                      closePopper()
+                    }}
+                  >
+                    {translate('text_1792425798765hbzqy2gbjc6')}
+                  </Button>
+                )}
+                {hasPermissions(['customersCreate']) && (
+                  <Button
+                    variant="quaternary"
+                    align="left"
+                    onClick={() => {
+                      navigate(IMPORT_CUSTOMERS_ROUTE)
+                      closePopper()
+                    }}
+                  >
+                    {translate('text_1792427782926hi2rqt5181x')}
+                  </Button>
+                )}
+                <Button
+                  variant="quaternary"
+                  align="left"
+                  onClick={() => {
+                    navigate(CUSTOMER_DUPLICATES_ROUTE)
+                    closePopper()
+                  }}
+                >
+                  {translate('text_1792428292081xz4bkuhsrmi')}
+                </Button>
+              </MenuPopper>
+            )}
+          </Popper>
           {hasPermissions(['customersCreate']) && (
             <Button data-test="create-customer" onClick={() => navigate(CREATE_CUSTOMER_ROUTE)}>
               {translate('text_1734452833961s338w0x3b4s')}
@@ -112,13 +259,17 @@ const CustomersList = () => {
         </div>
       </PageHeader.Wrapper>
 
-      <div className="px-12 py-3 shadow-b">
+      <div className="flex flex-col gap-3 px-12 py-3 shadow-b">
         <Filters.Provider
           filtersNamePrefix={CUSTOMER_LIST_FILTER_PREFIX}
           quickFiltersType={AvailableQuickFilters.customerAccountType}
-          availableFilters={[AvailableFiltersEnum.customerAccountType]}
+          availableFilters={CustomerAvailableFilters}
         >
-          <Filters.QuickFilters />
+          <div className="flex items-center gap-3">
+            <Filters.QuickFilters />
+            <CustomerSegmentsPopper />
+          </div>
+          <Filters.Component />
         </Filters.Provider>
       </div>
 
@@ -265,6 +416,7 @@ const CustomersList = () => {
       </InfiniteScroll>
 
       <DeleteCustomerDialog ref={deleteDialogRef} />
+      <BulkCustomerCouponsDrawer ref={bulkCouponsDrawerRef} />
     </div>
   )
 }
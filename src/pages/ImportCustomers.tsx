@@ -0,0 +1,599 @@
+import { gql, useApolloClient } from '@apollo/client'
+import chunk from 'lodash/chunk'
+import { ChangeEvent, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import {
+  ImportCustomersErrorsList,
+  ImportCustomersLineErrors,
+} from '~/components/customers/importCustomers/ImportCustomersErrorsList'
+import { ImportCustomersMappingTable } from '~/components/customers/importCustomers/ImportCustomersMappingTable'
+import {
+  getDefaultImportCustomersMapping,
+  getImportCustomerRows,
+  getImportCustomersErrorsCsv,
+  getImportCustomersMappingErrors,
+  ImportCustomerErrorEnum,
+  ImportCustomerRow,
+  ImportCustomersMapping,
+  mergeImportCustomerMetadata,
+} from '~/components/customers/importCustomers/utils'
+import { TRANSLATIONS_MAP_CUSTOMER_FIELD } from '~/components/customers/utils'
+import { Alert, Button, Chip, Typography } from '~/components/designSystem'
+import { CenteredPage } from '~/components/layouts/CenteredPage'
+import { WarningDialog, WarningDialogRef } from '~/components/WarningDialog'
+import { addToast, hasDefinedGQLError } from '~/core/apolloClient'
+import { CUSTOMERS_LIST_ROUTE } from '~/core/router'
+import { CsvRow, parseCsvRows } from '~/core/utils/csv'
+import { handleDownloadTextFile } from '~/core/utils/downloadFiles'
+import {
+  CreateCustomerInput,
+  CurrencyEnum,
+  CustomerMetadataInput,
+  GetCustomersForImportDocument,
+  GetCustomersForImportQuery,
+  GetCustomersForImportQueryVariables,
+  LagoApiError,
+  ProviderPaymentMethodsEnum,
+  useCreateCustomerMutation,
+  useUpdateCustomerMutation,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+
+gql`
+  query getCustomersForImport($page: Int, $limit: Int, $externalIds: [String!]) {
+    customers(page: $page, limit: $limit, externalIds: $externalIds) {
+      collection {
+        id
+        externalId
+        metadata {
+          id
+          key
+          value
+          displayInInvoice
+        }
+      }
+    }
+  }
+`
+
+// Existing customers are looked up by chunks of external IDs
+const EXISTING_CUSTOMERS_CHUNK_SIZE = 100
+// Number of customers created or updated in parallel
+const IMPORT_BATCH_SIZE = 20
+
+const IMPORT_CUSTOMER_ERROR_TRANSLATION_KEYS: Record<ImportCustomerErrorEnum, string> = {
+  [ImportCustomerErrorEnum.required]: 'text_1792427782851495dt3z5pvi',
+  [ImportCustomerErrorEnum.invalidEmail]: 'text_1792427782853y5vnv969fal',
+  [ImportCustomerErrorEnum.invalidValue]: 'text_1792427782855k11mjpxfbo6',
+  [ImportCustomerErrorEnum.invalidMetadata]: 'text_1792427782857gcianed8cyj',
+  [ImportCustomerErrorEnum.invalidPaymentProvider]: 'text_1792427782859yylq46rgrl9',
+  [ImportCustomerErrorEnum.duplicatedExternalId]: 'text_1792427782861is4v7dxh655',
+}
+
+enum ImportCustomersStepEnum {
+  upload = 'upload',
+  mapping = 'mapping',
+  report = 'report',
+  import = 'import',
+}
+
+enum ImportCustomerResultStatusEnum {
+  created = 'created',
+  updated = 'updated',
+  failed = 'failed',
+}
+
+type ImportCustomerResult = {
+  line: number
+  externalId: string
+  status: ImportCustomerResultStatusEnum
+  errorTranslationKey?: string
+}
+
+type ExistingImportCustomer = {
+  id: string
+  metadata: CustomerMetadataInput[]
+}
+
+// Sends the values the customer form would send for the imported fields
+const getMutationInput = (input: CreateCustomerInput): CreateCustomerInput => {
+  const { providerCustomer, ...customerInput } = input
+
+  if (!input.paymentProvider) return customerInput
+
+  return {
+    ...customerInput,
+    providerCustomer: {
+      providerCustomerId: providerCustomer?.providerCustomerId,
+      syncWithProvider: false,
+      providerPaymentMethods:
+        input.currency === CurrencyEnum.Eur
+          ? [ProviderPaymentMethodsEnum.Card, ProviderPaymentMethodsEnum.SepaDebit]
+          : [ProviderPaymentMethodsEnum.Card],
+    },
+  }
+}
+
+const ImportCustomers = () => {
+  const { translate } = useInternationalization()
+  const navigate = useNavigate()
+  const client = useApolloClient()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const warningDialogRef = useRef<WarningDialogRef>(null)
+  const shouldStopRef = useRef(false)
+  const [step, setStep] = useState<ImportCustomersStepEnum>(ImportCustomersStepEnum.upload)
+  const [fileName, setFileName] = useState<string>()
+  const [csvRows, setCsvRows] = useState<CsvRow[]>([])
+  const [mapping, setMapping] = useState<ImportCustomersMapping>([])
+  const [rows, setRows] = useState<ImportCustomerRow[]>([])
+  // Existing customers, by external ID
+  const [existingCustomers, setExistingCustomers] = useState<
+    Record<string, ExistingImportCustomer>
+  >({})
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [isRunning, setIsRunning] = useState(false)
+  const [results, setResults] = useState<ImportCustomerResult[]>([])
+
+  const [createCustomer] = useCreateCustomerMutation({
+    context: {
+      silentErrorCodes: [LagoApiError.UnprocessableEntity, LagoApiError.ValueAlreadyExist],
+    },
+  })
+  const [updateCustomer] = useUpdateCustomerMutation({
+    context: {
+      silentErrorCodes: [LagoApiError.UnprocessableEntity, LagoApiError.ValueAlreadyExist],
+    },
+  })
+
+  const [{ cells: headers = [] } = {}, { cells: sampleRow = [] } = {}] = csvRows
+  const { isExternalIdMissing, duplicatedFields } = getImportCustomersMappingErrors(mapping)
+  const validRows = rows.filter(({ errors }) => !errors.length)
+  const invalidRows = rows.filter(({ errors }) => !!errors.length)
+  const toUpdateCount = validRows.filter(
+    ({ input }) => !!existingCustomers[input.externalId],
+  ).length
+
+  const validationLineErrors: ImportCustomersLineErrors[] = invalidRows.map(
+    ({ line, input, errors }) => ({
+      line,
+      externalId: input.externalId,
+      errors: errors.map(({ field, error }) =>
+        translate(IMPORT_CUSTOMER_ERROR_TRANSLATION_KEYS[error], {
+          field: translate(TRANSLATIONS_MAP_CUSTOMER_FIELD[field]),
+        }),
+      ),
+    }),
+  )
+  const importLineErrors: ImportCustomersLineErrors[] = results
+    .filter(({ status }) => status === ImportCustomerResultStatusEnum.failed)
+    .map(({ line, externalId, errorTranslationKey }) => ({
+      line,
+      externalId,
+      errors: [translate(errorTranslationKey || '')],
+    }))
+  const allLineErrors = [...validationLineErrors, ...importLineErrors].sort(
+    (a, b) => a.line - b.line,
+  )
+
+  const countByStatus = (status: ImportCustomerResultStatusEnum) =>
+    results.filter((result) => result.status === status).length
+  const progress = validRows.length ? Math.round((results.length / validRows.length) * 100) : 0
+
+  const onClose = () => navigate(CUSTOMERS_LIST_ROUTE)
+
+  const onAbort = () => {
+    if (isRunning) return
+
+    step === ImportCustomersStepEnum.upload || step === ImportCustomersStepEnum.import
+      ? onClose()
+      : warningDialogRef.current?.openDialog()
+  }
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+
+    // Allow selecting the same file again after editing it
+    event.target.value = ''
+
+    if (!file) return
+
+    const content = parseCsvRows(await file.text())
+
+    setFileName(file.name)
+    setCsvRows(content)
+    setMapping(getDefaultImportCustomersMapping(content[0]?.cells || []))
+    setStep(ImportCustomersStepEnum.mapping)
+  }
+
+  const getLinesRange = (chunkRows: ImportCustomerRow[]) => ({
+    firstLine: chunkRows[0]?.line,
+    lastLine: chunkRows[chunkRows.length - 1]?.line,
+  })
+
+  const onAnalyze = async () => {
+    setIsAnalyzing(true)
+
+    const importRows = getImportCustomerRows(csvRows, mapping)
+    const existingCustomersByExternalId: Record<string, ExistingImportCustomer> = {}
+    let rowsChunk: ImportCustomerRow[] = []
+
+    try {
+      for (rowsChunk of chunk(
+        importRows.filter(({ errors }) => !errors.length),
+        EXISTING_CUSTOMERS_CHUNK_SIZE,
+      )) {
+        const { data } = await client.query<
+          GetCustomersForImportQuery,
+          GetCustomersForImportQueryVariables
+        >({
+          query: GetCustomersForImportDocument,
+          variables: {
+            externalIds: rowsChunk.map(({ input }) => input.externalId),
+            limit: EXISTING_CUSTOMERS_CHUNK_SIZE,
+          },
+          fetchPolicy: 'no-cache',
+        })
+
+        data?.customers.collection.forEach(({ id, externalId, metadata }) => {
+          existingCustomersByExternalId[externalId] = {
+            id,
+            metadata: (metadata || []).map(({ id: metadataId, key, value, displayInInvoice }) => ({
+              id: metadataId,
+              key,
+              value,
+              displayInInvoice,
+            })),
+          }
+        })
+      }
+
+      setRows(importRows)
+      setExistingCustomers(existingCustomersByExternalId)
+      setStep(ImportCustomersStepEnum.report)
+    } catch {
+      addToast({
+        severity: 'danger',
+        message: translate('text_1792431038470zu07pu1jrq0', getLinesRange(rowsChunk)),
+      })
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }
+
+  const importRow = async ({ line, input }: ImportCustomerRow): Promise<ImportCustomerResult> => {
+    const existingCustomer = existingCustomers[input.externalId]
+    const mutationInput = getMutationInput(input)
+
+    const { errors } = existingCustomer
+      ? await updateCustomer({
+          variables: {
+            input: {
+              ...mutationInput,
+              id: existingCustomer.id,
+              metadata: mergeImportCustomerMetadata(existingCustomer.metadata, input.metadata),
+            },
+          },
+        })
+      : await createCustomer({ variables: { input: mutationInput } })
+
+    if (errors?.length) {
+      return {
+        line,
+        externalId: input.externalId,
+        status: ImportCustomerResultStatusEnum.failed,
+        errorTranslationKey: hasDefinedGQLError('ValueAlreadyExist', errors)
+          ? 'text_1792427782863m1eldbuc5mx'
+          : 'text_179242778286589e2v94m9ef',
+      }
+    }
+
+    return {
+      line,
+      externalId: input.externalId,
+      status: existingCustomer
+        ? ImportCustomerResultStatusEnum.updated
+        : ImportCustomerResultStatusEnum.created,
+    }
+  }
+
+  const onImport = async () => {
+    shouldStopRef.current = false
+    setIsRunning(true)
+    setResults([])
+    setStep(ImportCustomersStepEnum.import)
+
+    let batch: ImportCustomerRow[] = []
+
+    try {
+      for (batch of chunk(validRows, IMPORT_BATCH_SIZE)) {
+        if (shouldStopRef.current) break
+
+        const batchResults = await Promise.all(batch.map(importRow))
+
+        setResults((previousResults) => [...previousResults, ...batchResults])
+      }
+    } catch {
+      addToast({
+        severity: 'danger',
+        message: translate('text_1792431038472pmz66wek22c', getLinesRange(batch)),
+      })
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const onDownloadErrors = () =>
+    handleDownloadTextFile({
+      content: getImportCustomersErrorsCsv(allLineErrors),
+      fileName: `${(fileName || 'customers').replace(/\.[^.]+$/, '')}_errors.csv`,
+      mimeType: 'text/csv',
+    })
+
+  return (
+    <CenteredPage.Wrapper>
+      <CenteredPage.Header>
+        <Typography variant="bodyHl" color="textSecondary" noWrap>
+          {translate('text_1792427782868frhgv4uz8c6')}
+        </Typography>
+        <Button variant="quaternary" icon="close" disabled={isRunning} onClick={onAbort} />
+      </CenteredPage.Header>
+
+      <CenteredPage.Container>
+        <div className="not-last-child:mb-1">
+          <Typography variant="headline" color="textSecondary">
+            {translate('text_1792427782868frhgv4uz8c6')}
+          </Typography>
+          <Typography variant="body">{translate('text_1792427782870acplngduiy4')}</Typography>
+        </div>
+
+        {step === ImportCustomersStepEnum.upload && (
+          <div className="flex flex-col gap-4">
+            <Alert type="info">{translate('text_17924277828721fav5p0haq1')}</Alert>
+            <input
+              ref={fileInputRef}
+              hidden
+              type="file"
+              accept=".csv,.txt,text/csv"
+              onChange={onFileChange}
+            />
+            <div>
+              <Button
+                variant="secondary"
+                startIcon="paperclip"
+                onClick={() => fileInputRef.current?.click()}
+                data-test="import-customers-upload"
+              >
+                {translate('text_1792427782874909guavx6zm')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === ImportCustomersStepEnum.mapping && (
+          <div className="flex flex-col gap-4">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex flex-col">
+                <Typography variant="subhead">
+                  {translate('text_17924277828762om5pw2gbf4')}
+                </Typography>
+                <Typography variant="caption" color="grey600">
+                  {translate(
+                    'text_1792427782878mame01hn06a',
+                    { count: csvRows.length - 1, fileName },
+                    csvRows.length - 1,
+                  )}
+                </Typography>
+              </div>
+              <Button
+                variant="quaternary"
+                size="small"
+                startIcon="paperclip"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                {translate('text_1792427782880wuz6g51zmda')}
+              </Button>
+              <input
+                ref={fileInputRef}
+                hidden
+                type="file"
+                accept=".csv,.txt,text/csv"
+                onChange={onFileChange}
+              />
+            </div>
+            {csvRows.length < 2 ? (
+              <Alert type="warning">{translate('text_179242778288272surgfad07')}</Alert>
+            ) : (
+              <ImportCustomersMappingTable
+                headers={headers}
+                sampleRow={sampleRow}
+                mapping={mapping}
+                onChange={setMapping}
+              />
+            )}
+          </div>
+        )}
+
+        {step === ImportCustomersStepEnum.report && (
+          <div className="flex flex-col gap-4" data-test="import-customers-report">
+            <div className="flex flex-col">
+              <Typography variant="subhead">
+                {translate('text_17924277828859euuvjg1vpt')}
+              </Typography>
+              <Typography variant="caption" color="grey600">
+                {translate('text_17924277828874d8wgbi5ih5')}
+              </Typography>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Chip
+                size="small"
+                label={translate('text_1792427782889dw9i1nbbfc6', {
+                  count: validRows.length - toUpdateCount,
+                })}
+              />
+              <Chip
+                size="small"
+                label={translate('text_1792427782891w9fj1pq7isg', { count: toUpdateCount })}
+              />
+              <Chip
+                size="small"
+                error={!!invalidRows.length}
+                label={translate('text_1792427782893ttwtlqq26ng', { count: invalidRows.length })}
+              />
+            </div>
+            {!!invalidRows.length && (
+              <Alert
+                type="warning"
+                ButtonProps={{
+                  label: translate('text_1792427782895apes0g2n2q5'),
+                  onClick: onDownloadErrors,
+                }}
+              >
+                {translate('text_179242778289831henvg56y8')}
+              </Alert>
+            )}
+            <ImportCustomersErrorsList lineErrors={validationLineErrors} />
+          </div>
+        )}
+
+        {step === ImportCustomersStepEnum.import && (
+          <div className="flex flex-col gap-4" data-test="import-customers-results">
+            <div className="flex flex-col gap-2">
+              <div className="flex items-center justify-between">
+                <Typography variant="subhead">
+                  {translate('text_1792427782900uzi4nl2254g')}
+                </Typography>
+                <Typography variant="caption" color="grey600">
+                  {translate('text_1792427782902w9xhu3spxdd', {
+                    processedCount: results.length,
+                    totalCount: validRows.length,
+                  })}
+                </Typography>
+              </div>
+              <div className="h-2 w-full overflow-hidden rounded-full bg-grey-200">
+                <div className="h-full bg-green-600" style={{ width: `${progress}%` }} />
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Chip
+                  size="small"
+                  label={translate('text_1792427782904jxfoikzzisd', {
+                    count: countByStatus(ImportCustomerResultStatusEnum.created),
+                  })}
+                />
+                <Chip
+                  size="small"
+                  label={translate('text_1792427782906pku7i7zn967', {
+                    count: countByStatus(ImportCustomerResultStatusEnum.updated),
+                  })}
+                />
+                <Chip
+                  size="small"
+                  error={!!allLineErrors.length}
+                  label={translate('text_179242778290967fvkpf7ny7', {
+                    count: allLineErrors.length,
+                  })}
+                />
+              </div>
+            </div>
+
+            {!isRunning && results.length < validRows.length && (
+              <Alert type="warning">{translate('text_1792427782911a8u4r936lci')}</Alert>
+            )}
+
+            {!isRunning && !!allLineErrors.length && (
+              <Alert
+                type="warning"
+                ButtonProps={{
+                  label: translate('text_1792427782895apes0g2n2q5'),
+                  onClick: onDownloadErrors,
+                }}
+              >
+                {translate('text_179242778291358ru7rkm3n4')}
+              </Alert>
+            )}
+
+            <ImportCustomersErrorsList lineErrors={allLineErrors} />
+          </div>
+        )}
+      </CenteredPage.Container>
+
+      <CenteredPage.StickyFooter>
+        {step === ImportCustomersStepEnum.mapping && (
+          <>
+            <Button size="large" variant="quaternary" onClick={onAbort}>
+              {translate('text_62e79671d23ae6ff149de968')}
+            </Button>
+            <Button
+              size="large"
+              variant="primary"
+              disabled={csvRows.length < 2 || isExternalIdMissing || !!duplicatedFields.length}
+              loading={isAnalyzing}
+              onClick={onAnalyze}
+              data-test="import-customers-analyze"
+            >
+              {translate('text_17924277829151d1e9h73oeu')}
+            </Button>
+          </>
+        )}
+
+        {step === ImportCustomersStepEnum.report && (
+          <>
+            <Button
+              size="large"
+              variant="quaternary"
+              onClick={() => setStep(ImportCustomersStepEnum.mapping)}
+            >
+              {translate('text_1792427782917akiyl0grr2w')}
+            </Button>
+            <Button
+              size="large"
+              variant="primary"
+              disabled={!validRows.length}
+              onClick={onImport}
+              data-test="import-customers-run"
+            >
+              {translate(
+                'text_1792427782919y7p70zqlt34',
+                { count: validRows.length },
+                validRows.length,
+              )}
+            </Button>
+          </>
+        )}
+
+        {step === ImportCustomersStepEnum.import &&
+          (isRunning ? (
+            <Button
+              size="large"
+              variant="quaternary"
+              onClick={() => {
+                shouldStopRef.current = true
+              }}
+            >
+              {translate('text_1792427782921ljoiig1cu6v')}
+            </Button>
+          ) : (
+            <Button size="large" variant="primary" onClick={onClose}>
+              {translate('text_1792427782924be1fm04uli7')}
+            </Button>
+          ))}
+
+        {step === ImportCustomersStepEnum.upload && (
+          <Button size="large" variant="quaternary" onClick={onClose}>
+            {translate('text_62e79671d23ae6ff149de968')}
+          </Button>
+        )}
+      </CenteredPage.StickyFooter>
+
+      <WarningDialog
+        ref={warningDialogRef}
+        title={translate('text_665deda4babaf700d603ea13')}
+        description={translate('text_665dedd557dc3c00c62eb83d')}
+        continueText={translate('text_645388d5bdbd7b00abffa033')}
+        onContinue={onClose}
+      />
+    </CenteredPage.Wrapper>
+  )
+}
+
+export default ImportCustomers
@@ -15,6 +15,7 @@ import {
 import { DeletePlanDialog, DeletePlanDialogRef } from '~/components/plans/DeletePlanDialog'
 import PlanDetailsOverview from '~/components/plans/details/PlanDetailsOverview'
 import PlanSubscriptionList from '~/components/plans/details/PlanSubscriptionList'
+import PlanVersionHistory from '~/components/plans/details/PlanVersionHistory'
 import { updateDuplicatePlanVar } from '~/core/apolloClient'
 import { PlanDetailsTabsOptionsEnum } from '~/core/constants/tabsOptions'
 import {
@@ -25,12 +26,14 @@ import {
   PLANS_ROUTE,
   UPDATE_PLAN_ROUTE,
 } from '~/core/router'
+import { PlanExportFormatEnum } from '~/core/serializers/serializePlanExport'
 import {
   DeletePlanDialogFragment,
   DeletePlanDialogFragmentDoc,
   useGetPlanForDetailsQuery,
 } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePlanExport } from '~/hooks/plans/usePlanExport'
 import { usePermissions } from '~/hooks/usePermissions'
 import { MenuPopper, PageHeader, theme } from '~/styles'
 
@@ -56,6 +59,7 @@ const PlanDetails = () => {
   const { customerId, planId, subscriptionId } = useParams()
   const { translate } = useInternationalization()
   const deletePlanDialogRef = useRef<DeletePlanDialogRef>(null)
+  const { exportPlan } = usePlanExport()
   const { data: planResult, loading: isPlanLoading } = useGetPlanForDetailsQuery({
     variables: { planId: planId as string },
     skip: !planId,
@@ -136,6 +140,26 @@ const PlanDetails = () => {
                 >
                   {translate('text_65281f686a80b400c8e2f6b6')}
                 </Button>
+                <Button
+                  variant="quaternary"
+                  align="left"
+                  onClick={() => {
+                    exportPlan(plan?.id as string, PlanExportFormatEnum.json)
+                    closePopper()
+                  }}
+                >
+                  {translate('text_1792420966700ucmxbhertp2')}
+                </Button>
+                <Button
+                  variant="quaternary"
+                  align="left"
+                  onClick={() => {
+                    exportPlan(plan?.id as string, PlanExportFormatEnum.yaml)
+                    closePopper()
+                  }}
+                >
+                  {translate('text_1792420966703h4rdxzmhskb')}
+                </Button>
                 <Button
                   variant="quaternary"
                   align="left"
@@ -226,6 +250,24 @@ const PlanDetails = () => {
               </ContentContainer>
             ),
           },
+          {
+            title: translate('text_1792420479298zh6w3ue7n2c'),
+            link: generatePath(PLAN_DETAILS_ROUTE, {
+              planId: planId as string,
+              tab: PlanDetailsTabsOptionsEnum.history,
+            }),
+            match: [
+              generatePath(PLAN_DETAILS_ROUTE, {
+                planId: planId as string,
+                tab: PlanDetailsTabsOptionsEnum.history,
+              }),
+            ],
+            component: (
+              <ContentContainer>
+                <PlanVersionHistory planId={planId} />
+              </ContentContainer>
+            ),
+          },
         ]}
       />
       <DeletePlanDialog ref={deletePlanDialogRef} />
@@ -0,0 +1,116 @@
+import { useApolloClient } from '@apollo/client'
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+
+import { Button, Skeleton, Typography } from '~/components/designSystem'
+import { GenericPlaceholder } from '~/components/GenericPlaceholder'
+import { PlansComparisonTable } from '~/components/plans/PlansComparisonTable'
+import {
+  MAX_COMPARED_PLANS,
+  MIN_COMPARED_PLANS,
+  PLANS_COMPARISON_SEARCH_PARAM,
+} from '~/components/plans/utils'
+import { PLANS_ROUTE } from '~/core/router'
+import {
+  EditPlanFragment,
+  GetSinglePlanDocument,
+  GetSinglePlanQuery,
+  GetSinglePlanQueryVariables,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import EmptyImage from '~/public/images/maneki/empty.svg'
+import ErrorImage from '~/public/images/maneki/error.svg'
+import { PageHeader } from '~/styles'
+
+const PlansComparison = () => {
+  const { translate } = useInternationalization()
+  const navigate = useNavigate()
+  const client = useApolloClient()
+  const [searchParams] = useSearchParams()
+  const [plans, setPlans] = useState<EditPlanFragment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [hasError, setHasError] = useState(false)
+  const planIdsParam = searchParams.get(PLANS_COMPARISON_SEARCH_PARAM) || ''
+  const planIds = useMemo(
+    () => Array.from(new Set(planIdsParam.split(',').filter(Boolean))).slice(0, MAX_COMPARED_PLANS),
+    [planIdsParam],
+  )
+
+  useEffect(() => {
+    if (planIds.length < MIN_COMPARED_PLANS) return setIsLoading(false)
+
+    setIsLoading(true)
+    setHasError(false)
+
+    Promise.all(
+      planIds.map((id) =>
+        client.query<GetSinglePlanQuery, GetSinglePlanQueryVariables>({
+          query: GetSinglePlanDocument,
+          variables: { id },
+        }),
+      ),
+    )
+      .then((results) => {
+        setPlans(results.flatMap(({ data }) => (data.plan ? [data.plan] : [])))
+      })
+      .catch(() => setHasError(true))
+      .finally(() => setIsLoading(false))
+  }, [client, planIds])
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="flex flex-col gap-4">
+          {[0, 1, 2, 3].map((i) => (
+            <Skeleton key={`plans-comparison-skeleton-${i}`} variant="text" className="w-full" />
+          ))}
+        </div>
+      )
+    }
+
+    if (hasError) {
+      return (
+        <GenericPlaceholder
+          title={translate('text_629728388c4d2300e2d380d5')}
+          subtitle={translate('text_629728388c4d2300e2d380eb')}
+          buttonTitle={translate('text_629728388c4d2300e2d38110')}
+          buttonVariant="primary"
+          buttonAction={() => location.reload()}
+          image={<ErrorImage width="136" height="104" />}
+        />
+      )
+    }
+
+    if (plans.length < MIN_COMPARED_PLANS) {
+      return (
+        <GenericPlaceholder
+          title={translate('text_1792421856870lyosfphp5qk')}
+          subtitle={translate('text_1792421856872wkasw6zg5nh')}
+          buttonTitle={translate('text_1792421856874srikftpumi8')}
+          buttonVariant="primary"
+          buttonAction={() => navigate(PLANS_ROUTE)}
+          image={<EmptyImage width="136" height="104" />}
+        />
+      )
+    }
+
+    return <PlansComparisonTable plans={plans} />
+  }
+
+  return (
+    <>
+      <PageHeader.Wrapper>
+        <PageHeader.Group className="overflow-hidden">
+          <Button icon="arrow-left" variant="quaternary" onClick={() => navigate(PLANS_ROUTE)} />
+          <Typography variant="bodyHl" color="textSecondary" noWrap>
+            {translate('text_1792421856855oqawyiz3pi7')}
+          </Typography>
+        </PageHeader.Group>
+      </PageHeader.Wrapper>
+
+      <div className="overflow-auto px-4 pb-20 md:px-12">{renderContent()}</div>
+    </>
+  )
+}
+
+export default PlansComparison
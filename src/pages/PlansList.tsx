@@ -1,22 +1,39 @@
 import { gql } from '@apollo/client'
-import { useRef } from 'react'
+import { useRef, useState } from 'react'
 import { generatePath, useNavigate } from 'react-router-dom'
 
 import {
   Avatar,
+  Button,
   ButtonLink,
+  Chip,
   Icon,
   InfiniteScroll,
   Table,
+  Tooltip,
   Typography,
 } from '~/components/designSystem'
+import { Checkbox } from '~/components/form'
 import { DeletePlanDialog, DeletePlanDialogRef } from '~/components/plans/DeletePlanDialog'
+import { ImportPlanDialog, ImportPlanDialogRef } from '~/components/plans/ImportPlanDialog'
+import {
+  MAX_COMPARED_PLANS,
+  MIN_COMPARED_PLANS,
+  PLANS_COMPARISON_SEARCH_PARAM,
+} from '~/components/plans/utils'
 import { SearchInput } from '~/components/SearchInput'
 import { updateDuplicatePlanVar } from '~/core/apolloClient/reactiveVars/duplicatePlanVar'
 import { PlanDetailsTabsOptionsEnum } from '~/core/constants/tabsOptions'
-import { CREATE_PLAN_ROUTE, PLAN_DETAILS_ROUTE, UPDATE_PLAN_ROUTE } from '~/core/router'
+import {
+  CREATE_PLAN_ROUTE,
+  PLAN_DETAILS_ROUTE,
+  PLANS_COMPARISON_ROUTE,
+  UPDATE_PLAN_ROUTE,
+} from '~/core/router'
+import { PlanExportFormatEnum } from '~/core/serializers/serializePlanExport'
 import { DeletePlanDialogFragmentDoc, usePlansLazyQuery } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { usePlanExport } from '~/hooks/plans/usePlanExport'
 import { useDebouncedSearch } from '~/hooks/useDebouncedSearch'
 import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
 import { usePermissions } from '~/hooks/usePermissions'
@@ -30,11 +47,21 @@ gql`
     chargesCount
     activeSubscriptionsCount
     createdAt
+    amountCurrency
+    currencyVariants {
+      id
+      amountCurrency
+    }
     ...DeletePlanDialog
   }
 
-  query plans($page: Int, $limit: Int, $searchTerm: String) {
-    plans(page: $page, limit: $limit, searchTerm: $searchTerm) {
+  query plans($page: Int, $limit: Int, $searchTerm: String, $isCurrencyVariant: Boolean) {
+    plans(
+      page: $page
+      limit: $limit
+      searchTerm: $searchTerm
+      isCurrencyVariant: $isCurrencyVariant
+    ) {
       metadata {
         currentPage
         totalPages
@@ -54,8 +81,12 @@ const PlansList = () => {
   const { hasPermissions } = usePermissions()
   const { formatTimeOrgaTZ } = useOrganizationInfos()
   const deleteDialogRef = useRef<DeletePlanDialogRef>(null)
+  const importDialogRef = useRef<ImportPlanDialogRef>(null)
+  const { exportPlan } = usePlanExport()
+  const [comparedPlanIds, setComparedPlanIds] = useState<string[]>([])
   const [getPlans, { data, error, loading, fetchMore, variables }] = usePlansLazyQuery({
-    variables: { limit: 20 },
+    // Currency variants are listed with the plan they belong to
+    variables: { limit: 20, isCurrencyVariant: false },
     notifyOnNetworkStatusChange: true,
     fetchPolicy: 'network-only',
     nextFetchPolicy: 'network-only',
@@ -75,10 +106,30 @@ const PlansList = () => {
             onChange={debouncedSearch}
             placeholder={translate('text_63bee1cc88d85f04deb0d63c')}
           />
+          {!!comparedPlanIds.length && (
+            <Button
+              variant="secondary"
+              disabled={comparedPlanIds.length < MIN_COMPARED_PLANS}
+              onClick={() =>
+                navigate(
+                  `${PLANS_COMPARISON_ROUTE}?${new URLSearchParams({
+                    [PLANS_COMPARISON_SEARCH_PARAM]: comparedPlanIds.join(','),
+                  })}`,
+                )
+              }
+            >
+              {translate('text_1792421856851lwz2naosnpz', { count: comparedPlanIds.length })}
+            </Button>
+          )}
           {hasPermissions(['plansCreate']) && (
-            <ButtonLink type="button" to={CREATE_PLAN_ROUTE} data-test="create-plan">
-              {translate('text_62442e40cea25600b0b6d84c')}
-            </ButtonLink>
+            <>
+              <Button variant="secondary" onClick={() => importDialogRef.current?.openDialog()}>
+                {translate('text_17924209667059jz0vpvhakt')}
+              </Button>
+              <ButtonLink type="button" to={CREATE_PLAN_ROUTE} data-test="create-plan">
+                {translate('text_62442e40cea25600b0b6d84c')}
+              </ButtonLink>
+            </>
           )}
         </PageHeader.Group>
       </PageHeader.Wrapper>
@@ -112,6 +163,43 @@ const PlansList = () => {
             })
           }
           columns={[
+            {
+              key: 'id',
+              title: '',
+              minWidth: 40,
+              content: ({ id }) => {
+                const isCompared = comparedPlanIds.includes(id)
+                const isMaxReached = comparedPlanIds.length >= MAX_COMPARED_PLANS
+
+                return (
+                  // Selecting a plan must not open its details
+                  // eslint-disable-next-line jsx-a11y/click-events-have-key-events, jsx-a11y/no-static-element-interactions
+                  <div onClick={(e) => e.stopPropagation()}>
+                    <Tooltip
+                      placement="top-start"
+                      title={translate(
+                        isMaxReached && !isCompared
+                          ? 'text_1792421856853snkjoy757j5'
+                          : 'text_17924218568489ctiacamn8g',
+                        { max: MAX_COMPARED_PLANS },
+                      )}
+                    >
+                      <Checkbox
+                        name={`compare-plan-${id}`}
+                        label=""
+                        value={isCompared}
+                        disabled={isMaxReached && !isCompared}
+                        onChange={(_, checked) =>
+                          setComparedPlanIds((prev) =>
+                            checked ? [...prev, id] : prev.filter((planId) => planId !== id),
+                          )
+                        }
+                      />
+                    </Tooltip>
+                  </div>
+                )
+              },
+            },
             {
               key: 'name',
               title: translate('text_62442e40cea25600b0b6d852'),
@@ -133,6 +221,23 @@ const PlansList = () => {
                 </div>
               ),
             },
+            {
+              key: 'amountCurrency',
+              title: translate('text_17924233244483olzhpbuokh'),
+              minWidth: 160,
+              content: ({ amountCurrency, currencyVariants }) => (
+                <div className="flex flex-wrap items-center gap-1">
+                  <Chip label={amountCurrency} />
+                  {currencyVariants?.map((currencyVariant) => (
+                    <Chip
+                      key={`plan-currency-variant-${currencyVariant.id}`}
+                      type="secondary"
+                      label={currencyVariant.amountCurrency}
+                    />
+                  ))}
+                </div>
+              ),
+            },
             {
               key: 'activeSubscriptionsCount',
               title: translate('text_62d95e42c1e1dfe7376fdf35'),
@@ -189,6 +294,16 @@ const PlansList = () => {
                       navigate(CREATE_PLAN_ROUTE)
                     },
                   },
+                  {
+                    startIcon: 'download',
+                    title: translate('text_1792420966700ucmxbhertp2'),
+                    onAction: () => exportPlan(plan.id, PlanExportFormatEnum.json),
+                  },
+                  {
+                    startIcon: 'download',
+                    title: translate('text_1792420966703h4rdxzmhskb'),
+                    onAction: () => exportPlan(plan.id, PlanExportFormatEnum.yaml),
+                  },
                   {
                     startIcon: 'trash',
                     title: translate('text_625fd39a15394c0117e7d794'),
@@ -233,6 +348,7 @@ const PlansList = () => {
       </InfiniteScroll>
 
       <DeletePlanDialog ref={deleteDialogRef} />
+      <ImportPlanDialog ref={importDialogRef} />
     </>
   )
 }
@@ -0,0 +1,194 @@
+import { gql } from '@apollo/client'
+import { generatePath, useNavigate, useParams } from 'react-router-dom'
+import styled from 'styled-components'
+
+import { Button, Skeleton, Typography } from '~/components/designSystem'
+import { DetailsHeader, DetailsHeaderSkeleton } from '~/components/details/DetailsHeader'
+import SkeletonDetailsPage from '~/components/SkeletonDetailsPage'
+import { TaxRateTimeline } from '~/components/taxes/TaxRateTimeline'
+import { getScheduledTaxRateChanges } from '~/components/taxes/utils'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { TAXES_SETTINGS_ROUTE, UPDATE_TAX_ROUTE } from '~/core/router'
+import { TaxRateChangeItemFragmentDoc, useGetTaxForDetailsQuery } from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
+import { usePermissions } from '~/hooks/usePermissions'
+import { PageHeader, theme } from '~/styles'
+import { DetailsInfoGrid, DetailsSectionTitle } from '~/styles/detailsPage'
+
+gql`
+  query getTaxForDetails($id: ID!) {
+    tax(id: $id) {
+      id
+      name
+      code
+      description
+      rate
+      autoGenerated
+      customersCount
+      plansCount
+      addOnsCount
+      chargesCount
+      rateChanges {
+        id
+        ...TaxRateChangeItem
+      }
+    }
+  }
+
+  ${TaxRateChangeItemFragmentDoc}
+`
+
+const formatRate = (rate: number) => intlFormatNumber(rate / 100, { style: 'percent' })
+
+const TaxDetails = () => {
+  const navigate = useNavigate()
+  const { taxId } = useParams()
+  const { hasPermissions } = usePermissions()
+  const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
+  const { data, loading } = useGetTaxForDetailsQuery({
+    variables: { id: taxId as string },
+    skip: !taxId,
+  })
+
+  const tax = data?.tax
+  const nextRateChange = getScheduledTaxRateChanges(tax?.rateChanges || [])[0]
+  const canEdit = hasPermissions(['organizationTaxesUpdate'])
+
+  return (
+    <>
+      <PageHeader.Wrapper withSide>
+        <PageHeader.Group className="overflow-hidden">
+          <Button
+            icon="arrow-left"
+            variant="quaternary"
+            onClick={() => {
+              navigate(TAXES_SETTINGS_ROUTE)
+            }}
+          />
+          {loading && !tax ? (
+            <Skeleton variant="text" className="w-50" />
+          ) : (
+            <Typography variant="bodyHl" color="textSecondary" noWrap>
+              {tax?.name}
+            </Typography>
+          )}
+        </PageHeader.Group>
+
+        {canEdit && !!tax && (
+          <Button
+            variant="secondary"
+            onClick={() => navigate(generatePath(UPDATE_TAX_ROUTE, { taxId: tax.id }))}
+          >
+            {translate('text_645bb193927b375079d28b7c')}
+          </Button>
+        )}
+      </PageHeader.Wrapper>
+
+      {loading && !tax ? (
+        <DetailsHeaderSkeleton />
+      ) : (
+        <DetailsHeader
+          icon="percentage"
+          title={tax?.name || ''}
+          description={`${tax?.code || ''} - ${formatRate(tax?.rate || 0)}`}
+        />
+      )}
+
+      <Container>
+        {loading && !tax ? (
+          <SkeletonDetailsPage />
+        ) : (
+          <>
+            <section>
+              <DetailsSectionTitle variant="subhead" noWrap>
+                {translate('text_664cb90097bfa800e6efa3e4')}
+              </DetailsSectionTitle>
+              <DetailsInfoGrid
+                grid={[
+                  {
+                    label: translate('text_645bb193927b375079d28ab1'),
+                    value: tax?.name,
+                  },
+                  {
+                    label: translate('text_645bb193927b375079d28aea'),
+                    value: tax?.code,
+                  },
+                  {
+                    label: translate('text_1792426849318w0qxrcfhp9e'),
+                    value: formatRate(tax?.rate || 0),
+                  },
+                  {
+                    label: translate('text_17924268493205eqdy4v09d6'),
+                    value: nextRateChange
+                      ? translate('text_1792426849322j7pp9awwss1', {
+                          rate: formatRate(nextRateChange.rate),
+                          date: formatTimeOrgaTZ(nextRateChange.effectiveAt),
+                        })
+                      : '-',
+                  },
+                  !!tax?.description && {
+                    label: translate('text_645bb193927b375079d28b22'),
+                    value: tax.description,
+                  },
+                ]}
+              />
+            </section>
+
+            <section>
+              <DetailsSectionTitle variant="subhead" noWrap>
+                {translate('text_17924268493253scktcftak7')}
+              </DetailsSectionTitle>
+              <DetailsInfoGrid
+                grid={[
+                  {
+                    label: translate('text_1792426849327oac7d6r9mad'),
+                    value: tax?.customersCount,
+                  },
+                  {
+                    label: translate('text_17924268493299zksq30j2ux'),
+                    value: tax?.plansCount,
+                  },
+                  {
+                    label: translate('text_1792426849331lpx6wd9z5c8'),
+                    value: tax?.addOnsCount,
+                  },
+                  {
+                    label: translate('text_1792426849333q5yfvccaz0m'),
+                    value: tax?.chargesCount,
+                  },
+                ]}
+              />
+            </section>
+
+            {!!tax && (
+              <section className="flex flex-col gap-4">
+                <div className="flex flex-col">
+                  <DetailsSectionTitle variant="subhead" noWrap>
+                    {translate('text_1792426849335246hs4f7sbf')}
+                  </DetailsSectionTitle>
+                  <Typography variant="caption" color="grey600">
+                    {translate('text_17924268493379z30yg2x5hr')}
+                  </Typography>
+                </div>
+                <TaxRateTimeline taxId={tax.id} rateChanges={tax.rateChanges} canCancel={canEdit} />
+              </section>
+            )}
+          </>
+        )}
+      </Container>
+    </>
+  )
+}
+
+export default TaxDetails
+
+const Container = styled.section`
+  display: flex;
+  flex-direction: column;
+  gap: ${theme.spacing(12)};
+
+  padding: 0 ${theme.spacing(12)} ${theme.spacing(12)};
+  max-width: 672px;
+`
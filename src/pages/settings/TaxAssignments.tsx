@@ -0,0 +1,277 @@
+import { gql } from '@apollo/client'
+import { debounce } from 'lodash'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+
+import {
+  Avatar,
+  Button,
+  Chip,
+  Icon,
+  InfiniteScroll,
+  Table,
+  Typography,
+} from '~/components/designSystem'
+import { TextInput } from '~/components/form'
+import { GenericPlaceholder } from '~/components/GenericPlaceholder'
+import { PageBannerHeaderWithBurgerMenu } from '~/components/layouts/CenteredPage'
+import {
+  SettingsListItem,
+  SettingsListItemHeader,
+  SettingsListWrapper,
+  SettingsPaddedContainer,
+  SettingsPageHeaderContainer,
+} from '~/components/layouts/Settings'
+import { EffectiveTaxesSimulator } from '~/components/taxes/EffectiveTaxesSimulator'
+import {
+  TaxAssignmentsDrawer,
+  TaxAssignmentsDrawerRef,
+} from '~/components/taxes/TaxAssignmentsDrawer'
+import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
+import { TAXES_SETTINGS_ROUTE } from '~/core/router'
+import {
+  TaxForTaxAssignmentsDrawerFragmentDoc,
+  useGetTaxesForTaxAssignmentsLazyQuery,
+} from '~/generated/graphql'
+import { useInternationalization } from '~/hooks/core/useInternationalization'
+import { DEBOUNCE_SEARCH_MS } from '~/hooks/useDebouncedSearch'
+import ErrorImage from '~/public/images/maneki/error.svg'
+
+gql`
+  query getTaxesForTaxAssignments($limit: Int, $page: Int, $rate: Float) {
+    taxes(limit: $limit, page: $page, rate: $rate, order: "name") {
+      metadata {
+        currentPage
+        totalPages
+      }
+      collection {
+        id
+        appliedToOrganization
+        ...TaxForTaxAssignmentsDrawer
+      }
+    }
+  }
+
+  ${TaxForTaxAssignmentsDrawerFragmentDoc}
+`
+
+// An empty filter lists the taxes of every rate
+const parseRateFilter = (value: string) => {
+  if (value === '') return { rate: undefined, isValid: true }
+
+  const rate = Number(value)
+
+  return { rate, isValid: !isNaN(rate) && rate >= 0 }
+}
+
+const TaxAssignments = () => {
+  const navigate = useNavigate()
+  const { translate } = useInternationalization()
+  const drawerRef = useRef<TaxAssignmentsDrawerRef>(null)
+  const [rateFilter, setRateFilter] = useState<string>('')
+  const [getTaxes, { data, error, loading, fetchMore }] = useGetTaxesForTaxAssignmentsLazyQuery({
+    variables: { limit: 20 },
+    notifyOnNetworkStatusChange: true,
+  })
+  const { isValid: isRateFilterValid } = parseRateFilter(rateFilter)
+
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const debouncedGetTaxes = useCallback(
+    // We want to delay the query execution, to prevent sending a query on every key down
+    debounce((rate?: number) => {
+      getTaxes({ variables: { rate } })
+    }, DEBOUNCE_SEARCH_MS),
+    [getTaxes],
+  )
+
+  useEffect(() => {
+    getTaxes()
+
+    return () => {
+      debouncedGetTaxes.cancel()
+    }
+  }, [getTaxes, debouncedGetTaxes])
+
+  const { metadata, collection } = data?.taxes || {}
+
+  if (!!error && !loading) {
+    return (
+      <GenericPlaceholder
+        title={translate('text_629728388c4d2300e2d380d5')}
+        subtitle={translate('text_629728388c4d2300e2d380eb')}
+        buttonTitle={translate('text_629728388c4d2300e2d38110')}
+        buttonVariant="primary"
+        buttonAction={() => location.reload()}
+        image={<ErrorImage width="136" height="104" />}
+      />
+    )
+  }
+
+  return (
+    <>
+      <PageBannerHeaderWithBurgerMenu>
+        <div className="flex items-center gap-3">
+          <Button
+            icon="arrow-left"
+            variant="quaternary"
+            onClick={() => {
+              navigate(TAXES_SETTINGS_ROUTE)
+            }}
+          />
+          <Typography variant="bodyHl" color="grey700">
+            {translate('text_1792427313934struk31nvlm')}
+          </Typography>
+        </div>
+      </PageBannerHeaderWithBurgerMenu>
+
+      <SettingsPaddedContainer>
+        <SettingsPageHeaderContainer>
+          <Typography variant="headline">{translate('text_1792427313934struk31nvlm')}</Typography>
+          <Typography>{translate('text_17924273139368ct69fxy88t')}</Typography>
+        </SettingsPageHeaderContainer>
+
+        <SettingsListWrapper>
+          <SettingsListItem>
+            <SettingsListItemHeader
+              label={translate('text_17924273139386gefwpx6mqd')}
+              sublabel={translate('text_179242731394187kkvagkjkj')}
+              action={
+                <TextInput
+                  className="max-w-40"
+                  type="number"
+                  placeholder={translate('text_1792427313943u0xzw17z5dc')}
+                  value={rateFilter}
+                  error={
+                    !isRateFilterValid ? translate('text_624ea7c29103fd010732ab7d') : undefined
+                  }
+                  onChange={(value) => {
+                    const { rate, isValid } = parseRateFilter(value)
+
+                    setRateFilter(value)
+
+                    if (isValid) debouncedGetTaxes(rate)
+                  }}
+                  cleanable
+                />
+              }
+            />
+
+            <InfiniteScroll
+              onBottom={() => {
+                const { currentPage = 0, totalPages = 0 } = metadata || {}
+
+                currentPage < totalPages &&
+                  !loading &&
+                  fetchMore({
+                    variables: { page: currentPage + 1 },
+                  })
+              }}
+            >
+              <Table
+                name="tax-assignments-matrix"
+                containerSize={{ default: 0 }}
+                rowSize={72}
+                isLoading={loading}
+                data={collection || []}
+                placeholder={{
+                  emptyState: {
+                    title: translate('text_1792427313945vbm3e8m8kj5'),
+                    subtitle: translate('text_17924273139474siqdoe0f2i'),
+                  },
+                }}
+                columns={[
+                  {
+                    key: 'name',
+                    title: translate('text_17280312664187sb64qzmyhy'),
+                    maxSpace: true,
+                    content: ({ name, code }) => (
+                      <div className="flex flex-1 items-center gap-3">
+                        <Avatar size="big" variant="connector">
+                          <Icon size="medium" name="percentage" color="dark" />
+                        </Avatar>
+                        <div>
+                          <Typography color="textSecondary" variant="bodyHl" noWrap>
+                            {name}
+                          </Typography>
+                          <Typography variant="caption" noWrap>
+                            {code}
+                          </Typography>
+                        </div>
+                      </div>
+                    ),
+                  },
+                  {
+                    key: 'rate',
+                    textAlign: 'right',
+                    title: translate('text_64de472463e2da6b31737de0'),
+                    content: ({ rate }) => (
+                      <Typography variant="body" color="grey700">
+                        {intlFormatNumber(rate / 100, { style: 'percent' })}
+                      </Typography>
+                    ),
+                  },
+                  {
+                    key: 'appliedToOrganization',
+                    title: translate('text_17924273139493ig3a7helt4'),
+                    content: ({ appliedToOrganization }) =>
+                      appliedToOrganization ? (
+                        <Chip size="small" label={translate('text_1792427313951r7143bcwsoh')} />
+                      ) : (
+                        <Typography variant="body" color="grey600">
+                          -
+                        </Typography>
+                      ),
+                  },
+                  {
+                    key: 'customersCount',
+                    textAlign: 'right',
+                    title: translate('text_1792427313866ma086gw5s4a'),
+                    content: ({ customersCount }) => customersCount,
+                  },
+                  {
+                    key: 'plansCount',
+                    textAlign: 'right',
+                    title: translate('text_17924273138684d70ekuddmc'),
+                    content: ({ plansCount }) => plansCount,
+                  },
+                  {
+                    key: 'chargesCount',
+                    textAlign: 'right',
+                    title: translate('text_1792427313870lf6e3696ud8'),
+                    content: ({ chargesCount }) => chargesCount,
+                  },
+                  {
+                    key: 'addOnsCount',
+                    textAlign: 'right',
+                    title: translate('text_1792427313872genit4zd8y7'),
+                    content: ({ addOnsCount }) => addOnsCount,
+                  },
+                ]}
+                actionColumnTooltip={() => translate('text_1792427313953704okz8s9tf')}
+                actionColumn={(tax) => [
+                  {
+                    title: translate('text_1792427313953704okz8s9tf'),
+                    startIcon: 'eye',
+                    onAction: () => drawerRef.current?.openDrawer(tax),
+                  },
+                ]}
+              />
+            </InfiniteScroll>
+          </SettingsListItem>
+
+          <SettingsListItem>
+            <SettingsListItemHeader
+              label={translate('text_1792427313930phu2wm3j5ka')}
+              sublabel={translate('text_1792427313932hnje7rcrfnb')}
+            />
+            <EffectiveTaxesSimulator />
+          </SettingsListItem>
+        </SettingsListWrapper>
+      </SettingsPaddedContainer>
+
+      <TaxAssignmentsDrawer ref={drawerRef} />
+    </>
+  )
+}
+
+export default TaxAssignments
@@ -23,8 +23,14 @@ import {
   SettingsPageHeaderContainer,
 } from '~/components/layouts/Settings'
 import { DeleteTaxDialog, DeleteTaxDialogRef } from '~/components/taxes/DeleteTaxDialog'
+import { getScheduledTaxRateChanges } from '~/components/taxes/utils'
 import { intlFormatNumber } from '~/core/formats/intlFormatNumber'
-import { CREATE_TAX_ROUTE, UPDATE_TAX_ROUTE } from '~/core/router'
+import {
+  CREATE_TAX_ROUTE,
+  TAX_ASSIGNMENTS_SETTINGS_ROUTE,
+  TAX_DETAILS_ROUTE,
+  UPDATE_TAX_ROUTE,
+} from '~/core/router'
 import {
   DeleteTaxFragmentDoc,
   TaxItemForTaxSettingsFragment,
@@ -32,6 +38,7 @@ import {
 } from '~/generated/graphql'
 import { useInternationalization } from '~/hooks/core/useInternationalization'
 import { useIntegrations } from '~/hooks/useIntegrations'
+import { useOrganizationInfos } from '~/hooks/useOrganizationInfos'
 import { usePermissions } from '~/hooks/usePermissions'
 import ErrorImage from '~/public/images/maneki/error.svg'
 
@@ -42,6 +49,11 @@ gql`
     name
     rate
     autoGenerated
+    rateChanges {
+      id
+      rate
+      effectiveAt
+    }
 
     ...DeleteTax
   }
@@ -67,6 +79,7 @@ const TaxesSettings = () => {
   const { hasPermissions } = usePermissions()
   const { hasTaxProvider } = useIntegrations()
   const { translate } = useInternationalization()
+  const { formatTimeOrgaTZ } = useOrganizationInfos()
   const deleteDialogRef = useRef<DeleteTaxDialogRef>(null)
   const { data, error, loading, fetchMore } = useGetTaxesSettingsInformationsQuery({
     variables: {
@@ -121,7 +134,16 @@ const TaxesSettings = () => {
                   label={translate('text_645bb193927b375079d28ae8')}
                   sublabel={translate('text_645ca29272ea80007df9d7af')}
                   action={
-                    <>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="quaternary"
+                        disabled={loading}
+                        onClick={() => {
+                          navigate(TAX_ASSIGNMENTS_SETTINGS_ROUTE)
+                        }}
+                      >
+                        {translate('text_17924273139550z248ydfxp0')}
+                      </Button>
                       {hasPermissions(['organizationTaxesUpdate']) && (
                         <Button
                           variant="quaternary"
@@ -134,7 +156,7 @@ const TaxesSettings = () => {
                           {translate('text_645bb193927b375079d28ad2')}
                         </Button>
                       )}
-                    </>
+                    </div>
                   }
                 />
 
@@ -157,6 +179,7 @@ const TaxesSettings = () => {
                       rowSize={72}
                       isLoading={loading}
                       data={collection}
+                      onRowActionLink={({ id }) => generatePath(TAX_DETAILS_ROUTE, { taxId: id })}
                       columns={[
                         {
                           key: 'name',
@@ -182,13 +205,29 @@ const TaxesSettings = () => {
                           key: 'rate',
                           textAlign: 'right',
                           title: translate('text_64de472463e2da6b31737de0'),
-                          content: ({ rate }) => (
-                            <Typography variant="body" color="grey700">
-                              {intlFormatNumber((rate || 0) / 100, {
-                                style: 'percent',
-                              })}
-                            </Typography>
-                          ),
+                          content: ({ rate, rateChanges }) => {
+                            const nextRateChange = getScheduledTaxRateChanges(rateChanges)[0]
+
+                            return (
+                              <div className="flex flex-col items-end">
+                                <Typography variant="body" color="grey700">
+                                  {intlFormatNumber((rate || 0) / 100, {
+                                    style: 'percent',
+                                  })}
+                                </Typography>
+                                {!!nextRateChange && (
+                                  <Typography variant="caption" color="grey600" noWrap>
+                                    {translate('text_1792426849322j7pp9awwss1', {
+                                      rate: intlFormatNumber(nextRateChange.rate / 100, {
+                                        style: 'percent',
+                                      }),
+                                      date: formatTimeOrgaTZ(nextRateChange.effectiveAt),
+                                    })}
+                                  </Typography>
+                                )}
+                              </div>
+                            )
+                          },
                         },
                       ]}
                       actionColumnTooltip={(tax) =>